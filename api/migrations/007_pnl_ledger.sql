@@ -0,0 +1,28 @@
+-- 007: PnL 账本
+-- 逐笔记录平仓交易（实际成交价 + 手续费）与资金费结算，每日汇总拆分毛利/手续费/资金费
+
+CREATE TABLE IF NOT EXISTS strategy_pnl_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  instance_id VARCHAR(64) NOT NULL,
+  strategy_type VARCHAR(32) NOT NULL,
+  symbol VARCHAR(32) NOT NULL,
+  entry_type VARCHAR(16) NOT NULL,
+  direction VARCHAR(8),
+  entry_order_id VARCHAR(64),
+  exit_order_id VARCHAR(64),
+  entry_price DECIMAL(20, 8),
+  exit_price DECIMAL(20, 8),
+  size DECIMAL(20, 8),
+  gross_pnl DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  fee DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  funding DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  net_pnl DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  bill_id VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_pnl_ledger_instance ON strategy_pnl_ledger(instance_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_strategy_pnl_ledger_bill ON strategy_pnl_ledger(bill_id) WHERE bill_id IS NOT NULL;
+
+ALTER TABLE strategy_daily_pnl ADD COLUMN IF NOT EXISTS gross_pnl DECIMAL(20, 8) DEFAULT 0;
+ALTER TABLE strategy_daily_pnl ADD COLUMN IF NOT EXISTS funding DECIMAL(20, 8) DEFAULT 0;
@@ -0,0 +1,8 @@
+-- 008: 策略事件按实例持久化
+-- 事件流写入 strategy_events，支持按实例 / 类型 / 时间范围查询与游标分页
+
+ALTER TABLE strategy_events ADD COLUMN IF NOT EXISTS instance_id VARCHAR(64);
+ALTER TABLE strategy_events ADD COLUMN IF NOT EXISTS strategy_type VARCHAR(32);
+ALTER TABLE strategy_events ADD COLUMN IF NOT EXISTS symbol VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_events_instance ON strategy_events(instance_id, id);
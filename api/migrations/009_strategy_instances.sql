@@ -0,0 +1,18 @@
+-- 009: 策略实例运行状态
+-- 记录每个实例的配置与运行状态，服务重启后恢复 RUNNING 实例，并保存启动对账报告
+
+CREATE TABLE IF NOT EXISTS strategy_instances (
+  instance_id VARCHAR(64) PRIMARY KEY,
+  strategy_type VARCHAR(32) NOT NULL,
+  trading_type VARCHAR(32) NOT NULL,
+  symbol VARCHAR(32) NOT NULL,
+  config JSONB NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'STOPPED',
+  last_resume_report JSONB,
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_instances_status ON strategy_instances(status);
+CREATE INDEX IF NOT EXISTS idx_strategy_orders_symbol_status ON strategy_orders(symbol, status);
@@ -0,0 +1,15 @@
+-- 010: K 线历史存储
+-- 按交易对 / 市场 / 周期保存已收盘 K 线，深度历史查询先读库，缺口再分页拉取交易所
+
+CREATE TABLE IF NOT EXISTS market_candles (
+  symbol VARCHAR(32) NOT NULL,
+  market VARCHAR(32) NOT NULL,
+  granularity VARCHAR(8) NOT NULL,
+  open_time BIGINT NOT NULL,
+  open DECIMAL(30, 12) NOT NULL,
+  high DECIMAL(30, 12) NOT NULL,
+  low DECIMAL(30, 12) NOT NULL,
+  close DECIMAL(30, 12) NOT NULL,
+  volume DECIMAL(30, 12) NOT NULL DEFAULT 0,
+  PRIMARY KEY (symbol, market, granularity, open_time)
+);
@@ -0,0 +1,15 @@
+-- 011: 市场状态监管
+-- 记录监管配置、当前模式与受监管实例，服务重启后恢复 RUNNING 的监管并接管已恢复的实例
+
+CREATE TABLE IF NOT EXISTS regime_supervisors (
+  supervisor_id VARCHAR(64) PRIMARY KEY,
+  symbol VARCHAR(32) NOT NULL,
+  config JSONB NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'STOPPED',
+  mode VARCHAR(16),
+  active_instance_id VARCHAR(64),
+  mode_since TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_regime_supervisors_status ON regime_supervisors(status);
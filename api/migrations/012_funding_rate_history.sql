@@ -0,0 +1,7 @@
+-- 012: 资金费率采集
+-- 区分产品线，并按 (symbol, product_type, funding_time) 去重，重复采集同一结算记录时覆盖
+
+ALTER TABLE funding_rate_history ADD COLUMN IF NOT EXISTS product_type VARCHAR(32) NOT NULL DEFAULT 'USDT-FUTURES';
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_funding_rate_symbol_product_time
+  ON funding_rate_history(symbol, product_type, funding_time);
@@ -0,0 +1,27 @@
+-- 013: 交易日志
+-- 每笔完成的往返交易（入场 → 出场）一行；合并出场单的来源记录在 merged_from
+
+CREATE TABLE IF NOT EXISTS strategy_trades (
+  id BIGSERIAL PRIMARY KEY,
+  instance_id VARCHAR(64) NOT NULL,
+  strategy_type VARCHAR(32) NOT NULL,
+  symbol VARCHAR(32) NOT NULL,
+  direction VARCHAR(8) NOT NULL,
+  entry_order_id VARCHAR(64),
+  exit_order_id VARCHAR(64) NOT NULL,
+  entry_price DECIMAL(20, 8) NOT NULL,
+  exit_price DECIMAL(20, 8) NOT NULL,
+  size DECIMAL(20, 8) NOT NULL,
+  fees DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  gross_pnl DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  net_pnl DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  opened_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ NOT NULL,
+  hold_ms BIGINT,
+  merged_from JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_strategy_trades_exit ON strategy_trades(instance_id, exit_order_id);
+CREATE INDEX IF NOT EXISTS idx_strategy_trades_closed ON strategy_trades(closed_at);
+CREATE INDEX IF NOT EXISTS idx_strategy_trades_symbol ON strategy_trades(symbol, closed_at);
@@ -0,0 +1,6 @@
+-- 014: 策略订单记录所属实例
+-- 记账导出按实例所属交易账户筛选策略订单；此前写入的订单 instance_id 为空，视为默认账户
+
+ALTER TABLE strategy_orders ADD COLUMN IF NOT EXISTS instance_id VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_orders_instance ON strategy_orders(instance_id);
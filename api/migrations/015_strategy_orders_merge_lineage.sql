@@ -0,0 +1,4 @@
+-- 015: 合并出场单来源随订单持久化
+-- 合并单（及其被撤后改挂的市价平仓单）没有单一入场单，重启恢复时据此载回来源，成交后才能合成入场单记账
+
+ALTER TABLE strategy_orders ADD COLUMN IF NOT EXISTS merge_lineage JSONB;
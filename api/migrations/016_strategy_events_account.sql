@@ -0,0 +1,28 @@
+-- 016: 策略事件记录所属交易账户
+-- 事件写入时记下账户，查询按该列过滤；监管事件涉及网格/剥头皮两套配置，可能对应两个账户，故为数组
+-- 历史事件按实例配置、监管配置、组合风控事件 data.accountId 回填，仍无法确定的（早于多账户）视为默认账户
+
+ALTER TABLE strategy_events ADD COLUMN IF NOT EXISTS account_ids TEXT[];
+
+UPDATE strategy_events e
+SET account_ids = ARRAY[COALESCE(NULLIF(si.config->>'accountId', ''), 'default')]
+FROM strategy_instances si
+WHERE si.instance_id = e.instance_id AND e.account_ids IS NULL;
+
+UPDATE strategy_events e
+SET account_ids = ARRAY[
+  COALESCE(NULLIF(rs.config->'gridConfig'->>'accountId', ''), 'default'),
+  COALESCE(NULLIF(rs.config->'scalpingConfig'->>'accountId', ''), 'default')
+]
+FROM regime_supervisors rs
+WHERE rs.supervisor_id = e.instance_id AND e.account_ids IS NULL;
+
+UPDATE strategy_events
+SET account_ids = ARRAY[COALESCE(NULLIF(data->>'accountId', ''), 'default')]
+WHERE instance_id = 'portfolio' AND account_ids IS NULL;
+
+UPDATE strategy_events SET account_ids = ARRAY['default'] WHERE account_ids IS NULL;
+
+ALTER TABLE strategy_events ALTER COLUMN account_ids SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_strategy_events_accounts ON strategy_events USING GIN (account_ids);
@@ -0,0 +1,6 @@
+-- 017: 监管配置 closeOnSwitch 更名为 closeOnStop
+-- 模式切换时旧实例总是平仓，该项只决定停止监管时是否平仓，旧名称已名不副实
+
+UPDATE regime_supervisors
+SET config = (config - 'closeOnSwitch') || jsonb_build_object('closeOnStop', config->'closeOnSwitch')
+WHERE config ? 'closeOnSwitch';
@@ -0,0 +1,70 @@
+/**
+ * 回测命令行入口
+ *
+ * 用法:
+ *   pnpm backtest --config config.json [--candles candles.json | --ticks ticks.json]
+ *                 [--balance 1000] [--partial-fill 0.5] [--spread-ticks 1] [--out result.json]
+ *
+ * 未提供 --candles / --ticks 时从交易所拉取最近 K 线（需配置 API 凭证）
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { readFileSync, writeFileSync } from 'fs';
+
+// 加载环境变量
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
+
+import { BacktestService } from '../services/backtest.service';
+import { BacktestRequest } from '../types/backtest.types';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (key.startsWith('--')) {
+      args[key.slice(2)] = argv[i + 1] ?? '';
+      i++;
+    }
+  }
+  return args;
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf-8')) as T;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.config) {
+    console.error('用法: pnpm backtest --config <config.json> [--candles <file> | --ticks <file>] [--balance <n>] [--out <file>]');
+    process.exit(1);
+  }
+
+  const request: BacktestRequest = {
+    config: readJson(args.config),
+    candles: args.candles ? readJson(args.candles) : undefined,
+    ticks: args.ticks ? readJson(args.ticks) : undefined,
+    granularity: args.granularity as BacktestRequest['granularity'],
+    limit: args.limit ? parseInt(args.limit, 10) : undefined,
+    initialBalance: args.balance,
+    partialFillRatio: args['partial-fill'] ? parseFloat(args['partial-fill']) : undefined,
+    spreadTicks: args['spread-ticks'] ? parseInt(args['spread-ticks'], 10) : undefined,
+    leverage: args.leverage ? parseFloat(args.leverage) : undefined,
+  };
+
+  const result = await BacktestService.getInstance().run(request);
+  const output = JSON.stringify(result, null, 2);
+  if (args.out) {
+    writeFileSync(args.out, output);
+    console.log(`回测结果已写入 ${args.out}`);
+  } else {
+    console.log(output);
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('回测失败:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
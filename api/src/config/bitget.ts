@@ -2,6 +2,7 @@
  * Bitget API 配置和客户端初始化
  * 优先从 SystemConfigService（数据库）读取，env 作为 fallback
  * 支持双 Profile（simulated / real）切换
+ * 默认账户之外的命名账户由 BitgetAccountService 注册到内存（按 accountId 取配置）
  */
 
 import dotenv from 'dotenv';
@@ -20,6 +21,9 @@ export interface BitgetConfig {
 
 export type BitgetProfile = 'simulated' | 'real';
 
+/** 默认账户：即活跃 Profile / env 中的凭证 */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
 /** Profile 凭证在 DB 中的 key 前缀映射 */
 const PROFILE_KEY_MAP: Record<BitgetProfile, { apiKey: string; secretKey: string; passphrase: string }> = {
   simulated: {
@@ -38,11 +42,22 @@ const ACTIVE_PROFILE_KEY = 'BITGET_ACTIVE_PROFILE';
 
 let cachedConfig: BitgetConfig | null = null;
 
+/** 命名账户配置（accountId → 凭证） */
+const accountConfigs = new Map<string, BitgetConfig>();
+
 /**
  * 获取 Bitget API 配置（同步 — 使用环境变量或已预加载的缓存）
- * 验证所有必要的配置存在
+ * 验证所有必要的配置存在；指定命名账户时返回该账户的凭证
  */
-export function getBitgetConfig(): BitgetConfig {
+export function getBitgetConfig(accountId: string = DEFAULT_ACCOUNT_ID): BitgetConfig {
+  if (accountId !== DEFAULT_ACCOUNT_ID) {
+    const accountConfig = accountConfigs.get(accountId);
+    if (!accountConfig) {
+      throw new Error(`Bitget 账户 "${accountId}" 未配置凭证`);
+    }
+    return accountConfig;
+  }
+
   if (cachedConfig) return cachedConfig;
 
   const apiKey = process.env.BITGET_API_KEY;
@@ -65,6 +80,17 @@ export function getBitgetConfig(): BitgetConfig {
   return cachedConfig;
 }
 
+/**
+ * 注册 / 移除命名账户的运行时配置（null 为移除）
+ */
+export function setAccountConfig(accountId: string, config: BitgetConfig | null): void {
+  if (config) {
+    accountConfigs.set(accountId, config);
+  } else {
+    accountConfigs.delete(accountId);
+  }
+}
+
 /**
  * 获取指定 profile 的凭证 DB key 列表
  */
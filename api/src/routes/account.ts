@@ -1,10 +1,12 @@
 /**
  * 账户资产路由
+ * 均支持 ?accountId= 查询指定交易账户（未指定为默认账户）
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { CapitalManagerService } from '../services/capital-manager.service';
 import { FuturesAccountService } from '../services/futures-account.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
 
 const router = Router();
 
@@ -16,7 +18,8 @@ const router = Router();
 router.get('/assets', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const coin = req.query.coin as string | undefined;
-    const service = new CapitalManagerService();
+    const accountId = BitgetAccountService.getInstance().resolveAccountId(req.user, req.query.accountId);
+    const service = new CapitalManagerService(accountId);
     const assets = await service.getAccountAssets(coin);
 
     res.json({
@@ -35,7 +38,8 @@ router.get('/assets', async (req: Request, res: Response, next: NextFunction) =>
 router.get('/balance/:coin', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { coin } = req.params;
-    const service = new CapitalManagerService();
+    const accountId = BitgetAccountService.getInstance().resolveAccountId(req.user, req.query.accountId);
+    const service = new CapitalManagerService(accountId);
     const available = await service.getAvailableBalance(coin);
 
     res.json({
@@ -53,8 +57,9 @@ router.get('/balance/:coin', async (req: Request, res: Response, next: NextFunct
  */
 router.get('/all-balances', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const capitalService = new CapitalManagerService();
-    const futuresService = new FuturesAccountService();
+    const accountId = BitgetAccountService.getInstance().resolveAccountId(req.user, req.query.accountId);
+    const capitalService = new CapitalManagerService(accountId);
+    const futuresService = new FuturesAccountService(accountId);
 
     const [spotResult, futuresSResult, futuresUResult] = await Promise.allSettled([
       capitalService.getAvailableBalance('USDT'),
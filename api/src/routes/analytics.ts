@@ -0,0 +1,153 @@
+/**
+ * 策略绩效分析 REST API
+ * 通用 Query: instanceId?, symbol?, strategyType?, startTime?, endTime?(ms 或 ISO), initialCapital?
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { AnalyticsService } from '../services/analytics.service';
+import { AnalyticsPeriod, AnalyticsQuery } from '../types/analytics.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { parseTimeParam } from '../utils/query-params';
+import { BitgetAccountService } from '../services/bitget-account.service';
+
+const router = Router();
+
+const PERIODS: AnalyticsPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * 解析筛选条件，并限定为当前用户可访问账户下的实例
+ */
+function parseAnalyticsQuery(req: Request): AnalyticsQuery {
+  const query = req.query;
+  let initialCapital: number | undefined;
+  if (query.initialCapital !== undefined && query.initialCapital !== '') {
+    initialCapital = parseFloat(query.initialCapital as string);
+    if (!(initialCapital > 0)) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        'initialCapital 必须为正数',
+        { initialCapital: query.initialCapital },
+        400
+      );
+    }
+  }
+
+  return {
+    instanceId: (query.instanceId as string) || undefined,
+    symbol: (query.symbol as string) || undefined,
+    strategyType: (query.strategyType as string) || undefined,
+    startTime: parseTimeParam(query.startTime, 'startTime'),
+    endTime: parseTimeParam(query.endTime, 'endTime'),
+    initialCapital,
+    accountIds: BitgetAccountService.getInstance().accessibleAccountIds(req.user) ?? undefined,
+  };
+}
+
+/**
+ * GET /api/analytics/report
+ * 完整报告：汇总指标、权益曲线、回撤区间、日/周/月收益、分时段表现
+ */
+router.get('/report', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/analytics/summary
+ * 汇总指标（夏普/索提诺、最大回撤及持续天数、盈亏比、期望、平均持仓时间）
+ */
+router.get('/summary', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report.metrics,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/analytics/equity
+ * 按日权益曲线（含回撤）
+ */
+router.get('/equity', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report.equityCurve,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/analytics/returns
+ * 周期收益
+ * Query: period = daily | weekly | monthly（默认 daily）
+ */
+router.get('/returns', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const period = ((req.query.period as string) || 'daily') as AnalyticsPeriod;
+    if (!PERIODS.includes(period)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `period 必须是 ${PERIODS.join('/')} 之一`, { period }, 400);
+    }
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report.returns[period],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/analytics/drawdowns
+ * 回撤历史（按时间先后，最后一段可能尚未恢复）
+ */
+router.get('/drawdowns', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report.drawdowns,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/analytics/hourly
+ * 按 UTC 小时统计的交易笔数、净盈亏与胜率
+ */
+router.get('/hourly', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await AnalyticsService.getInstance().getReport(parseAnalyticsQuery(req));
+
+    res.json({
+      success: true,
+      data: report.hourly,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+/**
+ * 回测 REST API
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { BacktestService } from '../services/backtest.service';
+import { BacktestRequest } from '../types/backtest.types';
+import { AppError, ErrorCode } from '../utils/errors';
+
+const router = Router();
+
+/**
+ * POST /api/backtest
+ * 离线回测剥头皮/网格策略
+ * Body: { config, candles? | ticks?, granularity?, limit?, initialBalance?, partialFillRatio?, spreadTicks?, leverage?, spec? }
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as BacktestRequest;
+    if (!body || typeof body.config !== 'object' || body.config === null) {
+      throw new AppError(ErrorCode.BACKTEST_INVALID_INPUT, '缺少策略配置 config', undefined, 400);
+    }
+
+    const result = await BacktestService.getInstance().run(body);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
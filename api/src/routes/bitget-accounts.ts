@@ -0,0 +1,119 @@
+/**
+ * Bitget 交易账户 REST API
+ * 普通用户只能看到 / 测试被授权的账户；新建、修改、删除与授权需管理员
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { StrategyManager } from '../strategy/strategy-manager';
+import { BitgetAccountInput } from '../types/bitget-account.types';
+import { adminRequired } from '../middleware/auth.middleware';
+import { AppError, ErrorCode } from '../utils/errors';
+
+const router = Router();
+
+/**
+ * GET /api/bitget-accounts
+ * 当前用户可见的交易账户（不含凭证，仅 API Key 末 4 位）
+ */
+router.get('/', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: BitgetAccountService.getInstance().list(req.user!),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/bitget-accounts
+ * 新建命名账户（管理员）
+ * Body: { id, name?, apiKey, secretKey, passphrase, simulated?, description?, grantedUserIds? }
+ */
+router.post('/', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const account = await BitgetAccountService.getInstance().create(
+      (req.body || {}) as BitgetAccountInput,
+      req.user?.username
+    );
+
+    res.json({
+      success: true,
+      data: account,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/bitget-accounts/:accountId
+ * 修改账户名称、模拟盘标记、授权用户或凭证（管理员；未提供的字段不变）
+ * 运行中的实例需重启后才使用新凭证
+ */
+router.put('/:accountId', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const account = await BitgetAccountService.getInstance().update(
+      req.params.accountId,
+      (req.body || {}) as BitgetAccountInput,
+      req.user?.username
+    );
+
+    res.json({
+      success: true,
+      data: account,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/bitget-accounts/:accountId
+ * 删除账户及其凭证（管理员；有运行中实例绑定时拒绝）
+ */
+router.delete('/:accountId', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params;
+    const running = StrategyManager.getInstance().getStrategiesByAccount(accountId, false);
+    if (running.length > 0) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_IN_USE,
+        `交易账户 ${accountId} 仍有运行中的策略实例，请先停止`,
+        { accountId, instanceIds: running.map(s => s.instanceId) },
+        400
+      );
+    }
+    await BitgetAccountService.getInstance().remove(accountId, req.user?.username);
+
+    res.json({
+      success: true,
+      message: '交易账户已删除',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/bitget-accounts/:accountId/test
+ * 测试账户连通性：重新检测 UTA / 经典账户并返回现货 USDT 可用余额
+ */
+router.post('/:accountId/test', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const service = BitgetAccountService.getInstance();
+    service.assertAccess(req.user, req.params.accountId);
+    const result = await service.test(req.params.accountId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -4,9 +4,24 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { MarketDataService, Granularity } from '../services/market-data.service';
+import {
+  CandleDataService,
+  IndicatorSnapshot,
+  MAX_HISTORY_CANDLES,
+  isCandleInterval,
+} from '../services/candle-data.service';
+import { calcAllIndicators } from '../strategy/indicators/technical-indicators';
+import { FundingRateService } from '../services/funding-rate.service';
+import { SystemConfigService } from '../services/system-config.service';
+import { FundingCollectorConfig, ProductType } from '../types/futures.types';
 
 const router = Router();
 
+const FUNDING_COLLECTOR_CONFIG_KEY = 'funding_collector_config';
+
+/** 资金费率历史单次查询上限 */
+const MAX_FUNDING_HISTORY = 500;
+
 /**
  * GET /api/market/tickers
  * 获取行情数据
@@ -68,4 +83,172 @@ router.get('/candles', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+/**
+ * GET /api/market/indicators
+ * 获取指定周期的技术指标（VWAP/ADX/Stochastic/OBV/Keltner/SuperTrend 等）
+ * 必选参数: ?symbol=BTCUSDT
+ * 可选参数: &interval=5m&limit=100&productType=USDT-FUTURES&startTime=xxx&endTime=xxx
+ * 指定 startTime/endTime 时基于深度历史 K 线计算（截至 endTime 的指标）
+ */
+router.get('/indicators', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { symbol, productType, startTime, endTime } = req.query;
+    const interval = (req.query.interval as string | undefined) || '5m';
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+
+    if (!symbol) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: '必须提供 symbol 参数',
+        },
+      });
+      return;
+    }
+    if (!isCandleInterval(interval)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `不支持的周期: ${interval}`,
+        },
+      });
+      return;
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_CANDLES) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `limit 必须是 1~${MAX_HISTORY_CANDLES} 的整数`,
+        },
+      });
+      return;
+    }
+
+    const service = CandleDataService.getInstance();
+    let snapshot: IndicatorSnapshot;
+    if (startTime || endTime) {
+      const candles = await service.getHistory(symbol as string, interval, {
+        startTime: startTime ? Number(startTime) : undefined,
+        endTime: endTime ? Number(endTime) : undefined,
+        limit,
+        productType: productType as string | undefined,
+      });
+      snapshot = {
+        symbol: symbol as string,
+        interval,
+        candleCount: candles.length,
+        lastCandleTime: candles.length > 0 ? candles[candles.length - 1].timestamp : null,
+        indicators: calcAllIndicators(candles),
+      };
+    } else {
+      snapshot = await service.getIndicators(
+        symbol as string,
+        interval,
+        limit,
+        productType as string | undefined
+      );
+    }
+
+    res.json({
+      success: true,
+      data: snapshot,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/market/funding
+ * 资金费率：不带 symbol 时返回采集器关注列表的当前费率与下次结算时间；
+ * 带 symbol 时返回该交易对当前费率 + 已结算历史
+ * 可选参数: ?symbol=BTCUSDT&productType=USDT-FUTURES&limit=50&startTime=&endTime=
+ */
+router.get('/funding', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { symbol, startTime, endTime } = req.query;
+    const service = FundingRateService.getInstance();
+    const productType = ((req.query.productType as string | undefined) || service.getConfig().productType) as ProductType;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+
+    if (!symbol) {
+      res.json({
+        success: true,
+        data: {
+          watchedSymbols: service.getWatchedSymbols(),
+          lastCollectedAt: service.getLastCollectedAt(),
+          rates: service.listCurrent(),
+        },
+      });
+      return;
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FUNDING_HISTORY) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `limit 必须是 1~${MAX_FUNDING_HISTORY} 的整数`,
+        },
+      });
+      return;
+    }
+
+    const normalized = (symbol as string).toUpperCase();
+    const [current, history] = await Promise.all([
+      service.getCurrent(normalized, productType),
+      service.getHistory(normalized, productType, {
+        startTime: startTime ? Number(startTime) : undefined,
+        endTime: endTime ? Number(endTime) : undefined,
+        limit,
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: { current, history },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/market/funding/config
+ * 资金费率采集配置
+ */
+router.get('/funding/config', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: FundingRateService.getInstance().getConfig(),
+  });
+});
+
+/**
+ * PUT /api/market/funding/config
+ * 更新采集配置（关注列表、cron 表达式等），持久化到 SystemConfigService
+ */
+router.put('/funding/config', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const service = FundingRateService.getInstance();
+    service.updateConfig(req.body as Partial<FundingCollectorConfig>);
+
+    await SystemConfigService.getInstance().set(
+      FUNDING_COLLECTOR_CONFIG_KEY,
+      JSON.stringify(service.getConfig()),
+      { description: '资金费率采集配置', updatedBy: req.user?.username }
+    );
+
+    res.json({
+      success: true,
+      data: service.getConfig(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,74 @@
+/**
+ * 通知配置与测试 REST API
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notification.service';
+import { SystemConfigService } from '../services/system-config.service';
+import { adminRequired } from '../middleware/auth.middleware';
+import { AppError, ErrorCode } from '../utils/errors';
+import { NotificationConfig } from '../types/notification.types';
+
+const router = Router();
+
+const NOTIFICATION_CONFIG_KEY = 'notification_config';
+
+/**
+ * GET /api/notifications/config
+ * 当前配置（管理员；Bot Token、SMTP 密码、加签密钥、Webhook 请求头与机器人地址中的 token 已脱敏）
+ */
+router.get('/config', adminRequired, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: NotificationService.getInstance().getMaskedConfig(),
+  });
+});
+
+/**
+ * PUT /api/notifications/config
+ * 更新配置并加密持久化到 SystemConfigService（管理员）；脱敏占位值表示保持原密钥
+ */
+router.put('/config', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const service = NotificationService.getInstance();
+    service.updateConfig(req.body as Partial<NotificationConfig>);
+
+    await SystemConfigService.getInstance().set(
+      NOTIFICATION_CONFIG_KEY,
+      JSON.stringify(service.getConfig()),
+      { isEncrypted: true, description: '通知渠道与路由配置', updatedBy: req.user?.username }
+    );
+
+    res.json({
+      success: true,
+      data: service.getMaskedConfig(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/notifications/test
+ * 发送测试消息（管理员）
+ * Body: { channelId? }（不指定时测试全部已启用渠道）
+ */
+router.post('/test', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { channelId } = (req.body || {}) as { channelId?: string };
+    const results = await NotificationService.getInstance().sendTest(channelId);
+
+    if (results.every(r => !r.success)) {
+      throw new AppError(ErrorCode.NOTIFICATION_SEND_FAILED, '测试消息发送失败', results, 502);
+    }
+
+    res.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
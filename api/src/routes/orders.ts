@@ -1,9 +1,11 @@
 /**
  * 订单管理路由
+ * 可通过 accountId（body 或 query）指定交易账户，未指定为默认账户
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { OrderExecutionService, PlaceOrderParams } from '../services/order-execution.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
 
 const router = Router();
 
@@ -13,8 +15,10 @@ const router = Router();
  */
 router.post('/place', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const params: PlaceOrderParams = req.body;
-    const service = new OrderExecutionService();
+    const { accountId, ...params } = req.body as PlaceOrderParams & { accountId?: string };
+    const service = new OrderExecutionService(
+      BitgetAccountService.getInstance().resolveAccountId(req.user, accountId)
+    );
     const result = await service.placeOrder(params);
 
     res.json({
@@ -32,8 +36,10 @@ router.post('/place', async (req: Request, res: Response, next: NextFunction) =>
  */
 router.post('/cancel', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { symbol, orderId } = req.body;
-    const service = new OrderExecutionService();
+    const { symbol, orderId, accountId } = req.body;
+    const service = new OrderExecutionService(
+      BitgetAccountService.getInstance().resolveAccountId(req.user, accountId)
+    );
     const result = await service.cancelOrder(symbol, orderId);
 
     res.json({
@@ -52,7 +58,9 @@ router.post('/cancel', async (req: Request, res: Response, next: NextFunction) =
 router.get('/:orderId', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { orderId } = req.params;
-    const service = new OrderExecutionService();
+    const service = new OrderExecutionService(
+      BitgetAccountService.getInstance().resolveAccountId(req.user, req.query.accountId)
+    );
     const result = await service.getOrderInfo(orderId);
 
     res.json({
@@ -0,0 +1,69 @@
+/**
+ * 记账 / 报税导出 REST API
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { AccountingReportService } from '../services/accounting-report.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { ReportFormat, ReportQuery, ReportScope } from '../types/report.types';
+import { TradingType } from '../types/trading.types';
+import { ProductType } from '../types/futures.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { parseTimeParam } from '../utils/query-params';
+
+const router = Router();
+
+const FORMATS: ReportFormat[] = ['fills', 'trades', 'koinly', 'fifo'];
+const ACCOUNTS: TradingType[] = ['spot', 'futures'];
+const PRODUCT_TYPES: ProductType[] = ['USDT-FUTURES', 'SUSDT-FUTURES'];
+const SCOPES: ReportScope[] = ['strategy', 'all'];
+
+function parseEnum<T extends string>(value: unknown, allowed: T[], fallback: T, name: string): T {
+  const raw = (value as string) || fallback;
+  if (!allowed.includes(raw as T)) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, `${name} 必须是 ${allowed.join('/')} 之一`, { [name]: raw }, 400);
+  }
+  return raw as T;
+}
+
+function parseReportQuery(req: Request): ReportQuery {
+  const query = req.query;
+  const startTime = parseTimeParam(query.startTime, 'startTime');
+  const endTime = parseTimeParam(query.endTime, 'endTime');
+  if (startTime === undefined || endTime === undefined) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'startTime 与 endTime 为必填项', {}, 400);
+  }
+
+  return {
+    accountId: BitgetAccountService.getInstance().resolveAccountId(req.user, query.accountId),
+    account: parseEnum(query.account, ACCOUNTS, 'spot', 'account'),
+    productType: query.productType
+      ? parseEnum(query.productType, PRODUCT_TYPES, 'USDT-FUTURES', 'productType')
+      : undefined,
+    symbol: (query.symbol as string) || undefined,
+    startTime,
+    endTime,
+    scope: parseEnum(query.scope, SCOPES, 'strategy', 'scope'),
+  };
+}
+
+/**
+ * GET /api/reports/download
+ * 下载记账导出文件（CSV）
+ * Query: format = fills | trades | koinly | fifo（默认 fills；fifo 仅现货）,
+ *        accountId?（交易账户，默认账户）, account = spot | futures（默认 spot）, productType?, symbol?,
+ *        startTime, endTime(ms 或 ISO，最长 366 天), scope = strategy | all（默认 strategy）
+ */
+router.get('/download', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = parseEnum(req.query.format, FORMATS, 'fills', 'format');
+    const file = await AccountingReportService.getInstance().generate(format, parseReportQuery(req));
+
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.type(file.contentType).send(file.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,73 @@
+/**
+ * 组合风控 REST API
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { PortfolioRiskGovernor } from '../strategy/portfolio-risk-governor';
+import { SystemConfigService } from '../services/system-config.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { adminRequired } from '../middleware/auth.middleware';
+import { PortfolioRiskConfig } from '../types/portfolio-risk.types';
+
+const router = Router();
+
+const PORTFOLIO_RISK_CONFIG_KEY = 'portfolio_risk_config';
+
+/**
+ * GET /api/risk/portfolio
+ * 指定交易账户当前的组合敞口、权益与已触发的限制
+ * Query: accountId 交易账户（默认账户）；refresh=true 立即重新拉取账户数据
+ */
+router.get('/portfolio', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const accountId = BitgetAccountService.getInstance().resolveAccountId(req.user, req.query.accountId);
+    const governor = PortfolioRiskGovernor.getInstance();
+    const data = req.query.refresh === 'true'
+      ? await governor.refresh(accountId)
+      : governor.getSnapshot(accountId);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/risk/config
+ * 当前组合风控配置
+ */
+router.get('/config', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: PortfolioRiskGovernor.getInstance().getConfig(),
+  });
+});
+
+/**
+ * PUT /api/risk/config
+ * 更新组合风控配置（校验后生效并持久化到 SystemConfigService）；限制作用于所有账户，仅管理员可修改
+ */
+router.put('/config', adminRequired, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const governor = PortfolioRiskGovernor.getInstance();
+    governor.updateConfig(req.body as Partial<PortfolioRiskConfig>);
+
+    await SystemConfigService.getInstance().set(
+      PORTFOLIO_RISK_CONFIG_KEY,
+      JSON.stringify(governor.getConfig()),
+      { description: '组合风控配置', updatedBy: req.user?.username }
+    );
+
+    res.json({
+      success: true,
+      data: governor.getConfig(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
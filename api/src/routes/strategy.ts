@@ -1,17 +1,170 @@
 /**
  * 策略控制 REST API
  * 使用 StrategyManager 管理策略生命周期
+ * 无 instanceId 的旧接口作用于当前用户可见的最近启动实例；多实例请使用 /:instanceId/... 接口
+ * 实例绑定的交易账户需对当前用户授权，未授权账户下的实例不可见、不可操作
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { StrategyManager } from '../strategy/strategy-manager';
-import { AnyStrategyConfig } from '../types/strategy.types';
+import { IStrategy } from '../strategy/interfaces/i-strategy';
+import {
+  AnyStrategyConfig,
+  PnlSummary,
+  RegimeSupervisorConfig,
+  RegimeSupervisorState,
+  StrategyEventQuery,
+  StrategyEventType,
+  PersistedStrategyEvent,
+} from '../types/strategy.types';
+import { StrategyType } from '../types/trading.types';
 import { CapitalManagerService } from '../services/capital-manager.service';
 import { FuturesAccountService } from '../services/futures-account.service';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
 import { AutoCalcService } from '../strategy/auto-calc.service';
+import { StrategyRegistry } from '../strategy/strategy-registry';
+import { RegimeSupervisor } from '../strategy/regime-supervisor';
+import { summarizeOrders } from '../strategy/order-state-tracker';
+import { AppError, ErrorCode } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+import { parseTimeParam, parseCursorParam } from '../utils/query-params';
 
 const router = Router();
 
+const EMPTY_PNL_SUMMARY: PnlSummary = {
+  realizedPnl: '0',
+  unrealizedPnl: '0',
+  grossPnl: '0',
+  fees: '0',
+  funding: '0',
+  netPnl: '0',
+  dailyPnl: '0',
+  totalTrades: 0,
+  winTrades: 0,
+  lossTrades: 0,
+  winRate: '0',
+  avgWin: '0',
+  avgLoss: '0',
+};
+
+const EXPORT_PAGE_SIZE = 1000;
+const MAX_EXPORT_EVENTS = 50000;
+
+/**
+ * 当前用户可见的实例（所属账户已授权）
+ */
+function visibleTo(req: Request): (strategy: IStrategy) => boolean {
+  const accounts = BitgetAccountService.getInstance();
+  return strategy => accounts.canAccess(req.user, strategy.getState().config?.accountId);
+}
+
+/**
+ * 校验当前用户可操作实例所属账户（实例不存在时跳过，由后续逻辑处理）
+ * 账户已被删除的残留实例仅管理员可见
+ */
+function assertStrategyAccess(req: Request, strategy: IStrategy | null): void {
+  if (!strategy) return;
+  const accountId = strategy.getState().config?.accountId;
+  if (!BitgetAccountService.getInstance().canAccess(req.user, accountId)) {
+    throw new AppError(
+      ErrorCode.AUTH_FORBIDDEN,
+      `无权操作交易账户 ${accountId} 下的策略实例`,
+      { instanceId: strategy.instanceId, accountId },
+      403
+    );
+  }
+}
+
+/**
+ * 启动前校验：沿用的已有实例及最终生效的账户（覆盖参数优先，否则沿用原配置）
+ */
+function assertStartAccess(req: Request, config: Partial<AnyStrategyConfig>): void {
+  const existing = config.instanceId
+    ? StrategyManager.getInstance().getStrategy(config.instanceId)
+    : null;
+  assertStrategyAccess(req, existing);
+  BitgetAccountService.getInstance().assertAccess(req.user, config.accountId || undefined);
+}
+
+/**
+ * 市场状态监管涉及的交易账户（网格 / 剥头皮两套配置各自指定）
+ */
+function supervisorAccounts(config: Partial<RegimeSupervisorConfig>): Array<string | undefined> {
+  return [config.gridConfig?.accountId || undefined, config.scalpingConfig?.accountId || undefined];
+}
+
+function canSeeSupervisor(req: Request, state: RegimeSupervisorState): boolean {
+  const accounts = BitgetAccountService.getInstance();
+  return supervisorAccounts(state.config).every(accountId => accounts.canAccess(req.user, accountId));
+}
+
+function assertSupervisorAccess(req: Request, state: RegimeSupervisorState): void {
+  if (!canSeeSupervisor(req, state)) {
+    throw new AppError(
+      ErrorCode.AUTH_FORBIDDEN,
+      `无权操作市场状态监管 ${state.supervisorId}`,
+      { supervisorId: state.supervisorId },
+      403
+    );
+  }
+}
+
+/**
+ * 从 query 解析事件历史筛选条件，并限定为当前用户可访问账户下的实例
+ * type 支持逗号分隔多个事件类型
+ */
+function parseEventQuery(req: Request): StrategyEventQuery {
+  const query = req.query;
+  const types = typeof query.type === 'string' && query.type
+    ? query.type.split(',').map(t => t.trim()).filter(Boolean) as StrategyEventType[]
+    : undefined;
+
+  return {
+    instanceId: (query.instanceId as string) || undefined,
+    types,
+    startTime: parseTimeParam(query.startTime, 'startTime'),
+    endTime: parseTimeParam(query.endTime, 'endTime'),
+    cursor: parseCursorParam(query.cursor),
+    limit: parseInt(query.limit as string) || undefined,
+    accountIds: BitgetAccountService.getInstance().accessibleAccountIds(req.user) ?? undefined,
+  };
+}
+
+function eventsToCsv(events: PersistedStrategyEvent[]): string {
+  return toCsv(
+    ['id', 'time', 'instanceId', 'strategyType', 'symbol', 'type', 'data'],
+    events.map(e => [
+      e.id,
+      new Date(e.timestamp).toISOString(),
+      e.instanceId,
+      e.strategyType,
+      e.symbol,
+      e.type,
+      JSON.stringify(e.data),
+    ])
+  );
+}
+
+// /:instanceId/... 与 /supervisors/:supervisorId/... 接口统一校验所属账户
+router.param('instanceId', (req: Request, _res: Response, next: NextFunction, instanceId: string) => {
+  try {
+    assertStrategyAccess(req, StrategyManager.getInstance().getStrategy(instanceId));
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.param('supervisorId', (req: Request, _res: Response, next: NextFunction, supervisorId: string) => {
+  try {
+    assertSupervisorAccess(req, RegimeSupervisor.getInstance().getState(supervisorId));
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/strategy/start
  * 启动策略
@@ -20,13 +173,13 @@ const router = Router();
 router.post('/start', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const overrides = req.body as Partial<AnyStrategyConfig> | undefined;
-    const manager = StrategyManager.getInstance();
-    await manager.createAndStart(overrides);
+    assertStartAccess(req, overrides || {});
+    const strategy = await StrategyManager.getInstance().createAndStart(overrides);
 
     res.json({
       success: true,
       message: '策略已启动',
-      data: manager.getState(),
+      data: strategy.getState(),
     });
   } catch (error) {
     next(error);
@@ -40,12 +193,12 @@ router.post('/start', async (req: Request, res: Response, next: NextFunction) =>
 router.post('/stop', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const manager = StrategyManager.getInstance();
-    await manager.stopActive();
+    await manager.stopActive(visibleTo(req));
 
     res.json({
       success: true,
       message: '策略已停止',
-      data: manager.getState(),
+      data: manager.getState(visibleTo(req)),
     });
   } catch (error) {
     next(error);
@@ -60,13 +213,21 @@ router.post('/restart', async (req: Request, res: Response, next: NextFunction)
   try {
     const overrides = req.body as Partial<AnyStrategyConfig> | undefined;
     const manager = StrategyManager.getInstance();
-    await manager.stopActive();
-    await manager.createAndStart(overrides);
+    const visible = visibleTo(req);
+    const active = manager.getActiveStrategy(visible);
+    // 复用原实例 ID，避免注册表中堆积已停止的实例
+    const restartConfig = {
+      ...overrides,
+      instanceId: overrides?.instanceId || active?.instanceId,
+    } as Partial<AnyStrategyConfig>;
+    assertStartAccess(req, restartConfig);
+    await manager.stopActive(visible);
+    await manager.createAndStart(restartConfig);
 
     res.json({
       success: true,
       message: '策略已重启',
-      data: manager.getState(),
+      data: manager.getState(visible),
     });
   } catch (error) {
     next(error);
@@ -79,12 +240,13 @@ router.post('/restart', async (req: Request, res: Response, next: NextFunction)
  */
 router.get('/status', async (req: Request, res: Response) => {
   const manager = StrategyManager.getInstance();
-  const state = manager.getState();
+  const state = manager.getState(visibleTo(req));
+  const accountId = state.config?.accountId;
 
-  // 并行获取现货余额和合约余额
+  // 并行获取实例所属账户的现货余额和合约余额
   const [spotResult, futuresResult] = await Promise.allSettled([
-    new CapitalManagerService().getAvailableBalance('USDT'),
-    new FuturesAccountService().getAvailableBalance('USDT-FUTURES', 'USDT'),
+    new CapitalManagerService(accountId).getAvailableBalance('USDT'),
+    new FuturesAccountService(accountId).getAvailableBalance('USDT-FUTURES', 'USDT'),
   ]);
 
   if (spotResult.status === 'fulfilled') {
@@ -108,7 +270,7 @@ router.put('/config', (req: Request, res: Response, next: NextFunction) => {
   try {
     const changes = req.body as Record<string, unknown>;
     const manager = StrategyManager.getInstance();
-    const strategy = manager.getActiveStrategy();
+    const strategy = manager.getActiveStrategy(visibleTo(req));
 
     if (!strategy) {
       // No active strategy, still allow config update via creating a temporary start
@@ -137,18 +299,12 @@ router.put('/config', (req: Request, res: Response, next: NextFunction) => {
  */
 router.get('/orders', (req: Request, res: Response) => {
   const manager = StrategyManager.getInstance();
-  const strategy = manager.getActiveStrategy();
+  const strategy = manager.getActiveStrategy(visibleTo(req));
   const orders = strategy?.getTrackedOrders() || [];
 
   res.json({
     success: true,
-    data: {
-      total: orders.length,
-      pending: orders.filter(o => o.status === 'pending').length,
-      filled: orders.filter(o => o.status === 'filled').length,
-      cancelled: orders.filter(o => o.status === 'cancelled').length,
-      orders,
-    },
+    data: summarizeOrders(orders),
   });
 });
 
@@ -159,12 +315,12 @@ router.get('/orders', (req: Request, res: Response) => {
 router.post('/emergency-stop', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const manager = StrategyManager.getInstance();
-    await manager.emergencyStopActive();
+    await manager.emergencyStopActive(visibleTo(req));
 
     res.json({
       success: true,
       message: '紧急停止完成，所有挂单已撤销',
-      data: manager.getState(),
+      data: manager.getState(visibleTo(req)),
     });
   } catch (error) {
     next(error);
@@ -177,47 +333,84 @@ router.post('/emergency-stop', async (req: Request, res: Response, next: NextFun
  */
 router.get('/pnl', (req: Request, res: Response) => {
   const manager = StrategyManager.getInstance();
-  const strategy = manager.getActiveStrategy();
-
-  if (!strategy) {
-    res.json({
-      success: true,
-      data: {
-        realizedPnl: '0',
-        unrealizedPnl: '0',
-        dailyPnl: '0',
-        totalTrades: 0,
-        winTrades: 0,
-        lossTrades: 0,
-        winRate: '0',
-        avgWin: '0',
-        avgLoss: '0',
-      },
-    });
-    return;
-  }
+  const strategy = manager.getActiveStrategy(visibleTo(req));
 
   res.json({
     success: true,
-    data: strategy.getPnlSummary(),
+    data: strategy?.getPnlSummary() || EMPTY_PNL_SUMMARY,
   });
 });
 
 /**
- * GET /api/strategy/events
- * 策略事件日志
+ * GET /api/strategy/pnl/ledger
+ * PnL 账本明细
  */
-router.get('/events', (req: Request, res: Response) => {
-  const limit = parseInt(req.query.limit as string) || 50;
+router.get('/pnl/ledger', (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 100;
   const manager = StrategyManager.getInstance();
-  const strategy = manager.getActiveStrategy();
+  const strategy = manager.getActiveStrategy(visibleTo(req));
 
   res.json({
     success: true,
-    data: strategy?.getEvents(limit) || [],
+    data: strategy?.getPnlLedger(limit) || [],
   });
 });
 
+/**
+ * GET /api/strategy/events
+ * 策略事件历史（strategy_events）
+ * Query: instanceId?, type?(逗号分隔), startTime?, endTime?(ms 或 ISO), cursor?, limit?
+ * 按时间倒序返回，nextCursor 传回 cursor 获取下一页
+ */
+router.get('/events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = await StrategyPersistenceService.getInstance().queryEvents(parseEventQuery(req));
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/events/export
+ * 导出事件历史，筛选条件同 /events
+ * Query: format = csv | json（默认 csv）
+ */
+router.get('/events/export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, '导出格式仅支持 csv 或 json', { format }, 400);
+    }
+
+    const persistence = StrategyPersistenceService.getInstance();
+    const query: StrategyEventQuery = { ...parseEventQuery(req), limit: EXPORT_PAGE_SIZE };
+    const events: PersistedStrategyEvent[] = [];
+
+    while (events.length < MAX_EXPORT_EVENTS) {
+      const page = await persistence.queryEvents(query);
+      events.push(...page.events);
+      if (!page.nextCursor) break;
+      query.cursor = page.nextCursor;
+    }
+
+    const filename = `strategy-events-${Date.now()}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.json(events);
+      return;
+    }
+    res.type('text/csv').send(eventsToCsv(events));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/strategy/auto-calc
  * Simple mode: auto-calculate full config
@@ -225,6 +418,7 @@ router.get('/events', (req: Request, res: Response) => {
 router.post('/auto-calc', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const input = req.body;
+    BitgetAccountService.getInstance().assertAccess(req.user, input?.accountId || undefined);
     const autoCalcService = new AutoCalcService();
     const result = await autoCalcService.calculate(input);
 
@@ -244,11 +438,14 @@ router.post('/auto-calc', async (req: Request, res: Response, next: NextFunction
 router.get('/bounds', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { symbol, tradingType, strategyType } = req.query;
+    const accountId = (req.query.accountId as string) || undefined;
+    BitgetAccountService.getInstance().assertAccess(req.user, accountId);
     const autoCalcService = new AutoCalcService();
     const bounds = await autoCalcService.getBounds(
       symbol as string || 'BTCUSDT',
       (tradingType as string || 'futures') as 'futures' | 'spot',
-      (strategyType as string || 'scalping') as 'scalping' | 'grid'
+      (strategyType as string || 'scalping') as StrategyType,
+      accountId
     );
 
     res.json({
@@ -260,4 +457,336 @@ router.get('/bounds', async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+/**
+ * GET /api/strategy/types
+ * 已注册的策略类型（内置 + 插件）及其配置字段描述
+ */
+router.get('/types', (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: StrategyRegistry.getInstance().describe(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ============================================================
+// 多实例 API（按 instanceId 操作）
+// ============================================================
+
+/**
+ * GET /api/strategy/instances
+ * 列出当前用户可见账户下策略实例的状态摘要
+ */
+router.get('/instances', (req: Request, res: Response) => {
+  const manager = StrategyManager.getInstance();
+
+  res.json({
+    success: true,
+    data: manager.getStrategies().filter(visibleTo(req)).map(s => s.getState()),
+  });
+});
+
+/**
+ * GET /api/strategy/resume-reports
+ * 最近一次服务启动时的实例恢复结果（含启动对账明细）
+ */
+router.get('/resume-reports', (req: Request, res: Response) => {
+  const manager = StrategyManager.getInstance();
+  const accounts = BitgetAccountService.getInstance();
+
+  res.json({
+    success: true,
+    data: manager.getResumeReports().filter(report => accounts.canAccess(req.user, report.accountId)),
+  });
+});
+
+/**
+ * GET /api/strategy/positions
+ * 各实例推断仓位与交易所持仓的最近对账结果（可选 ?instanceId= 过滤）
+ */
+router.get('/positions', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const instanceId = typeof req.query.instanceId === 'string' ? req.query.instanceId : undefined;
+    const manager = StrategyManager.getInstance();
+    const visible = visibleTo(req);
+    const positions = manager.getPositions(instanceId).filter(view => {
+      const strategy = manager.getStrategy(view.instanceId);
+      return !strategy || visible(strategy);
+    });
+
+    res.json({
+      success: true,
+      data: positions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/supervisors
+ * 市场状态监管列表（当前模式、最近检测结果与切换记录）
+ */
+router.get('/supervisors', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: RegimeSupervisor.getInstance().listStates().filter(state => canSeeSupervisor(req, state)),
+  });
+});
+
+/**
+ * POST /api/strategy/supervisors
+ * 启动市场状态监管：按市场状态在网格 / 剥头皮 / 暂停之间自动切换
+ * Body: { symbol, supervisorId?, tradingType?, productType?, direction?, interval?, checkIntervalMs?,
+ *         minConfidence?, confirmChecks?, minDwellMs?, pauseConfidence?, resumeConfidence?,
+ *         closeOnStop?, gridConfig?, scalpingConfig? }
+ */
+router.post('/supervisors', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = (req.body || {}) as Partial<RegimeSupervisorConfig>;
+    const supervisor = RegimeSupervisor.getInstance();
+    // 重启已停止的监管会沿用其切换记录，须先有权访问原监管的账户
+    const existing = input.supervisorId
+      ? supervisor.listStates().find(state => state.supervisorId === input.supervisorId)
+      : undefined;
+    if (existing) assertSupervisorAccess(req, existing);
+    const accounts = BitgetAccountService.getInstance();
+    for (const accountId of supervisorAccounts(input)) {
+      accounts.assertAccess(req.user, accountId);
+    }
+    const state = await supervisor.start(input);
+    res.json({
+      success: true,
+      data: state,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/supervisors/:supervisorId
+ * 获取指定市场状态监管
+ */
+router.get('/supervisors/:supervisorId', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: RegimeSupervisor.getInstance().getState(req.params.supervisorId),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/strategy/supervisors/:supervisorId/stop
+ * 停止市场状态监管
+ * Body: { keepInstance?: boolean } — true 时当前实例继续运行，否则按 closeOnStop 平仓或停止
+ */
+router.post('/supervisors/:supervisorId/stop', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const state = await RegimeSupervisor.getInstance().stop(
+      req.params.supervisorId,
+      req.body?.keepInstance === true
+    );
+    res.json({
+      success: true,
+      data: state,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/:instanceId/status
+ * 获取指定实例状态
+ */
+router.get('/:instanceId/status', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+
+    res.json({
+      success: true,
+      data: strategy.getState(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/strategy/:instanceId/start
+ * 启动指定实例（不存在则以该 instanceId 新建，已停止则以原配置为基础重建）
+ * Body: 可选的配置覆盖参数
+ */
+router.post('/:instanceId/start', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const overrides = (req.body || {}) as Partial<AnyStrategyConfig>;
+    BitgetAccountService.getInstance().assertAccess(req.user, overrides.accountId || undefined);
+    const manager = StrategyManager.getInstance();
+    const strategy = await manager.createAndStart({
+      ...overrides,
+      instanceId: req.params.instanceId,
+    } as Partial<AnyStrategyConfig>);
+
+    res.json({
+      success: true,
+      message: '策略已启动',
+      data: strategy.getState(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/strategy/:instanceId/stop
+ * 停止指定实例
+ */
+router.post('/:instanceId/stop', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const manager = StrategyManager.getInstance();
+    await manager.stop(req.params.instanceId);
+
+    res.json({
+      success: true,
+      message: '策略已停止',
+      data: manager.requireStrategy(req.params.instanceId).getState(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/strategy/:instanceId/emergency-stop
+ * 紧急停止指定实例（撤所有单）
+ */
+router.post('/:instanceId/emergency-stop', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const manager = StrategyManager.getInstance();
+    await manager.emergencyStop(req.params.instanceId);
+
+    res.json({
+      success: true,
+      message: '紧急停止完成，所有挂单已撤销',
+      data: manager.requireStrategy(req.params.instanceId).getState(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/strategy/:instanceId/config
+ * 运行时更新指定实例配置
+ */
+router.put('/:instanceId/config', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const changes = req.body as Record<string, unknown>;
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+    const newConfig = strategy.updateConfig(changes);
+
+    res.json({
+      success: true,
+      message: '配置已更新',
+      data: newConfig,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/:instanceId/orders
+ * 查看指定实例追踪的订单
+ */
+router.get('/:instanceId/orders', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+
+    res.json({
+      success: true,
+      data: summarizeOrders(strategy.getTrackedOrders()),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/:instanceId/pnl
+ * 指定实例盈亏汇总
+ */
+router.get('/:instanceId/pnl', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+
+    res.json({
+      success: true,
+      data: strategy.getPnlSummary(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/:instanceId/pnl/ledger
+ * 指定实例 PnL 账本明细（平仓交易 + 资金费结算）
+ */
+router.get('/:instanceId/pnl/ledger', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 100;
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+
+    res.json({
+      success: true,
+      data: strategy.getPnlLedger(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/strategy/:instanceId/events
+ * 指定实例事件日志
+ */
+router.get('/:instanceId/events', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const strategy = StrategyManager.getInstance().requireStrategy(req.params.instanceId);
+
+    res.json({
+      success: true,
+      data: strategy.getEvents(limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/strategy/:instanceId
+ * 从注册表移除已停止的实例
+ */
+router.delete('/:instanceId', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    StrategyManager.getInstance().remove(req.params.instanceId);
+
+    res.json({
+      success: true,
+      message: '策略实例已移除',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,53 @@
+/**
+ * 实时推送路由（Server-Sent Events）
+ * GET /api/stream — 订阅策略状态、事件、订单与 PnL 推送
+ */
+
+import { Router, Request, Response } from 'express';
+import { StrategyStreamService } from '../services/strategy-stream.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { StrategyStreamMessage } from '../types/strategy.types';
+
+const router = Router();
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const CLIENT_RETRY_MS = 3000;
+
+/**
+ * GET /api/stream
+ * SSE 推送：event 为消息类型（status / event / orders / pnl），data 为 StrategyStreamMessage JSON
+ * Query: instanceId?（仅推送指定实例）
+ * 未授权交易账户下的实例消息不推送
+ */
+router.get('/', (req: Request, res: Response) => {
+  const instanceId = req.query.instanceId as string | undefined;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // 关闭 nginx 反向代理缓冲，保证消息即时到达
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const send = (message: StrategyStreamMessage): void => {
+    if (instanceId && message.instanceId !== instanceId) return;
+    if (!BitgetAccountService.getInstance().canAccess(req.user, message.accountId)) return;
+    res.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+  };
+
+  const stream = StrategyStreamService.getInstance();
+  stream.snapshot().forEach(send);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+  const unsubscribe = stream.subscribe({ send, close: () => res.end() });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
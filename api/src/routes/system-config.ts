@@ -12,16 +12,17 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { SystemConfigService } from '../services/system-config.service';
 import { BitgetClientService } from '../services/bitget-client.service';
+import { isAccountConfigKey } from '../services/bitget-account.service';
 import { clearBitgetConfig, getProfileKeys, switchProfile, BitgetProfile } from '../config/bitget';
 import { AppError, ErrorCode } from '../utils/errors';
 
 const router = Router();
 
-// 列出所有配置（加密值脱敏）
+// 列出所有配置（加密值脱敏；命名交易账户经 /api/bitget-accounts 按授权查看）
 router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
   try {
     const configService = SystemConfigService.getInstance();
-    const configs = await configService.getAll();
+    const configs = (await configService.getAll()).filter(c => !isAccountConfigKey(c.key));
     res.json({ success: true, data: configs });
   } catch (error) {
     next(error);
@@ -130,17 +131,13 @@ router.post('/switch-profile', async (req: Request, res: Response, next: NextFun
     // 检查策略是否在运行
     const { StrategyManager } = await import('../strategy/strategy-manager');
     const strategyManager = StrategyManager.getInstance();
-    const activeStrategy = strategyManager.getActiveStrategy();
-    if (activeStrategy) {
-      const strategyStatus = activeStrategy.getStatus();
-      if (strategyStatus === 'RUNNING' || strategyStatus === 'STARTING') {
-        throw new AppError(
-          ErrorCode.VALIDATION_ERROR,
-          '策略运行中，请先停止策略再切换 Profile',
-          undefined,
-          400
-        );
-      }
+    if (strategyManager.hasRunningStrategy()) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        '策略运行中，请先停止所有策略实例再切换 Profile',
+        undefined,
+        400
+      );
     }
 
     await switchProfile(profile as BitgetProfile);
@@ -166,6 +163,9 @@ router.put('/:key', async (req: Request, res: Response, next: NextFunction) => {
     if (value === undefined) {
       throw new AppError(ErrorCode.VALIDATION_ERROR, 'value 不能为空', undefined, 400);
     }
+    if (isAccountConfigKey(key)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, '交易账户配置请通过 /api/bitget-accounts 管理', { key }, 400);
+    }
 
     const configService = SystemConfigService.getInstance();
     await configService.set(key, value, {
@@ -245,7 +245,7 @@ router.post('/export', async (_req: Request, res: Response, next: NextFunction)
     const configs = await configService.getAll();
     // Exclude encrypted values from export
     const exportData = configs
-      .filter(c => !c.isEncrypted)
+      .filter(c => !c.isEncrypted && !isAccountConfigKey(c.key))
       .map(c => ({ key: c.key, value: c.value, description: c.description }));
     res.json({ success: true, data: exportData });
   } catch (error) {
@@ -0,0 +1,133 @@
+/**
+ * 交易日志 REST API
+ * 每笔已完成的往返交易（入场 → 出场），用于审计剥头皮 / 网格的每个平仓周期
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { TradeJournalService } from '../services/trade-journal.service';
+import {
+  PersistedRoundTripTrade,
+  TradeJournalQuery,
+} from '../types/trade-journal.types';
+import { EntryDirection } from '../strategy/order-state-tracker';
+import { AppError, ErrorCode } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+import { parseTimeParam, parseCursorParam } from '../utils/query-params';
+import { BitgetAccountService } from '../services/bitget-account.service';
+
+const router = Router();
+
+const EXPORT_PAGE_SIZE = 1000;
+const MAX_EXPORT_TRADES = 50000;
+
+const DIRECTIONS: EntryDirection[] = ['long', 'short'];
+
+/**
+ * 从 query 解析筛选条件，并限定为当前用户可访问账户下的实例
+ */
+function parseTradeQuery(req: Request): TradeJournalQuery {
+  const query = req.query;
+  const direction = (query.direction as string) || undefined;
+  if (direction && !DIRECTIONS.includes(direction as EntryDirection)) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'direction 必须是 long 或 short', { direction }, 400);
+  }
+
+  return {
+    instanceId: (query.instanceId as string) || undefined,
+    strategyType: (query.strategyType as string) || undefined,
+    symbol: (query.symbol as string) || undefined,
+    direction: direction as EntryDirection | undefined,
+    mergedOnly: query.merged === 'true',
+    startTime: parseTimeParam(query.startTime, 'startTime'),
+    endTime: parseTimeParam(query.endTime, 'endTime'),
+    cursor: parseCursorParam(query.cursor),
+    limit: parseInt(query.limit as string) || undefined,
+    accountIds: BitgetAccountService.getInstance().accessibleAccountIds(req.user) ?? undefined,
+  };
+}
+
+function tradesToCsv(trades: PersistedRoundTripTrade[]): string {
+  return toCsv(
+    [
+      'id', 'instanceId', 'strategyType', 'symbol', 'direction', 'entryOrderId', 'exitOrderId',
+      'entryPrice', 'exitPrice', 'size', 'fees', 'grossPnl', 'netPnl',
+      'openedAt', 'closedAt', 'holdSeconds', 'mergedEntryOrderIds',
+    ],
+    trades.map(t => [
+      t.id,
+      t.instanceId,
+      t.strategyType,
+      t.symbol,
+      t.direction,
+      t.entryOrderId,
+      t.exitOrderId,
+      t.entryPrice,
+      t.exitPrice,
+      t.size,
+      t.fees,
+      t.grossPnl,
+      t.netPnl,
+      t.openedAt !== null ? new Date(t.openedAt).toISOString() : null,
+      new Date(t.closedAt).toISOString(),
+      t.holdMs !== null ? (t.holdMs / 1000).toFixed(0) : null,
+      t.mergedFrom.map(m => m.entryOrderId || '?').join(' '),
+    ])
+  );
+}
+
+/**
+ * GET /api/trades
+ * 交易日志（按 id 倒序，nextCursor 传回 cursor 获取下一页）
+ * Query: instanceId?, strategyType?, symbol?, direction?, merged?(true 只看合并单平仓),
+ *        startTime?, endTime?(平仓时间，ms 或 ISO), cursor?, limit?
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = await TradeJournalService.getInstance().query(parseTradeQuery(req));
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/trades/export
+ * 导出交易日志，筛选条件同 /api/trades
+ * Query: format = csv | json（默认 csv）
+ */
+router.get('/export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, '导出格式仅支持 csv 或 json', { format }, 400);
+    }
+
+    const journal = TradeJournalService.getInstance();
+    const query: TradeJournalQuery = { ...parseTradeQuery(req), limit: EXPORT_PAGE_SIZE };
+    const trades: PersistedRoundTripTrade[] = [];
+
+    while (trades.length < MAX_EXPORT_TRADES) {
+      const page = await journal.query(query);
+      trades.push(...page.trades);
+      if (!page.nextCursor) break;
+      query.cursor = page.nextCursor;
+    }
+
+    const filename = `strategy-trades-${Date.now()}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.json(trades);
+      return;
+    }
+    res.type('text/csv').send(tradesToCsv(trades));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -23,9 +23,12 @@ import accountRouter from './routes/account';
 import ordersRouter from './routes/orders';
 import marketRouter from './routes/market';
 import strategyRouter from './routes/strategy';
+import backtestRouter from './routes/backtest';
 import contractsRouter from './routes/contracts';
 import instrumentsRouter from './routes/instruments';
+import streamRouter from './routes/stream';
 import { StrategyManager } from './strategy/strategy-manager';
+import { RegimeSupervisor } from './strategy/regime-supervisor';
 import { createLogger } from './utils/logger';
 import { getPool } from './config/database';
 import { runMigrations } from './config/migration-runner';
@@ -36,6 +39,17 @@ import { loadBitgetConfigFromDB } from './config/bitget';
 import { AccountTypeDetectorService } from './services/account-type-detector.service';
 import polymarketRouter from './routes/polymarket';
 import { PolymarketSignalService } from './services/polymarket-signal.service';
+import { StrategyStreamService } from './services/strategy-stream.service';
+import notificationsRouter from './routes/notifications';
+import { NotificationService } from './services/notification.service';
+import riskRouter from './routes/risk';
+import { PortfolioRiskGovernor } from './strategy/portfolio-risk-governor';
+import { FundingRateService } from './services/funding-rate.service';
+import analyticsRouter from './routes/analytics';
+import tradesRouter from './routes/trades';
+import reportsRouter from './routes/reports';
+import bitgetAccountsRouter from './routes/bitget-accounts';
+import { BitgetAccountService } from './services/bitget-account.service';
 
 const logger = createLogger('server');
 const app = express();
@@ -43,7 +57,8 @@ const PORT = parseInt(process.env.PORT || '3001', 10);
 
 // 中间件
 app.use(cors());
-app.use(express.json());
+// 回测请求可携带 K 线 / tick 回放数据，放宽请求体上限
+app.use(express.json({ limit: '10mb' }));
 app.use(requestLogger);
 app.use('/api', apiRateLimiter);
 
@@ -57,10 +72,18 @@ app.use('/api/account', authRequired, accountRouter);
 app.use('/api/orders', authRequired, ordersRouter);
 app.use('/api/market', authRequired, marketRouter);
 app.use('/api/strategy', authRequired, strategyRouter);
+app.use('/api/backtest', authRequired, backtestRouter);
 app.use('/api/contracts', authRequired, contractsRouter);
 app.use('/api/instruments', authRequired, instrumentsRouter);
 app.use('/api/logs', authRequired, logsRouter);
 app.use('/api/polymarket', authRequired, polymarketRouter);
+app.use('/api/stream', authRequired, streamRouter);
+app.use('/api/notifications', authRequired, notificationsRouter);
+app.use('/api/risk', authRequired, riskRouter);
+app.use('/api/analytics', authRequired, analyticsRouter);
+app.use('/api/trades', authRequired, tradesRouter);
+app.use('/api/reports', authRequired, reportsRouter);
+app.use('/api/bitget-accounts', authRequired, bitgetAccountsRouter);
 
 // === Frontend 代理（生产模式：将非 API 请求代理到 Next.js）===
 if (process.env.NODE_ENV === 'production') {
@@ -103,13 +126,18 @@ async function bootstrap(): Promise<void> {
     logger.warn('SystemConfigService 初始化失败', { error: String(error) });
   }
 
-  // 4. 从 DB 加载 Bitget API 配置
+  // 4. 从 DB 加载 Bitget API 配置（默认账户 + 命名账户，需在恢复策略实例之前）
   try {
     await loadBitgetConfigFromDB();
     logger.info('Bitget 配置已从 DB 加载');
   } catch (error) {
     logger.warn('从 DB 加载 Bitget 配置失败，使用环境变量', { error: String(error) });
   }
+  try {
+    await BitgetAccountService.getInstance().load();
+  } catch (error) {
+    logger.warn('加载命名交易账户失败', { error: String(error) });
+  }
 
   // 5. 初始化 AuthService + 种子默认管理员
   try {
@@ -144,6 +172,62 @@ async function bootstrap(): Promise<void> {
     logger.warn('Polymarket 信号服务初始化失败', { error: String(error) });
   }
 
+  // 8. 加载通知配置（需在恢复策略实例之前，恢复过程中的告警才能送达）
+  try {
+    const savedConfig = await SystemConfigService.getInstance().get('notification_config');
+    if (savedConfig) {
+      NotificationService.getInstance().updateConfig(JSON.parse(savedConfig));
+      logger.info('通知配置已从 DB 加载');
+    }
+  } catch (error) {
+    logger.warn('加载通知配置失败', { error: String(error) });
+  }
+
+  // 9. 加载组合风控配置（恢复的实例下单前即受账户级限制约束）
+  try {
+    const savedConfig = await SystemConfigService.getInstance().get('portfolio_risk_config');
+    if (savedConfig) {
+      PortfolioRiskGovernor.getInstance().updateConfig(JSON.parse(savedConfig));
+      logger.info('组合风控配置已从 DB 加载');
+    }
+  } catch (error) {
+    logger.warn('加载组合风控配置失败', { error: String(error) });
+  }
+
+  // 10. 启动资金费率采集（默认开启，采集运行中合约实例的交易对）
+  try {
+    const fundingService = FundingRateService.getInstance();
+    const savedConfig = await SystemConfigService.getInstance().get('funding_collector_config');
+    if (savedConfig) {
+      fundingService.updateConfig(JSON.parse(savedConfig));
+    } else {
+      fundingService.start();
+    }
+  } catch (error) {
+    logger.warn('启动资金费率采集失败', { error: String(error) });
+  }
+
+  // 11. 恢复上次停机前运行中的策略实例（逐个启动对账）
+  try {
+    const reports = await StrategyManager.getInstance().resumeInstances();
+    if (reports.length > 0) {
+      logger.info('策略实例恢复完成', {
+        total: reports.length,
+        resumed: reports.filter(r => r.outcome === 'resumed').length,
+        stopped: reports.filter(r => r.outcome === 'stopped').length,
+      });
+    }
+  } catch (error) {
+    logger.error('恢复策略实例失败', { error: String(error) });
+  }
+
+  // 12. 恢复市场状态监管（接管上一步已恢复的实例）
+  try {
+    await RegimeSupervisor.getInstance().resume();
+  } catch (error) {
+    logger.error('恢复市场状态监管失败', { error: String(error) });
+  }
+
   server = app.listen(PORT, () => {
     logger.info(`Bitget Trading API 已启动`, { port: PORT });
     logger.info(`健康检查: http://localhost:${PORT}/api/health`);
@@ -156,15 +240,21 @@ bootstrap();
 async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`收到 ${signal} 信号，开始优雅关闭...`);
 
-  // 停止策略管理器
+  // 先停市场状态检测，避免挂起过程中触发切换
+  RegimeSupervisor.getInstance().suspendAll();
+
+  // 挂起策略实例：保留挂单与运行记录，重启后经启动对账恢复
   try {
     const manager = StrategyManager.getInstance();
-    await manager.stopActive();
-    logger.info('策略管理器已停止');
+    await manager.suspendAll();
+    logger.info('策略实例已挂起');
   } catch (error) {
-    logger.warn('停止策略管理器出错', { error: String(error) });
+    logger.warn('挂起策略实例出错', { error: String(error) });
   }
 
+  PortfolioRiskGovernor.getInstance().stop();
+  FundingRateService.getInstance().stop();
+
   // 停止 Polymarket 信号服务
   try {
     PolymarketSignalService.getInstance().stop();
@@ -173,6 +263,9 @@ async function gracefulShutdown(signal: string): Promise<void> {
     logger.warn('停止 Polymarket 信号服务出错', { error: String(error) });
   }
 
+  // 断开 SSE 推送连接，否则 server.close 会等待长连接
+  StrategyStreamService.getInstance().closeAll();
+
   server.close(() => {
     logger.info('HTTP 服务已关闭');
     process.exit(0);
@@ -1,10 +1,11 @@
 /**
  * 账户类型检测服务
  * 检测用户账户是 UTA（统一交易账户）还是经典账户
- * 缓存结果，会话生命周期内不重复检测
+ * 按交易账户缓存结果，会话生命周期内不重复检测
  */
 
 import { BitgetClientService } from './bitget-client.service';
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('account-type-detector');
@@ -12,17 +13,29 @@ const logger = createLogger('account-type-detector');
 export type AccountType = 'uta' | 'classic';
 
 export class AccountTypeDetectorService {
-  private static instance: AccountTypeDetectorService | null = null;
+  private static instances: Map<string, AccountTypeDetectorService> = new Map();
+  private readonly accountId: string;
   private accountType: AccountType | null = null;
   private detecting = false;
 
-  private constructor() {}
+  private constructor(accountId: string) {
+    this.accountId = accountId;
+  }
 
-  static getInstance(): AccountTypeDetectorService {
-    if (!AccountTypeDetectorService.instance) {
-      AccountTypeDetectorService.instance = new AccountTypeDetectorService();
+  static getInstance(accountId: string = DEFAULT_ACCOUNT_ID): AccountTypeDetectorService {
+    let instance = AccountTypeDetectorService.instances.get(accountId);
+    if (!instance) {
+      instance = new AccountTypeDetectorService(accountId);
+      AccountTypeDetectorService.instances.set(accountId, instance);
     }
-    return AccountTypeDetectorService.instance;
+    return instance;
+  }
+
+  /**
+   * 移除账户的检测缓存（账户删除后调用）
+   */
+  static clearInstance(accountId: string): void {
+    AccountTypeDetectorService.instances.delete(accountId);
   }
 
   /**
@@ -39,21 +52,21 @@ export class AccountTypeDetectorService {
 
     this.detecting = true;
     try {
-      const client = BitgetClientService.getInstance();
+      const client = BitgetClientService.getInstance(this.accountId);
 
       // Try UTA unified account info endpoint
       // UTA accounts support /api/v2/account/info
       try {
         await client.get('/api/v2/account/info');
         this.accountType = 'uta';
-        logger.info('账户类型检测结果: UTA（统一交易账户）');
+        logger.info('账户类型检测结果: UTA（统一交易账户）', { accountId: this.accountId });
       } catch {
         // If UTA endpoint fails, it's a classic account
         this.accountType = 'classic';
-        logger.info('账户类型检测结果: 经典账户');
+        logger.info('账户类型检测结果: 经典账户', { accountId: this.accountId });
       }
     } catch (error) {
-      logger.warn('账户类型检测失败，默认经典账户', { error: String(error) });
+      logger.warn('账户类型检测失败，默认经典账户', { accountId: this.accountId, error: String(error) });
       this.accountType = 'classic';
     } finally {
       this.detecting = false;
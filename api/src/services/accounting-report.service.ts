@@ -0,0 +1,325 @@
+/**
+ * 记账 / 报税导出服务（Singleton）
+ * 成交取自所选交易账户的 Bitget 成交记录（现货 fills 需逐个交易对查询，合约 fill-history 按产品线查询），
+ * strategy_orders 标记哪些成交属于策略订单；往返交易取自 strategy_trades。策略订单与往返交易按实例所属账户筛选
+ */
+
+import { getPool } from '../config/database';
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
+import { OrderExecutionService, SpotFill } from './order-execution.service';
+import { FuturesOrderService } from './futures-order.service';
+import { TradeJournalService } from './trade-journal.service';
+import {
+  fillsToCsv,
+  roundTripsToCsv,
+  fillsToKoinlyCsv,
+  computeFifoCostBasis,
+  fifoReportToCsv,
+} from './report/report-formats';
+import { baseCoinOf } from '../strategy/portfolio-risk-governor';
+import { FuturesFill, ProductType } from '../types/futures.types';
+import { ReportFill, ReportFormat, ReportQuery } from '../types/report.types';
+import { PersistedRoundTripTrade } from '../types/trade-journal.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { instanceAccountCondition } from '../utils/account-scope';
+
+const logger = createLogger('accounting-report');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 单次请求的时间跨度（交易所成交查询接口限制时间窗口） */
+const FILL_WINDOW_MS = 7 * DAY_MS;
+
+/** 单次导出允许的最大区间 */
+export const MAX_REPORT_RANGE_DAYS = 366;
+
+/** FIFO 报告额外回溯的天数：区间前的买入形成期初批次（更早的仍不可见，计入 unmatchedSize） */
+const FIFO_LOOKBACK_DAYS = 366;
+
+const FILL_PAGE_SIZE = 100;
+const MAX_FILLS = 100000;
+const TRADE_PAGE_SIZE = 1000;
+
+interface StrategyOrderRef {
+  symbol: string;
+  strategyType: string;
+}
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export class AccountingReportService {
+  private static instance: AccountingReportService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AccountingReportService {
+    if (!AccountingReportService.instance) {
+      AccountingReportService.instance = new AccountingReportService();
+    }
+    return AccountingReportService.instance;
+  }
+
+  /**
+   * 生成导出文件
+   */
+  async generate(format: ReportFormat, query: ReportQuery): Promise<ReportFile> {
+    this.validate(format, query);
+    const accountPrefix = query.accountId && query.accountId !== DEFAULT_ACCOUNT_ID ? `${query.accountId}-` : '';
+    const stamp = `${accountPrefix}${query.account}-${new Date(query.startTime).toISOString().slice(0, 10)}`
+      + `-${new Date(query.endTime).toISOString().slice(0, 10)}`;
+    // FIFO 需要区间前的成交建立期初批次，成交与策略订单都按回溯后的区间加载
+    const fillQuery = format === 'fifo'
+      ? { ...query, startTime: query.startTime - FIFO_LOOKBACK_DAYS * DAY_MS }
+      : query;
+    const orders = await this.loadStrategyOrders(fillQuery);
+
+    if (format === 'trades') {
+      const trades = await this.loadRoundTrips(query, orders);
+      return this.csvFile(`round-trips-${stamp}.csv`, roundTripsToCsv(trades));
+    }
+
+    const fills = await this.loadFills(fillQuery, orders);
+    logger.info('生成记账导出', { format, accountId: query.accountId, account: query.account, fills: fills.length });
+
+    if (format === 'koinly') {
+      return this.csvFile(`koinly-${stamp}.csv`, fillsToKoinlyCsv(fills));
+    }
+    if (format === 'fifo') {
+      return this.csvFile(`fifo-cost-basis-${stamp}.csv`, fifoReportToCsv(computeFifoCostBasis(fills, query.startTime)));
+    }
+    return this.csvFile(`fills-${stamp}.csv`, fillsToCsv(fills));
+  }
+
+  // ============================================================
+  // Load
+  // ============================================================
+
+  /**
+   * 区间内有成交、且所属实例绑定该交易账户的策略订单（orderId → 交易对 / 策略类型）
+   * 现货订单的 product_type 为空
+   */
+  private async loadStrategyOrders(query: ReportQuery): Promise<Map<string, StrategyOrderRef>> {
+    const conditions = [
+      `created_at <= to_timestamp($1 / 1000.0)`,
+      `COALESCE(filled_at, updated_at, created_at) >= to_timestamp($2 / 1000.0)`,
+      instanceAccountCondition('instance_id', '$3'),
+    ];
+    const values: unknown[] = [query.endTime, query.startTime, [query.accountId || DEFAULT_ACCOUNT_ID]];
+    if (query.account === 'spot') {
+      conditions.push(`COALESCE(product_type, '') = ''`);
+    } else {
+      conditions.push(`product_type = $${values.length + 1}`);
+      values.push(this.productTypeOf(query));
+    }
+    if (query.symbol) {
+      conditions.push(`symbol = $${values.length + 1}`);
+      values.push(query.symbol.toUpperCase());
+    }
+
+    try {
+      const { rows } = await getPool().query(
+        `SELECT order_id, symbol, strategy_type FROM strategy_orders WHERE ${conditions.join(' AND ')}`,
+        values
+      );
+      return new Map(rows.map(row => [
+        String(row.order_id),
+        { symbol: row.symbol, strategyType: row.strategy_type },
+      ]));
+    } catch (error) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, '读取策略订单失败', { error: String(error) }, 500);
+    }
+  }
+
+  private async loadFills(query: ReportQuery, orders: Map<string, StrategyOrderRef>): Promise<ReportFill[]> {
+    const fills = query.account === 'spot'
+      ? await this.loadSpotFills(query, orders)
+      : await this.loadFuturesFills(query);
+
+    return fills
+      .map(fill => ({ ...fill, strategyType: orders.get(fill.orderId)?.strategyType ?? null }))
+      .filter(fill => query.scope === 'all' || fill.strategyType !== null)
+      .filter(fill => fill.timestamp >= query.startTime && fill.timestamp <= query.endTime)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * 现货成交接口必须带交易对：查询参数指定的交易对 + 区间内策略订单涉及的交易对
+   */
+  private async loadSpotFills(query: ReportQuery, orders: Map<string, StrategyOrderRef>): Promise<ReportFill[]> {
+    const symbols = new Set<string>();
+    if (query.symbol) symbols.add(query.symbol.toUpperCase());
+    for (const ref of orders.values()) {
+      if (ref.symbol) symbols.add(ref.symbol.toUpperCase());
+    }
+
+    const service = new OrderExecutionService(query.accountId);
+    const result: ReportFill[] = [];
+    for (const symbol of symbols) {
+      await this.forEachWindow(query, async (startTime, endTime) => {
+        let idLessThan: string | undefined;
+        for (;;) {
+          const page = await service.getFills(symbol, { startTime, endTime, idLessThan, limit: FILL_PAGE_SIZE });
+          result.push(...page.map(fill => this.fromSpotFill(fill)));
+          this.assertFillLimit(result.length);
+          if (page.length < FILL_PAGE_SIZE) break;
+          idLessThan = page[page.length - 1].tradeId;
+        }
+      });
+    }
+    return result;
+  }
+
+  private async loadFuturesFills(query: ReportQuery): Promise<ReportFill[]> {
+    const service = new FuturesOrderService(query.accountId);
+    const productType = this.productTypeOf(query);
+    const result: ReportFill[] = [];
+
+    await this.forEachWindow(query, async (startTime, endTime) => {
+      let idLessThan: string | undefined;
+      for (;;) {
+        const page = await service.getFillHistory({
+          productType,
+          symbol: query.symbol?.toUpperCase(),
+          startTime,
+          endTime,
+          idLessThan,
+          limit: FILL_PAGE_SIZE,
+        });
+        result.push(...page.fillList.map(fill => this.fromFuturesFill(fill)));
+        this.assertFillLimit(result.length);
+        if (page.fillList.length < FILL_PAGE_SIZE || !page.endId) break;
+        idLessThan = page.endId;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 往返交易：按平仓时间筛选，并只保留出场单属于该账户的记录
+   */
+  private async loadRoundTrips(
+    query: ReportQuery,
+    orders: Map<string, StrategyOrderRef>
+  ): Promise<PersistedRoundTripTrade[]> {
+    const journal = TradeJournalService.getInstance();
+    const trades: PersistedRoundTripTrade[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await journal.query({
+        symbol: query.symbol,
+        startTime: query.startTime,
+        endTime: query.endTime,
+        accountIds: [query.accountId || DEFAULT_ACCOUNT_ID],
+        cursor,
+        limit: TRADE_PAGE_SIZE,
+      });
+      trades.push(...page.trades.filter(t => orders.has(t.exitOrderId)));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && trades.length < MAX_FILLS);
+
+    return trades.sort((a, b) => a.closedAt - b.closedAt);
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private fromSpotFill(fill: SpotFill): ReportFill {
+    const baseCoin = baseCoinOf(fill.symbol);
+    return {
+      account: 'spot',
+      tradeId: fill.tradeId,
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      baseCoin,
+      quoteCoin: fill.symbol.toUpperCase().slice(baseCoin.length) || 'USDT',
+      side: fill.side,
+      tradeSide: null,
+      price: fill.priceAvg,
+      size: fill.size,
+      quoteAmount: fill.amount,
+      fee: Math.abs(parseFloat(fill.feeDetail?.totalFee || '0')).toString(),
+      feeCoin: fill.feeDetail?.feeCoin || '',
+      realizedPnl: null,
+      timestamp: parseInt(fill.cTime, 10),
+      strategyType: null,
+    };
+  }
+
+  private fromFuturesFill(fill: FuturesFill): ReportFill {
+    const baseCoin = baseCoinOf(fill.symbol);
+    const fee = (fill.feeDetail || []).reduce((sum, d) => sum + Math.abs(parseFloat(d.totalFee || '0')), 0);
+    return {
+      account: 'futures',
+      tradeId: fill.tradeId,
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      baseCoin,
+      quoteCoin: fill.symbol.toUpperCase().slice(baseCoin.length) || 'USDT',
+      side: fill.side,
+      tradeSide: fill.tradeSide || null,
+      price: fill.price,
+      size: fill.baseVolume,
+      quoteAmount: fill.quoteVolume,
+      fee: fee.toString(),
+      feeCoin: fill.feeDetail?.[0]?.feeCoin || 'USDT',
+      realizedPnl: fill.profit || '0',
+      timestamp: parseInt(fill.cTime, 10),
+      strategyType: null,
+    };
+  }
+
+  /**
+   * 按交易所允许的时间窗口切分区间，从近到远依次查询
+   */
+  private async forEachWindow(
+    query: ReportQuery,
+    fn: (startTime: number, endTime: number) => Promise<void>
+  ): Promise<void> {
+    for (let end = query.endTime; end > query.startTime; end -= FILL_WINDOW_MS) {
+      await fn(Math.max(end - FILL_WINDOW_MS, query.startTime), end);
+    }
+  }
+
+  private assertFillLimit(count: number): void {
+    if (count > MAX_FILLS) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `成交记录超过 ${MAX_FILLS} 条，请缩小时间范围或指定交易对`,
+        { count },
+        400
+      );
+    }
+  }
+
+  private productTypeOf(query: ReportQuery): ProductType {
+    return query.productType || 'USDT-FUTURES';
+  }
+
+  private csvFile(filename: string, body: string): ReportFile {
+    return { filename, contentType: 'text/csv', body };
+  }
+
+  private validate(format: ReportFormat, query: ReportQuery): void {
+    if (!(query.endTime > query.startTime)) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'endTime 必须晚于 startTime', { query }, 400);
+    }
+    if (query.endTime - query.startTime > MAX_REPORT_RANGE_DAYS * DAY_MS) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `导出区间不能超过 ${MAX_REPORT_RANGE_DAYS} 天`,
+        { startTime: query.startTime, endTime: query.endTime },
+        400
+      );
+    }
+    if (format === 'fifo' && query.account !== 'spot') {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'FIFO 成本报告仅适用于现货账户', { account: query.account }, 400);
+    }
+  }
+}
@@ -9,6 +9,7 @@ import { FuturesAccountService } from '../futures-account.service';
 import { AccountTypeDetectorService } from '../account-type-detector.service';
 import { BitgetClientService } from '../bitget-client.service';
 import { ProductType } from '../../types/futures.types';
+import { UnifiedFundingPayment, UnifiedPosition } from '../../types/trading.types';
 import { createLogger } from '../../utils/logger';
 
 const logger = createLogger('futures-account-adapter');
@@ -16,14 +17,16 @@ const logger = createLogger('futures-account-adapter');
 export class FuturesAccountAdapter implements IAccountService {
   private service: FuturesAccountService;
   private productType: ProductType;
+  private accountId?: string;
 
-  constructor(productType: ProductType) {
-    this.service = new FuturesAccountService();
+  constructor(productType: ProductType, accountId?: string) {
+    this.service = new FuturesAccountService(accountId);
     this.productType = productType;
+    this.accountId = accountId;
   }
 
   async getAvailableBalance(marginCoin = 'USDT'): Promise<string> {
-    const detector = AccountTypeDetectorService.getInstance();
+    const detector = AccountTypeDetectorService.getInstance(this.accountId);
     if (detector.isUTA()) {
       return this.getUTABalance(marginCoin);
     }
@@ -35,16 +38,45 @@ export class FuturesAccountAdapter implements IAccountService {
     available: string;
     unrealizedPL: string;
   }> {
-    const detector = AccountTypeDetectorService.getInstance();
+    const detector = AccountTypeDetectorService.getInstance(this.accountId);
     if (detector.isUTA()) {
       return this.getUTAEquity(marginCoin);
     }
     return this.service.getAccountEquity(this.productType, marginCoin);
   }
 
+  async getFundingPayments(symbol: string, startTime: number): Promise<UnifiedFundingPayment[]> {
+    const bills = await this.service.getFundingBills(this.productType, symbol, startTime);
+    return bills.map(b => ({
+      billId: b.billId,
+      symbol: b.symbol,
+      amount: b.amount,
+      timestamp: parseInt(b.cTime, 10),
+    }));
+  }
+
+  async getPositions(symbol: string): Promise<UnifiedPosition[]> {
+    const positions = await this.service.getPositions(this.productType);
+    return positions
+      .filter(p => p.symbol === symbol && parseFloat(p.total) !== 0)
+      .map(p => {
+        const total = parseFloat(p.total);
+        // 单向持仓 holdSide 可能为 net，按数量正负区分多空
+        const holdSide = p.holdSide === 'net' ? (total > 0 ? 'long' : 'short') : p.holdSide;
+        return {
+          symbol: p.symbol,
+          holdSide,
+          total: String(Math.abs(total)),
+          available: String(Math.abs(parseFloat(p.available) || 0)),
+          openPriceAvg: p.openPriceAvg,
+          unrealizedPL: p.unrealizedPL,
+        };
+      });
+  }
+
   private async getUTABalance(marginCoin: string): Promise<string> {
     try {
-      const client = BitgetClientService.getInstance();
+      const client = BitgetClientService.getInstance(this.accountId);
       const response = await client.get<Array<Record<string, string>>>(
         '/api/v2/account/funding-assets',
         { coin: marginCoin }
@@ -63,7 +95,7 @@ export class FuturesAccountAdapter implements IAccountService {
     unrealizedPL: string;
   }> {
     try {
-      const client = BitgetClientService.getInstance();
+      const client = BitgetClientService.getInstance(this.accountId);
       const response = await client.get<Array<Record<string, string>>>(
         '/api/v2/account/funding-assets',
         { coin: marginCoin }
@@ -4,8 +4,8 @@
  */
 
 import { IMarketDataService } from '../interfaces/i-market-data.service';
-import { FuturesMarketDataService } from '../futures-market-data.service';
-import { UnifiedTickerInfo } from '../../types/trading.types';
+import { FuturesMarketDataService, toMergeDepthLimit } from '../futures-market-data.service';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
 import { ProductType } from '../../types/futures.types';
 
 export class FuturesMarketDataAdapter implements IMarketDataService {
@@ -42,4 +42,14 @@ export class FuturesMarketDataAdapter implements IMarketDataService {
   async getBestAsk(symbol: string): Promise<string> {
     return this.service.getBestAsk(symbol, this.productType);
   }
+
+  async getOrderBook(symbol: string, depth = 15): Promise<UnifiedOrderBook> {
+    const book = await this.service.getOrderBookDepth(symbol, this.productType, toMergeDepthLimit(depth));
+    return {
+      symbol,
+      bids: (book.bids || []).slice(0, depth),
+      asks: (book.asks || []).slice(0, depth),
+      ts: book.ts,
+    };
+  }
 }
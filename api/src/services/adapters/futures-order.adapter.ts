@@ -13,8 +13,21 @@ import {
   UnifiedBatchCancelResult,
   UnifiedPendingOrder,
   UnifiedOrderDetail,
+  UnifiedTpslOrderParams,
+  UnifiedModifyTpslParams,
+  UnifiedTriggerOrderParams,
+  UnifiedModifyTriggerParams,
+  UnifiedCancelPlanParams,
+  UnifiedPlanOrder,
+  PlanOrderCategory,
 } from '../../types/trading.types';
-import { ProductType, MarginMode } from '../../types/futures.types';
+import { ProductType, MarginMode, TradeSide, FuturesPlanOrder } from '../../types/futures.types';
+
+/** 统一分类 → Bitget 撤单/查询用的 planType */
+const PLAN_TYPE_BY_CATEGORY: Record<PlanOrderCategory, 'profit_loss' | 'normal_plan'> = {
+  tpsl: 'profit_loss',
+  trigger: 'normal_plan',
+};
 
 export class FuturesOrderAdapter implements IOrderService {
   private service: FuturesOrderService;
@@ -22,8 +35,8 @@ export class FuturesOrderAdapter implements IOrderService {
   private marginMode: MarginMode;
   private marginCoin: string;
 
-  constructor(productType: ProductType, marginMode: MarginMode, marginCoin: string) {
-    this.service = new FuturesOrderService();
+  constructor(productType: ProductType, marginMode: MarginMode, marginCoin: string, accountId?: string) {
+    this.service = new FuturesOrderService(accountId);
     this.productType = productType;
     this.marginMode = marginMode;
     this.marginCoin = marginCoin;
@@ -94,8 +107,100 @@ export class FuturesOrderAdapter implements IOrderService {
       size: detail.size,
       filledQty: detail.filledQty,
       price: detail.price,
+      priceAvg: detail.priceAvg || '0',
+      // Bitget 以负数表示扣除的手续费
+      fee: String(Math.abs(parseFloat(detail.fee || '0')) || 0),
       side: detail.side,
       state: detail.state,
     };
   }
+
+  async placeTpslOrder(params: UnifiedTpslOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.service.placeTpslOrder({
+      symbol: params.symbol,
+      productType: this.productType,
+      marginCoin: this.marginCoin,
+      planType: params.planType,
+      triggerPrice: params.triggerPrice,
+      triggerType: params.triggerType || 'mark_price',
+      executePrice: params.executePrice || '0',
+      holdSide: params.holdSide,
+      size: params.size,
+      clientOid: params.clientOid,
+    });
+  }
+
+  async modifyTpslOrder(params: UnifiedModifyTpslParams): Promise<void> {
+    await this.service.modifyTpslOrder({
+      orderId: params.orderId,
+      symbol: params.symbol,
+      productType: this.productType,
+      marginCoin: this.marginCoin,
+      triggerPrice: params.triggerPrice,
+      triggerType: params.triggerType || 'mark_price',
+      executePrice: params.executePrice || '0',
+      size: params.size || '',
+    });
+  }
+
+  async placeTriggerOrder(params: UnifiedTriggerOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.service.placePlanOrder({
+      planType: 'normal_plan',
+      symbol: params.symbol,
+      productType: this.productType,
+      marginMode: this.marginMode,
+      marginCoin: this.marginCoin,
+      size: params.size,
+      price: params.price,
+      triggerPrice: params.triggerPrice,
+      triggerType: params.triggerType || 'fill_price',
+      side: params.side,
+      tradeSide: params.tradeSide as TradeSide | undefined,
+      orderType: params.orderType,
+      clientOid: params.clientOid,
+    });
+  }
+
+  async modifyTriggerOrder(params: UnifiedModifyTriggerParams): Promise<void> {
+    await this.service.modifyPlanOrder({
+      orderId: params.orderId,
+      symbol: params.symbol,
+      productType: this.productType,
+      newSize: params.size,
+      newPrice: params.price,
+      newTriggerPrice: params.triggerPrice,
+    });
+  }
+
+  async cancelPlanOrder(params: UnifiedCancelPlanParams): Promise<void> {
+    await this.service.cancelPlanOrders({
+      symbol: params.symbol,
+      productType: this.productType,
+      marginCoin: this.marginCoin,
+      planType: PLAN_TYPE_BY_CATEGORY[params.category],
+      orderIdList: [{ orderId: params.orderId }],
+    });
+  }
+
+  async getPendingPlanOrders(symbol: string, category: PlanOrderCategory): Promise<UnifiedPlanOrder[]> {
+    const orders = await this.service.getPendingPlanOrders(symbol, this.productType, PLAN_TYPE_BY_CATEGORY[category]);
+    return orders.map(o => toUnifiedPlanOrder(o, category));
+  }
+}
+
+function toUnifiedPlanOrder(order: FuturesPlanOrder, category: PlanOrderCategory): UnifiedPlanOrder {
+  return {
+    orderId: order.orderId,
+    clientOid: order.clientOid,
+    symbol: order.symbol,
+    category,
+    planType: order.planType,
+    side: order.side,
+    holdSide: order.posSide,
+    triggerPrice: order.triggerPrice,
+    executePrice: order.executePrice || order.price || '0',
+    size: order.size || '0',
+    status: order.planStatus,
+    cTime: order.cTime,
+  };
 }
@@ -4,3 +4,4 @@ export { FuturesAccountAdapter } from './futures-account.adapter';
 export { SpotOrderAdapter } from './spot-order.adapter';
 export { SpotMarketDataAdapter } from './spot-market-data.adapter';
 export { SpotAccountAdapter } from './spot-account.adapter';
+export { RiskGovernedOrderAdapter } from './risk-governed-order.adapter';
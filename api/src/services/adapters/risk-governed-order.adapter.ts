@@ -0,0 +1,115 @@
+/**
+ * 组合风控订单装饰器
+ * 包装实盘 IOrderService，下单/触发单前经 PortfolioRiskGovernor 检查，超出账户级上限时抛出 PORTFOLIO_RISK_VETO；
+ * 标记 reduceOnly 的出场/平仓单与撤单、查询、止盈止损等减仓操作直接透传
+ */
+
+import { IOrderService } from '../interfaces/i-order.service';
+import { IMarketDataService } from '../interfaces/i-market-data.service';
+import { PortfolioRiskGovernor } from '../../strategy/portfolio-risk-governor';
+import {
+  TradingType,
+  UnifiedPlaceOrderParams,
+  UnifiedPlaceOrderResult,
+  UnifiedCancelOrderParams,
+  UnifiedBatchCancelParams,
+  UnifiedBatchCancelResult,
+  UnifiedPendingOrder,
+  UnifiedOrderDetail,
+  UnifiedTpslOrderParams,
+  UnifiedModifyTpslParams,
+  UnifiedTriggerOrderParams,
+  UnifiedModifyTriggerParams,
+  UnifiedCancelPlanParams,
+  UnifiedPlanOrder,
+  PlanOrderCategory,
+} from '../../types/trading.types';
+
+export class RiskGovernedOrderAdapter implements IOrderService {
+  constructor(
+    private readonly inner: IOrderService,
+    private readonly marketDataService: IMarketDataService,
+    private readonly tradingType: TradingType,
+    private readonly accountId?: string
+  ) {}
+
+  async placeOrder(params: UnifiedPlaceOrderParams): Promise<UnifiedPlaceOrderResult> {
+    await this.check(params.symbol, params.side, params.size, params.price, params.tradeSide, params.reduceOnly);
+    return this.inner.placeOrder(params);
+  }
+
+  cancelOrder(params: UnifiedCancelOrderParams): Promise<void> {
+    return this.inner.cancelOrder(params);
+  }
+
+  batchCancelOrders(params: UnifiedBatchCancelParams): Promise<UnifiedBatchCancelResult> {
+    return this.inner.batchCancelOrders(params);
+  }
+
+  getPendingOrders(symbol: string): Promise<UnifiedPendingOrder[]> {
+    return this.inner.getPendingOrders(symbol);
+  }
+
+  getOrderDetail(symbol: string, orderId: string): Promise<UnifiedOrderDetail> {
+    return this.inner.getOrderDetail(symbol, orderId);
+  }
+
+  placeTpslOrder(params: UnifiedTpslOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.inner.placeTpslOrder(params);
+  }
+
+  modifyTpslOrder(params: UnifiedModifyTpslParams): Promise<void> {
+    return this.inner.modifyTpslOrder(params);
+  }
+
+  async placeTriggerOrder(params: UnifiedTriggerOrderParams): Promise<UnifiedPlaceOrderResult> {
+    // 触发单按触发价估算名义价值
+    await this.check(
+      params.symbol, params.side, params.size, params.price || params.triggerPrice, params.tradeSide, params.reduceOnly
+    );
+    return this.inner.placeTriggerOrder(params);
+  }
+
+  modifyTriggerOrder(params: UnifiedModifyTriggerParams): Promise<void> {
+    return this.inner.modifyTriggerOrder(params);
+  }
+
+  cancelPlanOrder(params: UnifiedCancelPlanParams): Promise<void> {
+    return this.inner.cancelPlanOrder(params);
+  }
+
+  getPendingPlanOrders(symbol: string, category: PlanOrderCategory): Promise<UnifiedPlanOrder[]> {
+    return this.inner.getPendingPlanOrders(symbol, category);
+  }
+
+  private async check(
+    symbol: string,
+    side: 'buy' | 'sell',
+    size: string,
+    price: string | undefined,
+    tradeSide: string | undefined,
+    reduceOnly: boolean | undefined
+  ): Promise<void> {
+    const governor = PortfolioRiskGovernor.getInstance();
+    // 出场/平仓单降低风险，风控触发期间也必须能下出去
+    if (!governor.getConfig().enabled || reduceOnly) return;
+
+    // 市价单没有价格，按最新成交价估算
+    let orderPrice = price ? parseFloat(price) : 0;
+    if (!(orderPrice > 0)) {
+      const ticker = await this.marketDataService.getTicker(symbol);
+      orderPrice = parseFloat(ticker.lastPr);
+    }
+
+    governor.assertOrderAllowed({
+      symbol,
+      side,
+      size,
+      price: orderPrice,
+      tradingType: this.tradingType,
+      tradeSide,
+      reduceOnly,
+      accountId: this.accountId,
+    });
+  }
+}
@@ -8,19 +8,22 @@ import { IAccountService } from '../interfaces/i-account.service';
 import { CapitalManagerService } from '../capital-manager.service';
 import { AccountTypeDetectorService } from '../account-type-detector.service';
 import { BitgetClientService } from '../bitget-client.service';
+import { UnifiedFundingPayment, UnifiedPosition } from '../../types/trading.types';
 import { createLogger } from '../../utils/logger';
 
 const logger = createLogger('spot-account-adapter');
 
 export class SpotAccountAdapter implements IAccountService {
   private service: CapitalManagerService;
+  private accountId?: string;
 
-  constructor() {
-    this.service = new CapitalManagerService();
+  constructor(accountId?: string) {
+    this.service = new CapitalManagerService(accountId);
+    this.accountId = accountId;
   }
 
   async getAvailableBalance(marginCoin = 'USDT'): Promise<string> {
-    const detector = AccountTypeDetectorService.getInstance();
+    const detector = AccountTypeDetectorService.getInstance(this.accountId);
     if (detector.isUTA()) {
       return this.getUTABalance(marginCoin);
     }
@@ -32,7 +35,7 @@ export class SpotAccountAdapter implements IAccountService {
     available: string;
     unrealizedPL: string;
   }> {
-    const detector = AccountTypeDetectorService.getInstance();
+    const detector = AccountTypeDetectorService.getInstance(this.accountId);
     if (detector.isUTA()) {
       const available = await this.getUTABalance(marginCoin);
       return { equity: available, available, unrealizedPL: '0' };
@@ -46,9 +49,19 @@ export class SpotAccountAdapter implements IAccountService {
     };
   }
 
+  async getFundingPayments(_symbol: string, _startTime: number): Promise<UnifiedFundingPayment[]> {
+    // 现货无资金费
+    return [];
+  }
+
+  async getPositions(_symbol: string): Promise<UnifiedPosition[]> {
+    // 现货只有余额，没有仓位
+    return [];
+  }
+
   private async getUTABalance(marginCoin: string): Promise<string> {
     try {
-      const client = BitgetClientService.getInstance();
+      const client = BitgetClientService.getInstance(this.accountId);
       const response = await client.get<Array<Record<string, string>>>(
         '/api/v2/account/funding-assets',
         { coin: marginCoin }
@@ -5,7 +5,7 @@
 
 import { IMarketDataService } from '../interfaces/i-market-data.service';
 import { MarketDataService } from '../market-data.service';
-import { UnifiedTickerInfo } from '../../types/trading.types';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
 
 export class SpotMarketDataAdapter implements IMarketDataService {
   private service: MarketDataService;
@@ -45,4 +45,14 @@ export class SpotMarketDataAdapter implements IMarketDataService {
     const ticker = await this.getTicker(symbol);
     return ticker.askPr;
   }
+
+  async getOrderBook(symbol: string, depth = 15): Promise<UnifiedOrderBook> {
+    const book = await this.service.getOrderBook(symbol, depth);
+    return {
+      symbol,
+      bids: (book.bids || []).slice(0, depth),
+      asks: (book.asks || []).slice(0, depth),
+      ts: book.ts,
+    };
+  }
 }
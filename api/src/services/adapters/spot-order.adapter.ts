@@ -4,7 +4,7 @@
  */
 
 import { IOrderService } from '../interfaces/i-order.service';
-import { OrderExecutionService } from '../order-execution.service';
+import { OrderExecutionService, OrderInfo } from '../order-execution.service';
 import { BitgetClientService } from '../bitget-client.service';
 import {
   UnifiedPlaceOrderParams,
@@ -14,7 +14,9 @@ import {
   UnifiedBatchCancelResult,
   UnifiedPendingOrder,
   UnifiedOrderDetail,
+  UnifiedPlanOrder,
 } from '../../types/trading.types';
+import { AppError, ErrorCode } from '../../utils/errors';
 import { createLogger } from '../../utils/logger';
 
 const logger = createLogger('spot-order-adapter');
@@ -23,9 +25,9 @@ export class SpotOrderAdapter implements IOrderService {
   private service: OrderExecutionService;
   private client: BitgetClientService;
 
-  constructor() {
-    this.service = new OrderExecutionService();
-    this.client = BitgetClientService.getInstance();
+  constructor(accountId?: string) {
+    this.service = new OrderExecutionService(accountId);
+    this.client = BitgetClientService.getInstance(accountId);
   }
 
   async placeOrder(params: UnifiedPlaceOrderParams): Promise<UnifiedPlaceOrderResult> {
@@ -138,8 +140,73 @@ export class SpotOrderAdapter implements IOrderService {
       size: info.size,
       filledQty: info.baseVolume || '0',
       price: info.price,
+      priceAvg: info.priceAvg || '0',
+      fee: quoteFeeOf(info),
       side: info.side as 'buy' | 'sell',
       state: stateMap[info.status] || info.status,
     };
   }
+
+  // 现货没有仓位，止盈止损与触发单只对合约开放
+
+  async placeTpslOrder(): Promise<UnifiedPlaceOrderResult> {
+    throw planOrderNotSupported();
+  }
+
+  async modifyTpslOrder(): Promise<void> {
+    throw planOrderNotSupported();
+  }
+
+  async placeTriggerOrder(): Promise<UnifiedPlaceOrderResult> {
+    throw planOrderNotSupported();
+  }
+
+  async modifyTriggerOrder(): Promise<void> {
+    throw planOrderNotSupported();
+  }
+
+  async cancelPlanOrder(): Promise<void> {
+    throw planOrderNotSupported();
+  }
+
+  async getPendingPlanOrders(_symbol: string): Promise<UnifiedPlanOrder[]> {
+    return [];
+  }
+}
+
+function planOrderNotSupported(): AppError {
+  return new AppError(ErrorCode.PLAN_ORDER_NOT_SUPPORTED, '现货不支持止盈止损 / 触发单', undefined, 400);
+}
+
+/**
+ * 从现货订单的 feeDetail 折算计价币手续费
+ * feeDetail 按扣费币种分组（另含汇总用的 newFees），基础币扣费按成交均价折算；
+ * 以其他币种（如 BGB 抵扣）扣除的部分无法折算，全部无法折算时返回 '0' 交由策略按费率估算
+ */
+function quoteFeeOf(info: OrderInfo): string {
+  let detail: Record<string, unknown>;
+  try {
+    detail = typeof info.feeDetail === 'string'
+      ? JSON.parse(info.feeDetail || '{}')
+      : info.feeDetail || {};
+  } catch {
+    logger.warn('现货订单 feeDetail 解析失败', { orderId: info.orderId, feeDetail: info.feeDetail });
+    return '0';
+  }
+
+  const symbol = info.symbol.toUpperCase();
+  const priceAvg = parseFloat(info.priceAvg || '0');
+  let fee = 0;
+  for (const [coin, value] of Object.entries(detail)) {
+    if (coin === 'newFees' || !value || typeof value !== 'object') continue;
+    const entry = value as { feeCoinCode?: string; totalFee?: string | number };
+    const feeCoin = (entry.feeCoinCode || coin).toUpperCase();
+    const amount = Math.abs(parseFloat(String(entry.totalFee ?? '0'))) || 0;
+    if (symbol.endsWith(feeCoin)) {
+      fee += amount;
+    } else if (symbol.startsWith(feeCoin) && priceAvg > 0) {
+      fee += amount * priceAvg;
+    }
+  }
+  return fee > 0 ? fee.toFixed(8) : '0';
 }
@@ -0,0 +1,208 @@
+/**
+ * 策略绩效分析服务（Singleton）
+ * 从持久化数据构建报告：无实例/交易对/账户筛选时按日数据取自 strategy_daily_pnl，
+ * 否则从 strategy_pnl_ledger 逐笔汇总；逐笔统计关联 strategy_orders 取开仓成交时间
+ */
+
+import { QueryResultRow } from 'pg';
+import { getPool } from '../config/database';
+import {
+  AnalyticsPeriod,
+  AnalyticsQuery,
+  AnalyticsReport,
+} from '../types/analytics.types';
+import {
+  DailyPnlRow,
+  ClosedTradeRow,
+  buildEquityCurve,
+  findDrawdowns,
+  aggregateReturns,
+  hourlyPerformance,
+  computeMetrics,
+} from '../strategy/performance-metrics';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { instanceAccountCondition } from '../utils/account-scope';
+
+const logger = createLogger('analytics');
+
+/** 单次报告最多读取的平仓记录数（超过时取最近的记录） */
+const MAX_TRADES = 50000;
+
+const PERIODS: AnalyticsPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/** 按日汇总行（NUMERIC / COUNT 由 pg 以字符串返回，无数据时 SUM 为 null） */
+interface DailyAggregateRow {
+  day: Date | string;
+  pnl: string | null;
+  fees: string | null;
+  funding: string | null;
+  trades: string | null;
+}
+
+interface ClosedTradeQueryRow {
+  net_pnl: string;
+  closed_at: Date;
+  opened_at: Date | null;
+}
+
+export class AnalyticsService {
+  private static instance: AnalyticsService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AnalyticsService {
+    if (!AnalyticsService.instance) {
+      AnalyticsService.instance = new AnalyticsService();
+    }
+    return AnalyticsService.instance;
+  }
+
+  async getReport(query: AnalyticsQuery): Promise<AnalyticsReport> {
+    const [daily, trades] = await Promise.all([this.loadDaily(query), this.loadTrades(query)]);
+    const curve = buildEquityCurve(daily, query.initialCapital);
+    const drawdowns = findDrawdowns(curve, query.initialCapital);
+
+    const returns = {} as Record<AnalyticsPeriod, ReturnType<typeof aggregateReturns>>;
+    for (const period of PERIODS) {
+      returns[period] = aggregateReturns(curve, period, query.initialCapital);
+    }
+
+    return {
+      query,
+      metrics: computeMetrics(daily, curve, drawdowns, trades, query.initialCapital),
+      equityCurve: curve,
+      drawdowns,
+      returns,
+      hourly: hourlyPerformance(trades),
+      generatedAt: Date.now(),
+    };
+  }
+
+  // ============================================================
+  // Load
+  // ============================================================
+
+  private async loadDaily(query: AnalyticsQuery): Promise<DailyPnlRow[]> {
+    const byLedger = Boolean(query.instanceId || query.symbol || query.accountIds);
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let idx = 1;
+
+    const dateColumn = byLedger ? `(created_at AT TIME ZONE 'UTC')::date` : 'date';
+    if (query.instanceId) {
+      conditions.push(`instance_id = $${idx++}`);
+      values.push(query.instanceId);
+    }
+    if (query.symbol) {
+      conditions.push(`symbol = $${idx++}`);
+      values.push(query.symbol.toUpperCase());
+    }
+    if (query.accountIds) {
+      conditions.push(instanceAccountCondition('strategy_pnl_ledger.instance_id', `$${idx++}`));
+      values.push(query.accountIds);
+    }
+    if (query.strategyType) {
+      conditions.push(`strategy_type = $${idx++}`);
+      values.push(query.strategyType);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push(`${dateColumn} >= (to_timestamp($${idx++} / 1000.0) AT TIME ZONE 'UTC')::date`);
+      values.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push(`${dateColumn} <= (to_timestamp($${idx++} / 1000.0) AT TIME ZONE 'UTC')::date`);
+      values.push(query.endTime);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // strategy_daily_pnl.realized_pnl 已扣手续费，资金费单独累加
+    const sql = byLedger
+      ? `SELECT ${dateColumn} AS day, SUM(net_pnl) AS pnl, SUM(fee) AS fees, SUM(funding) AS funding,
+                COUNT(*) FILTER (WHERE entry_type = 'trade') AS trades
+         FROM strategy_pnl_ledger ${where}
+         GROUP BY day ORDER BY day`
+      : `SELECT date AS day, SUM(realized_pnl + COALESCE(funding, 0)) AS pnl, SUM(fees) AS fees,
+                SUM(COALESCE(funding, 0)) AS funding, SUM(total_trades) AS trades
+         FROM strategy_daily_pnl ${where}
+         GROUP BY day ORDER BY day`;
+
+    const rows = await this.query<DailyAggregateRow>(sql, values);
+    return rows.map(row => ({
+      date: this.formatDate(row.day),
+      pnl: parseFloat(row.pnl ?? '0') || 0,
+      fees: parseFloat(row.fees ?? '0') || 0,
+      funding: parseFloat(row.funding ?? '0') || 0,
+      trades: parseInt(row.trades ?? '0', 10) || 0,
+    }));
+  }
+
+  private async loadTrades(query: AnalyticsQuery): Promise<ClosedTradeRow[]> {
+    const conditions = [`l.entry_type = 'trade'`];
+    const values: unknown[] = [];
+    let idx = 1;
+
+    if (query.instanceId) {
+      conditions.push(`l.instance_id = $${idx++}`);
+      values.push(query.instanceId);
+    }
+    if (query.symbol) {
+      conditions.push(`l.symbol = $${idx++}`);
+      values.push(query.symbol.toUpperCase());
+    }
+    if (query.accountIds) {
+      conditions.push(instanceAccountCondition('l.instance_id', `$${idx++}`));
+      values.push(query.accountIds);
+    }
+    if (query.strategyType) {
+      conditions.push(`l.strategy_type = $${idx++}`);
+      values.push(query.strategyType);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push(`l.created_at >= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push(`l.created_at <= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.endTime);
+    }
+
+    const rows = await this.query<ClosedTradeQueryRow>(
+      `SELECT net_pnl, closed_at, opened_at FROM (
+         SELECT l.id, l.net_pnl, l.created_at AS closed_at, o.filled_at AS opened_at
+         FROM strategy_pnl_ledger l
+         LEFT JOIN strategy_orders o ON o.order_id = l.entry_order_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY l.created_at DESC
+         LIMIT $${idx}
+       ) recent ORDER BY closed_at ASC`,
+      [...values, MAX_TRADES]
+    );
+    if (rows.length >= MAX_TRADES) {
+      logger.warn('平仓记录超过上限，仅统计最近的记录', { limit: MAX_TRADES });
+    }
+
+    return rows.map(row => ({
+      netPnl: parseFloat(row.net_pnl) || 0,
+      closedAt: row.closed_at.getTime(),
+      openedAt: row.opened_at ? row.opened_at.getTime() : null,
+    }));
+  }
+
+  private async query<T extends QueryResultRow>(sql: string, values: unknown[]): Promise<T[]> {
+    try {
+      const { rows } = await getPool().query<T>(sql, values);
+      return rows;
+    } catch (error) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, '读取绩效数据失败', { error: String(error) }, 500);
+    }
+  }
+
+  /** pg 将 DATE 解析为本地时区零点的 Date，按本地日期取回 YYYY-MM-DD */
+  private formatDate(value: Date | string): string {
+    if (typeof value === 'string') return value.slice(0, 10);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * 回测服务
+ * 使用模拟撮合 + 虚拟时钟离线回放 K 线或 ticker 流，驱动策略注册表中的引擎（剥头皮/网格/DCA 及插件策略）
+ * 引擎代码与实盘完全一致，仅替换注入的订单/行情/账户服务与时钟
+ */
+
+import { StrategyRegistry } from '../strategy/strategy-registry';
+import { CandleDataService, CANDLE_INTERVALS, MAX_HISTORY_CANDLES, isCandleInterval } from './candle-data.service';
+import { InstrumentSpecService } from './instrument-spec.service';
+import { TradingServices } from './trading-service.factory';
+import { SimulatedExchange, buildDefaultSpec, isSpecComplete } from './simulation/simulated-exchange';
+import { SimulatedOrderAdapter } from './simulation/simulated-order.adapter';
+import { SimulatedMarketDataAdapter } from './simulation/simulated-market-data.adapter';
+import { SimulatedAccountAdapter } from './simulation/simulated-account.adapter';
+import { VirtualClock } from './simulation/virtual-clock';
+import { Candle } from '../strategy/indicators/technical-indicators';
+import { CandleInterval, InstrumentSpec, StrategyType, TradingType } from '../types/trading.types';
+import { BaseStrategyConfig, PnlSummary } from '../types/strategy.types';
+import {
+  BacktestRequest,
+  BacktestResult,
+  BacktestTrade,
+  EquityPoint,
+  MarketTick,
+} from '../types/backtest.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger, logContext, LogLevel } from '../utils/logger';
+
+const logger = createLogger('backtest');
+
+/** 单次回测最大回放 tick 数（K 线每根展开为 4 个 tick） */
+const MAX_TICKS = 100_000;
+/** 权益曲线最大采样点数 */
+const MAX_EQUITY_POINTS = 500;
+const DEFAULT_INITIAL_BALANCE = 1000;
+const DEFAULT_CANDLE_LIMIT = 200;
+
+export class BacktestService {
+  private static instance: BacktestService | null = null;
+  private runCounter = 0;
+
+  static getInstance(): BacktestService {
+    if (!BacktestService.instance) {
+      BacktestService.instance = new BacktestService();
+    }
+    return BacktestService.instance;
+  }
+
+  /**
+   * 执行一次回测
+   */
+  async run(request: BacktestRequest): Promise<BacktestResult> {
+    const strategyType = request.config?.strategyType;
+    const registry = StrategyRegistry.getInstance();
+    if (!strategyType || !registry.has(strategyType)) {
+      throw new AppError(
+        ErrorCode.BACKTEST_INVALID_INPUT,
+        `回测仅支持已注册的策略类型: ${registry.getTypes().join(' / ')}`,
+        { strategyType },
+        400
+      );
+    }
+
+    const { defaults } = registry.getDefinition(strategyType);
+    const tradingType = request.config.tradingType || defaults.tradingType;
+    const symbol = request.config.symbol || defaults.symbol;
+    const productType = request.config.productType || defaults.productType;
+
+    const spec = await this.resolveSpec(symbol, tradingType, request.spec);
+    const ticks = await this.loadTicks(request, symbol, tradingType, productType, spec);
+
+    // 回放期间引擎会输出大量 INFO 日志，作用域内仅保留 WARN 及以上
+    return logContext.run(
+      { ...logContext.getStore(), minLevel: LogLevel.WARN },
+      () => this.replay(request, strategyType, tradingType, symbol, spec, ticks)
+    );
+  }
+
+  // ============================================================
+  // 回放
+  // ============================================================
+
+  private async replay(
+    request: BacktestRequest,
+    strategyType: StrategyType,
+    tradingType: TradingType,
+    symbol: string,
+    spec: InstrumentSpec,
+    ticks: MarketTick[]
+  ): Promise<BacktestResult> {
+    const initialBalance = request.initialBalance !== undefined
+      ? parseFloat(request.initialBalance)
+      : DEFAULT_INITIAL_BALANCE;
+    if (!(initialBalance > 0)) {
+      throw new AppError(ErrorCode.BACKTEST_INVALID_INPUT, '初始资金必须大于 0', { initialBalance: request.initialBalance }, 400);
+    }
+
+    const clock = new VirtualClock(ticks[0].timestamp);
+    const exchange = new SimulatedExchange({
+      symbol,
+      tradingType,
+      spec,
+      clock,
+      initialBalance,
+      partialFillRatio: request.partialFillRatio ?? 0.5,
+      leverage: request.leverage ?? (parseFloat(request.config.leverage || '') || 1),
+    });
+    exchange.updateMarket(ticks[0]);
+
+    const services: TradingServices = {
+      orderService: new SimulatedOrderAdapter(exchange),
+      marketDataService: new SimulatedMarketDataAdapter(exchange),
+      accountService: new SimulatedAccountAdapter(exchange),
+      clock,
+      simulated: true,
+    };
+    const instanceId = `backtest_${Date.now()}_${++this.runCounter}`;
+    const engine = StrategyRegistry.getInstance().getDefinition(strategyType).create(services, instanceId);
+
+    await engine.start({
+      ...request.config,
+      strategyType,
+      tradingType,
+      symbol,
+      instanceId,
+      pricePrecision: spec.pricePlace,
+      sizePrecision: spec.volumePlace,
+    } as BaseStrategyConfig);
+
+    const initialEquity = parseFloat(exchange.getEquity().equity);
+    const sampleEvery = Math.max(1, Math.ceil(ticks.length / MAX_EQUITY_POINTS));
+    const equityCurve: EquityPoint[] = [];
+    let peakEquity = initialEquity;
+    let maxDrawdown = 0;
+
+    for (let i = 0; i < ticks.length; i++) {
+      const tick = ticks[i];
+      await clock.advanceTo(tick.timestamp);
+      exchange.updateMarket(tick);
+
+      const equity = parseFloat(exchange.getEquity().equity);
+      if (equity > peakEquity) peakEquity = equity;
+      if (peakEquity > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peakEquity - equity) / peakEquity);
+      }
+      if (i % sampleEvery === 0 || i === ticks.length - 1) {
+        equityCurve.push({ timestamp: tick.timestamp, equity: equity.toFixed(4) });
+      }
+    }
+
+    await engine.stop();
+    await clock.flush();
+
+    const { equity: finalEquity, unrealizedPL } = exchange.getEquity();
+    const trades = exchange.getTrades();
+    const totalReturn = initialEquity > 0
+      ? ((parseFloat(finalEquity) - initialEquity) / initialEquity) * 100
+      : 0;
+
+    logger.info('回测完成', {
+      strategyType,
+      symbol,
+      ticks: ticks.length,
+      trades: trades.length,
+      finalEquity,
+    });
+
+    return {
+      strategyType,
+      symbol,
+      startTime: ticks[0].timestamp,
+      endTime: ticks[ticks.length - 1].timestamp,
+      tickCount: ticks.length,
+      spec,
+      initialEquity: initialEquity.toFixed(4),
+      finalEquity,
+      totalReturnPercent: totalReturn.toFixed(2),
+      maxDrawdownPercent: (maxDrawdown * 100).toFixed(2),
+      summary: this.summarizeTrades(trades, unrealizedPL),
+      stats: exchange.getStats(),
+      equityCurve,
+      trades,
+    };
+  }
+
+  private summarizeTrades(trades: BacktestTrade[], unrealizedPnl: string): PnlSummary {
+    let realized = 0;
+    let gross = 0;
+    let fees = 0;
+    let winTrades = 0;
+    let lossTrades = 0;
+    let totalWin = 0;
+    let totalLoss = 0;
+
+    for (const trade of trades) {
+      const pnl = parseFloat(trade.netPnl);
+      realized += pnl;
+      gross += parseFloat(trade.grossPnl);
+      fees += parseFloat(trade.fee);
+      if (pnl > 0) {
+        winTrades++;
+        totalWin += pnl;
+      } else if (pnl < 0) {
+        lossTrades++;
+        totalLoss += Math.abs(pnl);
+      }
+    }
+
+    return {
+      realizedPnl: realized.toFixed(4),
+      unrealizedPnl: unrealizedPnl,
+      grossPnl: gross.toFixed(4),
+      fees: fees.toFixed(4),
+      // 本地撮合不模拟资金费
+      funding: '0',
+      netPnl: realized.toFixed(4),
+      dailyPnl: realized.toFixed(4),
+      totalTrades: trades.length,
+      winTrades,
+      lossTrades,
+      winRate: trades.length > 0 ? ((winTrades / trades.length) * 100).toFixed(2) : '0',
+      avgWin: winTrades > 0 ? (totalWin / winTrades).toFixed(4) : '0',
+      avgLoss: lossTrades > 0 ? (totalLoss / lossTrades).toFixed(4) : '0',
+    };
+  }
+
+  // ============================================================
+  // 数据准备
+  // ============================================================
+
+  /**
+   * 解析交易对规格：请求覆盖 > 交易所规格 > 默认值
+   */
+  private async resolveSpec(
+    symbol: string,
+    tradingType: TradingType,
+    override?: Partial<InstrumentSpec>
+  ): Promise<InstrumentSpec> {
+    let base = buildDefaultSpec(symbol, tradingType);
+
+    if (!isSpecComplete(override)) {
+      try {
+        base = await InstrumentSpecService.getInstance().getSpec(symbol, tradingType);
+      } catch (error) {
+        logger.warn('获取交易对规格失败，使用默认规格回测', { symbol, tradingType, error: String(error) });
+      }
+    }
+
+    return { ...base, ...override, symbol, tradingType };
+  }
+
+  private async loadTicks(
+    request: BacktestRequest,
+    symbol: string,
+    tradingType: TradingType,
+    productType: string | undefined,
+    spec: InstrumentSpec
+  ): Promise<MarketTick[]> {
+    let ticks: MarketTick[];
+
+    if (request.ticks && request.ticks.length > 0) {
+      ticks = request.ticks.map(t => ({
+        timestamp: Number(t.timestamp),
+        lastPr: Number(t.lastPr),
+        bidPr: Number(t.bidPr),
+        askPr: Number(t.askPr),
+      }));
+    } else {
+      if (request.granularity !== undefined && !isCandleInterval(request.granularity)) {
+        throw new AppError(ErrorCode.BACKTEST_INVALID_INPUT, '不支持的 K 线周期', { granularity: request.granularity }, 400);
+      }
+      let candles = request.candles;
+      if (!candles || candles.length === 0) {
+        const granularity = request.granularity || '1m';
+        const limit = Math.min(request.limit || DEFAULT_CANDLE_LIMIT, MAX_HISTORY_CANDLES);
+        try {
+          candles = await CandleDataService.getInstance().getCandles(
+            symbol,
+            granularity,
+            limit,
+            tradingType === 'futures' ? productType : undefined
+          );
+        } catch (error) {
+          throw new AppError(
+            ErrorCode.BACKTEST_DATA_UNAVAILABLE,
+            '拉取回测 K 线失败',
+            { symbol, granularity, error: String(error) },
+            502
+          );
+        }
+      }
+      ticks = this.candlesToTicks(candles, spec, request.spreadTicks ?? 1, request.granularity);
+    }
+
+    if (ticks.length === 0) {
+      throw new AppError(ErrorCode.BACKTEST_DATA_UNAVAILABLE, '无可回放的行情数据', { symbol }, 400);
+    }
+    if (ticks.length > MAX_TICKS) {
+      throw new AppError(
+        ErrorCode.BACKTEST_INVALID_INPUT,
+        `回放数据过多: ${ticks.length} 个 tick，上限 ${MAX_TICKS}`,
+        { tickCount: ticks.length, max: MAX_TICKS },
+        400
+      );
+    }
+
+    const invalid = ticks.find(t =>
+      !Number.isFinite(t.timestamp) || !(t.lastPr > 0) || !(t.bidPr > 0) || !(t.askPr > 0)
+    );
+    if (invalid) {
+      throw new AppError(ErrorCode.BACKTEST_INVALID_INPUT, '行情数据包含无效价格或时间戳', { tick: invalid }, 400);
+    }
+
+    return ticks.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * K 线展开为 tick 路径
+   * 阳线按 开→低→高→收，阴线按 开→高→低→收，在 K 线周期内均匀分布
+   */
+  private candlesToTicks(
+    candles: Candle[],
+    spec: InstrumentSpec,
+    spreadTicks: number,
+    granularity?: CandleInterval
+  ): MarketTick[] {
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    const halfSpread = Math.max(spreadTicks, 0) * Math.pow(10, -spec.pricePlace);
+    const fallbackDuration = CANDLE_INTERVALS[granularity || '1m'].ms;
+    const ticks: MarketTick[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+      const candle = sorted[i];
+      const duration = i + 1 < sorted.length
+        ? sorted[i + 1].timestamp - candle.timestamp
+        : fallbackDuration;
+      const path = candle.close >= candle.open
+        ? [candle.open, candle.low, candle.high, candle.close]
+        : [candle.open, candle.high, candle.low, candle.close];
+
+      path.forEach((price, step) => {
+        ticks.push({
+          timestamp: candle.timestamp + Math.floor((duration * step) / path.length),
+          lastPr: price,
+          bidPr: price - halfSpread,
+          askPr: price + halfSpread,
+        });
+      });
+    }
+
+    return ticks;
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * Bitget 交易账户服务（Singleton）
+ * 管理默认账户之外的命名账户：元数据存于 system_configs.BITGET_ACCOUNTS，
+ * 凭证按账户加密存储（BITGET_ACCOUNT_<ID>_API_KEY 等），启动时注册到 config/bitget 供客户端按 accountId 取用
+ *
+ * 可见性：管理员可见全部账户；普通用户只能看到被授权的命名账户。
+ * 默认账户（系统设置中的活跃 Profile）对所有用户开放，与多账户之前的行为一致
+ */
+
+import { SystemConfigService } from './system-config.service';
+import { BitgetClientService } from './bitget-client.service';
+import { AccountTypeDetectorService, AccountType } from './account-type-detector.service';
+import { CapitalManagerService } from './capital-manager.service';
+import { WebSocketClientService } from './websocket-client.service';
+import { DEFAULT_ACCOUNT_ID, setAccountConfig } from '../config/bitget';
+import { JwtPayload } from './auth.service';
+import {
+  BitgetAccountInput,
+  BitgetAccountRecord,
+  BitgetAccountView,
+} from '../types/bitget-account.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('bitget-account');
+
+const ACCOUNTS_KEY = 'BITGET_ACCOUNTS';
+const ACCOUNT_ID_PATTERN = /^[a-z0-9][a-z0-9_]{0,31}$/;
+const DEFAULT_BASE_URL = 'https://api.bitget.com';
+
+interface AccountCredentials {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+}
+
+function credentialKeys(accountId: string): Record<keyof AccountCredentials, string> {
+  const prefix = `BITGET_ACCOUNT_${accountId.toUpperCase()}`;
+  return {
+    apiKey: `${prefix}_API_KEY`,
+    secretKey: `${prefix}_SECRET_KEY`,
+    passphrase: `${prefix}_PASSPHRASE`,
+  };
+}
+
+/**
+ * 是否为账户服务管理的配置项（不经通用系统配置接口展示或修改）
+ */
+export function isAccountConfigKey(key: string): boolean {
+  return key === ACCOUNTS_KEY || key.startsWith('BITGET_ACCOUNT_');
+}
+
+function keyHint(apiKey: string | undefined): string | null {
+  return apiKey ? apiKey.slice(-4) : null;
+}
+
+export class BitgetAccountService {
+  private static instance: BitgetAccountService | null = null;
+  private accounts: Map<string, BitgetAccountRecord> = new Map();
+  private apiKeyHints: Map<string, string | null> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): BitgetAccountService {
+    if (!BitgetAccountService.instance) {
+      BitgetAccountService.instance = new BitgetAccountService();
+    }
+    return BitgetAccountService.instance;
+  }
+
+  /**
+   * 从 system_configs 加载命名账户并注册运行时凭证（服务启动时调用，需在恢复策略实例之前）
+   */
+  async load(): Promise<void> {
+    const configService = SystemConfigService.getInstance();
+    const raw = await configService.get(ACCOUNTS_KEY);
+    const records: BitgetAccountRecord[] = raw ? JSON.parse(raw) : [];
+
+    this.accounts.clear();
+    for (const record of records) {
+      this.accounts.set(record.id, record);
+      this.applyCredentials(record, await this.readCredentials(record.id));
+    }
+    logger.info('命名交易账户已加载', { count: records.length });
+  }
+
+  /**
+   * 用户可见的账户列表（默认账户在前）
+   */
+  list(user: JwtPayload): BitgetAccountView[] {
+    return [this.defaultView(), ...Array.from(this.accounts.values()).map(r => this.toView(r))]
+      .filter(account => this.canAccess(user, account.id));
+  }
+
+  /**
+   * 用户可访问的账户 ID，用于按账户过滤持久化数据；管理员返回 null 表示不限制（含已删除账户的历史数据）
+   */
+  accessibleAccountIds(user: JwtPayload | undefined): string[] | null {
+    if (user?.role === 'admin') return null;
+    return [DEFAULT_ACCOUNT_ID, ...Array.from(this.accounts.keys())]
+      .filter(accountId => this.canAccess(user, accountId));
+  }
+
+  /**
+   * 需要系统级统计的账户 ID：默认账户与已配置凭证的命名账户（不校验权限）
+   */
+  configuredIds(): string[] {
+    const named = Array.from(this.accounts.keys()).filter(id => this.apiKeyHints.get(id) != null);
+    return [DEFAULT_ACCOUNT_ID, ...named];
+  }
+
+  /**
+   * 获取账户视图（不校验权限）
+   */
+  get(accountId: string): BitgetAccountView {
+    if (accountId === DEFAULT_ACCOUNT_ID) return this.defaultView();
+    return this.toView(this.requireRecord(accountId));
+  }
+
+  /**
+   * 账户是否存在（未指定视为默认账户）
+   */
+  exists(accountId?: string): boolean {
+    return !accountId || accountId === DEFAULT_ACCOUNT_ID || this.accounts.has(accountId);
+  }
+
+  /**
+   * 用户能否使用账户：默认账户人人可用，管理员可用全部，其余需被授权
+   */
+  canAccess(user: JwtPayload | undefined, accountId?: string): boolean {
+    if (!accountId || accountId === DEFAULT_ACCOUNT_ID || user?.role === 'admin') return true;
+    const record = this.accounts.get(accountId);
+    return !!record && !!user && record.grantedUserIds.includes(user.userId);
+  }
+
+  /**
+   * 校验账户存在且用户有权使用
+   */
+  assertAccess(user: JwtPayload | undefined, accountId?: string): void {
+    if (!this.exists(accountId)) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_NOT_FOUND,
+        `交易账户不存在: ${accountId}`,
+        { accountId },
+        404
+      );
+    }
+    if (!this.canAccess(user, accountId)) {
+      throw new AppError(ErrorCode.AUTH_FORBIDDEN, `无权使用交易账户 ${accountId}`, { accountId }, 403);
+    }
+  }
+
+  /**
+   * 解析请求中的 accountId 参数并校验权限，返回可直接传给服务构造函数的值
+   */
+  resolveAccountId(user: JwtPayload | undefined, raw: unknown): string | undefined {
+    const accountId = typeof raw === 'string' && raw ? raw : undefined;
+    this.assertAccess(user, accountId);
+    return accountId;
+  }
+
+  async create(input: BitgetAccountInput, updatedBy?: string): Promise<BitgetAccountView> {
+    const id = (input.id || '').trim();
+    if (!ACCOUNT_ID_PATTERN.test(id)) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_INVALID,
+        '账户 ID 只能包含小写字母、数字和下划线（1-32 位，字母或数字开头）',
+        { id },
+        400
+      );
+    }
+    if (id === DEFAULT_ACCOUNT_ID || this.accounts.has(id)) {
+      throw new AppError(ErrorCode.BITGET_ACCOUNT_INVALID, `账户 ID ${id} 已存在`, { id }, 400);
+    }
+    const credentials = this.parseCredentials(input);
+    if (!credentials) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_INVALID,
+        '新建账户需提供 API Key、Secret Key 与 Passphrase',
+        { id },
+        400
+      );
+    }
+
+    const now = Date.now();
+    const record: BitgetAccountRecord = {
+      id,
+      name: input.name?.trim() || id,
+      simulated: input.simulated === true,
+      description: input.description?.trim() || null,
+      grantedUserIds: this.parseUserIds(input.grantedUserIds),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.writeCredentials(id, credentials, updatedBy);
+    this.accounts.set(id, record);
+    await this.saveRecords(updatedBy);
+    this.applyCredentials(record, credentials);
+
+    logger.info('交易账户已创建', { accountId: id, simulated: record.simulated, updatedBy });
+    return this.toView(record);
+  }
+
+  /**
+   * 更新账户：未提供的字段保持不变，凭证三项需同时提供
+   * 运行中的实例继续使用原客户端，重启后生效
+   */
+  async update(accountId: string, input: BitgetAccountInput, updatedBy?: string): Promise<BitgetAccountView> {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_INVALID,
+        '默认账户凭证请在系统设置的 API Profile 中维护',
+        { accountId },
+        400
+      );
+    }
+    const current = this.requireRecord(accountId);
+    const credentials = this.parseCredentials(input);
+
+    const record: BitgetAccountRecord = {
+      ...current,
+      name: input.name !== undefined ? input.name.trim() || current.id : current.name,
+      simulated: input.simulated !== undefined ? input.simulated === true : current.simulated,
+      description: input.description !== undefined ? input.description?.trim() || null : current.description,
+      grantedUserIds: input.grantedUserIds !== undefined
+        ? this.parseUserIds(input.grantedUserIds)
+        : current.grantedUserIds,
+      updatedAt: Date.now(),
+    };
+
+    if (credentials) {
+      await this.writeCredentials(accountId, credentials, updatedBy);
+    }
+    this.accounts.set(accountId, record);
+    await this.saveRecords(updatedBy);
+    this.applyCredentials(record, credentials || await this.readCredentials(accountId));
+
+    logger.info('交易账户已更新', { accountId, credentialsChanged: !!credentials, updatedBy });
+    return this.toView(record);
+  }
+
+  /**
+   * 删除账户及其凭证（调用方需确认没有运行中的实例绑定该账户）
+   */
+  async remove(accountId: string, updatedBy?: string): Promise<void> {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      throw new AppError(ErrorCode.BITGET_ACCOUNT_INVALID, '默认账户不能删除', { accountId }, 400);
+    }
+    this.requireRecord(accountId);
+
+    const configService = SystemConfigService.getInstance();
+    for (const key of Object.values(credentialKeys(accountId))) {
+      await configService.delete(key);
+    }
+    this.accounts.delete(accountId);
+    await this.saveRecords(updatedBy);
+
+    setAccountConfig(accountId, null);
+    this.apiKeyHints.delete(accountId);
+    BitgetClientService.clearInstance(accountId);
+    AccountTypeDetectorService.clearInstance(accountId);
+    WebSocketClientService.removeInstance(accountId);
+
+    logger.info('交易账户已删除', { accountId, updatedBy });
+  }
+
+  /**
+   * 连通性测试：重新检测账户类型并查询现货 USDT 可用余额
+   */
+  async test(accountId: string): Promise<{ accountType: AccountType; spotAvailableUsdt: string }> {
+    const view = this.get(accountId);
+    if (!view.hasCredentials) {
+      throw new AppError(ErrorCode.BITGET_ACCOUNT_INVALID, `交易账户 ${accountId} 未配置凭证`, { accountId }, 400);
+    }
+
+    const detector = AccountTypeDetectorService.getInstance(accountId);
+    detector.reset();
+    const accountType = await detector.detect();
+    const spotAvailableUsdt = await new CapitalManagerService(accountId).getAvailableBalance('USDT');
+    return { accountType, spotAvailableUsdt };
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private requireRecord(accountId: string): BitgetAccountRecord {
+    const record = this.accounts.get(accountId);
+    if (!record) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_NOT_FOUND,
+        `交易账户不存在: ${accountId}`,
+        { accountId },
+        404
+      );
+    }
+    return record;
+  }
+
+  private defaultView(): BitgetAccountView {
+    return {
+      id: DEFAULT_ACCOUNT_ID,
+      name: '默认账户',
+      simulated: process.env.BITGET_SIMULATED === '1',
+      description: '系统设置中的活跃 API Profile',
+      grantedUserIds: [],
+      createdAt: 0,
+      updatedAt: 0,
+      isDefault: true,
+      hasCredentials: !!process.env.BITGET_API_KEY,
+      apiKeyHint: keyHint(process.env.BITGET_API_KEY),
+    };
+  }
+
+  private toView(record: BitgetAccountRecord): BitgetAccountView {
+    const hint = this.apiKeyHints.get(record.id) ?? null;
+    return {
+      ...record,
+      isDefault: false,
+      hasCredentials: hint !== null,
+      apiKeyHint: hint,
+    };
+  }
+
+  private parseCredentials(input: BitgetAccountInput): AccountCredentials | null {
+    const apiKey = input.apiKey?.trim();
+    const secretKey = input.secretKey?.trim();
+    const passphrase = input.passphrase?.trim();
+    if (!apiKey && !secretKey && !passphrase) return null;
+    if (!apiKey || !secretKey || !passphrase) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_INVALID,
+        'API Key、Secret Key 与 Passphrase 需同时提供',
+        undefined,
+        400
+      );
+    }
+    return { apiKey, secretKey, passphrase };
+  }
+
+  private parseUserIds(value: unknown): number[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_INVALID,
+        'grantedUserIds 必须为用户 ID 数组',
+        { grantedUserIds: value },
+        400
+      );
+    }
+    return Array.from(new Set(value as number[])).sort((a, b) => a - b);
+  }
+
+  private async readCredentials(accountId: string): Promise<AccountCredentials | null> {
+    const configService = SystemConfigService.getInstance();
+    const keys = credentialKeys(accountId);
+    const apiKey = await configService.get(keys.apiKey);
+    const secretKey = await configService.get(keys.secretKey);
+    const passphrase = await configService.get(keys.passphrase);
+    return apiKey && secretKey && passphrase ? { apiKey, secretKey, passphrase } : null;
+  }
+
+  private async writeCredentials(
+    accountId: string,
+    credentials: AccountCredentials,
+    updatedBy?: string
+  ): Promise<void> {
+    const configService = SystemConfigService.getInstance();
+    const keys = credentialKeys(accountId);
+    await configService.set(keys.apiKey, credentials.apiKey, {
+      isEncrypted: true,
+      description: `Bitget 账户 ${accountId} API Key`,
+      updatedBy,
+    });
+    await configService.set(keys.secretKey, credentials.secretKey, {
+      isEncrypted: true,
+      description: `Bitget 账户 ${accountId} Secret Key`,
+      updatedBy,
+    });
+    await configService.set(keys.passphrase, credentials.passphrase, {
+      isEncrypted: true,
+      description: `Bitget 账户 ${accountId} Passphrase`,
+      updatedBy,
+    });
+  }
+
+  private async saveRecords(updatedBy?: string): Promise<void> {
+    await SystemConfigService.getInstance().set(
+      ACCOUNTS_KEY,
+      JSON.stringify(Array.from(this.accounts.values())),
+      { isEncrypted: false, description: 'Bitget 命名交易账户列表', updatedBy }
+    );
+  }
+
+  /**
+   * 注册运行时凭证并清除该账户的客户端 / 账户类型缓存
+   */
+  private applyCredentials(record: BitgetAccountRecord, credentials: AccountCredentials | null): void {
+    setAccountConfig(record.id, credentials
+      ? {
+        ...credentials,
+        baseUrl: process.env.BITGET_API_BASE_URL || DEFAULT_BASE_URL,
+        simulated: record.simulated,
+      }
+      : null);
+    this.apiKeyHints.set(record.id, keyHint(credentials?.apiKey));
+    BitgetClientService.clearInstance(record.id);
+    AccountTypeDetectorService.getInstance(record.id).reset();
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * Bitget API 客户端封装
  * 负责认证签名、请求发送、错误处理
+ * 每个交易账户一个实例（按 accountId 缓存），默认账户沿用活跃 Profile 凭证
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import crypto from 'crypto';
 import { HttpsProxyAgent } from 'https-proxy-agent';
-import { getBitgetConfig, BitgetConfig } from '../config/bitget';
+import { getBitgetConfig, BitgetConfig, DEFAULT_ACCOUNT_ID } from '../config/bitget';
 import { AppError, ErrorCode } from '../utils/errors';
 import { createLogger } from '../utils/logger';
 
@@ -34,12 +35,12 @@ export interface BitgetResponse<T = unknown> {
 }
 
 export class BitgetClientService {
-  private static instance: BitgetClientService | null = null;
+  private static instances: Map<string, BitgetClientService> = new Map();
   private client: AxiosInstance;
   private config: BitgetConfig;
 
-  private constructor() {
-    this.config = getBitgetConfig();
+  private constructor(accountId: string) {
+    this.config = getBitgetConfig(accountId);
     const proxyUrl = process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
     const axiosConfig: AxiosRequestConfig = {
       baseURL: this.config.baseUrl,
@@ -58,15 +59,20 @@ export class BitgetClientService {
     this.client = axios.create(axiosConfig);
   }
 
-  static getInstance(): BitgetClientService {
-    if (!BitgetClientService.instance) {
-      BitgetClientService.instance = new BitgetClientService();
+  static getInstance(accountId: string = DEFAULT_ACCOUNT_ID): BitgetClientService {
+    let instance = BitgetClientService.instances.get(accountId);
+    if (!instance) {
+      instance = new BitgetClientService(accountId);
+      BitgetClientService.instances.set(accountId, instance);
     }
-    return BitgetClientService.instance;
+    return instance;
   }
 
-  static clearInstance(): void {
-    BitgetClientService.instance = null;
+  /**
+   * 清除账户的客户端缓存（凭证变更后调用，下次 getInstance 使用新凭证）
+   */
+  static clearInstance(accountId: string = DEFAULT_ACCOUNT_ID): void {
+    BitgetClientService.instances.delete(accountId);
   }
 
   /**
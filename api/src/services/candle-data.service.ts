@@ -1,13 +1,15 @@
 /**
  * K线数据服务
  * REST 初始加载 + WebSocket 增量更新
- * 多时间周期缓存 + 指标计算
+ * 多时间周期缓存 + 深度历史（DB 存储 + 交易所分页补齐）+ 指标计算
  */
 
 import { BitgetClientService } from './bitget-client.service';
 import { WebSocketClientService } from './websocket-client.service';
+import { CandleStore } from './candle-store.service';
 import { Candle, calcAllIndicators, IndicatorResult } from '../strategy/indicators/technical-indicators';
 import { detectMarketRegime, MarketRegimeResult } from '../strategy/indicators/market-regime-detector';
+import { CandleInterval } from '../types/trading.types';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('candle-data');
@@ -17,14 +19,63 @@ interface CandleCache {
   lastUpdate: number;
 }
 
-const MAX_CANDLES = 200;
+interface IntervalSpec {
+  ms: number;
+  /** 合约 granularity */
+  mix: string;
+  /** 现货 granularity */
+  spot: string;
+  /** WebSocket 频道，null 表示不支持推送 */
+  wsChannel: string | null;
+}
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CANDLE_INTERVALS: Record<CandleInterval, IntervalSpec> = {
+  '1m': { ms: MINUTE_MS, mix: '1m', spot: '1min', wsChannel: 'candle1m' },
+  '3m': { ms: 3 * MINUTE_MS, mix: '3m', spot: '3min', wsChannel: null },
+  '5m': { ms: 5 * MINUTE_MS, mix: '5m', spot: '5min', wsChannel: 'candle5m' },
+  '15m': { ms: 15 * MINUTE_MS, mix: '15m', spot: '15min', wsChannel: 'candle15m' },
+  '30m': { ms: 30 * MINUTE_MS, mix: '30m', spot: '30min', wsChannel: 'candle30m' },
+  '1h': { ms: HOUR_MS, mix: '1H', spot: '1h', wsChannel: 'candle1H' },
+  '4h': { ms: 4 * HOUR_MS, mix: '4H', spot: '4h', wsChannel: 'candle4H' },
+  '6h': { ms: 6 * HOUR_MS, mix: '6H', spot: '6h', wsChannel: 'candle6H' },
+  '12h': { ms: 12 * HOUR_MS, mix: '12H', spot: '12h', wsChannel: 'candle12H' },
+  '1d': { ms: DAY_MS, mix: '1D', spot: '1day', wsChannel: 'candle1D' },
+  '3d': { ms: 3 * DAY_MS, mix: '3D', spot: '3day', wsChannel: 'candle3D' },
+  '1w': { ms: 7 * DAY_MS, mix: '1W', spot: '1week', wsChannel: 'candle1W' },
+};
+
+/** 内存缓存 / WebSocket 追加的最大根数（与 REST candles 接口单次上限一致） */
+const MAX_CACHED_CANDLES = 1000;
+/** history-candles 接口单页上限 */
+const HISTORY_PAGE_LIMIT = 200;
+/** 单次深度历史查询最多返回的根数 */
+export const MAX_HISTORY_CANDLES = 10_000;
+const DEFAULT_WS_INTERVALS: CandleInterval[] = ['1m', '5m'];
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/** 指标快照（GET /api/market/indicators） */
+export interface IndicatorSnapshot {
+  symbol: string;
+  interval: CandleInterval;
+  candleCount: number;
+  lastCandleTime: number | null;
+  indicators: IndicatorResult;
+}
 
 export class CandleDataService {
   private static instance: CandleDataService | null = null;
   private client: BitgetClientService;
   private wsClient: WebSocketClientService | null = null;
+  private wsSubscriptions: Set<string> = new Set();
   private cache: Map<string, CandleCache> = new Map();
-  private indicatorCache: Map<string, { result: IndicatorResult; timestamp: number }> = new Map();
+  private indicatorCache: Map<string, { snapshot: IndicatorSnapshot; timestamp: number }> = new Map();
 
   private constructor() {
     this.client = BitgetClientService.getInstance();
@@ -38,57 +89,59 @@ export class CandleDataService {
   }
 
   /**
-   * 启用 WebSocket 增量更新
+   * 启用 WebSocket 增量更新（同一交易对 + 周期只订阅一次）
    */
-  enableWebSocket(instType: string, instId: string): void {
+  enableWebSocket(instType: string, instId: string, intervals: CandleInterval[] = DEFAULT_WS_INTERVALS): void {
     this.wsClient = WebSocketClientService.getInstance();
 
-    // Subscribe to candle updates
-    this.wsClient.subscribeCandles(instType, instId, '1m');
-    this.wsClient.subscribeCandles(instType, instId, '5m');
-
-    // Listen for candle updates
-    this.wsClient.on(`public:candle1m`, (data: unknown[], instIdFromWs: string) => {
-      if (instIdFromWs === instId) {
-        this.handleCandleUpdate(`${instId}:1m`, data);
-      }
-    });
+    for (const interval of intervals) {
+      const channel = CANDLE_INTERVALS[interval].wsChannel;
+      const subKey = `${instType}:${instId}:${interval}`;
+      if (!channel || this.wsSubscriptions.has(subKey)) continue;
+      this.wsSubscriptions.add(subKey);
 
-    this.wsClient.on(`public:candle5m`, (data: unknown[], instIdFromWs: string) => {
-      if (instIdFromWs === instId) {
-        this.handleCandleUpdate(`${instId}:5m`, data);
-      }
-    });
+      this.wsClient.subscribeCandles(instType, instId, channel.slice('candle'.length));
+      this.wsClient.on(`public:${channel}`, (data: unknown[], instIdFromWs: string) => {
+        if (instIdFromWs === instId) {
+          this.handleCandleUpdate(`${instId}:${interval}`, data);
+        }
+      });
+    }
   }
 
   /**
    * 获取 K线数据（内存缓存 → REST API）
+   * limit 超过 REST 单次上限时走深度历史
    */
   async getCandles(
     symbol: string,
-    interval: '1m' | '5m' | '15m' = '1m',
+    interval: CandleInterval = '1m',
     limit = 100,
     productType?: string
   ): Promise<Candle[]> {
+    if (limit > MAX_CACHED_CANDLES) {
+      return this.getHistory(symbol, interval, { limit, productType });
+    }
+
     const cacheKey = `${symbol}:${interval}`;
     const cached = this.cache.get(cacheKey);
 
-    // Return cache if fresh (within 30 seconds for 1m candles)
-    const maxAge = interval === '1m' ? 30000 : interval === '5m' ? 60000 : 120000;
-    if (cached && Date.now() - cached.lastUpdate < maxAge) {
-      return cached.candles;
+    // 1m 缓存 30 秒，5m 以内 60 秒，更长周期 120 秒
+    const spec = CANDLE_INTERVALS[interval];
+    const maxAge = spec.ms <= MINUTE_MS ? 30000 : spec.ms <= 5 * MINUTE_MS ? 60000 : 120000;
+    if (cached && Date.now() - cached.lastUpdate < maxAge && cached.candles.length >= limit) {
+      return cached.candles.slice(-limit);
     }
 
     // Fetch from REST API
     try {
-      const granularity = interval === '1m' ? '1m' : interval === '5m' ? '5m' : '15m';
       const path = productType
         ? '/api/v2/mix/market/candles'
         : '/api/v2/spot/market/candles';
 
       const params: Record<string, string> = {
         symbol,
-        granularity,
+        granularity: productType ? spec.mix : spec.spot,
         limit: String(limit),
       };
       if (productType) {
@@ -96,16 +149,70 @@ export class CandleDataService {
       }
 
       const response = await this.client.publicGet<string[][]>(path, params);
-      const candles: Candle[] = (response.data || []).map(this.parseCandle).reverse();
+      const candles: Candle[] = (response.data || []).map(this.parseCandle).sort((a, b) => a.timestamp - b.timestamp);
 
       this.cache.set(cacheKey, { candles, lastUpdate: Date.now() });
       return candles;
     } catch (error) {
       logger.warn('获取 K线失败', { symbol, interval, error: String(error) });
-      return cached?.candles || [];
+      return cached?.candles.slice(-limit) || [];
     }
   }
 
+  /**
+   * 深度历史 K 线：先读 DB，根数不足时用 history-candles 从 endTime 向前分页补齐并写回 DB
+   * 未指定 startTime 时按 limit 根向前推算
+   */
+  async getHistory(
+    symbol: string,
+    interval: CandleInterval,
+    options: { startTime?: number; endTime?: number; limit?: number; productType?: string } = {}
+  ): Promise<Candle[]> {
+    const spec = CANDLE_INTERVALS[interval];
+    const market = options.productType || 'spot';
+    const limit = Math.min(Math.max(options.limit ?? MAX_CACHED_CANDLES, 1), MAX_HISTORY_CANDLES);
+    const endTime = options.endTime ?? Date.now();
+    const startTime = options.startTime ?? endTime - limit * spec.ms;
+    const expected = Math.min(limit, Math.floor((endTime - startTime) / spec.ms));
+
+    const store = CandleStore.getInstance();
+    const stored = await store.load(symbol, market, interval, startTime, endTime, limit);
+    if (stored.length >= expected) {
+      return stored;
+    }
+
+    // DB 已覆盖区间起点时只需补齐库中最新一根之后的部分
+    const coversStart = stored.length > 0 && stored[0].timestamp <= startTime + spec.ms;
+    const storedTo = stored.length > 0 ? stored[stored.length - 1].timestamp : -Infinity;
+
+    const fetched = new Map<number, Candle>();
+    let cursor = endTime;
+    while (fetched.size < limit && cursor > startTime) {
+      const page = await this.fetchHistoryPage(symbol, spec, cursor, options.productType);
+      if (page.length === 0) break;
+      for (const candle of page) {
+        if (candle.timestamp >= startTime && candle.timestamp <= endTime) {
+          fetched.set(candle.timestamp, candle);
+        }
+      }
+      const oldest = page[0].timestamp;
+      if (oldest >= cursor || (coversStart && oldest <= storedTo)) break;
+      cursor = oldest - 1;
+    }
+
+    // 只落库已收盘的 K 线
+    const now = Date.now();
+    const closed = Array.from(fetched.values()).filter(c => c.timestamp + spec.ms <= now);
+    await store.save(symbol, market, interval, closed);
+
+    for (const candle of stored) {
+      if (!fetched.has(candle.timestamp)) fetched.set(candle.timestamp, candle);
+    }
+    const merged = Array.from(fetched.values()).sort((a, b) => a.timestamp - b.timestamp);
+    logger.debug('深度历史 K 线', { symbol, interval, stored: stored.length, total: merged.length });
+    return merged.slice(-limit);
+  }
+
   /**
    * 获取最新指标
    */
@@ -113,17 +220,36 @@ export class CandleDataService {
     symbol: string,
     productType?: string
   ): Promise<IndicatorResult> {
-    const cacheKey = `indicators:${symbol}`;
+    const snapshot = await this.getIndicators(symbol, '5m', 100, productType);
+    return snapshot.indicators;
+  }
+
+  /**
+   * 按周期计算全部指标（15 秒缓存）
+   */
+  async getIndicators(
+    symbol: string,
+    interval: CandleInterval,
+    limit: number,
+    productType?: string
+  ): Promise<IndicatorSnapshot> {
+    const cacheKey = `indicators:${symbol}:${interval}:${limit}`;
     const cached = this.indicatorCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < 15000) {
-      return cached.result;
+      return cached.snapshot;
     }
 
-    const candles = await this.getCandles(symbol, '5m', 100, productType);
-    const result = calcAllIndicators(candles);
+    const candles = await this.getCandles(symbol, interval, limit, productType);
+    const snapshot: IndicatorSnapshot = {
+      symbol,
+      interval,
+      candleCount: candles.length,
+      lastCandleTime: candles.length > 0 ? candles[candles.length - 1].timestamp : null,
+      indicators: calcAllIndicators(candles),
+    };
 
-    this.indicatorCache.set(cacheKey, { result, timestamp: Date.now() });
-    return result;
+    this.indicatorCache.set(cacheKey, { snapshot, timestamp: Date.now() });
+    return snapshot;
   }
 
   /**
@@ -137,6 +263,32 @@ export class CandleDataService {
     return detectMarketRegime(candles);
   }
 
+  /**
+   * history-candles 单页：endTime 之前的 K 线（升序）
+   */
+  private async fetchHistoryPage(
+    symbol: string,
+    spec: IntervalSpec,
+    endTime: number,
+    productType?: string
+  ): Promise<Candle[]> {
+    const path = productType
+      ? '/api/v2/mix/market/history-candles'
+      : '/api/v2/spot/market/history-candles';
+    const params: Record<string, string> = {
+      symbol,
+      granularity: productType ? spec.mix : spec.spot,
+      endTime: String(endTime),
+      limit: String(HISTORY_PAGE_LIMIT),
+    };
+    if (productType) {
+      params.productType = productType;
+    }
+
+    const response = await this.client.publicGet<string[][]>(path, params);
+    return (response.data || []).map(this.parseCandle).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   private parseCandle(raw: string[]): Candle {
     return {
       timestamp: parseInt(raw[0]),
@@ -162,7 +314,7 @@ export class CandleDataService {
         cached.candles[lastIdx] = candle;
       } else {
         cached.candles.push(candle);
-        if (cached.candles.length > MAX_CANDLES) {
+        if (cached.candles.length > MAX_CACHED_CANDLES) {
           cached.candles.shift();
         }
       }
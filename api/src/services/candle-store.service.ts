@@ -0,0 +1,93 @@
+/**
+ * K 线历史存储（market_candles 表）
+ * 只保存已收盘 K 线；DB 不可用时读返回空、写仅打日志，由调用方回退到交易所接口
+ */
+
+import { getPool } from '../config/database';
+import { Candle } from '../strategy/indicators/technical-indicators';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('candle-store');
+
+/** 单条 INSERT 的最大行数（9 列 × 500 行，低于 PG 参数上限） */
+const INSERT_BATCH_SIZE = 500;
+
+export class CandleStore {
+  private static instance: CandleStore | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CandleStore {
+    if (!CandleStore.instance) {
+      CandleStore.instance = new CandleStore();
+    }
+    return CandleStore.instance;
+  }
+
+  /**
+   * 读取 [startTime, endTime] 内的 K 线（按开盘时间升序，最多返回最近 limit 根）
+   * @param market 'spot' 或合约 productType
+   */
+  async load(
+    symbol: string,
+    market: string,
+    granularity: string,
+    startTime: number,
+    endTime: number,
+    limit: number
+  ): Promise<Candle[]> {
+    try {
+      const pool = getPool();
+      const { rows } = await pool.query(
+        `SELECT open_time, open, high, low, close, volume FROM (
+           SELECT * FROM market_candles
+           WHERE symbol = $1 AND market = $2 AND granularity = $3
+             AND open_time >= $4 AND open_time <= $5
+           ORDER BY open_time DESC
+           LIMIT $6
+         ) recent ORDER BY open_time ASC`,
+        [symbol, market, granularity, startTime, endTime, limit]
+      );
+      return rows.map(row => ({
+        timestamp: Number(row.open_time),
+        open: parseFloat(row.open),
+        high: parseFloat(row.high),
+        low: parseFloat(row.low),
+        close: parseFloat(row.close),
+        volume: parseFloat(row.volume),
+      }));
+    } catch (error) {
+      logger.warn('从 DB 读取 K 线失败', { symbol, market, granularity, error: String(error) });
+      return [];
+    }
+  }
+
+  /**
+   * 写入 K 线（按主键覆盖），未收盘的 K 线需由调用方过滤
+   */
+  async save(symbol: string, market: string, granularity: string, candles: Candle[]): Promise<void> {
+    if (candles.length === 0) return;
+    try {
+      const pool = getPool();
+      for (let i = 0; i < candles.length; i += INSERT_BATCH_SIZE) {
+        const batch = candles.slice(i, i + INSERT_BATCH_SIZE);
+        const values: unknown[] = [];
+        const placeholders = batch.map((c, idx) => {
+          const base = idx * 9;
+          values.push(symbol, market, granularity, c.timestamp, c.open, c.high, c.low, c.close, c.volume);
+          return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9})`;
+        });
+        await pool.query(
+          `INSERT INTO market_candles (symbol, market, granularity, open_time, open, high, low, close, volume)
+           VALUES ${placeholders.join(', ')}
+           ON CONFLICT (symbol, market, granularity, open_time) DO UPDATE SET
+             open = EXCLUDED.open, high = EXCLUDED.high, low = EXCLUDED.low,
+             close = EXCLUDED.close, volume = EXCLUDED.volume`,
+          values
+        );
+      }
+    } catch (error) {
+      logger.warn('保存 K 线到 DB 失败', { symbol, market, granularity, count: candles.length, error: String(error) });
+    }
+  }
+}
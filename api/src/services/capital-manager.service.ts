@@ -25,8 +25,8 @@ export interface AllAccountBalance {
 export class CapitalManagerService {
   private client: BitgetClientService;
 
-  constructor() {
-    this.client = BitgetClientService.getInstance();
+  constructor(accountId?: string) {
+    this.client = BitgetClientService.getInstance(accountId);
   }
 
   /**
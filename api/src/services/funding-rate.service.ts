@@ -0,0 +1,289 @@
+/**
+ * 资金费率采集与查询
+ * node-cron 定时拉取关注交易对的当前费率 / 下次结算时间（内存缓存）与已结算历史（写入 funding_rate_history）；
+ * 关注列表 = 配置的交易对 + 运行中合约策略实例的交易对。DB 不可用时历史查询回退到交易所接口
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { getPool } from '../config/database';
+import { FuturesMarketDataService } from './futures-market-data.service';
+import { StrategyManager } from '../strategy/strategy-manager';
+import { annualizeFundingRate } from '../strategy/basis-spread';
+import {
+  ProductType,
+  FundingRateSnapshot,
+  FundingRateRecord,
+  FundingCollectorConfig,
+  DEFAULT_FUNDING_COLLECTOR_CONFIG,
+} from '../types/futures.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('funding-rate');
+
+/** 当前费率缓存有效期（引擎读取时超过该时间重新拉取） */
+const CURRENT_RATE_TTL_MS = 60 * 1000;
+
+/** history-fund-rate 单页上限 */
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+const PRODUCT_TYPES: ProductType[] = ['USDT-FUTURES', 'SUSDT-FUTURES'];
+
+export interface FundingHistoryQuery {
+  startTime?: number;
+  endTime?: number;
+  limit: number;
+}
+
+export class FundingRateService {
+  private static instance: FundingRateService | null = null;
+
+  private config: FundingCollectorConfig = { ...DEFAULT_FUNDING_COLLECTOR_CONFIG };
+  private task: ScheduledTask | null = null;
+  private isCollecting = false;
+  private lastCollectedAt: number | null = null;
+
+  private current: Map<string, FundingRateSnapshot> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): FundingRateService {
+    if (!FundingRateService.instance) {
+      FundingRateService.instance = new FundingRateService();
+    }
+    return FundingRateService.instance;
+  }
+
+  // ============================================================
+  // Lifecycle
+  // ============================================================
+
+  start(): void {
+    if (!this.config.enabled || this.task) return;
+
+    this.task = cron.schedule(this.config.cronExpression, () => {
+      this.collect().catch(err => logger.warn('资金费率定时采集失败', { error: String(err) }));
+    });
+    this.collect().catch(err => logger.warn('资金费率首次采集失败', { error: String(err) }));
+    logger.info('资金费率采集已启动', { cron: this.config.cronExpression, symbols: this.config.symbols });
+  }
+
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+    }
+  }
+
+  updateConfig(updates: Partial<FundingCollectorConfig>): FundingCollectorConfig {
+    const next: FundingCollectorConfig = {
+      ...this.config,
+      ...updates,
+      symbols: (updates.symbols ?? this.config.symbols).map(s => String(s).toUpperCase()),
+    };
+    this.validate(next);
+
+    this.stop();
+    this.config = next;
+    this.start();
+    return this.config;
+  }
+
+  getConfig(): FundingCollectorConfig {
+    return this.config;
+  }
+
+  getLastCollectedAt(): number | null {
+    return this.lastCollectedAt;
+  }
+
+  /**
+   * 关注的交易对：配置列表 + 运行中合约实例（同产品线）
+   */
+  getWatchedSymbols(): string[] {
+    const symbols = new Set(this.config.symbols);
+    for (const strategy of StrategyManager.getInstance().getStrategies()) {
+      const config = strategy.getState().config;
+      if (!config || config.tradingType !== 'futures' || config.paperTrading) continue;
+      if ((config.productType || 'USDT-FUTURES') !== this.config.productType) continue;
+      symbols.add(config.symbol.toUpperCase());
+    }
+    return Array.from(symbols);
+  }
+
+  // ============================================================
+  // Collect
+  // ============================================================
+
+  /**
+   * 采集一轮：逐个交易对刷新当前费率并写入最近的已结算历史，单个交易对失败不影响其他
+   */
+  async collect(): Promise<void> {
+    if (this.isCollecting) return;
+    this.isCollecting = true;
+
+    const symbols = this.getWatchedSymbols();
+    const productType = this.config.productType;
+    try {
+      for (const symbol of symbols) {
+        try {
+          await this.refreshCurrent(symbol, productType);
+          const history = await this.fetchHistory(symbol, productType, this.config.historyPageSize);
+          await this.saveHistory(history);
+        } catch (error) {
+          logger.warn('采集资金费率失败', { symbol, productType, error: String(error) });
+        }
+      }
+      this.lastCollectedAt = Date.now();
+      logger.debug('资金费率采集完成', { count: symbols.length });
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  // ============================================================
+  // Query
+  // ============================================================
+
+  /**
+   * 当前费率（缓存超过 TTL 时重新拉取；拉取失败且有缓存时沿用旧值）
+   */
+  async getCurrent(symbol: string, productType: ProductType): Promise<FundingRateSnapshot> {
+    const cached = this.current.get(this.cacheKey(symbol, productType));
+    if (cached && Date.now() - cached.fetchedAt < CURRENT_RATE_TTL_MS) {
+      return cached;
+    }
+    try {
+      return await this.refreshCurrent(symbol, productType);
+    } catch (error) {
+      if (!cached) throw error;
+      logger.warn('刷新资金费率失败，沿用缓存', { symbol, error: String(error) });
+      return cached;
+    }
+  }
+
+  /** 已缓存的当前费率（采集器维护） */
+  listCurrent(): FundingRateSnapshot[] {
+    return Array.from(this.current.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * 已结算历史（按结算时间升序）：优先读库，库中无记录时直接查询交易所
+   */
+  async getHistory(symbol: string, productType: ProductType, query: FundingHistoryQuery): Promise<FundingRateRecord[]> {
+    const stored = await this.loadHistory(symbol, productType, query);
+    if (stored.length > 0) return stored;
+
+    const remote = await this.fetchHistory(symbol, productType, Math.min(query.limit, MAX_HISTORY_PAGE_SIZE));
+    return remote
+      .filter(r => (query.startTime === undefined || r.fundingTime >= query.startTime)
+        && (query.endTime === undefined || r.fundingTime <= query.endTime))
+      .sort((a, b) => a.fundingTime - b.fundingTime);
+  }
+
+  private async refreshCurrent(symbol: string, productType: ProductType): Promise<FundingRateSnapshot> {
+    const rate = await new FuturesMarketDataService().getCurrentFundingRate(symbol, productType);
+    const intervalHours = rate.fundingRateInterval ? parseFloat(rate.fundingRateInterval) : NaN;
+    const nextFundingTime = rate.nextUpdate ? parseInt(rate.nextUpdate, 10) : NaN;
+    const snapshot: FundingRateSnapshot = {
+      symbol: symbol.toUpperCase(),
+      productType,
+      fundingRate: rate.fundingRate,
+      intervalHours: isNaN(intervalHours) ? null : intervalHours,
+      nextFundingTime: isNaN(nextFundingTime) ? null : nextFundingTime,
+      annualizedPercent: annualizeFundingRate(
+        parseFloat(rate.fundingRate),
+        isNaN(intervalHours) ? undefined : intervalHours
+      ).toFixed(2),
+      fetchedAt: Date.now(),
+    };
+    this.current.set(this.cacheKey(symbol, productType), snapshot);
+    return snapshot;
+  }
+
+  private async fetchHistory(symbol: string, productType: ProductType, pageSize: number): Promise<FundingRateRecord[]> {
+    const rows = await new FuturesMarketDataService().getFundingRateHistory(symbol, productType, pageSize);
+    return rows
+      .map(r => ({
+        symbol: symbol.toUpperCase(),
+        productType,
+        fundingRate: r.fundingRate,
+        fundingTime: parseInt(r.fundingTime, 10),
+      }))
+      .filter(r => !isNaN(r.fundingTime));
+  }
+
+  private async loadHistory(
+    symbol: string,
+    productType: ProductType,
+    query: FundingHistoryQuery
+  ): Promise<FundingRateRecord[]> {
+    try {
+      const pool = getPool();
+      const { rows } = await pool.query(
+        `SELECT funding_rate, funding_time FROM (
+           SELECT funding_rate, funding_time FROM funding_rate_history
+           WHERE symbol = $1 AND product_type = $2
+             AND funding_time >= to_timestamp($3 / 1000.0) AND funding_time <= to_timestamp($4 / 1000.0)
+           ORDER BY funding_time DESC
+           LIMIT $5
+         ) recent ORDER BY funding_time ASC`,
+        [symbol.toUpperCase(), productType, query.startTime ?? 0, query.endTime ?? Date.now(), query.limit]
+      );
+      return rows.map(row => ({
+        symbol: symbol.toUpperCase(),
+        productType,
+        fundingRate: String(row.funding_rate),
+        fundingTime: new Date(row.funding_time).getTime(),
+      }));
+    } catch (error) {
+      logger.warn('从 DB 读取资金费率历史失败', { symbol, productType, error: String(error) });
+      return [];
+    }
+  }
+
+  private async saveHistory(records: FundingRateRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    try {
+      const pool = getPool();
+      const values: unknown[] = [];
+      const placeholders = records.map((r, idx) => {
+        const base = idx * 4;
+        values.push(r.symbol, r.productType, r.fundingRate, r.fundingTime);
+        return `($${base + 1}, $${base + 2}, $${base + 3}, to_timestamp($${base + 4} / 1000.0))`;
+      });
+      await pool.query(
+        `INSERT INTO funding_rate_history (symbol, product_type, funding_rate, funding_time)
+         VALUES ${placeholders.join(', ')}
+         ON CONFLICT (symbol, product_type, funding_time) DO UPDATE SET funding_rate = EXCLUDED.funding_rate`,
+        values
+      );
+    } catch (error) {
+      logger.warn('保存资金费率历史失败', { count: records.length, error: String(error) });
+    }
+  }
+
+  private cacheKey(symbol: string, productType: ProductType): string {
+    return `${productType}:${symbol.toUpperCase()}`;
+  }
+
+  private validate(config: FundingCollectorConfig): void {
+    const errors: string[] = [];
+    if (!Array.isArray(config.symbols) || config.symbols.some(s => !/^[A-Z0-9]+$/.test(s))) {
+      errors.push('symbols 必须为交易对数组，如 ["BTCUSDT"]');
+    }
+    if (!PRODUCT_TYPES.includes(config.productType)) {
+      errors.push(`productType 必须是 ${PRODUCT_TYPES.join('/')} 之一`);
+    }
+    if (typeof config.cronExpression !== 'string' || !cron.validate(config.cronExpression)) {
+      errors.push(`cronExpression 无效: ${String(config.cronExpression)}`);
+    }
+    if (!(Number.isInteger(config.historyPageSize) &&
+          config.historyPageSize >= 1 && config.historyPageSize <= MAX_HISTORY_PAGE_SIZE)) {
+      errors.push(`historyPageSize 范围 1 - ${MAX_HISTORY_PAGE_SIZE}`);
+    }
+    if (errors.length > 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `资金费率采集配置无效: ${errors.join('; ')}`, { errors }, 400);
+    }
+  }
+}
@@ -6,7 +6,7 @@
 import { BitgetClientService } from './bitget-client.service';
 import { AccountTypeDetectorService } from './account-type-detector.service';
 import { getBitgetConfig } from '../config/bitget';
-import { FuturesAccount, FuturesPosition, ProductType } from '../types/futures.types';
+import { FuturesAccount, FuturesAccountBill, FuturesPosition, ProductType } from '../types/futures.types';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('futures-account');
@@ -16,9 +16,11 @@ export type HoldMode = 'single_hold' | 'double_hold';
 
 export class FuturesAccountService {
   private client: BitgetClientService;
+  private accountId?: string;
 
-  constructor() {
-    this.client = BitgetClientService.getInstance();
+  constructor(accountId?: string) {
+    this.client = BitgetClientService.getInstance(accountId);
+    this.accountId = accountId;
   }
 
   /**
@@ -47,7 +49,7 @@ export class FuturesAccountService {
    */
   async getHoldMode(productType: ProductType): Promise<HoldMode> {
     // 1. UTA 账户持仓模式处理
-    const detector = AccountTypeDetectorService.getInstance();
+    const detector = AccountTypeDetectorService.getInstance(this.accountId);
     if (detector.isUTA()) {
       logger.info('UTA 账户，使用单向持仓模式');
       return 'single_hold';
@@ -91,6 +93,27 @@ export class FuturesAccountService {
     return response.data || [];
   }
 
+  /**
+   * 查询资金费结算账单（businessType = contract_settle_fee）
+   */
+  async getFundingBills(
+    productType: ProductType,
+    symbol: string,
+    startTime: number
+  ): Promise<FuturesAccountBill[]> {
+    const response = await this.client.get<{ bills: FuturesAccountBill[]; endId: string }>(
+      '/api/v2/mix/account/bill',
+      {
+        productType,
+        symbol,
+        businessType: 'contract_settle_fee',
+        startTime: String(startTime),
+        limit: '100',
+      }
+    );
+    return response.data?.bills || [];
+  }
+
   /**
    * 通过 position-mode API 查询持仓模式
    */
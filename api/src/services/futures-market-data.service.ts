@@ -4,7 +4,24 @@
  */
 
 import { BitgetClientService } from './bitget-client.service';
-import { FuturesTickerInfo, FuturesOrderBook, ProductType } from '../types/futures.types';
+import {
+  FuturesTickerInfo,
+  FuturesOrderBook,
+  FuturesCurrentFundingRate,
+  FuturesFundingRateHistory,
+  ProductType,
+} from '../types/futures.types';
+
+/** merge-depth 接口支持的档位 */
+const MERGE_DEPTH_LIMITS = [1, 5, 15, 50];
+
+/**
+ * 取不小于 depth 的 merge-depth 档位参数
+ */
+export function toMergeDepthLimit(depth: number): string {
+  const limit = MERGE_DEPTH_LIMITS.find(l => l >= depth);
+  return limit ? String(limit) : 'max';
+}
 
 export class FuturesMarketDataService {
   private client: BitgetClientService;
@@ -27,6 +44,36 @@ export class FuturesMarketDataService {
     return response.data[0];
   }
 
+  /**
+   * 获取当前资金费率（下一次结算适用的费率）
+   */
+  async getCurrentFundingRate(symbol: string, productType: ProductType): Promise<FuturesCurrentFundingRate> {
+    const response = await this.client.publicGet<FuturesCurrentFundingRate[]>(
+      '/api/v2/mix/market/current-fund-rate',
+      { symbol, productType }
+    );
+    if (!response.data || response.data.length === 0) {
+      throw new Error(`No funding rate data for ${symbol}`);
+    }
+    return response.data[0];
+  }
+
+  /**
+   * 获取历史资金费率（按结算时间倒序，pageSize 最大 100）
+   */
+  async getFundingRateHistory(
+    symbol: string,
+    productType: ProductType,
+    pageSize = 20,
+    pageNo = 1
+  ): Promise<FuturesFundingRateHistory[]> {
+    const response = await this.client.publicGet<FuturesFundingRateHistory[]>(
+      '/api/v2/mix/market/history-fund-rate',
+      { symbol, productType, pageSize: String(pageSize), pageNo: String(pageNo) }
+    );
+    return response.data || [];
+  }
+
   /**
    * 获取合约盘口深度
    */
@@ -1,6 +1,6 @@
 /**
  * 合约订单服务
- * 提供下单、撤单、批量撤单、挂单查询
+ * 提供下单、撤单、批量撤单、挂单查询，以及止盈止损 / 触发单等计划委托
  */
 
 import { BitgetClientService } from './bitget-client.service';
@@ -14,6 +14,14 @@ import {
   FuturesBatchCancelResult,
   FuturesPendingOrder,
   FuturesOrderDetail,
+  FuturesTpslOrderParams,
+  FuturesModifyTpslParams,
+  FuturesPlanOrderParams,
+  FuturesModifyPlanParams,
+  FuturesCancelPlanParams,
+  FuturesPlanOrder,
+  FuturesFill,
+  FuturesFillQuery,
   ProductType,
 } from '../types/futures.types';
 
@@ -22,8 +30,8 @@ const logger = createLogger('futures-order');
 export class FuturesOrderService {
   private client: BitgetClientService;
 
-  constructor() {
-    this.client = BitgetClientService.getInstance();
+  constructor(accountId?: string) {
+    this.client = BitgetClientService.getInstance(accountId);
   }
 
   /**
@@ -161,4 +169,135 @@ export class FuturesOrderService {
     );
     return response.data;
   }
+
+  /**
+   * 查询历史成交（单页最多 100 条，按成交时间倒序；endId 传回 idLessThan 获取下一页）
+   */
+  async getFillHistory(query: FuturesFillQuery): Promise<{ fillList: FuturesFill[]; endId: string | null }> {
+    const params: Record<string, string> = {
+      productType: query.productType,
+      startTime: String(query.startTime),
+      endTime: String(query.endTime),
+      limit: String(query.limit ?? 100),
+    };
+    if (query.symbol) params.symbol = query.symbol;
+    if (query.idLessThan) params.idLessThan = query.idLessThan;
+
+    const response = await this.client.get<{ fillList: FuturesFill[] | null; endId: string | null }>(
+      '/api/v2/mix/order/fill-history',
+      params
+    );
+    return {
+      fillList: response.data.fillList || [],
+      endId: response.data.endId || null,
+    };
+  }
+
+  // ============================================================
+  // 计划委托（止盈止损 / 触发单）
+  // ============================================================
+
+  /**
+   * 止盈止损下单（交易所侧托管，进程退出后仍然有效）
+   */
+  async placeTpslOrder(params: FuturesTpslOrderParams): Promise<FuturesPlaceOrderResult> {
+    logger.info('合约止盈止损下单', {
+      symbol: params.symbol,
+      planType: params.planType,
+      triggerPrice: params.triggerPrice,
+      holdSide: params.holdSide,
+      size: params.size,
+    });
+    return this.postPlanRequest<FuturesPlaceOrderResult>(
+      '/api/v2/mix/order/place-tpsl-order',
+      params,
+      '止盈止损下单失败'
+    );
+  }
+
+  /**
+   * 修改止盈止损触发价 / 执行价
+   */
+  async modifyTpslOrder(params: FuturesModifyTpslParams): Promise<void> {
+    logger.info('修改合约止盈止损', { orderId: params.orderId, triggerPrice: params.triggerPrice });
+    await this.postPlanRequest('/api/v2/mix/order/modify-tpsl-order', params, '修改止盈止损失败');
+  }
+
+  /**
+   * 触发单下单
+   */
+  async placePlanOrder(params: FuturesPlanOrderParams): Promise<FuturesPlaceOrderResult> {
+    logger.info('合约触发单下单', {
+      symbol: params.symbol,
+      side: params.side,
+      triggerPrice: params.triggerPrice,
+      orderType: params.orderType,
+      price: params.price,
+      size: params.size,
+    });
+    return this.postPlanRequest<FuturesPlaceOrderResult>(
+      '/api/v2/mix/order/place-plan-order',
+      params,
+      '触发单下单失败'
+    );
+  }
+
+  /**
+   * 修改触发单
+   */
+  async modifyPlanOrder(params: FuturesModifyPlanParams): Promise<void> {
+    logger.info('修改合约触发单', { orderId: params.orderId, newTriggerPrice: params.newTriggerPrice });
+    await this.postPlanRequest('/api/v2/mix/order/modify-plan-order', params, '修改触发单失败');
+  }
+
+  /**
+   * 撤销计划委托（planType: profit_loss 为止盈止损，normal_plan 为触发单）
+   */
+  async cancelPlanOrders(params: FuturesCancelPlanParams): Promise<FuturesBatchCancelResult> {
+    logger.info('撤销合约计划委托', { symbol: params.symbol, planType: params.planType, count: params.orderIdList.length });
+    const result = await this.postPlanRequest<FuturesBatchCancelResult>(
+      '/api/v2/mix/order/cancel-plan-order',
+      params,
+      '撤销计划委托失败'
+    );
+    if (result.failureList?.length > 0) {
+      throw new AppError(
+        ErrorCode.FUTURES_PLAN_ORDER_FAILED,
+        `撤销计划委托失败: ${result.failureList.map(f => f.errorMsg).join('; ')}`,
+        { params, failureList: result.failureList },
+        500
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 查询当前计划委托
+   */
+  async getPendingPlanOrders(
+    symbol: string,
+    productType: ProductType,
+    planType: 'normal_plan' | 'profit_loss'
+  ): Promise<FuturesPlanOrder[]> {
+    const response = await this.client.get<{ entrustedList: FuturesPlanOrder[] | null }>(
+      '/api/v2/mix/order/orders-plan-pending',
+      { symbol, productType, planType }
+    );
+    return response.data.entrustedList || [];
+  }
+
+  private async postPlanRequest<T>(path: string, params: object, failureMessage: string): Promise<T> {
+    try {
+      const response = await this.client.post<T>(path, params as Record<string, unknown>);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        ErrorCode.FUTURES_PLAN_ORDER_FAILED,
+        `${failureMessage}: ${String(error)}`,
+        { params },
+        500
+      );
+    }
+  }
 }
@@ -2,6 +2,8 @@
  * 统一账户服务接口
  */
 
+import { UnifiedFundingPayment, UnifiedPosition } from '../../types/trading.types';
+
 export interface IAccountService {
   getAvailableBalance(marginCoin?: string): Promise<string>;
   getAccountEquity(marginCoin?: string): Promise<{
@@ -9,4 +11,8 @@ export interface IAccountService {
     available: string;
     unrealizedPL: string;
   }>;
+  /** 查询 startTime 之后的资金费结算（现货/模拟环境返回空列表） */
+  getFundingPayments(symbol: string, startTime: number): Promise<UnifiedFundingPayment[]>;
+  /** 查询指定交易对的合约持仓（现货返回空列表） */
+  getPositions(symbol: string): Promise<UnifiedPosition[]>;
 }
@@ -2,10 +2,12 @@
  * 统一行情数据服务接口
  */
 
-import { UnifiedTickerInfo } from '../../types/trading.types';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
 
 export interface IMarketDataService {
   getTicker(symbol: string): Promise<UnifiedTickerInfo>;
   getBestBid(symbol: string): Promise<string>;
   getBestAsk(symbol: string): Promise<string>;
+  /** 盘口深度（每侧最多 depth 档；模拟行情只有一档） */
+  getOrderBook(symbol: string, depth?: number): Promise<UnifiedOrderBook>;
 }
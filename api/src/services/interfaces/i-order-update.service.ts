@@ -0,0 +1,15 @@
+/**
+ * 统一订单推送接口
+ * 实盘由私有 WebSocket orders 频道实现，引擎据此即时处理成交
+ */
+
+import { UnifiedOrderUpdate } from '../../types/trading.types';
+
+export type OrderUpdateListener = (update: UnifiedOrderUpdate) => void;
+
+export interface IOrderUpdateStream {
+  /** 订阅指定交易对的订单推送，返回取消订阅函数 */
+  subscribe(symbol: string, listener: OrderUpdateListener): () => void;
+  /** 推送通道是否可用（不可用时引擎仅依赖 REST 对账） */
+  isConnected(): boolean;
+}
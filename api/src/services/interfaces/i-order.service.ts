@@ -11,6 +11,13 @@ import {
   UnifiedBatchCancelResult,
   UnifiedPendingOrder,
   UnifiedOrderDetail,
+  UnifiedTpslOrderParams,
+  UnifiedModifyTpslParams,
+  UnifiedTriggerOrderParams,
+  UnifiedModifyTriggerParams,
+  UnifiedCancelPlanParams,
+  UnifiedPlanOrder,
+  PlanOrderCategory,
 } from '../../types/trading.types';
 
 export interface IOrderService {
@@ -19,4 +26,12 @@ export interface IOrderService {
   batchCancelOrders(params: UnifiedBatchCancelParams): Promise<UnifiedBatchCancelResult>;
   getPendingOrders(symbol: string): Promise<UnifiedPendingOrder[]>;
   getOrderDetail(symbol: string, orderId: string): Promise<UnifiedOrderDetail>;
+
+  // 计划委托（现货不支持时抛出 PLAN_ORDER_NOT_SUPPORTED，查询返回空列表）
+  placeTpslOrder(params: UnifiedTpslOrderParams): Promise<UnifiedPlaceOrderResult>;
+  modifyTpslOrder(params: UnifiedModifyTpslParams): Promise<void>;
+  placeTriggerOrder(params: UnifiedTriggerOrderParams): Promise<UnifiedPlaceOrderResult>;
+  modifyTriggerOrder(params: UnifiedModifyTriggerParams): Promise<void>;
+  cancelPlanOrder(params: UnifiedCancelPlanParams): Promise<void>;
+  getPendingPlanOrders(symbol: string, category: PlanOrderCategory): Promise<UnifiedPlanOrder[]>;
 }
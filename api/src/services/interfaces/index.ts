@@ -1,3 +1,4 @@
 export type { IOrderService } from './i-order.service';
 export type { IMarketDataService } from './i-market-data.service';
 export type { IAccountService } from './i-account.service';
+export type { IOrderUpdateStream, OrderUpdateListener } from './i-order-update.service';
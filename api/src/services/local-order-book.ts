@@ -0,0 +1,102 @@
+/**
+ * 本地盘口簿
+ * 维护 WebSocket 深度频道推送的盘口：books5/books15 每次推送全量快照，
+ * books 首次推送快照、之后推送增量（数量为 0 表示删除该档），并用 CRC32 校验和验证前 25 档
+ */
+
+import zlib from 'zlib';
+import { UnifiedOrderBook } from '../types/trading.types';
+
+/** 参与校验和计算的档位数 */
+const CHECKSUM_LEVELS = 25;
+
+export interface BookPush {
+  asks: Array<[string, string]>;
+  bids: Array<[string, string]>;
+  checksum?: number;
+  ts?: string;
+}
+
+export class LocalOrderBook {
+  private bids: Map<string, string> = new Map();
+  private asks: Map<string, string> = new Map();
+  private ts = '0';
+  private receivedAt = 0;
+  private valid = false;
+
+  constructor(private readonly symbol: string) {}
+
+  /**
+   * 应用一次推送，返回盘口是否一致（增量校验失败时需重新订阅取快照）
+   */
+  apply(push: BookPush, action: 'snapshot' | 'update'): boolean {
+    if (action === 'snapshot') {
+      this.bids = new Map(push.bids);
+      this.asks = new Map(push.asks);
+      this.valid = true;
+    } else {
+      if (!this.valid) return false;
+      applyLevels(this.bids, push.bids);
+      applyLevels(this.asks, push.asks);
+    }
+
+    this.ts = push.ts || String(Date.now());
+    this.receivedAt = Date.now();
+
+    if (push.checksum !== undefined && push.checksum !== 0 && this.checksum() !== push.checksum) {
+      this.valid = false;
+    }
+    return this.valid;
+  }
+
+  /** 盘口有效且最近一次推送在 maxAgeMs 内 */
+  isFresh(maxAgeMs: number): boolean {
+    return this.valid && Date.now() - this.receivedAt < maxAgeMs;
+  }
+
+  invalidate(): void {
+    this.valid = false;
+  }
+
+  toOrderBook(depth: number): UnifiedOrderBook {
+    return {
+      symbol: this.symbol,
+      bids: this.sortedBids().slice(0, depth),
+      asks: this.sortedAsks().slice(0, depth),
+      ts: this.ts,
+    };
+  }
+
+  private sortedBids(): Array<[string, string]> {
+    return Array.from(this.bids.entries()).sort((a, b) => parseFloat(b[0]) - parseFloat(a[0]));
+  }
+
+  private sortedAsks(): Array<[string, string]> {
+    return Array.from(this.asks.entries()).sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]));
+  }
+
+  /**
+   * Bitget 校验和：前 25 档按 bid1:ask1:bid2:ask2... 交错拼接（价格与数量保留原始字符串），
+   * 取 CRC32 的有符号 32 位整数
+   */
+  private checksum(): number {
+    const bids = this.sortedBids().slice(0, CHECKSUM_LEVELS);
+    const asks = this.sortedAsks().slice(0, CHECKSUM_LEVELS);
+    const parts: string[] = [];
+    for (let i = 0; i < CHECKSUM_LEVELS; i++) {
+      if (bids[i]) parts.push(bids[i][0], bids[i][1]);
+      if (asks[i]) parts.push(asks[i][0], asks[i][1]);
+    }
+    return zlib.crc32(parts.join(':')) | 0;
+  }
+}
+
+function applyLevels(side: Map<string, string>, levels: Array<[string, string]>): void {
+  for (const [price, size] of levels) {
+    if (parseFloat(size) === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, size);
+    }
+  }
+}
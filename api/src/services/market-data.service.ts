@@ -38,6 +38,12 @@ export interface CandleData {
   usdtVolume: string;
 }
 
+export interface SpotOrderBook {
+  asks: Array<[string, string]>;  // [price, size]
+  bids: Array<[string, string]>;  // [price, size]
+  ts: string;
+}
+
 export type Granularity =
   | '1min' | '5min' | '15min' | '30min'
   | '1h' | '4h' | '6h' | '12h'
@@ -66,6 +72,17 @@ export class MarketDataService {
     return response.data;
   }
 
+  /**
+   * 获取盘口深度（limit 最大 150）
+   */
+  async getOrderBook(symbol: string, limit = 15): Promise<SpotOrderBook> {
+    const response = await this.client.publicGet<SpotOrderBook>(
+      '/api/v2/spot/market/orderbook',
+      { symbol, type: 'step0', limit: String(Math.min(limit, 150)) }
+    );
+    return response.data;
+  }
+
   /**
    * 获取 K 线数据
    */
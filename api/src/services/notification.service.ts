@@ -0,0 +1,382 @@
+/**
+ * 通知服务（Singleton）
+ * 监听策略事件，按路由规则渲染模板并投递到 Telegram / 邮件 / Webhook / 钉钉 / 企业微信
+ * 两级限流：规则级（同一实例同一规则的最小间隔）与渠道级（每分钟条数上限）
+ */
+
+import { IStrategy } from '../strategy/interfaces/i-strategy';
+import { StrategyEvent } from '../types/strategy.types';
+import {
+  NotificationConfig,
+  NotificationChannelConfig,
+  NotificationChannelType,
+  NotificationMessage,
+  NotificationDeliveryResult,
+  NotificationRule,
+  DEFAULT_NOTIFICATION_CONFIG,
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  FALLBACK_NOTIFICATION_TEMPLATE,
+} from '../types/notification.types';
+import { NotificationChannel, createNotificationChannel } from './notification/notification-channels';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('notification');
+
+const ONE_MINUTE_MS = 60_000;
+/** 对外返回配置时敏感字段的占位值，更新时原样提交表示保持不变 */
+const MASKED_SECRET = '••••••••';
+const SECRET_FIELDS = ['botToken', 'password', 'secret'] as const;
+/** 钉钉 access_token / 企业微信 key 以查询参数形式出现在机器人地址中 */
+const URL_TOKEN_PATTERN = /([?&](?:access_token|key)=)[^&#]*/g;
+const CHANNEL_TYPES: NotificationChannelType[] = ['telegram', 'email', 'webhook', 'dingtalk', 'wecom'];
+
+export interface StrategyContext {
+  instanceId: string | null;
+  strategyType: string | null;
+  symbol: string | null;
+}
+
+export class NotificationService {
+  private static instance: NotificationService | null = null;
+
+  private config: NotificationConfig = { ...DEFAULT_NOTIFICATION_CONFIG };
+  private channels: Map<string, NotificationChannel> = new Map();
+  /** 规则限流：`${ruleId}:${instanceId}` → 上次发送时间 / 期间被限流条数 */
+  private lastSentAt: Map<string, number> = new Map();
+  private suppressedCount: Map<string, number> = new Map();
+  /** 渠道限流：channelId → 最近一分钟内的发送时间 */
+  private channelSends: Map<string, number[]> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * 监听策略实例事件，返回取消监听函数
+   */
+  watch(strategy: IStrategy): () => void {
+    return strategy.onEvent(event => {
+      if (!this.config.enabled) return;
+      const config = strategy.getState().config;
+      this.handleEvent(event, {
+        instanceId: strategy.instanceId,
+        strategyType: strategy.strategyType,
+        symbol: config?.symbol || null,
+      });
+    });
+  }
+
+  /**
+   * 推送不属于单个策略实例的事件（如市场状态监管的模式切换）
+   */
+  notify(event: StrategyEvent, context: StrategyContext): void {
+    if (!this.config.enabled) return;
+    this.handleEvent(event, context);
+  }
+
+  /**
+   * 更新配置（校验后生效）
+   * 敏感字段为 MASKED_SECRET 时沿用同 ID 渠道的原值
+   */
+  updateConfig(updates: Partial<NotificationConfig>): NotificationConfig {
+    const next: NotificationConfig = { ...this.config, ...updates };
+    next.channels = (next.channels || []).map(channel => this.restoreSecrets(channel));
+    this.validate(next);
+
+    this.config = next;
+    this.channels = new Map(next.channels.map(c => [c.id, createNotificationChannel(c)]));
+    this.lastSentAt.clear();
+    this.suppressedCount.clear();
+
+    logger.info('通知配置已更新', {
+      enabled: next.enabled,
+      channels: next.channels.length,
+      rules: next.rules.length,
+    });
+    return this.config;
+  }
+
+  getConfig(): NotificationConfig {
+    return this.config;
+  }
+
+  /**
+   * 脱敏后的配置（对外返回）
+   */
+  getMaskedConfig(): NotificationConfig {
+    return {
+      ...this.config,
+      channels: this.config.channels.map(channel => {
+        const masked: Record<string, unknown> = { ...channel };
+        for (const field of SECRET_FIELDS) {
+          if (masked[field]) masked[field] = MASKED_SECRET;
+        }
+        if (channel.type === 'webhook' && channel.headers) {
+          masked.headers = Object.fromEntries(Object.keys(channel.headers).map(name => [name, MASKED_SECRET]));
+        }
+        if (channel.type === 'dingtalk' || channel.type === 'wecom') {
+          masked.webhookUrl = maskUrlToken(channel.webhookUrl);
+        }
+        return masked as unknown as NotificationChannelConfig;
+      }),
+    };
+  }
+
+  /**
+   * 发送测试消息（不受限流与启用开关影响）
+   * 指定 channelId 时只测试该渠道（含未启用的），否则测试全部已启用渠道
+   */
+  async sendTest(channelId?: string): Promise<NotificationDeliveryResult[]> {
+    const targets = channelId
+      ? this.config.channels.filter(c => c.id === channelId)
+      : this.config.channels.filter(c => c.enabled);
+
+    if (channelId && targets.length === 0) {
+      throw new AppError(ErrorCode.NOT_FOUND, `通知渠道不存在: ${channelId}`, { channelId }, 404);
+    }
+    if (targets.length === 0) {
+      throw new AppError(ErrorCode.NOTIFICATION_CONFIG_INVALID, '没有已启用的通知渠道', null, 400);
+    }
+
+    const now = Date.now();
+    const message: NotificationMessage = {
+      title: '[测试] 交易系统通知',
+      text: `[测试] 通知渠道连通性测试\n时间: ${new Date(now).toISOString()}`,
+      eventType: 'TEST',
+      instanceId: null,
+      symbol: null,
+      timestamp: now,
+      data: {},
+    };
+
+    return Promise.all(targets.map(async target => {
+      const channel = this.channels.get(target.id)!;
+      try {
+        await channel.send(message);
+        return { channelId: target.id, channelType: target.type, success: true, error: null };
+      } catch (error) {
+        return { channelId: target.id, channelType: target.type, success: false, error: String(error) };
+      }
+    }));
+  }
+
+  // ============================================================
+  // Routing
+  // ============================================================
+
+  private handleEvent(event: StrategyEvent, context: StrategyContext): void {
+    const now = Date.now();
+    const dispatched = new Set<string>();
+
+    for (const rule of this.config.rules) {
+      if (!rule.enabled || !rule.eventTypes.includes(event.type)) continue;
+
+      const throttleKey = `${rule.id}:${context.instanceId}`;
+      const last = this.lastSentAt.get(throttleKey);
+      if (last !== undefined && now - last < rule.minIntervalMs) {
+        this.suppressedCount.set(throttleKey, (this.suppressedCount.get(throttleKey) || 0) + 1);
+        continue;
+      }
+
+      const suppressed = this.suppressedCount.get(throttleKey) || 0;
+      this.lastSentAt.set(throttleKey, now);
+      this.suppressedCount.delete(throttleKey);
+
+      const message = this.render(rule, event, context, suppressed);
+      for (const channelId of rule.channelIds) {
+        // 多条规则命中同一渠道时，同一事件只发一次
+        if (dispatched.has(channelId)) continue;
+        dispatched.add(channelId);
+        this.dispatch(channelId, message, now);
+      }
+    }
+  }
+
+  private dispatch(channelId: string, message: NotificationMessage, now: number): void {
+    const channelConfig = this.config.channels.find(c => c.id === channelId);
+    const channel = this.channels.get(channelId);
+    if (!channelConfig?.enabled || !channel) return;
+
+    const recent = (this.channelSends.get(channelId) || []).filter(t => now - t < ONE_MINUTE_MS);
+    if (recent.length >= this.config.maxPerMinutePerChannel) {
+      logger.warn('通知渠道超出频率限制，丢弃消息', { channelId, eventType: message.eventType });
+      this.channelSends.set(channelId, recent);
+      return;
+    }
+    recent.push(now);
+    this.channelSends.set(channelId, recent);
+
+    channel.send(message).catch(error => {
+      logger.warn('通知发送失败', {
+        channelId,
+        channelType: channel.type,
+        eventType: message.eventType,
+        error: String(error),
+      });
+    });
+  }
+
+  // ============================================================
+  // Templates
+  // ============================================================
+
+  private render(
+    rule: NotificationRule,
+    event: StrategyEvent,
+    context: StrategyContext,
+    suppressed: number
+  ): NotificationMessage {
+    const template = rule.template
+      || this.config.templates[event.type]
+      || DEFAULT_NOTIFICATION_TEMPLATES[event.type]
+      || FALLBACK_NOTIFICATION_TEMPLATE;
+
+    const vars: Record<string, unknown> = {
+      ...this.deriveVars(event),
+      ...event.data,
+      eventType: event.type,
+      instanceId: context.instanceId ?? '-',
+      strategyType: context.strategyType ?? '-',
+      symbol: context.symbol ?? '-',
+      time: new Date(event.timestamp).toISOString(),
+      suppressed,
+      data: JSON.stringify(event.data),
+    };
+
+    let text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => formatVar(vars[name]));
+    if (suppressed > 0 && !template.includes('{{suppressed}}')) {
+      text += `\n（此前 ${suppressed} 条同类通知被限流）`;
+    }
+
+    return {
+      title: text.split('\n')[0],
+      text,
+      eventType: event.type,
+      instanceId: context.instanceId,
+      symbol: context.symbol,
+      timestamp: event.timestamp,
+      data: event.data,
+    };
+  }
+
+  /** 默认模板用到的派生字段 */
+  private deriveVars(event: StrategyEvent): Record<string, unknown> {
+    if (event.type === 'RISK_LIMIT_HIT' && typeof event.data.cooldownMs === 'number') {
+      return { cooldownSec: Math.round(event.data.cooldownMs / 1000) };
+    }
+    return {};
+  }
+
+  // ============================================================
+  // Validation
+  // ============================================================
+
+  private restoreSecrets(channel: NotificationChannelConfig): NotificationChannelConfig {
+    const existing = this.config.channels.find(c => c.id === channel.id && c.type === channel.type);
+    const restored: Record<string, unknown> = { ...channel };
+    for (const field of SECRET_FIELDS) {
+      if (restored[field] === MASKED_SECRET) {
+        restored[field] = existing ? (existing as unknown as Record<string, unknown>)[field] : '';
+      }
+    }
+
+    // Webhook 请求头按名称逐个还原
+    if (channel.type === 'webhook' && channel.headers) {
+      const existingHeaders = existing?.type === 'webhook' ? existing.headers || {} : {};
+      restored.headers = Object.fromEntries(Object.entries(channel.headers).map(([name, value]) => [
+        name,
+        value === MASKED_SECRET ? existingHeaders[name] ?? '' : value,
+      ]));
+    }
+    // 机器人地址未改动（仍是脱敏后的原地址）时沿用原值
+    if ((channel.type === 'dingtalk' || channel.type === 'wecom')
+      && (existing?.type === 'dingtalk' || existing?.type === 'wecom')
+      && channel.webhookUrl === maskUrlToken(existing.webhookUrl)) {
+      restored.webhookUrl = existing.webhookUrl;
+    }
+    return restored as unknown as NotificationChannelConfig;
+  }
+
+  private validate(config: NotificationConfig): void {
+    const errors: string[] = [];
+    const channelIds = new Set<string>();
+
+    for (const channel of config.channels) {
+      if (!channel.id) {
+        errors.push('渠道 id 不能为空');
+      } else if (channelIds.has(channel.id)) {
+        errors.push(`渠道 id 重复: ${channel.id}`);
+      }
+      channelIds.add(channel.id);
+
+      if (!CHANNEL_TYPES.includes(channel.type)) {
+        errors.push(`渠道 ${channel.id} 类型无效: ${String(channel.type)}`);
+        continue;
+      }
+      errors.push(...validateChannel(channel));
+    }
+
+    const ruleIds = new Set<string>();
+    for (const rule of config.rules || []) {
+      if (!rule.id || ruleIds.has(rule.id)) {
+        errors.push(`规则 id 为空或重复: ${rule.id}`);
+      }
+      ruleIds.add(rule.id);
+      if (!Array.isArray(rule.eventTypes) || rule.eventTypes.length === 0) {
+        errors.push(`规则 ${rule.id} 未指定事件类型`);
+      }
+      for (const channelId of rule.channelIds || []) {
+        if (!channelIds.has(channelId)) {
+          errors.push(`规则 ${rule.id} 引用了不存在的渠道: ${channelId}`);
+        }
+      }
+      if (!(rule.minIntervalMs >= 0)) {
+        errors.push(`规则 ${rule.id} 的 minIntervalMs 不能为负`);
+      }
+    }
+
+    if (!(config.maxPerMinutePerChannel >= 1)) {
+      errors.push('maxPerMinutePerChannel 不能小于 1');
+    }
+
+    if (errors.length > 0) {
+      throw new AppError(ErrorCode.NOTIFICATION_CONFIG_INVALID, `通知配置无效: ${errors.join('; ')}`, { errors }, 400);
+    }
+  }
+}
+
+function validateChannel(channel: NotificationChannelConfig): string[] {
+  const missing = (field: string): string => `渠道 ${channel.id} 缺少 ${field}`;
+  switch (channel.type) {
+    case 'telegram':
+      return [!channel.botToken && missing('botToken'), !channel.chatId && missing('chatId')].filter(Boolean) as string[];
+    case 'email':
+      return [
+        !channel.host && missing('host'),
+        !(channel.port > 0) && missing('port'),
+        !channel.from && missing('from'),
+        !(Array.isArray(channel.to) && channel.to.length > 0) && missing('to'),
+      ].filter(Boolean) as string[];
+    case 'webhook':
+      return channel.url ? [] : [missing('url')];
+    case 'dingtalk':
+    case 'wecom':
+      return channel.webhookUrl ? [] : [missing('webhookUrl')];
+  }
+}
+
+function maskUrlToken(url: string): string {
+  return url.replace(URL_TOKEN_PATTERN, `$1${MASKED_SECRET}`);
+}
+
+function formatVar(value: unknown): string {
+  if (value === undefined || value === null) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
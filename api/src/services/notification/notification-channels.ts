@@ -0,0 +1,164 @@
+/**
+ * 通知渠道实现
+ * 每个渠道只负责把渲染好的消息投递出去，路由、限流与模板由 NotificationService 处理
+ */
+
+import crypto from 'crypto';
+import axios, { AxiosRequestConfig } from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SmtpClient } from './smtp-client';
+import {
+  NotificationChannelConfig,
+  NotificationChannelType,
+  NotificationMessage,
+  TelegramChannelConfig,
+  EmailChannelConfig,
+  WebhookChannelConfig,
+  DingTalkChannelConfig,
+  WeComChannelConfig,
+} from '../../types/notification.types';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface NotificationChannel {
+  readonly id: string;
+  readonly type: NotificationChannelType;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+class TelegramChannel implements NotificationChannel {
+  readonly type = 'telegram' as const;
+
+  constructor(private readonly config: TelegramChannelConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const requestConfig: AxiosRequestConfig = { timeout: REQUEST_TIMEOUT_MS };
+    if (this.config.proxyUrl) {
+      requestConfig.httpsAgent = new HttpsProxyAgent(this.config.proxyUrl);
+      requestConfig.proxy = false;
+    }
+    await axios.post(
+      `https://api.telegram.org/bot${this.config.botToken}/sendMessage`,
+      { chat_id: this.config.chatId, text: message.text, disable_web_page_preview: true },
+      requestConfig
+    );
+  }
+}
+
+class EmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+
+  constructor(private readonly config: EmailChannelConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const client = new SmtpClient({
+      host: this.config.host,
+      port: this.config.port,
+      secure: this.config.secure,
+      username: this.config.username,
+      password: this.config.password,
+    });
+    await client.send({
+      from: this.config.from,
+      to: this.config.to,
+      subject: message.title,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * 通用 Webhook：POST 完整消息 JSON
+ */
+class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook' as const;
+
+  constructor(private readonly config: WebhookChannelConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await axios.post(this.config.url, message, {
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: this.config.headers,
+    });
+  }
+}
+
+/**
+ * 钉钉机器人：加签时在 URL 上附加 timestamp 与 HMAC-SHA256 签名
+ */
+class DingTalkChannel implements NotificationChannel {
+  readonly type = 'dingtalk' as const;
+
+  constructor(private readonly config: DingTalkChannelConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    let url = this.config.webhookUrl;
+    if (this.config.secret) {
+      const timestamp = Date.now();
+      const sign = crypto
+        .createHmac('sha256', this.config.secret)
+        .update(`${timestamp}\n${this.config.secret}`)
+        .digest('base64');
+      url += `${url.includes('?') ? '&' : '?'}timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+    }
+    const res = await axios.post(url, { msgtype: 'text', text: { content: message.text } }, { timeout: REQUEST_TIMEOUT_MS });
+    assertRobotResponse(res.data);
+  }
+}
+
+class WeComChannel implements NotificationChannel {
+  readonly type = 'wecom' as const;
+
+  constructor(private readonly config: WeComChannelConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const res = await axios.post(
+      this.config.webhookUrl,
+      { msgtype: 'text', text: { content: message.text } },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+    assertRobotResponse(res.data);
+  }
+}
+
+/** 钉钉/企业微信机器人 HTTP 200 时通过 errcode 表示失败 */
+function assertRobotResponse(data: { errcode?: number; errmsg?: string } | undefined): void {
+  if (data && data.errcode !== undefined && data.errcode !== 0) {
+    throw new Error(`机器人返回错误 ${data.errcode}: ${data.errmsg || ''}`);
+  }
+}
+
+export function createNotificationChannel(config: NotificationChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'telegram':
+      return new TelegramChannel(config);
+    case 'email':
+      return new EmailChannel(config);
+    case 'webhook':
+      return new WebhookChannel(config);
+    case 'dingtalk':
+      return new DingTalkChannel(config);
+    case 'wecom':
+      return new WeComChannel(config);
+  }
+}
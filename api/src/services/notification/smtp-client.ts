@@ -0,0 +1,207 @@
+/**
+ * 最小 SMTP 客户端
+ * 仅支持发送纯文本邮件：隐式 TLS / STARTTLS + AUTH LOGIN（未加密连接不发送凭证）
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpClient {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(mail: SmtpMail): Promise<void> {
+    try {
+      await this.connect();
+      await this.expect(null, [220]);
+
+      let encrypted = this.options.secure;
+      const capabilities = await this.hello();
+      if (!encrypted && capabilities.includes('STARTTLS')) {
+        await this.expect('STARTTLS', [220]);
+        await this.upgradeToTls();
+        await this.hello();
+        encrypted = true;
+      }
+
+      if (this.options.username) {
+        // 凭证只经 TLS 发送：服务器不支持 STARTTLS 时直接失败，不降级为明文 AUTH
+        if (!encrypted) {
+          throw new Error('SMTP 服务器不支持 STARTTLS，拒绝以明文发送登录凭证');
+        }
+        await this.expect('AUTH LOGIN', [334]);
+        await this.expect(Buffer.from(this.options.username).toString('base64'), [334], 'AUTH');
+        await this.expect(Buffer.from(this.options.password || '').toString('base64'), [235], 'AUTH');
+      }
+
+      await this.expect(`MAIL FROM:<${extractAddress(mail.from)}>`, [250]);
+      for (const recipient of mail.to) {
+        await this.expect(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await this.expect('DATA', [354]);
+      await this.expect(`${buildMessage(mail)}\r\n.`, [250], 'DATA');
+      await this.expect('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  private upgradeToTls(): Promise<void> {
+    const plain = this.socket!;
+    plain.removeAllListeners('data');
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: this.options.host }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+      this.fail(new Error('SMTP 连接超时'));
+      socket.destroy();
+    });
+    socket.on('data', chunk => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP 连接已关闭')));
+  }
+
+  private async hello(): Promise<string[]> {
+    const reply = await this.expect(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    return reply.lines.map(line => line.toUpperCase());
+  }
+
+  /**
+   * 发送命令（command 为 null 时只读取响应）并校验响应码
+   * step 用于错误信息，避免把凭据或正文写进日志
+   */
+  private async expect(
+    command: string | null,
+    codes: number[],
+    step = command === null ? 'CONNECT' : command.split(/[ :]/)[0]
+  ): Promise<SmtpReply> {
+    if (command !== null) {
+      this.socket!.write(`${command}\r\n`);
+    }
+    const reply = await this.nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${step} 失败: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /** 按行解析响应，"250-" 为多行响应的续行 */
+  private onData(data: string): void {
+    this.buffer += data;
+    let index = this.buffer.indexOf('\r\n');
+    while (index !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+      index = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+}
+
+/** "名称 <a@b.com>" → "a@b.com" */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * 构造邮件正文：UTF-8 + base64 传输编码（正文不会出现以 "." 开头的行，无需点填充）
+ */
+function buildMessage(mail: SmtpMail): string {
+  const body = Buffer.from(mail.text).toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
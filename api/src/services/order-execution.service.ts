@@ -38,12 +38,42 @@ export interface OrderInfo {
   baseVolume: string;
   quoteVolume: string;
   enterPointSource: string;
-  feeDetail: Record<string, unknown>;
+  /** 按扣费币种分组的手续费明细，接口以 JSON 字符串返回 */
+  feeDetail: string | Record<string, unknown>;
   orderSource: string;
   cTime: string;
   uTime: string;
 }
 
+/** 现货成交明细（fills 返回，totalFee 为负数表示支出） */
+export interface SpotFill {
+  userId: string;
+  symbol: string;
+  orderId: string;
+  tradeId: string;
+  orderType: string;
+  side: 'buy' | 'sell';
+  priceAvg: string;
+  size: string;
+  amount: string;
+  feeDetail: {
+    deduction: string;
+    feeCoin: string;
+    totalDeductionFee: string;
+    totalFee: string;
+  };
+  tradeScope: string;
+  cTime: string;
+  uTime: string;
+}
+
+export interface SpotFillQuery {
+  startTime: number;
+  endTime: number;
+  idLessThan?: string;
+  limit?: number;
+}
+
 export interface CancelOrderResult {
   orderId: string;
   clientOid: string;
@@ -52,8 +82,8 @@ export interface CancelOrderResult {
 export class OrderExecutionService {
   private client: BitgetClientService;
 
-  constructor() {
-    this.client = BitgetClientService.getInstance();
+  constructor(accountId?: string) {
+    this.client = BitgetClientService.getInstance(accountId);
   }
 
   /**
@@ -141,4 +171,23 @@ export class OrderExecutionService {
 
     return response.data;
   }
+
+  /**
+   * 查询成交明细（需指定交易对，单页最多 100 条，按成交时间倒序；最后一条的 tradeId 传回 idLessThan 翻页）
+   */
+  async getFills(symbol: string, query: SpotFillQuery): Promise<SpotFill[]> {
+    const params: Record<string, string> = {
+      symbol,
+      startTime: String(query.startTime),
+      endTime: String(query.endTime),
+      limit: String(query.limit ?? 100),
+    };
+    if (query.idLessThan) params.idLessThan = query.idLessThan;
+
+    const response = await this.client.get<SpotFill[] | null>(
+      '/api/v2/spot/trade/fills',
+      params
+    );
+    return response.data || [];
+  }
 }
@@ -0,0 +1,77 @@
+/**
+ * 订单推送服务
+ * 实现 IOrderUpdateStream 接口
+ * 订阅私有 WebSocket orders 频道，将合约/现货推送归一化为 UnifiedOrderUpdate
+ */
+
+import { IOrderUpdateStream, OrderUpdateListener } from './interfaces/i-order-update.service';
+import { UnifiedOrderUpdate } from '../types/trading.types';
+import { WebSocketClientService } from './websocket-client.service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('order-update-stream');
+
+export class OrderUpdateStreamService implements IOrderUpdateStream {
+  private wsClient: WebSocketClientService;
+  private instType: string;
+  private subscribedSymbols: Set<string> = new Set();
+
+  constructor(instType: string, accountId?: string) {
+    this.wsClient = WebSocketClientService.getInstance(accountId);
+    this.instType = instType;
+  }
+
+  subscribe(symbol: string, listener: OrderUpdateListener): () => void {
+    this.wsClient.connectPrivate();
+    if (!this.subscribedSymbols.has(symbol)) {
+      this.wsClient.subscribeOrders(this.instType, symbol);
+      this.subscribedSymbols.add(symbol);
+    }
+
+    const handler = (data: unknown[]) => {
+      for (const item of data || []) {
+        const update = this.normalize(item as Record<string, string>, symbol);
+        if (!update) continue;
+        try {
+          listener(update);
+        } catch (error) {
+          logger.warn('订单推送处理失败', { orderId: update.orderId, error: String(error) });
+        }
+      }
+    };
+
+    const eventName = `private:orders:${symbol}`;
+    this.wsClient.on(eventName, handler);
+    logger.info('已订阅订单推送', { instType: this.instType, symbol });
+
+    return () => {
+      this.wsClient.off(eventName, handler);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.wsClient.isPrivateConnected();
+  }
+
+  private normalize(d: Record<string, string>, symbol: string): UnifiedOrderUpdate | null {
+    if (!d || !d.orderId) return null;
+
+    // 合约推送为 canceled，统一为 cancelled
+    const state = d.status === 'canceled' ? 'cancelled' : d.status;
+
+    return {
+      orderId: d.orderId,
+      clientOid: d.clientOid || '',
+      symbol: d.instId || symbol,
+      side: d.side === 'sell' ? 'sell' : 'buy',
+      state,
+      size: d.size || '0',
+      filledQty: d.accBaseVolume || '0',
+      priceAvg: d.priceAvg || '0',
+      fillPrice: d.fillPrice || '0',
+      fillSize: d.baseVolume || '0',
+      fillFee: d.fillFee || '0',
+      uTime: d.uTime || String(Date.now()),
+    };
+  }
+}
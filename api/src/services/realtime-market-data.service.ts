@@ -2,16 +2,25 @@
  * 实时行情数据服务
  * 实现 IMarketDataService 接口
  * WebSocket 优先，断线时自动降级到 REST
+ * 盘口深度按需订阅：15 档以内用 books15 快照频道，更深用 books 增量频道
  */
 
 import { IMarketDataService } from './interfaces/i-market-data.service';
-import { UnifiedTickerInfo } from '../types/trading.types';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../types/trading.types';
+import { ProductType } from '../types/futures.types';
 import { WebSocketClientService } from './websocket-client.service';
 import { BitgetClientService } from './bitget-client.service';
+import { FuturesMarketDataService, toMergeDepthLimit } from './futures-market-data.service';
+import { MarketDataService } from './market-data.service';
+import { LocalOrderBook, BookPush } from './local-order-book';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('realtime-market');
 
+/** WebSocket 盘口超过该时长未更新视为过期，降级 REST */
+const BOOK_MAX_AGE_MS = 5000;
+const SNAPSHOT_BOOK_DEPTH = 15;
+
 interface TickerData {
   lastPr: string;
   bidPr: string;
@@ -31,6 +40,8 @@ export class RealtimeMarketDataService implements IMarketDataService {
   private wsClient: WebSocketClientService;
   private restClient: BitgetClientService;
   private tickerCache: Map<string, TickerData> = new Map();
+  /** `${channel}:${symbol}` → 本地盘口 */
+  private orderBooks: Map<string, LocalOrderBook> = new Map();
   private instType: string;
   private productType?: string;
 
@@ -45,6 +56,7 @@ export class RealtimeMarketDataService implements IMarketDataService {
    * 启动 WebSocket 订阅
    */
   subscribe(symbol: string): void {
+    this.wsClient.connectPublic();
     this.wsClient.subscribeTicker(this.instType, symbol);
     this.wsClient.on(`public:ticker:${symbol}`, (data: unknown[]) => {
       if (data && data.length > 0) {
@@ -102,6 +114,49 @@ export class RealtimeMarketDataService implements IMarketDataService {
     return ticker.askPr;
   }
 
+  async getOrderBook(symbol: string, depth = SNAPSHOT_BOOK_DEPTH): Promise<UnifiedOrderBook> {
+    const channel = depth <= SNAPSHOT_BOOK_DEPTH ? 'books15' : 'books';
+    const book = this.orderBooks.get(`${channel}:${symbol}`) || this.subscribeOrderBook(symbol, channel);
+    if (book.isFresh(BOOK_MAX_AGE_MS)) {
+      return book.toOrderBook(depth);
+    }
+    return this.fetchOrderBookREST(symbol, depth);
+  }
+
+  private subscribeOrderBook(symbol: string, channel: 'books' | 'books15'): LocalOrderBook {
+    const book = new LocalOrderBook(symbol);
+    this.orderBooks.set(`${channel}:${symbol}`, book);
+
+    this.wsClient.connectPublic();
+    this.wsClient.subscribeBooks(this.instType, symbol, channel);
+    this.wsClient.on(`public:${channel}:${symbol}`, (data: unknown[], action?: string) => {
+      if (!data || data.length === 0) return;
+      // books15 每次推送都是完整快照
+      const pushAction = channel === 'books15' || action === 'snapshot' ? 'snapshot' : 'update';
+      if (!book.apply(data[0] as BookPush, pushAction)) {
+        logger.warn('盘口校验失败，重新订阅', { symbol, channel });
+        this.wsClient.resubscribePublic(this.instType, channel, symbol);
+      }
+    });
+    // 断线期间可能漏掉增量，重连后等待新快照
+    this.wsClient.on('public:disconnected', () => book.invalidate());
+
+    logger.info('已订阅盘口深度', { instType: this.instType, symbol, channel });
+    return book;
+  }
+
+  private async fetchOrderBookREST(symbol: string, depth: number): Promise<UnifiedOrderBook> {
+    const book = this.productType
+      ? await new FuturesMarketDataService().getOrderBookDepth(symbol, this.productType as ProductType, toMergeDepthLimit(depth))
+      : await new MarketDataService().getOrderBook(symbol, depth);
+    return {
+      symbol,
+      bids: (book.bids || []).slice(0, depth),
+      asks: (book.asks || []).slice(0, depth),
+      ts: book.ts,
+    };
+  }
+
   private async fetchTickerREST(symbol: string): Promise<UnifiedTickerInfo> {
     if (this.productType) {
       // Futures
@@ -0,0 +1,250 @@
+/**
+ * 导出格式（纯函数）
+ * 通用成交 / 往返交易 CSV、Koinly 通用导入 CSV、现货 FIFO 成本报告
+ */
+
+import { ReportFill, FifoDisposal, FifoFee, FifoHolding, FifoReport } from '../../types/report.types';
+import { PersistedRoundTripTrade } from '../../types/trade-journal.types';
+import { toCsv } from '../../utils/csv';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoTime(ms: number | null): string | null {
+  return ms !== null ? new Date(ms).toISOString() : null;
+}
+
+/** Koinly 时间格式：YYYY-MM-DD HH:mm:ss UTC */
+function koinlyTime(ms: number): string {
+  return `${new Date(ms).toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
+function amount(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, '');
+}
+
+export function fillsToCsv(fills: ReportFill[]): string {
+  return toCsv(
+    [
+      'time', 'account', 'symbol', 'baseCoin', 'quoteCoin', 'side', 'tradeSide',
+      'price', 'size', 'quoteAmount', 'fee', 'feeCoin', 'realizedPnl',
+      'orderId', 'tradeId', 'strategyType',
+    ],
+    fills.map(f => [
+      isoTime(f.timestamp),
+      f.account,
+      f.symbol,
+      f.baseCoin,
+      f.quoteCoin,
+      f.side,
+      f.tradeSide,
+      f.price,
+      f.size,
+      f.quoteAmount,
+      f.fee,
+      f.feeCoin,
+      f.realizedPnl,
+      f.orderId,
+      f.tradeId,
+      f.strategyType,
+    ])
+  );
+}
+
+export function roundTripsToCsv(trades: PersistedRoundTripTrade[]): string {
+  return toCsv(
+    [
+      'openedAt', 'closedAt', 'instanceId', 'strategyType', 'symbol', 'direction',
+      'entryOrderId', 'exitOrderId', 'entryPrice', 'exitPrice', 'size',
+      'fees', 'grossPnl', 'netPnl', 'holdSeconds', 'mergedEntryOrderIds',
+    ],
+    trades.map(t => [
+      isoTime(t.openedAt),
+      isoTime(t.closedAt),
+      t.instanceId,
+      t.strategyType,
+      t.symbol,
+      t.direction,
+      t.entryOrderId,
+      t.exitOrderId,
+      t.entryPrice,
+      t.exitPrice,
+      t.size,
+      t.fees,
+      t.grossPnl,
+      t.netPnl,
+      t.holdMs !== null ? (t.holdMs / 1000).toFixed(0) : null,
+      t.mergedFrom.map(m => m.entryOrderId || '?').join(' '),
+    ])
+  );
+}
+
+/**
+ * Koinly 通用格式：现货成交为兑换（付出计价币 / 收到标的币，或相反）；
+ * 合约没有标的交割，平仓盈亏记为 realized gain（亏损为转出），开仓手续费记为 cost
+ */
+export function fillsToKoinlyCsv(fills: ReportFill[]): string {
+  const rows = fills.map(f => {
+    const fee = parseFloat(f.fee);
+    const description = `${f.account} ${f.symbol} ${f.side}${f.tradeSide ? ` ${f.tradeSide}` : ''}${f.strategyType ? ` (${f.strategyType})` : ''} order ${f.orderId}`;
+    const feeAmount = fee > 0 ? amount(fee) : '';
+    const feeCoin = fee > 0 ? f.feeCoin : '';
+
+    if (f.account === 'spot') {
+      const [sentAmount, sentCoin, receivedAmount, receivedCoin] = f.side === 'buy'
+        ? [f.quoteAmount, f.quoteCoin, f.size, f.baseCoin]
+        : [f.size, f.baseCoin, f.quoteAmount, f.quoteCoin];
+      return [koinlyTime(f.timestamp), sentAmount, sentCoin, receivedAmount, receivedCoin,
+        feeAmount, feeCoin, '', '', '', description, f.tradeId];
+    }
+
+    const pnl = parseFloat(f.realizedPnl || '0');
+    if (pnl > 0) {
+      return [koinlyTime(f.timestamp), '', '', amount(pnl), f.quoteCoin,
+        feeAmount, feeCoin, '', '', 'realized gain', description, f.tradeId];
+    }
+    if (pnl < 0) {
+      return [koinlyTime(f.timestamp), amount(-pnl), f.quoteCoin, '', '',
+        feeAmount, feeCoin, '', '', 'realized gain', description, f.tradeId];
+    }
+    return [koinlyTime(f.timestamp), feeAmount, feeCoin, '', '',
+      '', '', '', '', 'cost', description, f.tradeId];
+  }).filter(row => row[1] !== '' || row[3] !== '');
+
+  return toCsv(
+    [
+      'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency',
+      'Fee Amount', 'Fee Currency', 'Net Worth Amount', 'Net Worth Currency',
+      'Label', 'Description', 'TxHash',
+    ],
+    rows
+  );
+}
+
+interface FifoLot {
+  size: number;
+  unitCost: number;
+  acquiredAt: number;
+}
+
+/**
+ * 现货 FIFO 成本：买入形成批次（成本含计价币手续费；标的币手续费减少到账数量），
+ * 卖出按时间先后消耗同一交易对的批次（不同计价币的成本不可混算）。
+ * reportFrom 之前的成交只用于建立期初批次，不输出卖出记录；仍无法匹配的卖出数量记为 unmatchedSize
+ */
+export function computeFifoCostBasis(fills: ReportFill[], reportFrom = 0): FifoReport {
+  const lotsBySymbol = new Map<string, { coin: string; lots: FifoLot[] }>();
+  const disposals: FifoDisposal[] = [];
+  const fees: FifoFee[] = [];
+  const sorted = fills
+    .filter(f => f.account === 'spot')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const fill of sorted) {
+    const symbol = fill.symbol.toUpperCase();
+    const book = lotsBySymbol.get(symbol) || { coin: fill.baseCoin, lots: [] };
+    lotsBySymbol.set(symbol, book);
+    const lots = book.lots;
+    const reported = fill.timestamp >= reportFrom;
+    const size = parseFloat(fill.size);
+    const quote = parseFloat(fill.quoteAmount);
+    const fee = parseFloat(fill.fee) || 0;
+    const feeInBase = fill.feeCoin === fill.baseCoin;
+    const feeInQuote = fill.feeCoin === fill.quoteCoin;
+
+    if (fee > 0 && !feeInBase && !feeInQuote && reported) {
+      fees.push({
+        coin: fill.feeCoin,
+        symbol: fill.symbol,
+        tradeId: fill.tradeId,
+        chargedAt: fill.timestamp,
+        amount: amount(fee),
+      });
+    }
+
+    if (fill.side === 'buy') {
+      const netSize = feeInBase ? size - fee : size;
+      const cost = feeInQuote ? quote + fee : quote;
+      if (netSize > 0) {
+        lots.push({ size: netSize, unitCost: cost / netSize, acquiredAt: fill.timestamp });
+      }
+      continue;
+    }
+
+    const disposedSize = feeInBase ? size + fee : size;
+    const proceeds = feeInQuote ? quote - fee : quote;
+    let remaining = disposedSize;
+    let costBasis = 0;
+    let acquiredAt: number | null = null;
+    while (remaining > 1e-12 && lots.length > 0) {
+      const lot = lots[0];
+      const used = Math.min(lot.size, remaining);
+      costBasis += used * lot.unitCost;
+      acquiredAt = acquiredAt ?? lot.acquiredAt;
+      lot.size -= used;
+      remaining -= used;
+      if (lot.size <= 1e-12) lots.shift();
+    }
+    if (!reported) continue;
+
+    const matched = disposedSize - remaining;
+    const matchedProceeds = disposedSize > 0 ? proceeds * (matched / disposedSize) : 0;
+
+    disposals.push({
+      coin: fill.baseCoin,
+      symbol: fill.symbol,
+      tradeId: fill.tradeId,
+      disposedAt: fill.timestamp,
+      size: amount(disposedSize),
+      proceeds: proceeds.toFixed(8),
+      costBasis: costBasis.toFixed(8),
+      gain: (matchedProceeds - costBasis).toFixed(8),
+      acquiredAt,
+      holdingDays: acquiredAt !== null ? Math.floor((fill.timestamp - acquiredAt) / DAY_MS) : null,
+      unmatchedSize: amount(Math.max(remaining, 0)),
+    });
+  }
+
+  const holdings: FifoHolding[] = [];
+  for (const [symbol, { coin, lots }] of lotsBySymbol) {
+    const size = lots.reduce((sum, l) => sum + l.size, 0);
+    if (size <= 1e-12) continue;
+    const cost = lots.reduce((sum, l) => sum + l.size * l.unitCost, 0);
+    holdings.push({
+      coin,
+      symbol,
+      size: amount(size),
+      costBasis: cost.toFixed(8),
+      avgCost: (cost / size).toFixed(8),
+    });
+  }
+  holdings.sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  return { disposals, holdings, fees };
+}
+
+/**
+ * FIFO 报告 CSV：type=disposal 为每笔卖出，type=fee 为第三币种手续费（size 为手续费数量），
+ * type=holding 为期末未卖出持仓
+ */
+export function fifoReportToCsv(report: FifoReport): string {
+  return toCsv(
+    [
+      'type', 'coin', 'symbol', 'tradeId', 'disposedAt', 'acquiredAt', 'holdingDays',
+      'size', 'proceeds', 'costBasis', 'gain', 'unmatchedSize', 'avgCost',
+    ],
+    [
+      ...report.disposals.map(d => [
+        'disposal', d.coin, d.symbol, d.tradeId, isoTime(d.disposedAt), isoTime(d.acquiredAt), d.holdingDays,
+        d.size, d.proceeds, d.costBasis, d.gain, d.unmatchedSize, null,
+      ]),
+      ...report.fees.map(f => [
+        'fee', f.coin, f.symbol, f.tradeId, isoTime(f.chargedAt), null, null,
+        f.amount, null, null, null, null, null,
+      ]),
+      ...report.holdings.map(h => [
+        'holding', h.coin, h.symbol, null, null, null, null,
+        h.size, null, h.costBasis, null, null, h.avgCost,
+      ]),
+    ]
+  );
+}
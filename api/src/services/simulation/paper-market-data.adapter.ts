@@ -0,0 +1,85 @@
+/**
+ * 纸面交易行情适配器
+ * 每次取行情时从行情源（实时 / 回放）拉取最新 ticker 推送给 SimulatedExchange 撮合挂单，
+ * 再以撮合器视角返回行情，保证引擎看到的价格与成交判定一致
+ */
+
+import { IMarketDataService } from '../interfaces/i-market-data.service';
+import { InstrumentSpecService } from '../instrument-spec.service';
+import { SimulatedExchange, isSpecComplete } from './simulated-exchange';
+import { InstrumentSpec, UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('paper-market-data');
+
+/** 同一时间窗口内的重复取价复用上次结果（引擎常连续调用 getBestBid/getBestAsk） */
+const MIN_REFRESH_INTERVAL_MS = 100;
+
+export class PaperMarketDataAdapter implements IMarketDataService {
+  private lastRefreshAt = 0;
+  private specResolved = false;
+
+  constructor(
+    private readonly exchange: SimulatedExchange,
+    private readonly source: IMarketDataService,
+    private readonly specOverride?: Partial<InstrumentSpec>
+  ) {
+    if (isSpecComplete(specOverride)) {
+      this.specResolved = true;
+    }
+  }
+
+  async getTicker(symbol: string): Promise<UnifiedTickerInfo> {
+    await this.refresh(symbol);
+    return this.exchange.getTicker();
+  }
+
+  async getBestBid(symbol: string): Promise<string> {
+    await this.refresh(symbol);
+    return this.exchange.getTicker().bidPr;
+  }
+
+  async getBestAsk(symbol: string): Promise<string> {
+    await this.refresh(symbol);
+    return this.exchange.getTicker().askPr;
+  }
+
+  async getOrderBook(symbol: string, _depth?: number): Promise<UnifiedOrderBook> {
+    await this.refresh(symbol);
+    return this.exchange.getOrderBook();
+  }
+
+  private async refresh(symbol: string): Promise<void> {
+    if (!this.specResolved) {
+      await this.resolveSpec(symbol);
+    }
+
+    const now = Date.now();
+    if (this.exchange.getMarket() && now - this.lastRefreshAt < MIN_REFRESH_INTERVAL_MS) {
+      return;
+    }
+
+    const ticker = await this.source.getTicker(symbol);
+    const lastPr = parseFloat(ticker.lastPr);
+    this.exchange.updateMarket({
+      timestamp: parseInt(ticker.ts, 10) || now,
+      lastPr,
+      bidPr: parseFloat(ticker.bidPr) || lastPr,
+      askPr: parseFloat(ticker.askPr) || lastPr,
+    });
+    this.lastRefreshAt = now;
+  }
+
+  /**
+   * 首次取价时用交易所真实规格（精度/最小下单量/费率）替换默认规格，覆盖项优先
+   */
+  private async resolveSpec(symbol: string): Promise<void> {
+    this.specResolved = true;
+    try {
+      const spec = await InstrumentSpecService.getInstance().getSpec(symbol, this.exchange.tradingType);
+      this.exchange.updateSpec({ ...spec, ...this.specOverride });
+    } catch (error) {
+      logger.warn('获取交易对规格失败，纸面交易使用默认规格', { symbol, error: String(error) });
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * 回放行情服务
+ * 按墙钟时间（可倍速）推进录制的 tick 序列，实现 IMarketDataService
+ * 回放结束后停留在最后一个 tick
+ */
+
+import { IMarketDataService } from '../interfaces/i-market-data.service';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
+import { MarketTick } from '../../types/backtest.types';
+import { Clock, systemClock } from '../../utils/clock';
+import { AppError, ErrorCode } from '../../utils/errors';
+
+export class ReplayMarketDataService implements IMarketDataService {
+  private ticks: MarketTick[];
+  private speed: number;
+  private clock: Clock;
+  private startedAt: number | null = null;
+  private index = 0;
+
+  constructor(ticks: MarketTick[], speed = 1, clock: Clock = systemClock) {
+    if (ticks.length === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, '回放行情不能为空', undefined, 400);
+    }
+    this.ticks = [...ticks].sort((a, b) => a.timestamp - b.timestamp);
+    this.speed = speed > 0 ? speed : 1;
+    this.clock = clock;
+  }
+
+  async getTicker(symbol: string): Promise<UnifiedTickerInfo> {
+    const tick = this.currentTick();
+    return {
+      symbol,
+      lastPr: String(tick.lastPr),
+      bidPr: String(tick.bidPr),
+      askPr: String(tick.askPr),
+      bidSz: '0',
+      askSz: '0',
+      high24h: String(tick.lastPr),
+      low24h: String(tick.lastPr),
+      change24h: '0',
+      baseVolume: '0',
+      quoteVolume: '0',
+      ts: String(tick.timestamp),
+    };
+  }
+
+  async getBestBid(_symbol: string): Promise<string> {
+    return String(this.currentTick().bidPr);
+  }
+
+  async getBestAsk(_symbol: string): Promise<string> {
+    return String(this.currentTick().askPr);
+  }
+
+  /** 录制的 tick 只有最优买卖价，盘口只有一档且无挂单量 */
+  async getOrderBook(symbol: string, _depth?: number): Promise<UnifiedOrderBook> {
+    const tick = this.currentTick();
+    return {
+      symbol,
+      bids: [[String(tick.bidPr), '0']],
+      asks: [[String(tick.askPr), '0']],
+      ts: String(tick.timestamp),
+    };
+  }
+
+  /** 回放是否已到达最后一个 tick */
+  isFinished(): boolean {
+    return this.startedAt !== null && this.index >= this.ticks.length - 1;
+  }
+
+  private currentTick(): MarketTick {
+    const now = this.clock.now();
+    if (this.startedAt === null) {
+      this.startedAt = now;
+    }
+
+    const target = this.ticks[0].timestamp + (now - this.startedAt) * this.speed;
+    while (this.index + 1 < this.ticks.length && this.ticks[this.index + 1].timestamp <= target) {
+      this.index++;
+    }
+    return this.ticks[this.index];
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * 模拟账户适配器
+ * 将 SimulatedExchange 的资金记账包装为 IAccountService
+ */
+
+import { IAccountService } from '../interfaces/i-account.service';
+import { SimulatedExchange } from './simulated-exchange';
+import { UnifiedFundingPayment, UnifiedPosition } from '../../types/trading.types';
+
+export class SimulatedAccountAdapter implements IAccountService {
+  constructor(private readonly exchange: SimulatedExchange) {}
+
+  async getAvailableBalance(_marginCoin?: string): Promise<string> {
+    return this.exchange.getEquity().available;
+  }
+
+  async getAccountEquity(_marginCoin?: string): Promise<{
+    equity: string;
+    available: string;
+    unrealizedPL: string;
+  }> {
+    return this.exchange.getEquity();
+  }
+
+  async getFundingPayments(_symbol: string, _startTime: number): Promise<UnifiedFundingPayment[]> {
+    // 本地撮合不模拟资金费结算
+    return [];
+  }
+
+  async getPositions(_symbol: string): Promise<UnifiedPosition[]> {
+    return this.exchange.getPositions();
+  }
+}
@@ -0,0 +1,832 @@
+/**
+ * 模拟交易所（进程内撮合）
+ * 单交易对的限价/市价撮合 + 持仓/资金记账，供回测与模拟服务适配器使用
+ *
+ * 撮合模型:
+ *   - 挂单按行情最新成交价判定：穿越挂单价 → 全部成交（maker）；恰好触及 → 按 partialFillRatio 部分成交
+ *   - 与对手盘交叉的 post_only 限价单 → 交易所撤销（与 Bitget 行为一致，订单状态为 cancelled）
+ *   - 交叉的普通限价单 / 市价单 → 以对手价立即全部成交（taker）
+ *   - 手续费按 InstrumentSpec 的 makerFeeRate / takerFeeRate 计算，以计价币扣除
+ *   - 合约支持双向持仓（tradeSide open/close）与单向净持仓（无 tradeSide）
+ */
+
+import { AppError, ErrorCode } from '../../utils/errors';
+import { Clock } from '../../utils/clock';
+import {
+  TradingType,
+  InstrumentSpec,
+  UnifiedPlaceOrderParams,
+  UnifiedPlaceOrderResult,
+  UnifiedPendingOrder,
+  UnifiedOrderDetail,
+  UnifiedTickerInfo,
+  UnifiedOrderBook,
+  UnifiedTpslOrderParams,
+  UnifiedModifyTpslParams,
+  UnifiedTriggerOrderParams,
+  UnifiedModifyTriggerParams,
+  UnifiedPlanOrder,
+  UnifiedPosition,
+  PlanOrderCategory,
+} from '../../types/trading.types';
+import {
+  MarketTick,
+  SimulatedFill,
+  BacktestTrade,
+  SimulatedExchangeStats,
+  FillLiquidity,
+} from '../../types/backtest.types';
+
+const EPSILON = 1e-12;
+
+type PositionSide = 'long' | 'short';
+type SimOrderState = 'live' | 'partially_filled' | 'filled' | 'cancelled';
+
+interface SimOrder {
+  orderId: string;
+  clientOid: string;
+  side: 'buy' | 'sell';
+  orderType: 'limit' | 'market';
+  price: number;
+  size: number;
+  filledQty: number;
+  filledValue: number;
+  fee: number;
+  state: SimOrderState;
+  openSide: PositionSide | null;
+  closeSide: PositionSide | null;
+  createdAt: number;
+}
+
+type SimPlanState = 'live' | 'executed' | 'cancelled' | 'failed';
+
+interface SimPlanOrder {
+  orderId: string;
+  clientOid: string;
+  category: PlanOrderCategory;
+  planType: string;
+  side: 'buy' | 'sell';
+  /** 止盈止损所属仓位方向（触发单为 null） */
+  holdSide: PositionSide | null;
+  tradeSide?: string;
+  triggerPrice: number;
+  /** 0 表示市价执行 */
+  executePrice: number;
+  /** 0 表示整仓（仓位止盈止损） */
+  size: number;
+  /** true: 最新价 >= 触发价时触发；false: 最新价 <= 触发价时触发 */
+  triggerAbove: boolean;
+  state: SimPlanState;
+  createdAt: number;
+}
+
+interface SimPosition {
+  size: number;
+  avgPrice: number;
+  /** 尚未分摊到平仓交易的开仓手续费 */
+  openFees: number;
+}
+
+export interface SimulatedExchangeOptions {
+  symbol: string;
+  tradingType: TradingType;
+  spec: InstrumentSpec;
+  clock: Clock;
+  initialBalance: number;
+  partialFillRatio: number;
+  leverage: number;
+}
+
+/**
+ * 默认交易对规格（无法获取交易所规格时使用，费率取 Bitget 默认档位）
+ */
+export function buildDefaultSpec(symbol: string, tradingType: TradingType): InstrumentSpec {
+  const quoteCoin = symbol.endsWith('USDC') ? 'USDC' : 'USDT';
+  return {
+    tradingType,
+    symbol,
+    baseCoin: symbol.slice(0, symbol.length - quoteCoin.length),
+    quoteCoin,
+    pricePlace: 2,
+    volumePlace: 4,
+    minTradeNum: 0.0001,
+    sizeMultiplier: 0.0001,
+    makerFeeRate: 0.0002,
+    takerFeeRate: 0.0006,
+  };
+}
+
+/**
+ * 覆盖规格是否已包含撮合所需的全部字段（无需再向交易所查询）
+ */
+export function isSpecComplete(spec?: Partial<InstrumentSpec>): boolean {
+  return !!spec
+    && spec.pricePlace !== undefined
+    && spec.volumePlace !== undefined
+    && spec.minTradeNum !== undefined
+    && spec.makerFeeRate !== undefined
+    && spec.takerFeeRate !== undefined;
+}
+
+export class SimulatedExchange {
+  readonly symbol: string;
+  readonly tradingType: TradingType;
+  private spec: InstrumentSpec;
+
+  private clock: Clock;
+  private partialFillRatio: number;
+  private leverage: number;
+  private initialBalance: number;
+
+  private market: MarketTick | null = null;
+  private sessionHigh = 0;
+  private sessionLow = 0;
+  private orders: Map<string, SimOrder> = new Map();
+  private planOrders: Map<string, SimPlanOrder> = new Map();
+  private positions: Record<PositionSide, SimPosition> = {
+    long: { size: 0, avgPrice: 0, openFees: 0 },
+    short: { size: 0, avgPrice: 0, openFees: 0 },
+  };
+  /** 合约：钱包余额（初始 + 已实现 - 手续费）；现货：计价币余额 */
+  private cash: number;
+  private orderSeq = 0;
+
+  private fills: SimulatedFill[] = [];
+  private trades: BacktestTrade[] = [];
+  private stats = {
+    ordersPlaced: 0,
+    makerFills: 0,
+    takerFills: 0,
+    partialFills: 0,
+    postOnlyRejects: 0,
+    totalFees: 0,
+  };
+
+  constructor(options: SimulatedExchangeOptions) {
+    this.symbol = options.symbol;
+    this.tradingType = options.tradingType;
+    this.spec = options.spec;
+    this.clock = options.clock;
+    this.partialFillRatio = Math.min(Math.max(options.partialFillRatio, 0), 1);
+    this.leverage = options.leverage > 0 ? options.leverage : 1;
+    this.initialBalance = options.initialBalance;
+    this.cash = options.initialBalance;
+  }
+
+  getSpec(): InstrumentSpec {
+    return { ...this.spec };
+  }
+
+  /**
+   * 更新交易对规格（纸面交易在拿到交易所规格后替换默认值）
+   */
+  updateSpec(spec: InstrumentSpec): void {
+    this.spec = { ...spec, symbol: this.symbol, tradingType: this.tradingType };
+  }
+
+  // ============================================================
+  // 行情
+  // ============================================================
+
+  /**
+   * 推送新行情并撮合挂单
+   */
+  updateMarket(tick: MarketTick): void {
+    this.market = tick;
+    if (this.sessionHigh === 0 || tick.lastPr > this.sessionHigh) this.sessionHigh = tick.lastPr;
+    if (this.sessionLow === 0 || tick.lastPr < this.sessionLow) this.sessionLow = tick.lastPr;
+
+    this.triggerPlanOrders(tick);
+
+    const resting = Array.from(this.orders.values())
+      .filter(o => this.isOpen(o) && o.orderType === 'limit')
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const order of resting) {
+      this.matchResting(order, tick);
+    }
+  }
+
+  getMarket(): MarketTick | null {
+    return this.market;
+  }
+
+  getTicker(): UnifiedTickerInfo {
+    const market = this.requireMarket();
+    return {
+      symbol: this.symbol,
+      lastPr: this.formatPrice(market.lastPr),
+      bidPr: this.formatPrice(market.bidPr),
+      askPr: this.formatPrice(market.askPr),
+      bidSz: '0',
+      askSz: '0',
+      high24h: this.formatPrice(this.sessionHigh),
+      low24h: this.formatPrice(this.sessionLow),
+      change24h: '0',
+      baseVolume: '0',
+      quoteVolume: '0',
+      ts: String(market.timestamp),
+    };
+  }
+
+  /**
+   * 模拟盘口：回放行情只有最优买卖价，没有挂单量
+   */
+  getOrderBook(): UnifiedOrderBook {
+    const ticker = this.getTicker();
+    return {
+      symbol: this.symbol,
+      bids: [[ticker.bidPr, ticker.bidSz]],
+      asks: [[ticker.askPr, ticker.askSz]],
+      ts: ticker.ts,
+    };
+  }
+
+  // ============================================================
+  // 订单
+  // ============================================================
+
+  placeOrder(params: UnifiedPlaceOrderParams): UnifiedPlaceOrderResult {
+    const market = this.requireMarket();
+    const size = parseFloat(params.size);
+    if (!(size > 0) || size + EPSILON < this.spec.minTradeNum) {
+      throw new AppError(
+        ErrorCode.ORDER_INVALID_PARAMS,
+        `模拟撮合：下单数量 ${params.size} 小于最小下单量 ${this.spec.minTradeNum}`,
+        { size: params.size, minTradeNum: this.spec.minTradeNum },
+        400
+      );
+    }
+
+    const price = params.orderType === 'market'
+      ? (params.side === 'buy' ? market.askPr : market.bidPr)
+      : parseFloat(params.price || '');
+    if (!(price > 0)) {
+      throw new AppError(ErrorCode.ORDER_INVALID_PARAMS, '模拟撮合：限价单缺少有效价格', { price: params.price }, 400);
+    }
+
+    const { openSide, closeSide } = this.resolvePositionEffect(params.side, params.tradeSide);
+    this.assertCanPlace(params.side, size, price, openSide, closeSide);
+
+    const order: SimOrder = {
+      orderId: `sim_${++this.orderSeq}`,
+      clientOid: params.clientOid || `sim_client_${this.orderSeq}`,
+      side: params.side,
+      orderType: params.orderType,
+      price,
+      size,
+      filledQty: 0,
+      filledValue: 0,
+      fee: 0,
+      state: 'live',
+      openSide,
+      closeSide,
+      createdAt: this.clock.now(),
+    };
+    this.orders.set(order.orderId, order);
+    this.stats.ordersPlaced++;
+
+    const crossPrice = params.side === 'buy' ? market.askPr : market.bidPr;
+    const crosses = params.orderType === 'market'
+      || (params.side === 'buy' ? price >= crossPrice : price <= crossPrice);
+
+    if (crosses) {
+      if (params.orderType === 'limit' && params.force === 'post_only') {
+        order.state = 'cancelled';
+        this.stats.postOnlyRejects++;
+      } else {
+        this.fill(order, crossPrice, size, 'taker');
+      }
+    }
+
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  cancelOrder(orderId: string): void {
+    const order = this.requireOrder(orderId);
+    if (!this.isOpen(order)) {
+      throw new AppError(
+        ErrorCode.ORDER_CANCEL_FAILED,
+        `模拟撮合：订单已${order.state === 'filled' ? '成交' : '撤销'}，无法撤单`,
+        { orderId, state: order.state },
+        400
+      );
+    }
+    if (order.filledQty > EPSILON) {
+      this.stats.partialFills++;
+    }
+    order.state = 'cancelled';
+  }
+
+  getPendingOrders(): UnifiedPendingOrder[] {
+    return Array.from(this.orders.values())
+      .filter(o => this.isOpen(o))
+      .map(o => ({
+        symbol: this.symbol,
+        orderId: o.orderId,
+        clientOid: o.clientOid,
+        size: this.formatSize(o.size),
+        filledQty: this.formatSize(o.filledQty),
+        price: this.formatPrice(o.price),
+        side: o.side,
+        orderType: o.orderType,
+        cTime: String(o.createdAt),
+      }));
+  }
+
+  getOrderDetail(orderId: string): UnifiedOrderDetail {
+    const order = this.requireOrder(orderId);
+    return {
+      orderId: order.orderId,
+      clientOid: order.clientOid,
+      symbol: this.symbol,
+      size: this.formatSize(order.size),
+      filledQty: this.formatSize(order.filledQty),
+      price: this.formatPrice(order.price),
+      priceAvg: order.filledQty > 0 ? this.formatPrice(order.filledValue / order.filledQty) : '0',
+      fee: order.fee.toFixed(8),
+      side: order.side,
+      state: order.state,
+    };
+  }
+
+  // ============================================================
+  // 计划委托（止盈止损 / 触发单）
+  // ============================================================
+
+  placeTpslOrder(params: UnifiedTpslOrderParams): UnifiedPlaceOrderResult {
+    this.assertPlanOrdersSupported();
+    const holdSide: PositionSide = params.holdSide === 'long' || params.holdSide === 'buy' ? 'long' : 'short';
+    const wholePosition = params.planType === 'pos_profit' || params.planType === 'pos_loss';
+
+    if (wholePosition) {
+      if (this.positions[holdSide].size <= EPSILON) {
+        throw new AppError(ErrorCode.ORDER_INVALID_PARAMS, `模拟撮合：${holdSide} 无持仓，无法设置仓位止盈止损`, { holdSide }, 400);
+      }
+      const duplicate = Array.from(this.planOrders.values()).find(
+        p => p.state === 'live' && p.planType === params.planType && p.holdSide === holdSide
+      );
+      if (duplicate) {
+        throw new AppError(
+          ErrorCode.ORDER_INVALID_PARAMS,
+          `模拟撮合：${holdSide} 已存在 ${params.planType}`,
+          { orderId: duplicate.orderId },
+          400
+        );
+      }
+    }
+
+    const isLoss = params.planType === 'pos_loss' || params.planType === 'loss_plan';
+    return this.addPlanOrder({
+      clientOid: params.clientOid,
+      category: 'tpsl',
+      planType: params.planType,
+      side: holdSide === 'long' ? 'sell' : 'buy',
+      holdSide,
+      tradeSide: 'close',
+      triggerPrice: this.parsePlanPrice(params.triggerPrice, 'triggerPrice'),
+      executePrice: parseFloat(params.executePrice || '0') || 0,
+      size: wholePosition ? 0 : this.parsePlanSize(params.size),
+      // 多仓止损 / 空仓止盈在价格下跌时触发
+      triggerAbove: (holdSide === 'long') !== isLoss,
+    });
+  }
+
+  modifyTpslOrder(params: UnifiedModifyTpslParams): void {
+    const plan = this.requireLivePlan(params.orderId, 'tpsl');
+    plan.triggerPrice = this.parsePlanPrice(params.triggerPrice, 'triggerPrice');
+    plan.executePrice = parseFloat(params.executePrice || '0') || 0;
+    if (plan.size > 0 && params.size) {
+      plan.size = this.parsePlanSize(params.size);
+    }
+  }
+
+  placeTriggerOrder(params: UnifiedTriggerOrderParams): UnifiedPlaceOrderResult {
+    this.assertPlanOrdersSupported();
+    const market = this.requireMarket();
+    const triggerPrice = this.parsePlanPrice(params.triggerPrice, 'triggerPrice');
+    return this.addPlanOrder({
+      clientOid: params.clientOid,
+      category: 'trigger',
+      planType: 'normal_plan',
+      side: params.side,
+      holdSide: null,
+      tradeSide: params.tradeSide,
+      triggerPrice,
+      executePrice: params.orderType === 'limit' ? this.parsePlanPrice(params.price || '', 'price') : 0,
+      size: this.parsePlanSize(params.size),
+      triggerAbove: triggerPrice > market.lastPr,
+    });
+  }
+
+  modifyTriggerOrder(params: UnifiedModifyTriggerParams): void {
+    const plan = this.requireLivePlan(params.orderId, 'trigger');
+    if (params.triggerPrice) {
+      plan.triggerPrice = this.parsePlanPrice(params.triggerPrice, 'triggerPrice');
+      plan.triggerAbove = plan.triggerPrice > this.requireMarket().lastPr;
+    }
+    if (params.price && plan.executePrice > 0) {
+      plan.executePrice = this.parsePlanPrice(params.price, 'price');
+    }
+    if (params.size) {
+      plan.size = this.parsePlanSize(params.size);
+    }
+  }
+
+  cancelPlanOrder(orderId: string, category: PlanOrderCategory): void {
+    this.requireLivePlan(orderId, category).state = 'cancelled';
+  }
+
+  getPendingPlanOrders(category: PlanOrderCategory): UnifiedPlanOrder[] {
+    return Array.from(this.planOrders.values())
+      .filter(p => p.state === 'live' && p.category === category)
+      .map(p => ({
+        orderId: p.orderId,
+        clientOid: p.clientOid,
+        symbol: this.symbol,
+        category: p.category,
+        planType: p.planType,
+        side: p.side,
+        holdSide: p.holdSide || '',
+        triggerPrice: this.formatPrice(p.triggerPrice),
+        executePrice: p.executePrice > 0 ? this.formatPrice(p.executePrice) : '0',
+        size: p.size > 0 ? this.formatSize(p.size) : '0',
+        status: p.state,
+        cTime: String(p.createdAt),
+      }));
+  }
+
+  // ============================================================
+  // 账户
+  // ============================================================
+
+  getEquity(): { equity: string; available: string; unrealizedPL: string } {
+    const last = this.market?.lastPr ?? 0;
+    const unrealized = this.getUnrealizedPnl(last);
+
+    if (this.tradingType === 'spot') {
+      const equity = this.cash + this.positions.long.size * last;
+      return {
+        equity: equity.toFixed(4),
+        available: this.cash.toFixed(4),
+        unrealizedPL: unrealized.toFixed(4),
+      };
+    }
+
+    const equity = this.cash + unrealized;
+    const margin = (
+      this.positions.long.size * this.positions.long.avgPrice +
+      this.positions.short.size * this.positions.short.avgPrice
+    ) / this.leverage;
+    return {
+      equity: equity.toFixed(4),
+      available: Math.max(equity - margin, 0).toFixed(4),
+      unrealizedPL: unrealized.toFixed(4),
+    };
+  }
+
+  /** 合约持仓（现货没有仓位概念，返回空列表） */
+  getPositions(): UnifiedPosition[] {
+    if (this.tradingType === 'spot') return [];
+    const last = this.market?.lastPr ?? 0;
+    return (['long', 'short'] as PositionSide[])
+      .filter(side => this.positions[side].size > EPSILON)
+      .map(side => {
+        const pos = this.positions[side];
+        const reserved = Array.from(this.orders.values())
+          .filter(o => this.isOpen(o) && o.closeSide === side)
+          .reduce((sum, o) => sum + (o.size - o.filledQty), 0);
+        const unrealized = side === 'long' ? (last - pos.avgPrice) * pos.size : (pos.avgPrice - last) * pos.size;
+        return {
+          symbol: this.symbol,
+          holdSide: side,
+          total: this.formatSize(pos.size),
+          available: this.formatSize(Math.max(pos.size - reserved, 0)),
+          openPriceAvg: pos.avgPrice.toString(),
+          unrealizedPL: unrealized.toFixed(4),
+        };
+      });
+  }
+
+  getInitialBalance(): number {
+    return this.initialBalance;
+  }
+
+  getUnrealizedPnl(lastPrice = this.market?.lastPr ?? 0): number {
+    const { long, short } = this.positions;
+    return (lastPrice - long.avgPrice) * long.size + (short.avgPrice - lastPrice) * short.size;
+  }
+
+  getFills(): SimulatedFill[] {
+    return [...this.fills];
+  }
+
+  getTrades(): BacktestTrade[] {
+    return [...this.trades];
+  }
+
+  getStats(): SimulatedExchangeStats {
+    return {
+      ...this.stats,
+      totalFees: this.stats.totalFees.toFixed(4),
+    };
+  }
+
+  // ============================================================
+  // 撮合与记账
+  // ============================================================
+
+  /**
+   * 检查计划委托是否触发，触发后按市价（或执行价限价）下单
+   * 仓位止盈止损平掉整个仓位，并撤销该仓位上的其他平仓挂单（与交易所行为一致）
+   */
+  private triggerPlanOrders(tick: MarketTick): void {
+    const live = Array.from(this.planOrders.values())
+      .filter(p => p.state === 'live')
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const plan of live) {
+      const hit = plan.triggerAbove ? tick.lastPr >= plan.triggerPrice : tick.lastPr <= plan.triggerPrice;
+      if (!hit) continue;
+
+      let size = plan.size;
+      if (plan.holdSide) {
+        const position = this.positions[plan.holdSide];
+        if (position.size <= EPSILON) {
+          // 仓位已平，交易所会自动撤销该仓位的止盈止损
+          plan.state = 'cancelled';
+          continue;
+        }
+        if (size === 0) {
+          for (const order of this.orders.values()) {
+            if (this.isOpen(order) && order.closeSide === plan.holdSide) {
+              order.state = 'cancelled';
+            }
+          }
+          size = position.size;
+        }
+      }
+
+      try {
+        this.placeOrder({
+          symbol: this.symbol,
+          side: plan.side,
+          orderType: plan.executePrice > 0 ? 'limit' : 'market',
+          price: plan.executePrice > 0 ? this.formatPrice(plan.executePrice) : undefined,
+          size: this.formatSize(size),
+          tradeSide: plan.tradeSide,
+          clientOid: `${plan.clientOid}_exec`,
+        });
+        plan.state = 'executed';
+      } catch {
+        plan.state = 'failed';
+      }
+    }
+  }
+
+  private addPlanOrder(plan: Omit<SimPlanOrder, 'orderId' | 'clientOid' | 'state' | 'createdAt'> & { clientOid?: string }): UnifiedPlaceOrderResult {
+    const orderId = `sim_plan_${++this.orderSeq}`;
+    const order: SimPlanOrder = {
+      ...plan,
+      orderId,
+      clientOid: plan.clientOid || `sim_client_${this.orderSeq}`,
+      state: 'live',
+      createdAt: this.clock.now(),
+    };
+    this.planOrders.set(orderId, order);
+    return { orderId, clientOid: order.clientOid };
+  }
+
+  private requireLivePlan(orderId: string, category: PlanOrderCategory): SimPlanOrder {
+    const plan = this.planOrders.get(orderId);
+    if (!plan || plan.category !== category) {
+      throw new AppError(ErrorCode.ORDER_NOT_FOUND, `模拟撮合：计划委托不存在`, { orderId, category }, 404);
+    }
+    if (plan.state !== 'live') {
+      throw new AppError(ErrorCode.ORDER_CANCEL_FAILED, `模拟撮合：计划委托已结束 (${plan.state})`, { orderId, state: plan.state }, 400);
+    }
+    return plan;
+  }
+
+  private assertPlanOrdersSupported(): void {
+    if (this.tradingType === 'spot') {
+      throw new AppError(ErrorCode.PLAN_ORDER_NOT_SUPPORTED, '现货不支持止盈止损 / 触发单', undefined, 400);
+    }
+  }
+
+  private parsePlanPrice(value: string, field: string): number {
+    const price = parseFloat(value);
+    if (!(price > 0)) {
+      throw new AppError(ErrorCode.ORDER_INVALID_PARAMS, `模拟撮合：${field} 无效`, { [field]: value }, 400);
+    }
+    return price;
+  }
+
+  private parsePlanSize(value?: string): number {
+    const size = parseFloat(value || '');
+    if (!(size > 0)) {
+      throw new AppError(ErrorCode.ORDER_INVALID_PARAMS, '模拟撮合：计划委托数量无效', { size: value }, 400);
+    }
+    return size;
+  }
+
+  private matchResting(order: SimOrder, tick: MarketTick): void {
+    const tickSize = Math.pow(10, -this.spec.pricePlace);
+    const touched = Math.abs(tick.lastPr - order.price) < tickSize / 2;
+    const crossed = order.side === 'buy' ? tick.lastPr < order.price : tick.lastPr > order.price;
+    if (!crossed && !touched) return;
+
+    const remaining = order.size - order.filledQty;
+    let qty = remaining;
+    if (!crossed) {
+      qty = this.roundSize(remaining * this.partialFillRatio);
+      if (qty <= 0) return;
+      if (qty > remaining) qty = remaining;
+    }
+    this.fill(order, order.price, qty, 'maker');
+  }
+
+  private fill(order: SimOrder, price: number, requestedQty: number, liquidity: FillLiquidity): void {
+    let qty = requestedQty;
+    if (order.closeSide) {
+      // 平仓单不能超过实际持仓（持仓可能已被其他路径减少）
+      qty = Math.min(qty, this.positions[order.closeSide].size);
+      if (qty <= EPSILON) {
+        order.state = 'cancelled';
+        return;
+      }
+    }
+
+    const notional = price * qty;
+    const feeRate = liquidity === 'maker' ? this.spec.makerFeeRate : this.spec.takerFeeRate;
+    const fee = notional * feeRate;
+    order.fee += fee;
+    this.cash -= fee;
+    this.stats.totalFees += fee;
+    if (liquidity === 'maker') {
+      this.stats.makerFills++;
+    } else {
+      this.stats.takerFills++;
+    }
+
+    if (order.openSide) {
+      const pos = this.positions[order.openSide];
+      pos.avgPrice = (pos.avgPrice * pos.size + notional) / (pos.size + qty);
+      pos.size += qty;
+      pos.openFees += fee;
+      if (this.tradingType === 'spot') {
+        this.cash -= notional;
+      }
+    }
+
+    if (order.closeSide) {
+      const pos = this.positions[order.closeSide];
+      const grossPnl = order.closeSide === 'long'
+        ? (price - pos.avgPrice) * qty
+        : (pos.avgPrice - price) * qty;
+      const entryFee = pos.openFees * (qty / pos.size);
+      const entryPrice = pos.avgPrice;
+
+      pos.openFees -= entryFee;
+      pos.size -= qty;
+      if (pos.size <= EPSILON) {
+        pos.size = 0;
+        pos.avgPrice = 0;
+        pos.openFees = 0;
+      }
+      this.cash += this.tradingType === 'spot' ? notional : grossPnl;
+
+      const totalFee = entryFee + fee;
+      this.trades.push({
+        direction: order.closeSide,
+        entryPrice: this.formatPrice(entryPrice),
+        exitPrice: this.formatPrice(price),
+        size: this.formatSize(qty),
+        grossPnl: grossPnl.toFixed(4),
+        fee: totalFee.toFixed(4),
+        netPnl: (grossPnl - totalFee).toFixed(4),
+        exitOrderId: order.orderId,
+        closedAt: this.clock.now(),
+      });
+    }
+
+    order.filledQty += qty;
+    order.filledValue += notional;
+    order.state = order.size - order.filledQty <= EPSILON ? 'filled' : 'partially_filled';
+
+    this.fills.push({
+      orderId: order.orderId,
+      side: order.side,
+      price: this.formatPrice(price),
+      size: this.formatSize(qty),
+      fee: fee.toFixed(6),
+      liquidity,
+      timestamp: this.clock.now(),
+    });
+  }
+
+  /**
+   * 根据买卖方向与 tradeSide 推断开/平仓效果
+   * 现货：买入开多、卖出平多；合约无 tradeSide 时按单向净持仓处理
+   */
+  private resolvePositionEffect(
+    side: 'buy' | 'sell',
+    tradeSide?: string
+  ): { openSide: PositionSide | null; closeSide: PositionSide | null } {
+    if (this.tradingType === 'spot') {
+      return side === 'buy'
+        ? { openSide: 'long', closeSide: null }
+        : { openSide: null, closeSide: 'long' };
+    }
+
+    if (tradeSide === 'open') {
+      return { openSide: side === 'buy' ? 'long' : 'short', closeSide: null };
+    }
+    if (tradeSide === 'close') {
+      return { openSide: null, closeSide: side === 'buy' ? 'short' : 'long' };
+    }
+
+    const opposite: PositionSide = side === 'buy' ? 'short' : 'long';
+    if (this.positions[opposite].size > EPSILON) {
+      return { openSide: null, closeSide: opposite };
+    }
+    return { openSide: side === 'buy' ? 'long' : 'short', closeSide: null };
+  }
+
+  private assertCanPlace(
+    side: 'buy' | 'sell',
+    size: number,
+    price: number,
+    openSide: PositionSide | null,
+    closeSide: PositionSide | null
+  ): void {
+    if (closeSide) {
+      const reserved = Array.from(this.orders.values())
+        .filter(o => this.isOpen(o) && o.closeSide === closeSide)
+        .reduce((sum, o) => sum + (o.size - o.filledQty), 0);
+      const closable = this.positions[closeSide].size - reserved;
+      if (size > closable + EPSILON) {
+        const isSpot = this.tradingType === 'spot';
+        throw new AppError(
+          isSpot ? ErrorCode.INSUFFICIENT_FUNDS : ErrorCode.ORDER_SUBMIT_FAILED,
+          isSpot ? '模拟撮合：可用币数量不足' : '模拟撮合：可平仓位不足 (22002)',
+          { side, size, closable, data: { code: isSpot ? '43012' : '22002' } },
+          400
+        );
+      }
+      return;
+    }
+
+    if (openSide) {
+      const { available } = this.getEquity();
+      const required = this.tradingType === 'spot'
+        ? price * size * (1 + this.spec.takerFeeRate)
+        : (price * size) / this.leverage;
+      if (required > parseFloat(available) + EPSILON) {
+        throw new AppError(
+          ErrorCode.INSUFFICIENT_FUNDS,
+          '模拟撮合：可用余额不足',
+          { side, required: required.toFixed(4), available, data: { code: '43012' } },
+          400
+        );
+      }
+    }
+  }
+
+  private isOpen(order: SimOrder): boolean {
+    return order.state === 'live' || order.state === 'partially_filled';
+  }
+
+  private requireMarket(): MarketTick {
+    if (!this.market) {
+      throw new AppError(ErrorCode.ORDER_SUBMIT_FAILED, '模拟撮合：行情尚未就绪', undefined, 503);
+    }
+    return this.market;
+  }
+
+  private requireOrder(orderId: string): SimOrder {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new AppError(
+        ErrorCode.ORDER_NOT_FOUND,
+        `模拟撮合：订单不存在 (40109)`,
+        { orderId, data: { code: '40109' } },
+        404
+      );
+    }
+    return order;
+  }
+
+  private roundSize(value: number): number {
+    const factor = Math.pow(10, this.spec.volumePlace);
+    return Math.floor(value * factor + 1e-9) / factor;
+  }
+
+  private formatPrice(value: number): string {
+    return value.toFixed(this.spec.pricePlace);
+  }
+
+  private formatSize(value: number): string {
+    return value.toFixed(this.spec.volumePlace);
+  }
+}
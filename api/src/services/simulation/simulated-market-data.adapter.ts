@@ -0,0 +1,28 @@
+/**
+ * 模拟行情适配器
+ * 将 SimulatedExchange 当前回放行情包装为 IMarketDataService
+ */
+
+import { IMarketDataService } from '../interfaces/i-market-data.service';
+import { SimulatedExchange } from './simulated-exchange';
+import { UnifiedTickerInfo, UnifiedOrderBook } from '../../types/trading.types';
+
+export class SimulatedMarketDataAdapter implements IMarketDataService {
+  constructor(private readonly exchange: SimulatedExchange) {}
+
+  async getTicker(_symbol: string): Promise<UnifiedTickerInfo> {
+    return this.exchange.getTicker();
+  }
+
+  async getBestBid(_symbol: string): Promise<string> {
+    return this.exchange.getTicker().bidPr;
+  }
+
+  async getBestAsk(_symbol: string): Promise<string> {
+    return this.exchange.getTicker().askPr;
+  }
+
+  async getOrderBook(_symbol: string, _depth?: number): Promise<UnifiedOrderBook> {
+    return this.exchange.getOrderBook();
+  }
+}
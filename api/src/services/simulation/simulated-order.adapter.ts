@@ -0,0 +1,86 @@
+/**
+ * 模拟订单适配器
+ * 将 SimulatedExchange 包装为 IOrderService
+ */
+
+import { IOrderService } from '../interfaces/i-order.service';
+import { SimulatedExchange } from './simulated-exchange';
+import {
+  UnifiedPlaceOrderParams,
+  UnifiedPlaceOrderResult,
+  UnifiedCancelOrderParams,
+  UnifiedBatchCancelParams,
+  UnifiedBatchCancelResult,
+  UnifiedPendingOrder,
+  UnifiedOrderDetail,
+  UnifiedTpslOrderParams,
+  UnifiedModifyTpslParams,
+  UnifiedTriggerOrderParams,
+  UnifiedModifyTriggerParams,
+  UnifiedCancelPlanParams,
+  UnifiedPlanOrder,
+  PlanOrderCategory,
+} from '../../types/trading.types';
+import { AppError } from '../../utils/errors';
+
+export class SimulatedOrderAdapter implements IOrderService {
+  constructor(private readonly exchange: SimulatedExchange) {}
+
+  async placeOrder(params: UnifiedPlaceOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.exchange.placeOrder(params);
+  }
+
+  async cancelOrder(params: UnifiedCancelOrderParams): Promise<void> {
+    this.exchange.cancelOrder(params.orderId);
+  }
+
+  async batchCancelOrders(params: UnifiedBatchCancelParams): Promise<UnifiedBatchCancelResult> {
+    const result: UnifiedBatchCancelResult = { successList: [], failureList: [] };
+    for (const { orderId } of params.orderIdList) {
+      try {
+        this.exchange.cancelOrder(orderId);
+        result.successList.push({ orderId, clientOid: '' });
+      } catch (error) {
+        result.failureList.push({
+          orderId,
+          clientOid: '',
+          errorMsg: error instanceof Error ? error.message : String(error),
+          errorCode: error instanceof AppError ? error.code : 'UNKNOWN',
+        });
+      }
+    }
+    return result;
+  }
+
+  async getPendingOrders(_symbol: string): Promise<UnifiedPendingOrder[]> {
+    return this.exchange.getPendingOrders();
+  }
+
+  async getOrderDetail(_symbol: string, orderId: string): Promise<UnifiedOrderDetail> {
+    return this.exchange.getOrderDetail(orderId);
+  }
+
+  async placeTpslOrder(params: UnifiedTpslOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.exchange.placeTpslOrder(params);
+  }
+
+  async modifyTpslOrder(params: UnifiedModifyTpslParams): Promise<void> {
+    this.exchange.modifyTpslOrder(params);
+  }
+
+  async placeTriggerOrder(params: UnifiedTriggerOrderParams): Promise<UnifiedPlaceOrderResult> {
+    return this.exchange.placeTriggerOrder(params);
+  }
+
+  async modifyTriggerOrder(params: UnifiedModifyTriggerParams): Promise<void> {
+    this.exchange.modifyTriggerOrder(params);
+  }
+
+  async cancelPlanOrder(params: UnifiedCancelPlanParams): Promise<void> {
+    this.exchange.cancelPlanOrder(params.orderId, params.category);
+  }
+
+  async getPendingPlanOrders(_symbol: string, category: PlanOrderCategory): Promise<UnifiedPlanOrder[]> {
+    return this.exchange.getPendingPlanOrders(category);
+  }
+}
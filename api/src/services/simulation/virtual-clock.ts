@@ -0,0 +1,79 @@
+/**
+ * 虚拟时钟
+ * 回测时替代系统时钟：定时器按虚拟时间排序，由回放驱动 advanceTo() 推进
+ * 每执行一个回调后让出事件循环，使引擎的 async 续体（await 模拟服务）跑完再处理下一个定时器
+ */
+
+import { Clock, TimerHandle } from '../../utils/clock';
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  seq: number;
+  callback: () => void;
+}
+
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId = 1;
+  private seq = 0;
+
+  constructor(startTime: number) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      dueAt: this.current + Math.max(0, ms),
+      seq: this.seq++,
+      callback,
+    });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * 推进虚拟时间到 target，按到期顺序执行所有到期定时器
+   */
+  async advanceTo(target: number): Promise<void> {
+    for (;;) {
+      const next = this.peekDue(target);
+      if (!next) break;
+      this.timers.delete(next.id);
+      this.current = Math.max(this.current, next.dueAt);
+      next.callback();
+      await this.flush();
+    }
+    this.current = Math.max(this.current, target);
+  }
+
+  /** 让出事件循环，执行完所有已就绪的微任务 */
+  async flush(): Promise<void> {
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+
+  get pendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  private peekDue(target: number): VirtualTimer | null {
+    let best: VirtualTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.dueAt > target) continue;
+      if (!best || timer.dueAt < best.dueAt || (timer.dueAt === best.dueAt && timer.seq < best.seq)) {
+        best = timer;
+      }
+    }
+    return best;
+  }
+}
@@ -5,10 +5,29 @@
 
 import { getPool } from '../config/database';
 import { createLogger } from '../utils/logger';
-import { TrackedOrder, BaseStrategyConfig, AnyStrategyConfig } from '../types/strategy.types';
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
+import {
+  TrackedOrder,
+  BaseStrategyConfig,
+  AnyStrategyConfig,
+  PnlLedgerEntry,
+  StrategyEvent,
+  StrategyEventType,
+  StrategyEventQuery,
+  StrategyEventPage,
+  StrategyResumeReport,
+  PersistedStrategyInstance,
+  PersistedRegimeSupervisor,
+  RegimeSupervisorState,
+  TrackedOrderStatus,
+} from '../types/strategy.types';
+import { MergeLineageEntry } from '../types/trade-journal.types';
 
 const logger = createLogger('strategy-persistence');
 
+const DEFAULT_EVENT_PAGE_SIZE = 50;
+const MAX_EVENT_PAGE_SIZE = 1000;
+
 export class StrategyPersistenceService {
   private static instance: StrategyPersistenceService | null = null;
 
@@ -23,24 +42,29 @@ export class StrategyPersistenceService {
 
   /**
    * 持久化新订单（异步，不阻塞）
+   * 合并出场单一并写入合并来源
    */
   persistNewOrder(
     order: TrackedOrder,
     symbol: string,
     productType: string,
-    marginCoin: string
+    marginCoin: string,
+    instanceId: string,
+    mergeLineage?: MergeLineageEntry[]
   ): void {
     this.runAsync(async () => {
       const pool = getPool();
       await pool.query(
         `INSERT INTO strategy_orders
-          (order_id, client_oid, side, price, size, status, linked_order_id, direction, symbol, product_type, margin_coin, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, to_timestamp($12 / 1000.0))
+          (order_id, client_oid, side, price, size, status, linked_order_id, direction, symbol, product_type, margin_coin,
+           instance_id, created_at, merge_lineage)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, to_timestamp($13 / 1000.0), $14)
          ON CONFLICT (order_id) DO NOTHING`,
         [
           order.orderId, order.clientOid, order.side, order.price, order.size,
           order.status, order.linkedOrderId, order.direction,
-          symbol, productType, marginCoin, order.createdAt,
+          symbol, productType, marginCoin, instanceId, order.createdAt,
+          mergeLineage ? JSON.stringify(mergeLineage) : null,
         ]
       );
     }, 'persistNewOrder');
@@ -81,26 +105,140 @@ export class StrategyPersistenceService {
   }
 
   /**
-   * 持久化已实现盈亏（异步，UPSERT 按日期 + 策略类型聚合）
+   * 持久化 PnL 账本条目（异步）
+   * 明细写入 strategy_pnl_ledger，同时按日期 + 策略类型累加到每日汇总
    */
-  persistRealizedPnl(pnl: number, fee: number, isWin: boolean, strategyType = 'scalping'): void {
+  persistLedgerEntry(entry: PnlLedgerEntry, instanceId: string, strategyType: string, symbol: string): void {
     this.runAsync(async () => {
       const pool = getPool();
+      const { rowCount } = await pool.query(
+        `INSERT INTO strategy_pnl_ledger
+          (instance_id, strategy_type, symbol, entry_type, direction, entry_order_id, exit_order_id,
+           entry_price, exit_price, size, gross_pnl, fee, funding, net_pnl, bill_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, to_timestamp($16 / 1000.0))
+         ON CONFLICT DO NOTHING`,
+        [
+          instanceId, strategyType, symbol, entry.type, entry.direction || null,
+          entry.entryOrderId || null, entry.exitOrderId || null,
+          entry.entryPrice || null, entry.exitPrice || null, entry.size || null,
+          entry.grossPnl, entry.fee, entry.funding, entry.netPnl, entry.billId || null,
+          entry.timestamp,
+        ]
+      );
+      // 资金费账单重复（已入账）时不再累加每日汇总
+      if (rowCount === 0) return;
+
       const today = new Date().toISOString().split('T')[0];
+      if (entry.type === 'funding') {
+        await pool.query(
+          `INSERT INTO strategy_daily_pnl (date, funding, strategy_type, updated_at)
+           VALUES ($1, $2, $3, NOW())
+           ON CONFLICT (date, strategy_type) DO UPDATE SET
+             funding = strategy_daily_pnl.funding + EXCLUDED.funding,
+             updated_at = NOW()`,
+          [today, entry.funding, strategyType]
+        );
+        return;
+      }
 
+      const netPnl = parseFloat(entry.netPnl);
       await pool.query(
-        `INSERT INTO strategy_daily_pnl (date, realized_pnl, total_trades, win_trades, loss_trades, fees, strategy_type, updated_at)
-         VALUES ($1, $2, 1, $3, $4, $5, $6, NOW())
+        `INSERT INTO strategy_daily_pnl
+           (date, realized_pnl, gross_pnl, total_trades, win_trades, loss_trades, fees, strategy_type, updated_at)
+         VALUES ($1, $2, $3, 1, $4, $5, $6, $7, NOW())
          ON CONFLICT (date, strategy_type) DO UPDATE SET
            realized_pnl = strategy_daily_pnl.realized_pnl + EXCLUDED.realized_pnl,
+           gross_pnl = strategy_daily_pnl.gross_pnl + EXCLUDED.gross_pnl,
            total_trades = strategy_daily_pnl.total_trades + 1,
            win_trades = strategy_daily_pnl.win_trades + EXCLUDED.win_trades,
            loss_trades = strategy_daily_pnl.loss_trades + EXCLUDED.loss_trades,
            fees = strategy_daily_pnl.fees + EXCLUDED.fees,
            updated_at = NOW()`,
-        [today, pnl, isWin ? 1 : 0, isWin ? 0 : 1, fee, strategyType]
+        [today, entry.netPnl, entry.grossPnl, netPnl > 0 ? 1 : 0, netPnl > 0 ? 0 : 1, entry.fee, strategyType]
       );
-    }, 'persistRealizedPnl');
+    }, 'persistLedgerEntry');
+  }
+
+  /**
+   * 持久化策略事件（异步）
+   * accountIds 为事件涉及的交易账户（未指定的视为默认账户），查询时用户须有权访问其中全部账户
+   */
+  persistEvent(
+    event: StrategyEvent,
+    instanceId: string,
+    strategyType: string,
+    symbol: string,
+    accountIds: Array<string | undefined>
+  ): void {
+    const accounts = [...new Set(accountIds.map(id => id || DEFAULT_ACCOUNT_ID))];
+    this.runAsync(async () => {
+      const pool = getPool();
+      await pool.query(
+        `INSERT INTO strategy_events (event_type, data, instance_id, strategy_type, symbol, account_ids, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0))`,
+        [event.type, JSON.stringify(event.data), instanceId, strategyType, symbol, accounts, event.timestamp]
+      );
+    }, 'persistEvent');
+  }
+
+  /**
+   * 查询事件历史：按 id 倒序，游标为上一页最后一条的 id
+   */
+  async queryEvents(query: StrategyEventQuery): Promise<StrategyEventPage> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let idx = 1;
+
+    if (query.instanceId) {
+      conditions.push(`instance_id = $${idx++}`);
+      values.push(query.instanceId);
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`event_type = ANY($${idx++})`);
+      values.push(query.types);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push(`created_at >= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push(`created_at <= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.endTime);
+    }
+    if (query.cursor) {
+      conditions.push(`id < $${idx++}`);
+      values.push(query.cursor);
+    }
+    if (query.accountIds) {
+      conditions.push(`account_ids <@ $${idx++}::text[]`);
+      values.push(query.accountIds);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(query.limit || DEFAULT_EVENT_PAGE_SIZE, 1), MAX_EVENT_PAGE_SIZE);
+
+    // 多取一条判断是否还有下一页
+    const { rows } = await getPool().query(
+      `SELECT id, event_type, data, instance_id, strategy_type, symbol, created_at
+       FROM strategy_events ${where}
+       ORDER BY id DESC
+       LIMIT $${idx}`,
+      [...values, limit + 1]
+    );
+
+    const page = rows.slice(0, limit);
+    return {
+      events: page.map(row => ({
+        id: String(row.id),
+        type: row.event_type as StrategyEventType,
+        timestamp: new Date(row.created_at).getTime(),
+        data: row.data || {},
+        instanceId: row.instance_id,
+        strategyType: row.strategy_type,
+        symbol: row.symbol,
+      })),
+      nextCursor: rows.length > limit ? String(page[page.length - 1].id) : null,
+    };
   }
 
   /**
@@ -139,36 +277,183 @@ export class StrategyPersistenceService {
   }
 
   /**
-   * 加载 pending 订单（重启恢复）
+   * 加载未结订单（pending / partially_filled，重启恢复）
    */
   async loadPendingOrders(symbol: string, productType: string): Promise<TrackedOrder[]> {
-    try {
-      const pool = getPool();
-      const { rows } = await pool.query(
-        `SELECT order_id, client_oid, side, price, size, status,
-                linked_order_id, direction, created_at, filled_at
-         FROM strategy_orders
-         WHERE status = 'pending' AND symbol = $1 AND product_type = $2
-         ORDER BY created_at`,
-        [symbol, productType]
+    const { rows } = await getPool().query(
+      `SELECT order_id, client_oid, side, price, size, status,
+              linked_order_id, direction, created_at, filled_at
+       FROM strategy_orders
+       WHERE status IN ('pending', 'partially_filled') AND symbol = $1 AND product_type = $2
+       ORDER BY created_at`,
+      [symbol, productType]
+    );
+    return rows.map(row => this.toTrackedOrder(row));
+  }
+
+  /**
+   * 按订单 ID 加载订单（任意状态，用于找回出场单关联的入场单）
+   */
+  async loadOrdersByIds(orderIds: string[]): Promise<TrackedOrder[]> {
+    if (orderIds.length === 0) return [];
+    const { rows } = await getPool().query(
+      `SELECT order_id, client_oid, side, price, size, status,
+              linked_order_id, direction, created_at, filled_at
+       FROM strategy_orders
+       WHERE order_id = ANY($1)`,
+      [orderIds]
+    );
+    return rows.map(row => this.toTrackedOrder(row));
+  }
+
+  /**
+   * 按订单 ID 加载合并来源（重启恢复合并出场单），无来源的订单不在结果中
+   */
+  async loadMergeLineage(orderIds: string[]): Promise<Map<string, MergeLineageEntry[]>> {
+    if (orderIds.length === 0) return new Map();
+    const { rows } = await getPool().query<{ order_id: string; merge_lineage: MergeLineageEntry[] }>(
+      `SELECT order_id, merge_lineage
+       FROM strategy_orders
+       WHERE order_id = ANY($1) AND merge_lineage IS NOT NULL`,
+      [orderIds]
+    );
+    return new Map(rows.map(row => [row.order_id, row.merge_lineage]));
+  }
+
+  /**
+   * 保存实例运行状态（异步）：启动时写入配置并标记 RUNNING，停止时标记 STOPPED
+   */
+  saveInstanceState(config: BaseStrategyConfig | AnyStrategyConfig, status: 'RUNNING' | 'STOPPED'): void {
+    this.runAsync(async () => {
+      await getPool().query(
+        `INSERT INTO strategy_instances
+           (instance_id, strategy_type, trading_type, symbol, config, status, started_at, stopped_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+         ON CONFLICT (instance_id) DO UPDATE SET
+           strategy_type = EXCLUDED.strategy_type,
+           trading_type = EXCLUDED.trading_type,
+           symbol = EXCLUDED.symbol,
+           config = EXCLUDED.config,
+           status = EXCLUDED.status,
+           started_at = COALESCE(EXCLUDED.started_at, strategy_instances.started_at),
+           stopped_at = COALESCE(EXCLUDED.stopped_at, strategy_instances.stopped_at),
+           updated_at = NOW()`,
+        [
+          config.instanceId, config.strategyType, config.tradingType, config.symbol,
+          JSON.stringify(config), status,
+          status === 'RUNNING' ? new Date() : null,
+          status === 'STOPPED' ? new Date() : null,
+        ]
       );
+    }, 'saveInstanceState');
+  }
 
-      return rows.map(row => ({
-        orderId: row.order_id,
-        clientOid: row.client_oid || '',
-        side: row.side as 'buy' | 'sell',
-        price: String(row.price),
-        size: String(row.size),
-        status: 'pending' as const,
-        linkedOrderId: row.linked_order_id,
-        direction: row.direction || 'long',
-        createdAt: new Date(row.created_at).getTime(),
-        filledAt: row.filled_at ? new Date(row.filled_at).getTime() : null,
-      }));
-    } catch (error) {
-      logger.error('加载 pending 订单失败', { error: String(error) });
-      return [];
-    }
+  /**
+   * 更新实例运行状态（异步，实例记录不存在时忽略）
+   */
+  saveInstanceStatus(instanceId: string, status: 'RUNNING' | 'STOPPED'): void {
+    this.runAsync(async () => {
+      await getPool().query(
+        `UPDATE strategy_instances SET
+           status = $2,
+           stopped_at = COALESCE($3, stopped_at),
+           updated_at = NOW()
+         WHERE instance_id = $1`,
+        [instanceId, status, status === 'STOPPED' ? new Date() : null]
+      );
+    }, 'saveInstanceStatus');
+  }
+
+  /**
+   * 加载上次停机前仍在运行的实例
+   */
+  async loadRunningInstances(): Promise<PersistedStrategyInstance[]> {
+    const { rows } = await getPool().query(
+      `SELECT instance_id, strategy_type, trading_type, symbol, config, status
+       FROM strategy_instances
+       WHERE status = 'RUNNING'
+       ORDER BY started_at`
+    );
+    return rows.map(row => ({
+      instanceId: row.instance_id,
+      strategyType: row.strategy_type,
+      tradingType: row.trading_type,
+      symbol: row.symbol,
+      config: row.config,
+      status: row.status,
+    }));
+  }
+
+  /**
+   * 保存重启恢复报告（异步）
+   */
+  saveResumeReport(report: StrategyResumeReport): void {
+    this.runAsync(async () => {
+      await getPool().query(
+        `UPDATE strategy_instances SET last_resume_report = $2, updated_at = NOW() WHERE instance_id = $1`,
+        [report.instanceId, JSON.stringify(report)]
+      );
+    }, 'saveResumeReport');
+  }
+
+  /**
+   * 保存市场状态监管状态（异步）：配置、运行标记、当前模式与受监管实例
+   */
+  saveSupervisorState(state: RegimeSupervisorState): void {
+    this.runAsync(async () => {
+      await getPool().query(
+        `INSERT INTO regime_supervisors
+           (supervisor_id, symbol, config, status, mode, active_instance_id, mode_since, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+         ON CONFLICT (supervisor_id) DO UPDATE SET
+           symbol = EXCLUDED.symbol,
+           config = EXCLUDED.config,
+           status = EXCLUDED.status,
+           mode = EXCLUDED.mode,
+           active_instance_id = EXCLUDED.active_instance_id,
+           mode_since = EXCLUDED.mode_since,
+           updated_at = NOW()`,
+        [
+          state.supervisorId, state.config.symbol, JSON.stringify(state.config),
+          state.running ? 'RUNNING' : 'STOPPED',
+          state.mode, state.activeInstanceId,
+          state.modeSince ? new Date(state.modeSince) : null,
+        ]
+      );
+    }, 'saveSupervisorState');
+  }
+
+  /**
+   * 加载上次停机前仍在运行的市场状态监管
+   */
+  async loadRunningSupervisors(): Promise<PersistedRegimeSupervisor[]> {
+    const { rows } = await getPool().query(
+      `SELECT config, mode, active_instance_id, mode_since
+       FROM regime_supervisors
+       WHERE status = 'RUNNING'
+       ORDER BY updated_at`
+    );
+    return rows.map(row => ({
+      config: row.config,
+      mode: row.mode || null,
+      activeInstanceId: row.active_instance_id || null,
+      modeSince: row.mode_since ? new Date(row.mode_since).getTime() : null,
+    }));
+  }
+
+  private toTrackedOrder(row: Record<string, unknown>): TrackedOrder {
+    return {
+      orderId: row.order_id as string,
+      clientOid: (row.client_oid as string) || '',
+      side: row.side as 'buy' | 'sell',
+      price: String(row.price),
+      size: String(row.size),
+      status: row.status as TrackedOrderStatus,
+      linkedOrderId: (row.linked_order_id as string) || null,
+      direction: (row.direction as TrackedOrder['direction']) || 'long',
+      createdAt: new Date(row.created_at as string).getTime(),
+      filledAt: row.filled_at ? new Date(row.filled_at as string).getTime() : null,
+    };
   }
 
   /**
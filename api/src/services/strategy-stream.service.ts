@@ -0,0 +1,175 @@
+/**
+ * 策略实时推送服务（Singleton）
+ * 汇聚各策略实例的引擎事件，向 /api/stream 订阅者广播事件、状态、订单与 PnL
+ * 状态/订单/PnL 快照按实例合并，每秒最多推送一次；运行中实例另有定时 PnL 心跳（未实现盈亏随行情变化）
+ * 每条消息带实例所属 accountId，订阅方据此按用户授权过滤（实例移除后仍保留，避免残留消息失去归属）
+ */
+
+import { IStrategy } from '../strategy/interfaces/i-strategy';
+import { summarizeOrders } from '../strategy/order-state-tracker';
+import { StrategyEvent, StrategyStreamMessage, StrategyStreamMessageType } from '../types/strategy.types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('strategy-stream');
+
+const FLUSH_INTERVAL_MS = 1000;
+const PNL_TICK_INTERVAL_MS = 5000;
+
+export interface StreamSubscriber {
+  send(message: StrategyStreamMessage): void;
+  /** 服务关闭时调用，订阅方应结束连接 */
+  close(): void;
+}
+
+interface AttachedStrategy {
+  strategy: IStrategy;
+  unsubscribe: () => void;
+}
+
+export class StrategyStreamService {
+  private static instance: StrategyStreamService | null = null;
+
+  private strategies: Map<string, AttachedStrategy> = new Map();
+  private accountIds: Map<string, string | undefined> = new Map();
+  private subscribers: Set<StreamSubscriber> = new Set();
+  private dirtyInstances: Set<string> = new Set();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private lastPnlTickAt = 0;
+
+  private constructor() {}
+
+  static getInstance(): StrategyStreamService {
+    if (!StrategyStreamService.instance) {
+      StrategyStreamService.instance = new StrategyStreamService();
+    }
+    return StrategyStreamService.instance;
+  }
+
+  /**
+   * 接入策略实例的事件流（同一 instanceId 重复接入时替换旧实例）
+   * 启动前接入时实例尚无配置，需显式传入 accountId
+   */
+  attach(strategy: IStrategy, accountId = strategy.getState().config?.accountId): void {
+    this.detach(strategy.instanceId);
+    this.accountIds.set(strategy.instanceId, accountId);
+    const unsubscribe = strategy.onEvent(event => this.handleEvent(strategy.instanceId, event));
+    this.strategies.set(strategy.instanceId, { strategy, unsubscribe });
+  }
+
+  /**
+   * 断开策略实例（实例从注册表移除时调用）
+   */
+  detach(instanceId: string): void {
+    const attached = this.strategies.get(instanceId);
+    if (!attached) return;
+    attached.unsubscribe();
+    this.strategies.delete(instanceId);
+    this.dirtyInstances.delete(instanceId);
+  }
+
+  /**
+   * 订阅推送，返回取消订阅函数
+   * 首个订阅者加入时启动合并刷新定时器，最后一个离开时停止
+   */
+  subscribe(subscriber: StreamSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0 && this.flushTimer) {
+        clearInterval(this.flushTimer);
+        this.flushTimer = null;
+      }
+    };
+  }
+
+  /**
+   * 当前全部实例的完整快照（新连接建立时先推送一次）
+   */
+  snapshot(): StrategyStreamMessage[] {
+    const messages: StrategyStreamMessage[] = [];
+    for (const { strategy } of this.strategies.values()) {
+      messages.push(...this.buildSnapshot(strategy, ['status', 'orders', 'pnl']));
+    }
+    return messages;
+  }
+
+  /**
+   * 关闭全部订阅连接（优雅关闭时使用）
+   */
+  closeAll(): void {
+    for (const subscriber of this.subscribers) {
+      subscriber.close();
+    }
+    this.subscribers.clear();
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private handleEvent(instanceId: string, event: StrategyEvent): void {
+    if (this.subscribers.size === 0) return;
+    this.broadcast({
+      type: 'event',
+      instanceId,
+      accountId: this.accountIds.get(instanceId),
+      timestamp: event.timestamp,
+      data: event,
+    });
+    this.dirtyInstances.add(instanceId);
+  }
+
+  /**
+   * 推送有事件发生的实例的快照；到达心跳间隔时补推运行中实例的状态与 PnL
+   */
+  private flush(): void {
+    const now = Date.now();
+    const pnlTick = now - this.lastPnlTickAt >= PNL_TICK_INTERVAL_MS;
+    if (pnlTick) this.lastPnlTickAt = now;
+
+    for (const [instanceId, { strategy }] of this.strategies) {
+      if (this.dirtyInstances.has(instanceId)) {
+        this.buildSnapshot(strategy, ['status', 'orders', 'pnl']).forEach(m => this.broadcast(m));
+      } else if (pnlTick && strategy.getStatus() === 'RUNNING') {
+        this.buildSnapshot(strategy, ['status', 'pnl']).forEach(m => this.broadcast(m));
+      }
+    }
+    this.dirtyInstances.clear();
+  }
+
+  private buildSnapshot(strategy: IStrategy, types: StrategyStreamMessageType[]): StrategyStreamMessage[] {
+    const timestamp = Date.now();
+    const instanceId = strategy.instanceId;
+    const accountId = this.accountIds.get(instanceId);
+
+    try {
+      return types.map(type => {
+        switch (type) {
+          case 'status':
+            return { type, instanceId, accountId, timestamp, data: strategy.getState() };
+          case 'orders':
+            return { type, instanceId, accountId, timestamp, data: summarizeOrders(strategy.getTrackedOrders()) };
+          default:
+            return { type, instanceId, accountId, timestamp, data: strategy.getPnlSummary() };
+        }
+      });
+    } catch (error) {
+      logger.warn('生成推送快照失败', { instanceId, error: String(error) });
+      return [];
+    }
+  }
+
+  private broadcast(message: StrategyStreamMessage): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber.send(message);
+      } catch (error) {
+        logger.warn('推送消息失败', { type: message.type, error: String(error) });
+      }
+    }
+  }
+}
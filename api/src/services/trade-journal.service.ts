@@ -0,0 +1,211 @@
+/**
+ * 交易日志服务（Singleton）
+ * 引擎在出场成交记账后写入一条往返交易（异步，失败仅打日志），按条件分页查询供审计与导出
+ */
+
+import { getPool } from '../config/database';
+import { PnlLedgerEntry, TrackedOrder } from '../types/strategy.types';
+import {
+  MergeLineageEntry,
+  RoundTripTrade,
+  PersistedRoundTripTrade,
+  TradeJournalQuery,
+  TradeJournalPage,
+} from '../types/trade-journal.types';
+import { EntryDirection } from '../strategy/order-state-tracker';
+import { createLogger } from '../utils/logger';
+import { instanceAccountCondition } from '../utils/account-scope';
+
+const logger = createLogger('trade-journal');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+/** strategy_trades 查询行（DECIMAL / BIGINT 由 pg 以字符串返回） */
+interface TradeRow {
+  id: string;
+  instance_id: string;
+  strategy_type: string;
+  symbol: string;
+  direction: string;
+  entry_order_id: string | null;
+  exit_order_id: string;
+  entry_price: string;
+  exit_price: string;
+  size: string;
+  fees: string;
+  gross_pnl: string;
+  net_pnl: string;
+  opened_at: Date | null;
+  closed_at: Date;
+  hold_ms: string | null;
+  merged_from: MergeLineageEntry[] | null;
+}
+
+export interface RoundTripContext {
+  instanceId: string;
+  strategyType: string;
+  symbol: string;
+}
+
+/**
+ * 由账本条目组装往返交易：价格、数量、手续费与盈亏取账本值，开仓时间取入场单成交时间
+ * 合并出场单的入场单为合成单，entryOrderId 置空，开仓时间取最早的来源入场
+ */
+export function buildRoundTrip(
+  context: RoundTripContext,
+  direction: EntryDirection,
+  entryOrder: TrackedOrder,
+  exitOrder: TrackedOrder,
+  ledgerEntry: PnlLedgerEntry,
+  mergedFrom: MergeLineageEntry[] = []
+): RoundTripTrade {
+  let openedAt: number | null = entryOrder.filledAt ?? entryOrder.createdAt;
+  if (mergedFrom.length > 0) {
+    const times = mergedFrom.map(m => m.openedAt).filter((t): t is number => t !== null);
+    openedAt = times.length > 0 ? Math.min(...times) : null;
+  }
+  const closedAt = ledgerEntry.timestamp;
+
+  return {
+    ...context,
+    direction,
+    entryOrderId: mergedFrom.length > 0 ? null : entryOrder.orderId,
+    exitOrderId: exitOrder.orderId,
+    entryPrice: ledgerEntry.entryPrice || entryOrder.price,
+    exitPrice: ledgerEntry.exitPrice || exitOrder.price,
+    size: ledgerEntry.size || exitOrder.size,
+    fees: ledgerEntry.fee,
+    grossPnl: ledgerEntry.grossPnl,
+    netPnl: ledgerEntry.netPnl,
+    openedAt,
+    closedAt,
+    holdMs: openedAt !== null && closedAt >= openedAt ? closedAt - openedAt : null,
+    mergedFrom,
+  };
+}
+
+export class TradeJournalService {
+  private static instance: TradeJournalService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TradeJournalService {
+    if (!TradeJournalService.instance) {
+      TradeJournalService.instance = new TradeJournalService();
+    }
+    return TradeJournalService.instance;
+  }
+
+  /**
+   * 写入往返交易（异步，不阻塞；同一实例同一出场单重复写入时忽略）
+   */
+  record(trade: RoundTripTrade): void {
+    (async () => {
+      await getPool().query(
+        `INSERT INTO strategy_trades
+          (instance_id, strategy_type, symbol, direction, entry_order_id, exit_order_id,
+           entry_price, exit_price, size, fees, gross_pnl, net_pnl,
+           opened_at, closed_at, hold_ms, merged_from)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12,
+                 to_timestamp($13 / 1000.0), to_timestamp($14 / 1000.0), $15, $16)
+         ON CONFLICT (instance_id, exit_order_id) DO NOTHING`,
+        [
+          trade.instanceId, trade.strategyType, trade.symbol, trade.direction,
+          trade.entryOrderId, trade.exitOrderId,
+          trade.entryPrice, trade.exitPrice, trade.size, trade.fees, trade.grossPnl, trade.netPnl,
+          trade.openedAt, trade.closedAt, trade.holdMs, JSON.stringify(trade.mergedFrom),
+        ]
+      );
+    })().catch(error => {
+      logger.warn('写入交易日志失败', { exitOrderId: trade.exitOrderId, error: String(error) });
+    });
+  }
+
+  /**
+   * 查询交易日志：按 id 倒序，游标为上一页最后一条的 id
+   */
+  async query(query: TradeJournalQuery): Promise<TradeJournalPage> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let idx = 1;
+
+    if (query.instanceId) {
+      conditions.push(`instance_id = $${idx++}`);
+      values.push(query.instanceId);
+    }
+    if (query.strategyType) {
+      conditions.push(`strategy_type = $${idx++}`);
+      values.push(query.strategyType);
+    }
+    if (query.symbol) {
+      conditions.push(`symbol = $${idx++}`);
+      values.push(query.symbol.toUpperCase());
+    }
+    if (query.direction) {
+      conditions.push(`direction = $${idx++}`);
+      values.push(query.direction);
+    }
+    if (query.mergedOnly) {
+      conditions.push(`jsonb_array_length(merged_from) > 0`);
+    }
+    if (query.startTime !== undefined) {
+      conditions.push(`closed_at >= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.startTime);
+    }
+    if (query.endTime !== undefined) {
+      conditions.push(`closed_at <= to_timestamp($${idx++} / 1000.0)`);
+      values.push(query.endTime);
+    }
+    if (query.cursor) {
+      conditions.push(`id < $${idx++}`);
+      values.push(query.cursor);
+    }
+    if (query.accountIds) {
+      conditions.push(instanceAccountCondition('strategy_trades.instance_id', `$${idx++}`));
+      values.push(query.accountIds);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    // 多取一条判断是否还有下一页
+    const { rows } = await getPool().query<TradeRow>(
+      `SELECT id, instance_id, strategy_type, symbol, direction, entry_order_id, exit_order_id,
+              entry_price, exit_price, size, fees, gross_pnl, net_pnl,
+              opened_at, closed_at, hold_ms, merged_from
+       FROM strategy_trades ${where}
+       ORDER BY id DESC
+       LIMIT $${idx}`,
+      [...values, limit + 1]
+    );
+
+    const page = rows.slice(0, limit);
+    return {
+      trades: page.map(row => this.toTrade(row)),
+      nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  private toTrade(row: TradeRow): PersistedRoundTripTrade {
+    return {
+      id: row.id,
+      instanceId: row.instance_id,
+      strategyType: row.strategy_type,
+      symbol: row.symbol,
+      direction: row.direction as EntryDirection,
+      entryOrderId: row.entry_order_id,
+      exitOrderId: row.exit_order_id,
+      entryPrice: row.entry_price,
+      exitPrice: row.exit_price,
+      size: row.size,
+      fees: row.fees,
+      grossPnl: row.gross_pnl,
+      netPnl: row.net_pnl,
+      openedAt: row.opened_at ? row.opened_at.getTime() : null,
+      closedAt: row.closed_at.getTime(),
+      holdMs: row.hold_ms !== null ? Number(row.hold_ms) : null,
+      mergedFrom: row.merged_from || [],
+    };
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * 交易服务工厂
  * 根据 tradingType 创建对应的服务组合
- * 支持 WebSocket 或 REST 行情源
+ * 支持 WebSocket 或 REST 行情源，以及本地撮合的纸面交易模式
+ * 实盘订单服务统一经组合风控装饰器下单
  */
 
 import { TradingType } from '../types/trading.types';
@@ -9,18 +10,40 @@ import { ProductType, MarginMode } from '../types/futures.types';
 import { IOrderService } from './interfaces/i-order.service';
 import { IMarketDataService } from './interfaces/i-market-data.service';
 import { IAccountService } from './interfaces/i-account.service';
+import { IOrderUpdateStream } from './interfaces/i-order-update.service';
 import { FuturesOrderAdapter } from './adapters/futures-order.adapter';
 import { FuturesMarketDataAdapter } from './adapters/futures-market-data.adapter';
 import { FuturesAccountAdapter } from './adapters/futures-account.adapter';
 import { SpotOrderAdapter } from './adapters/spot-order.adapter';
 import { SpotMarketDataAdapter } from './adapters/spot-market-data.adapter';
 import { SpotAccountAdapter } from './adapters/spot-account.adapter';
+import { RiskGovernedOrderAdapter } from './adapters/risk-governed-order.adapter';
 import { RealtimeMarketDataService } from './realtime-market-data.service';
+import { OrderUpdateStreamService } from './order-update-stream.service';
+import { SimulatedExchange, buildDefaultSpec } from './simulation/simulated-exchange';
+import { SimulatedOrderAdapter } from './simulation/simulated-order.adapter';
+import { SimulatedAccountAdapter } from './simulation/simulated-account.adapter';
+import { PaperMarketDataAdapter } from './simulation/paper-market-data.adapter';
+import { ReplayMarketDataService } from './simulation/replay-market-data.service';
+import { PaperTradingOptions } from '../types/backtest.types';
+import { Clock, systemClock } from '../utils/clock';
+import { AppError, ErrorCode } from '../utils/errors';
+
+/** 纸面交易默认初始资金（计价币） */
+const DEFAULT_PAPER_BALANCE = 10000;
 
 export interface TradingServices {
   orderService: IOrderService;
   marketDataService: IMarketDataService;
   accountService: IAccountService;
+  /** 订单推送（实盘私有 WebSocket；未提供时引擎仅依赖 REST 对账） */
+  orderUpdates?: IOrderUpdateStream;
+  /** 时钟（默认系统时钟，回测注入虚拟时钟） */
+  clock?: Clock;
+  /** 模拟撮合环境：引擎跳过交易所 REST 查询（规格/持仓模式/持仓）与 DB 持久化 */
+  simulated?: boolean;
+  /** 服务组合绑定的交易账户（未指定为默认账户） */
+  accountId?: string;
 }
 
 export interface TradingServiceFactoryConfig {
@@ -30,43 +53,119 @@ export interface TradingServiceFactoryConfig {
   marginCoin?: string;
   useWebSocket?: boolean;
   symbol?: string;
+  /** 交易账户（下单、账户与订单推送使用该账户凭证；行情为公共数据，不区分账户） */
+  accountId?: string;
+  /** 纸面交易：订单在进程内模拟撮合，行情来自实时源或回放（需同时指定 symbol） */
+  paper?: PaperTradingOptions;
 }
 
 export function createTradingServices(config: TradingServiceFactoryConfig): TradingServices {
+  if (config.paper) {
+    return createPaperTradingServices(config, config.paper);
+  }
+
+  const marketDataService = createMarketDataService(config);
+
   if (config.tradingType === 'futures') {
     const productType = config.productType || 'USDT-FUTURES';
     const marginMode = config.marginMode || 'crossed';
     const marginCoin = config.marginCoin || 'USDT';
 
-    let marketDataService: IMarketDataService;
-    if (config.useWebSocket && config.symbol) {
-      const rtService = new RealtimeMarketDataService('USDT-FUTURES', productType);
-      rtService.subscribe(config.symbol);
-      marketDataService = rtService;
-    } else {
-      marketDataService = new FuturesMarketDataAdapter(productType);
-    }
-
     return {
-      orderService: new FuturesOrderAdapter(productType, marginMode, marginCoin),
+      orderService: new RiskGovernedOrderAdapter(
+        new FuturesOrderAdapter(productType, marginMode, marginCoin, config.accountId),
+        marketDataService,
+        'futures',
+        config.accountId
+      ),
       marketDataService,
-      accountService: new FuturesAccountAdapter(productType),
+      accountService: new FuturesAccountAdapter(productType, config.accountId),
+      orderUpdates: new OrderUpdateStreamService(productType, config.accountId),
+      accountId: config.accountId,
     };
   }
 
   // spot
-  let marketDataService: IMarketDataService;
+  return {
+    orderService: new RiskGovernedOrderAdapter(
+      new SpotOrderAdapter(config.accountId),
+      marketDataService,
+      'spot',
+      config.accountId
+    ),
+    marketDataService,
+    accountService: new SpotAccountAdapter(config.accountId),
+    orderUpdates: new OrderUpdateStreamService('SPOT', config.accountId),
+    accountId: config.accountId,
+  };
+}
+
+/**
+ * 行情源：指定 symbol 且启用 WebSocket 时使用实时推送，否则 REST
+ */
+function createMarketDataService(config: TradingServiceFactoryConfig): IMarketDataService {
+  if (config.tradingType === 'futures') {
+    const productType = config.productType || 'USDT-FUTURES';
+    if (config.useWebSocket && config.symbol) {
+      const rtService = new RealtimeMarketDataService('USDT-FUTURES', productType);
+      rtService.subscribe(config.symbol);
+      return rtService;
+    }
+    return new FuturesMarketDataAdapter(productType);
+  }
+
   if (config.useWebSocket && config.symbol) {
     const rtService = new RealtimeMarketDataService('SPOT');
     rtService.subscribe(config.symbol);
-    marketDataService = rtService;
-  } else {
-    marketDataService = new SpotMarketDataAdapter();
+    return rtService;
   }
+  return new SpotMarketDataAdapter();
+}
+
+/**
+ * 纸面交易服务组合
+ * 订单/账户由 SimulatedExchange 本地记账，行情源沿用实盘的 WebSocket/REST 或回放数据
+ */
+function createPaperTradingServices(
+  config: TradingServiceFactoryConfig,
+  options: PaperTradingOptions
+): TradingServices {
+  const symbol = config.symbol;
+  if (!symbol) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, '纸面交易需指定交易对 symbol', undefined, 400);
+  }
+
+  const initialBalance = options.initialBalance !== undefined
+    ? parseFloat(options.initialBalance)
+    : DEFAULT_PAPER_BALANCE;
+  if (!(initialBalance > 0)) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      '纸面交易初始资金必须大于 0',
+      { initialBalance: options.initialBalance },
+      400
+    );
+  }
+
+  const source = options.replayTicks && options.replayTicks.length > 0
+    ? new ReplayMarketDataService(options.replayTicks, options.replaySpeed)
+    : createMarketDataService(config);
+
+  const exchange = new SimulatedExchange({
+    symbol,
+    tradingType: config.tradingType,
+    spec: { ...buildDefaultSpec(symbol, config.tradingType), ...options.spec },
+    clock: systemClock,
+    initialBalance,
+    partialFillRatio: options.partialFillRatio ?? 0.5,
+    leverage: options.leverage ?? 1,
+  });
 
   return {
-    orderService: new SpotOrderAdapter(),
-    marketDataService,
-    accountService: new SpotAccountAdapter(),
+    orderService: new SimulatedOrderAdapter(exchange),
+    marketDataService: new PaperMarketDataAdapter(exchange, source, options.spec),
+    accountService: new SimulatedAccountAdapter(exchange),
+    clock: systemClock,
+    simulated: true,
   };
 }
@@ -2,12 +2,13 @@
  * Bitget WebSocket 客户端
  * 公共频道（行情）+ 私有频道（订单推送）
  * 自动重连 + 指数退避 + 心跳 ping/pong
+ * 私有频道按交易账户登录，每个账户一个实例
  */
 
 import WebSocket from 'ws';
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
-import { getBitgetConfig } from '../config/bitget';
+import { getBitgetConfig, DEFAULT_ACCOUNT_ID } from '../config/bitget';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('ws-client');
@@ -31,7 +32,8 @@ interface WsMessage {
 }
 
 export class WebSocketClientService extends EventEmitter {
-  private static instance: WebSocketClientService | null = null;
+  private static instances: Map<string, WebSocketClientService> = new Map();
+  private readonly accountId: string;
   private publicWs: WebSocket | null = null;
   private privateWs: WebSocket | null = null;
   private publicSubscriptions: WsSubscription[] = [];
@@ -41,15 +43,29 @@ export class WebSocketClientService extends EventEmitter {
   private pingInterval: ReturnType<typeof setInterval> | null = null;
   private isConnected = { public: false, private: false };
 
-  private constructor() {
+  private constructor(accountId: string) {
     super();
+    this.accountId = accountId;
   }
 
-  static getInstance(): WebSocketClientService {
-    if (!WebSocketClientService.instance) {
-      WebSocketClientService.instance = new WebSocketClientService();
+  static getInstance(accountId: string = DEFAULT_ACCOUNT_ID): WebSocketClientService {
+    let instance = WebSocketClientService.instances.get(accountId);
+    if (!instance) {
+      instance = new WebSocketClientService(accountId);
+      WebSocketClientService.instances.set(accountId, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * 断开并移除账户的连接实例（账户删除或凭证变更后调用）
+   */
+  static removeInstance(accountId: string): void {
+    const instance = WebSocketClientService.instances.get(accountId);
+    if (instance) {
+      instance.disconnect();
+      WebSocketClientService.instances.delete(accountId);
     }
-    return WebSocketClientService.instance;
   }
 
   /**
@@ -149,6 +165,27 @@ export class WebSocketClientService extends EventEmitter {
     }
   }
 
+  /**
+   * 订阅盘口深度（books15 为 15 档快照推送，books 为全量快照 + 增量推送）
+   */
+  subscribeBooks(instType: string, instId: string, channel: 'books' | 'books15' = 'books15'): void {
+    const sub: WsSubscription = { instType, channel, instId };
+    this.publicSubscriptions.push(sub);
+    if (this.publicWs && this.publicWs.readyState === WebSocket.OPEN) {
+      this.sendSubscribe(this.publicWs, sub);
+    }
+  }
+
+  /**
+   * 重新订阅公共频道（增量盘口校验失败时取新快照）
+   */
+  resubscribePublic(instType: string, channel: string, instId: string): void {
+    if (!this.publicWs || this.publicWs.readyState !== WebSocket.OPEN) return;
+    const sub: WsSubscription = { instType, channel, instId };
+    this.publicWs.send(JSON.stringify({ op: 'unsubscribe', args: [sub] }));
+    this.sendSubscribe(this.publicWs, sub);
+  }
+
   /**
    * 订阅私有订单推送
    */
@@ -195,7 +232,7 @@ export class WebSocketClientService extends EventEmitter {
 
   private authenticatePrivate(): void {
     try {
-      const config = getBitgetConfig();
+      const config = getBitgetConfig(this.accountId);
       const timestamp = Math.floor(Date.now() / 1000).toString();
       const sign = crypto
         .createHmac('sha256', config.secretKey)
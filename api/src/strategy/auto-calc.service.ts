@@ -9,11 +9,15 @@ import {
   RiskLevel,
   SCALPING_PRESETS,
   GRID_PRESETS,
+  DCA_PRESETS,
 } from './presets/risk-presets';
+import { buildLadder, getMaxCycleUsdt, getTakeProfitBounds } from './dca-ladder';
+import { StrategyRegistry } from './strategy-registry';
 import {
   BaseStrategyConfig,
   ScalpingStrategyConfig,
   GridStrategyConfig,
+  DcaStrategyConfig,
 } from '../types/strategy.types';
 import {
   StrategyType,
@@ -36,6 +40,7 @@ export interface SimpleConfigInput {
   riskLevel: RiskLevel;
   maxPositionPercent?: number;   // 用户覆盖仓位上限百分比（0-1）
   maxDailyLossPercent?: number;  // 用户覆盖日亏上限百分比（0-1）
+  accountId?: string;            // 查询余额的交易账户（未指定为默认账户）
 }
 
 /** 推导说明 */
@@ -53,8 +58,12 @@ export interface ParameterBounds {
   gridCount?: { min: number; max: number };
   upperPrice?: { min: number; max: number };
   lowerPrice?: { min: number; max: number };
+  maxSafetyOrders?: { min: number; max: number };
+  takeProfitPercent?: { min: number; recommended: number; max: number };
   maxPositionPercent?: { min: number; recommended: number; max: number };
   maxDailyLossPercent?: { min: number; recommended: number; max: number };
+  /** 插件策略的自定义字段边界 */
+  [key: string]: { min: number; recommended?: number; max: number } | undefined;
 }
 
 /** 自动计算结果 */
@@ -78,7 +87,7 @@ export class AutoCalcService {
   async calculate(input: SimpleConfigInput): Promise<AutoCalcResult> {
     this.validateInput(input);
 
-    const { strategyType, tradingType, symbol, orderAmountUsdt, direction, riskLevel } = input;
+    const { strategyType, tradingType, symbol, orderAmountUsdt, direction, riskLevel, accountId } = input;
 
     // 1. 获取交易对规格
     const spec = await this.instrumentSpecService.getSpec(symbol, tradingType);
@@ -87,6 +96,7 @@ export class AutoCalcService {
     const services = createTradingServices({
       tradingType,
       productType: tradingType === 'futures' ? 'USDT-FUTURES' : undefined,
+      accountId,
     });
     const ticker = await services.marketDataService.getTicker(symbol);
 
@@ -105,12 +115,22 @@ export class AutoCalcService {
       balance,
     });
 
-    // 4. 根据策略类型分派计算
-    if (strategyType === 'scalping') {
-      return this.calculateScalping(input, spec, ticker, balance);
+    // 4. 根据策略类型分派计算（期现套利与插件策略暂无简单模式，需在高级模式下手动配置）
+    switch (strategyType) {
+      case 'scalping':
+        return this.calculateScalping(input, spec, ticker, balance);
+      case 'grid':
+        return this.calculateGrid(input, spec, ticker, balance);
+      case 'dca':
+        return this.calculateDca(input, spec, ticker, balance);
+      default:
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          `策略类型 ${strategyType} 不支持自动计算，请使用高级模式`,
+          { strategyType },
+          400
+        );
     }
-
-    return this.calculateGrid(input, spec, ticker, balance);
   }
 
   /**
@@ -119,13 +139,16 @@ export class AutoCalcService {
   async getBounds(
     symbol: string,
     tradingType: TradingType,
-    strategyType: StrategyType
+    strategyType: StrategyType,
+    accountId?: string
   ): Promise<ParameterBounds> {
+    const definition = StrategyRegistry.getInstance().getDefinition(strategyType);
     const spec = await this.instrumentSpecService.getSpec(symbol, tradingType);
 
     const services = createTradingServices({
       tradingType,
       productType: tradingType === 'futures' ? 'USDT-FUTURES' : undefined,
+      accountId,
     });
     const ticker = await services.marketDataService.getTicker(symbol);
     const balance = await services.accountService.getAvailableBalance(
@@ -134,10 +157,6 @@ export class AutoCalcService {
 
     const currentPrice = parseFloat(ticker.lastPr);
     const balanceNum = parseFloat(balance);
-    const minSpread = this.calcMinProfitableSpread(currentPrice, spec.makerFeeRate, spec.takerFeeRate);
-    const high24h = parseFloat(ticker.high24h);
-    const low24h = parseFloat(ticker.low24h);
-    const range24h = high24h - low24h;
 
     const bounds: ParameterBounds = {
       orderAmountUsdt: {
@@ -146,27 +165,16 @@ export class AutoCalcService {
       },
     };
 
-    if (strategyType === 'scalping') {
-      const volPct = range24h / currentPrice;
-      bounds.priceSpread = {
-        min: this.roundToPrice(minSpread, spec.pricePlace),
-        recommended: this.roundToPrice(
-          Math.max(minSpread * 2.0, currentPrice * Math.max(volPct * 0.03, 0.0015)),
-          spec.pricePlace
-        ),
-        max: this.roundToPrice(range24h * 0.05, spec.pricePlace),
-      };
-    } else {
-      // grid
-      bounds.gridCount = { min: 3, max: 200 };
-      bounds.upperPrice = {
-        min: this.roundToPrice(currentPrice * 1.001, spec.pricePlace),
-        max: this.roundToPrice(currentPrice * 1.5, spec.pricePlace),
-      };
-      bounds.lowerPrice = {
-        min: this.roundToPrice(currentPrice * 0.5, spec.pricePlace),
-        max: this.roundToPrice(currentPrice * 0.999, spec.pricePlace),
-      };
+    // 策略专属边界由注册表中的策略定义提供
+    if (definition.getBounds) {
+      Object.assign(bounds, definition.getBounds({
+        spec,
+        ticker,
+        currentPrice,
+        balance: balanceNum,
+        minProfitableSpread: this.calcMinProfitableSpread(currentPrice, spec.makerFeeRate, spec.takerFeeRate),
+        roundToPrice: (value: number) => this.roundToPrice(value, spec.pricePlace),
+      }));
     }
 
     return bounds;
@@ -582,16 +590,194 @@ export class AutoCalcService {
     return { fullConfig, derivations, bounds, availableBalance: balance };
   }
 
+  /**
+   * 计算 DCA 策略完整配置
+   */
+  private calculateDca(
+    input: SimpleConfigInput,
+    spec: InstrumentSpec,
+    ticker: UnifiedTickerInfo,
+    balance: string
+  ): AutoCalcResult {
+    const { tradingType, symbol, orderAmountUsdt, riskLevel } = input;
+    const preset = DCA_PRESETS[riskLevel];
+    const currentPrice = parseFloat(ticker.lastPr);
+    const balanceNum = parseFloat(balance);
+    // DCA 只做单方向，现货只能做多
+    const direction = tradingType === 'futures' && input.direction === 'short' ? 'short' : 'long';
+
+    const derivations: Derivation[] = [];
+
+    // 安全单阶梯
+    const safetyOrderUsdt = this.roundToUsdt(parseFloat(orderAmountUsdt) * preset.safetyOrderMultiplier);
+    derivations.push({
+      field: 'safetyOrderUsdt',
+      value: String(safetyOrderUsdt),
+      formula: `${orderAmountUsdt} x ${preset.safetyOrderMultiplier}`,
+      explanation: `首个安全单金额 = 基础单金额 x ${riskLevel}预设乘数，之后每单按金额倍数 ${preset.safetyOrderVolumeScale} 放大`,
+    });
+
+    const ladderParams = {
+      safetyOrderUsdt,
+      deviationPercent: preset.safetyOrderDeviationPercent,
+      stepScale: preset.safetyOrderStepScale,
+      volumeScale: preset.safetyOrderVolumeScale,
+    };
+    const ladder = buildLadder(ladderParams, preset.maxSafetyOrders);
+    const lastStep = ladder[ladder.length - 1];
+    derivations.push({
+      field: 'safetyOrderLadder',
+      value: ladder.map(step => `${step.deviationPercent.toFixed(2)}%/${this.roundToUsdt(step.amountUsdt)}U`).join(', '),
+      formula: `偏离 = ${preset.safetyOrderDeviationPercent}% x (1 + ${preset.safetyOrderStepScale} + ... + ${preset.safetyOrderStepScale}^(k-1))`,
+      explanation: `共 ${preset.maxSafetyOrders} 个安全单，最深覆盖基础单价格${direction === 'long' ? '下跌' : '上涨'} ${lastStep.deviationPercent.toFixed(2)}%`,
+    });
+
+    const maxCycleUsdt = this.roundToUsdt(
+      getMaxCycleUsdt(parseFloat(orderAmountUsdt), ladderParams, preset.maxSafetyOrders)
+    );
+    derivations.push({
+      field: 'maxCycleUsdt',
+      value: String(maxCycleUsdt),
+      formula: `${orderAmountUsdt} + Σ 安全单金额`,
+      explanation: `一个周期全部安全单成交时占用的资金`,
+    });
+
+    // 止盈需覆盖双边手续费
+    const takeProfitBounds = getTakeProfitBounds(spec.makerFeeRate, spec.takerFeeRate);
+    const takeProfitPercent = Math.max(preset.takeProfitPercent, takeProfitBounds.min);
+    derivations.push({
+      field: 'takeProfitPercent',
+      value: `${takeProfitPercent}%`,
+      formula: `max(预设 ${preset.takeProfitPercent}%, 双边手续费 ${takeProfitBounds.min}%)`,
+      explanation: `止盈价 = 持仓均价 x (1 ${direction === 'long' ? '+' : '-'} 止盈百分比)，随安全单成交重新计算`,
+    });
+
+    // 仓位上限：默认取预设，且至少容纳一个完整周期
+    const recommendedPositionPercent = Math.min(
+      Math.max(preset.maxPositionPercent, balanceNum > 0 ? maxCycleUsdt / balanceNum : 0),
+      0.8
+    );
+    const maxPositionPercent = input.maxPositionPercent ?? recommendedPositionPercent;
+    const maxPositionUsdt = this.roundToUsdt(balanceNum * maxPositionPercent);
+    derivations.push({
+      field: 'maxPositionPercent',
+      value: `${(maxPositionPercent * 100).toFixed(1)}%`,
+      formula: input.maxPositionPercent
+        ? `用户指定 ${(input.maxPositionPercent * 100).toFixed(1)}%`
+        : `min(max(${preset.maxPositionPercent}, ${maxCycleUsdt} / ${balanceNum.toFixed(2)}), 0.8)`,
+      explanation: input.maxPositionPercent
+        ? `用户自定义仓位上限百分比`
+        : `仓位上限取预设(${(preset.maxPositionPercent * 100).toFixed(0)}%)与完整周期占用的较大者，上限80%`,
+    });
+    derivations.push({
+      field: 'maxPositionUsdt',
+      value: String(maxPositionUsdt),
+      formula: `${balanceNum.toFixed(2)} x ${(maxPositionPercent * 100).toFixed(1)}%`,
+      explanation: `最大仓位 = 可用余额 x 仓位上限百分比`,
+    });
+    if (maxCycleUsdt > maxPositionUsdt) {
+      derivations.push({
+        field: 'warning',
+        value: 'maxCycleUsdt > maxPositionUsdt',
+        formula: `${maxCycleUsdt} > ${maxPositionUsdt}`,
+        explanation: `警告：完整周期占用超过仓位上限，靠后的安全单会被风控拒绝。建议降低基础单金额或减少安全单数量`,
+      });
+    }
+
+    // 日亏上限百分比
+    const recommendedDailyLossPercent = preset.dailyLossPercent;
+    const maxDailyLossPercent = input.maxDailyLossPercent ?? recommendedDailyLossPercent;
+    const maxDailyLossUsdt = this.roundToUsdt(balanceNum * maxDailyLossPercent);
+    derivations.push({
+      field: 'maxDailyLossUsdt',
+      value: String(maxDailyLossUsdt),
+      formula: `${balanceNum.toFixed(2)} x ${(maxDailyLossPercent * 100).toFixed(1)}%`,
+      explanation: `每日亏损限额 = 可用余额 x 日亏上限百分比`,
+    });
+
+    derivations.push({
+      field: 'stopLossPercent',
+      value: `${preset.stopLossPercent}%`,
+      formula: `preset`,
+      explanation: `安全单全部成交后，价格相对持仓均价再逆向 ${preset.stopLossPercent}% 时市价止损`,
+    });
+
+    const fullConfig: DcaStrategyConfig = {
+      strategyType: 'dca',
+      tradingType,
+      instanceId: `auto-${symbol}-${Date.now()}`,
+      symbol,
+      direction,
+      orderAmountUsdt,
+      safetyOrderUsdt: String(safetyOrderUsdt),
+      maxSafetyOrders: preset.maxSafetyOrders,
+      safetyOrderDeviationPercent: preset.safetyOrderDeviationPercent,
+      safetyOrderStepScale: preset.safetyOrderStepScale,
+      safetyOrderVolumeScale: preset.safetyOrderVolumeScale,
+      takeProfitPercent,
+      entrySignal: 'none',
+      maxPositionUsdt: String(maxPositionUsdt),
+      maxPositionPercent,
+      maxDailyLossPercent,
+      maxDrawdownPercent: preset.maxDrawdownPercent,
+      stopLossPercent: preset.stopLossPercent,
+      maxDailyLossUsdt: String(maxDailyLossUsdt),
+      cooldownMs: preset.cooldownMs,
+      pollIntervalMs: preset.pollIntervalMs,
+      orderCheckIntervalMs: preset.orderCheckIntervalMs,
+      pricePrecision: spec.pricePlace,
+      sizePrecision: spec.volumePlace,
+      ...(tradingType === 'futures' ? {
+        productType: 'USDT-FUTURES' as const,
+        marginMode: 'crossed' as const,
+        marginCoin: 'USDT',
+        leverage: '1',
+      } : {}),
+    };
+
+    const bounds: ParameterBounds = {
+      orderAmountUsdt: {
+        min: Math.max(spec.minTradeNum * currentPrice * spec.sizeMultiplier, 5),
+        max: Math.min(balanceNum * 0.5, 100000),
+      },
+      maxSafetyOrders: { min: 0, max: 50 },
+      takeProfitPercent: takeProfitBounds,
+      maxPositionPercent: {
+        min: 0.05,
+        recommended: recommendedPositionPercent,
+        max: 0.8,
+      },
+      maxDailyLossPercent: {
+        min: 0.01,
+        recommended: recommendedDailyLossPercent,
+        max: 0.2,
+      },
+    };
+
+    logger.info('DCA 配置计算完成', {
+      symbol,
+      direction,
+      safetyOrderUsdt,
+      maxSafetyOrders: preset.maxSafetyOrders,
+      maxCycleUsdt,
+      maxPositionUsdt,
+      riskLevel,
+    });
+
+    return { fullConfig, derivations, bounds, availableBalance: balance };
+  }
+
   /**
    * 验证输入参数
    */
   private validateInput(input: SimpleConfigInput): void {
     const { strategyType, tradingType, symbol, orderAmountUsdt, riskLevel } = input;
 
-    if (!strategyType || !['scalping', 'grid'].includes(strategyType)) {
+    const registry = StrategyRegistry.getInstance();
+    if (!strategyType || !registry.has(strategyType)) {
       throw new AppError(
         ErrorCode.VALIDATION_ERROR,
-        '无效的策略类型，必须为 scalping 或 grid',
+        `无效的策略类型，必须为 ${registry.getTypes().join('、')} 之一`,
         { strategyType },
         400
       );
@@ -0,0 +1,1232 @@
+/**
+ * 期现套利引擎（现货多 + 永续空，赚取资金费与基差收敛）
+ * 主循环:
+ *   1. 读取现货/永续盘口与当前资金费率，计算年化资金费率与可成交基差
+ *   2. 信号为 enter 且未达 maxPositionUsdt 时按 orderAmountUsdt 分批建仓
+ *   3. 信号为 exit 时分批平仓，直到两腿清空
+ *   4. 对冲比例偏离超过阈值时只调整永续腿，现货数量不变
+ *
+ * 单腿风险:
+ *   建仓先以 IOC 限价买入现货，再按现货实际成交量对冲永续空单（IOC 重试，仍不足市价补齐），
+ *   永续腿对冲不上的部分市价卖出现货回滚；平仓先平永续再卖现货，现货卖不完时市价兜底。
+ *   两腿数量不一致时发出 BASIS_LEG_IMBALANCE，残差由对冲比例调整收敛
+ *
+ * 仅支持实盘：回测/纸面交易的本地撮合只有单一市场，无法模拟现货与永续两条腿
+ */
+
+import { IStrategy, StrategyEventListener } from './interfaces/i-strategy';
+import { IOrderService } from '../services/interfaces/i-order.service';
+import { IMarketDataService } from '../services/interfaces/i-market-data.service';
+import { IAccountService } from '../services/interfaces/i-account.service';
+import { TradingServices } from '../services/trading-service.factory';
+import { ContractSpecService } from '../services/contract-spec.service';
+import { InstrumentSpecService } from '../services/instrument-spec.service';
+import { FuturesAccountService, HoldMode } from '../services/futures-account.service';
+import { FuturesMarketDataService } from '../services/futures-market-data.service';
+import { OrderStateTracker, isOpenOrder, getFilledSize, getFillPrice } from './order-state-tracker';
+import { RiskController } from './risk-controller';
+import { PnlLedger } from './pnl-ledger';
+import {
+  BasisSpread,
+  annualizeFundingRate,
+  computeBasisPercent,
+  evaluateBasisSignal,
+  getHedgeRatio,
+} from './basis-spread';
+import { StrategyConfigManager } from './strategy-config.manager';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import {
+  BasisStrategyConfig,
+  DEFAULT_BASIS_CONFIG,
+  BaseStrategyConfig,
+  AnyStrategyConfig,
+  StrategyState,
+  StrategyStatus,
+  StrategyEvent,
+  StrategyEventType,
+  TrackedOrder,
+  PnlSummary,
+  PnlLedgerEntry,
+  OrderReconcileReport,
+  PositionSnapshot,
+  BasisPositionSnapshot,
+  OrderRole,
+} from '../types/strategy.types';
+import { InstrumentSpec, StrategyType, UnifiedOrderDetail, UnifiedTickerInfo } from '../types/trading.types';
+import { ContractSpecInfo, FuturesCurrentFundingRate, ProductType } from '../types/futures.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+const logger = createLogger('basis-engine');
+
+const MAX_CONSECUTIVE_ERRORS = 5;
+const ERROR_RECOVERY_DELAY_MS = 30000;
+/** 资金费账单同步间隔 */
+const FUNDING_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+/** 当前资金费率刷新间隔（费率在结算周期内变化缓慢） */
+const FUNDING_RATE_REFRESH_MS = 60 * 1000;
+/** 对冲比例检查间隔 */
+const HEDGE_CHECK_INTERVAL_MS = 30 * 1000;
+/** IOC 订单回查成交结果的次数与间隔 */
+const ORDER_SETTLE_ATTEMPTS = 3;
+const ORDER_SETTLE_DELAY_MS = 500;
+const DEFAULT_LEG_RETRY_LIMIT = 3;
+
+type BasisLeg = 'spot' | 'perp';
+
+/** 对冲仓位：两腿分别记录数量、均价与剩余仓位分摊的入场手续费 */
+interface BasisPosition {
+  spotSize: number;
+  spotAvgPrice: number;
+  spotEntryFees: number;
+  perpSize: number;
+  perpAvgPrice: number;
+  perpEntryFees: number;
+  openedAt: number;
+}
+
+/** 最近一轮的两腿盘口与价差 */
+interface BasisMarket {
+  spot: UnifiedTickerInfo;
+  perp: UnifiedTickerInfo;
+  spread: BasisSpread;
+  nextFundingTime: number | null;
+}
+
+export class BasisArbitrageEngine implements IStrategy {
+  readonly strategyType: StrategyType = 'basis';
+  readonly instanceId: string;
+
+  private status: StrategyStatus = 'STOPPED';
+  private configManager: StrategyConfigManager | null = null;
+  private riskController: RiskController | null = null;
+  private tracker: OrderStateTracker;
+  private position: BasisPosition | null = null;
+  private market: BasisMarket | null = null;
+
+  // 永续腿
+  private orderService: IOrderService;
+  private marketDataService: IMarketDataService;
+  private accountService: IAccountService;
+  // 现货腿（实盘由策略定义注入）
+  private spotServices: TradingServices | null;
+  private fundingRateService: FuturesMarketDataService | null = null;
+
+  private mainLoopTimer: TimerHandle | null = null;
+  private consecutiveErrors = 0;
+  private startedAt: number | null = null;
+  private tradeCount = 0;
+  private realizedPnl = 0;
+  private spotRealizedPnl = 0;
+  private pnlLedger: PnlLedger;
+  private lastFundingSyncAt = 0;
+  private fundingRate: FuturesCurrentFundingRate | null = null;
+  private lastFundingRateAt = 0;
+  private lastHedgeCheckAt = 0;
+
+  private perpSpec: ContractSpecInfo | null = null;
+  private spotSpec: InstrumentSpec | null = null;
+  private unrealizedPnl = '0';
+  private persistenceService: StrategyPersistenceService | null;
+  private clock: Clock;
+  private simulated: boolean;
+  private lastConfig: BasisStrategyConfig = DEFAULT_BASIS_CONFIG;
+
+  private holdMode: HoldMode = 'double_hold';
+  // 最近事件的内存缓存，完整历史落库到 strategy_events
+  private events: StrategyEvent[] = [];
+  private maxEvents = 1000;
+  private eventListeners: Set<StrategyEventListener> = new Set();
+  private loopCounter = 0;
+
+  /**
+   * @param services 永续腿服务组合
+   * @param spotServices 现货腿服务组合（未提供时无法启动）
+   */
+  constructor(services: TradingServices, instanceId = 'default', spotServices?: TradingServices) {
+    this.orderService = services.orderService;
+    this.marketDataService = services.marketDataService;
+    this.accountService = services.accountService;
+    this.spotServices = spotServices || null;
+    this.clock = services.clock || systemClock;
+    this.simulated = services.simulated === true;
+    this.persistenceService = this.simulated ? null : StrategyPersistenceService.getInstance();
+    this.pnlLedger = new PnlLedger(this.clock);
+    this.tracker = new OrderStateTracker(this.clock);
+    this.instanceId = instanceId;
+  }
+
+  // ============================================================
+  // IStrategy interface implementation
+  // ============================================================
+
+  /**
+   * 启动策略
+   */
+  async start(overrides?: Partial<BaseStrategyConfig>): Promise<void> {
+    if (this.status === 'RUNNING' || this.status === 'STARTING') {
+      throw new AppError(
+        ErrorCode.STRATEGY_ALREADY_RUNNING,
+        '策略已在运行中',
+        { status: this.status },
+        400
+      );
+    }
+
+    this.status = 'STARTING';
+    logger.info('期现套利策略启动中...');
+
+    try {
+      const configInput = {
+        strategyType: 'basis' as const,
+        tradingType: overrides?.tradingType || this.lastConfig.tradingType,
+        instanceId: this.instanceId,
+        ...overrides,
+      };
+      this.configManager = new StrategyConfigManager(configInput);
+      const config = this.configManager.getBasisConfig();
+
+      if (this.simulated || !this.spotServices) {
+        throw new AppError(
+          ErrorCode.STRATEGY_CONFIG_INVALID,
+          '期现套利需同时交易现货与永续，不支持回测与纸面交易',
+          { instanceId: this.instanceId },
+          400
+        );
+      }
+
+      // 两腿规格：价格精度取永续，数量精度取两者中较粗的一方，保证两腿下单数量一致
+      const productType = this.getProductType(config);
+      this.perpSpec = await ContractSpecService.getInstance().refreshSpec(config.symbol, productType);
+      this.spotSpec = await InstrumentSpecService.getInstance().getSpec(config.symbol, 'spot');
+      this.configManager.update({
+        pricePrecision: this.perpSpec.pricePlace,
+        sizePrecision: Math.min(this.perpSpec.volumePlace, this.spotSpec.volumePlace),
+      });
+
+      // 检测持仓模式（单向/双向）
+      try {
+        this.holdMode = await new FuturesAccountService(config.accountId).getHoldMode(productType);
+        logger.info('持仓模式检测', { holdMode: this.holdMode });
+      } catch (error) {
+        this.holdMode = 'double_hold';
+        logger.warn('持仓模式检测失败，默认双向持仓', { error: String(error), fallback: this.holdMode });
+      }
+      this.fundingRateService = new FuturesMarketDataService();
+
+      // 风控权益以合约账户为准，现货腿盈亏在主循环中叠加
+      const { equity, unrealizedPL } = await this.accountService.getAccountEquity(
+        config.marginCoin || 'USDT'
+      );
+      const initialEquity = parseFloat(equity);
+      this.unrealizedPnl = unrealizedPL;
+      logger.info('初始权益', { equity: initialEquity, marginCoin: config.marginCoin, unrealizedPL });
+
+      // 初始化组件
+      const finalConfig = this.configManager.getBasisConfig();
+      this.riskController = new RiskController(finalConfig, initialEquity, this.clock, !this.simulated);
+      this.riskController.onCooldown(info => {
+        this.emitEvent('RISK_LIMIT_HIT', {
+          reason: info.reason,
+          cooldownMs: info.cooldownMs,
+          resumeAt: new Date(info.resumeAt).toISOString(),
+        });
+      });
+
+      // 重置状态
+      this.tracker.clear();
+      this.position = null;
+      this.market = null;
+      this.consecutiveErrors = 0;
+      this.startedAt = this.clock.now();
+      this.tradeCount = 0;
+      this.realizedPnl = 0;
+      this.spotRealizedPnl = 0;
+      this.pnlLedger.reset();
+      this.pnlLedger.setFeeRate(this.perpSpec.takerFeeRate);
+      this.lastFundingSyncAt = 0;
+      this.fundingRate = null;
+      this.lastFundingRateAt = 0;
+      this.lastHedgeCheckAt = 0;
+
+      await this.recoverPosition(finalConfig);
+
+      this.status = 'RUNNING';
+      this.lastConfig = finalConfig;
+
+      this.persistenceService?.saveActiveConfig(this.lastConfig);
+      this.emitEvent('STRATEGY_STARTED', { config: this.lastConfig });
+      if (this.position) {
+        this.emitEvent('BASIS_HEDGE_OPENED', { ...this.getPositionSnapshot(finalConfig), recovered: true });
+      }
+      logger.info('期现套利策略已启动', {
+        symbol: finalConfig.symbol,
+        entryFundingAprPercent: finalConfig.entryFundingAprPercent,
+        entryBasisPercent: finalConfig.entryBasisPercent,
+        recoveredPosition: this.position !== null,
+      });
+
+      this.scheduleMainLoop();
+    } catch (error) {
+      this.status = 'STOPPED';
+      logger.error('期现套利策略启动失败', { error: String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * 停止策略：对冲仓位保留在交易所（单独平掉任一条腿都会暴露方向风险）
+   */
+  async stop(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    this.status = 'STOPPING';
+    logger.info('期现套利策略停止中...');
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+
+    await this.cancelAllOpenOrders();
+
+    this.status = 'STOPPED';
+    const config = this.configManager?.getBasisConfig() || this.lastConfig;
+    this.emitEvent('STRATEGY_STOPPED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      tradeCount: this.tradeCount,
+      realizedPnl: this.realizedPnl,
+      openPosition: this.position ? this.getPositionSnapshot(config) : null,
+    });
+    if (this.position) {
+      logger.warn('期现套利策略已停止，对冲仓位未平仓', {
+        spotSize: this.position.spotSize,
+        perpSize: this.position.perpSize,
+      });
+    } else {
+      logger.info('期现套利策略已停止');
+    }
+  }
+
+  /**
+   * 挂起策略：停止主循环，对冲仓位保留，重启后按交易所持仓接管
+   */
+  async suspend(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_SUSPENDED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      openOrders: this.tracker.getAllOrders().filter(isOpenOrder).length,
+    });
+    logger.info('期现套利策略已挂起，对冲仓位保留');
+  }
+
+  /**
+   * 紧急停止：撤销未结 IOC 订单，不平仓
+   */
+  async emergencyStop(): Promise<void> {
+    logger.warn('期现套利策略紧急停止触发！');
+    this.emitEvent('EMERGENCY_STOP', {});
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+
+    await this.cancelAllOpenOrders();
+
+    this.status = 'STOPPED';
+    logger.warn('期现套利策略紧急停止完成');
+  }
+
+  /**
+   * 更新配置（阈值与分批金额从下一轮生效）
+   */
+  updateConfig(changes: Record<string, unknown>): BaseStrategyConfig {
+    if (this.configManager) {
+      const newConfig = this.configManager.update(changes as Partial<AnyStrategyConfig>);
+      const basisConfig = newConfig as BasisStrategyConfig;
+      if (this.riskController) {
+        this.riskController.updateConfig(basisConfig);
+      }
+      this.lastConfig = basisConfig;
+      this.persistenceService?.saveActiveConfig(basisConfig);
+      this.emitEvent('CONFIG_UPDATED', { changes, state: 'running' });
+      return basisConfig;
+    }
+
+    // 停止状态
+    const tempManager = new StrategyConfigManager({ ...this.lastConfig, ...changes });
+    const newConfig = tempManager.getBasisConfig();
+    this.lastConfig = newConfig;
+    this.persistenceService?.saveActiveConfig(newConfig);
+    this.emitEvent('CONFIG_UPDATED', { changes, state: 'stopped' });
+    logger.info('已更新停止态配置', { changes });
+    return newConfig;
+  }
+
+  getStatus(): StrategyStatus {
+    return this.status;
+  }
+
+  /**
+   * 获取策略状态
+   */
+  getState(): StrategyState {
+    const config = this.configManager?.getBasisConfig() || this.lastConfig;
+    const riskStats = this.riskController?.getStats();
+
+    return {
+      status: this.status,
+      strategyType: 'basis',
+      tradingType: config.tradingType,
+      instanceId: this.instanceId,
+      config,
+      activeBuyOrderId: null,
+      lastBidPrice: this.market?.spot.bidPr || null,
+      pendingSellCount: 0,
+      totalPositionUsdt: this.calculatePositionUsdt().toFixed(2),
+      spotAvailableUsdt: '0',
+      futuresAvailableUsdt: '0',
+      realizedPnl: this.realizedPnl.toFixed(4),
+      unrealizedPnl: this.unrealizedPnl,
+      dailyPnl: riskStats ? riskStats.dailyPnl.toFixed(4) : '0',
+      tradeCount: this.tradeCount,
+      errorCount: this.consecutiveErrors,
+      lastError: null,
+      startedAt: this.startedAt,
+      uptimeMs: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      basisPosition: this.getPositionSnapshot(config),
+    };
+  }
+
+  getTrackedOrders(): TrackedOrder[] {
+    return this.tracker.getAllOrders();
+  }
+
+  getPnlSummary(): PnlSummary {
+    const stats = this.riskController?.getStats();
+    const totals = this.pnlLedger.getTotals();
+    return {
+      realizedPnl: this.realizedPnl.toFixed(4),
+      unrealizedPnl: this.unrealizedPnl,
+      grossPnl: totals.grossPnl.toFixed(4),
+      fees: totals.fees.toFixed(4),
+      funding: totals.funding.toFixed(4),
+      netPnl: totals.netPnl.toFixed(4),
+      dailyPnl: stats ? stats.dailyPnl.toFixed(4) : '0',
+      totalTrades: stats?.totalTrades || 0,
+      winTrades: stats?.winTrades || 0,
+      lossTrades: stats?.lossTrades || 0,
+      winRate: stats ? (stats.winRate * 100).toFixed(2) : '0',
+      avgWin: stats ? stats.avgWin.toFixed(4) : '0',
+      avgLoss: stats ? stats.avgLoss.toFixed(4) : '0',
+    };
+  }
+
+  getPnlLedger(limit = 100): PnlLedgerEntry[] {
+    return this.pnlLedger.getEntries(limit);
+  }
+
+  getEvents(limit = 50): StrategyEvent[] {
+    return this.events.slice(-limit);
+  }
+
+  getReconcileReport(): OrderReconcileReport | null {
+    return null;
+  }
+
+  getPositionSnapshots(): PositionSnapshot[] {
+    return [];
+  }
+
+  onEvent(listener: StrategyEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  // ============================================================
+  // Main Loop
+  // ============================================================
+
+  private scheduleMainLoop(): void {
+    if (this.status !== 'RUNNING') return;
+    const config = this.configManager!.getBasisConfig();
+    this.mainLoopTimer = this.clock.setTimeout(() => this.runMainLoop(), config.pollIntervalMs);
+  }
+
+  private async runMainLoop(): Promise<void> {
+    if (this.status !== 'RUNNING') return;
+
+    try {
+      const config = this.configManager!.getBasisConfig();
+
+      // 1. 两腿盘口与资金费率
+      const market = await this.fetchMarket(config);
+      this.market = market;
+
+      // 2. 按信号分批建仓/平仓
+      const signal = evaluateBasisSignal(config, market.spread);
+      if (signal === 'enter') {
+        await this.openSlice(config, market);
+      } else if (signal === 'exit' && this.position) {
+        await this.closeSlice(config, market);
+      }
+
+      // 3. 对冲比例调整
+      if (this.position) {
+        await this.checkHedgeRatio(config, market);
+      }
+
+      // 4. 心跳日志（每 10 轮）
+      this.loopCounter++;
+      if (this.loopCounter % 10 === 0) {
+        logger.info('心跳：期现套利', {
+          signal,
+          position: this.getPositionSnapshot(config),
+          realizedPnl: this.realizedPnl.toFixed(4),
+          tradeCount: this.tradeCount,
+        });
+        this.tracker.cleanup();
+      }
+
+      // 5. 同步权益：合约账户权益 + 现货腿盈亏
+      try {
+        const { equity, unrealizedPL } = await this.accountService.getAccountEquity(
+          config.marginCoin || 'USDT'
+        );
+        const spotUnrealized = this.getSpotUnrealizedPnl(market);
+        this.unrealizedPnl = (parseFloat(unrealizedPL) + spotUnrealized).toFixed(4);
+        this.riskController!.updateEquity(parseFloat(equity) + this.spotRealizedPnl + spotUnrealized);
+      } catch (error) {
+        logger.debug('同步权益失败', { error: String(error) });
+      }
+
+      // 6. 同步资金费
+      await this.syncFundingPayments(config);
+
+      this.consecutiveErrors = 0;
+    } catch (error) {
+      this.handleLoopError(error);
+    }
+
+    this.scheduleMainLoop();
+  }
+
+  private async fetchMarket(config: BasisStrategyConfig): Promise<BasisMarket> {
+    const [perp, spot] = await Promise.all([
+      this.marketDataService.getTicker(config.symbol),
+      this.spotServices!.marketDataService.getTicker(config.symbol),
+    ]);
+    const rate = await this.refreshFundingRate(config);
+
+    const intervalHours = rate.fundingRateInterval ? parseFloat(rate.fundingRateInterval) : undefined;
+    const nextFundingTime = rate.nextUpdate ? parseInt(rate.nextUpdate, 10) : NaN;
+    return {
+      spot,
+      perp,
+      spread: {
+        fundingAprPercent: annualizeFundingRate(parseFloat(rate.fundingRate), intervalHours),
+        // 建仓：卖永续（买一）、买现货（卖一）；平仓反之
+        entryBasisPercent: computeBasisPercent(parseFloat(perp.bidPr), parseFloat(spot.askPr)),
+        exitBasisPercent: computeBasisPercent(parseFloat(perp.askPr), parseFloat(spot.bidPr)),
+      },
+      nextFundingTime: isNaN(nextFundingTime) ? null : nextFundingTime,
+    };
+  }
+
+  /**
+   * 刷新当前资金费率；已有缓存时查询失败沿用旧值
+   */
+  private async refreshFundingRate(config: BasisStrategyConfig): Promise<FuturesCurrentFundingRate> {
+    const now = this.clock.now();
+    if (this.fundingRate && now - this.lastFundingRateAt < FUNDING_RATE_REFRESH_MS) {
+      return this.fundingRate;
+    }
+
+    try {
+      this.fundingRate = await this.fundingRateService!.getCurrentFundingRate(
+        config.symbol,
+        this.getProductType(config)
+      );
+      this.lastFundingRateAt = now;
+    } catch (error) {
+      if (!this.fundingRate) throw error;
+      logger.warn('刷新资金费率失败，沿用上次费率', { error: String(error) });
+    }
+    return this.fundingRate;
+  }
+
+  // ============================================================
+  // Hedge management
+  // ============================================================
+
+  /**
+   * 建仓一批：先以 IOC 买入现货，再按现货实际到账数量对冲永续空单，对冲不上的现货市价回滚
+   */
+  private async openSlice(config: BasisStrategyConfig, market: BasisMarket): Promise<void> {
+    const positionUsdt = this.calculatePositionUsdt();
+    const amount = Math.min(
+      parseFloat(config.orderAmountUsdt),
+      parseFloat(config.maxPositionUsdt) - positionUsdt
+    );
+    if (amount <= 0) return;
+
+    const riskCheck = this.riskController!.checkCanTrade(positionUsdt);
+    if (!riskCheck.canTrade) {
+      logger.debug('风控拒绝建仓', { reason: riskCheck.reason });
+      return;
+    }
+
+    const spotAsk = parseFloat(market.spot.askPr);
+    const size = this.calculateSize(amount / spotAsk);
+    if (!size) return;
+
+    // 现货 IOC 未成交：不动永续，下一轮重新定价
+    const spotFill = await this.executeLeg(config, 'spot', 'buy', 'entry', size, spotAsk, 'limit');
+    if (!spotFill) return;
+
+    // 现货手续费可能以基础币扣除，按 taker 费率扣减后的到账数量对冲
+    const spotFilled = parseFloat(getFilledSize(spotFill));
+    const hedgeSize = parseFloat(this.floorSize(spotFilled * (1 - this.spotSpec!.takerFeeRate)));
+    this.addToLeg('spot', hedgeSize, parseFloat(getFillPrice(spotFill)), this.pnlLedger.resolveOrderFee(spotFill));
+
+    const perpFills = await this.hedgePerp(config, 'sell', 'entry', hedgeSize, parseFloat(market.perp.bidPr));
+    let perpFilled = 0;
+    for (const fill of perpFills) {
+      const filled = parseFloat(getFilledSize(fill));
+      perpFilled += filled;
+      this.addToLeg('perp', filled, parseFloat(getFillPrice(fill)), this.pnlLedger.resolveOrderFee(fill));
+    }
+
+    const unhedged = hedgeSize - perpFilled;
+    if (unhedged >= this.getMinSize()) {
+      this.emitEvent('BASIS_LEG_IMBALANCE', {
+        stage: 'open',
+        spotSize: hedgeSize,
+        perpSize: perpFilled,
+        rollbackSize: this.floorSize(unhedged),
+      });
+      logger.warn('永续腿对冲不足，市价回滚现货', { spotSize: hedgeSize, perpSize: perpFilled });
+
+      const rollback = await this.executeLeg(
+        config, 'spot', 'sell', 'exit', this.floorSize(unhedged), parseFloat(market.spot.bidPr), 'market'
+      );
+      if (rollback) {
+        this.riskController?.recordPnl(this.applyLegExit('spot', rollback, config));
+      }
+      this.settlePosition(config);
+    }
+
+    if (perpFilled > 0) {
+      this.emitEvent('BASIS_HEDGE_OPENED', {
+        spotSize: hedgeSize.toFixed(config.sizePrecision),
+        perpSize: perpFilled.toFixed(config.sizePrecision),
+        spotPrice: getFillPrice(spotFill),
+        fundingAprPercent: market.spread.fundingAprPercent.toFixed(2),
+        basisPercent: market.spread.entryBasisPercent.toFixed(4),
+        position: this.getPositionSnapshot(config),
+      });
+    }
+  }
+
+  /**
+   * 平仓一批：先平永续空单，再卖出对应数量的现货；现货 IOC 卖不完的部分市价兜底
+   */
+  private async closeSlice(config: BasisStrategyConfig, market: BasisMarket): Promise<void> {
+    const position = this.position!;
+    const minSize = this.getMinSize();
+    const spotBid = parseFloat(market.spot.bidPr);
+    let netPnl = 0;
+    let perpClosed = 0;
+
+    if (position.perpSize >= minSize) {
+      const size = this.getSliceSize(parseFloat(config.orderAmountUsdt) / spotBid, position.perpSize);
+      const fills = await this.hedgePerp(config, 'buy', 'exit', size, parseFloat(market.perp.askPr));
+      for (const fill of fills) {
+        perpClosed += parseFloat(getFilledSize(fill));
+        netPnl += this.applyLegExit('perp', fill, config);
+      }
+      // 永续未平掉任何数量时现货保持不动，避免留下裸空
+      if (perpClosed === 0) return;
+    }
+
+    // 永续已清空时卖出全部现货，否则只卖出与已平永续等量的现货
+    const spotTarget = position.perpSize < minSize
+      ? position.spotSize
+      : Math.min(perpClosed, position.spotSize);
+    let spotRemaining = parseFloat(this.floorSize(spotTarget));
+    let spotSold = 0;
+
+    for (const orderType of ['limit', 'market'] as const) {
+      if (spotRemaining < minSize) break;
+      const fill = await this.executeLeg(
+        config, 'spot', 'sell', 'exit', this.floorSize(spotRemaining), spotBid, orderType
+      );
+      if (!fill) continue;
+      const filled = parseFloat(getFilledSize(fill));
+      spotSold += filled;
+      spotRemaining -= filled;
+      netPnl += this.applyLegExit('spot', fill, config);
+    }
+
+    if (spotRemaining >= minSize) {
+      this.emitEvent('BASIS_LEG_IMBALANCE', {
+        stage: 'close',
+        spotSize: spotSold.toFixed(config.sizePrecision),
+        perpSize: perpClosed.toFixed(config.sizePrecision),
+        unsoldSpotSize: spotRemaining.toFixed(config.sizePrecision),
+      });
+      logger.warn('现货腿未能全部卖出', { spotRemaining, perpClosed });
+    }
+
+    this.riskController?.recordPnl(netPnl);
+    const closed = this.settlePosition(config);
+    this.emitEvent('BASIS_HEDGE_CLOSED', {
+      spotSize: spotSold.toFixed(config.sizePrecision),
+      perpSize: perpClosed.toFixed(config.sizePrecision),
+      netPnl: netPnl.toFixed(4),
+      fundingAprPercent: market.spread.fundingAprPercent.toFixed(2),
+      basisPercent: market.spread.exitBasisPercent.toFixed(4),
+      fullyClosed: closed,
+    });
+  }
+
+  /**
+   * 对冲比例调整：偏离超过阈值时加减永续空单，使永续数量回到现货数量
+   */
+  private async checkHedgeRatio(config: BasisStrategyConfig, market: BasisMarket): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastHedgeCheckAt < HEDGE_CHECK_INTERVAL_MS) return;
+    this.lastHedgeCheckAt = now;
+
+    const position = this.position!;
+    const previousRatio = getHedgeRatio(position.spotSize, position.perpSize);
+    // 现货已清空而永续仍有持仓时偏离视为无穷大，整笔平掉永续
+    const deviation = previousRatio === null ? Infinity : Math.abs(previousRatio - 1) * 100;
+    if (deviation <= config.hedgeRebalanceThresholdPercent) return;
+
+    const diff = position.spotSize - position.perpSize;
+    const size = parseFloat(this.floorSize(Math.abs(diff)));
+    if (size < this.getMinSize()) return;
+
+    let adjusted = 0;
+    if (diff > 0) {
+      const fills = await this.hedgePerp(config, 'sell', 'entry', size, parseFloat(market.perp.bidPr));
+      for (const fill of fills) {
+        const filled = parseFloat(getFilledSize(fill));
+        adjusted += filled;
+        this.addToLeg('perp', filled, parseFloat(getFillPrice(fill)), this.pnlLedger.resolveOrderFee(fill));
+      }
+    } else {
+      const fills = await this.hedgePerp(config, 'buy', 'exit', size, parseFloat(market.perp.askPr));
+      let netPnl = 0;
+      for (const fill of fills) {
+        adjusted += parseFloat(getFilledSize(fill));
+        netPnl += this.applyLegExit('perp', fill, config);
+      }
+      if (adjusted > 0) this.riskController?.recordPnl(netPnl);
+    }
+    if (adjusted === 0) return;
+
+    const hedgeRatio = getHedgeRatio(position.spotSize, position.perpSize);
+    this.settlePosition(config);
+    this.emitEvent('BASIS_HEDGE_REBALANCED', {
+      side: diff > 0 ? 'sell' : 'buy',
+      adjustedSize: adjusted.toFixed(config.sizePrecision),
+      previousRatio: previousRatio === null ? null : previousRatio.toFixed(4),
+      hedgeRatio: hedgeRatio === null ? null : hedgeRatio.toFixed(4),
+    });
+  }
+
+  /**
+   * 永续腿跟单：IOC 限价最多 legRetryLimit 次（重试时按最新盘口重新定价），仍有剩余时市价补齐
+   */
+  private async hedgePerp(
+    config: BasisStrategyConfig,
+    side: 'buy' | 'sell',
+    role: OrderRole,
+    size: number,
+    refPrice: number
+  ): Promise<TrackedOrder[]> {
+    const fills: TrackedOrder[] = [];
+    const minSize = this.getMinSize();
+    const attempts = config.legRetryLimit ?? DEFAULT_LEG_RETRY_LIMIT;
+    let remaining = size;
+    let price = refPrice;
+
+    for (let attempt = 0; attempt <= attempts && remaining >= minSize; attempt++) {
+      const orderType = attempt < attempts ? 'limit' : 'market';
+      if (attempt > 0) {
+        try {
+          const ticker = await this.marketDataService.getTicker(config.symbol);
+          price = parseFloat(side === 'sell' ? ticker.bidPr : ticker.askPr);
+        } catch (error) {
+          logger.debug('永续盘口刷新失败，沿用上次价格', { error: String(error) });
+        }
+      }
+
+      const fill = await this.executeLeg(config, 'perp', side, role, this.floorSize(remaining), price, orderType);
+      if (fill) {
+        fills.push(fill);
+        remaining -= parseFloat(getFilledSize(fill));
+      }
+    }
+    return fills;
+  }
+
+  /**
+   * 启动恢复：现货余额与永续空单同时存在时视为本策略的对冲仓位接管；
+   * 现货成本无法从余额还原，均价按当前价记账
+   */
+  private async recoverPosition(config: BasisStrategyConfig): Promise<void> {
+    const positions = await this.accountService.getPositions(config.symbol);
+    const short = positions.find(p => p.holdSide === 'short');
+    const perpSize = short ? parseFloat(short.total) : 0;
+    if (!short || !(perpSize > 0)) return;
+
+    const [balance, ticker] = await Promise.all([
+      this.spotServices!.accountService.getAvailableBalance(this.spotSpec!.baseCoin),
+      this.spotServices!.marketDataService.getTicker(config.symbol),
+    ]);
+    const spotSize = parseFloat(this.floorSize(Math.min(parseFloat(balance), perpSize)));
+    if (spotSize < this.getMinSize()) {
+      logger.warn('存在永续空单但现货余额不足，不接管该持仓', { perpSize, balance });
+      return;
+    }
+
+    this.position = {
+      spotSize,
+      spotAvgPrice: parseFloat(ticker.lastPr),
+      spotEntryFees: 0,
+      perpSize,
+      perpAvgPrice: parseFloat(short.openPriceAvg),
+      perpEntryFees: 0,
+      openedAt: this.clock.now(),
+    };
+    logger.info('已接管对冲仓位', { spotSize, perpSize, perpAvgPrice: short.openPriceAvg });
+  }
+
+  // ============================================================
+  // Position accounting
+  // ============================================================
+
+  private addToLeg(leg: BasisLeg, size: number, price: number, fee: number): void {
+    if (!(size > 0)) return;
+    if (!this.position) {
+      this.position = {
+        spotSize: 0,
+        spotAvgPrice: 0,
+        spotEntryFees: 0,
+        perpSize: 0,
+        perpAvgPrice: 0,
+        perpEntryFees: 0,
+        openedAt: this.clock.now(),
+      };
+    }
+
+    const position = this.position;
+    if (leg === 'spot') {
+      position.spotAvgPrice = (position.spotAvgPrice * position.spotSize + price * size) / (position.spotSize + size);
+      position.spotSize += size;
+      position.spotEntryFees += fee;
+    } else {
+      position.perpAvgPrice = (position.perpAvgPrice * position.perpSize + price * size) / (position.perpSize + size);
+      position.perpSize += size;
+      position.perpEntryFees += fee;
+    }
+  }
+
+  /**
+   * 记录单腿平仓盈亏（以该腿持仓均价构造入场单），返回净盈亏
+   */
+  private applyLegExit(leg: BasisLeg, order: TrackedOrder, config: BasisStrategyConfig): number {
+    const position = this.position;
+    if (!position) return 0;
+
+    const legSize = leg === 'spot' ? position.spotSize : position.perpSize;
+    const avgPrice = leg === 'spot' ? position.spotAvgPrice : position.perpAvgPrice;
+    const entryFees = leg === 'spot' ? position.spotEntryFees : position.perpEntryFees;
+    const direction = leg === 'spot' ? 'long' : 'short';
+    const size = parseFloat(getFilledSize(order));
+    const feeShare = legSize > 0 ? entryFees * Math.min(size / legSize, 1) : 0;
+
+    const syntheticEntry: TrackedOrder = {
+      orderId: `${order.orderId}_avg`,
+      clientOid: '',
+      side: leg === 'spot' ? 'buy' : 'sell',
+      price: String(avgPrice),
+      avgFillPrice: String(avgPrice),
+      size: String(size),
+      filledSize: String(size),
+      fee: feeShare.toFixed(8),
+      status: 'filled',
+      linkedOrderId: order.orderId,
+      direction,
+      orderRole: 'entry',
+      createdAt: position.openedAt,
+      filledAt: position.openedAt,
+    };
+
+    const entry = this.pnlLedger.recordTrade(direction, syntheticEntry, order);
+    const netPnl = parseFloat(entry.netPnl);
+    this.realizedPnl += netPnl;
+    if (leg === 'spot') this.spotRealizedPnl += netPnl;
+    this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+
+    if (leg === 'spot') {
+      position.spotSize = Math.max(position.spotSize - size, 0);
+      position.spotEntryFees -= feeShare;
+    } else {
+      position.perpSize = Math.max(position.perpSize - size, 0);
+      position.perpEntryFees -= feeShare;
+    }
+    return netPnl;
+  }
+
+  /**
+   * 两腿都低于最小下单量时结束本轮对冲
+   * @returns true 表示仓位已清空
+   */
+  private settlePosition(config: BasisStrategyConfig): boolean {
+    const position = this.position;
+    if (!position) return true;
+    const minSize = this.getMinSize();
+    if (position.spotSize >= minSize || position.perpSize >= minSize) return false;
+
+    this.position = null;
+    this.tradeCount++;
+    logger.info('对冲仓位已清空', {
+      durationMs: this.clock.now() - position.openedAt,
+      realizedPnl: this.realizedPnl.toFixed(4),
+      symbol: config.symbol,
+    });
+    return true;
+  }
+
+  // ============================================================
+  // Order execution
+  // ============================================================
+
+  /**
+   * 下单并等待结果：限价单为 IOC，按对手价加 maxSlippagePercent 定价；
+   * 市价单只用于永续和现货卖出（现货市价买单的 size 为计价币金额）
+   * @returns 有成交时返回订单（filledSize 为实际成交量），未成交或下单失败返回 null
+   */
+  private async executeLeg(
+    config: BasisStrategyConfig,
+    leg: BasisLeg,
+    side: 'buy' | 'sell',
+    role: OrderRole,
+    size: string,
+    refPrice: number,
+    orderType: 'limit' | 'market'
+  ): Promise<TrackedOrder | null> {
+    const orderService = this.getLegOrderService(leg);
+    const pricePlace = leg === 'spot' ? this.spotSpec!.pricePlace : this.perpSpec!.pricePlace;
+    const slippage = config.maxSlippagePercent / 100;
+    const price = (side === 'buy' ? refPrice * (1 + slippage) : refPrice * (1 - slippage)).toFixed(pricePlace);
+    const clientOid = `bs_${config.symbol}_${leg === 'spot' ? 's' : 'p'}${role === 'entry' ? 'o' : 'c'}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    let orderId: string;
+    try {
+      const result = await orderService.placeOrder({
+        symbol: config.symbol,
+        size,
+        side,
+        orderType,
+        price: orderType === 'limit' ? price : undefined,
+        force: orderType === 'limit' ? 'ioc' : undefined,
+        tradeSide: leg === 'perp' && this.holdMode !== 'single_hold'
+          ? (role === 'entry' ? 'open' : 'close')
+          : undefined,
+        reduceOnly: role !== 'entry',
+        clientOid,
+      });
+      orderId = result.orderId;
+    } catch (error) {
+      logger.warn('期现套利下单失败', { leg, side, orderType, price, size, error: String(error) });
+      return null;
+    }
+
+    const order: TrackedOrder = {
+      orderId,
+      clientOid,
+      side,
+      price: orderType === 'limit' ? price : refPrice.toFixed(pricePlace),
+      size,
+      status: 'pending',
+      linkedOrderId: null,
+      direction: leg === 'spot' ? 'long' : 'short',
+      orderRole: role,
+      createdAt: this.clock.now(),
+      filledAt: null,
+    };
+    this.tracker.addOrder(order);
+    this.persistenceService?.persistNewOrder(
+      order,
+      config.symbol,
+      leg === 'spot' ? 'SPOT' : this.getProductType(config),
+      config.marginCoin || 'USDT',
+      config.instanceId
+    );
+
+    const detail = await this.settleOrder(orderService, config.symbol, orderId);
+    if (!detail) {
+      // 成交结果未知：订单留在追踪列表，残差由对冲比例调整兜底
+      logger.error('无法确认订单成交结果', { leg, orderId });
+      return null;
+    }
+
+    const filled = parseFloat(detail.filledQty) || 0;
+    const fee = parseFloat(detail.fee) > 0
+      ? detail.fee
+      : (filled * parseFloat(detail.priceAvg) * this.getLegTakerFeeRate(leg)).toFixed(8);
+    let tracked: TrackedOrder | null = null;
+    if (detail.state === 'filled') {
+      tracked = this.tracker.confirmFilled(orderId, detail.priceAvg, fee);
+    } else if (filled > 0) {
+      tracked = this.tracker.markCancelledWithFill(orderId, detail.filledQty, detail.priceAvg, fee);
+    } else {
+      this.tracker.markCancelled(orderId);
+    }
+    this.persistenceService?.persistOrderStatusChange(
+      orderId,
+      filled > 0 && detail.state === 'filled' ? 'filled' : 'cancelled',
+      filled > 0 ? this.clock.now() : null,
+      null
+    );
+
+    return tracked && filled > 0 ? tracked : null;
+  }
+
+  /**
+   * 回查订单终态：IOC 通常立即结束，仍在挂单时撤单后再查一次
+   */
+  private async settleOrder(
+    orderService: IOrderService,
+    symbol: string,
+    orderId: string
+  ): Promise<UnifiedOrderDetail | null> {
+    for (let attempt = 0; attempt < ORDER_SETTLE_ATTEMPTS; attempt++) {
+      try {
+        const detail = await orderService.getOrderDetail(symbol, orderId);
+        if (detail.state === 'filled' || detail.state === 'cancelled') return detail;
+      } catch (error) {
+        logger.debug('查询订单详情失败', { orderId, error: String(error) });
+      }
+      await this.sleep(ORDER_SETTLE_DELAY_MS);
+    }
+
+    try {
+      await orderService.cancelOrder({ symbol, orderId });
+    } catch (error) {
+      logger.debug('撤单失败（订单可能已结束）', { orderId, error: String(error) });
+    }
+    try {
+      return await orderService.getOrderDetail(symbol, orderId);
+    } catch (error) {
+      logger.warn('撤单后查询订单详情失败', { orderId, error: String(error) });
+      return null;
+    }
+  }
+
+  private async cancelAllOpenOrders(): Promise<void> {
+    if (!this.configManager || !this.spotServices) return;
+    const config = this.configManager.getBasisConfig();
+    for (const order of this.tracker.getAllOrders().filter(isOpenOrder)) {
+      try {
+        await this.getLegOrderService(this.getOrderLeg(order, config)).cancelOrder({
+          symbol: config.symbol,
+          orderId: order.orderId,
+        });
+        this.tracker.markCancelled(order.orderId);
+      } catch (error) {
+        logger.warn('撤单失败', { orderId: order.orderId, error: String(error) });
+      }
+    }
+  }
+
+  // ============================================================
+  // Helpers
+  // ============================================================
+
+  private getOrderLeg(order: TrackedOrder, config: BasisStrategyConfig): BasisLeg {
+    return order.clientOid.startsWith(`bs_${config.symbol}_s`) ? 'spot' : 'perp';
+  }
+
+  private getLegOrderService(leg: BasisLeg): IOrderService {
+    return leg === 'spot' ? this.spotServices!.orderService : this.orderService;
+  }
+
+  private getLegTakerFeeRate(leg: BasisLeg): number {
+    return (leg === 'spot' ? this.spotSpec?.takerFeeRate : this.perpSpec?.takerFeeRate) ?? 0;
+  }
+
+  private getProductType(config: BasisStrategyConfig): ProductType {
+    return config.productType || 'USDT-FUTURES';
+  }
+
+  /**
+   * 两腿共同的最小下单量
+   */
+  private getMinSize(): number {
+    const config = this.configManager?.getBasisConfig() || this.lastConfig;
+    return Math.max(
+      this.spotSpec?.minTradeNum ?? 0,
+      this.perpSpec?.minTradeNum ?? 0,
+      Math.pow(10, -config.sizePrecision)
+    );
+  }
+
+  /**
+   * 按金额换算的数量（向下取整），不足最小下单量时返回空串
+   */
+  private calculateSize(size: number): string {
+    const floored = this.floorSize(size);
+    return parseFloat(floored) >= this.getMinSize() ? floored : '';
+  }
+
+  /**
+   * 分批数量：剩余部分不足最小下单量时并入本批
+   */
+  private getSliceSize(size: number, legSize: number): number {
+    return legSize - size < this.getMinSize() ? legSize : size;
+  }
+
+  private floorSize(size: number): string {
+    const config = this.configManager?.getBasisConfig() || this.lastConfig;
+    const factor = Math.pow(10, config.sizePrecision);
+    return (Math.floor(size * factor + 1e-9) / factor).toFixed(config.sizePrecision);
+  }
+
+  /**
+   * 现货腿名义价值（按持仓均价计，USDT）
+   */
+  private calculatePositionUsdt(): number {
+    return this.position ? this.position.spotSize * this.position.spotAvgPrice : 0;
+  }
+
+  private getSpotUnrealizedPnl(market: BasisMarket): number {
+    const position = this.position;
+    if (!position) return 0;
+    return (parseFloat(market.spot.bidPr) - position.spotAvgPrice) * position.spotSize;
+  }
+
+  /**
+   * 无持仓时仍返回最新价差，便于前端观察开仓条件
+   */
+  private getPositionSnapshot(config: BasisStrategyConfig): BasisPositionSnapshot | null {
+    const position = this.position;
+    const market = this.market;
+    if (!position && !market) return null;
+
+    const hedgeRatio = position ? getHedgeRatio(position.spotSize, position.perpSize) : null;
+    return {
+      spotSize: (position?.spotSize ?? 0).toFixed(config.sizePrecision),
+      perpSize: (position?.perpSize ?? 0).toFixed(config.sizePrecision),
+      spotAvgPrice: (position?.spotAvgPrice ?? 0).toFixed(config.pricePrecision),
+      perpAvgPrice: (position?.perpAvgPrice ?? 0).toFixed(config.pricePrecision),
+      hedgeRatio: hedgeRatio === null ? null : hedgeRatio.toFixed(4),
+      notionalUsdt: this.calculatePositionUsdt().toFixed(2),
+      fundingAprPercent: market ? market.spread.fundingAprPercent.toFixed(2) : null,
+      basisPercent: market
+        ? computeBasisPercent(parseFloat(market.perp.lastPr), parseFloat(market.spot.lastPr)).toFixed(4)
+        : null,
+      nextFundingTime: market?.nextFundingTime ?? null,
+      openedAt: position?.openedAt ?? null,
+    };
+  }
+
+  private async syncFundingPayments(config: BasisStrategyConfig): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastFundingSyncAt < FUNDING_SYNC_INTERVAL_MS) return;
+    this.lastFundingSyncAt = now;
+
+    try {
+      const payments = await this.accountService.getFundingPayments(config.symbol, this.startedAt || now);
+      for (const payment of payments) {
+        const entry = this.pnlLedger.recordFunding(payment);
+        if (!entry) continue;
+        this.realizedPnl += parseFloat(entry.funding);
+        this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+        this.emitEvent('FUNDING_SETTLED', {
+          billId: payment.billId,
+          symbol: payment.symbol,
+          amount: entry.funding,
+        });
+      }
+    } catch (error) {
+      logger.debug('同步资金费失败', { error: String(error) });
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => this.clock.setTimeout(resolve, ms));
+  }
+
+  private handleLoopError(error: unknown): void {
+    this.consecutiveErrors++;
+    logger.error(`主循环错误 (${this.consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS})`, {
+      error: String(error),
+    });
+
+    if (this.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      this.status = 'ERROR';
+      this.emitEvent('STRATEGY_ERROR', {
+        consecutiveErrors: this.consecutiveErrors,
+        error: String(error),
+      });
+      logger.error('连续错误达到上限，进入 ERROR 状态', {
+        consecutiveErrors: this.consecutiveErrors,
+      });
+
+      this.clock.setTimeout(() => {
+        if (this.status === 'ERROR') {
+          logger.info('尝试从 ERROR 状态恢复');
+          this.status = 'RUNNING';
+          this.consecutiveErrors = 0;
+          this.scheduleMainLoop();
+        }
+      }, ERROR_RECOVERY_DELAY_MS);
+    }
+  }
+
+  private emitEvent(type: StrategyEventType, data: Record<string, unknown>): void {
+    const event: StrategyEvent = {
+      type,
+      timestamp: this.clock.now(),
+      data,
+    };
+    this.events.push(event);
+
+    if (this.events.length > this.maxEvents) {
+      this.events = this.events.slice(-this.maxEvents);
+    }
+
+    this.persistenceService?.persistEvent(
+      event, this.instanceId, this.strategyType, this.lastConfig.symbol, [this.lastConfig.accountId]
+    );
+
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('事件监听器执行失败', { type, error: String(error) });
+      }
+    }
+  }
+}
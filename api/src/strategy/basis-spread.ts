@@ -0,0 +1,56 @@
+/**
+ * 期现价差计算
+ * 年化资金费率 = 单期费率 × 每日结算次数 × 365；基差 = (永续价 - 现货价) / 现货价
+ */
+
+import { BasisStrategyConfig } from '../types/strategy.types';
+
+/** 资金费结算周期缺省值（小时） */
+export const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+
+/** enter: 继续建仓；exit: 价差收敛，分批平仓；hold: 维持现有仓位 */
+export type BasisSignal = 'enter' | 'exit' | 'hold';
+
+export interface BasisSpread {
+  fundingAprPercent: number;
+  /** 建仓可成交基差：永续买一 vs 现货卖一 */
+  entryBasisPercent: number;
+  /** 平仓可成交基差：永续卖一 vs 现货买一 */
+  exitBasisPercent: number;
+}
+
+/**
+ * 单期资金费率 → 年化百分比
+ */
+export function annualizeFundingRate(rate: number, intervalHours = DEFAULT_FUNDING_INTERVAL_HOURS): number {
+  const hours = intervalHours > 0 ? intervalHours : DEFAULT_FUNDING_INTERVAL_HOURS;
+  return rate * (24 / hours) * 365 * 100;
+}
+
+export function computeBasisPercent(perpPrice: number, spotPrice: number): number {
+  if (!(spotPrice > 0)) return 0;
+  return (perpPrice - spotPrice) / spotPrice * 100;
+}
+
+/**
+ * 年化资金费率或基差任一达到开仓阈值即建仓（永续空单需收取资金费，费率为负时不建仓）；
+ * 两者都回落到平仓阈值以下才平仓，中间区间维持仓位
+ */
+export function evaluateBasisSignal(config: BasisStrategyConfig, spread: BasisSpread): BasisSignal {
+  const fundingHigh = spread.fundingAprPercent >= config.entryFundingAprPercent;
+  const basisHigh = spread.entryBasisPercent >= config.entryBasisPercent;
+  if ((fundingHigh || basisHigh) && spread.fundingAprPercent >= 0) {
+    return 'enter';
+  }
+  if (spread.fundingAprPercent <= config.exitFundingAprPercent && spread.exitBasisPercent <= config.exitBasisPercent) {
+    return 'exit';
+  }
+  return 'hold';
+}
+
+/**
+ * 对冲比例 = 永续空单数量 / 现货数量，无现货持仓时为 null
+ */
+export function getHedgeRatio(spotSize: number, perpSize: number): number | null {
+  return spotSize > 0 ? perpSize / spotSize : null;
+}
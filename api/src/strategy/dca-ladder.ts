@@ -0,0 +1,98 @@
+/**
+ * DCA 安全单阶梯
+ * 第 k 个安全单相对基础单价格的偏离 = deviation × (1 + s + … + s^(k-1))（s 为偏离倍数），
+ * 金额 = safetyOrderUsdt × v^(k-1)（v 为金额倍数）
+ */
+
+import { DcaStrategyConfig } from '../types/strategy.types';
+import { EntryDirection } from './order-state-tracker';
+
+export interface DcaLadderParams {
+  safetyOrderUsdt: number;
+  deviationPercent: number;
+  stepScale: number;
+  volumeScale: number;
+}
+
+export interface SafetyOrderStep {
+  /** 安全单序号，从 1 开始 */
+  index: number;
+  /** 相对基础单价格的累计偏离（%） */
+  deviationPercent: number;
+  amountUsdt: number;
+}
+
+export function toLadderParams(config: DcaStrategyConfig): DcaLadderParams {
+  return {
+    safetyOrderUsdt: parseFloat(config.safetyOrderUsdt),
+    deviationPercent: config.safetyOrderDeviationPercent,
+    stepScale: config.safetyOrderStepScale,
+    volumeScale: config.safetyOrderVolumeScale,
+  };
+}
+
+export function getSafetyOrderStep(params: DcaLadderParams, index: number): SafetyOrderStep {
+  const { deviationPercent, stepScale, volumeScale } = params;
+  const multiplier = stepScale === 1 ? index : (Math.pow(stepScale, index) - 1) / (stepScale - 1);
+  return {
+    index,
+    deviationPercent: deviationPercent * multiplier,
+    amountUsdt: params.safetyOrderUsdt * Math.pow(volumeScale, index - 1),
+  };
+}
+
+export function buildLadder(params: DcaLadderParams, count: number): SafetyOrderStep[] {
+  const steps: SafetyOrderStep[] = [];
+  for (let i = 1; i <= count; i++) {
+    steps.push(getSafetyOrderStep(params, i));
+  }
+  return steps;
+}
+
+/**
+ * 安全单挂单价：做多向下、做空向上偏离基础单价格
+ */
+export function getSafetyOrderPrice(basePrice: number, dir: EntryDirection, deviationPercent: number): number {
+  const ratio = deviationPercent / 100;
+  return dir === 'long' ? basePrice * (1 - ratio) : basePrice * (1 + ratio);
+}
+
+/**
+ * 整个周期（基础单 + 全部安全单）最多占用的资金（USDT）
+ */
+export function getMaxCycleUsdt(baseOrderUsdt: number, params: DcaLadderParams, maxSafetyOrders: number): number {
+  return buildLadder(params, maxSafetyOrders).reduce((sum, step) => sum + step.amountUsdt, baseOrderUsdt);
+}
+
+/**
+ * 按持仓金额反推已成交的安全单数量（重启恢复用）：
+ * 累计金额超过下一档金额的一半即视为该档已成交
+ */
+export function estimateFilledSafetyOrders(
+  positionUsdt: number,
+  baseOrderUsdt: number,
+  params: DcaLadderParams,
+  maxSafetyOrders: number
+): number {
+  let total = baseOrderUsdt;
+  let count = 0;
+  while (count < maxSafetyOrders) {
+    const next = getSafetyOrderStep(params, count + 1);
+    if (positionUsdt < total + next.amountUsdt / 2) break;
+    total += next.amountUsdt;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 止盈百分比边界：下限为双边手续费（止盈单挂 maker，基础单按对手价吃单）
+ */
+export function getTakeProfitBounds(
+  makerFeeRate: number,
+  takerFeeRate?: number
+): { min: number; recommended: number; max: number } {
+  const feePercent = (makerFeeRate + (takerFeeRate ?? makerFeeRate)) * 100;
+  const min = Math.ceil(feePercent * 100) / 100;
+  return { min, recommended: Math.max(min * 5, 1), max: 10 };
+}
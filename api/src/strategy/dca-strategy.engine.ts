@@ -0,0 +1,1417 @@
+/**
+ * DCA 策略引擎（马丁格尔加仓）
+ * 单方向循环周期：
+ *   1. 空仓时（可选 RSI/趋势信号确认）按对手价挂基础单开仓，价格锚点为基础单成交价
+ *   2. 持仓期间只挂下一个安全单：价格按阶梯逆向偏离锚点，金额逐级放大，成交后摊低持仓均价
+ *   3. 始终挂一张覆盖全部持仓的止盈单（持仓均价 × (1 ± takeProfitPercent)），均价或数量变化时重挂
+ *   4. 止盈单全部成交即结束周期；安全单用完后逆向超过 stopLossPercent 时市价止损
+ *
+ * 订单推送（私有 WebSocket orders 频道，可用时）:
+ *   成交推送即时更新周期持仓，主循环对账降频为兜底
+ */
+
+import { IStrategy, StrategyEventListener } from './interfaces/i-strategy';
+import { IOrderService } from '../services/interfaces/i-order.service';
+import { IMarketDataService } from '../services/interfaces/i-market-data.service';
+import { IAccountService } from '../services/interfaces/i-account.service';
+import { IOrderUpdateStream } from '../services/interfaces/i-order-update.service';
+import { TradingServices } from '../services/trading-service.factory';
+import { ContractSpecService } from '../services/contract-spec.service';
+import { FuturesAccountService, HoldMode } from '../services/futures-account.service';
+import { CandleDataService } from '../services/candle-data.service';
+import {
+  OrderStateTracker,
+  EntryDirection,
+  isOpenOrder,
+  getFilledSize,
+  getFillPrice,
+} from './order-state-tracker';
+import { RiskController } from './risk-controller';
+import { PnlLedger } from './pnl-ledger';
+import { StartupReconciler, StartupReconcileResult } from './startup-reconciler';
+import { ExchangeStopLoss } from './exchange-stop-loss';
+import { PositionTracker, InferredPosition } from './position-tracker';
+import {
+  toLadderParams,
+  getSafetyOrderStep,
+  getSafetyOrderPrice,
+  estimateFilledSafetyOrders,
+} from './dca-ladder';
+import { StrategyConfigManager } from './strategy-config.manager';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import {
+  DcaStrategyConfig,
+  DEFAULT_DCA_CONFIG,
+  BaseStrategyConfig,
+  AnyStrategyConfig,
+  StrategyState,
+  StrategyStatus,
+  StrategyEvent,
+  StrategyEventType,
+  TrackedOrder,
+  PnlSummary,
+  PnlLedgerEntry,
+  OrderReconcileReport,
+  PositionSnapshot,
+  DcaCycleSnapshot,
+  OrderRole,
+} from '../types/strategy.types';
+import { StrategyType, UnifiedOrderUpdate, UnifiedTickerInfo } from '../types/trading.types';
+import { ContractSpecInfo } from '../types/futures.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+
+const logger = createLogger('dca-engine');
+
+const MAX_CONSECUTIVE_ERRORS = 5;
+const ERROR_RECOVERY_DELAY_MS = 30000;
+/** 订单推送在线时每 N 轮主循环做一次 REST 对账 */
+const PUSH_RECONCILE_EVERY_N_LOOPS = 5;
+/** 资金费账单同步间隔 */
+const FUNDING_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+/** 交易所侧止损同步间隔 */
+const STOP_LOSS_SYNC_INTERVAL_MS = 10 * 1000;
+/** 仓位对账默认参数 */
+const DEFAULT_POSITION_CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT = 1;
+/** 基础单按对手价挂出，超过该时间仍未成交则撤单等下一轮重新定价 */
+const BASE_ORDER_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_ENTRY_RSI_THRESHOLD = 35;
+
+/** base: 基础单；so: 安全单；tp: 止盈单；sl: 止损单 */
+type DcaOrderKind = 'base' | 'so' | 'tp' | 'sl';
+
+const ORDER_ROLES: Record<DcaOrderKind, OrderRole> = {
+  base: 'entry',
+  so: 'entry',
+  tp: 'exit',
+  sl: 'exit',
+};
+
+/**
+ * 从 DCA clientOid（dca_${symbol}_${kind}${safetyIndex}_...）解析订单种类与安全单序号
+ */
+function parseDcaClientOid(clientOid: string, prefix: string): { kind: DcaOrderKind; safetyIndex: number } | null {
+  if (!clientOid.startsWith(prefix)) return null;
+  const match = /^(base|so|tp|sl)(\d*)_/.exec(clientOid.slice(prefix.length));
+  if (!match) return null;
+  return { kind: match[1] as DcaOrderKind, safetyIndex: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+/** 当前周期：持仓数量与均价随入场成交累加，随出场成交减少 */
+interface DcaCycle {
+  direction: EntryDirection;
+  /** 安全单价格锚点 */
+  basePrice: number;
+  avgPrice: number;
+  positionSize: number;
+  /** 剩余持仓分摊的入场手续费 */
+  entryFees: number;
+  filledSafetyOrders: number;
+  /** 本周期已实现净盈亏 */
+  realizedPnl: number;
+  startedAt: number;
+}
+
+export class DcaStrategyEngine implements IStrategy {
+  readonly strategyType: StrategyType = 'dca';
+  readonly instanceId: string;
+
+  private status: StrategyStatus = 'STOPPED';
+  private configManager: StrategyConfigManager | null = null;
+  private riskController: RiskController | null = null;
+  private tracker: OrderStateTracker;
+  private cycle: DcaCycle | null = null;
+  private candleDataService: CandleDataService | null = null;
+
+  private orderService: IOrderService;
+  private marketDataService: IMarketDataService;
+  private accountService: IAccountService;
+  private orderUpdates: IOrderUpdateStream | null;
+  private unsubscribeOrderUpdates: (() => void) | null = null;
+
+  private mainLoopTimer: TimerHandle | null = null;
+  private consecutiveErrors = 0;
+  private startedAt: number | null = null;
+  private tradeCount = 0;
+  private realizedPnl = 0;
+  private pnlLedger: PnlLedger;
+  private lastFundingSyncAt = 0;
+  private exchangeStopLoss: ExchangeStopLoss | null = null;
+  private lastStopLossSyncAt = 0;
+  private positionTracker: PositionTracker | null = null;
+  private lastPositionCheckAt = 0;
+
+  private contractSpec: ContractSpecInfo | null = null;
+  private unrealizedPnl = '0';
+  private persistenceService: StrategyPersistenceService | null;
+  private clock: Clock;
+  private simulated: boolean;
+  private lastConfig: DcaStrategyConfig = DEFAULT_DCA_CONFIG;
+
+  private holdMode: HoldMode = 'double_hold';
+  // 最近事件的内存缓存，完整历史落库到 strategy_events
+  private events: StrategyEvent[] = [];
+  private maxEvents = 1000;
+  private eventListeners: Set<StrategyEventListener> = new Set();
+  private lastReconcileReport: OrderReconcileReport | null = null;
+
+  private lastPrice: string | null = null;
+  private loopCounter = 0;
+
+  constructor(services: TradingServices, instanceId = 'default') {
+    this.orderService = services.orderService;
+    this.marketDataService = services.marketDataService;
+    this.accountService = services.accountService;
+    this.orderUpdates = services.orderUpdates || null;
+    this.clock = services.clock || systemClock;
+    this.simulated = services.simulated === true;
+    this.persistenceService = this.simulated ? null : StrategyPersistenceService.getInstance();
+    this.pnlLedger = new PnlLedger(this.clock);
+    this.tracker = new OrderStateTracker(this.clock);
+    this.instanceId = instanceId;
+  }
+
+  // ============================================================
+  // IStrategy interface implementation
+  // ============================================================
+
+  /**
+   * 启动策略
+   */
+  async start(overrides?: Partial<BaseStrategyConfig>): Promise<void> {
+    if (this.status === 'RUNNING' || this.status === 'STARTING') {
+      throw new AppError(
+        ErrorCode.STRATEGY_ALREADY_RUNNING,
+        '策略已在运行中',
+        { status: this.status },
+        400
+      );
+    }
+
+    this.status = 'STARTING';
+    logger.info('DCA 策略启动中...');
+
+    try {
+      const configInput = {
+        strategyType: 'dca' as const,
+        tradingType: overrides?.tradingType || this.lastConfig.tradingType,
+        instanceId: this.instanceId,
+        ...overrides,
+      };
+      this.configManager = new StrategyConfigManager(configInput);
+      const config = this.configManager.getDcaConfig();
+
+      // 获取合约规格并自动覆盖精度
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
+        try {
+          const specService = ContractSpecService.getInstance();
+          this.contractSpec = await specService.refreshSpec(config.symbol, config.productType);
+          this.configManager.update({
+            pricePrecision: this.contractSpec.pricePlace,
+            sizePrecision: this.contractSpec.volumePlace,
+          });
+        } catch (error) {
+          logger.warn('获取合约规格失败，使用手动配置的精度', { error: String(error) });
+        }
+      }
+
+      // 检测持仓模式（单向/双向）
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
+        try {
+          const futuresAccountService = new FuturesAccountService(config.accountId);
+          this.holdMode = await futuresAccountService.getHoldMode(config.productType);
+          logger.info('持仓模式检测', { holdMode: this.holdMode });
+        } catch (error) {
+          this.holdMode = 'double_hold';
+          logger.warn('持仓模式检测失败，默认双向持仓', { error: String(error), fallback: this.holdMode });
+        }
+      }
+
+      // 获取初始权益
+      const { equity, unrealizedPL } = await this.accountService.getAccountEquity(
+        config.marginCoin || 'USDT'
+      );
+      const initialEquity = parseFloat(equity);
+      this.unrealizedPnl = unrealizedPL;
+      logger.info('初始权益', { equity: initialEquity, marginCoin: config.marginCoin, unrealizedPL });
+
+      // 初始化组件
+      const finalConfig = this.configManager.getDcaConfig();
+      this.riskController = new RiskController(finalConfig, initialEquity, this.clock, !this.simulated);
+      this.riskController.onCooldown(info => {
+        this.emitEvent('RISK_LIMIT_HIT', {
+          reason: info.reason,
+          cooldownMs: info.cooldownMs,
+          resumeAt: new Date(info.resumeAt).toISOString(),
+        });
+      });
+
+      // 重置状态
+      this.tracker.clear();
+      this.cycle = null;
+      this.consecutiveErrors = 0;
+      this.startedAt = this.clock.now();
+      this.tradeCount = 0;
+      this.realizedPnl = 0;
+      this.pnlLedger.reset();
+      this.pnlLedger.setFeeRate(this.contractSpec?.makerFeeRate ?? null);
+      this.lastFundingSyncAt = 0;
+      this.exchangeStopLoss = null;
+      this.lastStopLossSyncAt = 0;
+      this.positionTracker = null;
+      this.lastPositionCheckAt = 0;
+      this.lastPrice = null;
+
+      // 启动对账：撤掉停机前的遗留挂单并按交易所持仓重建周期，无法核实时不启动
+      const recovered = await this.reconcileOnStart(finalConfig);
+
+      this.status = 'RUNNING';
+      this.lastConfig = finalConfig;
+
+      this.persistenceService?.saveActiveConfig(this.lastConfig);
+      this.emitEvent('STRATEGY_STARTED', { config: this.lastConfig });
+      if (recovered) {
+        this.emitEvent('ORDERS_RECONCILED', { ...recovered.report });
+      }
+      if (this.cycle) {
+        this.emitEvent('DCA_CYCLE_STARTED', { ...this.getCycleSnapshot(finalConfig), recovered: true });
+      }
+      logger.info('DCA 策略已启动', {
+        symbol: finalConfig.symbol,
+        direction: finalConfig.direction,
+        maxSafetyOrders: finalConfig.maxSafetyOrders,
+        takeProfitPercent: finalConfig.takeProfitPercent,
+        recoveredCycle: this.cycle !== null,
+      });
+
+      // 开仓信号所需的 K 线数据服务（模拟环境无实时 K 线，信号视为满足）
+      if ((finalConfig.entrySignal || 'none') !== 'none' && !this.simulated) {
+        this.candleDataService = CandleDataService.getInstance();
+        if (finalConfig.useWebSocket && finalConfig.productType) {
+          this.candleDataService.enableWebSocket(
+            finalConfig.tradingType === 'futures' ? 'mc' : 'sp',
+            finalConfig.symbol
+          );
+        }
+      }
+
+      this.subscribeOrderUpdates(finalConfig.symbol);
+      this.scheduleMainLoop();
+    } catch (error) {
+      this.status = 'STOPPED';
+      logger.error('DCA 策略启动失败', { error: String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * 停止策略：撤销挂单，周期持仓保留在交易所
+   */
+  async stop(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    this.status = 'STOPPING';
+    logger.info('DCA 策略停止中...');
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    await this.cancelAllOpenOrders();
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_STOPPED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      tradeCount: this.tradeCount,
+      realizedPnl: this.realizedPnl,
+      openCycle: this.cycle ? this.getCycleSnapshot(this.lastConfig) : null,
+    });
+    if (this.cycle) {
+      logger.warn('DCA 策略已停止，周期持仓未平仓', {
+        positionSize: this.cycle.positionSize,
+        avgPrice: this.cycle.avgPrice,
+      });
+    } else {
+      logger.info('DCA 策略已停止');
+    }
+  }
+
+  /**
+   * 挂起策略：停止主循环但保留安全单与止盈单，服务重启后经启动对账接管
+   */
+  async suspend(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_SUSPENDED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      openOrders: this.tracker.getAllOrders().filter(isOpenOrder).length,
+    });
+    logger.info('DCA 策略已挂起，挂单保留在交易所');
+  }
+
+  /**
+   * 紧急停止：撤销所有挂单
+   */
+  async emergencyStop(): Promise<void> {
+    logger.warn('DCA 策略紧急停止触发！');
+    this.emitEvent('EMERGENCY_STOP', {});
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    await this.cancelAllOpenOrders();
+
+    this.status = 'STOPPED';
+    logger.warn('DCA 策略紧急停止完成');
+  }
+
+  /**
+   * 更新配置（阶梯参数变化从下一个安全单开始生效）
+   */
+  updateConfig(changes: Record<string, unknown>): BaseStrategyConfig {
+    if (this.configManager) {
+      const newConfig = this.configManager.update(changes as Partial<AnyStrategyConfig>);
+      const dcaConfig = newConfig as DcaStrategyConfig;
+      if (this.riskController) {
+        this.riskController.updateConfig(dcaConfig);
+      }
+      this.lastConfig = dcaConfig;
+      this.persistenceService?.saveActiveConfig(dcaConfig);
+      this.emitEvent('CONFIG_UPDATED', { changes, state: 'running' });
+      return dcaConfig;
+    }
+
+    // 停止状态
+    const tempManager = new StrategyConfigManager({ ...this.lastConfig, ...changes });
+    const newConfig = tempManager.getDcaConfig();
+    this.lastConfig = newConfig;
+    this.persistenceService?.saveActiveConfig(newConfig);
+    this.emitEvent('CONFIG_UPDATED', { changes, state: 'stopped' });
+    logger.info('已更新停止态配置', { changes });
+    return newConfig;
+  }
+
+  getStatus(): StrategyStatus {
+    return this.status;
+  }
+
+  /**
+   * 获取策略状态
+   */
+  getState(): StrategyState {
+    const config = this.configManager?.getDcaConfig() || this.lastConfig;
+    const riskStats = this.riskController?.getStats();
+
+    return {
+      status: this.status,
+      strategyType: 'dca',
+      tradingType: config.tradingType,
+      instanceId: this.instanceId,
+      config,
+      activeBuyOrderId: this.tracker.getActiveEntryOrderId(this.getDirection(config)),
+      lastBidPrice: this.lastPrice,
+      pendingSellCount: this.tracker.getPendingExitOrders().length,
+      totalPositionUsdt: this.calculatePositionUsdt().toFixed(2),
+      spotAvailableUsdt: '0',
+      futuresAvailableUsdt: '0',
+      realizedPnl: this.realizedPnl.toFixed(4),
+      unrealizedPnl: this.unrealizedPnl,
+      dailyPnl: riskStats ? riskStats.dailyPnl.toFixed(4) : '0',
+      tradeCount: this.tradeCount,
+      errorCount: this.consecutiveErrors,
+      lastError: null,
+      startedAt: this.startedAt,
+      uptimeMs: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      dcaCycle: this.getCycleSnapshot(config),
+    };
+  }
+
+  getTrackedOrders(): TrackedOrder[] {
+    return this.tracker.getAllOrders();
+  }
+
+  getPnlSummary(): PnlSummary {
+    const stats = this.riskController?.getStats();
+    const totals = this.pnlLedger.getTotals();
+    return {
+      realizedPnl: this.realizedPnl.toFixed(4),
+      unrealizedPnl: this.unrealizedPnl,
+      grossPnl: totals.grossPnl.toFixed(4),
+      fees: totals.fees.toFixed(4),
+      funding: totals.funding.toFixed(4),
+      netPnl: totals.netPnl.toFixed(4),
+      dailyPnl: stats ? stats.dailyPnl.toFixed(4) : '0',
+      totalTrades: stats?.totalTrades || 0,
+      winTrades: stats?.winTrades || 0,
+      lossTrades: stats?.lossTrades || 0,
+      winRate: stats ? (stats.winRate * 100).toFixed(2) : '0',
+      avgWin: stats ? stats.avgWin.toFixed(4) : '0',
+      avgLoss: stats ? stats.avgLoss.toFixed(4) : '0',
+    };
+  }
+
+  getPnlLedger(limit = 100): PnlLedgerEntry[] {
+    return this.pnlLedger.getEntries(limit);
+  }
+
+  getEvents(limit = 50): StrategyEvent[] {
+    return this.events.slice(-limit);
+  }
+
+  getReconcileReport(): OrderReconcileReport | null {
+    return this.lastReconcileReport;
+  }
+
+  getPositionSnapshots(): PositionSnapshot[] {
+    return this.positionTracker?.getSnapshots() || [];
+  }
+
+  onEvent(listener: StrategyEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  // ============================================================
+  // Main Loop
+  // ============================================================
+
+  private scheduleMainLoop(): void {
+    if (this.status !== 'RUNNING') return;
+    const config = this.configManager!.getDcaConfig();
+    this.mainLoopTimer = this.clock.setTimeout(() => this.runMainLoop(), config.pollIntervalMs);
+  }
+
+  private async runMainLoop(): Promise<void> {
+    if (this.status !== 'RUNNING') return;
+
+    try {
+      const config = this.configManager!.getDcaConfig();
+
+      // 1. 获取当前价格
+      const ticker = await this.marketDataService.getTicker(config.symbol);
+      const currentPrice = parseFloat(ticker.lastPr);
+      this.lastPrice = ticker.lastPr;
+
+      // 2. 对账：检测已成交/已撤销订单（推送在线时降频兜底）
+      if (!this.orderUpdates?.isConnected() || this.loopCounter % PUSH_RECONCILE_EVERY_N_LOOPS === 0) {
+        await this.reconcileOrders(config);
+      }
+
+      // 3. 周期管理
+      if (!this.cycle) {
+        await this.runIdle(config, ticker);
+      } else if (!this.findOpenOrder('sl')) {
+        const stopped = await this.checkStopLoss(config, currentPrice);
+        if (!stopped) {
+          await this.syncTakeProfit(config);
+          await this.placeNextSafetyOrder(config);
+        }
+      }
+
+      // 4. 心跳日志（每 10 轮）
+      this.loopCounter++;
+      if (this.loopCounter % 10 === 0) {
+        logger.info('心跳：DCA 周期', {
+          currentPrice,
+          cycle: this.getCycleSnapshot(config),
+          realizedPnl: this.realizedPnl.toFixed(4),
+          tradeCount: this.tradeCount,
+        });
+        this.tracker.cleanup();
+      }
+
+      // 5. 定期同步权益
+      try {
+        const { equity, unrealizedPL } = await this.accountService.getAccountEquity(
+          config.marginCoin || 'USDT'
+        );
+        this.unrealizedPnl = unrealizedPL;
+        this.riskController!.updateEquity(parseFloat(equity));
+      } catch (error) {
+        logger.debug('同步权益失败', { error: String(error) });
+      }
+
+      // 6. 同步资金费、交易所止损与仓位对账（合约）
+      if (config.tradingType === 'futures') {
+        await this.syncFundingPayments(config);
+        await this.syncExchangeStopLoss(config);
+        await this.checkPositions(config);
+      }
+
+      this.consecutiveErrors = 0;
+    } catch (error) {
+      this.handleLoopError(error);
+    }
+
+    this.scheduleMainLoop();
+  }
+
+  // ============================================================
+  // Cycle management
+  // ============================================================
+
+  /**
+   * 空仓阶段：撤掉上个周期遗留的安全单，基础单超时撤单，风控与开仓信号通过后挂基础单
+   */
+  private async runIdle(config: DcaStrategyConfig, ticker: UnifiedTickerInfo): Promise<void> {
+    const dir = this.getDirection(config);
+    const entry = this.tracker.getActiveEntryOrder(dir);
+    if (entry) {
+      const kind = this.getOrderKind(entry, config);
+      if (kind === 'so' || this.clock.now() - entry.createdAt >= BASE_ORDER_TIMEOUT_MS) {
+        await this.cancelTrackedOrder(entry, config);
+      }
+      return;
+    }
+
+    const riskCheck = this.riskController!.checkCanTrade(this.calculatePositionUsdt());
+    if (!riskCheck.canTrade) {
+      logger.debug('风控拒绝开仓', { reason: riskCheck.reason });
+      return;
+    }
+    if (!(await this.checkEntrySignal(config, dir))) return;
+
+    const price = dir === 'long' ? ticker.askPr : ticker.bidPr;
+    const size = this.calculateSize(parseFloat(config.orderAmountUsdt), parseFloat(price), config);
+    if (!size) return;
+
+    const order = await this.placeTrackedOrder(config, 'base', price, size);
+    if (order) {
+      logger.info('DCA 基础单已挂', { orderId: order.orderId, direction: dir, price, size });
+    }
+  }
+
+  /**
+   * 开仓信号：rsi 超卖（做空为超买）/ trend 均线与 MACD 同向；无 K 线服务时视为满足
+   */
+  private async checkEntrySignal(config: DcaStrategyConfig, dir: EntryDirection): Promise<boolean> {
+    const signal = config.entrySignal || 'none';
+    if (signal === 'none' || !this.candleDataService) return true;
+
+    try {
+      const indicators = await this.candleDataService.getLatestIndicators(config.symbol, config.productType);
+      if (signal === 'rsi') {
+        const threshold = config.entryRsiThreshold ?? DEFAULT_ENTRY_RSI_THRESHOLD;
+        return dir === 'long' ? indicators.rsi <= threshold : indicators.rsi >= 100 - threshold;
+      }
+      const bullish = indicators.ema12 > indicators.ema26 && indicators.macdHistogram > 0;
+      const bearish = indicators.ema12 < indicators.ema26 && indicators.macdHistogram < 0;
+      return dir === 'long' ? bullish : bearish;
+    } catch (error) {
+      logger.debug('获取开仓信号失败，本轮不开仓', { error: String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * 挂下一个安全单（同一时间只挂一个，成交后再挂下一个）
+   */
+  private async placeNextSafetyOrder(config: DcaStrategyConfig): Promise<void> {
+    const cycle = this.cycle;
+    if (!cycle || cycle.filledSafetyOrders >= config.maxSafetyOrders) return;
+    if (this.tracker.getActiveEntryOrder(cycle.direction)) return;
+
+    const riskCheck = this.riskController!.checkCanTrade(this.calculatePositionUsdt());
+    if (!riskCheck.canTrade) {
+      logger.debug('风控拒绝加仓', { reason: riskCheck.reason });
+      return;
+    }
+
+    const step = getSafetyOrderStep(toLadderParams(config), cycle.filledSafetyOrders + 1);
+    const priceNum = getSafetyOrderPrice(cycle.basePrice, cycle.direction, step.deviationPercent);
+    const price = priceNum.toFixed(config.pricePrecision);
+    const size = this.calculateSize(step.amountUsdt, priceNum, config);
+    if (!size) return;
+
+    const order = await this.placeTrackedOrder(config, 'so', price, size, step.index);
+    if (order) {
+      logger.info('DCA 安全单已挂', {
+        orderId: order.orderId,
+        safetyIndex: step.index,
+        deviationPercent: step.deviationPercent.toFixed(2),
+        price,
+        size,
+      });
+    }
+  }
+
+  /**
+   * 止盈单覆盖全部持仓：持仓均价或数量变化后撤单重挂
+   */
+  private async syncTakeProfit(config: DcaStrategyConfig): Promise<void> {
+    if (!this.cycle) return;
+
+    let target = this.getTakeProfitTarget(config);
+    const existing = this.findOpenOrder('tp');
+    if (existing) {
+      if (existing.price === target.price && existing.size === target.size) return;
+      if (!(await this.cancelTrackedOrder(existing, config))) return;
+      // 撤单回查可能发现止盈单已（部分）成交，按最新持仓重新计算
+      if (!this.cycle) return;
+      target = this.getTakeProfitTarget(config);
+    }
+    if (!this.validateSize(target.size, target.price)) return;
+
+    const order = await this.placeTrackedOrder(config, 'tp', target.price, target.size);
+    if (order) {
+      logger.info('DCA 止盈单已挂', {
+        orderId: order.orderId,
+        price: target.price,
+        size: target.size,
+        avgPrice: this.cycle.avgPrice.toFixed(config.pricePrecision),
+      });
+    }
+  }
+
+  /**
+   * 安全单用完后逆向超过止损比例：撤掉止盈单，市价平掉全部持仓
+   * @returns true 表示已进入止损流程，本轮不再挂止盈与安全单
+   */
+  private async checkStopLoss(config: DcaStrategyConfig, currentPrice: number): Promise<boolean> {
+    const cycle = this.cycle;
+    if (!cycle || !(config.stopLossPercent > 0)) return false;
+    if (cycle.filledSafetyOrders < config.maxSafetyOrders) return false;
+
+    const adversePercent = cycle.direction === 'long'
+      ? (cycle.avgPrice - currentPrice) / cycle.avgPrice * 100
+      : (currentPrice - cycle.avgPrice) / cycle.avgPrice * 100;
+    if (adversePercent < config.stopLossPercent) return false;
+
+    logger.warn('DCA 安全单已用完且亏损超过止损线，市价止损', {
+      avgPrice: cycle.avgPrice,
+      currentPrice,
+      adversePercent: adversePercent.toFixed(2),
+      stopLossPercent: config.stopLossPercent,
+    });
+
+    const takeProfit = this.findOpenOrder('tp');
+    if (takeProfit && !(await this.cancelTrackedOrder(takeProfit, config))) return true;
+    if (!this.cycle) return true;
+
+    const size = this.floorSize(this.cycle.positionSize, config);
+    if (!(parseFloat(size) > 0)) return true;
+    await this.placeTrackedOrder(config, 'sl', this.lastPrice || String(currentPrice), size, 0, 'market');
+    return true;
+  }
+
+  /**
+   * 持仓均价 × (1 ± takeProfitPercent)，数量向下取整到下单精度
+   */
+  private getTakeProfitTarget(config: DcaStrategyConfig): { price: string; size: string } {
+    const cycle = this.cycle!;
+    const ratio = config.takeProfitPercent / 100;
+    const price = cycle.direction === 'long' ? cycle.avgPrice * (1 + ratio) : cycle.avgPrice * (1 - ratio);
+    return {
+      price: price.toFixed(config.pricePrecision),
+      size: this.floorSize(cycle.positionSize, config),
+    };
+  }
+
+  // ============================================================
+  // Fill handling
+  // ============================================================
+
+  /**
+   * 对账：查询交易所挂单，检测已成交/已撤销的订单
+   */
+  private async reconcileOrders(config: DcaStrategyConfig): Promise<void> {
+    if (!this.tracker.getAllOrders().some(isOpenOrder)) return;
+
+    const exchangePending = await this.orderService.getPendingOrders(config.symbol);
+    for (const pending of exchangePending) {
+      this.tracker.recordPartialFill(pending.orderId, pending.filledQty);
+    }
+
+    const disappeared = this.tracker.findDisappearedOrders(new Set(exchangePending.map(o => o.orderId)));
+    for (const { order } of disappeared) {
+      try {
+        const detail = await this.orderService.getOrderDetail(config.symbol, order.orderId);
+        if (detail.state === 'filled') {
+          this.handleOrderFilled(order.orderId, detail.priceAvg, detail.fee);
+        } else if (detail.state === 'live' || detail.state === 'partially_filled') {
+          // 仍在交易所活跃，可能是查询延迟，跳过
+          logger.debug('订单仍在交易所活跃', { orderId: order.orderId, state: detail.state });
+        } else {
+          this.handleOrderCancelled(order, detail.filledQty, detail.priceAvg, detail.fee);
+        }
+      } catch (error) {
+        logger.warn('查询订单详情失败，跳过', { orderId: order.orderId, error: String(error) });
+      }
+    }
+  }
+
+  /**
+   * 完全成交（confirmFilled 幂等，推送与对账不会重复处理同一订单）
+   */
+  private handleOrderFilled(orderId: string, avgFillPrice?: string, fee?: string): void {
+    const order = this.tracker.confirmFilled(orderId, avgFillPrice, fee);
+    if (!order) return;
+    this.persistenceService?.persistOrderStatusChange(orderId, 'filled', order.filledAt, null);
+    this.applyFill(order);
+  }
+
+  /**
+   * 撤销（含交易所撤单）：有部分成交时按已成交数量更新周期
+   */
+  private handleOrderCancelled(order: TrackedOrder, filledQty: string, avgFillPrice?: string, fee?: string): void {
+    if (parseFloat(filledQty) > 0) {
+      const cancelled = this.tracker.markCancelledWithFill(order.orderId, filledQty, avgFillPrice, fee);
+      this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+      if (cancelled) this.applyFill(cancelled);
+      return;
+    }
+    this.tracker.markCancelled(order.orderId);
+    this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+  }
+
+  private applyFill(order: TrackedOrder): void {
+    const config = this.configManager!.getDcaConfig();
+    const parsed = parseDcaClientOid(order.clientOid, this.getClientOidPrefix(config));
+    if (!parsed) {
+      logger.warn('无法识别的 DCA 订单', { orderId: order.orderId, clientOid: order.clientOid });
+      return;
+    }
+
+    if (ORDER_ROLES[parsed.kind] === 'entry') {
+      this.applyEntryFill(order, parsed.kind, parsed.safetyIndex, config);
+    } else {
+      this.applyExitFill(order, parsed.kind === 'sl' ? 'stop_loss' : 'take_profit', config);
+    }
+  }
+
+  /**
+   * 入场成交：空仓时开启周期（锚定成交价），否则摊入持仓均价
+   */
+  private applyEntryFill(order: TrackedOrder, kind: DcaOrderKind, safetyIndex: number, config: DcaStrategyConfig): void {
+    const size = parseFloat(getFilledSize(order));
+    const price = parseFloat(getFillPrice(order));
+    const fee = this.pnlLedger.resolveOrderFee(order);
+    if (!(size > 0) || !(price > 0)) return;
+
+    if (!this.cycle) {
+      // 周期结束后才确认成交的安全单同样作为新周期的起点
+      this.cycle = {
+        direction: this.getDirection(config),
+        basePrice: price,
+        avgPrice: price,
+        positionSize: size,
+        entryFees: fee,
+        filledSafetyOrders: 0,
+        realizedPnl: 0,
+        startedAt: this.clock.now(),
+      };
+      this.emitEvent('DCA_CYCLE_STARTED', {
+        orderId: order.orderId,
+        kind,
+        direction: this.cycle.direction,
+        price: price.toFixed(config.pricePrecision),
+        size: size.toFixed(config.sizePrecision),
+      });
+      logger.info('DCA 周期开始', { orderId: order.orderId, price, size });
+      return;
+    }
+
+    const cycle = this.cycle;
+    const total = cycle.positionSize + size;
+    cycle.avgPrice = (cycle.avgPrice * cycle.positionSize + price * size) / total;
+    cycle.positionSize = total;
+    cycle.entryFees += fee;
+    if (kind === 'so') {
+      cycle.filledSafetyOrders = Math.max(cycle.filledSafetyOrders + 1, safetyIndex);
+    }
+
+    this.emitEvent('DCA_SAFETY_FILLED', {
+      orderId: order.orderId,
+      safetyIndex,
+      price: price.toFixed(config.pricePrecision),
+      size: size.toFixed(config.sizePrecision),
+      avgPrice: cycle.avgPrice.toFixed(config.pricePrecision),
+      positionSize: cycle.positionSize.toFixed(config.sizePrecision),
+      filledSafetyOrders: cycle.filledSafetyOrders,
+      maxSafetyOrders: config.maxSafetyOrders,
+    });
+    logger.info('DCA 安全单成交', {
+      orderId: order.orderId,
+      safetyIndex,
+      avgPrice: cycle.avgPrice,
+      positionSize: cycle.positionSize,
+    });
+  }
+
+  /**
+   * 出场成交：按持仓均价结算 PnL（入场手续费按出场数量分摊），持仓归零时结束周期
+   */
+  private applyExitFill(order: TrackedOrder, reason: 'take_profit' | 'stop_loss', config: DcaStrategyConfig): void {
+    const cycle = this.cycle;
+    if (!cycle) {
+      logger.warn('出场单成交但当前没有 DCA 周期', { orderId: order.orderId });
+      return;
+    }
+
+    const size = parseFloat(getFilledSize(order));
+    const feeShare = cycle.positionSize > 0 ? cycle.entryFees * Math.min(size / cycle.positionSize, 1) : 0;
+    const syntheticEntry: TrackedOrder = {
+      orderId: `${order.orderId}_avg`,
+      clientOid: '',
+      side: cycle.direction === 'long' ? 'buy' : 'sell',
+      price: String(cycle.avgPrice),
+      avgFillPrice: String(cycle.avgPrice),
+      size: String(size),
+      filledSize: String(size),
+      fee: feeShare.toFixed(8),
+      status: 'filled',
+      linkedOrderId: order.orderId,
+      direction: cycle.direction,
+      orderRole: 'entry',
+      createdAt: cycle.startedAt,
+      filledAt: cycle.startedAt,
+    };
+
+    const entry = this.pnlLedger.recordTrade(cycle.direction, syntheticEntry, order);
+    const netPnl = parseFloat(entry.netPnl);
+    this.realizedPnl += netPnl;
+    cycle.realizedPnl += netPnl;
+    this.riskController?.recordPnl(netPnl);
+    this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+
+    cycle.positionSize = Math.max(cycle.positionSize - size, 0);
+    cycle.entryFees -= feeShare;
+
+    if (cycle.positionSize < Math.pow(10, -config.sizePrecision)) {
+      this.closeCycle(reason, config, entry.exitPrice ?? null);
+    }
+  }
+
+  private closeCycle(
+    reason: 'take_profit' | 'stop_loss' | 'external',
+    config: DcaStrategyConfig,
+    exitPrice: string | null
+  ): void {
+    const cycle = this.cycle;
+    if (!cycle) return;
+    this.cycle = null;
+    this.tradeCount++;
+
+    this.emitEvent('DCA_CYCLE_CLOSED', {
+      reason,
+      direction: cycle.direction,
+      avgPrice: cycle.avgPrice.toFixed(config.pricePrecision),
+      exitPrice,
+      filledSafetyOrders: cycle.filledSafetyOrders,
+      netPnl: cycle.realizedPnl.toFixed(4),
+      durationMs: this.clock.now() - cycle.startedAt,
+    });
+    logger.info('DCA 周期结束', {
+      reason,
+      filledSafetyOrders: cycle.filledSafetyOrders,
+      netPnl: cycle.realizedPnl.toFixed(4),
+      totalPnl: this.realizedPnl.toFixed(4),
+    });
+  }
+
+  // ============================================================
+  // Order updates (WebSocket)
+  // ============================================================
+
+  private subscribeOrderUpdates(symbol: string): void {
+    if (!this.orderUpdates || this.unsubscribeOrderUpdates) return;
+    this.unsubscribeOrderUpdates = this.orderUpdates.subscribe(
+      symbol,
+      update => this.handleOrderUpdate(update)
+    );
+  }
+
+  private unsubscribeFromOrderUpdates(): void {
+    if (this.unsubscribeOrderUpdates) {
+      this.unsubscribeOrderUpdates();
+      this.unsubscribeOrderUpdates = null;
+    }
+  }
+
+  /**
+   * 处理订单推送：部分成交记录进度，完全成交立即更新周期
+   * 撤单推送交由主循环对账处理
+   */
+  private handleOrderUpdate(update: UnifiedOrderUpdate): void {
+    if (this.status !== 'RUNNING') return;
+    const tracked = this.tracker.getOrder(update.orderId);
+    if (!tracked || !isOpenOrder(tracked)) return;
+
+    this.tracker.addFillFee(update.orderId, update.fillFee);
+
+    if (update.state === 'partially_filled') {
+      this.tracker.recordPartialFill(update.orderId, update.filledQty, update.priceAvg);
+    } else if (update.state === 'filled') {
+      this.handleOrderFilled(update.orderId, update.priceAvg);
+    }
+  }
+
+  // ============================================================
+  // Exchange-side protection & position checks (futures)
+  // ============================================================
+
+  /**
+   * 同步交易所侧仓位止损（节流；持仓均价随安全单成交变化，止损触发价跟随更新）
+   */
+  private async syncExchangeStopLoss(config: DcaStrategyConfig): Promise<void> {
+    if (!config.exchangeStopLossEnabled) return;
+    const now = this.clock.now();
+    if (now - this.lastStopLossSyncAt < STOP_LOSS_SYNC_INTERVAL_MS) return;
+    this.lastStopLossSyncAt = now;
+
+    if (!this.exchangeStopLoss) {
+      this.exchangeStopLoss = new ExchangeStopLoss(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const changes = await this.exchangeStopLoss.sync({
+        stopLossPercent: config.exchangeStopLossPercent ?? config.stopLossPercent,
+        pricePrecision: config.pricePrecision,
+        holdMode: this.holdMode,
+      });
+      for (const change of changes) {
+        this.emitEvent('EXCHANGE_STOP_LOSS_UPDATED', { ...change });
+      }
+    } catch (error) {
+      logger.debug('同步交易所止损失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 周期仓位对账（节流）：撤掉的止盈单对应的持仓视为已在交易所外平掉
+   */
+  private async checkPositions(config: DcaStrategyConfig): Promise<void> {
+    const interval = config.positionCheckIntervalMs ?? DEFAULT_POSITION_CHECK_INTERVAL_MS;
+    if (interval <= 0) return;
+    const now = this.clock.now();
+    if (now - this.lastPositionCheckAt < interval) return;
+    this.lastPositionCheckAt = now;
+
+    if (!this.positionTracker) {
+      this.positionTracker = new PositionTracker(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const drifts = await this.positionTracker.check(this.getInferredPositions(config), {
+        sizePrecision: config.sizePrecision,
+        tolerancePercent: config.positionDriftTolerancePercent ?? DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT,
+        autoCorrect: config.positionAutoCorrect || 'off',
+        holdMode: this.holdMode,
+        onExitCancelled: order => {
+          this.tracker.markCancelled(order.orderId);
+          this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+          if (this.cycle) {
+            this.cycle.positionSize = Math.max(this.cycle.positionSize - parseFloat(order.size), 0);
+            if (this.cycle.positionSize < Math.pow(10, -config.sizePrecision)) {
+              this.closeCycle('external', config, null);
+            }
+          }
+        },
+      });
+      for (const drift of drifts) {
+        this.emitEvent('POSITION_DRIFT', { ...drift });
+      }
+    } catch (error) {
+      logger.debug('仓位对账失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 周期持仓 + 部分成交中的入场单 - 部分成交中的出场单
+   */
+  private getInferredPositions(config: DcaStrategyConfig): Record<EntryDirection, InferredPosition> {
+    const dir = this.getDirection(config);
+    const inferred: InferredPosition = { size: this.cycle?.positionSize || 0, exitOrders: [] };
+
+    const entry = this.tracker.getActiveEntryOrder(dir);
+    if (entry?.status === 'partially_filled') {
+      inferred.size += parseFloat(entry.filledSize || '0');
+    }
+    for (const exit of this.tracker.getPendingExitOrders(dir)) {
+      inferred.size -= parseFloat(exit.filledSize || '0');
+      inferred.exitOrders.push(exit);
+    }
+    inferred.size = Math.max(inferred.size, 0);
+
+    const empty: InferredPosition = { size: 0, exitOrders: [] };
+    return dir === 'long' ? { long: inferred, short: empty } : { long: empty, short: inferred };
+  }
+
+  /**
+   * 同步资金费结算到 PnL 账本（节流查询，按 billId 去重）
+   */
+  private async syncFundingPayments(config: DcaStrategyConfig): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastFundingSyncAt < FUNDING_SYNC_INTERVAL_MS) return;
+    this.lastFundingSyncAt = now;
+
+    try {
+      const payments = await this.accountService.getFundingPayments(config.symbol, this.startedAt || now);
+      for (const payment of payments) {
+        const entry = this.pnlLedger.recordFunding(payment);
+        if (!entry) continue;
+        this.realizedPnl += parseFloat(entry.funding);
+        this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+        this.emitEvent('FUNDING_SETTLED', {
+          billId: payment.billId,
+          symbol: payment.symbol,
+          amount: entry.funding,
+        });
+      }
+    } catch (error) {
+      logger.debug('同步资金费失败', { error: String(error) });
+    }
+  }
+
+  // ============================================================
+  // Startup reconciliation
+  // ============================================================
+
+  /**
+   * 启动对账：同步停机期间的订单状态，撤掉仍在挂的安全单/止盈单（周期阶段无法从订单还原），
+   * 再按交易所持仓重建周期；只在 DB 有本策略未结订单时接管持仓，避免误接手动仓位
+   */
+  private async reconcileOnStart(config: DcaStrategyConfig): Promise<StartupReconcileResult | null> {
+    if (!this.persistenceService) return null;
+
+    const clientOidPrefix = this.getClientOidPrefix(config);
+    let persisted: TrackedOrder[];
+    try {
+      persisted = await this.persistenceService.loadPendingOrders(config.symbol, config.productType || '');
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：加载未结订单失败 ${String(error)}`,
+        null,
+        503
+      );
+    }
+
+    const ownOrders = persisted.filter(o => o.clientOid.startsWith(clientOidPrefix));
+    if (ownOrders.length === 0) return null;
+
+    const reconciler = new StartupReconciler(this.orderService, this.clock);
+    const result = await reconciler.reconcile(config.symbol, ownOrders, clientOidPrefix);
+    this.lastReconcileReport = result.report;
+
+    const unmapped = ownOrders
+      .filter(order => !parseDcaClientOid(order.clientOid, clientOidPrefix))
+      .map(order => order.orderId);
+    if (unmapped.length > 0) {
+      reconciler.markUnmapped(result.report, unmapped);
+    }
+
+    if (!result.report.ok) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：${result.report.reason}`,
+        result.report,
+        409
+      );
+    }
+
+    for (const order of result.filled) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'filled', order.filledAt, null);
+    }
+    for (const order of [...result.cancelledWithFill, ...result.cancelled]) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+    }
+
+    for (const order of result.live) {
+      try {
+        await this.orderService.cancelOrder({ symbol: config.symbol, orderId: order.orderId });
+        this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+      } catch (error) {
+        throw new AppError(
+          ErrorCode.STRATEGY_RECONCILE_FAILED,
+          `启动对账失败，策略未启动：撤销遗留挂单 ${order.orderId} 失败 ${String(error)}`,
+          result.report,
+          409
+        );
+      }
+    }
+
+    await this.rebuildCycle(config);
+    return result;
+  }
+
+  /**
+   * 按交易所持仓重建周期：锚点取持仓均价（保守），已用安全单数按持仓金额反推
+   */
+  private async rebuildCycle(config: DcaStrategyConfig): Promise<void> {
+    if (config.tradingType !== 'futures') {
+      logger.warn('现货 DCA 无法从持仓还原周期，遗留持仓需手动处理');
+      return;
+    }
+
+    const dir = this.getDirection(config);
+    const positions = await this.accountService.getPositions(config.symbol);
+    const position = positions.find(p => p.holdSide === dir && parseFloat(p.total) > 0);
+    if (!position) return;
+
+    const size = parseFloat(position.total);
+    const avgPrice = parseFloat(position.openPriceAvg);
+    const filledSafetyOrders = estimateFilledSafetyOrders(
+      size * avgPrice,
+      parseFloat(config.orderAmountUsdt),
+      toLadderParams(config),
+      config.maxSafetyOrders
+    );
+    this.cycle = {
+      direction: dir,
+      basePrice: avgPrice,
+      avgPrice,
+      positionSize: size,
+      entryFees: 0,
+      filledSafetyOrders,
+      realizedPnl: 0,
+      startedAt: this.clock.now(),
+    };
+    logger.info('已按交易所持仓重建 DCA 周期', { size, avgPrice, filledSafetyOrders });
+  }
+
+  // ============================================================
+  // Helper methods
+  // ============================================================
+
+  private async placeTrackedOrder(
+    config: DcaStrategyConfig,
+    kind: DcaOrderKind,
+    price: string,
+    size: string,
+    safetyIndex = 0,
+    orderType: 'limit' | 'market' = 'limit'
+  ): Promise<TrackedOrder | null> {
+    const dir = this.cycle?.direction || this.getDirection(config);
+    const role = ORDER_ROLES[kind];
+    const side = (dir === 'long') === (role === 'entry') ? 'buy' : 'sell';
+    const suffix = kind === 'so' ? String(safetyIndex) : '';
+    const clientOid = `${this.getClientOidPrefix(config)}${kind}${suffix}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    try {
+      const result = await this.orderService.placeOrder({
+        symbol: config.symbol,
+        size,
+        side,
+        orderType,
+        price: orderType === 'limit' ? price : undefined,
+        force: orderType === 'limit' ? 'gtc' : undefined,
+        tradeSide: config.tradingType === 'futures' && this.holdMode !== 'single_hold'
+          ? (role === 'entry' ? 'open' : 'close')
+          : undefined,
+        reduceOnly: role !== 'entry',
+        clientOid,
+      });
+
+      const order: TrackedOrder = {
+        orderId: result.orderId,
+        clientOid,
+        side,
+        price,
+        size,
+        status: 'pending',
+        linkedOrderId: null,
+        direction: dir,
+        orderRole: role,
+        createdAt: this.clock.now(),
+        filledAt: null,
+      };
+      this.tracker.addOrder(order);
+      this.persistenceService?.persistNewOrder(
+        order,
+        config.symbol,
+        config.productType || '',
+        config.marginCoin || 'USDT',
+        config.instanceId
+      );
+      return order;
+    } catch (error) {
+      logger.warn('DCA 下单失败', { kind, safetyIndex, price, size, error: String(error) });
+      return null;
+    }
+  }
+
+  /**
+   * 撤单并回查成交：撤单前已（部分）成交的数量计入周期
+   * @returns false 表示撤单请求失败，订单状态交由对账处理
+   */
+  private async cancelTrackedOrder(order: TrackedOrder, config: DcaStrategyConfig): Promise<boolean> {
+    try {
+      await this.orderService.cancelOrder({ symbol: config.symbol, orderId: order.orderId });
+    } catch (error) {
+      logger.warn('撤单失败，等待对账', { orderId: order.orderId, error: String(error) });
+      return false;
+    }
+
+    try {
+      const detail = await this.orderService.getOrderDetail(config.symbol, order.orderId);
+      if (detail.state === 'filled') {
+        this.handleOrderFilled(order.orderId, detail.priceAvg, detail.fee);
+      } else {
+        this.handleOrderCancelled(order, detail.filledQty, detail.priceAvg, detail.fee);
+      }
+    } catch (error) {
+      logger.warn('撤单后查询订单详情失败，按推送记录的成交量处理', { orderId: order.orderId, error: String(error) });
+      this.handleOrderCancelled(order, order.filledSize || '0');
+    }
+    return true;
+  }
+
+  private async cancelAllOpenOrders(): Promise<void> {
+    if (!this.configManager) return;
+    const config = this.configManager.getDcaConfig();
+    for (const order of this.tracker.getAllOrders().filter(isOpenOrder)) {
+      await this.cancelTrackedOrder(order, config);
+    }
+  }
+
+  private findOpenOrder(kind: DcaOrderKind): TrackedOrder | undefined {
+    const config = this.configManager!.getDcaConfig();
+    return this.tracker.getAllOrders().find(o => isOpenOrder(o) && this.getOrderKind(o, config) === kind);
+  }
+
+  private getOrderKind(order: TrackedOrder, config: DcaStrategyConfig): DcaOrderKind | null {
+    return parseDcaClientOid(order.clientOid, this.getClientOidPrefix(config))?.kind || null;
+  }
+
+  private getClientOidPrefix(config: DcaStrategyConfig): string {
+    return `dca_${config.symbol}_`;
+  }
+
+  private getDirection(config: DcaStrategyConfig): EntryDirection {
+    return config.direction === 'short' ? 'short' : 'long';
+  }
+
+  /**
+   * 按金额计算下单数量（向下取整），不足交易所最小下单量时返回空串
+   */
+  private calculateSize(amountUsdt: number, price: number, config: DcaStrategyConfig): string {
+    if (!(price > 0)) return '';
+    const size = this.floorSize(amountUsdt / price, config);
+    return this.validateSize(size, price.toFixed(config.pricePrecision));
+  }
+
+  private floorSize(size: number, config: DcaStrategyConfig): string {
+    const factor = Math.pow(10, config.sizePrecision);
+    return (Math.floor(size * factor + 1e-9) / factor).toFixed(config.sizePrecision);
+  }
+
+  /**
+   * 验证下单数量是否满足最小要求
+   */
+  private validateSize(size: string, price: string): string {
+    const sizeNum = parseFloat(size);
+    if (sizeNum <= 0) return '';
+
+    if (this.contractSpec && sizeNum < this.contractSpec.minTradeNum) {
+      logger.warn('下单数量不足交易所最小下单量', {
+        size,
+        price,
+        minTradeNum: this.contractSpec.minTradeNum,
+      });
+      return '';
+    }
+
+    return size;
+  }
+
+  /**
+   * 周期持仓金额（按持仓均价计，USDT）
+   */
+  private calculatePositionUsdt(): number {
+    return this.cycle ? this.cycle.positionSize * this.cycle.avgPrice : 0;
+  }
+
+  private getCycleSnapshot(config: DcaStrategyConfig): DcaCycleSnapshot | null {
+    const cycle = this.cycle;
+    if (!cycle) return null;
+
+    const takeProfit = this.configManager ? this.findOpenOrder('tp') : undefined;
+    const nextStep = cycle.filledSafetyOrders < config.maxSafetyOrders
+      ? getSafetyOrderStep(toLadderParams(config), cycle.filledSafetyOrders + 1)
+      : null;
+    return {
+      direction: cycle.direction,
+      basePrice: cycle.basePrice.toFixed(config.pricePrecision),
+      avgPrice: cycle.avgPrice.toFixed(config.pricePrecision),
+      positionSize: cycle.positionSize.toFixed(config.sizePrecision),
+      filledSafetyOrders: cycle.filledSafetyOrders,
+      maxSafetyOrders: config.maxSafetyOrders,
+      takeProfitPrice: takeProfit?.price || null,
+      nextSafetyPrice: nextStep
+        ? getSafetyOrderPrice(cycle.basePrice, cycle.direction, nextStep.deviationPercent).toFixed(config.pricePrecision)
+        : null,
+      startedAt: cycle.startedAt,
+    };
+  }
+
+  private handleLoopError(error: unknown): void {
+    this.consecutiveErrors++;
+    logger.error(`主循环错误 (${this.consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS})`, {
+      error: String(error),
+    });
+
+    if (this.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      this.status = 'ERROR';
+      this.emitEvent('STRATEGY_ERROR', {
+        consecutiveErrors: this.consecutiveErrors,
+        error: String(error),
+      });
+      logger.error('连续错误达到上限，进入 ERROR 状态', {
+        consecutiveErrors: this.consecutiveErrors,
+      });
+
+      this.clock.setTimeout(() => {
+        if (this.status === 'ERROR') {
+          logger.info('尝试从 ERROR 状态恢复');
+          this.status = 'RUNNING';
+          this.consecutiveErrors = 0;
+          this.scheduleMainLoop();
+        }
+      }, ERROR_RECOVERY_DELAY_MS);
+    }
+  }
+
+  private emitEvent(type: StrategyEventType, data: Record<string, unknown>): void {
+    const event: StrategyEvent = {
+      type,
+      timestamp: this.clock.now(),
+      data,
+    };
+    this.events.push(event);
+
+    if (this.events.length > this.maxEvents) {
+      this.events = this.events.slice(-this.maxEvents);
+    }
+
+    this.persistenceService?.persistEvent(
+      event, this.instanceId, this.strategyType, this.lastConfig.symbol, [this.lastConfig.accountId]
+    );
+
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('事件监听器执行失败', { type, error: String(error) });
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * 期现套利策略定义
+ */
+
+import { StrategyDefinition } from '../strategy-registry';
+import { BasisArbitrageEngine } from '../basis-arbitrage.engine';
+import { createTradingServices } from '../../services/trading-service.factory';
+import { BasisStrategyConfig, DEFAULT_BASIS_CONFIG } from '../../types/strategy.types';
+
+export const basisStrategy: StrategyDefinition<BasisStrategyConfig> = {
+  type: 'basis',
+  label: '期现套利',
+  description: '买入现货同时做空等量永续，收取资金费并赚取基差收敛',
+  scenarios: '适合资金费率持续为正、永续溢价明显的行情，几乎不承担方向风险',
+  icon: 'SwapOutlined',
+  defaults: DEFAULT_BASIS_CONFIG,
+  configSchema: [
+    { key: 'entryFundingAprPercent', label: '开仓年化资金费率', type: 'number', required: true, min: 0, max: 1000, unit: '%' },
+    { key: 'entryBasisPercent', label: '开仓基差', type: 'number', required: true, min: 0, max: 50, unit: '%' },
+    { key: 'exitFundingAprPercent', label: '平仓年化资金费率', type: 'number', required: true, min: -1000, max: 1000, unit: '%' },
+    { key: 'exitBasisPercent', label: '平仓基差', type: 'number', required: true, min: -50, max: 50, unit: '%' },
+    {
+      key: 'maxSlippagePercent',
+      label: '最大滑点',
+      type: 'number',
+      required: true,
+      min: 0,
+      max: 5,
+      exclusiveMin: true,
+      unit: '%',
+      description: 'IOC 限价单相对对手价的最大偏离',
+    },
+    {
+      key: 'legRetryLimit',
+      label: '补单次数',
+      type: 'integer',
+      min: 0,
+      max: 10,
+      description: '单腿成交后另一腿 IOC 补单次数，用完后市价补齐',
+    },
+    {
+      key: 'hedgeRebalanceThresholdPercent',
+      label: '对冲调整阈值',
+      type: 'number',
+      required: true,
+      min: 0,
+      max: 50,
+      exclusiveMin: true,
+      unit: '%',
+    },
+  ],
+
+  validate(config) {
+    const errors: string[] = [];
+    if (config.tradingType !== 'futures') {
+      errors.push('期现套利需以合约模式运行（现货腿由策略自动管理）');
+    }
+    if (config.paperTrading) {
+      errors.push('期现套利不支持纸面交易');
+    }
+    if (config.exitFundingAprPercent > config.entryFundingAprPercent) {
+      errors.push('平仓年化资金费率不能高于开仓阈值');
+    }
+    if (config.exitBasisPercent > config.entryBasisPercent) {
+      errors.push('平仓基差不能高于开仓阈值');
+    }
+    return errors;
+  },
+
+  create(services, instanceId) {
+    // 永续腿沿用传入的合约服务，现货腿在同一交易账户下单独创建（模拟环境只有一个市场，交由引擎拒绝启动）
+    const spotServices = services.simulated
+      ? undefined
+      : createTradingServices({ tradingType: 'spot', accountId: services.accountId });
+    return new BasisArbitrageEngine(services, instanceId, spotServices);
+  },
+
+  getBounds({ spec }) {
+    // 开仓基差至少覆盖两腿开平仓四次吃单手续费
+    const feePercent = Math.ceil(spec.takerFeeRate * 4 * 100 * 100) / 100;
+    return {
+      entryBasisPercent: { min: feePercent, recommended: Math.max(feePercent * 2, 0.3), max: 5 },
+    };
+  },
+};
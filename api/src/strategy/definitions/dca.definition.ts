@@ -0,0 +1,85 @@
+/**
+ * DCA 加仓策略定义
+ */
+
+import { StrategyDefinition } from '../strategy-registry';
+import { DcaStrategyEngine } from '../dca-strategy.engine';
+import { getSafetyOrderStep, getTakeProfitBounds, toLadderParams } from '../dca-ladder';
+import { DcaStrategyConfig, DEFAULT_DCA_CONFIG } from '../../types/strategy.types';
+
+export const dcaStrategy: StrategyDefinition<DcaStrategyConfig> = {
+  type: 'dca',
+  label: 'DCA 加仓',
+  description: '逆势按阶梯分批加仓摊低均价，回到均价上方止盈',
+  scenarios: '适合有方向判断、回撤后大概率反弹的行情',
+  icon: 'FallOutlined',
+  defaults: DEFAULT_DCA_CONFIG,
+  configSchema: [
+    { key: 'safetyOrderUsdt', label: '安全单金额', type: 'decimal', required: true, min: 0, exclusiveMin: true, unit: 'USDT' },
+    { key: 'maxSafetyOrders', label: '最大安全单数', type: 'integer', required: true, min: 0, max: 50 },
+    {
+      key: 'safetyOrderDeviationPercent',
+      label: '首单偏离',
+      type: 'number',
+      required: true,
+      min: 0,
+      max: 100,
+      exclusiveMin: true,
+      exclusiveMax: true,
+      unit: '%',
+    },
+    { key: 'safetyOrderStepScale', label: '偏离倍数', type: 'number', required: true, min: 1, max: 5 },
+    { key: 'safetyOrderVolumeScale', label: '金额倍数', type: 'number', required: true, min: 1, max: 5 },
+    {
+      key: 'takeProfitPercent',
+      label: '止盈',
+      type: 'number',
+      required: true,
+      min: 0,
+      max: 100,
+      exclusiveMin: true,
+      exclusiveMax: true,
+      unit: '%',
+    },
+    {
+      key: 'entrySignal',
+      label: '开仓信号',
+      type: 'select',
+      options: [
+        { label: '无', value: 'none' },
+        { label: 'RSI', value: 'rsi' },
+        { label: '趋势', value: 'trend' },
+      ],
+    },
+    { key: 'entryRsiThreshold', label: 'RSI 阈值', type: 'number', min: 0, max: 50, exclusiveMin: true, exclusiveMax: true },
+  ],
+
+  validate(config) {
+    const errors: string[] = [];
+    if (config.direction === 'both') {
+      errors.push('DCA 策略仅支持单方向（long 或 short）');
+    }
+    if (config.tradingType === 'spot' && config.direction === 'short') {
+      errors.push('现货 DCA 仅支持做多');
+    }
+    // 做多时最后一个安全单的累计偏离不能达到 100%（挂单价 ≤ 0）
+    if (errors.length === 0 && config.direction !== 'short' && config.maxSafetyOrders > 0) {
+      const last = getSafetyOrderStep(toLadderParams(config), config.maxSafetyOrders);
+      if (last.deviationPercent >= 100) {
+        errors.push(`第 ${config.maxSafetyOrders} 个安全单累计偏离 ${last.deviationPercent.toFixed(2)}% 超过 100%，请减少安全单数量或偏离倍数`);
+      }
+    }
+    return errors;
+  },
+
+  create(services, instanceId) {
+    return new DcaStrategyEngine(services, instanceId);
+  },
+
+  getBounds({ spec }) {
+    return {
+      maxSafetyOrders: { min: 0, max: 50 },
+      takeProfitPercent: getTakeProfitBounds(spec.makerFeeRate, spec.takerFeeRate),
+    };
+  },
+};
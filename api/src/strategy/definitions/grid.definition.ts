@@ -0,0 +1,55 @@
+/**
+ * 网格策略定义
+ */
+
+import { StrategyDefinition } from '../strategy-registry';
+import { GridStrategyEngine } from '../grid-strategy.engine';
+import { GridStrategyConfig, DEFAULT_GRID_CONFIG } from '../../types/strategy.types';
+
+export const gridStrategy: StrategyDefinition<GridStrategyConfig> = {
+  type: 'grid',
+  label: '网格策略',
+  description: '在价格区间内设置网格，自动低买高卖',
+  scenarios: '适合震荡行情，无需判断方向',
+  icon: 'AppstoreOutlined',
+  defaults: DEFAULT_GRID_CONFIG,
+  configSchema: [
+    // upperPrice/lowerPrice 为 0 时启动时按当前价自动计算
+    { key: 'upperPrice', label: '上限价格', type: 'decimal', required: true, min: 0, unit: 'USDT' },
+    { key: 'lowerPrice', label: '下限价格', type: 'decimal', required: true, min: 0, unit: 'USDT' },
+    { key: 'gridCount', label: '网格数量', type: 'integer', required: true, min: 2, max: 200 },
+    {
+      key: 'gridType',
+      label: '网格类型',
+      type: 'select',
+      required: true,
+      options: [
+        { label: '等差', value: 'arithmetic' },
+        { label: '等比', value: 'geometric' },
+      ],
+    },
+    { key: 'autoRebalance', label: '自动再平衡', type: 'boolean' },
+    { key: 'rebalanceThresholdPercent', label: '再平衡阈值', type: 'number', min: 0, exclusiveMin: true, unit: '%' },
+  ],
+
+  validate(config) {
+    const upper = parseFloat(config.upperPrice);
+    const lower = parseFloat(config.lowerPrice);
+    if (upper !== 0 && lower !== 0 && upper <= lower) {
+      return ['upperPrice 必须大于 lowerPrice'];
+    }
+    return [];
+  },
+
+  create(services, instanceId) {
+    return new GridStrategyEngine(services, instanceId);
+  },
+
+  getBounds({ currentPrice, roundToPrice }) {
+    return {
+      gridCount: { min: 3, max: 200 },
+      upperPrice: { min: roundToPrice(currentPrice * 1.001), max: roundToPrice(currentPrice * 1.5) },
+      lowerPrice: { min: roundToPrice(currentPrice * 0.5), max: roundToPrice(currentPrice * 0.999) },
+    };
+  },
+};
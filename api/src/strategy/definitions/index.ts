@@ -0,0 +1,18 @@
+/**
+ * 内置策略定义（由 StrategyRegistry 在初始化时注册）
+ */
+
+import { StrategyDefinition } from '../strategy-registry';
+import { scalpingStrategy } from './scalping.definition';
+import { gridStrategy } from './grid.definition';
+import { dcaStrategy } from './dca.definition';
+import { basisStrategy } from './basis.definition';
+
+export { scalpingStrategy, gridStrategy, dcaStrategy, basisStrategy };
+
+export const BUILT_IN_STRATEGIES: StrategyDefinition[] = [
+  scalpingStrategy,
+  gridStrategy,
+  dcaStrategy,
+  basisStrategy,
+];
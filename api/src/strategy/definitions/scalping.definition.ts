@@ -0,0 +1,49 @@
+/**
+ * 剥头皮策略定义
+ */
+
+import { StrategyDefinition } from '../strategy-registry';
+import { ScalpingStrategyEngine } from '../scalping-strategy.engine';
+import { ScalpingStrategyConfig, DEFAULT_SCALPING_CONFIG } from '../../types/strategy.types';
+
+export const scalpingStrategy: StrategyDefinition<ScalpingStrategyConfig> = {
+  type: 'scalping',
+  label: '剥头皮',
+  description: '高频低价差交易，在买一价挂单，成交后加价差卖出',
+  scenarios: '适合波动小、流动性好的交易对',
+  icon: 'ThunderboltOutlined',
+  defaults: DEFAULT_SCALPING_CONFIG,
+  configSchema: [
+    { key: 'priceSpread', label: '价差', type: 'decimal', required: true, min: 0, exclusiveMin: true, unit: 'USDT' },
+    { key: 'maxPendingOrders', label: '最大挂单数', type: 'integer', required: true, min: 1, max: 500 },
+    { key: 'mergeThreshold', label: '合并阈值', type: 'integer', required: true, min: 2 },
+    { key: 'dynamicSpreadEnabled', label: '动态价差', type: 'boolean' },
+    { key: 'depthPricingEnabled', label: '盘口深度定价', type: 'boolean' },
+    { key: 'orderBookDepth', label: '失衡度档数', type: 'integer', min: 1, max: 50 },
+    { key: 'imbalanceThreshold', label: '失衡度阈值', type: 'number', min: 0, max: 1, exclusiveMin: true, exclusiveMax: true },
+    { key: 'improveQueueThresholdUsdt', label: '抢档排队金额', type: 'decimal', min: 0, unit: 'USDT' },
+  ],
+
+  validate(config) {
+    if (config.mergeThreshold > config.maxPendingOrders) {
+      return ['mergeThreshold 必须在 2 到 maxPendingOrders 之间'];
+    }
+    return [];
+  },
+
+  create(services, instanceId) {
+    return new ScalpingStrategyEngine(services, instanceId);
+  },
+
+  getBounds({ ticker, currentPrice, minProfitableSpread, roundToPrice }) {
+    const range24h = parseFloat(ticker.high24h) - parseFloat(ticker.low24h);
+    const volPct = range24h / currentPrice;
+    return {
+      priceSpread: {
+        min: roundToPrice(minProfitableSpread),
+        recommended: roundToPrice(Math.max(minProfitableSpread * 2.0, currentPrice * Math.max(volPct * 0.03, 0.0015))),
+        max: roundToPrice(range24h * 0.05),
+      },
+    };
+  },
+};
@@ -0,0 +1,181 @@
+/**
+ * 交易所侧仓位止损
+ * 为策略建立的合约仓位挂 pos_loss 止损单（触发价 = 持仓均价 × (1 ∓ 止损百分比)），
+ * 持仓均价变化时修改触发价，仓位平掉后撤销；止损单由交易所托管，API 进程退出后仍然生效
+ */
+
+import { IOrderService } from '../services/interfaces/i-order.service';
+import { IAccountService } from '../services/interfaces/i-account.service';
+import { HoldMode } from '../services/futures-account.service';
+import { EntryDirection } from './order-state-tracker';
+import { createLogger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+const logger = createLogger('exchange-stop-loss');
+
+const DIRECTIONS: EntryDirection[] = ['long', 'short'];
+
+export interface ExchangeStopLossOptions {
+  stopLossPercent: number;
+  pricePrecision: number;
+  holdMode: HoldMode;
+}
+
+export interface ExchangeStopLossChange {
+  action: 'adopted' | 'placed' | 'modified' | 'cancelled';
+  direction: EntryDirection;
+  orderId: string;
+  triggerPrice: string;
+  positionSize: string | null;
+  openPriceAvg: string | null;
+}
+
+interface StopLossOrder {
+  orderId: string;
+  triggerPrice: string;
+}
+
+export class ExchangeStopLoss {
+  private orders: Map<EntryDirection, StopLossOrder | null> = new Map([
+    ['long', null],
+    ['short', null],
+  ]);
+  private adopted = false;
+
+  constructor(
+    private readonly orderService: IOrderService,
+    private readonly accountService: IAccountService,
+    private readonly symbol: string,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * 按当前持仓同步止损单，返回本次发生的变化
+   * 首次同步时接管交易所上已有的 pos_loss（重启后不重复下单）
+   */
+  async sync(options: ExchangeStopLossOptions): Promise<ExchangeStopLossChange[]> {
+    const changes: ExchangeStopLossChange[] = [];
+    if (!this.adopted) {
+      changes.push(...await this.adoptExisting());
+    }
+
+    const positions = await this.accountService.getPositions(this.symbol);
+    for (const dir of DIRECTIONS) {
+      const position = positions.find(p => p.holdSide === dir && parseFloat(p.total) > 0);
+      const existing = this.orders.get(dir) || null;
+      try {
+        if (!position) {
+          if (existing) {
+            await this.cancel(dir, existing);
+            changes.push({ action: 'cancelled', direction: dir, ...existing, positionSize: null, openPriceAvg: null });
+          }
+          continue;
+        }
+
+        const triggerPrice = computeStopLossPrice(dir, parseFloat(position.openPriceAvg), options);
+        const context = { positionSize: position.total, openPriceAvg: position.openPriceAvg };
+        if (!existing) {
+          const orderId = await this.place(dir, triggerPrice, options.holdMode);
+          changes.push({ action: 'placed', direction: dir, orderId, triggerPrice, ...context });
+        } else if (parseFloat(existing.triggerPrice) !== parseFloat(triggerPrice)) {
+          const orderId = await this.modify(dir, existing, triggerPrice, options.holdMode);
+          changes.push({ action: 'modified', direction: dir, orderId, triggerPrice, ...context });
+        }
+      } catch (error) {
+        logger.warn(`${dir} 交易所止损同步失败`, { symbol: this.symbol, error: String(error) });
+      }
+    }
+    return changes;
+  }
+
+  /** 当前托管的止损单（按方向） */
+  getOrders(): Record<EntryDirection, StopLossOrder | null> {
+    return {
+      long: this.orders.get('long') || null,
+      short: this.orders.get('short') || null,
+    };
+  }
+
+  private async adoptExisting(): Promise<ExchangeStopLossChange[]> {
+    const pending = await this.orderService.getPendingPlanOrders(this.symbol, 'tpsl');
+    const changes: ExchangeStopLossChange[] = [];
+    for (const order of pending) {
+      if (order.planType !== 'pos_loss') continue;
+      const dir: EntryDirection = order.holdSide === 'long' || order.holdSide === 'buy' ? 'long' : 'short';
+      this.orders.set(dir, { orderId: order.orderId, triggerPrice: order.triggerPrice });
+      changes.push({
+        action: 'adopted',
+        direction: dir,
+        orderId: order.orderId,
+        triggerPrice: order.triggerPrice,
+        positionSize: null,
+        openPriceAvg: null,
+      });
+    }
+    this.adopted = true;
+    return changes;
+  }
+
+  private async place(dir: EntryDirection, triggerPrice: string, holdMode: HoldMode): Promise<string> {
+    const result = await this.orderService.placeTpslOrder({
+      symbol: this.symbol,
+      planType: 'pos_loss',
+      triggerPrice,
+      triggerType: 'mark_price',
+      holdSide: toHoldSide(dir, holdMode),
+      clientOid: `sl_${this.symbol}_${dir}_${this.clock.now()}`,
+    });
+    this.orders.set(dir, { orderId: result.orderId, triggerPrice });
+    logger.info(`${dir} 交易所止损已挂出`, { symbol: this.symbol, orderId: result.orderId, triggerPrice });
+    return result.orderId;
+  }
+
+  /**
+   * 修改触发价；原单已不存在（如已触发或被手动撤销）时重新下单
+   */
+  private async modify(
+    dir: EntryDirection,
+    existing: StopLossOrder,
+    triggerPrice: string,
+    holdMode: HoldMode
+  ): Promise<string> {
+    try {
+      await this.orderService.modifyTpslOrder({
+        symbol: this.symbol,
+        orderId: existing.orderId,
+        triggerPrice,
+        triggerType: 'mark_price',
+      });
+      this.orders.set(dir, { orderId: existing.orderId, triggerPrice });
+      return existing.orderId;
+    } catch (error) {
+      logger.warn(`${dir} 修改交易所止损失败，重新挂单`, { orderId: existing.orderId, error: String(error) });
+      this.orders.set(dir, null);
+      return this.place(dir, triggerPrice, holdMode);
+    }
+  }
+
+  private async cancel(dir: EntryDirection, existing: StopLossOrder): Promise<void> {
+    this.orders.set(dir, null);
+    try {
+      await this.orderService.cancelPlanOrder({ symbol: this.symbol, orderId: existing.orderId, category: 'tpsl' });
+    } catch (error) {
+      // 仓位平掉后交易所会自动撤销仓位止损，撤单失败可忽略
+      logger.debug(`${dir} 撤销交易所止损失败`, { orderId: existing.orderId, error: String(error) });
+    }
+  }
+}
+
+function computeStopLossPrice(dir: EntryDirection, openPriceAvg: number, options: ExchangeStopLossOptions): string {
+  const ratio = options.stopLossPercent / 100;
+  const price = dir === 'long' ? openPriceAvg * (1 - ratio) : openPriceAvg * (1 + ratio);
+  return price.toFixed(options.pricePrecision);
+}
+
+/** 双向持仓用 long/short，单向持仓用 buy/sell */
+function toHoldSide(dir: EntryDirection, holdMode: HoldMode): 'long' | 'short' | 'buy' | 'sell' {
+  if (holdMode === 'single_hold') {
+    return dir === 'long' ? 'buy' : 'sell';
+  }
+  return dir;
+}
@@ -0,0 +1,88 @@
+/**
+ * 资金费率保护
+ * 费率 > 0 时多头向空头支付，< 0 时空头支付。费率绝对值达到阈值时支付方向停止开仓：
+ * pause 模式只在下次结算前的窗口内生效（结算后恢复），bias 模式在费率超过阈值期间持续只做收取方向。
+ * 已有持仓与出场单不受影响
+ */
+
+import { EntryDirection } from './order-state-tracker';
+import { BaseStrategyConfig, FundingGuardMode } from '../types/strategy.types';
+import { FundingRateSnapshot } from '../types/futures.types';
+import { FundingRateService } from '../services/funding-rate.service';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('funding-guard');
+
+export interface FundingGuardOptions {
+  mode: FundingGuardMode;
+  thresholdPercent: number;
+  windowMs: number;
+}
+
+export interface FundingGuardDecision {
+  /** 本轮停止开仓的方向（null 表示不限制） */
+  blockedDirection: EntryDirection | null;
+  fundingRate: string;
+  nextFundingTime: number | null;
+  reason: string | null;
+}
+
+export function toFundingGuardOptions(config: BaseStrategyConfig): FundingGuardOptions {
+  return {
+    mode: config.fundingGuardMode ?? 'pause',
+    thresholdPercent: config.fundingGuardThresholdPercent ?? 0.05,
+    windowMs: (config.fundingGuardWindowMinutes ?? 30) * 60 * 1000,
+  };
+}
+
+export function evaluateFundingGuard(
+  options: FundingGuardOptions,
+  funding: FundingRateSnapshot,
+  now: number
+): FundingGuardDecision {
+  const rate = parseFloat(funding.fundingRate);
+  const ratePercent = rate * 100;
+  const decision: FundingGuardDecision = {
+    blockedDirection: null,
+    fundingRate: funding.fundingRate,
+    nextFundingTime: funding.nextFundingTime,
+    reason: null,
+  };
+  if (!Number.isFinite(rate) || rate === 0 || Math.abs(ratePercent) < options.thresholdPercent) {
+    return decision;
+  }
+
+  const payingSide: EntryDirection = rate > 0 ? 'long' : 'short';
+  if (options.mode === 'pause') {
+    // 结算时间未知时无法判断窗口，不拦截
+    if (funding.nextFundingTime === null) return decision;
+    const untilSettlement = funding.nextFundingTime - now;
+    if (untilSettlement < 0 || untilSettlement > options.windowMs) return decision;
+    decision.reason = `距资金费结算 ${Math.ceil(untilSettlement / 60000)} 分钟，费率 ${ratePercent.toFixed(4)}%，暂停${payingSide === 'long' ? '做多' : '做空'}开仓`;
+  } else {
+    decision.reason = `资金费率 ${ratePercent.toFixed(4)}% 超过阈值，只做${payingSide === 'long' ? '空' : '多'}方向`;
+  }
+  decision.blockedDirection = payingSide;
+  return decision;
+}
+
+/**
+ * 读取当前费率并判断是否拦截；未启用、现货、模拟环境或费率获取失败时返回 null（不拦截）
+ */
+export async function fetchFundingGuard(
+  config: BaseStrategyConfig,
+  simulated: boolean,
+  now: number
+): Promise<FundingGuardDecision | null> {
+  if (!config.fundingGuardEnabled || config.tradingType !== 'futures' || simulated) return null;
+  try {
+    const funding = await FundingRateService.getInstance().getCurrent(
+      config.symbol,
+      config.productType || 'USDT-FUTURES'
+    );
+    return evaluateFundingGuard(toFundingGuardOptions(config), funding, now);
+  } catch (error) {
+    logger.debug('获取资金费率失败，本轮不做资金费率保护', { error: String(error) });
+    return null;
+  }
+}
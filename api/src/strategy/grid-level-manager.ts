@@ -119,6 +119,18 @@ export class GridLevelManager {
     }
   }
 
+  /**
+   * Assign carried inventory (a filled buy order from a previous grid) to a level as buy_filled
+   */
+  assignInventory(index: number, buyOrderId: string): void {
+    const level = this.levels[index];
+    if (!level) return;
+
+    level.state = 'buy_filled';
+    level.buyOrderId = buyOrderId;
+    level.sellOrderId = null;
+  }
+
   /**
    * Find level by order ID
    */
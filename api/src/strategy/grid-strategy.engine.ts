@@ -9,19 +9,31 @@
  *   4. 卖单成交（level N）→ 状态改为 empty，计算 PnL，可在 level N-1 挂买单
  *   5. 空位（below current price, state=empty）→ 挂买单
  *   6. 风控检查
+ *
+ * 订单推送（私有 WebSocket orders 频道，可用时）:
+ *   成交推送即时更新网格位并挂对侧单，主循环对账降频为兜底
  */
 
-import { IStrategy } from './interfaces/i-strategy';
+import { IStrategy, StrategyEventListener } from './interfaces/i-strategy';
 import { IOrderService } from '../services/interfaces/i-order.service';
 import { IMarketDataService } from '../services/interfaces/i-market-data.service';
 import { IAccountService } from '../services/interfaces/i-account.service';
+import { IOrderUpdateStream } from '../services/interfaces/i-order-update.service';
 import { TradingServices } from '../services/trading-service.factory';
 import { ContractSpecService } from '../services/contract-spec.service';
 import { FuturesAccountService, HoldMode } from '../services/futures-account.service';
 import { GridLevelManager, GridLevel } from './grid-level-manager';
+import { isOpenOrder, getFilledSize, getFillPrice, getRemainingSize } from './order-state-tracker';
 import { RiskController } from './risk-controller';
+import { PnlLedger } from './pnl-ledger';
+import { StartupReconciler, StartupReconcileResult } from './startup-reconciler';
+import { ExchangeStopLoss } from './exchange-stop-loss';
+import { PositionTracker, InferredPosition } from './position-tracker';
+import { PositionTrailingStop, TrailingStopUpdate, fetchTrailingAtr, toTrailingOptions } from './position-trailing-stop';
+import { fetchFundingGuard } from './funding-guard';
 import { StrategyConfigManager } from './strategy-config.manager';
 import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import { TradeJournalService, buildRoundTrip } from '../services/trade-journal.service';
 import {
   GridStrategyConfig,
   DEFAULT_GRID_CONFIG,
@@ -33,17 +45,42 @@ import {
   StrategyEventType,
   TrackedOrder,
   PnlSummary,
+  PnlLedgerEntry,
+  OrderReconcileReport,
+  PositionSnapshot,
 } from '../types/strategy.types';
-import { StrategyType } from '../types/trading.types';
+import { StrategyType, UnifiedOrderDetail, UnifiedOrderUpdate } from '../types/trading.types';
 import { ContractSpecInfo } from '../types/futures.types';
 import { AppError, ErrorCode } from '../utils/errors';
 import { createLogger } from '../utils/logger';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
 import { PolymarketSignalService } from '../services/polymarket-signal.service';
 
 const logger = createLogger('grid-engine');
 
 const MAX_CONSECUTIVE_ERRORS = 5;
 const ERROR_RECOVERY_DELAY_MS = 30000;
+/** 订单推送在线时每 N 轮主循环做一次 REST 对账 */
+const PUSH_RECONCILE_EVERY_N_LOOPS = 5;
+/** 资金费账单同步间隔 */
+const FUNDING_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+/** 交易所侧止损同步间隔 */
+const STOP_LOSS_SYNC_INTERVAL_MS = 10 * 1000;
+/** 仓位对账默认参数 */
+const DEFAULT_POSITION_CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT = 1;
+
+/**
+ * 从网格 clientOid（grid_${symbol}_${side}_${levelIndex}_...）解析买卖方向与网格位
+ * 卖单的网格位为其对应买单所在的网格位
+ */
+function parseGridClientOid(clientOid: string, prefix: string): { side: 'buy' | 'sell'; levelIndex: number } | null {
+  if (!clientOid.startsWith(prefix)) return null;
+  const [side, index] = clientOid.slice(prefix.length).split('_');
+  const levelIndex = parseInt(index, 10);
+  if ((side !== 'buy' && side !== 'sell') || !Number.isInteger(levelIndex)) return null;
+  return { side, levelIndex };
+}
 
 export class GridStrategyEngine implements IStrategy {
   readonly strategyType: StrategyType = 'grid';
@@ -57,24 +94,41 @@ export class GridStrategyEngine implements IStrategy {
   private orderService: IOrderService;
   private marketDataService: IMarketDataService;
   private accountService: IAccountService;
+  private orderUpdates: IOrderUpdateStream | null;
+  private unsubscribeOrderUpdates: (() => void) | null = null;
 
-  private mainLoopTimer: ReturnType<typeof setTimeout> | null = null;
+  private mainLoopTimer: TimerHandle | null = null;
   private consecutiveErrors = 0;
   private startedAt: number | null = null;
   private tradeCount = 0;
   private realizedPnl = 0;
+  private pnlLedger: PnlLedger;
+  private lastFundingSyncAt = 0;
+  private exchangeStopLoss: ExchangeStopLoss | null = null;
+  private lastStopLossSyncAt = 0;
+  private positionTracker: PositionTracker | null = null;
+  private lastPositionCheckAt = 0;
+  private trailingStops: PositionTrailingStop | null = null;
+  /** 资金费率保护是否正在暂停挂买单（网格只做多，费率为正时多头支付） */
+  private fundingGuardActive = false;
 
   private contractSpec: ContractSpecInfo | null = null;
   private unrealizedPnl = '0';
-  private persistenceService: StrategyPersistenceService;
+  private persistenceService: StrategyPersistenceService | null;
+  private tradeJournal: TradeJournalService | null;
+  private clock: Clock;
+  private simulated: boolean;
   private lastConfig: GridStrategyConfig = DEFAULT_GRID_CONFIG;
 
   /** Order tracking map: orderId -> TrackedOrder */
   private trackedOrders: Map<string, TrackedOrder> = new Map();
 
   private holdMode: HoldMode = 'double_hold';
+  // 最近事件的内存缓存，完整历史落库到 strategy_events
   private events: StrategyEvent[] = [];
   private maxEvents = 1000;
+  private eventListeners: Set<StrategyEventListener> = new Set();
+  private lastReconcileReport: OrderReconcileReport | null = null;
 
   /** Last known price for state reporting */
   private lastPrice: string | null = null;
@@ -84,7 +138,12 @@ export class GridStrategyEngine implements IStrategy {
     this.orderService = services.orderService;
     this.marketDataService = services.marketDataService;
     this.accountService = services.accountService;
-    this.persistenceService = StrategyPersistenceService.getInstance();
+    this.orderUpdates = services.orderUpdates || null;
+    this.clock = services.clock || systemClock;
+    this.simulated = services.simulated === true;
+    this.persistenceService = this.simulated ? null : StrategyPersistenceService.getInstance();
+    this.tradeJournal = this.simulated ? null : TradeJournalService.getInstance();
+    this.pnlLedger = new PnlLedger(this.clock);
     this.instanceId = instanceId;
   }
 
@@ -132,7 +191,7 @@ export class GridStrategyEngine implements IStrategy {
       }
 
       // 获取合约规格并自动覆盖精度
-      if (config.tradingType === 'futures' && config.productType) {
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
         try {
           const specService = ContractSpecService.getInstance();
           this.contractSpec = await specService.refreshSpec(config.symbol, config.productType);
@@ -156,9 +215,9 @@ export class GridStrategyEngine implements IStrategy {
       }
 
       // 检测持仓模式（单向/双向）
-      if (config.tradingType === 'futures' && config.productType) {
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
         try {
-          const futuresAccountService = new FuturesAccountService();
+          const futuresAccountService = new FuturesAccountService(config.accountId);
           this.holdMode = await futuresAccountService.getHoldMode(config.productType);
           logger.info('持仓模式检测', { holdMode: this.holdMode });
         } catch (error) {
@@ -179,7 +238,14 @@ export class GridStrategyEngine implements IStrategy {
 
       // 初始化组件
       const finalConfig = this.configManager.getGridConfig();
-      this.riskController = new RiskController(finalConfig, initialEquity);
+      this.riskController = new RiskController(finalConfig, initialEquity, this.clock, !this.simulated);
+      this.riskController.onCooldown(info => {
+        this.emitEvent('RISK_LIMIT_HIT', {
+          reason: info.reason,
+          cooldownMs: info.cooldownMs,
+          resumeAt: new Date(info.resumeAt).toISOString(),
+        });
+      });
 
       // 创建网格位管理器
       this.gridManager = new GridLevelManager({
@@ -195,17 +261,32 @@ export class GridStrategyEngine implements IStrategy {
       // 重置状态
       this.trackedOrders.clear();
       this.consecutiveErrors = 0;
-      this.startedAt = Date.now();
+      this.startedAt = this.clock.now();
       this.tradeCount = 0;
       this.realizedPnl = 0;
+      this.pnlLedger.reset();
+      this.pnlLedger.setFeeRate(this.contractSpec?.makerFeeRate ?? null);
+      this.lastFundingSyncAt = 0;
+      this.exchangeStopLoss = null;
+      this.lastStopLossSyncAt = 0;
+      this.positionTracker = null;
+      this.lastPositionCheckAt = 0;
+      this.trailingStops = new PositionTrailingStop(toTrailingOptions(finalConfig), this.clock);
+      this.fundingGuardActive = false;
       this.lastPrice = null;
 
+      // 启动对账：还原网格位挂单状态，无法核实时不启动（保持交易所现状）
+      const recovered = await this.reconcileOnStart(finalConfig);
+
       this.status = 'RUNNING';
       this.lastConfig = finalConfig;
 
       // 保存配置到 DB
-      this.persistenceService.saveActiveConfig(this.lastConfig);
+      this.persistenceService?.saveActiveConfig(this.lastConfig);
       this.emitEvent('STRATEGY_STARTED', { config: this.lastConfig });
+      if (recovered) {
+        this.emitEvent('ORDERS_RECONCILED', { ...recovered.report });
+      }
       logger.info('网格策略已启动', {
         symbol: finalConfig.symbol,
         upperPrice: finalConfig.upperPrice,
@@ -215,7 +296,12 @@ export class GridStrategyEngine implements IStrategy {
         gridSpacing: this.gridManager.getGridSpacing(),
       });
 
-      // 启动主循环
+      if (recovered) {
+        await this.applyRecoveredFills(recovered, finalConfig);
+      }
+
+      // 订阅订单推送 + 启动主循环
+      this.subscribeOrderUpdates(finalConfig.symbol);
       this.scheduleMainLoop();
     } catch (error) {
       this.status = 'STOPPED';
@@ -237,22 +323,45 @@ export class GridStrategyEngine implements IStrategy {
 
     // 停止主循环
     if (this.mainLoopTimer) {
-      clearTimeout(this.mainLoopTimer);
+      this.clock.clearTimeout(this.mainLoopTimer);
       this.mainLoopTimer = null;
     }
+    this.unsubscribeFromOrderUpdates();
 
     // 撤销所有挂单
     await this.cancelAllPendingOrders();
 
     this.status = 'STOPPED';
     this.emitEvent('STRATEGY_STOPPED', {
-      uptime: this.startedAt ? Date.now() - this.startedAt : 0,
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
       tradeCount: this.tradeCount,
       realizedPnl: this.realizedPnl,
     });
     logger.info('网格策略已停止');
   }
 
+  /**
+   * 挂起策略：停止主循环但保留网格挂单，服务重启后经启动对账接管
+   */
+  async suspend(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_SUSPENDED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      openOrders: Array.from(this.trackedOrders.values()).filter(isOpenOrder).length,
+    });
+    logger.info('网格策略已挂起，挂单保留在交易所');
+  }
+
   /**
    * 紧急停止：撤销所有挂单
    */
@@ -262,9 +371,10 @@ export class GridStrategyEngine implements IStrategy {
 
     // 先停循环
     if (this.mainLoopTimer) {
-      clearTimeout(this.mainLoopTimer);
+      this.clock.clearTimeout(this.mainLoopTimer);
       this.mainLoopTimer = null;
     }
+    this.unsubscribeFromOrderUpdates();
 
     // 批量撤单
     await this.cancelAllPendingOrders();
@@ -273,6 +383,77 @@ export class GridStrategyEngine implements IStrategy {
     logger.warn('网格策略紧急停止完成');
   }
 
+  /**
+   * 停止并平仓（市场状态切换时使用）：持有库存的网格位撤卖单后市价卖出，其余挂单撤销
+   */
+  async flatten(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    this.status = 'STOPPING';
+    logger.info('网格策略停止并平仓中...');
+
+    if (this.mainLoopTimer) {
+      this.clock.clearTimeout(this.mainLoopTimer);
+      this.mainLoopTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    let closed = 0;
+    if (this.gridManager && this.configManager) {
+      const config = this.configManager.getGridConfig();
+      const closeOrders: TrackedOrder[] = [];
+      let currentPrice = 0;
+      try {
+        currentPrice = parseFloat((await this.marketDataService.getTicker(config.symbol)).lastPr) || 0;
+      } catch (error) {
+        logger.debug('平仓获取行情失败', { error: String(error) });
+      }
+
+      for (const level of this.gridManager.getLevels().filter(l => l.state === 'sell_pending')) {
+        const sellOrder = level.sellOrderId ? this.trackedOrders.get(level.sellOrderId) : undefined;
+        if (!sellOrder || !isOpenOrder(sellOrder)) continue;
+        try {
+          const close = await this.closeLevelAtMarket(level, sellOrder, currentPrice, config, 'flat');
+          if (close) closeOrders.push(close);
+        } catch (error) {
+          logger.warn('平仓时处理网格卖单失败', { levelIndex: level.index, error: String(error) });
+        }
+      }
+
+      // 市价单通常即时成交，回查一次完成记账后再撤剩余买单
+      await this.settleMarketCloses(closeOrders, config);
+
+      // 撤单后仍持有的库存（部分成交的买单、未能挂出卖单的网格位）同样市价卖出
+      const inventory = await this.cancelAllPendingOrders();
+      const inventoryCloses: TrackedOrder[] = [];
+      for (const buyOrder of inventory) {
+        const level = this.gridManager.findLevelByOrderId(buyOrder.orderId);
+        if (!level) continue;
+        try {
+          const size = parseFloat(getFilledSize(buyOrder)).toFixed(config.sizePrecision);
+          inventoryCloses.push(
+            await this.placeMarketClose(level, size, buyOrder.orderId, currentPrice, config, 'flat')
+          );
+        } catch (error) {
+          logger.warn('平仓时卖出网格库存失败', { levelIndex: level.index, error: String(error) });
+        }
+      }
+      await this.settleMarketCloses(inventoryCloses, config);
+      closed = closeOrders.length + inventoryCloses.length;
+    }
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_STOPPED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      tradeCount: this.tradeCount,
+      realizedPnl: this.realizedPnl,
+      flattened: closed,
+    });
+    logger.info('网格策略已停止并平仓', { closeOrders: closed });
+  }
+
   /**
    * 更新配置
    */
@@ -283,8 +464,9 @@ export class GridStrategyEngine implements IStrategy {
       if (this.riskController) {
         this.riskController.updateConfig(gridConfig);
       }
+      this.trailingStops?.updateOptions(toTrailingOptions(gridConfig));
       this.lastConfig = gridConfig;
-      this.persistenceService.saveActiveConfig(gridConfig);
+      this.persistenceService?.saveActiveConfig(gridConfig);
       this.emitEvent('CONFIG_UPDATED', { changes, state: 'running' });
       return gridConfig;
     }
@@ -293,7 +475,7 @@ export class GridStrategyEngine implements IStrategy {
     const tempManager = new StrategyConfigManager({ ...this.lastConfig, ...changes });
     const newConfig = tempManager.getGridConfig();
     this.lastConfig = newConfig;
-    this.persistenceService.saveActiveConfig(newConfig);
+    this.persistenceService?.saveActiveConfig(newConfig);
     this.emitEvent('CONFIG_UPDATED', { changes, state: 'stopped' });
     logger.info('已更新停止态配置', { changes });
     return newConfig;
@@ -335,7 +517,8 @@ export class GridStrategyEngine implements IStrategy {
       errorCount: this.consecutiveErrors,
       lastError: null,
       startedAt: this.startedAt,
-      uptimeMs: this.startedAt ? Date.now() - this.startedAt : 0,
+      uptimeMs: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      trailingStops: this.trailingStops?.getSnapshots(config.pricePrecision) ?? [],
     };
   }
 
@@ -345,9 +528,14 @@ export class GridStrategyEngine implements IStrategy {
 
   getPnlSummary(): PnlSummary {
     const stats = this.riskController?.getStats();
+    const totals = this.pnlLedger.getTotals();
     return {
       realizedPnl: this.realizedPnl.toFixed(4),
       unrealizedPnl: this.unrealizedPnl,
+      grossPnl: totals.grossPnl.toFixed(4),
+      fees: totals.fees.toFixed(4),
+      funding: totals.funding.toFixed(4),
+      netPnl: totals.netPnl.toFixed(4),
       dailyPnl: stats ? stats.dailyPnl.toFixed(4) : '0',
       totalTrades: stats?.totalTrades || 0,
       winTrades: stats?.winTrades || 0,
@@ -358,10 +546,29 @@ export class GridStrategyEngine implements IStrategy {
     };
   }
 
+  getPnlLedger(limit = 100): PnlLedgerEntry[] {
+    return this.pnlLedger.getEntries(limit);
+  }
+
   getEvents(limit = 50): StrategyEvent[] {
     return this.events.slice(-limit);
   }
 
+  getReconcileReport(): OrderReconcileReport | null {
+    return this.lastReconcileReport;
+  }
+
+  getPositionSnapshots(): PositionSnapshot[] {
+    return this.positionTracker?.getSnapshots() || [];
+  }
+
+  onEvent(listener: StrategyEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
   // ============================================================
   // Main Loop
   // ============================================================
@@ -369,7 +576,7 @@ export class GridStrategyEngine implements IStrategy {
   private scheduleMainLoop(): void {
     if (this.status !== 'RUNNING') return;
     const config = this.configManager!.getGridConfig();
-    this.mainLoopTimer = setTimeout(() => this.runMainLoop(), config.pollIntervalMs);
+    this.mainLoopTimer = this.clock.setTimeout(() => this.runMainLoop(), config.pollIntervalMs);
   }
 
   private async runMainLoop(): Promise<void> {
@@ -398,17 +605,23 @@ export class GridStrategyEngine implements IStrategy {
       const positionUsdt = parseFloat(this.calculateTotalPositionUsdt());
       const riskCheck = this.riskController!.checkCanTrade(positionUsdt);
 
-      // 4. 对账：检测已成交订单
-      await this.reconcileOrders(config, currentPrice);
+      // 4. 对账：检测已成交订单（推送在线时降频兜底）
+      if (!this.orderUpdates?.isConnected() || this.loopCounter % PUSH_RECONCILE_EVERY_N_LOOPS === 0) {
+        await this.reconcileOrders(config, currentPrice);
+      }
+
+      // 5. 单笔追踪止损：回撤触发时卖单改市价
+      await this.checkTrailingStops(config, currentPrice);
 
-      // 5. 挂新的买单（仅在风控允许时）
-      if (riskCheck.canTrade) {
+      // 6. 挂新的买单（仅在风控允许、且资金费率保护未暂停做多时；已挂买单保留）
+      const fundingPaused = await this.updateFundingGuard(config);
+      if (riskCheck.canTrade && !fundingPaused) {
         await this.placeBuyOrders(config, currentPrice);
-      } else {
+      } else if (!riskCheck.canTrade) {
         logger.debug('风控拒绝交易', { reason: riskCheck.reason });
       }
 
-      // 6. 心跳日志（每 10 轮）
+      // 7. 心跳日志（每 10 轮）
       this.loopCounter++;
       if (this.loopCounter % 10 === 0) {
         const levels = this.gridManager?.getLevels() || [];
@@ -428,7 +641,7 @@ export class GridStrategyEngine implements IStrategy {
         });
       }
 
-      // 7. 定期同步权益
+      // 8. 定期同步权益
       try {
         const { equity, unrealizedPL } = await this.accountService.getAccountEquity(
           config.marginCoin || 'USDT'
@@ -439,6 +652,13 @@ export class GridStrategyEngine implements IStrategy {
         logger.debug('同步权益失败', { error: String(error) });
       }
 
+      // 9. 同步资金费、交易所止损与仓位对账（合约）
+      if (config.tradingType === 'futures') {
+        await this.syncFundingPayments(config);
+        await this.syncExchangeStopLoss(config);
+        await this.checkPositions(config);
+      }
+
       this.consecutiveErrors = 0;
     } catch (error) {
       this.handleLoopError(error);
@@ -492,8 +712,8 @@ export class GridStrategyEngine implements IStrategy {
       breachPercent: `${breachPercent}%`,
     });
 
-    // 1. 撤销所有挂单
-    await this.cancelAllPendingOrders();
+    // 1. 撤销所有挂单，回查成交量，已持有的库存带入新网格
+    const inventory = await this.cancelAllPendingOrders();
 
     // 2. 以当前价为中心重建网格（宏观信号调整网格宽度）
     const gridRange = (upperPrice - lowerPrice) * macroGridAdj.widthMultiplier;
@@ -519,11 +739,11 @@ export class GridStrategyEngine implements IStrategy {
       sizePrecision: newConfig.sizePrecision,
     });
 
-    // 4. 清理旧的追踪订单
-    this.trackedOrders.clear();
+    // 4. 旧的追踪订单只保留带入新网格的库存买单
+    this.trackedOrders = new Map(inventory.map(order => [order.orderId, order]));
 
     // 5. 保存新配置到 DB
-    this.persistenceService.saveActiveConfig(newConfig);
+    this.persistenceService?.saveActiveConfig(newConfig);
 
     this.emitEvent('GRID_REBALANCED', {
       reason: breachDirection,
@@ -534,14 +754,19 @@ export class GridStrategyEngine implements IStrategy {
       newLowerPrice: newConfig.lowerPrice,
       currentPrice,
       gridSpacing: this.gridManager.getGridSpacing(),
+      carriedInventory: inventory.length,
     });
 
     logger.info('网格再平衡完成', {
       newUpperPrice: newConfig.upperPrice,
       newLowerPrice: newConfig.lowerPrice,
       gridSpacing: this.gridManager.getGridSpacing(),
+      carriedInventory: inventory.length,
     });
 
+    // 6. 库存在新网格挂卖单
+    await this.carryInventory(inventory, newConfig, currentPrice);
+
     return true;
   }
 
@@ -562,6 +787,10 @@ export class GridStrategyEngine implements IStrategy {
     const exchangePending = await this.orderService.getPendingOrders(config.symbol);
     const exchangePendingIds = new Set(exchangePending.map(o => o.orderId));
 
+    for (const pending of exchangePending) {
+      this.recordFillProgress(pending.orderId, pending.filledQty);
+    }
+
     // 找出不在交易所挂单列表中的订单（已成交或已撤销）
     const disappeared = pendingOrderIds.filter(id => !exchangePendingIds.has(id));
 
@@ -576,14 +805,25 @@ export class GridStrategyEngine implements IStrategy {
         }
 
         if (detail.state === 'filled') {
-          if (level.state === 'buy_pending' && level.buyOrderId === orderId) {
-            await this.handleBuyFilled(level, config, currentPrice);
-          } else if (level.state === 'sell_pending' && level.sellOrderId === orderId) {
-            this.handleSellFilled(level, config);
-          }
+          this.recordFillProgress(orderId, detail.filledQty, detail.priceAvg, detail.fee);
+          await this.applyOrderFilled(level, orderId, config, currentPrice);
         } else if (detail.state === 'live' || detail.state === 'partially_filled') {
           // 仍在交易所活跃，可能是查询延迟，跳过
           logger.debug('订单仍在交易所活跃', { orderId, state: detail.state });
+        } else if (
+          parseFloat(detail.filledQty) > 0 &&
+          level.state === 'buy_pending' &&
+          level.buyOrderId === orderId
+        ) {
+          // 买单部分成交后被撤：按已成交数量挂卖单
+          logger.info('网格买单部分成交后被撤销', {
+            orderId,
+            levelIndex: level.index,
+            filledQty: detail.filledQty,
+            size: level.size,
+          });
+          this.markBuyCancelledWithFill(orderId, detail.filledQty, detail.priceAvg, detail.fee);
+          await this.handleBuyFilled(level, config, currentPrice);
         } else {
           // 被交易所撤销（cancelled 或其他终态）
           logger.info('订单被交易所撤销，重置网格位', {
@@ -593,7 +833,7 @@ export class GridStrategyEngine implements IStrategy {
           });
           this.gridManager.updateLevelState(level.index, 'empty');
           this.updateTrackedOrderStatus(orderId, 'cancelled');
-          this.persistenceService.persistOrderStatusChange(orderId, 'cancelled', null, null);
+          this.persistenceService?.persistOrderStatusChange(orderId, 'cancelled', null, null);
         }
       } catch (error) {
         logger.warn('查询订单详情失败，跳过', { orderId, error: String(error) });
@@ -601,6 +841,331 @@ export class GridStrategyEngine implements IStrategy {
     }
   }
 
+  /**
+   * 成交分派：买单成交挂卖单，卖单成交结算
+   * 网格位状态在首个 await 之前同步更新，推送与对账不会重复处理同一订单
+   */
+  private async applyOrderFilled(
+    level: GridLevel,
+    orderId: string,
+    config: GridStrategyConfig,
+    currentPrice: number
+  ): Promise<void> {
+    if (level.state === 'buy_pending' && level.buyOrderId === orderId) {
+      await this.handleBuyFilled(level, config, currentPrice);
+    } else if (level.state === 'sell_pending' && level.sellOrderId === orderId) {
+      this.handleSellFilled(level, config);
+    }
+  }
+
+  /**
+   * 同步交易所侧仓位止损（节流；持仓均价随成交变化，止损触发价跟随更新）
+   */
+  private async syncExchangeStopLoss(config: GridStrategyConfig): Promise<void> {
+    if (!config.exchangeStopLossEnabled) return;
+    const now = this.clock.now();
+    if (now - this.lastStopLossSyncAt < STOP_LOSS_SYNC_INTERVAL_MS) return;
+    this.lastStopLossSyncAt = now;
+
+    if (!this.exchangeStopLoss) {
+      this.exchangeStopLoss = new ExchangeStopLoss(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const changes = await this.exchangeStopLoss.sync({
+        stopLossPercent: config.exchangeStopLossPercent ?? config.stopLossPercent,
+        pricePrecision: config.pricePrecision,
+        holdMode: this.holdMode,
+      });
+      for (const change of changes) {
+        this.emitEvent('EXCHANGE_STOP_LOSS_UPDATED', { ...change });
+      }
+    } catch (error) {
+      logger.debug('同步交易所止损失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 网格仓位对账（节流）：漂移确认后发出 POSITION_DRIFT，撤掉的卖单所在网格位重置为空
+   */
+  private async checkPositions(config: GridStrategyConfig): Promise<void> {
+    const interval = config.positionCheckIntervalMs ?? DEFAULT_POSITION_CHECK_INTERVAL_MS;
+    if (interval <= 0 || !this.gridManager) return;
+    const now = this.clock.now();
+    if (now - this.lastPositionCheckAt < interval) return;
+    this.lastPositionCheckAt = now;
+
+    if (!this.positionTracker) {
+      this.positionTracker = new PositionTracker(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const drifts = await this.positionTracker.check(this.getInferredPositions(), {
+        sizePrecision: config.sizePrecision,
+        tolerancePercent: config.positionDriftTolerancePercent ?? DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT,
+        autoCorrect: config.positionAutoCorrect || 'off',
+        holdMode: this.holdMode,
+        onExitCancelled: order => {
+          const level = this.gridManager?.findLevelByOrderId(order.orderId);
+          if (level) {
+            this.gridManager!.updateLevelState(level.index, 'empty');
+          }
+          this.updateTrackedOrderStatus(order.orderId, 'cancelled');
+          this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+        },
+      });
+      for (const drift of drifts) {
+        this.emitEvent('POSITION_DRIFT', { ...drift });
+      }
+    } catch (error) {
+      logger.debug('仓位对账失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 网格只做多：已成交未卖出的网格位 + 挂卖中的剩余数量 + 部分成交中的买单
+   */
+  private getInferredPositions(): Record<'long' | 'short', InferredPosition> {
+    const long: InferredPosition = { size: 0, exitOrders: [] };
+    for (const level of this.gridManager?.getLevels() || []) {
+      if (level.state === 'buy_pending') {
+        const buyOrder = level.buyOrderId ? this.trackedOrders.get(level.buyOrderId) : undefined;
+        if (buyOrder?.status === 'partially_filled') {
+          long.size += parseFloat(buyOrder.filledSize || '0');
+        }
+      } else if (level.state === 'buy_filled') {
+        long.size += parseFloat(this.getLevelFilledSize(level));
+      } else if (level.state === 'sell_pending') {
+        const sellOrder = level.sellOrderId ? this.trackedOrders.get(level.sellOrderId) : undefined;
+        if (sellOrder && isOpenOrder(sellOrder)) {
+          long.size += getRemainingSize(sellOrder);
+          long.exitOrders.push(sellOrder);
+        } else {
+          long.size += parseFloat(this.getLevelFilledSize(level));
+        }
+      }
+    }
+    return { long, short: { size: 0, exitOrders: [] } };
+  }
+
+  /**
+   * 资金费率保护：费率为正且命中保护条件时返回 true，状态变化时发出 FUNDING_GUARD_CHANGED
+   */
+  private async updateFundingGuard(config: GridStrategyConfig): Promise<boolean> {
+    const decision = await fetchFundingGuard(config, this.simulated, this.clock.now());
+    const active = decision?.blockedDirection === 'long';
+    if (active !== this.fundingGuardActive) {
+      logger.info(active ? '资金费率保护：暂停挂买单' : '资金费率保护解除', { reason: decision?.reason });
+      this.emitEvent('FUNDING_GUARD_CHANGED', {
+        active,
+        direction: 'long',
+        fundingRate: decision?.fundingRate ?? null,
+        nextFundingTime: decision?.nextFundingTime ?? null,
+        reason: decision?.reason ?? null,
+      });
+      this.fundingGuardActive = active;
+    }
+    return active;
+  }
+
+  /**
+   * 同步资金费结算到 PnL 账本（节流查询，按 billId 去重）
+   */
+  private async syncFundingPayments(config: GridStrategyConfig): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastFundingSyncAt < FUNDING_SYNC_INTERVAL_MS) return;
+    this.lastFundingSyncAt = now;
+
+    try {
+      const payments = await this.accountService.getFundingPayments(config.symbol, this.startedAt || now);
+      for (const payment of payments) {
+        const entry = this.pnlLedger.recordFunding(payment);
+        if (!entry) continue;
+        this.realizedPnl += parseFloat(entry.funding);
+        this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+        this.emitEvent('FUNDING_SETTLED', {
+          billId: payment.billId,
+          symbol: payment.symbol,
+          amount: entry.funding,
+        });
+      }
+    } catch (error) {
+      logger.debug('同步资金费失败', { error: String(error) });
+    }
+  }
+
+  // ============================================================
+  // Startup reconciliation
+  // ============================================================
+
+  /**
+   * 启动对账：按 clientOid 将 DB 未结订单还原到网格位，同步停机期间的状态变化
+   * 订单与当前网格不匹配（价格范围已变更）或无法核实时抛出 STRATEGY_RECONCILE_FAILED
+   */
+  private async reconcileOnStart(config: GridStrategyConfig): Promise<StartupReconcileResult | null> {
+    if (!this.persistenceService || !this.gridManager) return null;
+
+    const clientOidPrefix = `grid_${config.symbol}_`;
+    let persisted: TrackedOrder[];
+    try {
+      persisted = await this.persistenceService.loadPendingOrders(config.symbol, config.productType || '');
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：加载未结订单失败 ${String(error)}`,
+        null,
+        503
+      );
+    }
+
+    const ownOrders = persisted.filter(o => o.clientOid.startsWith(clientOidPrefix));
+    const reconciler = new StartupReconciler(this.orderService, this.clock);
+    const result = await reconciler.reconcile(config.symbol, ownOrders, clientOidPrefix);
+    this.lastReconcileReport = result.report;
+
+    // 仍需策略接管的订单必须能映射到当前网格位（部分成交后被撤的卖单与主循环对账一致，仅释放网格位）
+    const recoveredFills = [...result.filled, ...result.cancelledWithFill.filter(o => o.side === 'buy')];
+    const unmapped = [...result.live, ...recoveredFills]
+      .filter(order => !this.mapToLevel(order, clientOidPrefix))
+      .map(order => order.orderId);
+    if (unmapped.length > 0) {
+      reconciler.markUnmapped(result.report, unmapped);
+    }
+
+    if (!result.report.ok) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：${result.report.reason}`,
+        result.report,
+        409
+      );
+    }
+
+    for (const order of result.filled) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'filled', order.filledAt, order.linkedOrderId);
+    }
+    for (const order of [...result.cancelledWithFill, ...result.cancelled]) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+    }
+
+    // 卖单结算 PnL 需要其关联买单（已是终态，不在未结订单中）
+    const linkedBuyIds = [...result.live, ...result.filled]
+      .filter(o => o.side === 'sell' && o.linkedOrderId)
+      .map(o => o.linkedOrderId as string);
+    try {
+      const linkedBuys = await this.persistenceService.loadOrdersByIds(linkedBuyIds);
+      for (const buy of linkedBuys) {
+        this.trackedOrders.set(buy.orderId, buy);
+      }
+    } catch (error) {
+      logger.warn('加载关联买单失败，相关卖单成交将不计算 PnL', { error: String(error) });
+    }
+
+    // 挂单与停机期间的成交都占用网格位，避免主循环在同一网格位重复下单
+    for (const order of [...result.live, ...recoveredFills]) {
+      const level = this.mapToLevel(order, clientOidPrefix)!;
+      this.trackedOrders.set(order.orderId, order);
+      this.gridManager.updateLevelState(
+        level.index,
+        order.side === 'buy' ? 'buy_pending' : 'sell_pending',
+        order.orderId
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 买单须与网格位价格一致，卖单须对应存在的网格位
+   */
+  private mapToLevel(order: TrackedOrder, clientOidPrefix: string): GridLevel | undefined {
+    const parsed = parseGridClientOid(order.clientOid, clientOidPrefix);
+    if (!parsed || !this.gridManager) return undefined;
+
+    const level = this.gridManager.getLevel(parsed.levelIndex);
+    if (!level) return undefined;
+    if (parsed.side === 'buy' && this.gridManager.findLevelByPrice(order.price) !== level) return undefined;
+    return level;
+  }
+
+  /**
+   * 补处理停机期间的成交：买单挂卖单，卖单结算 PnL
+   */
+  private async applyRecoveredFills(recovered: StartupReconcileResult, config: GridStrategyConfig): Promise<void> {
+    if (!this.gridManager) return;
+
+    const fills = [...recovered.filled, ...recovered.cancelledWithFill.filter(o => o.side === 'buy')];
+    for (const order of fills) {
+      const level = this.gridManager.findLevelByOrderId(order.orderId);
+      if (!level) continue;
+
+      if (order.side === 'buy') {
+        try {
+          await this.handleBuyFilled(level, config, parseFloat(level.price));
+        } catch (error) {
+          logger.error('补挂停机期间成交买单的卖单失败', { orderId: order.orderId, error: String(error) });
+        }
+      } else {
+        this.handleSellFilled(level, config);
+      }
+    }
+  }
+
+  // ============================================================
+  // Order push
+  // ============================================================
+
+  private subscribeOrderUpdates(symbol: string): void {
+    if (!this.orderUpdates || this.unsubscribeOrderUpdates) return;
+    this.unsubscribeOrderUpdates = this.orderUpdates.subscribe(
+      symbol,
+      update => this.handleOrderUpdate(update)
+    );
+  }
+
+  private unsubscribeFromOrderUpdates(): void {
+    if (this.unsubscribeOrderUpdates) {
+      this.unsubscribeOrderUpdates();
+      this.unsubscribeOrderUpdates = null;
+    }
+  }
+
+  /**
+   * 处理订单推送：部分成交记录进度，完全成交立即更新网格位
+   * 撤单推送交由主循环对账重置网格位
+   */
+  private handleOrderUpdate(update: UnifiedOrderUpdate): void {
+    if (this.status !== 'RUNNING' || !this.gridManager) return;
+    const tracked = this.trackedOrders.get(update.orderId);
+    if (!tracked || !isOpenOrder(tracked)) return;
+
+    // 推送逐笔给出本次成交手续费，累加到订单
+    const fillFee = Math.abs(parseFloat(update.fillFee));
+    if (fillFee > 0) {
+      tracked.fee = (parseFloat(tracked.fee || '0') + fillFee).toFixed(8);
+    }
+
+    if (update.state === 'partially_filled') {
+      this.recordFillProgress(update.orderId, update.filledQty, update.priceAvg);
+      logger.debug('网格订单部分成交（推送）', {
+        orderId: update.orderId,
+        filledQty: update.filledQty,
+        size: update.size,
+      });
+      return;
+    }
+
+    if (update.state !== 'filled') return;
+
+    const level = this.gridManager.findLevelByOrderId(update.orderId);
+    if (!level) return;
+
+    this.recordFillProgress(update.orderId, update.filledQty, update.priceAvg);
+    const config = this.configManager!.getGridConfig();
+    const currentPrice = parseFloat(this.lastPrice || update.priceAvg);
+    this.applyOrderFilled(level, update.orderId, config, currentPrice).catch(error => {
+      logger.error('推送成交处理失败', { orderId: update.orderId, error: String(error) });
+    });
+  }
+
   // ============================================================
   // Buy order placement
   // ============================================================
@@ -647,7 +1212,7 @@ export class GridStrategyEngine implements IStrategy {
       return;
     }
 
-    const clientOid = `grid_${config.symbol}_buy_${level.index}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const clientOid = `grid_${config.symbol}_buy_${level.index}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     try {
       const result = await this.orderService.placeOrder({
@@ -676,15 +1241,16 @@ export class GridStrategyEngine implements IStrategy {
         status: 'pending',
         linkedOrderId: null,
         direction: config.direction || 'long',
-        createdAt: Date.now(),
+        createdAt: this.clock.now(),
         filledAt: null,
       };
       this.trackedOrders.set(result.orderId, trackedOrder);
-      this.persistenceService.persistNewOrder(
+      this.persistenceService?.persistNewOrder(
         trackedOrder,
         config.symbol,
         config.productType || '',
-        config.marginCoin || 'USDT'
+        config.marginCoin || 'USDT',
+        config.instanceId
       );
 
       this.emitEvent('BUY_ORDER_PLACED', {
@@ -724,21 +1290,27 @@ export class GridStrategyEngine implements IStrategy {
     if (!this.gridManager) return;
 
     const buyOrderId = level.buyOrderId;
+
+    // 更新买单追踪状态（部分成交后被撤的买单保持 cancelled）
+    const buyOrder = buyOrderId ? this.trackedOrders.get(buyOrderId) : undefined;
+    if (!buyOrder || isOpenOrder(buyOrder)) {
+      this.updateTrackedOrderStatus(buyOrderId || '', 'filled');
+      this.persistenceService?.persistOrderStatusChange(
+        buyOrderId || '',
+        'filled',
+        this.clock.now(),
+        null
+      );
+    }
+
+    const filledSize = this.getLevelFilledSize(level);
     logger.info('网格买单成交', {
       levelIndex: level.index,
       buyOrderId,
       price: level.price,
+      filledSize,
     });
 
-    // 更新买单追踪状态
-    this.updateTrackedOrderStatus(buyOrderId || '', 'filled');
-    this.persistenceService.persistOrderStatusChange(
-      buyOrderId || '',
-      'filled',
-      Date.now(),
-      null
-    );
-
     // 更新网格位为 buy_filled
     this.gridManager.updateLevelState(level.index, 'buy_filled');
 
@@ -746,22 +1318,59 @@ export class GridStrategyEngine implements IStrategy {
       levelIndex: level.index,
       buyOrderId,
       price: level.price,
-      size: level.size,
+      size: filledSize,
     });
 
     // 在上一级挂卖单（level N+1 的价格）
-    const sellLevelIndex = level.index + 1;
-    const sellLevel = this.gridManager.getLevel(sellLevelIndex);
-
-    if (!sellLevel) {
-      // 已经在最高网格位，使用网格间距计算卖出价
-      const gridSpacing = parseFloat(this.gridManager.getGridSpacing());
-      const sellPrice = (parseFloat(level.price) + gridSpacing).toFixed(
-        this.configManager!.getGridConfig().pricePrecision
-      );
-      await this.placeSellForLevel(level, sellPrice, config);
-    } else {
-      await this.placeSellForLevel(level, sellLevel.price, config);
+    await this.placeSellForLevel(level, this.sellPriceFor(level), config);
+  }
+
+  /**
+   * 网格位的卖出价：上一级网格价，最高网格位按网格间距外推
+   */
+  private sellPriceFor(level: GridLevel): string {
+    const sellLevel = this.gridManager?.getLevel(level.index + 1);
+    if (sellLevel) return sellLevel.price;
+
+    const gridSpacing = parseFloat(this.gridManager!.getGridSpacing());
+    return (parseFloat(level.price) + gridSpacing).toFixed(this.configManager!.getGridConfig().pricePrecision);
+  }
+
+  /**
+   * 再平衡带入的库存逐笔占用新网格位（buy_filled）并挂卖单，离当前价最近的网格位优先；
+   * 卖价不低于当前价上方最近的网格价，避免限价卖单立即成交。占用的网格位卖出前不再挂买单
+   */
+  private async carryInventory(
+    inventory: TrackedOrder[],
+    config: GridStrategyConfig,
+    currentPrice: number
+  ): Promise<void> {
+    if (!this.gridManager || inventory.length === 0) return;
+
+    const levels = this.gridManager.getLevels();
+    const slots = [...levels].sort(
+      (a, b) => Math.abs(parseFloat(a.price) - currentPrice) - Math.abs(parseFloat(b.price) - currentPrice)
+    );
+    const levelAbove = levels.find(l => parseFloat(l.price) > currentPrice);
+    const minSellPrice = parseFloat(levelAbove ? levelAbove.price : this.sellPriceFor(levels[levels.length - 1]));
+    const sorted = [...inventory].sort((a, b) => parseFloat(getFillPrice(a)) - parseFloat(getFillPrice(b)));
+
+    for (let i = 0; i < sorted.length; i++) {
+      const slot = slots[i];
+      if (!slot) {
+        logger.warn('新网格位不足，部分库存未带入', { remaining: sorted.length - i });
+        break;
+      }
+      this.gridManager.assignInventory(slot.index, sorted[i].orderId);
+      const sellPrice = Math.max(parseFloat(this.sellPriceFor(slot)), minSellPrice).toFixed(config.pricePrecision);
+      logger.info('库存带入新网格', {
+        levelIndex: slot.index,
+        buyOrderId: sorted[i].orderId,
+        entryPrice: getFillPrice(sorted[i]),
+        size: getFilledSize(sorted[i]),
+        sellPrice,
+      });
+      await this.placeSellForLevel(this.gridManager.getLevel(slot.index)!, sellPrice, config);
     }
   }
 
@@ -775,12 +1384,14 @@ export class GridStrategyEngine implements IStrategy {
   ): Promise<void> {
     if (!this.gridManager) return;
 
-    const size = this.validateSize(buyLevel.size, sellPrice);
+    // 卖单只平买单实际成交的数量
+    const filledSize = this.getLevelFilledSize(buyLevel);
+    const size = this.validateSize(filledSize, sellPrice);
     if (!size) {
       logger.warn('卖单数量不足', {
         levelIndex: buyLevel.index,
         sellPrice,
-        size: buyLevel.size,
+        size: filledSize,
       });
       return;
     }
@@ -789,9 +1400,9 @@ export class GridStrategyEngine implements IStrategy {
     await this.sleep(800);
 
     // 卖单前检查持仓是否已到位，同时从持仓 holdSide 验证/纠正 holdMode
-    if (config.tradingType === 'futures' && config.productType) {
+    if (config.tradingType === 'futures' && config.productType && !this.simulated) {
       try {
-        const futuresAccountSvc = new FuturesAccountService();
+        const futuresAccountSvc = new FuturesAccountService(config.accountId);
         const positions = await futuresAccountSvc.getPositions(
           config.productType, config.marginCoin || 'USDT'
         );
@@ -818,7 +1429,7 @@ export class GridStrategyEngine implements IStrategy {
       }
     }
 
-    const clientOid = `grid_${config.symbol}_sell_${buyLevel.index}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const clientOid = `grid_${config.symbol}_sell_${buyLevel.index}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     const maxRetries = 3;
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -838,6 +1449,7 @@ export class GridStrategyEngine implements IStrategy {
           price: sellPrice,
           force: 'gtc',
           tradeSide: sellTradeSide as 'open' | 'close' | undefined,
+          reduceOnly: true,
           clientOid,
         });
 
@@ -854,16 +1466,22 @@ export class GridStrategyEngine implements IStrategy {
           status: 'pending',
           linkedOrderId: buyLevel.buyOrderId,
           direction: config.direction || 'long',
-          createdAt: Date.now(),
+          createdAt: this.clock.now(),
           filledAt: null,
         };
         this.trackedOrders.set(result.orderId, sellTracked);
-        this.persistenceService.persistNewOrder(
+        this.persistenceService?.persistNewOrder(
           sellTracked,
           config.symbol,
           config.productType || '',
-          config.marginCoin || 'USDT'
+          config.marginCoin || 'USDT',
+          config.instanceId
         );
+        if (config.positionTrailingEnabled) {
+          const buyOrder = buyLevel.buyOrderId ? this.trackedOrders.get(buyLevel.buyOrderId) : undefined;
+          const entryPrice = parseFloat(buyOrder ? getFillPrice(buyOrder) : buyLevel.price);
+          this.trailingStops?.track(result.orderId, 'long', entryPrice, size);
+        }
 
         this.emitEvent('SELL_ORDER_PLACED', {
           orderId: result.orderId,
@@ -917,10 +1535,252 @@ export class GridStrategyEngine implements IStrategy {
     }
   }
 
+  // ============================================================
+  // Per-level trailing stop
+  // ============================================================
+
+  /**
+   * 推进每个卖单的追踪止损位，触发时撤卖单并按剩余数量市价卖出
+   */
+  private async checkTrailingStops(config: GridStrategyConfig, currentPrice: number): Promise<void> {
+    if (!this.trailingStops || !this.gridManager) return;
+    if (!config.positionTrailingEnabled) {
+      this.trailingStops.clear();
+      return;
+    }
+
+    // 卖单已成交/被撤/再平衡后网格位已重建的不再追踪
+    for (const key of this.trailingStops.keys()) {
+      const order = this.trackedOrders.get(key);
+      const level = this.gridManager.findLevelByOrderId(key);
+      if (!order || !isOpenOrder(order) || level?.sellOrderId !== key) {
+        this.trailingStops.untrack(key);
+      }
+    }
+    if (this.trailingStops.size() === 0) return;
+
+    const atr = await fetchTrailingAtr(config, this.simulated);
+    for (const update of this.trailingStops.update(currentPrice, atr)) {
+      if (!update.triggered) {
+        this.emitEvent('TRAILING_STOP_MOVED', {
+          sellOrderId: update.key,
+          levelIndex: this.gridManager.findLevelByOrderId(update.key)?.index,
+          peakPrice: update.peakPrice.toFixed(config.pricePrecision),
+          previousStopPrice: update.previousStopPrice.toFixed(config.pricePrecision),
+          stopPrice: update.stopPrice.toFixed(config.pricePrecision),
+        });
+        continue;
+      }
+      try {
+        await this.triggerTrailingStop(update, currentPrice, config);
+      } catch (error) {
+        logger.warn('追踪止损卖出失败，下轮重试', { sellOrderId: update.key, error: String(error) });
+      }
+    }
+  }
+
+  private async triggerTrailingStop(update: TrailingStopUpdate, currentPrice: number, config: GridStrategyConfig): Promise<void> {
+    const level = this.gridManager?.findLevelByOrderId(update.key);
+    const sellOrder = this.trackedOrders.get(update.key);
+    if (!this.gridManager || !level || !sellOrder || level.sellOrderId !== update.key) {
+      this.trailingStops?.untrack(update.key);
+      return;
+    }
+
+    const close = await this.closeLevelAtMarket(level, sellOrder, currentPrice, config, 'trail');
+    if (!close) return;
+
+    this.emitEvent('TRAILING_STOP_TRIGGERED', {
+      sellOrderId: sellOrder.orderId,
+      closeOrderId: close.orderId,
+      levelIndex: level.index,
+      peakPrice: update.peakPrice.toFixed(config.pricePrecision),
+      stopPrice: update.stopPrice.toFixed(config.pricePrecision),
+      triggerPrice: currentPrice.toFixed(config.pricePrecision),
+      size: close.size,
+    });
+    logger.info('网格追踪止损触发，已市价卖出', {
+      levelIndex: level.index,
+      sellOrderId: sellOrder.orderId,
+      closeOrderId: close.orderId,
+      stopPrice: update.stopPrice,
+      triggerPrice: currentPrice,
+    });
+  }
+
+  /**
+   * 撤掉网格卖单后按剩余数量市价卖出，撤单前已成交部分按正常网格收益入账
+   * @returns 市价卖单；卖单已完全成交、撤单未生效（下轮重试）或无剩余数量时返回 null
+   */
+  private async closeLevelAtMarket(
+    level: GridLevel,
+    sellOrder: TrackedOrder,
+    currentPrice: number,
+    config: GridStrategyConfig,
+    tag: string
+  ): Promise<TrackedOrder | null> {
+    if (!this.gridManager) return null;
+
+    try {
+      await this.orderService.cancelOrder({ symbol: config.symbol, orderId: sellOrder.orderId });
+    } catch (error) {
+      logger.debug('撤网格卖单失败，以订单详情为准', { orderId: sellOrder.orderId, error: String(error) });
+    }
+    const detail = await this.orderService.getOrderDetail(config.symbol, sellOrder.orderId);
+
+    if (detail.state === 'filled') {
+      this.recordFillProgress(sellOrder.orderId, detail.filledQty, detail.priceAvg, detail.fee);
+      this.handleSellFilled(level, config);
+      return null;
+    }
+    if (detail.state === 'live' || detail.state === 'partially_filled') {
+      return null;
+    }
+
+    const filledQty = parseFloat(detail.filledQty) || 0;
+    if (filledQty > 0) {
+      this.recordFillProgress(sellOrder.orderId, detail.filledQty, detail.priceAvg, detail.fee);
+    }
+    const remaining = this.settlePartialSell(sellOrder, filledQty, config);
+    this.updateTrackedOrderStatus(sellOrder.orderId, 'cancelled');
+    this.persistenceService?.persistOrderStatusChange(sellOrder.orderId, 'cancelled', null, null);
+    this.trailingStops?.untrack(sellOrder.orderId);
+
+    if (!(remaining > 0)) {
+      this.gridManager.updateLevelState(level.index, 'empty');
+      return null;
+    }
+
+    return this.placeMarketClose(
+      level,
+      remaining.toFixed(config.sizePrecision),
+      sellOrder.linkedOrderId,
+      currentPrice,
+      config,
+      tag
+    );
+  }
+
+  /**
+   * 网格位剩余库存市价卖出；网格位保持 sell_pending，市价单成交后走 handleSellFilled 结算并重置
+   */
+  private async placeMarketClose(
+    level: GridLevel,
+    size: string,
+    buyOrderId: string | null,
+    currentPrice: number,
+    config: GridStrategyConfig,
+    tag: string
+  ): Promise<TrackedOrder> {
+    const clientOid = `grid_${config.symbol}_${tag}_${level.index}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const result = await this.orderService.placeOrder({
+      symbol: config.symbol,
+      size,
+      side: 'sell',
+      orderType: 'market',
+      tradeSide: config.tradingType === 'futures' && this.holdMode !== 'single_hold' ? 'close' : undefined,
+      reduceOnly: true,
+      clientOid,
+    });
+
+    this.gridManager!.updateLevelState(level.index, 'sell_pending', result.orderId);
+    const closeTracked: TrackedOrder = {
+      orderId: result.orderId,
+      clientOid,
+      side: 'sell',
+      price: currentPrice.toFixed(config.pricePrecision),
+      size,
+      status: 'pending',
+      linkedOrderId: buyOrderId,
+      direction: config.direction || 'long',
+      createdAt: this.clock.now(),
+      filledAt: null,
+    };
+    this.trackedOrders.set(result.orderId, closeTracked);
+    this.persistenceService?.persistNewOrder(
+      closeTracked,
+      config.symbol,
+      config.productType || '',
+      config.marginCoin || 'USDT',
+      config.instanceId
+    );
+    return closeTracked;
+  }
+
+  /**
+   * 回查平仓市价单，已成交的按卖单成交结算
+   */
+  private async settleMarketCloses(closeOrders: TrackedOrder[], config: GridStrategyConfig): Promise<void> {
+    if (!this.gridManager) return;
+
+    for (const close of closeOrders) {
+      try {
+        const detail = await this.orderService.getOrderDetail(config.symbol, close.orderId);
+        const level = this.gridManager.findLevelByOrderId(close.orderId);
+        if (detail.state !== 'filled' || !level) continue;
+        this.recordFillProgress(close.orderId, detail.filledQty, detail.priceAvg, detail.fee);
+        this.handleSellFilled(level, config);
+      } catch (error) {
+        logger.warn('回查平仓单失败', { orderId: close.orderId, error: String(error) });
+      }
+    }
+  }
+
+  /**
+   * 卖单撤销前已成交的部分按网格收益入账：买单按已卖出比例拆分（实际手续费同比例分摊），
+   * 未卖出部分替换追踪中的买单，作为后续平仓或新网格卖单的入场
+   * @returns 未卖出数量
+   */
+  private settlePartialSell(sellOrder: TrackedOrder, soldQty: number, config: GridStrategyConfig): number {
+    const buyOrder = sellOrder.linkedOrderId ? this.trackedOrders.get(sellOrder.linkedOrderId) : undefined;
+    const held = parseFloat(buyOrder ? getFilledSize(buyOrder) : sellOrder.size);
+    const remaining = parseFloat(Math.max(held - soldQty, 0).toFixed(config.sizePrecision));
+    if (!(soldQty > 0) || !buyOrder) return remaining;
+
+    const ratio = Math.min(soldQty / held, 1);
+    const fee = parseFloat(buyOrder.fee || '0');
+    const soldPart: TrackedOrder = {
+      ...buyOrder,
+      filledSize: String(soldQty),
+      fee: fee > 0 ? (fee * ratio).toString() : buyOrder.fee,
+    };
+    const entry = this.pnlLedger.recordTrade('long', soldPart, sellOrder);
+    const netPnl = parseFloat(entry.netPnl);
+    this.tradeCount++;
+    this.realizedPnl += netPnl;
+    this.riskController?.recordPnl(netPnl);
+    this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+    this.recordRoundTrip(soldPart, sellOrder, entry, config);
+
+    if (remaining > 0) {
+      this.trackedOrders.set(buyOrder.orderId, {
+        ...buyOrder,
+        filledSize: remaining.toFixed(config.sizePrecision),
+        fee: fee > 0 ? (fee * (1 - ratio)).toString() : buyOrder.fee,
+      });
+    }
+    return remaining;
+  }
+
   // ============================================================
   // Sell filled handler
   // ============================================================
 
+  /**
+   * 一买一卖构成一次网格往返，写入交易日志
+   */
+  private recordRoundTrip(
+    buyOrder: TrackedOrder,
+    sellOrder: TrackedOrder,
+    entry: PnlLedgerEntry,
+    config: GridStrategyConfig
+  ): void {
+    this.tradeJournal?.record(buildRoundTrip(
+      { instanceId: this.instanceId, strategyType: this.strategyType, symbol: config.symbol },
+      'long', buyOrder, sellOrder, entry
+    ));
+  }
+
   /**
    * 卖单成交处理：计算 PnL，重置网格位
    */
@@ -933,41 +1793,36 @@ export class GridStrategyEngine implements IStrategy {
     const buyOrder = buyOrderId ? this.trackedOrders.get(buyOrderId) : undefined;
 
     this.tradeCount++;
+    if (sellOrderId) this.trailingStops?.untrack(sellOrderId);
 
     // 更新卖单追踪状态
     this.updateTrackedOrderStatus(sellOrderId || '', 'filled');
-    this.persistenceService.persistOrderStatusChange(
+    this.persistenceService?.persistOrderStatusChange(
       sellOrderId || '',
       'filled',
-      Date.now(),
+      this.clock.now(),
       buyOrderId || null
     );
 
-    // 计算 PnL
+    // 计算 PnL（实际成交价 + 实际/估算手续费）
     if (buyOrder && sellOrder) {
-      const buyPrice = parseFloat(buyOrder.price);
-      const sellPrice = parseFloat(sellOrder.price);
-      const size = parseFloat(sellOrder.size);
-      const grossPnl = (sellPrice - buyPrice) * size;
-
-      const fee = StrategyConfigManager.estimateFeeUsdt(
-        (sellPrice * size).toFixed(2)
-      ) * 2;
-      const netPnl = grossPnl - fee;
+      const entry = this.pnlLedger.recordTrade('long', buyOrder, sellOrder);
+      const netPnl = parseFloat(entry.netPnl);
 
       this.realizedPnl += netPnl;
       this.riskController?.recordPnl(netPnl);
-      this.persistenceService.persistRealizedPnl(netPnl, fee, netPnl > 0, 'grid');
+      this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+      this.recordRoundTrip(buyOrder, sellOrder, entry, config);
 
       this.emitEvent('GRID_SELL_FILLED', {
         levelIndex: level.index,
         sellOrderId,
         buyOrderId,
-        buyPrice: buyOrder.price,
-        sellPrice: sellOrder.price,
-        size: sellOrder.size,
-        grossPnl: grossPnl.toFixed(4),
-        fee: fee.toFixed(4),
+        buyPrice: entry.entryPrice,
+        sellPrice: entry.exitPrice,
+        size: entry.size,
+        grossPnl: parseFloat(entry.grossPnl).toFixed(4),
+        fee: parseFloat(entry.fee).toFixed(4),
         netPnl: netPnl.toFixed(4),
       });
 
@@ -1008,16 +1863,15 @@ export class GridStrategyEngine implements IStrategy {
   // ============================================================
 
   /**
-   * 撤销所有挂单
+   * 撤销所有挂单，撤单后逐个回查最终成交量，部分成交的买单 / 卖单不丢失
+   * @returns 撤单后仍持有库存的网格位买单（成交数量为未卖出部分）
    */
-  private async cancelAllPendingOrders(): Promise<void> {
-    if (!this.gridManager || !this.configManager) return;
+  private async cancelAllPendingOrders(): Promise<TrackedOrder[]> {
+    if (!this.gridManager || !this.configManager) return [];
 
     const config = this.configManager.getGridConfig();
     const pendingOrderIds = this.gridManager.getPendingOrderIds();
 
-    if (pendingOrderIds.length === 0) return;
-
     // 分批撤单（每批最多 50 个）
     for (let i = 0; i < pendingOrderIds.length; i += 50) {
       const batch = pendingOrderIds.slice(i, i + 50);
@@ -1026,22 +1880,101 @@ export class GridStrategyEngine implements IStrategy {
           symbol: config.symbol,
           orderIdList: batch.map(id => ({ orderId: id })),
         });
-
-        // 更新网格位和追踪状态
-        for (const orderId of batch) {
-          const level = this.gridManager.findLevelByOrderId(orderId);
-          if (level) {
-            this.gridManager.updateLevelState(level.index, 'empty');
-          }
-          this.updateTrackedOrderStatus(orderId, 'cancelled');
-          this.persistenceService.persistOrderStatusChange(orderId, 'cancelled', null, null);
-        }
-
         logger.info('批量撤单成功', { count: batch.length });
       } catch (error) {
         logger.error('批量撤单失败', { error: String(error), count: batch.length });
+        continue;
+      }
+
+      // 更新网格位和追踪状态
+      for (const orderId of batch) {
+        await this.settleCancelledOrder(orderId, config);
       }
     }
+
+    return this.collectInventory();
+  }
+
+  /**
+   * 撤单后结算：买单已成交部分保留为库存（buy_filled）；卖单已成交部分入账，未卖出部分回到 buy_filled；
+   * 没有成交的网格位重置为 empty。回查失败时按已记录的成交进度处理
+   */
+  private async settleCancelledOrder(orderId: string, config: GridStrategyConfig): Promise<void> {
+    if (!this.gridManager) return;
+
+    let detail: UnifiedOrderDetail | null = null;
+    try {
+      detail = await this.orderService.getOrderDetail(config.symbol, orderId);
+      this.recordFillProgress(orderId, detail.filledQty, detail.priceAvg, detail.fee);
+    } catch (error) {
+      logger.warn('撤单后回查订单失败，按已记录成交处理', { orderId, error: String(error) });
+    }
+
+    const level = this.gridManager.findLevelByOrderId(orderId);
+    const order = this.trackedOrders.get(orderId);
+    const filledQty = order?.filledSize || detail?.filledQty || '0';
+    const fullyFilled = detail?.state === 'filled';
+
+    if (level && level.state === 'buy_pending' && level.buyOrderId === orderId && parseFloat(filledQty) > 0) {
+      if (fullyFilled) {
+        this.updateTrackedOrderStatus(orderId, 'filled');
+        this.persistenceService?.persistOrderStatusChange(orderId, 'filled', this.clock.now(), null);
+      } else {
+        this.markBuyCancelledWithFill(orderId, filledQty, detail?.priceAvg, detail?.fee);
+      }
+      logger.info('撤销的网格买单已有成交，保留为库存', { orderId, levelIndex: level.index, filledQty });
+      this.gridManager.updateLevelState(level.index, 'buy_filled');
+      return;
+    }
+
+    if (level && level.state === 'sell_pending' && level.sellOrderId === orderId && order) {
+      if (fullyFilled) {
+        this.handleSellFilled(level, config);
+        return;
+      }
+      const remaining = this.settlePartialSell(order, parseFloat(order.filledSize || '0'), config);
+      this.trailingStops?.untrack(orderId);
+      this.updateTrackedOrderStatus(orderId, 'cancelled');
+      this.persistenceService?.persistOrderStatusChange(orderId, 'cancelled', null, order.linkedOrderId);
+      if (remaining > 0 && level.buyOrderId) {
+        this.gridManager.assignInventory(level.index, level.buyOrderId);
+      } else {
+        this.gridManager.updateLevelState(level.index, 'empty');
+      }
+      return;
+    }
+
+    if (level) {
+      this.gridManager.updateLevelState(level.index, 'empty');
+    }
+    this.updateTrackedOrderStatus(orderId, 'cancelled');
+    this.persistenceService?.persistOrderStatusChange(orderId, 'cancelled', null, null);
+  }
+
+  /**
+   * 持有库存（buy_filled）的网格位对应的买单；找不到追踪记录时按网格位价格与数量还原
+   */
+  private collectInventory(): TrackedOrder[] {
+    if (!this.gridManager || !this.configManager) return [];
+
+    const config = this.configManager.getGridConfig();
+    const inventory: TrackedOrder[] = [];
+    for (const level of this.gridManager.getLevels()) {
+      if (level.state !== 'buy_filled' || !level.buyOrderId) continue;
+      inventory.push(this.trackedOrders.get(level.buyOrderId) ?? {
+        orderId: level.buyOrderId,
+        clientOid: '',
+        side: 'buy',
+        price: level.price,
+        size: level.size,
+        status: 'filled',
+        linkedOrderId: null,
+        direction: config.direction || 'long',
+        createdAt: this.clock.now(),
+        filledAt: this.clock.now(),
+      });
+    }
+    return inventory;
   }
 
   /**
@@ -1073,7 +2006,7 @@ export class GridStrategyEngine implements IStrategy {
     const levels = this.gridManager.getLevels();
     for (const level of levels) {
       if (level.state === 'buy_filled' || level.state === 'sell_pending') {
-        total += parseFloat(level.size) * parseFloat(level.price);
+        total += parseFloat(this.getLevelFilledSize(level)) * parseFloat(level.price);
       }
     }
     return total.toFixed(2);
@@ -1087,9 +2020,59 @@ export class GridStrategyEngine implements IStrategy {
     if (order) {
       order.status = status;
       if (status === 'filled') {
-        order.filledAt = Date.now();
+        order.filledAt = this.clock.now();
+        order.filledSize = order.size;
+      }
+    }
+  }
+
+  /**
+   * 记录挂单的累计成交量与成交均价（未完全成交时标记为 partially_filled）
+   */
+  private recordFillProgress(orderId: string, filledQty: string, avgFillPrice?: string, fee?: string): void {
+    const order = this.trackedOrders.get(orderId);
+    if (!order || !isOpenOrder(order)) return;
+
+    if (avgFillPrice && parseFloat(avgFillPrice) > 0) {
+      order.avgFillPrice = avgFillPrice;
+    }
+    if (fee && parseFloat(fee) > 0) {
+      order.fee = fee;
+    }
+    const filled = parseFloat(filledQty);
+    if (!(filled > 0) || filled <= parseFloat(order.filledSize || '0')) return;
+
+    order.filledSize = filledQty;
+    if (filled < parseFloat(order.size)) {
+      order.status = 'partially_filled';
+    }
+  }
+
+  /**
+   * 标记部分成交后被撤销的买单，保留已成交数量供挂卖单
+   */
+  private markBuyCancelledWithFill(orderId: string, filledQty: string, avgFillPrice?: string, fee?: string): void {
+    const order = this.trackedOrders.get(orderId);
+    if (order) {
+      order.status = 'cancelled';
+      order.filledSize = filledQty;
+      order.filledAt = this.clock.now();
+      if (avgFillPrice && parseFloat(avgFillPrice) > 0) {
+        order.avgFillPrice = avgFillPrice;
+      }
+      if (fee && parseFloat(fee) > 0) {
+        order.fee = fee;
       }
     }
+    this.persistenceService?.persistOrderStatusChange(orderId, 'cancelled', null, null);
+  }
+
+  /**
+   * 网格位买单的实际成交数量（找不到追踪记录时按网格位数量）
+   */
+  private getLevelFilledSize(level: GridLevel): string {
+    const buyOrder = level.buyOrderId ? this.trackedOrders.get(level.buyOrderId) : undefined;
+    return buyOrder ? getFilledSize(buyOrder) : level.size;
   }
 
   /**
@@ -1097,6 +2080,9 @@ export class GridStrategyEngine implements IStrategy {
    * 服务未初始化时安全降级返回中性值
    */
   private getMacroGridAdjustment(): { widthMultiplier: number; rebalanceSensitivity: number; riskScore: number } {
+    if (this.simulated) {
+      return { widthMultiplier: 1.0, rebalanceSensitivity: 1.0, riskScore: 50 };
+    }
     try {
       return PolymarketSignalService.getInstance().getGridAdjustment();
     } catch {
@@ -1105,7 +2091,7 @@ export class GridStrategyEngine implements IStrategy {
   }
 
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => this.clock.setTimeout(resolve, ms));
   }
 
   private handleLoopError(error: unknown): void {
@@ -1124,7 +2110,7 @@ export class GridStrategyEngine implements IStrategy {
         consecutiveErrors: this.consecutiveErrors,
       });
 
-      setTimeout(() => {
+      this.clock.setTimeout(() => {
         if (this.status === 'ERROR') {
           logger.info('尝试从 ERROR 状态恢复');
           this.status = 'RUNNING';
@@ -1138,7 +2124,7 @@ export class GridStrategyEngine implements IStrategy {
   private emitEvent(type: StrategyEventType, data: Record<string, unknown>): void {
     const event: StrategyEvent = {
       type,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       data,
     };
     this.events.push(event);
@@ -1146,5 +2132,17 @@ export class GridStrategyEngine implements IStrategy {
     if (this.events.length > this.maxEvents) {
       this.events = this.events.slice(-this.maxEvents);
     }
+
+    this.persistenceService?.persistEvent(
+      event, this.instanceId, this.strategyType, this.lastConfig.symbol, [this.lastConfig.accountId]
+    );
+
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('事件监听器执行失败', { type, error: String(error) });
+      }
+    }
   }
 }
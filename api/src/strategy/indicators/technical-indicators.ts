@@ -1,6 +1,6 @@
 /**
  * 技术指标计算
- * ATR, RSI, Bollinger Bands, EMA, MACD
+ * ATR, RSI, Bollinger Bands, EMA, MACD, VWAP, ADX, Stochastic, OBV, Keltner, SuperTrend
  */
 
 export interface Candle {
@@ -24,8 +24,23 @@ export interface IndicatorResult {
   macdLine: number;
   macdSignal: number;
   macdHistogram: number;
+  vwap: number;
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+  stochK: number;
+  stochD: number;
+  obv: number;
+  keltnerUpper: number;
+  keltnerMiddle: number;
+  keltnerLower: number;
+  superTrend: number;
+  superTrendDirection: TrendDirection;
 }
 
+/** SuperTrend 方向：up 为价格在支撑线上方 */
+export type TrendDirection = 'up' | 'down';
+
 /**
  * EMA（指数移动平均）
  */
@@ -59,12 +74,9 @@ export function calcSMA(data: number[], period: number): number[] {
 }
 
 /**
- * ATR（平均真实波幅）
- * 衡量市场波动率
+ * 真实波幅序列（从第二根 K 线开始，长度为 candles.length - 1）
  */
-export function calcATR(candles: Candle[], period = 14): number {
-  if (candles.length < period + 1) return 0;
-
+function calcTrueRanges(candles: Candle[]): number[] {
   const trueRanges: number[] = [];
   for (let i = 1; i < candles.length; i++) {
     const high = candles[i].high;
@@ -77,9 +89,18 @@ export function calcATR(candles: Candle[], period = 14): number {
     );
     trueRanges.push(tr);
   }
+  return trueRanges;
+}
+
+/**
+ * ATR（平均真实波幅）
+ * 衡量市场波动率
+ */
+export function calcATR(candles: Candle[], period = 14): number {
+  if (candles.length < period + 1) return 0;
 
   // Use EMA for ATR
-  const atrValues = calcEMA(trueRanges, period);
+  const atrValues = calcEMA(calcTrueRanges(candles), period);
   return atrValues[atrValues.length - 1] || 0;
 }
 
@@ -179,6 +200,176 @@ export function calcMACD(
   return { line, signal, histogram: line - signal };
 }
 
+/**
+ * VWAP（成交量加权平均价）
+ * 典型价 (H+L+C)/3 按成交量加权，窗口为传入的全部 K 线
+ */
+export function calcVWAP(candles: Candle[]): number {
+  let pv = 0;
+  let volume = 0;
+  for (const c of candles) {
+    pv += ((c.high + c.low + c.close) / 3) * c.volume;
+    volume += c.volume;
+  }
+  if (volume > 0) return pv / volume;
+  return candles.length > 0 ? candles[candles.length - 1].close : 0;
+}
+
+/**
+ * ADX（平均趋向指数，Wilder 平滑）
+ * ADX > 25 视为有趋势；+DI/-DI 比较多空力量
+ */
+export function calcADX(
+  candles: Candle[],
+  period = 14
+): { adx: number; plusDI: number; minusDI: number } {
+  if (candles.length < period * 2 + 1) return { adx: 0, plusDI: 0, minusDI: 0 };
+
+  const trueRanges = calcTrueRanges(candles);
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  let tr = 0;
+  let pdm = 0;
+  let mdm = 0;
+  for (let i = 0; i < period; i++) {
+    tr += trueRanges[i];
+    pdm += plusDM[i];
+    mdm += minusDM[i];
+  }
+
+  const dxValues: number[] = [];
+  let plusDI = 0;
+  let minusDI = 0;
+  for (let i = period; i <= trueRanges.length; i++) {
+    if (i > period) {
+      tr = tr - tr / period + trueRanges[i - 1];
+      pdm = pdm - pdm / period + plusDM[i - 1];
+      mdm = mdm - mdm / period + minusDM[i - 1];
+    }
+    plusDI = tr > 0 ? (pdm / tr) * 100 : 0;
+    minusDI = tr > 0 ? (mdm / tr) * 100 : 0;
+    const sum = plusDI + minusDI;
+    dxValues.push(sum > 0 ? (Math.abs(plusDI - minusDI) / sum) * 100 : 0);
+  }
+
+  let adx = dxValues.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < dxValues.length; i++) {
+    adx = (adx * (period - 1) + dxValues[i]) / period;
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * 随机指标（Stochastic）
+ * %K = (收盘 - N 周期最低) / (N 周期最高 - N 周期最低) × 100，%D = %K 的 SMA
+ */
+export function calcStochastic(
+  candles: Candle[],
+  kPeriod = 14,
+  dPeriod = 3
+): { k: number; d: number } {
+  if (candles.length < kPeriod) return { k: 50, d: 50 };
+
+  const kValues: number[] = [];
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, candles[j].high);
+      lowest = Math.min(lowest, candles[j].low);
+    }
+    const range = highest - lowest;
+    kValues.push(range > 0 ? ((candles[i].close - lowest) / range) * 100 : 50);
+  }
+
+  const k = kValues[kValues.length - 1];
+  const recent = kValues.slice(-dPeriod);
+  const d = recent.reduce((a, b) => a + b, 0) / recent.length;
+  return { k, d };
+}
+
+/**
+ * OBV（能量潮）
+ * 收涨累加成交量、收跌累减，用于确认价格趋势
+ */
+export function calcOBV(candles: Candle[]): number {
+  let obv = 0;
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].close > candles[i - 1].close) obv += candles[i].volume;
+    else if (candles[i].close < candles[i - 1].close) obv -= candles[i].volume;
+  }
+  return obv;
+}
+
+/**
+ * 肯特纳通道（Keltner Channels）
+ * 中轨 = EMA(close, emaPeriod)，上下轨 = 中轨 ± ATR(atrPeriod) × multiplier
+ */
+export function calcKeltnerChannels(
+  candles: Candle[],
+  emaPeriod = 20,
+  atrPeriod = 10,
+  multiplier = 2
+): { upper: number; middle: number; lower: number } {
+  const emaValues = calcEMA(candles.map(c => c.close), emaPeriod);
+  const middle = emaValues[emaValues.length - 1] || 0;
+  const atr = calcATR(candles, atrPeriod);
+  return { upper: middle + atr * multiplier, middle, lower: middle - atr * multiplier };
+}
+
+/**
+ * SuperTrend
+ * 基础轨 = (H+L)/2 ± ATR × multiplier，收盘价穿越当前轨道时翻转方向
+ */
+export function calcSuperTrend(
+  candles: Candle[],
+  period = 10,
+  multiplier = 3
+): { value: number; direction: TrendDirection } {
+  if (candles.length < period + 1) {
+    const last = candles[candles.length - 1];
+    return { value: last ? last.close : 0, direction: 'up' };
+  }
+
+  const atrValues = calcEMA(calcTrueRanges(candles), period);
+  let finalUpper = 0;
+  let finalLower = 0;
+  let direction: TrendDirection = 'up';
+
+  // atrValues[i - 1] 对应 candles[i]
+  for (let i = period; i < candles.length; i++) {
+    const c = candles[i];
+    const mid = (c.high + c.low) / 2;
+    const atr = atrValues[i - 1];
+    const basicUpper = mid + atr * multiplier;
+    const basicLower = mid - atr * multiplier;
+    const prevClose = candles[i - 1].close;
+
+    if (i === period) {
+      finalUpper = basicUpper;
+      finalLower = basicLower;
+      direction = c.close >= mid ? 'up' : 'down';
+      continue;
+    }
+
+    finalUpper = basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+    finalLower = basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+
+    if (direction === 'up' && c.close < finalLower) direction = 'down';
+    else if (direction === 'down' && c.close > finalUpper) direction = 'up';
+  }
+
+  return { value: direction === 'up' ? finalLower : finalUpper, direction };
+}
+
 /**
  * 计算所有指标
  */
@@ -191,6 +382,10 @@ export function calcAllIndicators(candles: Candle[]): IndicatorResult {
   const ema12Values = calcEMA(closes, 12);
   const ema26Values = calcEMA(closes, 26);
   const macd = calcMACD(closes);
+  const adx = calcADX(candles);
+  const stoch = calcStochastic(candles);
+  const keltner = calcKeltnerChannels(candles);
+  const superTrend = calcSuperTrend(candles);
 
   return {
     atr,
@@ -204,5 +399,17 @@ export function calcAllIndicators(candles: Candle[]): IndicatorResult {
     macdLine: macd.line,
     macdSignal: macd.signal,
     macdHistogram: macd.histogram,
+    vwap: calcVWAP(candles),
+    adx: adx.adx,
+    plusDI: adx.plusDI,
+    minusDI: adx.minusDI,
+    stochK: stoch.k,
+    stochD: stoch.d,
+    obv: calcOBV(candles),
+    keltnerUpper: keltner.upper,
+    keltnerMiddle: keltner.middle,
+    keltnerLower: keltner.lower,
+    superTrend: superTrend.value,
+    superTrendDirection: superTrend.direction,
   };
 }
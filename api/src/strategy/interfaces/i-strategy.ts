@@ -10,20 +10,36 @@ import {
   StrategyEvent,
   TrackedOrder,
   PnlSummary,
+  PnlLedgerEntry,
   BaseStrategyConfig,
+  OrderReconcileReport,
+  PositionSnapshot,
 } from '../../types/strategy.types';
 
+export type StrategyEventListener = (event: StrategyEvent) => void;
+
 export interface IStrategy {
   readonly strategyType: StrategyType;
   readonly instanceId: string;
 
   start(config: BaseStrategyConfig): Promise<void>;
   stop(): Promise<void>;
+  /** 停止循环但保留交易所挂单（服务关闭时使用，重启后经启动对账恢复） */
+  suspend(): Promise<void>;
   emergencyStop(): Promise<void>;
+  /** 停止并市价平掉本实例持仓（市场状态切换时使用；未实现的策略只执行 stop） */
+  flatten?(): Promise<void>;
   getStatus(): StrategyStatus;
   getState(): StrategyState;
   updateConfig(changes: Record<string, unknown>): BaseStrategyConfig;
   getTrackedOrders(): TrackedOrder[];
   getPnlSummary(): PnlSummary;
+  getPnlLedger(limit?: number): PnlLedgerEntry[];
   getEvents(limit?: number): StrategyEvent[];
+  /** 最近一次启动对账结果（未对账时为 null） */
+  getReconcileReport(): OrderReconcileReport | null;
+  /** 最近一次仓位对账结果（按方向，未对账时为空） */
+  getPositionSnapshots(): PositionSnapshot[];
+  /** 订阅引擎事件，返回取消订阅函数 */
+  onEvent(listener: StrategyEventListener): () => void;
 }
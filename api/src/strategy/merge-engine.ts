@@ -2,14 +2,26 @@
  * 挂单合并引擎
  * 当挂单数超过阈值时，合并最早的出场单为一个加权平均价的合并单
  * 支持方向感知：只合并同方向的出场单
+ * 撤单后按交易所回查的成交量结算：已成交部分照常记账，只合并剩余数量
+ * 合并单没有单一入场单，按合并单记录来源（lineage），成交时据此合成入场单记账
+ * 来源由引擎随合并单落库，重启恢复时通过 restoreLineage 载回
  */
 
 import { TrackedOrder, ScalpingStrategyConfig } from '../types/strategy.types';
+import { MergeLineageEntry } from '../types/trade-journal.types';
 import { IOrderService } from '../services/interfaces/i-order.service';
-import { OrderStateTracker, EntryDirection } from './order-state-tracker';
+import {
+  OrderStateTracker,
+  EntryDirection,
+  getRemainingSize,
+  getFillPrice,
+  getFilledSize,
+} from './order-state-tracker';
+import { UnifiedOrderDetail } from '../types/trading.types';
 import { HoldMode } from '../services/futures-account.service';
 import { AppError, ErrorCode } from '../utils/errors';
 import { createLogger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
 
 const logger = createLogger('merge-engine');
 
@@ -19,6 +31,9 @@ export interface MergeResult {
   newOrderId: string | null;
   avgPrice: string;
   totalSize: string;
+  lineage: MergeLineageEntry[];
+  /** 撤单前已（部分）成交的出场单，需由引擎记账并释放其来源 */
+  settledFills: TrackedOrder[];
 }
 
 export class MergeEngine {
@@ -27,17 +42,22 @@ export class MergeEngine {
   private config: ScalpingStrategyConfig;
   private holdMode: HoldMode;
   private merging = false;
+  private clock: Clock;
+  /** 合并单 orderId → 来源 */
+  private lineage: Map<string, MergeLineageEntry[]> = new Map();
 
   constructor(
     orderService: IOrderService,
     tracker: OrderStateTracker,
     config: ScalpingStrategyConfig,
-    holdMode: HoldMode = 'single_hold'
+    holdMode: HoldMode = 'single_hold',
+    clock: Clock = systemClock
   ) {
     this.orderService = orderService;
     this.tracker = tracker;
     this.config = config;
     this.holdMode = holdMode;
+    this.clock = clock;
   }
 
   updateConfig(config: ScalpingStrategyConfig): void {
@@ -94,23 +114,9 @@ export class MergeEngine {
         lastOrderId: toMerge[toMerge.length - 1].orderId,
       });
 
-      // 计算加权平均价和总数量
-      let totalValue = 0;
-      let totalSize = 0;
-      for (const order of toMerge) {
-        const price = parseFloat(order.price);
-        const size = parseFloat(order.size);
-        totalValue += price * size;
-        totalSize += size;
-      }
-      const avgPrice = totalSize > 0 ? totalValue / totalSize : 0;
-
-      const avgPriceStr = avgPrice.toFixed(this.config.pricePrecision);
-      const totalSizeStr = totalSize.toFixed(this.config.sizePrecision);
-
       // 批量撤单
       const orderIds = toMerge.map(o => o.orderId);
-      const cancelledIds: string[] = [];
+      const cancelledIds = new Set<string>();
 
       for (let i = 0; i < orderIds.length; i += 50) {
         const batch = orderIds.slice(i, i + 50);
@@ -120,8 +126,7 @@ export class MergeEngine {
         });
 
         for (const s of result.successList) {
-          cancelledIds.push(s.orderId);
-          this.tracker.markCancelled(s.orderId);
+          cancelledIds.add(s.orderId);
         }
 
         if (result.failureList.length > 0) {
@@ -129,7 +134,7 @@ export class MergeEngine {
         }
       }
 
-      if (cancelledIds.length === 0) {
+      if (cancelledIds.size === 0) {
         throw new AppError(
           ErrorCode.STRATEGY_MERGE_FAILED,
           '合并失败：所有撤单请求都失败了',
@@ -138,8 +143,47 @@ export class MergeEngine {
         );
       }
 
+      // 撤单后回查最终成交量：已成交部分交由引擎记账，只合并确认的剩余数量
+      this.pruneLineage();
+      const settledFills: TrackedOrder[] = [];
+      const lineage: MergeLineageEntry[] = [];
+      let totalValue = 0;
+      let totalSize = 0;
+      for (const order of toMerge.filter(o => cancelledIds.has(o.orderId))) {
+        const { remaining, settled } = await this.settleCancelled(order);
+        if (settled) settledFills.push(settled);
+        if (!(remaining > 0)) continue;
+
+        totalValue += parseFloat(order.price) * remaining;
+        totalSize += remaining;
+        lineage.push(...this.lineageOf(order, remaining));
+      }
+      const cancelledOrderIds = [...cancelledIds].filter(id => this.tracker.getOrder(id)?.status !== 'filled');
+      const avgPrice = totalSize > 0 ? totalValue / totalSize : 0;
+
+      const avgPriceStr = avgPrice.toFixed(this.config.pricePrecision);
+      const totalSizeStr = totalSize.toFixed(this.config.sizePrecision);
+
+      // 已成交部分的来源留给引擎记账后释放
+      for (const orderId of cancelledIds) {
+        if (!settledFills.some(o => o.orderId === orderId)) this.lineage.delete(orderId);
+      }
+
+      if (!(parseFloat(totalSizeStr) > 0)) {
+        logger.info('被合并出场单已全部成交，无需挂合并单', { orderIds: [...cancelledIds] });
+        return {
+          mergedCount: cancelledIds.size,
+          cancelledOrderIds,
+          newOrderId: null,
+          avgPrice: avgPriceStr,
+          totalSize: totalSizeStr,
+          lineage,
+          settledFills,
+        };
+      }
+
       // 挂合并后的出场单
-      const clientOid = `scalp_${this.config.symbol}_${mergeDirection}_merge_${exitSide}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const clientOid = `scalp_${this.config.symbol}_${mergeDirection}_merge_${exitSide}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
       const placeResult = await this.orderService.placeOrder({
         symbol: this.config.symbol,
         size: totalSizeStr,
@@ -148,6 +192,7 @@ export class MergeEngine {
         price: avgPriceStr,
         force: 'post_only',
         tradeSide: (this.config.tradingType === 'futures' && this.holdMode === 'double_hold') ? 'close' : undefined,
+        reduceOnly: true,
         clientOid,
       });
 
@@ -162,12 +207,13 @@ export class MergeEngine {
         linkedOrderId: null,
         direction: mergeDirection,
         orderRole: 'exit',
-        createdAt: Date.now(),
+        createdAt: this.clock.now(),
         filledAt: null,
       });
+      this.lineage.set(placeResult.orderId, lineage);
 
       logger.info('出场单合并完成', {
-        mergedCount: cancelledIds.length,
+        mergedCount: cancelledIds.size,
         direction: mergeDirection,
         newOrderId: placeResult.orderId,
         avgPrice: avgPriceStr,
@@ -175,11 +221,13 @@ export class MergeEngine {
       });
 
       return {
-        mergedCount: cancelledIds.length,
-        cancelledOrderIds: cancelledIds,
+        mergedCount: cancelledIds.size,
+        cancelledOrderIds,
         newOrderId: placeResult.orderId,
         avgPrice: avgPriceStr,
         totalSize: totalSizeStr,
+        lineage,
+        settledFills,
       };
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -194,6 +242,154 @@ export class MergeEngine {
     }
   }
 
+  getLineage(orderId: string): MergeLineageEntry[] | undefined {
+    return this.lineage.get(orderId);
+  }
+
+  /**
+   * 重启恢复时载回已落库的合并来源
+   */
+  restoreLineage(orderId: string, lineage: MergeLineageEntry[]): void {
+    this.lineage.set(orderId, lineage);
+  }
+
+  /**
+   * 合并单被撤后改挂的平仓单沿用其来源
+   */
+  inheritLineage(fromOrderId: string, toOrderId: string): void {
+    const lineage = this.lineage.get(fromOrderId);
+    if (!lineage) return;
+    this.lineage.set(toOrderId, lineage);
+    this.lineage.delete(fromOrderId);
+  }
+
+  releaseLineage(orderId: string): void {
+    this.lineage.delete(orderId);
+  }
+
+  /**
+   * 合并单成交时的合成入场单：来源入场均价加权平均，入场手续费按成交数量分摊
+   * 来源入场价全部未知时返回 null
+   */
+  buildMergedEntry(exitOrder: TrackedOrder): TrackedOrder | null {
+    const lineage = this.lineage.get(exitOrder.orderId);
+    if (!lineage) return null;
+
+    let value = 0;
+    let pricedSize = 0;
+    let totalSize = 0;
+    let totalFee = 0;
+    let feeKnown = true;
+    for (const item of lineage) {
+      const size = parseFloat(item.size);
+      totalSize += size;
+      if (item.entryPrice !== null) {
+        value += parseFloat(item.entryPrice) * size;
+        pricedSize += size;
+      }
+      if (item.entryFee === null) feeKnown = false;
+      else totalFee += parseFloat(item.entryFee);
+    }
+    if (!(pricedSize > 0)) return null;
+
+    const avgPrice = (value / pricedSize).toFixed(this.config.pricePrecision);
+    const size = getFilledSize(exitOrder);
+    // 手续费未知时留空，由 PnL 账本按费率估算
+    const fee = feeKnown && totalSize > 0 ? ((totalFee / totalSize) * parseFloat(size)).toFixed(8) : undefined;
+    const openedAt = Math.min(...lineage.map(l => l.openedAt ?? exitOrder.createdAt));
+    const direction: EntryDirection = exitOrder.direction === 'short' ? 'short' : 'long';
+
+    return {
+      orderId: `${exitOrder.orderId}_merged`,
+      clientOid: '',
+      side: direction === 'long' ? 'buy' : 'sell',
+      price: avgPrice,
+      avgFillPrice: avgPrice,
+      size,
+      filledSize: size,
+      fee,
+      status: 'filled',
+      linkedOrderId: exitOrder.orderId,
+      direction,
+      orderRole: 'entry',
+      createdAt: openedAt,
+      filledAt: openedAt,
+    };
+  }
+
+  /**
+   * 按交易所订单详情结算已撤的出场单：完全成交的确认成交，部分成交的记录成交量后标记撤销
+   * 查询失败时以追踪器中的成交进度为准
+   */
+  private async settleCancelled(order: TrackedOrder): Promise<{ remaining: number; settled: TrackedOrder | null }> {
+    const size = parseFloat(order.size);
+    let detail: UnifiedOrderDetail | null = null;
+    try {
+      detail = await this.orderService.getOrderDetail(this.config.symbol, order.orderId);
+    } catch (error) {
+      logger.warn('查询被合并出场单详情失败，按追踪进度合并', { orderId: order.orderId, error: String(error) });
+    }
+
+    if (detail?.state === 'filled') {
+      return { remaining: 0, settled: this.tracker.confirmFilled(order.orderId, detail.priceAvg, detail.fee) };
+    }
+
+    const filledQty = detail
+      ? parseFloat(detail.filledQty) || 0
+      : size - getRemainingSize(order);
+    if (filledQty > 0) {
+      const settled = this.tracker.markCancelledWithFill(
+        order.orderId,
+        filledQty.toFixed(this.config.sizePrecision),
+        detail?.priceAvg ?? order.avgFillPrice,
+        detail?.fee ?? order.fee
+      );
+      return { remaining: Math.max(size - filledQty, 0), settled };
+    }
+
+    this.tracker.markCancelled(order.orderId);
+    return { remaining: size, settled: null };
+  }
+
+  /**
+   * 被合并出场单的来源：本身是合并单时展开其来源（按剩余比例缩放），否则取其入场单
+   */
+  private lineageOf(order: TrackedOrder, remaining: number): MergeLineageEntry[] {
+    const nested = this.lineage.get(order.orderId);
+    if (nested) {
+      const nestedSize = nested.reduce((sum, n) => sum + parseFloat(n.size), 0);
+      const ratio = nestedSize > 0 ? remaining / nestedSize : 0;
+      return nested.map(n => ({
+        ...n,
+        size: (parseFloat(n.size) * ratio).toFixed(this.config.sizePrecision),
+        entryFee: n.entryFee !== null ? (parseFloat(n.entryFee) * ratio).toFixed(8) : null,
+      }));
+    }
+
+    const entry = order.linkedOrderId ? this.tracker.getOrder(order.linkedOrderId) : undefined;
+    const entrySize = entry ? parseFloat(getFilledSize(entry)) : 0;
+    const entryFee = entry && parseFloat(entry.fee || '0') > 0 && entrySize > 0
+      ? ((parseFloat(entry.fee!) / entrySize) * remaining).toFixed(8)
+      : null;
+    return [{
+      exitOrderId: order.orderId,
+      entryOrderId: order.linkedOrderId,
+      entryPrice: entry ? getFillPrice(entry) : null,
+      size: remaining.toFixed(this.config.sizePrecision),
+      entryFee,
+      openedAt: entry ? (entry.filledAt ?? entry.createdAt) : null,
+    }];
+  }
+
+  /**
+   * 清理已不在追踪器中的合并单来源（追踪器 cleanup 后的历史订单）
+   */
+  private pruneLineage(): void {
+    for (const orderId of this.lineage.keys()) {
+      if (!this.tracker.getOrder(orderId)) this.lineage.delete(orderId);
+    }
+  }
+
   /**
    * 向后兼容：mergeSellOrders
    */
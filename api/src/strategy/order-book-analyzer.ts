@@ -0,0 +1,109 @@
+/**
+ * 盘口分析
+ * 基于多档深度计算买卖失衡度、排队位置，并给出入场挂单价：
+ * 顺势失衡时贴近最优价（排队过长且价差足够时抢先一档），逆势失衡时退后，其余沿用固定偏移
+ */
+
+import { UnifiedOrderBook } from '../types/trading.types';
+import { EntryDirection } from './order-state-tracker';
+
+/** join: 挂在最优价排队；improve: 优于最优价一档；offset: 固定偏移；backoff: 逆势加大偏移 */
+export type EntryPriceMode = 'join' | 'improve' | 'offset' | 'backoff';
+
+export interface EntryPricingOptions {
+  tickSize: number;
+  pricePrecision: number;
+  /** 固定偏移档数（含自适应与宏观调整） */
+  offsetTicks: number;
+  /** 参与失衡度计算的档数 */
+  levels: number;
+  /** 失衡度阈值（0-1），超过视为有明显方向压力 */
+  imbalanceThreshold: number;
+  /** 己方最优档排队金额（USDT）超过该值时考虑抢先一档 */
+  improveQueueThresholdUsdt: number;
+  /** 为 false 时不贴价/抢价（如宏观风险偏高），只在 offset/backoff 间选择 */
+  allowAggressive: boolean;
+}
+
+export interface EntryPricePlan {
+  price: string;
+  mode: EntryPriceMode;
+  bestPrice: string;
+  /** 买卖失衡度 (bidVol - askVol) / (bidVol + askVol)，无挂单量时为 0 */
+  imbalance: number;
+  /** 挂单价之前（含同价）的己方排队数量 */
+  queueAhead: number;
+}
+
+/**
+ * 前 levels 档的买卖失衡度，范围 [-1, 1]，正数表示买盘更厚
+ */
+export function computeImbalance(book: UnifiedOrderBook, levels: number): number {
+  const bidVol = sumSize(book.bids.slice(0, levels));
+  const askVol = sumSize(book.asks.slice(0, levels));
+  const total = bidVol + askVol;
+  return total > 0 ? (bidVol - askVol) / total : 0;
+}
+
+/**
+ * 估算在 price 挂单时排在前面的数量（同价位按时间优先，视为全部在前）
+ */
+export function estimateQueueAhead(book: UnifiedOrderBook, side: 'buy' | 'sell', price: number): number {
+  const levels = side === 'buy' ? book.bids : book.asks;
+  return sumSize(levels.filter(([p]) => {
+    const levelPrice = parseFloat(p);
+    return side === 'buy' ? levelPrice >= price : levelPrice <= price;
+  }));
+}
+
+/**
+ * 计算入场挂单价；己方盘口为空时返回 null（由调用方降级到 bid1/ask1 偏移）
+ */
+export function planEntryPrice(
+  book: UnifiedOrderBook,
+  dir: EntryDirection,
+  options: EntryPricingOptions
+): EntryPricePlan | null {
+  const own = dir === 'long' ? book.bids : book.asks;
+  const opposite = dir === 'long' ? book.asks : book.bids;
+  if (own.length === 0) return null;
+
+  const { tickSize, offsetTicks } = options;
+  const sign = dir === 'long' ? 1 : -1;
+  const best = parseFloat(own[0][0]);
+  const imbalance = computeImbalance(book, options.levels);
+  // 换算为本方向视角：正数表示行情有利于本方向成交后获利
+  const directional = imbalance * sign;
+
+  let mode: EntryPriceMode = 'offset';
+  let ticks = -offsetTicks;
+  if (directional <= -options.imbalanceThreshold) {
+    mode = 'backoff';
+    ticks = -offsetTicks * 2;
+  } else if (options.allowAggressive && directional >= options.imbalanceThreshold) {
+    const bestQueueUsdt = best * parseFloat(own[0][1]);
+    const spreadTicks = opposite.length > 0
+      ? Math.round(Math.abs(parseFloat(opposite[0][0]) - best) / tickSize)
+      : 0;
+    if (bestQueueUsdt >= options.improveQueueThresholdUsdt && spreadTicks >= 2) {
+      mode = 'improve';
+      ticks = 1;
+    } else {
+      mode = 'join';
+      ticks = 0;
+    }
+  }
+
+  const price = (best + sign * ticks * tickSize).toFixed(options.pricePrecision);
+  return {
+    price,
+    mode,
+    bestPrice: own[0][0],
+    imbalance,
+    queueAhead: estimateQueueAhead(book, dir === 'long' ? 'buy' : 'sell', parseFloat(price)),
+  };
+}
+
+function sumSize(levels: Array<[string, string]>): number {
+  return levels.reduce((sum, [, size]) => sum + (parseFloat(size) || 0), 0);
+}
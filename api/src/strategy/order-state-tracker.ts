@@ -6,6 +6,7 @@
 
 import { TrackedOrder } from '../types/strategy.types';
 import { createLogger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
 
 const logger = createLogger('order-tracker');
 
@@ -17,11 +18,64 @@ export interface ReconcileResult {
   cancelledOrders: TrackedOrder[];
 }
 
+/** 订单列表按状态计数（REST /orders 与实时推送共用） */
+export interface OrdersSummary {
+  total: number;
+  pending: number;
+  partiallyFilled: number;
+  filled: number;
+  cancelled: number;
+  orders: TrackedOrder[];
+}
+
 /** 对账时发现从交易所消失的订单（需进一步确认状态） */
 export interface DisappearedOrder {
   order: TrackedOrder;
 }
 
+/**
+ * 订单是否仍在交易所挂单（未成交或部分成交）
+ */
+export function isOpenOrder(order: TrackedOrder): boolean {
+  return order.status === 'pending' || order.status === 'partially_filled';
+}
+
+/**
+ * 订单实际成交数量：有累计成交量时取累计值，否则视为按委托数量全部成交
+ */
+export function getFilledSize(order: TrackedOrder): string {
+  return order.filledSize && parseFloat(order.filledSize) > 0 ? order.filledSize : order.size;
+}
+
+/**
+ * 订单实际成交价：有成交均价时取均价，否则取委托价
+ */
+export function getFillPrice(order: TrackedOrder): string {
+  return order.avgFillPrice && parseFloat(order.avgFillPrice) > 0 ? order.avgFillPrice : order.price;
+}
+
+/**
+ * 挂单剩余未成交数量（部分成交的出场单只剩余部分仍代表持仓）
+ */
+export function getRemainingSize(order: TrackedOrder): number {
+  const filled = order.status === 'partially_filled' ? parseFloat(order.filledSize || '0') : 0;
+  return Math.max(parseFloat(order.size) - filled, 0);
+}
+
+/**
+ * 按状态汇总订单列表
+ */
+export function summarizeOrders(orders: TrackedOrder[]): OrdersSummary {
+  return {
+    total: orders.length,
+    pending: orders.filter(o => o.status === 'pending').length,
+    partiallyFilled: orders.filter(o => o.status === 'partially_filled').length,
+    filled: orders.filter(o => o.status === 'filled').length,
+    cancelled: orders.filter(o => o.status === 'cancelled').length,
+    orders,
+  };
+}
+
 export class OrderStateTracker {
   private orders: Map<string, TrackedOrder> = new Map();
   private activeEntryOrderIds: Map<EntryDirection, string | null> = new Map([
@@ -29,13 +83,15 @@ export class OrderStateTracker {
     ['short', null],
   ]);
 
+  constructor(private readonly clock: Clock = systemClock) {}
+
   /**
    * 添加追踪订单
    */
   addOrder(order: TrackedOrder): void {
     this.orders.set(order.orderId, order);
-    // 如果是入场单，自动设置 activeEntry
-    if (order.orderRole === 'entry' && order.status === 'pending') {
+    // 如果是入场单，自动设置 activeEntry（重启恢复的部分成交入场单仍在挂单）
+    if (order.orderRole === 'entry' && isOpenOrder(order)) {
       const dir = this.inferEntryDirection(order);
       if (dir) {
         this.activeEntryOrderIds.set(dir, order.orderId);
@@ -96,7 +152,7 @@ export class OrderStateTracker {
   getPendingExitOrders(direction?: EntryDirection): TrackedOrder[] {
     const exits: TrackedOrder[] = [];
     for (const order of this.orders.values()) {
-      if (order.status !== 'pending') continue;
+      if (!isOpenOrder(order)) continue;
       if (order.orderRole === 'exit') {
         if (!direction || this.inferExitDirection(order) === direction) {
           exits.push(order);
@@ -118,7 +174,7 @@ export class OrderStateTracker {
     let total = 0;
     const exits = this.getPendingExitOrders(direction);
     for (const order of exits) {
-      total += parseFloat(order.price) * parseFloat(order.size);
+      total += parseFloat(order.price) * getRemainingSize(order);
     }
     return total.toFixed(2);
   }
@@ -163,7 +219,7 @@ export class OrderStateTracker {
   getPendingSellOrders(): TrackedOrder[] {
     const sells: TrackedOrder[] = [];
     for (const order of this.orders.values()) {
-      if (order.side === 'sell' && order.status === 'pending') {
+      if (order.side === 'sell' && isOpenOrder(order)) {
         sells.push(order);
       }
     }
@@ -176,7 +232,7 @@ export class OrderStateTracker {
   getPendingOrderCount(): number {
     let count = 0;
     for (const order of this.orders.values()) {
-      if (order.status === 'pending') {
+      if (isOpenOrder(order)) {
         count++;
       }
     }
@@ -189,10 +245,10 @@ export class OrderStateTracker {
   getTotalPositionUsdt(): string {
     let total = 0;
     for (const order of this.orders.values()) {
-      if (order.status !== 'pending') continue;
+      if (!isOpenOrder(order)) continue;
       // 出场单代表持仓
       if (order.orderRole === 'exit' || (!order.orderRole && order.side === 'sell')) {
-        total += parseFloat(order.price) * parseFloat(order.size);
+        total += parseFloat(order.price) * getRemainingSize(order);
       }
     }
     return total.toFixed(2);
@@ -205,7 +261,7 @@ export class OrderStateTracker {
     const disappeared: DisappearedOrder[] = [];
 
     for (const order of this.orders.values()) {
-      if (order.status !== 'pending') continue;
+      if (!isOpenOrder(order)) continue;
 
       if (!exchangePendingIds.has(order.orderId)) {
         disappeared.push({ order });
@@ -218,12 +274,19 @@ export class OrderStateTracker {
   /**
    * 对账第二步：根据已确认的状态标记订单
    */
-  confirmFilled(orderId: string): TrackedOrder | null {
+  confirmFilled(orderId: string, avgFillPrice?: string, fee?: string): TrackedOrder | null {
     const order = this.orders.get(orderId);
-    if (!order || order.status !== 'pending') return null;
+    if (!order || !isOpenOrder(order)) return null;
 
     order.status = 'filled';
-    order.filledAt = Date.now();
+    order.filledAt = this.clock.now();
+    order.filledSize = order.size;
+    if (avgFillPrice && parseFloat(avgFillPrice) > 0) {
+      order.avgFillPrice = avgFillPrice;
+    }
+    if (fee && parseFloat(fee) > 0) {
+      order.fee = fee;
+    }
 
     // 清除该订单在 activeEntryOrderIds 中的引用
     for (const [dir, id] of this.activeEntryOrderIds.entries()) {
@@ -243,12 +306,82 @@ export class OrderStateTracker {
     return order;
   }
 
+  /**
+   * 记录部分成交进度（累计成交量只增不减，完全成交仍需 confirmFilled 确认）
+   */
+  recordPartialFill(orderId: string, filledSize: string, avgFillPrice?: string): TrackedOrder | null {
+    const order = this.orders.get(orderId);
+    if (!order || !isOpenOrder(order)) return null;
+
+    const filled = parseFloat(filledSize);
+    if (!(filled > 0) || filled <= parseFloat(order.filledSize || '0')) return order;
+
+    order.filledSize = filledSize;
+    if (avgFillPrice && parseFloat(avgFillPrice) > 0) {
+      order.avgFillPrice = avgFillPrice;
+    }
+    if (filled < parseFloat(order.size)) {
+      order.status = 'partially_filled';
+    }
+    return order;
+  }
+
+  /**
+   * 累加单次成交手续费（订单推送逐笔给出，仅对仍在挂单的订单累加）
+   */
+  addFillFee(orderId: string, fillFee: string): void {
+    const order = this.orders.get(orderId);
+    const fee = Math.abs(parseFloat(fillFee));
+    if (!order || !isOpenOrder(order) || !(fee > 0)) return;
+    order.fee = (parseFloat(order.fee || '0') + fee).toFixed(8);
+  }
+
+  /**
+   * 标记部分成交后被撤销的订单：状态为 cancelled，保留已成交数量与均价供出场使用
+   */
+  markCancelledWithFill(
+    orderId: string,
+    filledSize: string,
+    avgFillPrice?: string,
+    fee?: string
+  ): TrackedOrder | null {
+    const order = this.orders.get(orderId);
+    // 仅处理仍在挂单的订单，避免撤单与对账并发时重复挂出场单
+    if (!order || !isOpenOrder(order)) return null;
+
+    order.status = 'cancelled';
+    order.filledSize = filledSize;
+    order.filledAt = this.clock.now();
+    if (avgFillPrice && parseFloat(avgFillPrice) > 0) {
+      order.avgFillPrice = avgFillPrice;
+    }
+    if (fee && parseFloat(fee) > 0) {
+      order.fee = fee;
+    }
+    for (const [dir, id] of this.activeEntryOrderIds.entries()) {
+      if (id === orderId) {
+        this.activeEntryOrderIds.set(dir, null);
+      }
+    }
+
+    logger.info('部分成交订单已撤销', {
+      orderId: order.orderId,
+      side: order.side,
+      price: order.price,
+      size: order.size,
+      filledSize,
+      role: order.orderRole,
+    });
+
+    return order;
+  }
+
   /**
    * 标记订单为交易所自动撤销（如 post_only 被拒）
    */
   markExchangeCancelled(orderId: string): void {
     const order = this.orders.get(orderId);
-    if (order && order.status === 'pending') {
+    if (order && isOpenOrder(order)) {
       order.status = 'cancelled';
       for (const [dir, id] of this.activeEntryOrderIds.entries()) {
         if (id === orderId) {
@@ -318,7 +451,7 @@ export class OrderStateTracker {
    */
   cleanup(keepRecent = 500): void {
     const completed = Array.from(this.orders.entries())
-      .filter(([, o]) => o.status !== 'pending')
+      .filter(([, o]) => !isOpenOrder(o))
       .sort((a, b) => (b[1].filledAt || b[1].createdAt) - (a[1].filledAt || a[1].createdAt));
 
     if (completed.length > keepRecent) {
@@ -0,0 +1,296 @@
+/**
+ * 绩效指标计算（纯函数）
+ * 输入按日汇总的净盈亏与逐笔平仓记录，输出权益曲线、周期收益、回撤区间、夏普/索提诺与逐笔统计。
+ * 缺失的日期按 0 盈亏补齐，使比率按自然日计算；年化按 365 天（加密市场无休市）
+ */
+
+import {
+  AnalyticsPeriod,
+  DrawdownPeriod,
+  EquityCurvePoint,
+  HourlyPerformance,
+  PerformanceMetrics,
+  PeriodReturn,
+} from '../types/analytics.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANNUALIZATION_DAYS = 365;
+
+/** 一天的净盈亏汇总 */
+export interface DailyPnlRow {
+  date: string;                     // YYYY-MM-DD（UTC）
+  pnl: number;                      // 已扣手续费，含资金费
+  fees: number;
+  funding: number;
+  trades: number;
+}
+
+/** 一笔平仓交易 */
+export interface ClosedTradeRow {
+  netPnl: number;
+  closedAt: number;
+  /** 开仓单成交时间，无法关联时为 null */
+  openedAt: number | null;
+}
+
+function toDateKey(ms: number): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+function dateKeyToMs(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((dateKeyToMs(to) - dateKeyToMs(from)) / DAY_MS);
+}
+
+function percentOf(value: number, base: number): string | null {
+  return base > 0 ? ((value / base) * 100).toFixed(2) : null;
+}
+
+/**
+ * 权益曲线：按日期升序累加，首尾之间缺失的日期补 0
+ */
+export function buildEquityCurve(rows: DailyPnlRow[], initialCapital?: number): EquityCurvePoint[] {
+  if (rows.length === 0) return [];
+
+  const byDate = new Map(rows.map(r => [r.date, r]));
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  const lastMs = dateKeyToMs(sorted[sorted.length - 1].date);
+  const capital = initialCapital ?? 0;
+
+  const curve: EquityCurvePoint[] = [];
+  let cumulative = 0;
+  let peak = 0;
+  for (let ms = dateKeyToMs(sorted[0].date); ms <= lastMs; ms += DAY_MS) {
+    const date = toDateKey(ms);
+    const row = byDate.get(date);
+    const pnl = row ? row.pnl : 0;
+    cumulative += pnl;
+    peak = Math.max(peak, cumulative);
+    const drawdown = peak - cumulative;
+
+    curve.push({
+      date,
+      pnl: pnl.toFixed(4),
+      cumulativePnl: cumulative.toFixed(4),
+      equity: initialCapital !== undefined ? (capital + cumulative).toFixed(4) : null,
+      drawdown: drawdown.toFixed(4),
+      drawdownPercent: initialCapital !== undefined ? (percentOf(drawdown, capital + peak) ?? '0.00') : null,
+      trades: row ? row.trades : 0,
+    });
+  }
+  return curve;
+}
+
+/**
+ * 回撤区间：累计盈亏跌破前高开始，回到前高结束；最后一段未恢复时 recoveryDate 为 null
+ * 曲线第一天即亏损时，前高记为其前一天（起始资金）
+ */
+export function findDrawdowns(curve: EquityCurvePoint[], initialCapital?: number): DrawdownPeriod[] {
+  if (curve.length === 0) return [];
+
+  const periods: DrawdownPeriod[] = [];
+  let peak = 0;
+  let peakDate = toDateKey(dateKeyToMs(curve[0].date) - DAY_MS);
+  let trough = 0;
+  let troughDate = peakDate;
+  let inDrawdown = false;
+
+  const close = (recoveryDate: string | null, endDate: string) => {
+    const depth = peak - trough;
+    periods.push({
+      peakDate,
+      troughDate,
+      recoveryDate,
+      depth: depth.toFixed(4),
+      depthPercent: initialCapital !== undefined ? percentOf(depth, initialCapital + peak) : null,
+      durationDays: daysBetween(peakDate, endDate),
+    });
+  };
+
+  for (const point of curve) {
+    const cumulative = parseFloat(point.cumulativePnl);
+    if (cumulative >= peak) {
+      if (inDrawdown) {
+        close(point.date, point.date);
+        inDrawdown = false;
+      }
+      peak = cumulative;
+      peakDate = point.date;
+      continue;
+    }
+    if (!inDrawdown || cumulative < trough) {
+      trough = cumulative;
+      troughDate = point.date;
+    }
+    inDrawdown = true;
+  }
+  if (inDrawdown) {
+    close(null, curve[curve.length - 1].date);
+  }
+  return periods;
+}
+
+function periodKey(date: string, period: AnalyticsPeriod): string {
+  if (period === 'daily') return date;
+  if (period === 'monthly') return date.slice(0, 7);
+  // 周以周一为起点
+  const ms = dateKeyToMs(date);
+  const weekday = (new Date(ms).getUTCDay() + 6) % 7;
+  return toDateKey(ms - weekday * DAY_MS);
+}
+
+/**
+ * 周期收益：收益率相对期初权益（初始资金 + 期初累计盈亏）
+ */
+export function aggregateReturns(
+  curve: EquityCurvePoint[],
+  period: AnalyticsPeriod,
+  initialCapital?: number
+): PeriodReturn[] {
+  const result: PeriodReturn[] = [];
+  let current: { key: string; pnl: number; trades: number; startEquity: number } | null = null;
+  let cumulative = 0;
+
+  const flush = () => {
+    if (!current) return;
+    result.push({
+      period: current.key,
+      pnl: current.pnl.toFixed(4),
+      returnPercent: initialCapital !== undefined ? percentOf(current.pnl, current.startEquity) : null,
+      trades: current.trades,
+    });
+  };
+
+  for (const point of curve) {
+    const key = periodKey(point.date, period);
+    if (!current || current.key !== key) {
+      flush();
+      current = { key, pnl: 0, trades: 0, startEquity: (initialCapital ?? 0) + cumulative };
+    }
+    const pnl = parseFloat(point.pnl);
+    current.pnl += pnl;
+    current.trades += point.trades;
+    cumulative += pnl;
+  }
+  flush();
+  return result;
+}
+
+/**
+ * 年化夏普 / 索提诺（无风险利率取 0）
+ * 有初始资金时用日收益率，否则用日盈亏金额（资金不变时两者比率相同）
+ */
+export function computeRiskRatios(
+  curve: EquityCurvePoint[],
+  initialCapital?: number
+): { sharpeRatio: string | null; sortinoRatio: string | null } {
+  if (curve.length < 2) return { sharpeRatio: null, sortinoRatio: null };
+
+  const returns: number[] = [];
+  let equity = initialCapital ?? 0;
+  for (const point of curve) {
+    const pnl = parseFloat(point.pnl);
+    if (initialCapital !== undefined) {
+      returns.push(equity > 0 ? pnl / equity : 0);
+    } else {
+      returns.push(pnl);
+    }
+    equity += pnl;
+  }
+
+  const n = returns.length;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / n;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (n - 1);
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / n);
+  const scale = Math.sqrt(ANNUALIZATION_DAYS);
+
+  return {
+    sharpeRatio: variance > 0 ? ((mean / Math.sqrt(variance)) * scale).toFixed(2) : null,
+    sortinoRatio: downside > 0 ? ((mean / downside) * scale).toFixed(2) : null,
+  };
+}
+
+/**
+ * 按小时（UTC）统计：优先取开仓时间，无法关联开仓单时取平仓时间
+ */
+export function hourlyPerformance(trades: ClosedTradeRow[]): HourlyPerformance[] {
+  const buckets = Array.from({ length: 24 }, () => ({ trades: 0, wins: 0, pnl: 0 }));
+  for (const trade of trades) {
+    const bucket = buckets[new Date(trade.openedAt ?? trade.closedAt).getUTCHours()];
+    bucket.trades++;
+    bucket.pnl += trade.netPnl;
+    if (trade.netPnl > 0) bucket.wins++;
+  }
+  return buckets.map((b, hour) => ({
+    hour,
+    trades: b.trades,
+    netPnl: b.pnl.toFixed(4),
+    winRate: b.trades > 0 ? ((b.wins / b.trades) * 100).toFixed(2) : '0',
+  }));
+}
+
+/**
+ * 汇总指标：收益与回撤来自权益曲线，胜率 / 盈亏比 / 期望 / 持仓时间来自逐笔记录
+ */
+export function computeMetrics(
+  daily: DailyPnlRow[],
+  curve: EquityCurvePoint[],
+  drawdowns: DrawdownPeriod[],
+  trades: ClosedTradeRow[],
+  initialCapital?: number
+): PerformanceMetrics {
+  let totalWin = 0;
+  let totalLoss = 0;
+  let winTrades = 0;
+  let holdingTotal = 0;
+  let holdingCount = 0;
+  for (const trade of trades) {
+    if (trade.netPnl > 0) {
+      winTrades++;
+      totalWin += trade.netPnl;
+    } else {
+      totalLoss += -trade.netPnl;
+    }
+    if (trade.openedAt !== null && trade.closedAt >= trade.openedAt) {
+      holdingTotal += trade.closedAt - trade.openedAt;
+      holdingCount++;
+    }
+  }
+  const lossTrades = trades.length - winTrades;
+
+  const netPnl = curve.length > 0 ? parseFloat(curve[curve.length - 1].cumulativePnl) : 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent: number | null = initialCapital !== undefined ? 0 : null;
+  for (const point of curve) {
+    maxDrawdown = Math.max(maxDrawdown, parseFloat(point.drawdown));
+    if (maxDrawdownPercent !== null && point.drawdownPercent !== null) {
+      maxDrawdownPercent = Math.max(maxDrawdownPercent, parseFloat(point.drawdownPercent));
+    }
+  }
+
+  return {
+    startDate: curve.length > 0 ? curve[0].date : null,
+    endDate: curve.length > 0 ? curve[curve.length - 1].date : null,
+    tradingDays: daily.filter(d => d.trades > 0).length,
+    netPnl: netPnl.toFixed(4),
+    totalReturnPercent: initialCapital !== undefined ? percentOf(netPnl, initialCapital) : null,
+    totalTrades: trades.length,
+    winTrades,
+    lossTrades,
+    winRate: trades.length > 0 ? ((winTrades / trades.length) * 100).toFixed(2) : '0',
+    profitFactor: totalLoss > 0 ? (totalWin / totalLoss).toFixed(2) : null,
+    expectancy: trades.length > 0 ? ((totalWin - totalLoss) / trades.length).toFixed(4) : '0',
+    avgWin: winTrades > 0 ? (totalWin / winTrades).toFixed(4) : '0',
+    avgLoss: lossTrades > 0 ? (totalLoss / lossTrades).toFixed(4) : '0',
+    ...computeRiskRatios(curve, initialCapital),
+    maxDrawdown: maxDrawdown.toFixed(4),
+    maxDrawdownPercent: maxDrawdownPercent !== null ? maxDrawdownPercent.toFixed(2) : null,
+    maxDrawdownDurationDays: drawdowns.reduce((max, d) => Math.max(max, d.durationDays), 0),
+    avgHoldingMs: holdingCount > 0 ? Math.round(holdingTotal / holdingCount) : null,
+    fees: daily.reduce((sum, d) => sum + d.fees, 0).toFixed(4),
+    funding: daily.reduce((sum, d) => sum + d.funding, 0).toFixed(4),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * PnL 账本
+ * 按实际成交价、手续费、资金费逐笔记录已实现盈亏，区分毛利 / 手续费 / 资金费 / 净利
+ */
+
+import { TrackedOrder, PnlLedgerEntry } from '../types/strategy.types';
+import { UnifiedFundingPayment } from '../types/trading.types';
+import { getFilledSize, getFillPrice } from './order-state-tracker';
+import { StrategyConfigManager } from './strategy-config.manager';
+import { Clock, systemClock } from '../utils/clock';
+
+const MAX_LEDGER_ENTRIES = 1000;
+
+export interface LedgerTotals {
+  grossPnl: number;
+  fees: number;
+  funding: number;
+  netPnl: number;
+}
+
+export class PnlLedger {
+  private entries: PnlLedgerEntry[] = [];
+  private grossPnl = 0;
+  private fees = 0;
+  private funding = 0;
+  private seenBillIds: Set<string> = new Set();
+  private makerFeeRate: number | null = null;
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  /**
+   * 设置 maker 费率（来自 InstrumentSpec），用于成交数据缺失手续费时估算
+   */
+  setFeeRate(makerFeeRate: number | null): void {
+    this.makerFeeRate = makerFeeRate;
+  }
+
+  /**
+   * 订单手续费：优先取成交数据中的实际手续费，否则按成交额 x maker 费率估算
+   */
+  resolveOrderFee(order: TrackedOrder): number {
+    const actual = parseFloat(order.fee || '0');
+    if (actual > 0) return actual;
+
+    const notional = parseFloat(getFillPrice(order)) * parseFloat(getFilledSize(order));
+    return this.makerFeeRate !== null
+      ? notional * this.makerFeeRate
+      : StrategyConfigManager.estimateFeeUsdt(notional.toFixed(2));
+  }
+
+  /**
+   * 记录一笔平仓交易（入场单的手续费全部计入本笔）
+   */
+  recordTrade(direction: 'long' | 'short', entryOrder: TrackedOrder, exitOrder: TrackedOrder): PnlLedgerEntry {
+    const entryPrice = parseFloat(getFillPrice(entryOrder));
+    const exitPrice = parseFloat(getFillPrice(exitOrder));
+    const size = parseFloat(getFilledSize(exitOrder));
+
+    const grossPnl = direction === 'long'
+      ? (exitPrice - entryPrice) * size
+      : (entryPrice - exitPrice) * size;
+    const fee = this.resolveOrderFee(entryOrder) + this.resolveOrderFee(exitOrder);
+    const netPnl = grossPnl - fee;
+
+    this.grossPnl += grossPnl;
+    this.fees += fee;
+
+    return this.push({
+      type: 'trade',
+      timestamp: this.clock.now(),
+      direction,
+      entryOrderId: entryOrder.orderId,
+      exitOrderId: exitOrder.orderId,
+      entryPrice: getFillPrice(entryOrder),
+      exitPrice: getFillPrice(exitOrder),
+      size: getFilledSize(exitOrder),
+      grossPnl: grossPnl.toFixed(6),
+      fee: fee.toFixed(6),
+      funding: '0',
+      netPnl: netPnl.toFixed(6),
+    });
+  }
+
+  /**
+   * 记录资金费结算（按 billId 去重，重复记录返回 null）
+   */
+  recordFunding(payment: UnifiedFundingPayment): PnlLedgerEntry | null {
+    if (this.seenBillIds.has(payment.billId)) return null;
+    this.seenBillIds.add(payment.billId);
+
+    const amount = parseFloat(payment.amount);
+    if (!Number.isFinite(amount) || amount === 0) return null;
+    this.funding += amount;
+
+    return this.push({
+      type: 'funding',
+      timestamp: payment.timestamp,
+      grossPnl: '0',
+      fee: '0',
+      funding: amount.toFixed(6),
+      netPnl: amount.toFixed(6),
+      billId: payment.billId,
+    });
+  }
+
+  getTotals(): LedgerTotals {
+    return {
+      grossPnl: this.grossPnl,
+      fees: this.fees,
+      funding: this.funding,
+      netPnl: this.grossPnl - this.fees + this.funding,
+    };
+  }
+
+  getEntries(limit = 100): PnlLedgerEntry[] {
+    return this.entries.slice(-limit);
+  }
+
+  reset(): void {
+    this.entries = [];
+    this.grossPnl = 0;
+    this.fees = 0;
+    this.funding = 0;
+    this.seenBillIds.clear();
+  }
+
+  private push(entry: PnlLedgerEntry): PnlLedgerEntry {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_LEDGER_ENTRIES) {
+      this.entries = this.entries.slice(-MAX_LEDGER_ENTRIES);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,720 @@
+/**
+ * 组合风控
+ * 定时汇总每个交易账户（默认账户与已配置凭证的命名账户）现货与合约的持仓、权益，以及绑定该账户的运行中实例的日内 PnL，
+ * 按账户分别执行账户级限制：总名义敞口、单币种净敞口、杠杆、单日亏损、回撤。限制配置各账户共用。
+ *
+ * 两层拦截：
+ * - RiskController.checkCanTrade 前置检查：已突破的账户级限制直接暂停各引擎开仓
+ * - 实盘订单服务下单前检查（RiskGovernedOrderAdapter）：按下单后的预计敞口否决订单，减仓单始终放行
+ *
+ * 日初权益与峰值权益只保存在内存，进程重启后以首次刷新时的权益重新起算
+ */
+
+import { StrategyManager } from './strategy-manager';
+import { FuturesAccountService } from '../services/futures-account.service';
+import { CapitalManagerService } from '../services/capital-manager.service';
+import { MarketDataService } from '../services/market-data.service';
+import { NotificationService } from '../services/notification.service';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
+import { StrategyEvent } from '../types/strategy.types';
+import {
+  PortfolioRiskConfig,
+  PortfolioRiskSnapshot,
+  PortfolioRiskBreach,
+  PortfolioRiskLimit,
+  PortfolioRiskVeto,
+  PortfolioOrderIntent,
+  PortfolioOrderCheck,
+  CoinExposure,
+  DEFAULT_PORTFOLIO_RISK_CONFIG,
+} from '../types/portfolio-risk.types';
+import { ProductType } from '../types/futures.types';
+import type { RiskCheckResult } from './risk-controller';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('portfolio-risk-governor');
+
+/** 按 1:1 计价、不计入币种敞口的稳定币 */
+const STABLE_COINS = new Set(['USDT', 'USDC']);
+
+const QUOTE_SUFFIXES = ['USDT', 'USDC', 'USD'];
+
+const SUPPORTED_PRODUCT_TYPES: ProductType[] = ['USDT-FUTURES', 'SUSDT-FUTURES'];
+
+const MIN_REFRESH_INTERVAL_MS = 5000;
+
+/** 组合级事件写入 strategy_events 时使用的 instance_id / strategy_type */
+const PORTFOLIO_EVENT_SOURCE = 'portfolio';
+
+/** 前置检查拦截开仓的限制项（净敞口分方向，只在下单时检查） */
+const ACCOUNT_WIDE_LIMITS: PortfolioRiskLimit[] = ['daily_loss', 'drawdown', 'leverage', 'gross_notional'];
+
+interface CoinPosition {
+  spot: number;
+  futuresLong: number;
+  futuresShort: number;
+}
+
+/** 单个交易账户的统计与检查状态 */
+interface AccountRiskState {
+  snapshot: PortfolioRiskSnapshot | null;
+  dayKey: string | null;
+  dayStartEquity: number;
+  peakEquity: number;
+  // 上次刷新后已放行的订单，下次刷新时清零（此后以交易所持仓为准）
+  reservedGross: number;
+  reservedNet: Map<string, number>;
+  // 本刷新周期内被否决过的交易对：引擎前置检查据此暂停开仓，避免反复下单触发循环错误
+  vetoedSymbols: Map<string, string>;
+  breachSince: Map<string, number>;
+  vetoCount: number;
+  lastVeto: PortfolioRiskVeto | null;
+  lastError: string | null;
+}
+
+interface AccountTotals {
+  spotEquity: number;
+  futuresEquity: number;
+  coins: Map<string, CoinPosition>;
+}
+
+export function baseCoinOf(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  for (const suffix of QUOTE_SUFFIXES) {
+    if (upper.endsWith(suffix) && upper.length > suffix.length) {
+      return upper.slice(0, -suffix.length);
+    }
+  }
+  return upper;
+}
+
+function limitValue(value: string | undefined): number {
+  const parsed = parseFloat(value ?? '0');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function getTodayKey(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export class PortfolioRiskGovernor {
+  private static instance: PortfolioRiskGovernor | null = null;
+
+  private config: PortfolioRiskConfig = { ...DEFAULT_PORTFOLIO_RISK_CONFIG };
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private isRefreshing = false;
+
+  private accounts: Map<string, AccountRiskState> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): PortfolioRiskGovernor {
+    if (!PortfolioRiskGovernor.instance) {
+      PortfolioRiskGovernor.instance = new PortfolioRiskGovernor();
+    }
+    return PortfolioRiskGovernor.instance;
+  }
+
+  // ============================================================
+  // Lifecycle
+  // ============================================================
+
+  start(): void {
+    if (!this.config.enabled) {
+      logger.info('组合风控未启用');
+      return;
+    }
+    if (this.refreshTimer) return;
+
+    this.refresh().catch(err => logger.warn('组合风控首次刷新失败', { error: String(err) }));
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(err => logger.warn('组合风控定时刷新失败', { error: String(err) }));
+    }, this.config.refreshIntervalMs);
+    logger.info('组合风控已启动', { refreshIntervalMs: this.config.refreshIntervalMs });
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * 更新配置（校验后生效），启停状态与刷新间隔随之调整
+   */
+  updateConfig(updates: Partial<PortfolioRiskConfig>): PortfolioRiskConfig {
+    const next: PortfolioRiskConfig = {
+      ...this.config,
+      ...updates,
+      netDeltaLimits: updates.netDeltaLimits
+        ? Object.fromEntries(Object.entries(updates.netDeltaLimits).map(([coin, v]) => [coin.toUpperCase(), v]))
+        : this.config.netDeltaLimits,
+      futuresProductTypes: updates.futuresProductTypes ?? this.config.futuresProductTypes,
+    };
+    this.validate(next);
+
+    this.stop();
+    this.config = next;
+    if (!next.enabled) {
+      this.resetState();
+    }
+    this.start();
+
+    logger.info('组合风控配置已更新', {
+      enabled: next.enabled,
+      maxGrossNotionalUsdt: next.maxGrossNotionalUsdt,
+      maxNetDeltaUsdt: next.maxNetDeltaUsdt,
+      maxLeverage: next.maxLeverage,
+      maxDailyLossUsdt: next.maxDailyLossUsdt,
+      maxDrawdownPercent: next.maxDrawdownPercent,
+    });
+    return this.config;
+  }
+
+  getConfig(): PortfolioRiskConfig {
+    return this.config;
+  }
+
+  /**
+   * 指定账户的风控快照（未指定为默认账户）
+   */
+  getSnapshot(accountId: string = DEFAULT_ACCOUNT_ID): PortfolioRiskSnapshot {
+    const state = this.stateOf(accountId);
+    if (state.snapshot) {
+      return {
+        ...state.snapshot,
+        enabled: this.config.enabled,
+        reservedNotionalUsdt: state.reservedGross.toFixed(2),
+        vetoCount: state.vetoCount,
+        lastVeto: state.lastVeto,
+        lastError: state.lastError,
+      };
+    }
+    return {
+      accountId,
+      enabled: this.config.enabled,
+      updatedAt: null,
+      equityUsdt: '0',
+      spotEquityUsdt: '0',
+      futuresEquityUsdt: '0',
+      grossNotionalUsdt: '0',
+      leverage: '0',
+      dailyPnlUsdt: '0',
+      instanceDailyPnlUsdt: '0',
+      runningInstances: 0,
+      dayStartEquityUsdt: '0',
+      peakEquityUsdt: '0',
+      drawdownPercent: '0',
+      reservedNotionalUsdt: state.reservedGross.toFixed(2),
+      exposures: [],
+      breaches: [],
+      vetoCount: state.vetoCount,
+      lastVeto: state.lastVeto,
+      lastError: state.lastError,
+    };
+  }
+
+  // ============================================================
+  // Checks
+  // ============================================================
+
+  /**
+   * 引擎开仓前置检查：实例所属账户的账户级限制已突破或该交易对本周期被否决过时暂停开仓
+   * 未启用或尚无快照时放行
+   */
+  checkAccountLimits(symbol: string, accountId?: string): RiskCheckResult {
+    const state = this.stateOf(accountId);
+    if (!this.config.enabled || !state.snapshot) {
+      return { canTrade: true, reason: null };
+    }
+
+    const breach = state.snapshot.breaches.find(b => ACCOUNT_WIDE_LIMITS.includes(b.limit));
+    if (breach) {
+      return { canTrade: false, reason: `组合风控: ${breach.message}` };
+    }
+
+    const vetoReason = state.vetoedSymbols.get(symbol);
+    if (vetoReason) {
+      return { canTrade: false, reason: `组合风控: ${vetoReason}` };
+    }
+    return { canTrade: true, reason: null };
+  }
+
+  /**
+   * 下单前检查：减仓单始终放行；开仓单按下单后的预计敞口检查各项上限，
+   * 放行的名义价值计入预占，直到下次刷新反映到交易所持仓
+   */
+  checkOrder(intent: PortfolioOrderIntent): PortfolioOrderCheck {
+    const state = this.stateOf(intent.accountId);
+    if (!this.config.enabled || !state.snapshot) {
+      return { allowed: true, limit: null, reason: null };
+    }
+
+    const notional = parseFloat(intent.size) * intent.price;
+    if (!(notional > 0) || this.isReducing(intent)) {
+      return { allowed: true, limit: null, reason: null };
+    }
+
+    const coin = baseCoinOf(intent.symbol);
+    const signed = intent.side === 'buy' ? notional : -notional;
+    const result = this.evaluateOrder(state, coin, notional, signed);
+
+    if (!result.allowed) {
+      this.recordVeto(state, intent, notional, result);
+      return result;
+    }
+
+    state.reservedGross += notional;
+    state.reservedNet.set(coin, (state.reservedNet.get(coin) ?? 0) + signed);
+    return result;
+  }
+
+  /**
+   * 同 checkOrder，否决时抛出 PORTFOLIO_RISK_VETO
+   */
+  assertOrderAllowed(intent: PortfolioOrderIntent): void {
+    const result = this.checkOrder(intent);
+    if (!result.allowed) {
+      throw new AppError(
+        ErrorCode.PORTFOLIO_RISK_VETO,
+        `组合风控否决下单: ${result.reason}`,
+        { symbol: intent.symbol, side: intent.side, size: intent.size, limit: result.limit, accountId: intent.accountId },
+        409
+      );
+    }
+  }
+
+  private evaluateOrder(state: AccountRiskState, coin: string, notional: number, signed: number): PortfolioOrderCheck {
+    const snapshot = state.snapshot!;
+    const blocking = snapshot.breaches.find(b => ACCOUNT_WIDE_LIMITS.includes(b.limit) && b.limit !== 'gross_notional');
+    if (blocking) {
+      return { allowed: false, limit: blocking.limit, reason: blocking.message };
+    }
+
+    const gross = parseFloat(snapshot.grossNotionalUsdt) + state.reservedGross;
+    const projectedGross = gross + notional;
+
+    const maxGross = limitValue(this.config.maxGrossNotionalUsdt);
+    if (maxGross > 0 && projectedGross > maxGross) {
+      return {
+        allowed: false,
+        limit: 'gross_notional',
+        reason: `下单后总名义敞口 ${projectedGross.toFixed(2)} USDT 将超过上限 ${maxGross.toFixed(2)} USDT`,
+      };
+    }
+
+    const equity = parseFloat(snapshot.equityUsdt);
+    if (this.config.maxLeverage > 0 && equity > 0) {
+      const projectedLeverage = projectedGross / equity;
+      if (projectedLeverage > this.config.maxLeverage) {
+        return {
+          allowed: false,
+          limit: 'leverage',
+          reason: `下单后账户杠杆 ${projectedLeverage.toFixed(2)}x 将超过上限 ${this.config.maxLeverage}x`,
+        };
+      }
+    }
+
+    const maxNet = this.getNetDeltaLimit(coin);
+    if (maxNet > 0) {
+      const exposure = snapshot.exposures.find(e => e.coin === coin);
+      const currentNet = (exposure ? parseFloat(exposure.netUsdt) : 0) + (state.reservedNet.get(coin) ?? 0);
+      const projectedNet = currentNet + signed;
+      // 朝净敞口缩小方向的订单（如对冲腿）不受净敞口上限约束
+      if (Math.abs(projectedNet) > maxNet && Math.abs(projectedNet) > Math.abs(currentNet)) {
+        return {
+          allowed: false,
+          limit: 'net_delta',
+          reason: `下单后 ${coin} 净敞口 ${projectedNet.toFixed(2)} USDT 将超过上限 ${maxNet.toFixed(2)} USDT`,
+        };
+      }
+    }
+
+    return { allowed: true, limit: null, reason: null };
+  }
+
+  /**
+   * 减仓单：策略标记的出场/平仓单、合约平仓、现货卖出
+   * 单向持仓的未标记合约单按开仓处理（缓存的持仓快照可能已过期，不据此推断减仓）
+   */
+  private isReducing(intent: PortfolioOrderIntent): boolean {
+    if (intent.reduceOnly) return true;
+    if (intent.tradingType === 'spot') {
+      return intent.side === 'sell';
+    }
+    return intent.tradeSide === 'close';
+  }
+
+  private getNetDeltaLimit(coin: string): number {
+    const override = this.config.netDeltaLimits[coin];
+    return override !== undefined ? limitValue(override) : limitValue(this.config.maxNetDeltaUsdt);
+  }
+
+  private recordVeto(
+    state: AccountRiskState,
+    intent: PortfolioOrderIntent,
+    notional: number,
+    result: PortfolioOrderCheck
+  ): void {
+    state.vetoCount++;
+    state.lastVeto = {
+      timestamp: Date.now(),
+      symbol: intent.symbol,
+      side: intent.side,
+      notionalUsdt: notional.toFixed(2),
+      limit: result.limit!,
+      reason: result.reason!,
+    };
+    state.vetoedSymbols.set(intent.symbol, result.reason!);
+    logger.warn('组合风控否决下单', {
+      accountId: intent.accountId || DEFAULT_ACCOUNT_ID,
+      symbol: intent.symbol,
+      side: intent.side,
+      notional: notional.toFixed(2),
+      limit: result.limit,
+      reason: result.reason,
+    });
+  }
+
+  // ============================================================
+  // Refresh
+  // ============================================================
+
+  /**
+   * 拉取各账户数据重建快照，返回指定账户（未指定为默认账户）的快照
+   * 单个账户失败时保留该账户上次快照并记录错误，不影响其他账户
+   */
+  async refresh(accountId: string = DEFAULT_ACCOUNT_ID): Promise<PortfolioRiskSnapshot> {
+    if (this.isRefreshing || !this.config.enabled) return this.getSnapshot(accountId);
+    this.isRefreshing = true;
+
+    try {
+      const accountIds = BitgetAccountService.getInstance().configuredIds();
+      for (const id of Array.from(this.accounts.keys())) {
+        if (!accountIds.includes(id)) this.accounts.delete(id);
+      }
+
+      const tickers = await new MarketDataService().getTickers();
+      const prices = new Map(tickers.map(t => [t.symbol, parseFloat(t.lastPr)]));
+
+      for (const id of accountIds) {
+        await this.refreshAccount(id, prices);
+      }
+    } catch (error) {
+      for (const state of this.accounts.values()) {
+        state.lastError = String(error);
+      }
+      logger.warn('组合风控刷新失败，沿用上次快照', { error: String(error) });
+    } finally {
+      this.isRefreshing = false;
+    }
+    return this.getSnapshot(accountId);
+  }
+
+  private async refreshAccount(accountId: string, prices: Map<string, number>): Promise<void> {
+    const state = this.stateOf(accountId);
+    try {
+      const totals = await this.loadAccountTotals(accountId, prices);
+      const now = Date.now();
+      const equity = totals.spotEquity + totals.futuresEquity;
+
+      const today = getTodayKey(now);
+      if (state.dayKey !== today) {
+        state.dayKey = today;
+        state.dayStartEquity = equity;
+      }
+      if (equity > state.peakEquity) {
+        state.peakEquity = equity;
+      }
+
+      const exposures = this.buildExposures(totals.coins);
+      const gross = exposures.reduce((sum, e) => sum + parseFloat(e.grossUsdt), 0);
+      const leverage = equity > 0 ? gross / equity : 0;
+      const dailyPnl = equity - state.dayStartEquity;
+      const drawdown = state.peakEquity > 0 ? ((state.peakEquity - equity) / state.peakEquity) * 100 : 0;
+
+      const running = StrategyManager.getInstance().getStrategiesByAccount(accountId)
+        .filter(s => s.getStatus() === 'RUNNING');
+      const instanceDailyPnl = running.reduce(
+        (sum, s) => sum + (parseFloat(s.getPnlSummary().dailyPnl) || 0),
+        0
+      );
+
+      const breaches = this.collectBreaches(state, accountId, now, {
+        gross,
+        leverage,
+        dailyLoss: Math.max(-dailyPnl, -instanceDailyPnl, 0),
+        drawdown,
+        exposures,
+      });
+
+      state.reservedGross = 0;
+      state.reservedNet.clear();
+      state.vetoedSymbols.clear();
+      state.lastError = null;
+
+      state.snapshot = {
+        accountId,
+        enabled: this.config.enabled,
+        updatedAt: now,
+        equityUsdt: equity.toFixed(2),
+        spotEquityUsdt: totals.spotEquity.toFixed(2),
+        futuresEquityUsdt: totals.futuresEquity.toFixed(2),
+        grossNotionalUsdt: gross.toFixed(2),
+        leverage: leverage.toFixed(2),
+        dailyPnlUsdt: dailyPnl.toFixed(2),
+        instanceDailyPnlUsdt: instanceDailyPnl.toFixed(2),
+        runningInstances: running.length,
+        dayStartEquityUsdt: state.dayStartEquity.toFixed(2),
+        peakEquityUsdt: state.peakEquity.toFixed(2),
+        drawdownPercent: drawdown.toFixed(2),
+        reservedNotionalUsdt: '0.00',
+        exposures,
+        breaches,
+        vetoCount: state.vetoCount,
+        lastVeto: state.lastVeto,
+        lastError: null,
+      };
+    } catch (error) {
+      state.lastError = String(error);
+      logger.warn('组合风控刷新失败，沿用上次快照', { accountId, error: state.lastError });
+    }
+  }
+
+  private async loadAccountTotals(accountId: string, prices: Map<string, number>): Promise<AccountTotals> {
+    const coins = new Map<string, CoinPosition>();
+    const coinOf = (coin: string): CoinPosition => {
+      let position = coins.get(coin);
+      if (!position) {
+        position = { spot: 0, futuresLong: 0, futuresShort: 0 };
+        coins.set(coin, position);
+      }
+      return position;
+    };
+
+    // 现货：稳定币按 1:1 计入权益，其余币种按 USDT 交易对最新价估值
+    const assets = await new CapitalManagerService(accountId).getAccountAssets();
+
+    let spotEquity = 0;
+    for (const asset of assets) {
+      const amount = parseFloat(asset.available) + parseFloat(asset.frozen) + parseFloat(asset.locked);
+      if (!(amount > 0)) continue;
+      const coin = asset.coin.toUpperCase();
+      if (STABLE_COINS.has(coin)) {
+        spotEquity += amount;
+        continue;
+      }
+      const price = prices.get(`${coin}USDT`);
+      if (!price || !(price > 0)) {
+        logger.debug('现货资产无 USDT 报价，跳过估值', { coin });
+        continue;
+      }
+      const value = amount * price;
+      spotEquity += value;
+      coinOf(coin).spot += value;
+    }
+
+    // 合约：权益取各保证金币种 usdtEquity，持仓按标记价格计名义价值
+    const futuresService = new FuturesAccountService(accountId);
+    let futuresEquity = 0;
+    for (const productType of this.config.futuresProductTypes) {
+      const [accounts, positions] = await Promise.all([
+        futuresService.getAccountInfo(productType),
+        futuresService.getPositions(productType),
+      ]);
+      futuresEquity += accounts.reduce((sum, a) => sum + (parseFloat(a.usdtEquity) || 0), 0);
+
+      for (const position of positions) {
+        const value = parseFloat(position.total) * parseFloat(position.markPrice);
+        if (!(value > 0)) continue;
+        const coinPosition = coinOf(baseCoinOf(position.symbol));
+        if (position.holdSide === 'short') {
+          coinPosition.futuresShort += value;
+        } else {
+          coinPosition.futuresLong += value;
+        }
+      }
+    }
+
+    return { spotEquity, futuresEquity, coins };
+  }
+
+  private buildExposures(coins: Map<string, CoinPosition>): CoinExposure[] {
+    return Array.from(coins.entries())
+      .map(([coin, p]) => {
+        const gross = p.spot + p.futuresLong + p.futuresShort;
+        return {
+          coin,
+          spotUsdt: p.spot.toFixed(2),
+          futuresLongUsdt: p.futuresLong.toFixed(2),
+          futuresShortUsdt: p.futuresShort.toFixed(2),
+          netUsdt: (p.spot + p.futuresLong - p.futuresShort).toFixed(2),
+          grossUsdt: gross.toFixed(2),
+        };
+      })
+      .sort((a, b) => parseFloat(b.grossUsdt) - parseFloat(a.grossUsdt));
+  }
+
+  private collectBreaches(
+    state: AccountRiskState,
+    accountId: string,
+    now: number,
+    metrics: { gross: number; leverage: number; dailyLoss: number; drawdown: number; exposures: CoinExposure[] }
+  ): PortfolioRiskBreach[] {
+    const breaches: Array<Omit<PortfolioRiskBreach, 'since'>> = [];
+
+    const maxGross = limitValue(this.config.maxGrossNotionalUsdt);
+    if (maxGross > 0 && metrics.gross >= maxGross) {
+      breaches.push({
+        limit: 'gross_notional',
+        value: metrics.gross.toFixed(2),
+        threshold: maxGross.toFixed(2),
+        message: `总名义敞口 ${metrics.gross.toFixed(2)} USDT 超过上限 ${maxGross.toFixed(2)} USDT`,
+      });
+    }
+
+    if (this.config.maxLeverage > 0 && metrics.leverage > this.config.maxLeverage) {
+      breaches.push({
+        limit: 'leverage',
+        value: metrics.leverage.toFixed(2),
+        threshold: String(this.config.maxLeverage),
+        message: `账户杠杆 ${metrics.leverage.toFixed(2)}x 超过上限 ${this.config.maxLeverage}x`,
+      });
+    }
+
+    const maxDailyLoss = limitValue(this.config.maxDailyLossUsdt);
+    if (maxDailyLoss > 0 && metrics.dailyLoss >= maxDailyLoss) {
+      breaches.push({
+        limit: 'daily_loss',
+        value: metrics.dailyLoss.toFixed(2),
+        threshold: maxDailyLoss.toFixed(2),
+        message: `当日亏损 ${metrics.dailyLoss.toFixed(2)} USDT 超过上限 ${maxDailyLoss.toFixed(2)} USDT`,
+      });
+    }
+
+    if (this.config.maxDrawdownPercent > 0 && metrics.drawdown >= this.config.maxDrawdownPercent) {
+      breaches.push({
+        limit: 'drawdown',
+        value: metrics.drawdown.toFixed(2),
+        threshold: String(this.config.maxDrawdownPercent),
+        message: `账户回撤 ${metrics.drawdown.toFixed(2)}% 超过上限 ${this.config.maxDrawdownPercent}%`,
+      });
+    }
+
+    for (const exposure of metrics.exposures) {
+      const maxNet = this.getNetDeltaLimit(exposure.coin);
+      const net = Math.abs(parseFloat(exposure.netUsdt));
+      if (maxNet > 0 && net > maxNet) {
+        breaches.push({
+          limit: 'net_delta',
+          coin: exposure.coin,
+          value: exposure.netUsdt,
+          threshold: maxNet.toFixed(2),
+          message: `${exposure.coin} 净敞口 ${exposure.netUsdt} USDT 超过上限 ${maxNet.toFixed(2)} USDT`,
+        });
+      }
+    }
+
+    // 新出现的突破推送通知，持续中的沿用首次时间
+    const active = new Map<string, number>();
+    const result = breaches.map(breach => {
+      const key = breach.coin ? `${breach.limit}:${breach.coin}` : breach.limit;
+      const since = state.breachSince.get(key) ?? now;
+      active.set(key, since);
+      if (!state.breachSince.has(key)) {
+        this.notifyBreach(accountId, breach, now);
+      }
+      return { ...breach, since };
+    });
+    state.breachSince = active;
+    return result;
+  }
+
+  private notifyBreach(accountId: string, breach: Omit<PortfolioRiskBreach, 'since'>, now: number): void {
+    logger.warn('组合风控限制触发', { accountId, limit: breach.limit, coin: breach.coin, message: breach.message });
+    // 命名账户的通知带上账户前缀，便于区分
+    const message = accountId === DEFAULT_ACCOUNT_ID ? breach.message : `[${accountId}] ${breach.message}`;
+    const event: StrategyEvent = {
+      type: 'PORTFOLIO_RISK_BREACH',
+      timestamp: now,
+      data: {
+        accountId,
+        limit: breach.limit,
+        coin: breach.coin,
+        value: breach.value,
+        threshold: breach.threshold,
+        message,
+      },
+    };
+    StrategyPersistenceService.getInstance().persistEvent(
+      event, PORTFOLIO_EVENT_SOURCE, PORTFOLIO_EVENT_SOURCE, breach.coin ?? '', [accountId]
+    );
+    NotificationService.getInstance().notify(event, {
+      instanceId: PORTFOLIO_EVENT_SOURCE,
+      strategyType: null,
+      symbol: breach.coin ?? null,
+    });
+  }
+
+  private stateOf(accountId: string = DEFAULT_ACCOUNT_ID): AccountRiskState {
+    let state = this.accounts.get(accountId);
+    if (!state) {
+      state = {
+        snapshot: null,
+        dayKey: null,
+        dayStartEquity: 0,
+        peakEquity: 0,
+        reservedGross: 0,
+        reservedNet: new Map(),
+        vetoedSymbols: new Map(),
+        breachSince: new Map(),
+        vetoCount: 0,
+        lastVeto: null,
+        lastError: null,
+      };
+      this.accounts.set(accountId, state);
+    }
+    return state;
+  }
+
+  private resetState(): void {
+    this.accounts.clear();
+  }
+
+  private validate(config: PortfolioRiskConfig): void {
+    const errors: string[] = [];
+    const amounts: Array<[string, string]> = [
+      ['maxGrossNotionalUsdt', config.maxGrossNotionalUsdt],
+      ['maxNetDeltaUsdt', config.maxNetDeltaUsdt],
+      ['maxDailyLossUsdt', config.maxDailyLossUsdt],
+      ...Object.entries(config.netDeltaLimits || {}).map(
+        ([coin, value]) => [`netDeltaLimits.${coin}`, value] as [string, string]
+      ),
+    ];
+    for (const [field, value] of amounts) {
+      const parsed = parseFloat(value);
+      if (typeof value !== 'string' || !Number.isFinite(parsed) || parsed < 0) {
+        errors.push(`${field} 必须为非负数字字符串`);
+      }
+    }
+    if (!(config.maxLeverage >= 0)) errors.push('maxLeverage 不能为负');
+    if (!(config.maxDrawdownPercent >= 0 && config.maxDrawdownPercent < 100)) {
+      errors.push('maxDrawdownPercent 范围 0 - 100');
+    }
+    if (!(config.refreshIntervalMs >= MIN_REFRESH_INTERVAL_MS)) {
+      errors.push(`refreshIntervalMs 不能小于 ${MIN_REFRESH_INTERVAL_MS}`);
+    }
+    if (!Array.isArray(config.futuresProductTypes) ||
+        config.futuresProductTypes.some(p => !SUPPORTED_PRODUCT_TYPES.includes(p))) {
+      errors.push(`futuresProductTypes 仅支持 ${SUPPORTED_PRODUCT_TYPES.join(' / ')}`);
+    }
+
+    if (errors.length > 0) {
+      throw new AppError(ErrorCode.PORTFOLIO_RISK_CONFIG_INVALID, '组合风控配置无效', errors, 400);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * 仓位追踪
+ * 定期对比引擎推断的仓位（出场挂单剩余 + 入场单已成交部分）与交易所实际持仓，
+ * 偏差连续超出容差才判定为漂移（排除成交推送与对账之间的时间差），按配置自动纠正：
+ * 交易所多出的仓位（手动开仓、漏记的成交）市价平掉；交易所不足时（手动平仓）撤掉多出的出场挂单
+ */
+
+import { IOrderService } from '../services/interfaces/i-order.service';
+import { IAccountService } from '../services/interfaces/i-account.service';
+import { HoldMode } from '../services/futures-account.service';
+import { EntryDirection, getRemainingSize } from './order-state-tracker';
+import { TrackedOrder, PositionSnapshot, PositionAutoCorrectMode } from '../types/strategy.types';
+import { UnifiedPosition } from '../types/trading.types';
+import { createLogger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
+
+const logger = createLogger('position-tracker');
+
+const DIRECTIONS: EntryDirection[] = ['long', 'short'];
+
+/** 连续几次检查超出容差才判定为漂移 */
+const DRIFT_CONFIRM_CHECKS = 2;
+
+/** 引擎推断的单方向仓位 */
+export interface InferredPosition {
+  size: number;
+  /** 当前挂着的出场单（交易所仓位不足时的撤单候选） */
+  exitOrders: TrackedOrder[];
+}
+
+export interface PositionCheckOptions {
+  sizePrecision: number;
+  tolerancePercent: number;
+  autoCorrect: PositionAutoCorrectMode;
+  holdMode: HoldMode;
+  /** 撤掉多出的出场单后回调，由引擎更新自身订单状态 */
+  onExitCancelled: (order: TrackedOrder) => void;
+}
+
+export interface PositionDrift {
+  direction: EntryDirection;
+  inferredSize: string;
+  exchangeSize: string;
+  drift: string;
+  correction: 'none' | 'closed_excess' | 'cancelled_exits';
+  correctionOrderIds: string[];
+}
+
+export class PositionTracker {
+  private snapshots: Map<EntryDirection, PositionSnapshot> = new Map();
+
+  constructor(
+    private readonly orderService: IOrderService,
+    private readonly accountService: IAccountService,
+    private readonly symbol: string,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * 对比一次仓位，返回本次新确认的漂移（同一段漂移只报告一次，恢复一致后重新计数）
+   */
+  async check(
+    inferred: Record<EntryDirection, InferredPosition>,
+    options: PositionCheckOptions
+  ): Promise<PositionDrift[]> {
+    const positions = await this.accountService.getPositions(this.symbol);
+    const drifts: PositionDrift[] = [];
+
+    for (const dir of DIRECTIONS) {
+      const position = positions.find(p => p.holdSide === dir);
+      const exchangeSize = position ? parseFloat(position.total) : 0;
+      const inferredSize = inferred[dir].size;
+      const drift = exchangeSize - inferredSize;
+
+      const minStep = Math.pow(10, -options.sizePrecision);
+      const tolerance = Math.max(minStep / 2, Math.max(exchangeSize, inferredSize) * options.tolerancePercent / 100);
+      const inSync = Math.abs(drift) <= tolerance;
+      const driftChecks = inSync ? 0 : (this.snapshots.get(dir)?.driftChecks || 0) + 1;
+
+      this.snapshots.set(dir, {
+        direction: dir,
+        inferredSize: inferredSize.toFixed(options.sizePrecision),
+        exchangeSize: exchangeSize.toFixed(options.sizePrecision),
+        drift: drift.toFixed(options.sizePrecision),
+        openPriceAvg: position?.openPriceAvg || null,
+        inSync,
+        driftChecks,
+        checkedAt: this.clock.now(),
+      });
+
+      if (driftChecks !== DRIFT_CONFIRM_CHECKS) continue;
+
+      logger.warn(`${dir} 仓位漂移`, { symbol: this.symbol, inferredSize, exchangeSize, drift });
+      drifts.push(await this.correct(dir, drift, inferred[dir], position, options));
+    }
+    return drifts;
+  }
+
+  getSnapshots(): PositionSnapshot[] {
+    return DIRECTIONS
+      .map(dir => this.snapshots.get(dir))
+      .filter((s): s is PositionSnapshot => !!s);
+  }
+
+  private async correct(
+    dir: EntryDirection,
+    drift: number,
+    inferred: InferredPosition,
+    position: UnifiedPosition | undefined,
+    options: PositionCheckOptions
+  ): Promise<PositionDrift> {
+    const result: PositionDrift = {
+      direction: dir,
+      inferredSize: inferred.size.toFixed(options.sizePrecision),
+      exchangeSize: position ? position.total : '0',
+      drift: drift.toFixed(options.sizePrecision),
+      correction: 'none',
+      correctionOrderIds: [],
+    };
+    if (options.autoCorrect === 'off') return result;
+
+    try {
+      if (drift > 0) {
+        const orderId = await this.closeExcess(dir, drift, options);
+        if (orderId) {
+          result.correction = 'closed_excess';
+          result.correctionOrderIds = [orderId];
+        }
+      } else if (options.autoCorrect === 'sync') {
+        result.correctionOrderIds = await this.cancelExcessExits(-drift, inferred.exitOrders, options);
+        if (result.correctionOrderIds.length > 0) {
+          result.correction = 'cancelled_exits';
+        }
+      }
+    } catch (error) {
+      logger.warn(`${dir} 仓位漂移自动纠正失败`, { symbol: this.symbol, drift, error: String(error) });
+    }
+    return result;
+  }
+
+  /**
+   * 市价平掉交易所多出的仓位（数量向下取整到下单精度）
+   */
+  private async closeExcess(dir: EntryDirection, excess: number, options: PositionCheckOptions): Promise<string | null> {
+    const factor = Math.pow(10, options.sizePrecision);
+    const size = Math.floor(excess * factor + 1e-9) / factor;
+    if (size <= 0) return null;
+
+    const result = await this.orderService.placeOrder({
+      symbol: this.symbol,
+      side: dir === 'long' ? 'sell' : 'buy',
+      orderType: 'market',
+      size: size.toFixed(options.sizePrecision),
+      tradeSide: options.holdMode === 'single_hold' ? undefined : 'close',
+      reduceOnly: true,
+      clientOid: `drift_${this.symbol}_${dir}_${this.clock.now()}`,
+    });
+    logger.info(`${dir} 已市价平掉多出的仓位`, { symbol: this.symbol, size, orderId: result.orderId });
+    return result.orderId;
+  }
+
+  /**
+   * 从最新的出场单开始撤销，直到推断仓位不再超过交易所仓位（不撤超出缺口的单）
+   */
+  private async cancelExcessExits(
+    shortfall: number,
+    exitOrders: TrackedOrder[],
+    options: PositionCheckOptions
+  ): Promise<string[]> {
+    const cancelled: string[] = [];
+    let remaining = shortfall;
+    const newestFirst = [...exitOrders].sort((a, b) => b.createdAt - a.createdAt);
+
+    for (const order of newestFirst) {
+      const size = getRemainingSize(order);
+      if (size <= 0 || size > remaining + Math.pow(10, -options.sizePrecision) / 2) continue;
+
+      await this.orderService.cancelOrder({ symbol: this.symbol, orderId: order.orderId });
+      options.onExitCancelled(order);
+      cancelled.push(order.orderId);
+      remaining -= size;
+    }
+    if (cancelled.length > 0) {
+      logger.info('已撤销多出的出场单', { symbol: this.symbol, orderIds: cancelled, uncovered: remaining });
+    }
+    return cancelled;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * 单笔持仓追踪止损
+ * 每笔已成交入场（剥头皮入场单 / 网格买单）按其出场单独立追踪：记录入场后的最有利价格，
+ * 止损价 = 最有利价格 ∓ 回撤距离（百分比或 ATR 倍数），只朝有利方向移动。
+ * 价格回撤穿过止损价时返回 triggered，由引擎撤掉出场限价单并市价平仓
+ */
+
+import { EntryDirection } from './order-state-tracker';
+import { BaseStrategyConfig, TrailingDistanceMode, TrailingStopSnapshot } from '../types/strategy.types';
+import { CandleDataService } from '../services/candle-data.service';
+import { calcATR } from './indicators/technical-indicators';
+import { Clock, systemClock } from '../utils/clock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('position-trailing-stop');
+
+/** ATR 取 1m K 线 14 周期 */
+const ATR_CANDLE_LIMIT = 50;
+
+export interface PositionTrailingOptions {
+  mode: TrailingDistanceMode;
+  trailingPercent: number;
+  atrMultiplier: number;
+}
+
+export interface TrailingStopUpdate {
+  key: string;
+  direction: EntryDirection;
+  previousStopPrice: number;
+  stopPrice: number;
+  peakPrice: number;
+  /** 止损价移动超过上次上报距离的 1/10（用于节流事件） */
+  moved: boolean;
+  triggered: boolean;
+}
+
+interface TrailingPosition {
+  direction: EntryDirection;
+  entryPrice: number;
+  size: string;
+  peakPrice: number;
+  stopPrice: number;
+  reportedStopPrice: number;
+  updatedAt: number;
+}
+
+export function toTrailingOptions(config: BaseStrategyConfig): PositionTrailingOptions {
+  return {
+    mode: config.positionTrailingMode ?? 'percent',
+    trailingPercent: config.positionTrailingPercent ?? 1,
+    atrMultiplier: config.positionTrailingAtrMultiplier ?? 2,
+  };
+}
+
+/**
+ * 获取 ATR 模式所需的 ATR；模拟环境无实时 K 线，返回 null 时回退到百分比
+ */
+export async function fetchTrailingAtr(config: BaseStrategyConfig, simulated: boolean): Promise<number | null> {
+  if (config.positionTrailingMode !== 'atr' || simulated) return null;
+  try {
+    const candles = await CandleDataService.getInstance().getCandles(
+      config.symbol, '1m', ATR_CANDLE_LIMIT, config.productType
+    );
+    const atr = calcATR(candles);
+    return atr > 0 ? atr : null;
+  } catch (error) {
+    logger.debug('获取 ATR 失败，追踪止损回退到百分比', { error: String(error) });
+    return null;
+  }
+}
+
+/** 止损价移动达到当前回撤距离的该比例才上报，避免逐 tick 刷事件 */
+const REPORT_STEP_RATIO = 0.1;
+
+export class PositionTrailingStop {
+  private positions: Map<string, TrailingPosition> = new Map();
+
+  constructor(
+    private options: PositionTrailingOptions,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  updateOptions(options: PositionTrailingOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * 开始追踪一笔持仓，初始止损价按入场价计算
+   */
+  track(key: string, direction: EntryDirection, entryPrice: number, size: string, atr: number | null = null): void {
+    const stopPrice = this.getStopPrice(direction, entryPrice, atr);
+    this.positions.set(key, {
+      direction,
+      entryPrice,
+      size,
+      peakPrice: entryPrice,
+      stopPrice,
+      reportedStopPrice: stopPrice,
+      updatedAt: this.clock.now(),
+    });
+  }
+
+  /**
+   * 出场单被替换（合并/重挂）时把追踪状态迁移到新订单：
+   * 入场价按数量加权，最有利价格取各笔中最保守的一个
+   */
+  merge(sourceKeys: string[], targetKey: string, size: string, atr: number | null = null): void {
+    const sources = sourceKeys
+      .map(k => this.positions.get(k))
+      .filter((p): p is TrailingPosition => p !== undefined);
+    for (const key of sourceKeys) this.positions.delete(key);
+    if (sources.length === 0) return;
+
+    const direction = sources[0].direction;
+    const totalSize = sources.reduce((sum, p) => sum + parseFloat(p.size), 0);
+    const entryPrice = totalSize > 0
+      ? sources.reduce((sum, p) => sum + p.entryPrice * parseFloat(p.size), 0) / totalSize
+      : sources[0].entryPrice;
+    const peaks = sources.map(p => p.peakPrice);
+    const peakPrice = direction === 'long' ? Math.min(...peaks) : Math.max(...peaks);
+    const stopPrice = this.getStopPrice(direction, peakPrice, atr);
+
+    this.positions.set(targetKey, {
+      direction,
+      entryPrice,
+      size,
+      peakPrice,
+      stopPrice,
+      reportedStopPrice: stopPrice,
+      updatedAt: this.clock.now(),
+    });
+  }
+
+  untrack(key: string): void {
+    this.positions.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.positions.has(key);
+  }
+
+  size(): number {
+    return this.positions.size;
+  }
+
+  keys(): string[] {
+    return Array.from(this.positions.keys());
+  }
+
+  /**
+   * 用最新价格推进所有持仓的最有利价格与止损价
+   * @returns 止损价明显移动或已触发的持仓
+   */
+  update(price: number, atr: number | null = null): TrailingStopUpdate[] {
+    const updates: TrailingStopUpdate[] = [];
+    if (!(price > 0)) return updates;
+
+    for (const [key, position] of this.positions) {
+      // 上次上报的止损价，MOVED 事件展示的是两次上报之间的移动
+      const previousStopPrice = position.reportedStopPrice;
+      const favourable = position.direction === 'long'
+        ? price > position.peakPrice
+        : price < position.peakPrice;
+      if (favourable) {
+        position.peakPrice = price;
+        const candidate = this.getStopPrice(position.direction, price, atr);
+        // 止损价只朝有利方向移动（ATR 放大时不回退）
+        position.stopPrice = position.direction === 'long'
+          ? Math.max(position.stopPrice, candidate)
+          : Math.min(position.stopPrice, candidate);
+        position.updatedAt = this.clock.now();
+      }
+
+      const triggered = position.direction === 'long'
+        ? price <= position.stopPrice
+        : price >= position.stopPrice;
+      const distance = Math.abs(position.peakPrice - position.stopPrice);
+      const moved = Math.abs(position.stopPrice - position.reportedStopPrice) >= distance * REPORT_STEP_RATIO
+        && position.stopPrice !== position.reportedStopPrice;
+      if (moved) position.reportedStopPrice = position.stopPrice;
+
+      if (moved || triggered) {
+        updates.push({
+          key,
+          direction: position.direction,
+          previousStopPrice,
+          stopPrice: position.stopPrice,
+          peakPrice: position.peakPrice,
+          moved,
+          triggered,
+        });
+      }
+    }
+    return updates;
+  }
+
+  getSnapshots(pricePrecision: number): TrailingStopSnapshot[] {
+    return Array.from(this.positions.entries()).map(([key, p]) => ({
+      key,
+      direction: p.direction,
+      entryPrice: p.entryPrice.toFixed(pricePrecision),
+      peakPrice: p.peakPrice.toFixed(pricePrecision),
+      stopPrice: p.stopPrice.toFixed(pricePrecision),
+      size: p.size,
+      updatedAt: p.updatedAt,
+    }));
+  }
+
+  clear(): void {
+    this.positions.clear();
+  }
+
+  private getStopPrice(direction: EntryDirection, reference: number, atr: number | null): number {
+    const distance = this.options.mode === 'atr' && atr !== null && atr > 0
+      ? atr * this.options.atrMultiplier
+      : reference * this.options.trailingPercent / 100;
+    return direction === 'long' ? reference - distance : reference + distance;
+  }
+}
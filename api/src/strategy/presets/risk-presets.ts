@@ -46,6 +46,22 @@ export interface GridPreset {
   trailingStopPercent: number;
 }
 
+export interface DcaPreset {
+  safetyOrderMultiplier: number;  // 首个安全单金额 = 基础单金额 x 此乘数
+  maxSafetyOrders: number;
+  safetyOrderDeviationPercent: number;
+  safetyOrderStepScale: number;
+  safetyOrderVolumeScale: number;
+  takeProfitPercent: number;
+  maxPositionPercent: number;
+  maxDrawdownPercent: number;
+  stopLossPercent: number;        // 安全单用完后相对持仓均价的止损比例
+  dailyLossPercent: number;
+  pollIntervalMs: number;
+  orderCheckIntervalMs: number;
+  cooldownMs: number;
+}
+
 export const SCALPING_PRESETS: Record<RiskLevel, ScalpingPreset> = {
   conservative: {
     spreadMultiplier: 3.0,
@@ -144,3 +160,51 @@ export const GRID_PRESETS: Record<RiskLevel, GridPreset> = {
     trailingStopPercent: 0.5,
   },
 };
+
+export const DCA_PRESETS: Record<RiskLevel, DcaPreset> = {
+  conservative: {
+    safetyOrderMultiplier: 1,
+    maxSafetyOrders: 4,
+    safetyOrderDeviationPercent: 2,
+    safetyOrderStepScale: 1.3,
+    safetyOrderVolumeScale: 1.3,
+    takeProfitPercent: 1.5,
+    maxPositionPercent: 0.2,
+    maxDrawdownPercent: 5,
+    stopLossPercent: 5,
+    dailyLossPercent: 0.02,
+    pollIntervalMs: 5000,
+    orderCheckIntervalMs: 5000,
+    cooldownMs: 120000,
+  },
+  balanced: {
+    safetyOrderMultiplier: 1,
+    maxSafetyOrders: 6,
+    safetyOrderDeviationPercent: 1.5,
+    safetyOrderStepScale: 1.4,
+    safetyOrderVolumeScale: 1.5,
+    takeProfitPercent: 1.2,
+    maxPositionPercent: 0.3,
+    maxDrawdownPercent: 8,
+    stopLossPercent: 6,
+    dailyLossPercent: 0.05,
+    pollIntervalMs: 3000,
+    orderCheckIntervalMs: 3000,
+    cooldownMs: 60000,
+  },
+  aggressive: {
+    safetyOrderMultiplier: 2,
+    maxSafetyOrders: 8,
+    safetyOrderDeviationPercent: 1,
+    safetyOrderStepScale: 1.5,
+    safetyOrderVolumeScale: 1.8,
+    takeProfitPercent: 0.8,
+    maxPositionPercent: 0.5,
+    maxDrawdownPercent: 15,
+    stopLossPercent: 8,
+    dailyLossPercent: 0.1,
+    pollIntervalMs: 2000,
+    orderCheckIntervalMs: 2000,
+    cooldownMs: 30000,
+  },
+};
@@ -0,0 +1,498 @@
+/**
+ * 市场状态监管（Singleton）
+ * 按交易对定期检测市场状态，在网格（震荡）、剥头皮（高波动）与暂停（逆向强趋势）之间自动切换实例。
+ * 切换需同一目标连续确认 confirmChecks 次且已满足最短停留时间（逆向强趋势暂停不受停留限制）；
+ * 暂停/恢复使用两个置信度阈值形成滞回区间，避免在阈值附近反复切换。
+ * 切换时旧实例总是撤单并市价平仓（新实例类型不同、不会接管旧实例的持仓），新实例以 `${supervisorId}_${模式}` 启动；
+ * closeOnStop 决定停止监管时是否平掉当前实例
+ */
+
+import { StrategyManager } from './strategy-manager';
+import { IStrategy } from './interfaces/i-strategy';
+import { detectMarketRegime, MarketRegimeResult } from './indicators/market-regime-detector';
+import { CandleDataService, isCandleInterval } from '../services/candle-data.service';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import { NotificationService } from '../services/notification.service';
+import {
+  AnyStrategyConfig,
+  RegimeSupervisorConfig,
+  RegimeSupervisorState,
+  RegimeSwitchRecord,
+  StrategyEvent,
+  SupervisedMode,
+} from '../types/strategy.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('regime-supervisor');
+
+/** 市场状态检测使用的 K 线根数 */
+const REGIME_CANDLE_LIMIT = 100;
+
+/** 保留的切换记录条数 */
+const MAX_SWITCH_RECORDS = 50;
+
+const MIN_CHECK_INTERVAL_MS = 10_000;
+
+/** 实例 ID 为 `${supervisorId}_scalping`，需放得进 strategy_instances.instance_id (64) */
+const MAX_SUPERVISOR_ID_LENGTH = 48;
+
+export const DEFAULT_REGIME_SUPERVISOR_CONFIG: Omit<RegimeSupervisorConfig, 'supervisorId' | 'symbol'> = {
+  tradingType: 'futures',
+  productType: 'USDT-FUTURES',
+  direction: 'long',
+  interval: '5m',
+  checkIntervalMs: 60_000,
+  minConfidence: 0.5,
+  confirmChecks: 3,
+  minDwellMs: 15 * 60_000,
+  pauseConfidence: 0.6,
+  resumeConfidence: 0.3,
+  closeOnStop: true,
+  gridConfig: {},
+  scalpingConfig: {},
+};
+
+interface SupervisorRuntime {
+  state: RegimeSupervisorState;
+  timer: TimerHandle | null;
+  /** 暂停前最后一个交易模式，逆向趋势减弱后恢复到该模式 */
+  lastTradingMode: SupervisedMode | null;
+  checking: boolean;
+}
+
+interface DesiredMode {
+  mode: SupervisedMode;
+  reason: string;
+}
+
+export class RegimeSupervisor {
+  private static instance: RegimeSupervisor | null = null;
+  private supervisors: Map<string, SupervisorRuntime> = new Map();
+
+  private constructor(private readonly clock: Clock = systemClock) {}
+
+  static getInstance(): RegimeSupervisor {
+    if (!RegimeSupervisor.instance) {
+      RegimeSupervisor.instance = new RegimeSupervisor();
+    }
+    return RegimeSupervisor.instance;
+  }
+
+  /**
+   * 启动监管：立即检测一次并启动对应模式的实例，之后按 checkIntervalMs 定期检测
+   */
+  async start(input: Partial<RegimeSupervisorConfig>): Promise<RegimeSupervisorState> {
+    const config = this.normalizeConfig(input);
+    const existing = this.supervisors.get(config.supervisorId);
+    if (existing?.state.running) {
+      throw new AppError(
+        ErrorCode.REGIME_SUPERVISOR_ALREADY_RUNNING,
+        `市场状态监管 ${config.supervisorId} 已在运行中`,
+        { supervisorId: config.supervisorId },
+        400
+      );
+    }
+    for (const other of this.supervisors.values()) {
+      if (other.state.running && other.state.config.symbol === config.symbol
+        && other.state.config.tradingType === config.tradingType) {
+        throw new AppError(
+          ErrorCode.REGIME_SUPERVISOR_ALREADY_RUNNING,
+          `交易对 ${config.symbol} 已有运行中的市场状态监管 ${other.state.supervisorId}`,
+          { supervisorId: other.state.supervisorId, symbol: config.symbol },
+          400
+        );
+      }
+    }
+
+    const runtime: SupervisorRuntime = {
+      state: {
+        supervisorId: config.supervisorId,
+        config,
+        running: true,
+        mode: null,
+        activeInstanceId: null,
+        modeSince: null,
+        candidateMode: null,
+        candidateChecks: 0,
+        lastRegime: null,
+        lastCheckAt: null,
+        lastError: null,
+        switches: existing?.state.switches || [],
+      },
+      timer: null,
+      lastTradingMode: null,
+      checking: false,
+    };
+    this.supervisors.set(config.supervisorId, runtime);
+    logger.info('市场状态监管启动', { supervisorId: config.supervisorId, symbol: config.symbol });
+
+    await this.check(runtime);
+    this.schedule(runtime);
+    return runtime.state;
+  }
+
+  /**
+   * 停止监管
+   * @param keepInstance 为 true 时当前实例继续运行（脱离监管），否则按 closeOnStop 平仓或停止
+   *   （只停止时持仓与出场单随实例保留，手动恢复该实例后继续管理）
+   */
+  async stop(supervisorId: string, keepInstance = false): Promise<RegimeSupervisorState> {
+    const runtime = this.requireRuntime(supervisorId);
+    this.clearTimer(runtime);
+    runtime.state.running = false;
+
+    if (!keepInstance && runtime.state.activeInstanceId) {
+      await this.stopInstance(runtime.state.activeInstanceId, runtime.state.config.closeOnStop);
+      runtime.state.activeInstanceId = null;
+    }
+    StrategyPersistenceService.getInstance().saveSupervisorState(runtime.state);
+    logger.info('市场状态监管已停止', { supervisorId, keepInstance });
+    return runtime.state;
+  }
+
+  /**
+   * 服务关闭时停止检测（只改内存状态，DB 中仍为 RUNNING）；实例由 StrategyManager 挂起，重启后一并恢复
+   */
+  suspendAll(): void {
+    for (const runtime of this.supervisors.values()) {
+      runtime.state.running = false;
+      this.clearTimer(runtime);
+    }
+  }
+
+  /**
+   * 恢复上次停机前运行中的监管（需在 StrategyManager.resumeInstances 之后调用）
+   * 原实例已恢复的继续接管；未能恢复的在下一次检测时按当前市场状态重新选择模式
+   */
+  async resume(): Promise<void> {
+    const persisted = await StrategyPersistenceService.getInstance().loadRunningSupervisors();
+    const manager = StrategyManager.getInstance();
+
+    for (const item of persisted) {
+      const instance = item.activeInstanceId ? manager.getStrategy(item.activeInstanceId) : null;
+      const adopted = instance !== null && this.isActive(instance);
+      const mode = adopted || item.mode === 'paused' ? item.mode : null;
+      const runtime: SupervisorRuntime = {
+        state: {
+          supervisorId: item.config.supervisorId,
+          config: item.config,
+          running: true,
+          mode,
+          activeInstanceId: adopted ? item.activeInstanceId : null,
+          modeSince: mode ? item.modeSince : null,
+          candidateMode: null,
+          candidateChecks: 0,
+          lastRegime: null,
+          lastCheckAt: null,
+          lastError: null,
+          switches: [],
+        },
+        timer: null,
+        lastTradingMode: mode === 'grid' || mode === 'scalping' ? mode : null,
+        checking: false,
+      };
+      this.supervisors.set(item.config.supervisorId, runtime);
+      this.schedule(runtime);
+      logger.info('市场状态监管已恢复', {
+        supervisorId: item.config.supervisorId,
+        mode,
+        activeInstanceId: runtime.state.activeInstanceId,
+      });
+    }
+  }
+
+  getState(supervisorId: string): RegimeSupervisorState {
+    return this.requireRuntime(supervisorId).state;
+  }
+
+  listStates(): RegimeSupervisorState[] {
+    return Array.from(this.supervisors.values()).map(r => r.state);
+  }
+
+  // ============================================================
+  // 检测与切换
+  // ============================================================
+
+  private schedule(runtime: SupervisorRuntime): void {
+    this.clearTimer(runtime);
+    runtime.timer = this.clock.setTimeout(async () => {
+      runtime.timer = null;
+      if (!runtime.state.running) return;
+      await this.check(runtime);
+      if (runtime.state.running) this.schedule(runtime);
+    }, runtime.state.config.checkIntervalMs);
+  }
+
+  private clearTimer(runtime: SupervisorRuntime): void {
+    if (runtime.timer) {
+      this.clock.clearTimeout(runtime.timer);
+      runtime.timer = null;
+    }
+  }
+
+  private async check(runtime: SupervisorRuntime): Promise<void> {
+    if (runtime.checking) return;
+    runtime.checking = true;
+    const { state } = runtime;
+    const config = state.config;
+
+    try {
+      // 实例被手动停止或进入 ERROR：不再自动接管，监管随之停止
+      if (state.activeInstanceId) {
+        const instance = StrategyManager.getInstance().getStrategy(state.activeInstanceId);
+        if (!instance || !this.isActive(instance)) {
+          state.running = false;
+          state.lastError = `实例 ${state.activeInstanceId} 已不在运行，监管停止`;
+          state.activeInstanceId = null;
+          this.clearTimer(runtime);
+          StrategyPersistenceService.getInstance().saveSupervisorState(state);
+          logger.warn('受监管实例已停止，市场状态监管随之停止', { supervisorId: state.supervisorId });
+          return;
+        }
+      }
+
+      const candles = await CandleDataService.getInstance().getCandles(
+        config.symbol,
+        config.interval,
+        REGIME_CANDLE_LIMIT,
+        config.tradingType === 'futures' ? config.productType : undefined
+      );
+      const regime = detectMarketRegime(candles);
+      const now = this.clock.now();
+      state.lastRegime = regime;
+      state.lastCheckAt = now;
+      state.lastError = null;
+
+      const desired = this.resolveDesiredMode(regime, runtime);
+      if (state.mode === null) {
+        await this.switchTo(runtime, desired.mode, regime, `初始模式：${desired.reason}`);
+        return;
+      }
+      if (desired.mode === state.mode) {
+        state.candidateMode = null;
+        state.candidateChecks = 0;
+        return;
+      }
+
+      if (state.candidateMode === desired.mode) {
+        state.candidateChecks++;
+      } else {
+        state.candidateMode = desired.mode;
+        state.candidateChecks = 1;
+      }
+      if (state.candidateChecks < config.confirmChecks) return;
+
+      // 逆向强趋势立即暂停，其余切换需满足最短停留时间
+      const dwell = now - (state.modeSince ?? now);
+      if (desired.mode !== 'paused' && dwell < config.minDwellMs) {
+        logger.debug('未满最短停留时间，暂缓切换', {
+          supervisorId: state.supervisorId,
+          target: desired.mode,
+          remainingMs: config.minDwellMs - dwell,
+        });
+        return;
+      }
+
+      await this.switchTo(runtime, desired.mode, regime, desired.reason);
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('市场状态检测失败', { supervisorId: state.supervisorId, error: state.lastError });
+    } finally {
+      runtime.checking = false;
+    }
+  }
+
+  /**
+   * 市场状态 → 目标模式
+   * 逆向趋势在 pauseConfidence 以上暂停；已暂停时需回落到 resumeConfidence 以下才恢复
+   * 顺向趋势、弱逆向趋势或置信度不足时维持当前模式；初始/暂停中按状态本身选择，趋势行情回到暂停前的模式
+   */
+  private resolveDesiredMode(regime: MarketRegimeResult, runtime: SupervisorRuntime): DesiredMode {
+    const { config, mode } = runtime.state;
+    const confidence = regime.confidence.toFixed(2);
+    const against = (config.direction === 'long' && regime.regime === 'trending_down')
+      || (config.direction === 'short' && regime.regime === 'trending_up');
+    const pauseThreshold = mode === 'paused' ? config.resumeConfidence : config.pauseConfidence;
+
+    if (against && regime.confidence >= pauseThreshold) {
+      return { mode: 'paused', reason: `逆向趋势 ${regime.regime}（置信度 ${confidence}）` };
+    }
+    if (regime.regime === 'ranging' && regime.confidence >= config.minConfidence) {
+      return { mode: 'grid', reason: `震荡（置信度 ${confidence}）` };
+    }
+    if (regime.regime === 'volatile' && regime.confidence >= config.minConfidence) {
+      return { mode: 'scalping', reason: `高波动（置信度 ${confidence}）` };
+    }
+    if (mode === null || mode === 'paused') {
+      const natural: SupervisedMode | null = regime.regime === 'ranging'
+        ? 'grid'
+        : regime.regime === 'volatile' ? 'scalping' : null;
+      return {
+        mode: natural || runtime.lastTradingMode || 'grid',
+        reason: mode === 'paused' ? `逆向趋势减弱（${regime.regime} ${confidence}）` : `${regime.regime}（置信度 ${confidence}）`,
+      };
+    }
+    return { mode, reason: '维持当前模式' };
+  }
+
+  /**
+   * 切换模式：先平仓并停止旧实例，再启动新实例；新实例启动失败时进入暂停
+   */
+  private async switchTo(
+    runtime: SupervisorRuntime,
+    target: SupervisedMode,
+    regime: MarketRegimeResult,
+    reason: string
+  ): Promise<void> {
+    const { state } = runtime;
+    const config = state.config;
+    const from = state.mode;
+    const stoppedInstanceId = state.activeInstanceId;
+
+    // 旧实例停止后不会再被恢复，只停不平会留下无人管理的持仓与出场单，因此不受 closeOnStop 影响
+    if (stoppedInstanceId) {
+      await this.stopInstance(stoppedInstanceId, true);
+      state.activeInstanceId = null;
+    }
+
+    let mode = target;
+    let startedInstanceId: string | null = null;
+    if (target !== 'paused') {
+      const instanceId = `${config.supervisorId}_${target}`;
+      const base = target === 'grid' ? config.gridConfig : config.scalpingConfig;
+      try {
+        await StrategyManager.getInstance().createAndStart({
+          ...base,
+          strategyType: target,
+          tradingType: config.tradingType,
+          symbol: config.symbol,
+          productType: config.productType,
+          direction: config.direction,
+          instanceId,
+        } as Partial<AnyStrategyConfig>);
+        startedInstanceId = instanceId;
+        runtime.lastTradingMode = target;
+      } catch (error) {
+        mode = 'paused';
+        reason = `${reason}；启动 ${target} 失败: ${error instanceof Error ? error.message : String(error)}`;
+        state.lastError = reason;
+        logger.error('市场状态切换启动实例失败，进入暂停', { supervisorId: state.supervisorId, target, reason });
+      }
+    }
+
+    const now = this.clock.now();
+    state.mode = mode;
+    state.modeSince = now;
+    state.activeInstanceId = startedInstanceId;
+    state.candidateMode = null;
+    state.candidateChecks = 0;
+
+    const record: RegimeSwitchRecord = {
+      from,
+      to: mode,
+      regime: regime.regime,
+      confidence: regime.confidence,
+      reason,
+      stoppedInstanceId,
+      startedInstanceId,
+      switchedAt: now,
+    };
+    state.switches.unshift(record);
+    if (state.switches.length > MAX_SWITCH_RECORDS) state.switches.length = MAX_SWITCH_RECORDS;
+
+    const event: StrategyEvent = {
+      type: 'REGIME_SWITCHED',
+      timestamp: now,
+      data: { supervisorId: state.supervisorId, ...record },
+    };
+    const persistence = StrategyPersistenceService.getInstance();
+    persistence.persistEvent(
+      event, state.supervisorId, mode, config.symbol, [config.gridConfig?.accountId, config.scalpingConfig?.accountId]
+    );
+    persistence.saveSupervisorState(state);
+    NotificationService.getInstance().notify(event, {
+      instanceId: state.supervisorId,
+      strategyType: mode,
+      symbol: config.symbol,
+    });
+    logger.info('市场状态切换', { supervisorId: state.supervisorId, from, to: mode, reason });
+  }
+
+  private async stopInstance(instanceId: string, close: boolean): Promise<void> {
+    const instance = StrategyManager.getInstance().getStrategy(instanceId);
+    if (!instance || !this.isActive(instance)) return;
+    if (close && instance.flatten) {
+      await instance.flatten();
+    } else {
+      await instance.stop();
+    }
+  }
+
+  private isActive(strategy: IStrategy): boolean {
+    const status = strategy.getStatus();
+    return status === 'RUNNING' || status === 'STARTING';
+  }
+
+  private requireRuntime(supervisorId: string): SupervisorRuntime {
+    const runtime = this.supervisors.get(supervisorId);
+    if (!runtime) {
+      throw new AppError(
+        ErrorCode.REGIME_SUPERVISOR_NOT_FOUND,
+        `市场状态监管不存在: ${supervisorId}`,
+        { supervisorId },
+        404
+      );
+    }
+    return runtime;
+  }
+
+  private normalizeConfig(input: Partial<RegimeSupervisorConfig>): RegimeSupervisorConfig {
+    const config: RegimeSupervisorConfig = {
+      ...DEFAULT_REGIME_SUPERVISOR_CONFIG,
+      ...input,
+      supervisorId: input.supervisorId || `regime_${input.symbol || ''}_${this.clock.now()}`,
+      symbol: input.symbol || '',
+    } as RegimeSupervisorConfig;
+    if (config.tradingType === 'spot') config.productType = undefined;
+
+    const errors: string[] = [];
+    if (!config.symbol) errors.push('symbol 不能为空');
+    if (config.supervisorId.length > MAX_SUPERVISOR_ID_LENGTH) {
+      errors.push(`supervisorId 长度不能超过 ${MAX_SUPERVISOR_ID_LENGTH}`);
+    }
+    if (config.tradingType !== 'futures' && config.tradingType !== 'spot') {
+      errors.push('tradingType 必须是 futures/spot 之一');
+    }
+    if (config.direction !== 'long' && config.direction !== 'short') {
+      errors.push('direction 必须是 long/short 之一');
+    } else if (config.direction === 'short' && config.tradingType === 'spot') {
+      errors.push('现货不支持做空方向');
+    }
+    if (!isCandleInterval(config.interval)) errors.push(`interval 不支持: ${config.interval}`);
+    if (!(config.checkIntervalMs >= MIN_CHECK_INTERVAL_MS)) {
+      errors.push(`checkIntervalMs 不能小于 ${MIN_CHECK_INTERVAL_MS}`);
+    }
+    for (const key of ['minConfidence', 'pauseConfidence', 'resumeConfidence'] as const) {
+      if (!(config[key] >= 0 && config[key] <= 1)) errors.push(`${key} 必须在 0-1 之间`);
+    }
+    if (!(config.resumeConfidence < config.pauseConfidence)) {
+      errors.push('resumeConfidence 必须小于 pauseConfidence');
+    }
+    if (!Number.isInteger(config.confirmChecks) || config.confirmChecks < 1) {
+      errors.push('confirmChecks 必须是不小于 1 的整数');
+    }
+    if (!(config.minDwellMs >= 0)) errors.push('minDwellMs 不能小于 0');
+
+    if (errors.length > 0) {
+      throw new AppError(
+        ErrorCode.REGIME_SUPERVISOR_CONFIG_INVALID,
+        `市场状态监管配置无效: ${errors.join('; ')}`,
+        { errors },
+        400
+      );
+    }
+    return config;
+  }
+}
@@ -6,7 +6,9 @@
 import { BaseStrategyConfig } from '../types/strategy.types';
 import { TrailingStop } from './trailing-stop';
 import { createLogger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
 import { PolymarketSignalService } from '../services/polymarket-signal.service';
+import { PortfolioRiskGovernor } from './portfolio-risk-governor';
 import type { RiskAdjustment } from '../types/polymarket.types';
 
 const logger = createLogger('risk-controller');
@@ -16,6 +18,14 @@ export interface RiskCheckResult {
   reason: string | null;
 }
 
+export interface RiskCooldownInfo {
+  reason: string;
+  cooldownMs: number;
+  resumeAt: number;
+}
+
+export type RiskCooldownListener = (info: RiskCooldownInfo) => void;
+
 export class RiskController {
   private config: BaseStrategyConfig;
 
@@ -27,6 +37,7 @@ export class RiskController {
 
   // 冷却
   private coolingUntil: number | null = null;
+  private cooldownListener: RiskCooldownListener | null = null;
 
   // 追踪止损
   private trailingStop: TrailingStop | null = null;
@@ -38,8 +49,20 @@ export class RiskController {
   private totalWin = 0;
   private totalLoss = 0;
 
-  constructor(config: BaseStrategyConfig, initialEquity: number) {
+  private clock: Clock;
+
+  // 是否参与组合风控（实盘实例开启；回测与纸面交易不受真实账户敞口约束）
+  private portfolioGuard: boolean;
+
+  constructor(
+    config: BaseStrategyConfig,
+    initialEquity: number,
+    clock: Clock = systemClock,
+    portfolioGuard = false
+  ) {
     this.config = config;
+    this.clock = clock;
+    this.portfolioGuard = portfolioGuard;
     this.peakEquity = initialEquity;
     this.currentEquity = initialEquity;
     this.dailyResetDate = this.getTodayKey();
@@ -56,6 +79,13 @@ export class RiskController {
     }
   }
 
+  /**
+   * 设置冷却触发回调（引擎据此发出 RISK_LIMIT_HIT 事件）
+   */
+  onCooldown(listener: RiskCooldownListener): void {
+    this.cooldownListener = listener;
+  }
+
   /**
    * 更新配置（热更新时调用）
    */
@@ -81,8 +111,8 @@ export class RiskController {
     // 检查冷却期（宏观调整冷却时间）
     if (this.coolingUntil !== null) {
       const adjustedCoolingEnd = this.coolingUntil;
-      if (Date.now() < adjustedCoolingEnd) {
-        const remaining = Math.ceil((adjustedCoolingEnd - Date.now()) / 1000);
+      if (this.clock.now() < adjustedCoolingEnd) {
+        const remaining = Math.ceil((adjustedCoolingEnd - this.clock.now()) / 1000);
         return { canTrade: false, reason: `风控冷却中，剩余 ${remaining} 秒` };
       }
       this.coolingUntil = null;
@@ -115,6 +145,17 @@ export class RiskController {
       }
     }
 
+    // 检查组合级限制（跨实例/账户，不触发本实例冷却）
+    if (this.portfolioGuard) {
+      const portfolio = PortfolioRiskGovernor.getInstance().checkAccountLimits(
+        this.config.symbol,
+        this.config.accountId
+      );
+      if (!portfolio.canTrade) {
+        return portfolio;
+      }
+    }
+
     // 检查仓位上限（宏观调整上限）
     const baseMaxPosition = parseFloat(this.config.maxPositionUsdt);
     const maxPosition = baseMaxPosition * macroAdj.positionMultiplier;
@@ -211,20 +252,21 @@ export class RiskController {
    */
   private triggerCooldown(reason: string, cooldownMultiplier = 1.0): void {
     const adjustedCooldown = Math.round(this.config.cooldownMs * cooldownMultiplier);
-    this.coolingUntil = Date.now() + adjustedCooldown;
+    this.coolingUntil = this.clock.now() + adjustedCooldown;
     logger.warn('触发风控冷却', {
       reason,
       cooldownMs: adjustedCooldown,
       cooldownMultiplier,
       resumeAt: new Date(this.coolingUntil).toISOString(),
     });
+    this.cooldownListener?.({ reason, cooldownMs: adjustedCooldown, resumeAt: this.coolingUntil });
   }
 
   /**
    * 是否在冷却中
    */
   isCooling(): boolean {
-    return this.coolingUntil !== null && Date.now() < this.coolingUntil;
+    return this.coolingUntil !== null && this.clock.now() < this.coolingUntil;
   }
 
   /**
@@ -244,6 +286,6 @@ export class RiskController {
   }
 
   private getTodayKey(): string {
-    return new Date().toISOString().split('T')[0];
+    return new Date(this.clock.now()).toISOString().split('T')[0];
   }
 }
@@ -14,19 +14,38 @@
  *   3. 入场成交 → 挂出场单（long: 买价+spread, short: 卖价-spread）
  *   4. 出场成交 → 计算 PnL
  *   5. 挂单数 >= maxPendingOrders → 触发合并
+ *
+ * 订单推送（私有 WebSocket orders 频道，可用时）:
+ *   成交推送即时确认并挂出场单，Loop B 降频为兜底对账
  */
 
-import { IStrategy } from './interfaces/i-strategy';
+import { IStrategy, StrategyEventListener } from './interfaces/i-strategy';
 import { IOrderService } from '../services/interfaces/i-order.service';
 import { IMarketDataService } from '../services/interfaces/i-market-data.service';
 import { IAccountService } from '../services/interfaces/i-account.service';
+import { IOrderUpdateStream } from '../services/interfaces/i-order-update.service';
 import { TradingServices } from '../services/trading-service.factory';
 import { ContractSpecService } from '../services/contract-spec.service';
 import { FuturesAccountService, HoldMode } from '../services/futures-account.service';
 import { StrategyPersistenceService } from '../services/strategy-persistence.service';
-import { OrderStateTracker, EntryDirection } from './order-state-tracker';
+import { TradeJournalService, buildRoundTrip } from '../services/trade-journal.service';
+import {
+  OrderStateTracker,
+  EntryDirection,
+  isOpenOrder,
+  getFilledSize,
+  getFillPrice,
+  getRemainingSize,
+} from './order-state-tracker';
 import { RiskController } from './risk-controller';
 import { MergeEngine } from './merge-engine';
+import { PnlLedger } from './pnl-ledger';
+import { StartupReconciler, StartupReconcileResult } from './startup-reconciler';
+import { EntryPricePlan, planEntryPrice } from './order-book-analyzer';
+import { ExchangeStopLoss } from './exchange-stop-loss';
+import { PositionTracker, InferredPosition } from './position-tracker';
+import { PositionTrailingStop, TrailingStopUpdate, fetchTrailingAtr, toTrailingOptions } from './position-trailing-stop';
+import { fetchFundingGuard } from './funding-guard';
 import { StrategyConfigManager } from './strategy-config.manager';
 import {
   ScalpingStrategyConfig,
@@ -39,14 +58,19 @@ import {
   StrategyEventType,
   TrackedOrder,
   PnlSummary,
+  PnlLedgerEntry,
+  OrderReconcileReport,
+  PositionSnapshot,
 } from '../types/strategy.types';
-import { StrategyType } from '../types/trading.types';
+import { MergeLineageEntry } from '../types/trade-journal.types';
+import { StrategyType, UnifiedOrderUpdate, UnifiedOrderDetail } from '../types/trading.types';
 import { ContractSpecInfo } from '../types/futures.types';
 import { InstrumentSpec } from '../types/trading.types';
 import { CandleDataService } from '../services/candle-data.service';
 import { IndicatorResult } from './indicators/technical-indicators';
 import { AppError, ErrorCode } from '../utils/errors';
 import { createLogger } from '../utils/logger';
+import { Clock, TimerHandle, systemClock } from '../utils/clock';
 import { PolymarketSignalService } from '../services/polymarket-signal.service';
 
 const logger = createLogger('scalping-engine');
@@ -54,6 +78,19 @@ const logger = createLogger('scalping-engine');
 const MAX_CONSECUTIVE_ERRORS = 5;
 const ERROR_RECOVERY_DELAY_MS = 30000;
 const POST_ONLY_CANCEL_COOLDOWN_MS = 3000;
+/** 订单推送在线时 Loop B 对账间隔的放大倍数 */
+const PUSH_RECONCILE_INTERVAL_MULTIPLIER = 5;
+/** 资金费账单同步间隔（结算周期为数小时，无需每轮查询） */
+const FUNDING_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+/** 交易所侧止损同步间隔 */
+const STOP_LOSS_SYNC_INTERVAL_MS = 10 * 1000;
+/** 仓位对账默认参数 */
+const DEFAULT_POSITION_CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT = 1;
+/** 盘口定价默认参数 */
+const DEFAULT_ORDER_BOOK_DEPTH = 5;
+const DEFAULT_IMBALANCE_THRESHOLD = 0.3;
+const DEFAULT_IMPROVE_QUEUE_THRESHOLD_USDT = '5000';
 
 export class ScalpingStrategyEngine implements IStrategy {
   readonly strategyType: StrategyType = 'scalping';
@@ -68,9 +105,11 @@ export class ScalpingStrategyEngine implements IStrategy {
   private orderService: IOrderService;
   private marketDataService: IMarketDataService;
   private accountService: IAccountService;
+  private orderUpdates: IOrderUpdateStream | null;
+  private unsubscribeOrderUpdates: (() => void) | null = null;
 
-  private loopATimer: ReturnType<typeof setTimeout> | null = null;
-  private loopBTimer: ReturnType<typeof setTimeout> | null = null;
+  private loopATimer: TimerHandle | null = null;
+  private loopBTimer: TimerHandle | null = null;
   // Per-direction tracking prices: long→bid1, short→ask1
   private lastTrackingPrice: Map<EntryDirection, string | null> = new Map([
     ['long', null],
@@ -80,19 +119,33 @@ export class ScalpingStrategyEngine implements IStrategy {
   private startedAt: number | null = null;
   private tradeCount = 0;
   private realizedPnl = 0;
+  private pnlLedger: PnlLedger;
+  private lastFundingSyncAt = 0;
+  private exchangeStopLoss: ExchangeStopLoss | null = null;
+  private lastStopLossSyncAt = 0;
+  private positionTracker: PositionTracker | null = null;
+  private lastPositionCheckAt = 0;
+  private trailingStops: PositionTrailingStop | null = null;
+  private fundingBlockedDirection: EntryDirection | null = null;
 
   private contractSpec: ContractSpecInfo | null = null;
   private instrumentSpec: InstrumentSpec | null = null;
   private unrealizedPnl = '0';
-  private persistenceService: StrategyPersistenceService;
+  private persistenceService: StrategyPersistenceService | null;
+  private tradeJournal: TradeJournalService | null;
+  private clock: Clock;
+  private simulated: boolean;
   private lastConfig: ScalpingStrategyConfig = DEFAULT_SCALPING_CONFIG;
   private configLoaded = false;
 
   private candleDataService: CandleDataService | null = null;
   private lastDynamicSpread: string | null = null;
 
+  // 最近事件的内存缓存，完整历史落库到 strategy_events
   private events: StrategyEvent[] = [];
   private maxEvents = 1000;
+  private eventListeners: Set<StrategyEventListener> = new Set();
+  private lastReconcileReport: OrderReconcileReport | null = null;
   // Per-direction post_only tracking
   private lastEntryCancelledAt: Map<EntryDirection, number> = new Map([
     ['long', 0],
@@ -104,13 +157,23 @@ export class ScalpingStrategyEngine implements IStrategy {
     ['short', 0],
   ]);
   private loopCounter = 0;
+  // 最近一次盘口定价结果（心跳日志用）
+  private lastEntryPlan: Map<EntryDirection, EntryPricePlan | null> = new Map([
+    ['long', null],
+    ['short', null],
+  ]);
 
   constructor(services: TradingServices, instanceId = 'default') {
     this.orderService = services.orderService;
     this.marketDataService = services.marketDataService;
     this.accountService = services.accountService;
-    this.tracker = new OrderStateTracker();
-    this.persistenceService = StrategyPersistenceService.getInstance();
+    this.orderUpdates = services.orderUpdates || null;
+    this.clock = services.clock || systemClock;
+    this.simulated = services.simulated === true;
+    this.tracker = new OrderStateTracker(this.clock);
+    this.pnlLedger = new PnlLedger(this.clock);
+    this.persistenceService = this.simulated ? null : StrategyPersistenceService.getInstance();
+    this.tradeJournal = this.simulated ? null : TradeJournalService.getInstance();
     this.instanceId = instanceId;
   }
 
@@ -119,7 +182,7 @@ export class ScalpingStrategyEngine implements IStrategy {
    */
   async loadLastConfig(): Promise<void> {
     try {
-      const config = await this.persistenceService.loadActiveConfig();
+      const config = await this.persistenceService?.loadActiveConfig();
       if (config && !this.configLoaded) {
         this.lastConfig = {
           ...DEFAULT_SCALPING_CONFIG,
@@ -182,7 +245,7 @@ export class ScalpingStrategyEngine implements IStrategy {
       const config = this.configManager.getScalpingConfig();
 
       // 获取合约/现货规格并自动覆盖精度
-      if (config.tradingType === 'futures' && config.productType) {
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
         try {
           const specService = ContractSpecService.getInstance();
           this.contractSpec = await specService.refreshSpec(config.symbol, config.productType);
@@ -207,9 +270,9 @@ export class ScalpingStrategyEngine implements IStrategy {
       }
 
       // 检测持仓模式（单向/双向）
-      if (config.tradingType === 'futures' && config.productType) {
+      if (config.tradingType === 'futures' && config.productType && !this.simulated) {
         try {
-          const accountService = new FuturesAccountService();
+          const accountService = new FuturesAccountService(config.accountId);
           this.holdMode = await accountService.getHoldMode(config.productType);
           logger.info('持仓模式检测', { holdMode: this.holdMode });
         } catch (error) {
@@ -228,8 +291,15 @@ export class ScalpingStrategyEngine implements IStrategy {
 
       // 初始化组件
       const finalConfig = this.configManager.getScalpingConfig();
-      this.riskController = new RiskController(finalConfig, initialEquity);
-      this.mergeEngine = new MergeEngine(this.orderService, this.tracker, finalConfig, this.holdMode);
+      this.riskController = new RiskController(finalConfig, initialEquity, this.clock, !this.simulated);
+      this.riskController.onCooldown(info => {
+        this.emitEvent('RISK_LIMIT_HIT', {
+          reason: info.reason,
+          cooldownMs: info.cooldownMs,
+          resumeAt: new Date(info.resumeAt).toISOString(),
+        });
+      });
+      this.mergeEngine = new MergeEngine(this.orderService, this.tracker, finalConfig, this.holdMode, this.clock);
       this.tracker.clear();
       this.lastTrackingPrice.set('long', null);
       this.lastTrackingPrice.set('short', null);
@@ -238,82 +308,35 @@ export class ScalpingStrategyEngine implements IStrategy {
       this.consecutivePostOnlyCancels.set('long', 0);
       this.consecutivePostOnlyCancels.set('short', 0);
       this.consecutiveErrors = 0;
-      this.startedAt = Date.now();
+      this.startedAt = this.clock.now();
       this.tradeCount = 0;
       this.realizedPnl = 0;
-
-      // 尝试从 DB 恢复 pending 订单（启动时对账：与交易所核实真实状态）
-      try {
-        const pendingOrders = await this.persistenceService.loadPendingOrders(
-          finalConfig.symbol,
-          finalConfig.productType || ''
-        );
-        if (pendingOrders.length > 0) {
-          let kept = 0;
-          let reconcilledFilled = 0;
-          let reconcilledCancelled = 0;
-          let reconcilledError = 0;
-
-          for (const order of pendingOrders) {
-            try {
-              const detail = await this.orderService.getOrderDetail(finalConfig.symbol, order.orderId);
-
-              if (detail.state === 'live' || detail.state === 'partially_filled') {
-                // 订单仍在交易所活跃 → 保留追踪
-                this.tracker.addOrder(order);
-                kept++;
-              } else if (detail.state === 'filled') {
-                // 已成交但 DB 未更新 → 同步状态
-                this.persistenceService.persistOrderStatusChange(
-                  order.orderId, 'filled', Date.now(), order.linkedOrderId
-                );
-                reconcilledFilled++;
-              } else {
-                // cancelled 等其他状态 → 同步状态
-                this.persistenceService.persistOrderStatusChange(
-                  order.orderId, 'cancelled', null, null
-                );
-                reconcilledCancelled++;
-              }
-            } catch (orderError) {
-              const errMsg = String(orderError);
-              if (errMsg.includes('40109')) {
-                // 订单在交易所不存在 → 标记取消
-                this.persistenceService.persistOrderStatusChange(
-                  order.orderId, 'cancelled', null, null
-                );
-                reconcilledCancelled++;
-              } else {
-                // 查询失败（网络等）→ 保守保留，让 Loop B 后续对账
-                this.tracker.addOrder(order);
-                kept++;
-                reconcilledError++;
-              }
-            }
-          }
-
-          logger.info('启动对账完成', {
-            total: pendingOrders.length,
-            kept,
-            filled: reconcilledFilled,
-            cancelled: reconcilledCancelled,
-            queryErrors: reconcilledError,
-          });
-        }
-      } catch (error) {
-        logger.warn('恢复 pending 订单失败', { error: String(error) });
-      }
+      this.pnlLedger.reset();
+      this.pnlLedger.setFeeRate(this.contractSpec?.makerFeeRate ?? null);
+      this.lastFundingSyncAt = 0;
+      this.exchangeStopLoss = null;
+      this.lastStopLossSyncAt = 0;
+      this.positionTracker = null;
+      this.lastPositionCheckAt = 0;
+      this.trailingStops = new PositionTrailingStop(toTrailingOptions(finalConfig), this.clock);
+      this.fundingBlockedDirection = null;
+
+      // 启动对账：DB 未结订单与交易所核对，无法核实时不启动（保持交易所现状）
+      const recovered = await this.reconcileOnStart(finalConfig);
 
       this.status = 'RUNNING';
       this.lastConfig = this.configManager.getScalpingConfig();
       this.configLoaded = true;
-      this.persistenceService.saveActiveConfig(this.lastConfig);
+      this.persistenceService?.saveActiveConfig(this.lastConfig);
 
       this.emitEvent('STRATEGY_STARTED', { config: this.lastConfig });
+      if (recovered) {
+        this.emitEvent('ORDERS_RECONCILED', { ...recovered.report });
+      }
       logger.info('策略已启动', { symbol: this.lastConfig.symbol, direction: this.lastConfig.direction });
 
-      // 初始化动态价差所需的 K线数据服务
-      if (this.lastConfig.dynamicSpreadEnabled) {
+      // 初始化动态价差所需的 K线数据服务（模拟环境无实时 K 线，回退静态价差）
+      if (this.lastConfig.dynamicSpreadEnabled && !this.simulated) {
         this.candleDataService = CandleDataService.getInstance();
         if (this.lastConfig.useWebSocket && this.lastConfig.productType) {
           this.candleDataService.enableWebSocket(
@@ -327,7 +350,12 @@ export class ScalpingStrategyEngine implements IStrategy {
         });
       }
 
-      // 启动双循环
+      if (recovered) {
+        await this.applyRecoveredFills(recovered, this.lastConfig);
+      }
+
+      // 订阅订单推送 + 启动双循环
+      this.subscribeOrderUpdates(this.lastConfig.symbol);
       this.scheduleLoopA();
       this.scheduleLoopB();
     } catch (error) {
@@ -349,13 +377,14 @@ export class ScalpingStrategyEngine implements IStrategy {
     logger.info('策略停止中...');
 
     if (this.loopATimer) {
-      clearTimeout(this.loopATimer);
+      this.clock.clearTimeout(this.loopATimer);
       this.loopATimer = null;
     }
     if (this.loopBTimer) {
-      clearTimeout(this.loopBTimer);
+      this.clock.clearTimeout(this.loopBTimer);
       this.loopBTimer = null;
     }
+    this.unsubscribeFromOrderUpdates();
 
     // 撤销所有方向的活跃入场单
     if (this.configManager) {
@@ -364,11 +393,7 @@ export class ScalpingStrategyEngine implements IStrategy {
         const activeEntry = this.tracker.getActiveEntryOrder(dir);
         if (activeEntry) {
           try {
-            await this.orderService.cancelOrder({
-              symbol: config.symbol,
-              orderId: activeEntry.orderId,
-            });
-            this.tracker.markCancelled(activeEntry.orderId);
+            await this.cancelEntryOrder(activeEntry, config);
           } catch (error) {
             logger.warn(`停止时撤 ${dir} 入场单失败`, { error: String(error) });
           }
@@ -378,13 +403,39 @@ export class ScalpingStrategyEngine implements IStrategy {
 
     this.status = 'STOPPED';
     this.emitEvent('STRATEGY_STOPPED', {
-      uptime: this.startedAt ? Date.now() - this.startedAt : 0,
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
       tradeCount: this.tradeCount,
       realizedPnl: this.realizedPnl,
     });
     logger.info('策略已停止');
   }
 
+  /**
+   * 挂起策略：停止循环但保留交易所挂单（服务关闭时使用，重启后经启动对账恢复）
+   */
+  async suspend(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    if (this.loopATimer) {
+      this.clock.clearTimeout(this.loopATimer);
+      this.loopATimer = null;
+    }
+    if (this.loopBTimer) {
+      this.clock.clearTimeout(this.loopBTimer);
+      this.loopBTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_SUSPENDED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      openOrders: this.tracker.getAllOrders().filter(isOpenOrder).length,
+    });
+    logger.info('策略已挂起，挂单保留在交易所');
+  }
+
   /**
    * 紧急停止：撤销所有挂单
    */
@@ -393,17 +444,18 @@ export class ScalpingStrategyEngine implements IStrategy {
     this.emitEvent('EMERGENCY_STOP', {});
 
     if (this.loopATimer) {
-      clearTimeout(this.loopATimer);
+      this.clock.clearTimeout(this.loopATimer);
       this.loopATimer = null;
     }
     if (this.loopBTimer) {
-      clearTimeout(this.loopBTimer);
+      this.clock.clearTimeout(this.loopBTimer);
       this.loopBTimer = null;
     }
+    this.unsubscribeFromOrderUpdates();
 
     if (this.configManager) {
       const config = this.configManager.getScalpingConfig();
-      const allPending = this.tracker.getAllOrders().filter(o => o.status === 'pending');
+      const allPending = this.tracker.getAllOrders().filter(isOpenOrder);
 
       const orderIds = allPending.map(o => o.orderId);
       for (let i = 0; i < orderIds.length; i += 50) {
@@ -424,6 +476,81 @@ export class ScalpingStrategyEngine implements IStrategy {
     logger.warn('紧急停止完成');
   }
 
+  /**
+   * 停止并平仓（市场状态切换时使用）：撤销入场单，入场已成交部分与出场单剩余数量全部市价平掉，
+   * 平仓单成交后按正常出场流程记账
+   */
+  async flatten(): Promise<void> {
+    if (this.status === 'STOPPED' || this.status === 'STOPPING') {
+      return;
+    }
+
+    this.status = 'STOPPING';
+    logger.info('策略停止并平仓中...');
+
+    if (this.loopATimer) {
+      this.clock.clearTimeout(this.loopATimer);
+      this.loopATimer = null;
+    }
+    if (this.loopBTimer) {
+      this.clock.clearTimeout(this.loopBTimer);
+      this.loopBTimer = null;
+    }
+    this.unsubscribeFromOrderUpdates();
+
+    const closeOrders: TrackedOrder[] = [];
+    if (this.configManager) {
+      const config = this.configManager.getScalpingConfig();
+      let price = 0;
+      try {
+        price = parseFloat((await this.marketDataService.getTicker(config.symbol)).lastPr) || 0;
+      } catch (error) {
+        logger.debug('平仓获取行情失败', { error: String(error) });
+      }
+
+      for (const dir of ['long', 'short'] as EntryDirection[]) {
+        const activeEntry = this.tracker.getActiveEntryOrder(dir);
+        if (activeEntry) {
+          try {
+            const close = await this.cancelEntryAndClose(activeEntry, dir, price, config);
+            if (close) closeOrders.push(close);
+          } catch (error) {
+            logger.warn(`平仓时撤 ${dir} 入场单失败`, { error: String(error) });
+          }
+        }
+        for (const exitOrder of this.tracker.getPendingExitOrders(dir)) {
+          try {
+            const close = await this.closeExitAtMarket(exitOrder, price, config, 'flat');
+            if (close) closeOrders.push(close);
+          } catch (error) {
+            logger.warn(`平仓时处理 ${dir} 出场单失败`, { orderId: exitOrder.orderId, error: String(error) });
+          }
+        }
+      }
+
+      // 市价单通常即时成交，这里回查一次完成记账；未确认的留待启动对账处理
+      for (const close of closeOrders) {
+        try {
+          const detail = await this.orderService.getOrderDetail(config.symbol, close.orderId);
+          if (detail.state !== 'filled') continue;
+          const confirmed = this.confirmOrderFilled(close.orderId, detail.priceAvg, detail.fee);
+          if (confirmed) this.handleExitFilled(confirmed);
+        } catch (error) {
+          logger.warn('回查平仓单失败', { orderId: close.orderId, error: String(error) });
+        }
+      }
+    }
+
+    this.status = 'STOPPED';
+    this.emitEvent('STRATEGY_STOPPED', {
+      uptime: this.startedAt ? this.clock.now() - this.startedAt : 0,
+      tradeCount: this.tradeCount,
+      realizedPnl: this.realizedPnl,
+      flattened: closeOrders.length,
+    });
+    logger.info('策略已停止并平仓', { closeOrders: closeOrders.length });
+  }
+
   /**
    * 更新配置
    */
@@ -437,8 +564,9 @@ export class ScalpingStrategyEngine implements IStrategy {
       if (this.mergeEngine) {
         this.mergeEngine.updateConfig(scalpingConfig);
       }
+      this.trailingStops?.updateOptions(toTrailingOptions(scalpingConfig));
       this.lastConfig = scalpingConfig;
-      this.persistenceService.saveActiveConfig(scalpingConfig);
+      this.persistenceService?.saveActiveConfig(scalpingConfig);
       this.emitEvent('CONFIG_UPDATED', { changes, state: 'running' });
       return scalpingConfig;
     }
@@ -446,7 +574,7 @@ export class ScalpingStrategyEngine implements IStrategy {
     const tempManager = new StrategyConfigManager({ ...this.lastConfig, ...changes });
     const newConfig = tempManager.getScalpingConfig();
     this.lastConfig = newConfig;
-    this.persistenceService.saveActiveConfig(newConfig);
+    this.persistenceService?.saveActiveConfig(newConfig);
     this.emitEvent('CONFIG_UPDATED', { changes, state: 'stopped' });
     logger.info('已更新停止态配置', { changes });
     return newConfig;
@@ -497,12 +625,13 @@ export class ScalpingStrategyEngine implements IStrategy {
       errorCount: this.consecutiveErrors,
       lastError: null,
       startedAt: this.startedAt,
-      uptimeMs: this.startedAt ? Date.now() - this.startedAt : 0,
+      uptimeMs: this.startedAt ? this.clock.now() - this.startedAt : 0,
       // Per-direction state
       activeEntryOrders,
       lastTrackingPrices,
       pendingExitCounts,
       positionUsdtByDirection,
+      trailingStops: this.trailingStops?.getSnapshots(config.pricePrecision) ?? [],
     };
   }
 
@@ -512,9 +641,14 @@ export class ScalpingStrategyEngine implements IStrategy {
 
   getPnlSummary(): PnlSummary {
     const stats = this.riskController?.getStats();
+    const totals = this.pnlLedger.getTotals();
     return {
       realizedPnl: this.realizedPnl.toFixed(4),
       unrealizedPnl: this.unrealizedPnl,
+      grossPnl: totals.grossPnl.toFixed(4),
+      fees: totals.fees.toFixed(4),
+      funding: totals.funding.toFixed(4),
+      netPnl: totals.netPnl.toFixed(4),
       dailyPnl: stats ? stats.dailyPnl.toFixed(4) : '0',
       totalTrades: stats?.totalTrades || 0,
       winTrades: stats?.winTrades || 0,
@@ -525,10 +659,29 @@ export class ScalpingStrategyEngine implements IStrategy {
     };
   }
 
+  getPnlLedger(limit = 100): PnlLedgerEntry[] {
+    return this.pnlLedger.getEntries(limit);
+  }
+
   getEvents(limit = 50): StrategyEvent[] {
     return this.events.slice(-limit);
   }
 
+  getReconcileReport(): OrderReconcileReport | null {
+    return this.lastReconcileReport;
+  }
+
+  getPositionSnapshots(): PositionSnapshot[] {
+    return this.positionTracker?.getSnapshots() || [];
+  }
+
+  onEvent(listener: StrategyEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
   // ============================================================
   // Loop A: 盘口追踪（per-direction）
   // ============================================================
@@ -536,7 +689,7 @@ export class ScalpingStrategyEngine implements IStrategy {
   private scheduleLoopA(): void {
     if (this.status !== 'RUNNING') return;
     const config = this.configManager!.getScalpingConfig();
-    this.loopATimer = setTimeout(() => this.runLoopA(), config.pollIntervalMs);
+    this.loopATimer = this.clock.setTimeout(() => this.runLoopA(), config.pollIntervalMs);
   }
 
   private async runLoopA(): Promise<void> {
@@ -557,8 +710,31 @@ export class ScalpingStrategyEngine implements IStrategy {
         return;
       }
 
+      const fundingBlocked = await this.updateFundingGuard(config);
+
       // 对每个方向执行入场逻辑（仓位上限按方向分配）
       for (const dir of directions) {
+        // 资金费率保护：支付方向不开仓，撤掉尚未成交的入场单
+        if (dir === fundingBlocked) {
+          const activeEntry = this.tracker.getActiveEntryOrder(dir);
+          if (activeEntry && isOpenOrder(activeEntry)) {
+            try {
+              await this.cancelEntryOrder(activeEntry, config);
+              this.emitEvent('BUY_ORDER_CANCELLED', {
+                orderId: activeEntry.orderId,
+                oldPrice: activeEntry.price,
+                direction: dir,
+                reason: 'funding_guard',
+              });
+            } catch {
+              this.tracker.clearActiveEntry(dir);
+              logger.debug(`撤 ${dir} 入场单失败（可能已成交或已撤销）`, { orderId: activeEntry.orderId });
+            }
+          }
+          continue;
+        }
+
+
         // 双向模式：每方向仓位上限 = maxPositionUsdt / 2
         const dirPositionUsdt = parseFloat(this.tracker.getTotalPositionUsdtByDirection(dir));
         const maxPosition = parseFloat(config.maxPositionUsdt) * (isBothDir ? 0.5 : 1.0);
@@ -593,9 +769,9 @@ export class ScalpingStrategyEngine implements IStrategy {
     const activeEntry = this.tracker.getActiveEntryOrder(dir);
     const dirCancels = this.consecutivePostOnlyCancels.get(dir) || 0;
 
-    if (activeEntry && activeEntry.status === 'pending') {
+    if (activeEntry && isOpenOrder(activeEntry)) {
       const orderPrice = parseFloat(activeEntry.price);
-      const orderAge = Date.now() - activeEntry.createdAt;
+      const orderAge = this.clock.now() - activeEntry.createdAt;
 
       const MIN_ORDER_LIFETIME_MS = 5000;
       const tickSize = Math.pow(10, -config.pricePrecision);
@@ -623,11 +799,7 @@ export class ScalpingStrategyEngine implements IStrategy {
           reason: overpaying ? 'overpaying' : 'too_far',
         });
         try {
-          await this.orderService.cancelOrder({
-            symbol: config.symbol,
-            orderId: activeEntry.orderId,
-          });
-          this.tracker.markCancelled(activeEntry.orderId);
+          await this.cancelEntryOrder(activeEntry, config);
           this.emitEvent('BUY_ORDER_CANCELLED', {
             orderId: activeEntry.orderId,
             oldPrice: activeEntry.price,
@@ -652,13 +824,15 @@ export class ScalpingStrategyEngine implements IStrategy {
             realizedPnl: this.realizedPnl.toFixed(4),
             tradeCount: this.tradeCount,
             dynamicSpread: this.lastDynamicSpread,
+            entryPriceMode: this.lastEntryPlan.get(dir)?.mode,
+            queueAhead: this.lastEntryPlan.get(dir)?.queueAhead,
           });
         }
       }
     } else {
       // 防止 post_only 被交易所撤销后立即重新下单
       const lastCancelledAt = this.lastEntryCancelledAt.get(dir) || 0;
-      const timeSinceLastCancel = Date.now() - lastCancelledAt;
+      const timeSinceLastCancel = this.clock.now() - lastCancelledAt;
       if (lastCancelledAt > 0 && timeSinceLastCancel < POST_ONLY_CANCEL_COOLDOWN_MS) {
         logger.debug(`${dir} post_only 冷却中`, {
           cooldownRemaining: POST_ONLY_CANCEL_COOLDOWN_MS - timeSinceLastCancel,
@@ -673,6 +847,7 @@ export class ScalpingStrategyEngine implements IStrategy {
    * 下入场单（方向感知）
    * long: buy at bid1 - offset
    * short: sell at ask1 + offset
+   * 启用盘口定价时按深度失衡度在贴价 / 抢价 / 偏移 / 退后之间选择，取盘口失败降级为固定偏移
    */
   private async placeEntryOrder(dir: EntryDirection, refPrice: string, config: ScalpingStrategyConfig): Promise<void> {
     const tickSize = Math.pow(10, -config.pricePrecision);
@@ -693,24 +868,31 @@ export class ScalpingStrategyEngine implements IStrategy {
 
     // 宏观信号调整
     const macroSpread = this.getMacroSpreadAdjustment();
+    let macroExtraTicks = 0;
     if (dir === 'long' && macroSpread.direction === 'bearish' && macroSpread.riskScore > 70) {
-      const extraTicks = Math.ceil((macroSpread.riskScore - 70) / 15);
-      adaptiveTickOffset += extraTicks;
+      macroExtraTicks = Math.ceil((macroSpread.riskScore - 70) / 15);
     }
     if (dir === 'short' && macroSpread.direction === 'bullish' && macroSpread.riskScore > 70) {
-      const extraTicks = Math.ceil((macroSpread.riskScore - 70) / 15);
-      adaptiveTickOffset += extraTicks;
+      macroExtraTicks = Math.ceil((macroSpread.riskScore - 70) / 15);
     }
+    adaptiveTickOffset += macroExtraTicks;
 
     // 计算入场价格
-    const refPriceNum = parseFloat(refPrice);
-    let adjustedPrice: number;
-    if (dir === 'long') {
-      adjustedPrice = refPriceNum - tickSize * adaptiveTickOffset;
+    const plan = config.depthPricingEnabled
+      ? await this.planEntryFromOrderBook(dir, config, tickSize, adaptiveTickOffset, macroExtraTicks === 0)
+      : null;
+    this.lastEntryPlan.set(dir, plan);
+
+    let price: string;
+    if (plan) {
+      price = plan.price;
     } else {
-      adjustedPrice = refPriceNum + tickSize * adaptiveTickOffset;
+      const refPriceNum = parseFloat(refPrice);
+      const adjustedPrice = dir === 'long'
+        ? refPriceNum - tickSize * adaptiveTickOffset
+        : refPriceNum + tickSize * adaptiveTickOffset;
+      price = adjustedPrice.toFixed(config.pricePrecision);
     }
-    const price = adjustedPrice.toFixed(config.pricePrecision);
 
     const size = this.calculateSize(config.orderAmountUsdt, price, config.sizePrecision);
     if (!size) {
@@ -723,7 +905,7 @@ export class ScalpingStrategyEngine implements IStrategy {
     }
 
     const entrySide = dir === 'long' ? 'buy' : 'sell';
-    const clientOid = `scalp_${config.symbol}_${dir}_entry_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const clientOid = `scalp_${config.symbol}_${dir}_entry_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     try {
       // tradeSide: 双向持仓 → 'open'; 单向持仓 → undefined
@@ -752,11 +934,11 @@ export class ScalpingStrategyEngine implements IStrategy {
         linkedOrderId: null,
         direction: dir,
         orderRole: 'entry',
-        createdAt: Date.now(),
+        createdAt: this.clock.now(),
         filledAt: null,
       };
       this.tracker.addOrder(trackedOrder);
-      this.persistenceService.persistNewOrder(trackedOrder, config.symbol, config.productType || '', config.marginCoin || 'USDT');
+      this.persistenceService?.persistNewOrder(trackedOrder, config.symbol, config.productType || '', config.marginCoin || 'USDT', config.instanceId);
 
       this.emitEvent('BUY_ORDER_PLACED', {
         orderId: result.orderId,
@@ -768,12 +950,45 @@ export class ScalpingStrategyEngine implements IStrategy {
         tickOffset: adaptiveTickOffset,
         force,
         consecutivePostOnlyCancels: dirCancels,
+        ...(plan && {
+          priceMode: plan.mode,
+          imbalance: plan.imbalance.toFixed(3),
+          queueAhead: plan.queueAhead,
+        }),
       });
     } catch (error) {
       logger.warn(`${dir} 挂入场单失败`, { error: String(error), price, size, refPrice, direction: dir, force });
     }
   }
 
+  /**
+   * 按盘口深度计算入场价，取盘口失败或己方盘口为空时返回 null
+   */
+  private async planEntryFromOrderBook(
+    dir: EntryDirection,
+    config: ScalpingStrategyConfig,
+    tickSize: number,
+    offsetTicks: number,
+    allowAggressive: boolean
+  ): Promise<EntryPricePlan | null> {
+    const levels = config.orderBookDepth ?? DEFAULT_ORDER_BOOK_DEPTH;
+    try {
+      const book = await this.marketDataService.getOrderBook(config.symbol, levels);
+      return planEntryPrice(book, dir, {
+        tickSize,
+        pricePrecision: config.pricePrecision,
+        offsetTicks,
+        levels,
+        imbalanceThreshold: config.imbalanceThreshold ?? DEFAULT_IMBALANCE_THRESHOLD,
+        improveQueueThresholdUsdt: parseFloat(config.improveQueueThresholdUsdt ?? DEFAULT_IMPROVE_QUEUE_THRESHOLD_USDT),
+        allowAggressive,
+      });
+    } catch (error) {
+      logger.warn('获取盘口深度失败，入场价降级为固定偏移', { symbol: config.symbol, error: String(error) });
+      return null;
+    }
+  }
+
   // ============================================================
   // Loop B: 成交检测
   // ============================================================
@@ -781,7 +996,11 @@ export class ScalpingStrategyEngine implements IStrategy {
   private scheduleLoopB(): void {
     if (this.status !== 'RUNNING') return;
     const config = this.configManager!.getScalpingConfig();
-    this.loopBTimer = setTimeout(() => this.runLoopB(), config.orderCheckIntervalMs);
+    // 推送在线时成交由 handleOrderUpdate 即时处理，REST 对账降频兜底
+    const interval = this.orderUpdates?.isConnected()
+      ? config.orderCheckIntervalMs * PUSH_RECONCILE_INTERVAL_MULTIPLIER
+      : config.orderCheckIntervalMs;
+    this.loopBTimer = this.clock.setTimeout(() => this.runLoopB(), interval);
   }
 
   private async runLoopB(): Promise<void> {
@@ -794,6 +1013,13 @@ export class ScalpingStrategyEngine implements IStrategy {
       const exchangePending = await this.orderService.getPendingOrders(config.symbol);
       const exchangePendingIds = new Set(exchangePending.map(o => o.orderId));
 
+      // 同步挂单的部分成交进度
+      for (const pending of exchangePending) {
+        if (parseFloat(pending.filledQty) > 0) {
+          this.tracker.recordPartialFill(pending.orderId, pending.filledQty);
+        }
+      }
+
       // 对账：找出消失的订单
       const disappeared = this.tracker.findDisappearedOrders(exchangePendingIds);
 
@@ -805,18 +1031,10 @@ export class ScalpingStrategyEngine implements IStrategy {
           const detail = await this.orderService.getOrderDetail(config.symbol, order.orderId);
 
           if (detail.state === 'filled') {
-            const confirmed = this.tracker.confirmFilled(order.orderId);
+            const confirmed = this.confirmOrderFilled(order.orderId, detail.priceAvg, detail.fee);
             if (confirmed) {
-              this.persistenceService.persistOrderStatusChange(
-                order.orderId, 'filled', confirmed.filledAt || Date.now(), confirmed.linkedOrderId
-              );
-
-              const isEntry = this.isEntryOrder(confirmed);
-              if (isEntry) {
+              if (this.isEntryOrder(confirmed)) {
                 filledEntryOrders.push(confirmed);
-                // 入场成交，重置该方向的 post_only 被撤计数
-                const dir = this.getOrderDirection(confirmed);
-                if (dir) this.consecutivePostOnlyCancels.set(dir, 0);
               } else {
                 filledExitOrders.push(confirmed);
               }
@@ -827,14 +1045,25 @@ export class ScalpingStrategyEngine implements IStrategy {
               side: order.side,
               state: detail.state,
             });
+          } else if (parseFloat(detail.filledQty) > 0 && this.isEntryOrder(order)) {
+            // 入场单部分成交后被撤：已成交部分照常挂出场单
+            const partial = this.tracker.markCancelledWithFill(
+              order.orderId, detail.filledQty, detail.priceAvg, detail.fee
+            );
+            this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+            if (partial) filledEntryOrders.push(partial);
+          } else if (parseFloat(detail.filledQty) > 0) {
+            // 出场单部分成交后被撤：已成交部分记账，剩余仓位市价平掉，避免无单持仓
+            const refPrice = parseFloat(detail.priceAvg) || parseFloat(order.price);
+            await this.settleCancelledExit(order, detail, refPrice, config, 'exit_rest');
           } else {
             this.tracker.markExchangeCancelled(order.orderId);
-            this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+            this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
             // 记录入场单被交易所撤销
             if (this.isEntryOrder(order)) {
               const dir = this.getOrderDirection(order);
               if (dir) {
-                this.lastEntryCancelledAt.set(dir, Date.now());
+                this.lastEntryCancelledAt.set(dir, this.clock.now());
                 const prevCancels = this.consecutivePostOnlyCancels.get(dir) || 0;
                 this.consecutivePostOnlyCancels.set(dir, prevCancels + 1);
                 logger.info(`${dir} 入场单被交易所撤销（post_only）`, {
@@ -861,7 +1090,7 @@ export class ScalpingStrategyEngine implements IStrategy {
               direction: order.direction,
             });
             this.tracker.markCancelled(order.orderId);
-            this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+            this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
           } else {
             logger.warn('查询订单详情失败，跳过本轮', {
               orderId: order.orderId,
@@ -888,11 +1117,38 @@ export class ScalpingStrategyEngine implements IStrategy {
           logger.info(`${dir} 挂单数达到上限，触发合并`);
           const mergeResult = await this.mergeEngine!.mergeExitOrders(dir);
           if (mergeResult) {
-            this.emitEvent('ORDERS_MERGED', { ...mergeResult as unknown as Record<string, unknown>, direction: dir });
+            // 合并结果落库，否则重启对账时合并单会被视为未记录的挂单
+            for (const orderId of mergeResult.cancelledOrderIds) {
+              this.persistenceService?.persistOrderStatusChange(orderId, 'cancelled', null, null);
+            }
+            // 撤单前已成交的部分按正常出场记账
+            for (const settled of mergeResult.settledFills) {
+              if (settled.status === 'filled') {
+                this.persistenceService?.persistOrderStatusChange(
+                  settled.orderId, 'filled', settled.filledAt || this.clock.now(), settled.linkedOrderId
+                );
+              }
+              this.handleExitFilled(settled);
+              this.mergeEngine!.releaseLineage(settled.orderId);
+            }
+            const mergedOrder = mergeResult.newOrderId ? this.tracker.getOrder(mergeResult.newOrderId) : undefined;
+            if (mergedOrder) {
+              this.persistenceService?.persistNewOrder(
+                mergedOrder, config.symbol, config.productType || '', config.marginCoin || 'USDT', config.instanceId, mergeResult.lineage
+              );
+              this.trailingStops?.merge(mergeResult.cancelledOrderIds, mergedOrder.orderId, mergedOrder.size);
+            }
+            this.emitEvent('ORDERS_MERGED', {
+              ...mergeResult as unknown as Record<string, unknown>,
+              settledFills: mergeResult.settledFills.map(o => o.orderId),
+              direction: dir,
+            });
           }
         }
       }
 
+      await this.checkTrailingStops(config);
+
       this.tracker.cleanup();
 
       // 同步未实现盈亏和权益
@@ -906,6 +1162,12 @@ export class ScalpingStrategyEngine implements IStrategy {
         logger.debug('同步权益失败', { error: String(error) });
       }
 
+      if (config.tradingType === 'futures') {
+        await this.syncFundingPayments(config);
+        await this.syncExchangeStopLoss(config);
+        await this.checkPositions(config);
+      }
+
       this.consecutiveErrors = 0;
     } catch (error) {
       this.handleLoopError('Loop B', error);
@@ -914,11 +1176,463 @@ export class ScalpingStrategyEngine implements IStrategy {
     this.scheduleLoopB();
   }
 
+  /**
+   * 同步交易所侧仓位止损（节流；持仓均价随成交变化，止损触发价跟随更新）
+   */
+  private async syncExchangeStopLoss(config: ScalpingStrategyConfig): Promise<void> {
+    if (!config.exchangeStopLossEnabled) return;
+    const now = this.clock.now();
+    if (now - this.lastStopLossSyncAt < STOP_LOSS_SYNC_INTERVAL_MS) return;
+    this.lastStopLossSyncAt = now;
+
+    if (!this.exchangeStopLoss) {
+      this.exchangeStopLoss = new ExchangeStopLoss(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const changes = await this.exchangeStopLoss.sync({
+        stopLossPercent: config.exchangeStopLossPercent ?? config.stopLossPercent,
+        pricePrecision: config.pricePrecision,
+        holdMode: this.holdMode,
+      });
+      for (const change of changes) {
+        this.emitEvent('EXCHANGE_STOP_LOSS_UPDATED', { ...change });
+      }
+    } catch (error) {
+      logger.debug('同步交易所止损失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 对比推断仓位与交易所持仓，确认漂移时发出 POSITION_DRIFT（按间隔节流）
+   */
+  private async checkPositions(config: ScalpingStrategyConfig): Promise<void> {
+    const interval = config.positionCheckIntervalMs ?? DEFAULT_POSITION_CHECK_INTERVAL_MS;
+    if (interval <= 0) return;
+    const now = this.clock.now();
+    if (now - this.lastPositionCheckAt < interval) return;
+    this.lastPositionCheckAt = now;
+
+    if (!this.positionTracker) {
+      this.positionTracker = new PositionTracker(this.orderService, this.accountService, config.symbol, this.clock);
+    }
+    try {
+      const drifts = await this.positionTracker.check(this.getInferredPositions(), {
+        sizePrecision: config.sizePrecision,
+        tolerancePercent: config.positionDriftTolerancePercent ?? DEFAULT_POSITION_DRIFT_TOLERANCE_PERCENT,
+        autoCorrect: config.positionAutoCorrect || 'off',
+        holdMode: this.holdMode,
+        onExitCancelled: order => {
+          this.tracker.markCancelled(order.orderId);
+          this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+        },
+      });
+      for (const drift of drifts) {
+        this.emitEvent('POSITION_DRIFT', { ...drift });
+      }
+    } catch (error) {
+      logger.debug('仓位对账失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 单笔持仓追踪止损：按最新价推进每笔出场单的止损位，触发时撤出场限价单并市价平仓
+   */
+  private async checkTrailingStops(config: ScalpingStrategyConfig): Promise<void> {
+    if (!this.trailingStops) return;
+    if (!config.positionTrailingEnabled) {
+      this.trailingStops.clear();
+      return;
+    }
+
+    // 出场单已成交/被撤/被合并的不再追踪
+    for (const key of this.trailingStops.keys()) {
+      const order = this.tracker.getOrder(key);
+      if (!order || !isOpenOrder(order)) this.trailingStops.untrack(key);
+    }
+    if (this.trailingStops.size() === 0) return;
+
+    let price: number;
+    try {
+      const ticker = await this.marketDataService.getTicker(config.symbol);
+      price = parseFloat(ticker.lastPr);
+    } catch (error) {
+      logger.debug('追踪止损获取行情失败', { error: String(error) });
+      return;
+    }
+    const atr = await fetchTrailingAtr(config, this.simulated);
+
+    for (const update of this.trailingStops.update(price, atr)) {
+      if (!update.triggered) {
+        this.emitEvent('TRAILING_STOP_MOVED', {
+          exitOrderId: update.key,
+          direction: update.direction,
+          peakPrice: update.peakPrice.toFixed(config.pricePrecision),
+          previousStopPrice: update.previousStopPrice.toFixed(config.pricePrecision),
+          stopPrice: update.stopPrice.toFixed(config.pricePrecision),
+        });
+        continue;
+      }
+      try {
+        await this.triggerTrailingStop(update, price, config);
+      } catch (error) {
+        logger.warn('追踪止损平仓失败，下轮重试', { exitOrderId: update.key, error: String(error) });
+      }
+    }
+  }
+
+  /**
+   * 追踪止损触发：撤出场限价单并市价平掉剩余数量
+   */
+  private async triggerTrailingStop(update: TrailingStopUpdate, price: number, config: ScalpingStrategyConfig): Promise<void> {
+    const exitOrder = this.tracker.getOrder(update.key);
+    if (!exitOrder || !isOpenOrder(exitOrder)) {
+      this.trailingStops?.untrack(update.key);
+      return;
+    }
+
+    const close = await this.closeExitAtMarket(exitOrder, price, config, 'trail');
+    if (!close) return;
+
+    this.emitEvent('TRAILING_STOP_TRIGGERED', {
+      exitOrderId: exitOrder.orderId,
+      closeOrderId: close.orderId,
+      direction: update.direction,
+      peakPrice: update.peakPrice.toFixed(config.pricePrecision),
+      stopPrice: update.stopPrice.toFixed(config.pricePrecision),
+      triggerPrice: price.toFixed(config.pricePrecision),
+      size: close.size,
+    });
+    logger.info(`${update.direction} 追踪止损触发，已市价平仓`, {
+      exitOrderId: exitOrder.orderId,
+      closeOrderId: close.orderId,
+      stopPrice: update.stopPrice,
+      triggerPrice: price,
+    });
+  }
+
+  /**
+   * 撤掉出场限价单后按剩余数量市价平仓；撤单前已成交的走正常出场流程
+   * @returns 市价平仓单；出场单已完全成交、撤单未生效（下轮重试）时返回 null
+   */
+  private async closeExitAtMarket(
+    exitOrder: TrackedOrder,
+    price: number,
+    config: ScalpingStrategyConfig,
+    tag: string
+  ): Promise<TrackedOrder | null> {
+    try {
+      await this.orderService.cancelOrder({ symbol: config.symbol, orderId: exitOrder.orderId });
+    } catch (error) {
+      logger.debug('撤出场单失败，以订单详情为准', { orderId: exitOrder.orderId, error: String(error) });
+    }
+    const detail = await this.orderService.getOrderDetail(config.symbol, exitOrder.orderId);
+
+    if (detail.state === 'filled') {
+      const confirmed = this.confirmOrderFilled(exitOrder.orderId, detail.priceAvg, detail.fee);
+      if (confirmed) this.handleExitFilled(confirmed);
+      return null;
+    }
+    if (detail.state === 'live' || detail.state === 'partially_filled') {
+      return null;
+    }
+    return this.settleCancelledExit(exitOrder, detail, price, config, tag);
+  }
+
+  /**
+   * 已撤出场单结算：已成交部分走正常出场记账，剩余数量市价平仓并沿用合并来源
+   * @returns 市价平仓单；无剩余数量时返回 null
+   */
+  private async settleCancelledExit(
+    exitOrder: TrackedOrder,
+    detail: UnifiedOrderDetail,
+    price: number,
+    config: ScalpingStrategyConfig,
+    tag: string
+  ): Promise<TrackedOrder | null> {
+    const filledQty = parseFloat(detail.filledQty) || 0;
+    if (filledQty > 0) {
+      const partial = this.tracker.markCancelledWithFill(exitOrder.orderId, detail.filledQty, detail.priceAvg, detail.fee);
+      if (partial) this.handleExitFilled(partial);
+    } else {
+      this.tracker.markCancelled(exitOrder.orderId);
+    }
+    this.persistenceService?.persistOrderStatusChange(exitOrder.orderId, 'cancelled', null, null);
+    this.trailingStops?.untrack(exitOrder.orderId);
+
+    const remaining = (parseFloat(exitOrder.size) - filledQty).toFixed(config.sizePrecision);
+    if (!(parseFloat(remaining) > 0)) return null;
+
+    const dir = this.getOrderDirection(exitOrder) || 'long';
+    const lineage = this.mergeEngine?.getLineage(exitOrder.orderId);
+    const close = await this.placeMarketClose(dir, remaining, exitOrder.linkedOrderId, price, config, tag, lineage);
+    this.mergeEngine?.inheritLineage(exitOrder.orderId, close.orderId);
+    return close;
+  }
+
+  /**
+   * 市价平仓单按出场单追踪（关联入场单），成交后走 handleExitFilled 记账
+   * 沿用合并来源时来源随订单落库
+   */
+  private async placeMarketClose(
+    dir: EntryDirection,
+    size: string,
+    entryOrderId: string | null,
+    price: number,
+    config: ScalpingStrategyConfig,
+    tag: string,
+    mergeLineage?: MergeLineageEntry[]
+  ): Promise<TrackedOrder> {
+    const closeSide = dir === 'long' ? 'sell' : 'buy';
+    const clientOid = `scalp_${config.symbol}_${dir}_${tag}_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const result = await this.orderService.placeOrder({
+      symbol: config.symbol,
+      size,
+      side: closeSide,
+      orderType: 'market',
+      tradeSide: config.tradingType === 'futures' && this.holdMode !== 'single_hold' ? 'close' : undefined,
+      reduceOnly: true,
+      clientOid,
+    });
+
+    const closeTracked: TrackedOrder = {
+      orderId: result.orderId,
+      clientOid,
+      side: closeSide,
+      price: price.toFixed(config.pricePrecision),
+      size,
+      status: 'pending',
+      linkedOrderId: entryOrderId,
+      direction: dir,
+      orderRole: 'exit',
+      createdAt: this.clock.now(),
+      filledAt: null,
+    };
+    this.tracker.addOrder(closeTracked);
+    this.persistenceService?.persistNewOrder(
+      closeTracked, config.symbol, config.productType || '', config.marginCoin || 'USDT', config.instanceId, mergeLineage
+    );
+    if (entryOrderId) {
+      this.tracker.linkOrders(entryOrderId, result.orderId);
+    }
+    return closeTracked;
+  }
+
+  /**
+   * 推断仓位 = 未成交的出场单剩余数量 + 部分成交中的入场单已成交数量
+   */
+  private getInferredPositions(): Record<EntryDirection, InferredPosition> {
+    const infer = (dir: EntryDirection): InferredPosition => {
+      const exitOrders = this.tracker.getPendingExitOrders(dir);
+      let size = exitOrders.reduce((sum, order) => sum + getRemainingSize(order), 0);
+      const activeEntry = this.tracker.getActiveEntryOrder(dir);
+      if (activeEntry?.status === 'partially_filled') {
+        size += parseFloat(activeEntry.filledSize || '0');
+      }
+      return { size, exitOrders };
+    };
+    return { long: infer('long'), short: infer('short') };
+  }
+
+  /**
+   * 资金费率保护：返回本轮停止开仓的方向，拦截状态变化时发出 FUNDING_GUARD_CHANGED
+   */
+  private async updateFundingGuard(config: ScalpingStrategyConfig): Promise<EntryDirection | null> {
+    const decision = await fetchFundingGuard(config, this.simulated, this.clock.now());
+    const blocked = decision?.blockedDirection ?? null;
+    if (blocked !== this.fundingBlockedDirection) {
+      logger.info('资金费率保护状态变化', { from: this.fundingBlockedDirection, to: blocked, reason: decision?.reason });
+      this.emitEvent('FUNDING_GUARD_CHANGED', {
+        active: blocked !== null,
+        direction: blocked ?? this.fundingBlockedDirection,
+        fundingRate: decision?.fundingRate ?? null,
+        nextFundingTime: decision?.nextFundingTime ?? null,
+        reason: decision?.reason ?? null,
+      });
+      this.fundingBlockedDirection = blocked;
+    }
+    return blocked;
+  }
+
+  /**
+   * 同步持仓的资金费结算到 PnL 账本（按间隔节流，账单按 billId 去重）
+   */
+  private async syncFundingPayments(config: ScalpingStrategyConfig): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastFundingSyncAt < FUNDING_SYNC_INTERVAL_MS) return;
+    this.lastFundingSyncAt = now;
+
+    try {
+      const payments = await this.accountService.getFundingPayments(config.symbol, this.startedAt || now);
+      for (const payment of payments) {
+        const entry = this.pnlLedger.recordFunding(payment);
+        if (!entry) continue;
+        this.realizedPnl += parseFloat(entry.funding);
+        this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, config.symbol);
+        this.emitEvent('FUNDING_SETTLED', {
+          billId: payment.billId,
+          symbol: payment.symbol,
+          amount: entry.funding,
+        });
+      }
+    } catch (error) {
+      logger.debug('同步资金费失败', { error: String(error) });
+    }
+  }
+
+  /**
+   * 确认订单成交：更新追踪状态并持久化
+   * 推送与 REST 对账共用，tracker 保证同一订单只确认一次
+   */
+  private confirmOrderFilled(orderId: string, avgFillPrice?: string, fee?: string): TrackedOrder | null {
+    const confirmed = this.tracker.confirmFilled(orderId, avgFillPrice, fee);
+    if (!confirmed) return null;
+
+    this.persistenceService?.persistOrderStatusChange(
+      orderId, 'filled', confirmed.filledAt || this.clock.now(), confirmed.linkedOrderId
+    );
+
+    if (this.isEntryOrder(confirmed)) {
+      // 入场成交，重置该方向的 post_only 被撤计数
+      const dir = this.getOrderDirection(confirmed);
+      if (dir) this.consecutivePostOnlyCancels.set(dir, 0);
+    }
+    return confirmed;
+  }
+
+  /**
+   * 主动撤销入场单
+   * 撤单后回查成交量：部分成交的入场单需为已成交部分挂出场单，否则该部分敞口无人平仓
+   */
+  private async cancelEntryOrder(order: TrackedOrder, config: ScalpingStrategyConfig): Promise<void> {
+    await this.orderService.cancelOrder({
+      symbol: config.symbol,
+      orderId: order.orderId,
+    });
+
+    let detail: UnifiedOrderDetail | null = null;
+    try {
+      detail = await this.orderService.getOrderDetail(config.symbol, order.orderId);
+    } catch (error) {
+      logger.warn('撤单后查询成交量失败，使用已记录进度', { orderId: order.orderId, error: String(error) });
+    }
+
+    const filledQty = detail ? detail.filledQty : (order.filledSize || '0');
+    if (!(parseFloat(filledQty) > 0)) {
+      this.tracker.markCancelled(order.orderId);
+      return;
+    }
+
+    const partial = this.tracker.markCancelledWithFill(order.orderId, filledQty, detail?.priceAvg, detail?.fee);
+    this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+    if (!partial) return;
+
+    this.handleEntryFilled(partial, config).catch(error => {
+      logger.error('部分成交入场单挂出场单失败', { orderId: partial.orderId, error: String(error) });
+    });
+  }
+
+  /**
+   * 撤销入场单，已成交部分直接市价平仓（不再挂出场限价单）
+   */
+  private async cancelEntryAndClose(
+    order: TrackedOrder,
+    dir: EntryDirection,
+    price: number,
+    config: ScalpingStrategyConfig
+  ): Promise<TrackedOrder | null> {
+    try {
+      await this.orderService.cancelOrder({ symbol: config.symbol, orderId: order.orderId });
+    } catch (error) {
+      logger.debug('撤入场单失败，以订单详情为准', { orderId: order.orderId, error: String(error) });
+    }
+    const detail = await this.orderService.getOrderDetail(config.symbol, order.orderId);
+    if (detail.state === 'live' || detail.state === 'partially_filled') {
+      throw new Error(`入场单 ${order.orderId} 撤单未生效`);
+    }
+
+    const filledQty = parseFloat(detail.filledQty) || 0;
+    if (!(filledQty > 0)) {
+      this.tracker.markCancelled(order.orderId);
+      this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+      return null;
+    }
+
+    if (detail.state === 'filled') {
+      this.confirmOrderFilled(order.orderId, detail.priceAvg, detail.fee);
+    } else {
+      this.tracker.markCancelledWithFill(order.orderId, detail.filledQty, detail.priceAvg, detail.fee);
+      this.persistenceService?.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+    }
+    const size = filledQty.toFixed(config.sizePrecision);
+    return this.placeMarketClose(dir, size, order.orderId, price, config, 'flat');
+  }
+
+  // ============================================================
+  // 订单推送
+  // ============================================================
+
+  private subscribeOrderUpdates(symbol: string): void {
+    if (!this.orderUpdates || this.unsubscribeOrderUpdates) return;
+    this.unsubscribeOrderUpdates = this.orderUpdates.subscribe(
+      symbol,
+      update => this.handleOrderUpdate(update)
+    );
+  }
+
+  private unsubscribeFromOrderUpdates(): void {
+    if (this.unsubscribeOrderUpdates) {
+      this.unsubscribeOrderUpdates();
+      this.unsubscribeOrderUpdates = null;
+    }
+  }
+
+  /**
+   * 处理订单推送：部分成交记录进度，完全成交立即走入场/出场处理
+   * 撤单推送交由 Loop B 对账处理（含 post_only 被撤计数）
+   */
+  private handleOrderUpdate(update: UnifiedOrderUpdate): void {
+    if (this.status !== 'RUNNING') return;
+    const tracked = this.tracker.getOrder(update.orderId);
+    if (!tracked || !isOpenOrder(tracked)) return;
+    this.tracker.addFillFee(update.orderId, update.fillFee);
+
+    if (update.state === 'partially_filled') {
+      this.tracker.recordPartialFill(update.orderId, update.filledQty, update.priceAvg);
+      logger.debug('订单部分成交（推送）', {
+        orderId: update.orderId,
+        filledQty: update.filledQty,
+        size: update.size,
+      });
+      return;
+    }
+
+    if (update.state !== 'filled') return;
+
+    const confirmed = this.confirmOrderFilled(update.orderId, update.priceAvg);
+    if (!confirmed) return;
+    logger.info('订单成交（推送）', {
+      orderId: confirmed.orderId,
+      side: confirmed.side,
+      priceAvg: update.priceAvg,
+      role: confirmed.orderRole,
+    });
+
+    const config = this.configManager!.getScalpingConfig();
+    if (this.isEntryOrder(confirmed)) {
+      this.handleEntryFilled(confirmed, config).catch(error => {
+        logger.error('推送入场成交处理失败', { orderId: confirmed.orderId, error: String(error) });
+      });
+    } else {
+      this.handleExitFilled(confirmed);
+    }
+  }
+
   /**
    * 入场成交处理（方向感知）
    */
   private async handleEntryFilled(entryOrder: TrackedOrder, config: ScalpingStrategyConfig): Promise<void> {
-    const entryPrice = parseFloat(entryOrder.price);
+    const entryPrice = parseFloat(getFillPrice(entryOrder));
+    const exitSize = getFilledSize(entryOrder);
     const dir = this.getOrderDirection(entryOrder) || 'long';
 
     // 动态价差
@@ -948,9 +1662,9 @@ export class ScalpingStrategyEngine implements IStrategy {
     await this.sleep(5000);
 
     // 验证持仓并纠正 holdMode
-    if (config.tradingType === 'futures' && config.productType) {
+    if (config.tradingType === 'futures' && config.productType && !this.simulated) {
       try {
-        const futuresAccountSvc = new FuturesAccountService();
+        const futuresAccountSvc = new FuturesAccountService(config.accountId);
         const positions = await futuresAccountSvc.getPositions(
           config.productType, config.marginCoin || 'USDT'
         );
@@ -985,7 +1699,7 @@ export class ScalpingStrategyEngine implements IStrategy {
     let holdModeSwitched = false;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      const clientOid = `scalp_${config.symbol}_${dir}_exit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const clientOid = `scalp_${config.symbol}_${dir}_exit_${this.clock.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
       let exitTradeSide: 'open' | 'close' | undefined;
       let useForce: string = 'post_only';
@@ -1003,12 +1717,13 @@ export class ScalpingStrategyEngine implements IStrategy {
       try {
         const result = await this.orderService.placeOrder({
           symbol: config.symbol,
-          size: entryOrder.size,
+          size: exitSize,
           side: exitSide,
           orderType: attempt === maxRetries ? 'market' : 'limit',
           price: attempt === maxRetries ? undefined : exitPrice,
           force: useForce,
           tradeSide: exitTradeSide,
+          reduceOnly: true,
           clientOid,
         });
 
@@ -1017,18 +1732,21 @@ export class ScalpingStrategyEngine implements IStrategy {
           clientOid,
           side: exitSide,
           price: exitPrice,
-          size: entryOrder.size,
+          size: exitSize,
           status: 'pending',
           linkedOrderId: entryOrder.orderId,
           direction: dir,
           orderRole: 'exit',
-          createdAt: Date.now(),
+          createdAt: this.clock.now(),
           filledAt: null,
         };
         this.tracker.addOrder(exitTracked);
-        this.persistenceService.persistNewOrder(exitTracked, config.symbol, config.productType || '', config.marginCoin || 'USDT');
+        this.persistenceService?.persistNewOrder(exitTracked, config.symbol, config.productType || '', config.marginCoin || 'USDT', config.instanceId);
 
         this.tracker.linkOrders(entryOrder.orderId, result.orderId);
+        if (config.positionTrailingEnabled && attempt < maxRetries) {
+          this.trailingStops?.track(result.orderId, dir, entryPrice, exitSize);
+        }
         this.emitEvent('SELL_ORDER_PLACED', {
           orderId: result.orderId,
           entryOrderId: entryOrder.orderId,
@@ -1036,7 +1754,7 @@ export class ScalpingStrategyEngine implements IStrategy {
           exitPrice,
           exitSide,
           direction: dir,
-          size: entryOrder.size,
+          size: exitSize,
           attempt,
           usedTradeSide: exitTradeSide,
           orderType: attempt === maxRetries ? 'market' : 'limit',
@@ -1113,46 +1831,45 @@ export class ScalpingStrategyEngine implements IStrategy {
 
   /**
    * 出场成交处理（方向感知 PnL）
+   * 合并单没有关联入场单，按合并来源合成入场单记账
    */
   private handleExitFilled(exitOrder: TrackedOrder): void {
     this.tradeCount++;
+    this.trailingStops?.untrack(exitOrder.orderId);
     const dir = this.getOrderDirection(exitOrder) || 'long';
+    const symbol = this.configManager?.getConfig().symbol || '';
 
-    const entryOrder = exitOrder.linkedOrderId
+    const linkedEntry = exitOrder.linkedOrderId
       ? this.tracker.getOrder(exitOrder.linkedOrderId)
       : null;
+    const mergedFrom = linkedEntry ? [] : (this.mergeEngine?.getLineage(exitOrder.orderId) || []);
+    const entryOrder = linkedEntry || this.mergeEngine?.buildMergedEntry(exitOrder) || null;
+    // 部分成交后被撤的合并单，来源由改挂的市价平仓单继承
+    if (exitOrder.status === 'filled') {
+      this.mergeEngine?.releaseLineage(exitOrder.orderId);
+    }
 
     if (entryOrder) {
-      const entryPrice = parseFloat(entryOrder.price);
-      const exitPrice = parseFloat(exitOrder.price);
-      const size = parseFloat(exitOrder.size);
-
-      // PnL: long = (exit-entry)*size, short = (entry-exit)*size
-      let pnl: number;
-      if (dir === 'long') {
-        pnl = (exitPrice - entryPrice) * size;
-      } else {
-        pnl = (entryPrice - exitPrice) * size;
-      }
-
-      const fee = StrategyConfigManager.estimateFeeUsdt(
-        (exitPrice * size).toFixed(2)
-      ) * 2;
-      const netPnl = pnl - fee;
+      const entry = this.pnlLedger.recordTrade(dir, entryOrder, exitOrder);
+      const netPnl = parseFloat(entry.netPnl);
 
       this.realizedPnl += netPnl;
       this.riskController?.recordPnl(netPnl);
-      this.persistenceService.persistRealizedPnl(netPnl, fee, netPnl > 0);
+      this.persistenceService?.persistLedgerEntry(entry, this.instanceId, this.strategyType, symbol);
+      this.tradeJournal?.record(buildRoundTrip(
+        { instanceId: this.instanceId, strategyType: this.strategyType, symbol },
+        dir, entryOrder, exitOrder, entry, mergedFrom
+      ));
 
       this.emitEvent('SELL_ORDER_FILLED', {
         exitOrderId: exitOrder.orderId,
         entryOrderId: entryOrder.orderId,
-        entryPrice: entryOrder.price,
-        exitPrice: exitOrder.price,
-        size: exitOrder.size,
+        entryPrice: entry.entryPrice,
+        exitPrice: entry.exitPrice,
+        size: entry.size,
         direction: dir,
-        grossPnl: pnl.toFixed(4),
-        fee: fee.toFixed(4),
+        grossPnl: parseFloat(entry.grossPnl).toFixed(4),
+        fee: parseFloat(entry.fee).toFixed(4),
         netPnl: netPnl.toFixed(4),
       });
 
@@ -1196,6 +1913,112 @@ export class ScalpingStrategyEngine implements IStrategy {
     return 'long';
   }
 
+  // ============================================================
+  // 启动对账
+  // ============================================================
+
+  /**
+   * 启动对账：恢复仍在挂单的订单到 tracker，同步 DB 中停机期间的状态变化
+   * 无法核实时抛出 STRATEGY_RECONCILE_FAILED，策略不启动
+   */
+  private async reconcileOnStart(config: ScalpingStrategyConfig): Promise<StartupReconcileResult | null> {
+    // 本地撮合（纸面/回测）不持久化订单，无需对账
+    if (!this.persistenceService) return null;
+
+    const clientOidPrefix = `scalp_${config.symbol}_`;
+    let persisted: TrackedOrder[];
+    try {
+      persisted = await this.persistenceService.loadPendingOrders(config.symbol, config.productType || '');
+    } catch (error) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：加载未结订单失败 ${String(error)}`,
+        null,
+        503
+      );
+    }
+
+    const ownOrders = persisted
+      .filter(o => o.clientOid.startsWith(clientOidPrefix))
+      .map(o => ({ ...o, orderRole: o.clientOid.includes('_entry_') ? 'entry' as const : 'exit' as const }));
+
+    const reconciler = new StartupReconciler(this.orderService, this.clock);
+    const result = await reconciler.reconcile(config.symbol, ownOrders, clientOidPrefix);
+    this.lastReconcileReport = result.report;
+
+    if (!result.report.ok) {
+      throw new AppError(
+        ErrorCode.STRATEGY_RECONCILE_FAILED,
+        `启动对账失败，策略未启动：${result.report.reason}`,
+        result.report,
+        409
+      );
+    }
+
+    for (const order of result.filled) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'filled', order.filledAt, order.linkedOrderId);
+    }
+    for (const order of [...result.cancelledWithFill, ...result.cancelled]) {
+      this.persistenceService.persistOrderStatusChange(order.orderId, 'cancelled', null, null);
+    }
+
+    // 出场单关联的入场单已是终态（不在未结订单中），找回后出场成交才能计算 PnL
+    const linkedEntryIds = [...result.live, ...result.filled]
+      .filter(o => o.orderRole === 'exit' && o.linkedOrderId)
+      .map(o => o.linkedOrderId as string);
+    try {
+      const linkedEntries = await this.persistenceService.loadOrdersByIds(linkedEntryIds);
+      for (const entry of linkedEntries) {
+        this.tracker.addOrder({ ...entry, orderRole: 'entry' });
+      }
+    } catch (error) {
+      logger.warn('加载关联入场单失败，相关出场成交将不计算 PnL', { error: String(error) });
+    }
+
+    // 合并出场单（及其改挂的平仓单）载回来源，成交时才能合成入场单记账
+    const exitIds = [...result.live, ...result.filled]
+      .filter(o => o.orderRole === 'exit' && !o.linkedOrderId)
+      .map(o => o.orderId);
+    try {
+      const lineage = await this.persistenceService.loadMergeLineage(exitIds);
+      for (const [orderId, entries] of lineage) {
+        this.mergeEngine!.restoreLineage(orderId, entries);
+      }
+    } catch (error) {
+      logger.warn('加载合并来源失败，相关合并单成交将不计算 PnL', { error: String(error) });
+    }
+
+    for (const order of result.live) {
+      this.tracker.addOrder(order);
+    }
+
+    return result;
+  }
+
+  /**
+   * 补处理停机期间的成交：入场单（含部分成交后被撤）挂出场单，出场单结算 PnL
+   */
+  private async applyRecoveredFills(recovered: StartupReconcileResult, config: ScalpingStrategyConfig): Promise<void> {
+    const entries = [...recovered.filled, ...recovered.cancelledWithFill].filter(o => o.orderRole === 'entry');
+    const exits = recovered.filled.filter(o => o.orderRole === 'exit');
+
+    for (const order of [...entries, ...exits]) {
+      this.tracker.addOrder(order);
+    }
+
+    for (const entryOrder of entries) {
+      try {
+        await this.handleEntryFilled(entryOrder, config);
+      } catch (error) {
+        logger.error('补挂停机期间成交入场单的出场单失败', { orderId: entryOrder.orderId, error: String(error) });
+      }
+    }
+
+    for (const exitOrder of exits) {
+      this.handleExitFilled(exitOrder);
+    }
+  }
+
   // ============================================================
   // 动态价差计算
   // ============================================================
@@ -1268,6 +2091,10 @@ export class ScalpingStrategyEngine implements IStrategy {
   // ============================================================
 
   private getMacroSpreadAdjustment(): { multiplier: number; direction: string; riskScore: number } {
+    // 模拟环境不引入实时宏观信号，保证回放结果可复现
+    if (this.simulated) {
+      return { multiplier: 1.0, direction: 'neutral', riskScore: 50 };
+    }
     try {
       return PolymarketSignalService.getInstance().getSpreadAdjustment();
     } catch {
@@ -1285,7 +2112,7 @@ export class ScalpingStrategyEngine implements IStrategy {
   }
 
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise(resolve => this.clock.setTimeout(resolve, ms));
   }
 
   private checkFeeCoverage(config: ScalpingStrategyConfig, spec: ContractSpecInfo): void {
@@ -1379,7 +2206,7 @@ export class ScalpingStrategyEngine implements IStrategy {
         consecutiveErrors: this.consecutiveErrors,
       });
 
-      setTimeout(() => {
+      this.clock.setTimeout(() => {
         if (this.status === 'ERROR') {
           logger.info('尝试从 ERROR 状态恢复');
           this.status = 'RUNNING';
@@ -1394,7 +2221,7 @@ export class ScalpingStrategyEngine implements IStrategy {
   private emitEvent(type: StrategyEventType, data: Record<string, unknown>): void {
     const event: StrategyEvent = {
       type,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       data,
     };
     this.events.push(event);
@@ -1402,5 +2229,17 @@ export class ScalpingStrategyEngine implements IStrategy {
     if (this.events.length > this.maxEvents) {
       this.events = this.events.slice(-this.maxEvents);
     }
+
+    this.persistenceService?.persistEvent(
+      event, this.instanceId, this.strategyType, this.lastConfig.symbol, [this.lastConfig.accountId]
+    );
+
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('事件监听器执行失败', { type, error: String(error) });
+      }
+    }
   }
 }
@@ -0,0 +1,163 @@
+/**
+ * 启动对账器
+ * 策略启动（含服务重启后的自动恢复）时，将 DB 中的未结订单与交易所挂单列表、订单历史逐一核对：
+ * 仍在挂单的恢复追踪，停机期间成交/撤销的交由引擎补处理。
+ * 存在无法核实的订单（查询失败、交易所有未记录的本策略挂单）时判定为不可恢复，引擎应放弃启动并保持交易所现状。
+ */
+
+import { IOrderService } from '../services/interfaces/i-order.service';
+import { TrackedOrder, OrderReconcileReport } from '../types/strategy.types';
+import { UnifiedOrderDetail } from '../types/trading.types';
+import { Clock, systemClock } from '../utils/clock';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('startup-reconciler');
+
+export interface StartupReconcileResult {
+  /** 仍在交易所挂单（部分成交的已写入 filledSize） */
+  live: TrackedOrder[];
+  /** 停机期间完全成交（已写入成交数量/均价/手续费） */
+  filled: TrackedOrder[];
+  /** 停机期间部分成交后被撤（status = cancelled，filledSize 为已成交部分） */
+  cancelledWithFill: TrackedOrder[];
+  /** 停机期间被撤且无成交，或交易所已无此订单 */
+  cancelled: TrackedOrder[];
+  report: OrderReconcileReport;
+}
+
+export class StartupReconciler {
+  constructor(
+    private readonly orderService: IOrderService,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * @param persisted DB 中的未结订单
+   * @param clientOidPrefix 本策略下单使用的 clientOid 前缀，用于识别交易所上未记录的本策略挂单
+   */
+  async reconcile(symbol: string, persisted: TrackedOrder[], clientOidPrefix: string): Promise<StartupReconcileResult> {
+    const report: OrderReconcileReport = {
+      checkedAt: this.clock.now(),
+      persistedOrders: persisted.length,
+      live: 0,
+      filledWhileDown: 0,
+      cancelledWhileDown: 0,
+      unknownExchangeOrders: [],
+      unmappedOrders: [],
+      queryErrors: [],
+      ok: true,
+      reason: null,
+    };
+    const result: StartupReconcileResult = { live: [], filled: [], cancelledWithFill: [], cancelled: [], report };
+
+    let exchangePending;
+    try {
+      exchangePending = await this.orderService.getPendingOrders(symbol);
+    } catch (error) {
+      report.ok = false;
+      report.reason = `查询交易所挂单失败: ${String(error)}`;
+      return result;
+    }
+
+    const pendingById = new Map(exchangePending.map(o => [o.orderId, o]));
+    const persistedIds = new Set(persisted.map(o => o.orderId));
+
+    for (const stored of persisted) {
+      const order: TrackedOrder = { ...stored };
+      const pending = pendingById.get(order.orderId);
+
+      if (pending) {
+        this.applyLiveProgress(order, pending.filledQty);
+        result.live.push(order);
+        continue;
+      }
+
+      try {
+        const detail = await this.orderService.getOrderDetail(symbol, order.orderId);
+        this.classify(order, detail, result);
+      } catch (error) {
+        const errMsg = String(error);
+        if (errMsg.includes('40109')) {
+          // 40109 = 订单不存在（未成功提交或已过期清理）
+          order.status = 'cancelled';
+          result.cancelled.push(order);
+        } else {
+          report.queryErrors.push({ orderId: order.orderId, error: errMsg });
+        }
+      }
+    }
+
+    report.unknownExchangeOrders = exchangePending
+      .filter(o => o.clientOid.startsWith(clientOidPrefix) && !persistedIds.has(o.orderId))
+      .map(o => o.orderId);
+
+    report.live = result.live.length;
+    report.filledWhileDown = result.filled.length;
+    report.cancelledWhileDown = result.cancelledWithFill.length + result.cancelled.length;
+    this.finalize(report);
+
+    logger.info('启动对账完成', { symbol, ...report, queryErrors: report.queryErrors.length });
+    return result;
+  }
+
+  /**
+   * 标记无法还原到策略状态的订单，并重新判定对账结果
+   */
+  markUnmapped(report: OrderReconcileReport, orderIds: string[]): void {
+    report.unmappedOrders.push(...orderIds);
+    this.finalize(report);
+  }
+
+  private classify(order: TrackedOrder, detail: UnifiedOrderDetail, result: StartupReconcileResult): void {
+    const filledQty = parseFloat(detail.filledQty);
+
+    if (detail.state === 'live' || detail.state === 'partially_filled') {
+      // 挂单列表查询后才变化的订单，按挂单处理
+      this.applyLiveProgress(order, detail.filledQty);
+      result.live.push(order);
+      return;
+    }
+
+    if (filledQty > 0) {
+      order.filledSize = detail.filledQty;
+      if (parseFloat(detail.priceAvg) > 0) order.avgFillPrice = detail.priceAvg;
+      if (parseFloat(detail.fee) > 0) order.fee = detail.fee;
+    }
+
+    if (detail.state === 'filled') {
+      order.status = 'filled';
+      order.filledAt = order.filledAt || this.clock.now();
+      result.filled.push(order);
+    } else if (filledQty > 0) {
+      order.status = 'cancelled';
+      result.cancelledWithFill.push(order);
+    } else {
+      order.status = 'cancelled';
+      result.cancelled.push(order);
+    }
+  }
+
+  private applyLiveProgress(order: TrackedOrder, filledQty: string): void {
+    if (parseFloat(filledQty) > 0) {
+      order.status = 'partially_filled';
+      order.filledSize = filledQty;
+    } else {
+      order.status = 'pending';
+    }
+  }
+
+  private finalize(report: OrderReconcileReport): void {
+    const problems: string[] = [];
+    if (report.queryErrors.length > 0) {
+      problems.push(`${report.queryErrors.length} 个订单状态查询失败`);
+    }
+    if (report.unknownExchangeOrders.length > 0) {
+      problems.push(`交易所有 ${report.unknownExchangeOrders.length} 个本策略挂单未记录在 DB`);
+    }
+    if (report.unmappedOrders.length > 0) {
+      problems.push(`${report.unmappedOrders.length} 个订单无法还原到当前策略状态`);
+    }
+    report.ok = problems.length === 0;
+    report.reason = report.ok ? null : problems.join('；');
+  }
+}
@@ -1,31 +1,39 @@
 /**
  * 策略配置管理器
  * 负责默认配置、参数验证、运行时热更新
- * 支持 BaseStrategyConfig 和各策略专属配置
+ * 支持 BaseStrategyConfig 和各策略专属配置，默认配置与专属校验来自策略注册表
  */
 
 import {
   BaseStrategyConfig,
   ScalpingStrategyConfig,
   GridStrategyConfig,
+  DcaStrategyConfig,
+  BasisStrategyConfig,
   AnyStrategyConfig,
-  DEFAULT_SCALPING_CONFIG,
-  DEFAULT_GRID_CONFIG,
+  PositionAutoCorrectMode,
+  TrailingDistanceMode,
+  FundingGuardMode,
 } from '../types/strategy.types';
 import { AppError, ErrorCode } from '../utils/errors';
 import { createLogger } from '../utils/logger';
+import { StrategyRegistry } from './strategy-registry';
 
 const logger = createLogger('config-manager');
 
 /** Maker 手续费率（Bitget 默认 0.02%） */
 const MAKER_FEE_RATE = 0.0002;
 
+const POSITION_AUTO_CORRECT_MODES: PositionAutoCorrectMode[] = ['off', 'close_excess', 'sync'];
+const TRAILING_DISTANCE_MODES: TrailingDistanceMode[] = ['percent', 'atr'];
+const FUNDING_GUARD_MODES: FundingGuardMode[] = ['pause', 'bias'];
+
 export class StrategyConfigManager {
   private config: AnyStrategyConfig;
 
-  constructor(overrides?: Partial<AnyStrategyConfig>) {
+  constructor(overrides?: Partial<BaseStrategyConfig>) {
     const strategyType = overrides?.strategyType || 'scalping';
-    const defaults = strategyType === 'grid' ? DEFAULT_GRID_CONFIG : DEFAULT_SCALPING_CONFIG;
+    const { defaults } = StrategyRegistry.getInstance().getDefinition(strategyType);
     this.config = { ...defaults, ...overrides } as AnyStrategyConfig;
     this.validate();
   }
@@ -58,6 +66,30 @@ export class StrategyConfigManager {
     return { ...this.config } as GridStrategyConfig;
   }
 
+  getDcaConfig(): DcaStrategyConfig {
+    if (this.config.strategyType !== 'dca') {
+      throw new AppError(
+        ErrorCode.STRATEGY_CONFIG_INVALID,
+        '当前策略不是 DCA 类型',
+        { actual: this.config.strategyType },
+        400
+      );
+    }
+    return { ...this.config } as DcaStrategyConfig;
+  }
+
+  getBasisConfig(): BasisStrategyConfig {
+    if (this.config.strategyType !== 'basis') {
+      throw new AppError(
+        ErrorCode.STRATEGY_CONFIG_INVALID,
+        '当前策略不是期现套利类型',
+        { actual: this.config.strategyType },
+        400
+      );
+    }
+    return { ...this.config } as BasisStrategyConfig;
+  }
+
   /**
    * 运行时热更新配置（部分字段）
    */
@@ -65,6 +97,7 @@ export class StrategyConfigManager {
     // 禁止运行时更改的字段
     const immutableKeys: Array<keyof BaseStrategyConfig> = [
       'symbol', 'productType', 'marginMode', 'marginCoin', 'strategyType', 'tradingType', 'instanceId',
+      'paperTrading', 'paperInitialBalance',
     ];
     for (const key of immutableKeys) {
       if (key in changes) {
@@ -144,36 +177,57 @@ export class StrategyConfigManager {
       errors.push('pricePrecision 必须在 0-8 之间');
     }
 
-    // 剥头皮专属验证
-    if (c.strategyType === 'scalping') {
-      const sc = c as ScalpingStrategyConfig;
-      const priceSpread = parseFloat(sc.priceSpread);
-      if (isNaN(priceSpread) || priceSpread <= 0) {
-        errors.push('priceSpread 必须大于 0');
-      }
-      if (sc.maxPendingOrders < 1 || sc.maxPendingOrders > 500) {
-        errors.push('maxPendingOrders 必须在 1-500 之间');
+    if (c.exchangeStopLossEnabled) {
+      if (c.tradingType === 'spot') {
+        errors.push('exchangeStopLossEnabled 仅支持合约');
       }
-      if (sc.mergeThreshold < 2 || sc.mergeThreshold > sc.maxPendingOrders) {
-        errors.push('mergeThreshold 必须在 2 到 maxPendingOrders 之间');
+      const percent = c.exchangeStopLossPercent ?? c.stopLossPercent;
+      if (!(percent > 0 && percent < 100)) {
+        errors.push('exchangeStopLossPercent 必须在 (0, 100) 之间');
       }
     }
 
-    // 网格专属验证
-    if (c.strategyType === 'grid') {
-      const gc = c as GridStrategyConfig;
-      if (gc.gridCount < 2 || gc.gridCount > 200) {
-        errors.push('gridCount 必须在 2-200 之间');
-      }
-      // upperPrice/lowerPrice 可以在启动时自动计算，此处只做基础校验
-      const upper = parseFloat(gc.upperPrice);
-      const lower = parseFloat(gc.lowerPrice);
-      if (upper !== 0 && lower !== 0) {
-        if (upper <= lower) {
-          errors.push('upperPrice 必须大于 lowerPrice');
-        }
-      }
+    if (c.positionCheckIntervalMs !== undefined && !(c.positionCheckIntervalMs >= 0)) {
+      errors.push('positionCheckIntervalMs 不能为负数');
+    }
+    if (
+      c.positionDriftTolerancePercent !== undefined &&
+      !(c.positionDriftTolerancePercent >= 0 && c.positionDriftTolerancePercent < 100)
+    ) {
+      errors.push('positionDriftTolerancePercent 必须在 [0, 100) 之间');
+    }
+    if (c.positionAutoCorrect !== undefined && !POSITION_AUTO_CORRECT_MODES.includes(c.positionAutoCorrect)) {
+      errors.push(`positionAutoCorrect 必须是 ${POSITION_AUTO_CORRECT_MODES.join('/')} 之一`);
+    }
+
+    if (c.positionTrailingMode !== undefined && !TRAILING_DISTANCE_MODES.includes(c.positionTrailingMode)) {
+      errors.push(`positionTrailingMode 必须是 ${TRAILING_DISTANCE_MODES.join('/')} 之一`);
     }
+    if (
+      c.positionTrailingPercent !== undefined &&
+      !(c.positionTrailingPercent > 0 && c.positionTrailingPercent < 100)
+    ) {
+      errors.push('positionTrailingPercent 必须在 (0, 100) 之间');
+    }
+    if (c.positionTrailingAtrMultiplier !== undefined && !(c.positionTrailingAtrMultiplier > 0)) {
+      errors.push('positionTrailingAtrMultiplier 必须大于 0');
+    }
+
+    if (c.fundingGuardEnabled && c.tradingType === 'spot') {
+      errors.push('fundingGuardEnabled 仅支持合约');
+    }
+    if (c.fundingGuardMode !== undefined && !FUNDING_GUARD_MODES.includes(c.fundingGuardMode)) {
+      errors.push(`fundingGuardMode 必须是 ${FUNDING_GUARD_MODES.join('/')} 之一`);
+    }
+    if (c.fundingGuardThresholdPercent !== undefined && !(c.fundingGuardThresholdPercent >= 0)) {
+      errors.push('fundingGuardThresholdPercent 不能为负数');
+    }
+    if (c.fundingGuardWindowMinutes !== undefined && !(c.fundingGuardWindowMinutes > 0)) {
+      errors.push('fundingGuardWindowMinutes 必须大于 0');
+    }
+
+    // 策略专属验证（字段描述 + 跨字段规则，见各策略定义）
+    errors.push(...StrategyRegistry.getInstance().validateConfig(c));
 
     if (errors.length > 0) {
       throw new AppError(
@@ -1,25 +1,49 @@
 /**
  * 策略管理器（Singleton）
- * 维护策略实例注册表，管理生命周期
- * 初期限制：仅一个活跃实例
+ * 维护策略实例注册表（按 instanceId 索引），管理多实例并发的生命周期
+ * 同一交易账户内，同一交易对 + 交易类型同时只允许一个运行中的实例，避免互相干扰挂单
  */
 
 import { IStrategy } from './interfaces/i-strategy';
 import { ScalpingStrategyEngine } from './scalping-strategy.engine';
-import { GridStrategyEngine } from './grid-strategy.engine';
+import { StrategyRegistry } from './strategy-registry';
 import { StrategyType, TradingType } from '../types/trading.types';
-import { BaseStrategyConfig, AnyStrategyConfig, StrategyState } from '../types/strategy.types';
+import {
+  BaseStrategyConfig,
+  AnyStrategyConfig,
+  StrategyState,
+  StrategyResumeReport,
+  OrderReconcileReport,
+  StrategyPositionView,
+} from '../types/strategy.types';
 import { createTradingServices, TradingServices } from '../services/trading-service.factory';
 import { ProductType, MarginMode } from '../types/futures.types';
 import { AppError, ErrorCode } from '../utils/errors';
 import { PolymarketSignalService } from '../services/polymarket-signal.service';
+import { StrategyStreamService } from '../services/strategy-stream.service';
+import { StrategyPersistenceService } from '../services/strategy-persistence.service';
+import { NotificationService } from '../services/notification.service';
+import { BitgetAccountService } from '../services/bitget-account.service';
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('strategy-manager');
 
+/** 启动中实例占用的账户 + 交易对（纸面交易不占用交易对） */
+interface PendingStart {
+  symbol: string | null;
+  tradingType: TradingType;
+  accountId: string;
+}
+
 export class StrategyManager {
   private static instance: StrategyManager | null = null;
-  private activeStrategy: IStrategy | null = null;
+  /** 实例注册表，Map 插入顺序即最近启动顺序 */
+  private strategies: Map<string, IStrategy> = new Map();
+  /** 已通过检查、start() 尚未完成的实例，注册或失败后释放，避免并发启动同时通过冲突检查 */
+  private pendingStarts: Map<string, PendingStart> = new Map();
+  /** 最近一次服务启动时的实例恢复结果 */
+  private resumeReports: StrategyResumeReport[] = [];
 
   private constructor() {}
 
@@ -32,32 +56,57 @@ export class StrategyManager {
 
   /**
    * 创建并启动策略
+   * 指定的 instanceId 已存在且已停止时，以其原配置为基础重新创建
    */
   async createAndStart(config?: Partial<AnyStrategyConfig>): Promise<IStrategy> {
-    if (this.activeStrategy) {
-      const status = this.activeStrategy.getStatus();
-      if (status === 'RUNNING' || status === 'STARTING') {
-        throw new AppError(
-          ErrorCode.STRATEGY_ALREADY_RUNNING,
-          '已有策略在运行中，请先停止',
-          { currentType: this.activeStrategy.strategyType, status },
-          400
-        );
-      }
+    const existing = config?.instanceId ? this.strategies.get(config.instanceId) : undefined;
+    if (existing && this.isActive(existing)) {
+      throw new AppError(
+        ErrorCode.STRATEGY_ALREADY_RUNNING,
+        `策略实例 ${existing.instanceId} 已在运行中，请先停止`,
+        { instanceId: existing.instanceId, status: existing.getStatus() },
+        400
+      );
     }
 
-    const strategyType: StrategyType = config?.strategyType || 'scalping';
-    const tradingType: TradingType = config?.tradingType || 'futures';
-    const instanceId = config?.instanceId || `${strategyType}_${tradingType}_${Date.now()}`;
+    const merged: Partial<AnyStrategyConfig> = {
+      ...(existing?.getState().config || {}),
+      ...config,
+    } as Partial<AnyStrategyConfig>;
+
+    const strategyType: StrategyType = merged.strategyType || 'scalping';
+    const tradingType: TradingType = merged.tradingType || 'futures';
+    const instanceId = merged.instanceId || `${strategyType}_${tradingType}_${Date.now()}`;
+
+    const paperTrading = merged.paperTrading === true;
+    const accountId = merged.accountId || undefined;
+
+    if (!BitgetAccountService.getInstance().exists(accountId)) {
+      throw new AppError(
+        ErrorCode.BITGET_ACCOUNT_NOT_FOUND,
+        `交易账户不存在: ${accountId}`,
+        { instanceId, accountId },
+        404
+      );
+    }
 
-    logger.info('创建策略', { strategyType, tradingType, instanceId });
+    logger.info('创建策略', { strategyType, tradingType, instanceId, accountId, paperTrading });
 
-    // 创建交易服务组合
+    // 创建交易服务组合（纸面交易在本地撮合，不提交到交易所）
     const services = createTradingServices({
       tradingType,
-      productType: config?.productType as ProductType,
-      marginMode: config?.marginMode as MarginMode,
-      marginCoin: config?.marginCoin,
+      productType: merged.productType as ProductType,
+      marginMode: merged.marginMode as MarginMode,
+      marginCoin: merged.marginCoin,
+      useWebSocket: merged.useWebSocket,
+      symbol: merged.symbol,
+      accountId,
+      paper: paperTrading
+        ? {
+          initialBalance: merged.paperInitialBalance,
+          leverage: parseFloat(merged.leverage || '') || 1,
+        }
+        : undefined,
     });
 
     // 创建策略实例
@@ -68,18 +117,44 @@ export class StrategyManager {
       await strategy.loadLastConfig();
     }
 
-    // 启动
-    await strategy.start({
-      ...config,
-      strategyType,
-      tradingType,
-      instanceId,
-    } as BaseStrategyConfig);
+    // 未显式指定交易对时，以实例将要使用的配置为准
+    const symbol = merged.symbol || strategy.getState().config?.symbol;
+    this.reserveStart(instanceId, paperTrading ? null : symbol || null, tradingType, accountId);
+
+    // 启动前接入实时推送与通知，订阅方才能收到 STRATEGY_STARTED
+    const stream = StrategyStreamService.getInstance();
+    stream.attach(strategy, accountId);
+    const unwatch = NotificationService.getInstance().watch(strategy);
+    try {
+      await strategy.start({
+        ...merged,
+        strategyType,
+        tradingType,
+        instanceId,
+      } as BaseStrategyConfig);
+    } catch (error) {
+      // 启动失败的实例不进入注册表，释放占用、取消其通知监听并恢复原实例的推送
+      this.pendingStarts.delete(instanceId);
+      unwatch();
+      if (existing) {
+        stream.attach(existing);
+      } else {
+        stream.detach(instanceId);
+      }
+      throw error;
+    }
+
+    // 重新插入以保持"最近启动"顺序
+    this.strategies.delete(instanceId);
+    this.strategies.set(instanceId, strategy);
+    this.pendingStarts.delete(instanceId);
 
-    this.activeStrategy = strategy;
+    // 记录运行状态，服务重启后据此恢复（纸面交易的本地撮合状态无法恢复，不记录）
+    if (!paperTrading) {
+      this.trackRunState(strategy);
+    }
 
     // 自动填充 Polymarket 监控列表（后台执行，不阻塞策略启动）
-    const symbol = config?.symbol;
     if (symbol) {
       const polyService = PolymarketSignalService.getInstance();
       polyService.autoPopulateWatchList(symbol).catch(err => {
@@ -91,38 +166,232 @@ export class StrategyManager {
   }
 
   /**
-   * 获取当前活跃策略
+   * 按 instanceId 获取策略实例
+   */
+  getStrategy(instanceId: string): IStrategy | null {
+    return this.strategies.get(instanceId) || null;
+  }
+
+  /**
+   * 按 instanceId 获取策略实例，不存在时抛出 STRATEGY_NOT_FOUND
+   */
+  requireStrategy(instanceId: string): IStrategy {
+    const strategy = this.strategies.get(instanceId);
+    if (!strategy) {
+      throw new AppError(
+        ErrorCode.STRATEGY_NOT_FOUND,
+        `策略实例不存在: ${instanceId}`,
+        { instanceId },
+        404
+      );
+    }
+    return strategy;
+  }
+
+  /**
+   * 获取全部策略实例
    */
-  getActiveStrategy(): IStrategy | null {
-    return this.activeStrategy;
+  getStrategies(): IStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  /**
+   * 绑定指定账户的实例（includeStopped 为 false 时只返回运行中的实例）
+   */
+  getStrategiesByAccount(accountId: string, includeStopped = true): IStrategy[] {
+    return this.getStrategies().filter(s => {
+      const bound = s.getState().config?.accountId || DEFAULT_ACCOUNT_ID;
+      return bound === accountId && (includeStopped || this.isActive(s));
+    });
+  }
+
+  /**
+   * 获取全部实例的状态摘要
+   */
+  listStates(): StrategyState[] {
+    return this.getStrategies().map(s => s.getState());
+  }
+
+  /**
+   * 是否有任一实例处于运行/启动中
+   */
+  hasRunningStrategy(): boolean {
+    return this.getStrategies().some(s => this.isActive(s));
+  }
+
+  /**
+   * 获取当前活跃策略（兼容单实例 API）
+   * 优先返回最近启动的运行中实例，否则返回最近启动的实例
+   * filter 用于限定候选实例（如仅当前用户有权访问的账户）
+   */
+  getActiveStrategy(filter?: (strategy: IStrategy) => boolean): IStrategy | null {
+    const all = this.getStrategies().reverse().filter(s => !filter || filter(s));
+    return all.find(s => this.isActive(s)) || all[0] || null;
+  }
+
+  /**
+   * 停止指定实例
+   */
+  async stop(instanceId: string): Promise<void> {
+    await this.requireStrategy(instanceId).stop();
+  }
+
+  /**
+   * 紧急停止指定实例
+   */
+  async emergencyStop(instanceId: string): Promise<void> {
+    await this.requireStrategy(instanceId).emergencyStop();
+  }
+
+  /**
+   * 从注册表移除已停止的实例
+   */
+  remove(instanceId: string): void {
+    const strategy = this.requireStrategy(instanceId);
+    if (strategy.getStatus() !== 'STOPPED' && strategy.getStatus() !== 'ERROR') {
+      throw new AppError(
+        ErrorCode.STRATEGY_ALREADY_RUNNING,
+        `策略实例 ${instanceId} 未停止，无法移除`,
+        { instanceId, status: strategy.getStatus() },
+        400
+      );
+    }
+    this.strategies.delete(instanceId);
+    StrategyStreamService.getInstance().detach(instanceId);
+    logger.info('策略实例已移除', { instanceId });
   }
 
   /**
    * 停止当前策略
    */
-  async stopActive(): Promise<void> {
-    if (!this.activeStrategy) {
+  async stopActive(filter?: (strategy: IStrategy) => boolean): Promise<void> {
+    const strategy = this.getActiveStrategy(filter);
+    if (!strategy) {
       return;
     }
-    await this.activeStrategy.stop();
+    await strategy.stop();
   }
 
   /**
    * 紧急停止当前策略
    */
-  async emergencyStopActive(): Promise<void> {
-    if (!this.activeStrategy) {
+  async emergencyStopActive(filter?: (strategy: IStrategy) => boolean): Promise<void> {
+    const strategy = this.getActiveStrategy(filter);
+    if (!strategy) {
       return;
     }
-    await this.activeStrategy.emergencyStop();
+    await strategy.emergencyStop();
+  }
+
+  /**
+   * 停止全部实例（优雅关闭时使用）
+   */
+  async stopAll(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.getStrategies().map(s => s.stop())
+    );
+    for (const r of results) {
+      if (r.status === 'rejected') {
+        logger.warn('停止策略实例失败', { error: String(r.reason) });
+      }
+    }
+  }
+
+  /**
+   * 挂起全部实例（服务关闭时使用）：保留交易所挂单与运行记录，重启后自动恢复
+   */
+  async suspendAll(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.getStrategies().map(s => s.suspend())
+    );
+    for (const r of results) {
+      if (r.status === 'rejected') {
+        logger.warn('挂起策略实例失败', { error: String(r.reason) });
+      }
+    }
+  }
+
+  /**
+   * 恢复上次停机前仍在运行的实例（服务启动时调用）
+   * 每个实例先经启动对账，对账失败的实例不启动并标记为已停止，交易所挂单保持原样待人工处理
+   */
+  async resumeInstances(): Promise<StrategyResumeReport[]> {
+    const persistence = StrategyPersistenceService.getInstance();
+    const instances = await persistence.loadRunningInstances();
+    const reports: StrategyResumeReport[] = [];
+
+    for (const instance of instances) {
+      const report: StrategyResumeReport = {
+        instanceId: instance.instanceId,
+        accountId: instance.config.accountId,
+        strategyType: instance.strategyType,
+        symbol: instance.symbol,
+        outcome: 'resumed',
+        reason: null,
+        reconcile: null,
+        resumedAt: Date.now(),
+      };
+
+      if (instance.config.paperTrading) {
+        report.outcome = 'skipped';
+        report.reason = '纸面交易实例不恢复';
+        persistence.saveInstanceStatus(instance.instanceId, 'STOPPED');
+      } else {
+        try {
+          const strategy = await this.createAndStart(instance.config);
+          report.reconcile = strategy.getReconcileReport();
+          logger.info('策略实例已恢复', { instanceId: instance.instanceId, symbol: instance.symbol });
+        } catch (error) {
+          report.outcome = 'stopped';
+          report.reason = error instanceof Error ? error.message : String(error);
+          if (error instanceof AppError && error.code === ErrorCode.STRATEGY_RECONCILE_FAILED) {
+            report.reconcile = (error.details as OrderReconcileReport | null) || null;
+          }
+          persistence.saveInstanceStatus(instance.instanceId, 'STOPPED');
+          logger.error('策略实例恢复失败，已标记为停止', {
+            instanceId: instance.instanceId,
+            symbol: instance.symbol,
+            reason: report.reason,
+          });
+        }
+      }
+
+      persistence.saveResumeReport(report);
+      reports.push(report);
+    }
+
+    this.resumeReports = reports;
+    return reports;
+  }
+
+  /**
+   * 获取最近一次服务启动时的实例恢复结果
+   */
+  getResumeReports(): StrategyResumeReport[] {
+    return this.resumeReports;
+  }
+
+  /**
+   * 获取各实例最近一次仓位对账结果（指定 instanceId 时只返回该实例）
+   */
+  getPositions(instanceId?: string): StrategyPositionView[] {
+    const strategies = instanceId ? [this.requireStrategy(instanceId)] : this.getStrategies();
+    return strategies.map(strategy => ({
+      instanceId: strategy.instanceId,
+      strategyType: strategy.strategyType,
+      symbol: strategy.getState().config?.symbol || '',
+      status: strategy.getStatus(),
+      positions: strategy.getPositionSnapshots(),
+    }));
   }
 
   /**
    * 获取当前策略状态（如果没有活跃策略，返回默认状态）
    */
-  getState(): StrategyState {
-    if (this.activeStrategy) {
-      return this.activeStrategy.getState();
+  getState(filter?: (strategy: IStrategy) => boolean): StrategyState {
+    const strategy = this.getActiveStrategy(filter);
+    if (strategy) {
+      return strategy.getState();
     }
 
     return {
@@ -148,23 +417,93 @@ export class StrategyManager {
     };
   }
 
+  private isActive(strategy: IStrategy): boolean {
+    const status = strategy.getStatus();
+    return status === 'RUNNING' || status === 'STARTING';
+  }
+
+  /**
+   * 写入实例运行记录；主动停止或紧急停止后标记为已停止，挂起（服务关闭）不改变记录
+   */
+  private trackRunState(strategy: IStrategy): void {
+    const persistence = StrategyPersistenceService.getInstance();
+    const config = strategy.getState().config;
+    if (config) {
+      persistence.saveInstanceState(config, 'RUNNING');
+    }
+    strategy.onEvent(event => {
+      if (event.type === 'STRATEGY_STOPPED' || event.type === 'EMERGENCY_STOP') {
+        persistence.saveInstanceStatus(strategy.instanceId, 'STOPPED');
+      }
+    });
+  }
+
+  /**
+   * 同一账户的同一交易对 + 交易类型只允许一个运行中的实例
+   * 引擎会按交易对恢复/撤销挂单，多个实例共用会互相干扰；不同账户的挂单互不可见，可以并行
+   * 纸面交易实例各自持有独立的本地撮合器，不参与互斥
+   */
+  /**
+   * 占用启动槽位：同一实例不能并发启动，账户 + 交易对不能与运行中或启动中的实例冲突
+   * 检查与占用之间没有 await，并发请求只有一个能通过
+   */
+  private reserveStart(instanceId: string, symbol: string | null, tradingType: TradingType, accountId?: string): void {
+    if (this.pendingStarts.has(instanceId)) {
+      throw new AppError(
+        ErrorCode.STRATEGY_ALREADY_RUNNING,
+        `策略实例 ${instanceId} 正在启动中`,
+        { instanceId },
+        400
+      );
+    }
+    if (symbol) {
+      this.assertNoSymbolConflict(instanceId, symbol, tradingType, accountId);
+    }
+    this.pendingStarts.set(instanceId, { symbol, tradingType, accountId: accountId || DEFAULT_ACCOUNT_ID });
+  }
+
+  private assertNoSymbolConflict(
+    instanceId: string,
+    symbol: string,
+    tradingType: TradingType,
+    accountId?: string
+  ): void {
+    const account = accountId || DEFAULT_ACCOUNT_ID;
+    for (const other of this.strategies.values()) {
+      if (other.instanceId === instanceId || !this.isActive(other)) continue;
+      const otherConfig = other.getState().config;
+      if (otherConfig?.paperTrading) continue;
+      if (
+        otherConfig?.symbol === symbol
+        && otherConfig.tradingType === tradingType
+        && (otherConfig.accountId || DEFAULT_ACCOUNT_ID) === account
+      ) {
+        throw new AppError(
+          ErrorCode.STRATEGY_ALREADY_RUNNING,
+          `交易对 ${symbol} 已有运行中的策略实例 ${other.instanceId}`,
+          { instanceId: other.instanceId, symbol, tradingType, accountId: account },
+          400
+        );
+      }
+    }
+    for (const [otherId, pending] of this.pendingStarts) {
+      if (otherId !== instanceId && pending.symbol === symbol
+        && pending.tradingType === tradingType && pending.accountId === account) {
+        throw new AppError(
+          ErrorCode.STRATEGY_ALREADY_RUNNING,
+          `交易对 ${symbol} 已有正在启动的策略实例 ${otherId}`,
+          { instanceId: otherId, symbol, tradingType, accountId: account },
+          400
+        );
+      }
+    }
+  }
+
   private createStrategyInstance(
     type: StrategyType,
     services: TradingServices,
     instanceId: string
   ): IStrategy {
-    switch (type) {
-      case 'scalping':
-        return new ScalpingStrategyEngine(services, instanceId);
-      case 'grid':
-        return new GridStrategyEngine(services, instanceId);
-      default:
-        throw new AppError(
-          ErrorCode.STRATEGY_NOT_FOUND,
-          `未知策略类型: ${type}`,
-          { type },
-          400
-        );
-    }
+    return StrategyRegistry.getInstance().getDefinition(type).create(services, instanceId);
   }
 }
@@ -0,0 +1,258 @@
+/**
+ * 策略注册表
+ * 每种策略以 StrategyDefinition 注册：类型、配置字段描述、默认配置、校验、引擎工厂与参数边界。
+ * StrategyManager / StrategyConfigManager / AutoCalcService / 回测 / 前端类型选择均从这里读取，
+ * 新策略只需在插件目录放入导出 strategyDefinition（或默认导出）的模块，无需改动核心文件
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { IStrategy } from './interfaces/i-strategy';
+import type { ParameterBounds } from './auto-calc.service';
+import { TradingServices } from '../services/trading-service.factory';
+import { BaseStrategyConfig } from '../types/strategy.types';
+import { InstrumentSpec, StrategyType, UnifiedTickerInfo } from '../types/trading.types';
+import { AppError, ErrorCode } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+import { BUILT_IN_STRATEGIES } from './definitions';
+
+const logger = createLogger('strategy-registry');
+
+const PLUGIN_EXTENSIONS = ['.js', '.ts'];
+
+/** 配置字段类型：decimal 为字符串形式的数值（如 priceSpread: '0.5'） */
+export type StrategyConfigFieldType = 'number' | 'integer' | 'decimal' | 'select' | 'boolean';
+
+/** 策略专属配置字段描述（用于通用校验与前端表单渲染） */
+export interface StrategyConfigField {
+  key: string;
+  label: string;
+  type: StrategyConfigFieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  /** 为 true 时 min 不可取到 */
+  exclusiveMin?: boolean;
+  /** 为 true 时 max 不可取到 */
+  exclusiveMax?: boolean;
+  options?: Array<{ label: string; value: string }>;
+  unit?: string;
+  description?: string;
+}
+
+/** 计算参数边界时可用的行情与交易对信息 */
+export interface StrategyBoundsContext {
+  spec: InstrumentSpec;
+  ticker: UnifiedTickerInfo;
+  currentPrice: number;
+  balance: number;
+  /** 覆盖双边手续费的最小价差（价格单位） */
+  minProfitableSpread: number;
+  /** 按交易对价格精度四舍五入 */
+  roundToPrice: (value: number) => number;
+}
+
+export interface StrategyDefinition<C extends BaseStrategyConfig = BaseStrategyConfig> {
+  type: StrategyType;
+  label: string;
+  description: string;
+  /** 适用场景（前端卡片展示） */
+  scenarios: string;
+  /** antd 图标名，前端无对应图标时使用默认图标 */
+  icon?: string;
+  defaults: C;
+  configSchema: StrategyConfigField[];
+  /** 字段范围由 configSchema 校验，这里只放跨字段的业务规则，返回错误信息列表 */
+  validate?(config: C): string[];
+  create(services: TradingServices, instanceId: string): IStrategy;
+  /** 策略专属的参数边界（下单金额边界由 AutoCalcService 统一计算） */
+  getBounds?(context: StrategyBoundsContext): ParameterBounds;
+}
+
+/** 可序列化的策略描述（GET /api/strategy/types） */
+export type StrategyDescriptor = Pick<
+  StrategyDefinition,
+  'type' | 'label' | 'description' | 'scenarios' | 'icon' | 'defaults' | 'configSchema'
+> & { builtIn: boolean };
+
+export class StrategyRegistry {
+  private static instance: StrategyRegistry | null = null;
+  private definitions: Map<string, StrategyDefinition> = new Map();
+  private builtInTypes: Set<string> = new Set();
+
+  static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      const registry = new StrategyRegistry();
+      StrategyRegistry.instance = registry;
+      for (const definition of BUILT_IN_STRATEGIES) {
+        registry.register(definition);
+        registry.builtInTypes.add(definition.type);
+      }
+      registry.loadPlugins(process.env.STRATEGY_PLUGIN_DIR || path.join(__dirname, 'plugins'));
+    }
+    return StrategyRegistry.instance;
+  }
+
+  register<C extends BaseStrategyConfig>(definition: StrategyDefinition<C>): void {
+    if (!definition.type || typeof definition.create !== 'function') {
+      throw new AppError(
+        ErrorCode.STRATEGY_CONFIG_INVALID,
+        '策略定义缺少 type 或 create',
+        { type: definition.type },
+        400
+      );
+    }
+    if (this.definitions.has(definition.type)) {
+      throw new AppError(
+        ErrorCode.STRATEGY_CONFIG_INVALID,
+        `策略类型 ${definition.type} 已注册`,
+        { type: definition.type },
+        400
+      );
+    }
+    this.definitions.set(definition.type, definition as unknown as StrategyDefinition);
+    logger.info('策略类型已注册', { type: definition.type });
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * 获取策略定义，未注册时抛出 STRATEGY_NOT_FOUND
+   */
+  getDefinition(type: string): StrategyDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new AppError(
+        ErrorCode.STRATEGY_NOT_FOUND,
+        `未知策略类型: ${type}`,
+        { type, available: this.getTypes() },
+        400
+      );
+    }
+    return definition;
+  }
+
+  getTypes(): StrategyType[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  describe(): StrategyDescriptor[] {
+    return Array.from(this.definitions.values()).map(d => ({
+      type: d.type,
+      label: d.label,
+      description: d.description,
+      scenarios: d.scenarios,
+      icon: d.icon,
+      defaults: d.defaults,
+      configSchema: d.configSchema,
+      builtIn: this.builtInTypes.has(d.type),
+    }));
+  }
+
+  /**
+   * 校验策略专属配置：先按 configSchema 校验字段，字段无误再执行定义的跨字段校验
+   */
+  validateConfig(config: BaseStrategyConfig): string[] {
+    const definition = this.getDefinition(config.strategyType);
+    const errors = validateFields(definition.configSchema, config as unknown as Record<string, unknown>);
+    if (errors.length === 0 && definition.validate) {
+      errors.push(...definition.validate(config));
+    }
+    return errors;
+  }
+
+  /**
+   * 加载插件目录下的策略模块；单个插件加载失败只记录日志，不影响其他策略
+   */
+  private loadPlugins(dir: string): void {
+    if (!fs.existsSync(dir)) return;
+
+    const files = fs.readdirSync(dir)
+      .filter(f => PLUGIN_EXTENSIONS.includes(path.extname(f)) && !f.endsWith('.d.ts'))
+      .sort();
+    for (const file of files) {
+      const fullPath = path.join(dir, file);
+      try {
+        const mod = require(fullPath);
+        const definition: StrategyDefinition | undefined = mod.strategyDefinition || mod.default;
+        if (!definition) {
+          logger.warn('插件未导出 strategyDefinition，已跳过', { file: fullPath });
+          continue;
+        }
+        this.register(definition);
+      } catch (error) {
+        logger.error('策略插件加载失败', { file: fullPath, error: String(error) });
+      }
+    }
+  }
+}
+
+/**
+ * 按字段描述校验配置，错误信息与配置管理器的手写校验保持同一格式
+ */
+export function validateFields(schema: StrategyConfigField[], config: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  for (const field of schema) {
+    const raw = config[field.key];
+    if (raw === undefined || raw === null || raw === '') {
+      if (field.required) errors.push(`${field.key} 不能为空`);
+      continue;
+    }
+
+    if (field.type === 'boolean') {
+      if (typeof raw !== 'boolean') errors.push(`${field.key} 必须是布尔值`);
+      continue;
+    }
+
+    if (field.type === 'select') {
+      const values = (field.options || []).map(o => o.value);
+      if (!values.includes(String(raw))) {
+        errors.push(`${field.key} 必须是 ${values.join('/')} 之一`);
+      }
+      continue;
+    }
+
+    const value = field.type === 'decimal' ? parseFloat(String(raw)) : raw;
+    if (typeof value !== 'number' || isNaN(value)) {
+      errors.push(`${field.key} 必须是数字`);
+      continue;
+    }
+    const integerOk = field.type !== 'integer' || Number.isInteger(value);
+    if (!integerOk || !inRange(field, value)) {
+      errors.push(`${field.key} ${describeRange(field)}`);
+    }
+  }
+
+  return errors;
+}
+
+function inRange(field: StrategyConfigField, value: number): boolean {
+  if (field.min !== undefined && (field.exclusiveMin ? value <= field.min : value < field.min)) return false;
+  if (field.max !== undefined && (field.exclusiveMax ? value >= field.max : value > field.max)) return false;
+  return true;
+}
+
+function describeRange(field: StrategyConfigField): string {
+  const { min, max } = field;
+  const integer = field.type === 'integer';
+
+  if (min !== undefined && max !== undefined) {
+    if (!field.exclusiveMin && !field.exclusiveMax) {
+      return integer ? `必须是 ${min}-${max} 之间的整数` : `必须在 ${min}-${max} 之间`;
+    }
+    const range = `${field.exclusiveMin ? '(' : '['}${min}, ${max}${field.exclusiveMax ? ')' : ']'}`;
+    return integer ? `必须是 ${range} 之间的整数` : `必须在 ${range} 之间`;
+  }
+  if (min !== undefined) {
+    const text = field.exclusiveMin ? `必须大于 ${min}` : `不能小于 ${min}`;
+    return integer ? `${text}且为整数` : text;
+  }
+  if (max !== undefined) {
+    const text = field.exclusiveMax ? `必须小于 ${max}` : `不能大于 ${max}`;
+    return integer ? `${text}且为整数` : text;
+  }
+  return '必须是整数';
+}
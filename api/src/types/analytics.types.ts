@@ -0,0 +1,102 @@
+/**
+ * 策略绩效分析类型定义
+ * 数据来源：strategy_daily_pnl（按日汇总）、strategy_pnl_ledger（逐笔平仓）与 strategy_orders（开仓成交时间）
+ * 日期、小时均按 UTC 计；金额以计价币（USDT）字符串表示
+ */
+
+import { StrategyType } from './trading.types';
+
+/** 收益统计周期 */
+export type AnalyticsPeriod = 'daily' | 'weekly' | 'monthly';
+
+/** 查询条件 */
+export interface AnalyticsQuery {
+  /** 按实例或交易对筛选时改为从账本逐笔汇总（strategy_daily_pnl 只有策略类型维度） */
+  instanceId?: string;
+  symbol?: string;
+  strategyType?: StrategyType;
+  startTime?: number;
+  endTime?: number;
+  /** 初始资金：提供时计算收益率与回撤百分比，否则只给出金额 */
+  initialCapital?: number;
+  /** 只统计绑定这些交易账户的实例（不传为不限制；指定时从账本逐笔汇总） */
+  accountIds?: string[];
+}
+
+/** 权益曲线上的一天 */
+export interface EquityCurvePoint {
+  date: string;                     // YYYY-MM-DD
+  pnl: string;                      // 当日净盈亏（含手续费、资金费）
+  cumulativePnl: string;
+  equity: string | null;            // 初始资金 + 累计盈亏
+  drawdown: string;                 // 距前高的回撤金额（≥ 0）
+  drawdownPercent: string | null;
+  trades: number;
+}
+
+/** 周期收益 */
+export interface PeriodReturn {
+  period: string;                   // 日：YYYY-MM-DD；周：周一日期；月：YYYY-MM
+  pnl: string;
+  returnPercent: string | null;     // 相对期初权益
+  trades: number;
+}
+
+/** 一段回撤：前高 → 谷底 → 回到前高 */
+export interface DrawdownPeriod {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;      // 未回到前高时为 null
+  depth: string;
+  depthPercent: string | null;
+  /** 前高到恢复（未恢复则到最后一天）的天数 */
+  durationDays: number;
+}
+
+/** 按开仓所在小时（UTC）统计，无法关联开仓单时按平仓时间 */
+export interface HourlyPerformance {
+  hour: number;
+  trades: number;
+  netPnl: string;
+  winRate: string;
+}
+
+/** 汇总指标 */
+export interface PerformanceMetrics {
+  startDate: string | null;
+  endDate: string | null;
+  tradingDays: number;
+  netPnl: string;
+  totalReturnPercent: string | null;
+  totalTrades: number;
+  winTrades: number;
+  lossTrades: number;
+  winRate: string;
+  /** 盈利总额 / 亏损总额，无亏损时为 null */
+  profitFactor: string | null;
+  /** 单笔期望收益 = 胜率 × 平均盈利 − 败率 × 平均亏损 */
+  expectancy: string;
+  avgWin: string;
+  avgLoss: string;
+  /** 年化（365 天）夏普 / 索提诺，无初始资金时按日盈亏序列计算；样本不足两天为 null */
+  sharpeRatio: string | null;
+  sortinoRatio: string | null;
+  maxDrawdown: string;
+  maxDrawdownPercent: string | null;
+  maxDrawdownDurationDays: number;
+  /** 平均持仓时间（开仓成交 → 平仓记账），无法关联开仓单时不计入 */
+  avgHoldingMs: number | null;
+  fees: string;
+  funding: string;
+}
+
+/** 完整报告 */
+export interface AnalyticsReport {
+  query: AnalyticsQuery;
+  metrics: PerformanceMetrics;
+  equityCurve: EquityCurvePoint[];
+  drawdowns: DrawdownPeriod[];
+  returns: Record<AnalyticsPeriod, PeriodReturn[]>;
+  hourly: HourlyPerformance[];
+  generatedAt: number;
+}
@@ -0,0 +1,112 @@
+/**
+ * 回测 / 模拟撮合类型定义
+ */
+
+import { AnyStrategyConfig, PnlSummary } from './strategy.types';
+import { CandleInterval, InstrumentSpec } from './trading.types';
+import { Candle } from '../strategy/indicators/technical-indicators';
+
+/** 行情快照（回放的最小单位） */
+export interface MarketTick {
+  timestamp: number;
+  lastPr: number;
+  bidPr: number;
+  askPr: number;
+}
+
+/** 成交流动性角色 */
+export type FillLiquidity = 'maker' | 'taker';
+
+/** 模拟成交记录 */
+export interface SimulatedFill {
+  orderId: string;
+  side: 'buy' | 'sell';
+  price: string;
+  size: string;
+  fee: string;
+  liquidity: FillLiquidity;
+  timestamp: number;
+}
+
+/** 平仓交易记录（每次减仓成交记一笔） */
+export interface BacktestTrade {
+  direction: 'long' | 'short';
+  entryPrice: string;
+  exitPrice: string;
+  size: string;
+  grossPnl: string;
+  fee: string;
+  netPnl: string;
+  exitOrderId: string;
+  closedAt: number;
+}
+
+/** 权益曲线采样点 */
+export interface EquityPoint {
+  timestamp: number;
+  equity: string;
+}
+
+/** 模拟交易所撮合统计 */
+export interface SimulatedExchangeStats {
+  ordersPlaced: number;
+  makerFills: number;
+  takerFills: number;
+  partialFills: number;
+  postOnlyRejects: number;
+  totalFees: string;
+}
+
+/** 撮合模型参数 */
+export interface SimulationOptions {
+  /** 初始资金（计价币） */
+  initialBalance?: string;
+  /** 价格触及但未穿越挂单价时，按剩余数量的该比例部分成交（0-1，默认 0.5） */
+  partialFillRatio?: number;
+  /** 由 K 线生成盘口时，买一/卖一距成交价的 tick 数（默认 1） */
+  spreadTicks?: number;
+  /** 合约杠杆（仅用于计算可用余额，默认取策略配置） */
+  leverage?: number;
+}
+
+/** 纸面交易参数 */
+export interface PaperTradingOptions extends SimulationOptions {
+  /** 覆盖交易对规格，未提供的字段在首次取行情时从交易所规格补齐 */
+  spec?: Partial<InstrumentSpec>;
+  /** 回放行情（提供时不连接实时行情源） */
+  replayTicks?: MarketTick[];
+  /** 回放倍速（默认 1，即按 tick 原始间隔实时推进） */
+  replaySpeed?: number;
+}
+
+/** 回测请求 */
+export interface BacktestRequest extends SimulationOptions {
+  config: Partial<AnyStrategyConfig>;
+  /** K 线回放数据（与 ticks 二选一；均未提供时从交易所拉取最近 K 线） */
+  candles?: Candle[];
+  /** 录制的 ticker 流回放数据 */
+  ticks?: MarketTick[];
+  /** 拉取 K 线时的周期与数量 */
+  granularity?: CandleInterval;
+  limit?: number;
+  /** 覆盖交易对规格（手续费率/精度），未提供时从交易所获取 */
+  spec?: Partial<InstrumentSpec>;
+}
+
+/** 回测结果 */
+export interface BacktestResult {
+  strategyType: string;
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  tickCount: number;
+  spec: InstrumentSpec;
+  initialEquity: string;
+  finalEquity: string;
+  totalReturnPercent: string;
+  maxDrawdownPercent: string;
+  summary: PnlSummary;
+  stats: SimulatedExchangeStats;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
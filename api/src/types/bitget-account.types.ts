@@ -0,0 +1,38 @@
+/**
+ * Bitget 交易账户类型定义
+ * 默认账户之外可配置多个命名账户（子账户 / 团队成员各自的 API Key），策略实例按 accountId 绑定
+ */
+
+/** 命名账户元数据（system_configs 中 BITGET_ACCOUNTS，凭证另以加密 key 存储） */
+export interface BitgetAccountRecord {
+  /** 账户 ID：小写字母 / 数字 / 下划线 */
+  id: string;
+  name: string;
+  /** 模拟盘账户（请求带 paptrading 头） */
+  simulated: boolean;
+  description: string | null;
+  /** 被授权的用户 ID（管理员始终可见全部账户） */
+  grantedUserIds: number[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** 账户视图（不含凭证） */
+export interface BitgetAccountView extends BitgetAccountRecord {
+  isDefault: boolean;
+  hasCredentials: boolean;
+  /** API Key 末 4 位，便于辨认 */
+  apiKeyHint: string | null;
+}
+
+/** 创建 / 更新账户请求；凭证三项需同时提供 */
+export interface BitgetAccountInput {
+  id?: string;
+  name?: string;
+  apiKey?: string;
+  secretKey?: string;
+  passphrase?: string;
+  simulated?: boolean;
+  description?: string | null;
+  grantedUserIds?: number[];
+}
@@ -90,6 +90,7 @@ export interface FuturesOrderDetail {
   filledQty: string;
   fee: string;
   price: string;
+  priceAvg: string;
   side: FuturesSide;
   orderType: FuturesOrderType;
   force: TimeInForce;
@@ -99,6 +100,124 @@ export interface FuturesOrderDetail {
   uTime: string;
 }
 
+/** 止盈止损下单参数（place-tpsl-order） */
+export interface FuturesTpslOrderParams {
+  symbol: string;
+  productType: ProductType;
+  marginCoin: string;
+  planType: 'pos_profit' | 'pos_loss' | 'profit_plan' | 'loss_plan';
+  triggerPrice: string;
+  triggerType: 'fill_price' | 'mark_price';
+  executePrice: string;  // '0' 为市价
+  holdSide: 'long' | 'short' | 'buy' | 'sell';
+  size?: string;
+  clientOid?: string;
+}
+
+/** 止盈止损修改参数（modify-tpsl-order） */
+export interface FuturesModifyTpslParams {
+  orderId: string;
+  symbol: string;
+  productType: ProductType;
+  marginCoin: string;
+  triggerPrice: string;
+  triggerType: 'fill_price' | 'mark_price';
+  executePrice: string;
+  size: string;  // 仓位止盈止损传空字符串
+}
+
+/** 触发单下单参数（place-plan-order, planType = normal_plan） */
+export interface FuturesPlanOrderParams {
+  planType: 'normal_plan';
+  symbol: string;
+  productType: ProductType;
+  marginMode: MarginMode;
+  marginCoin: string;
+  size: string;
+  price?: string;
+  triggerPrice: string;
+  triggerType: 'fill_price' | 'mark_price';
+  side: FuturesSide;
+  tradeSide?: TradeSide;
+  orderType: FuturesOrderType;
+  clientOid?: string;
+}
+
+/** 触发单修改参数（modify-plan-order） */
+export interface FuturesModifyPlanParams {
+  orderId: string;
+  symbol: string;
+  productType: ProductType;
+  newSize?: string;
+  newPrice?: string;
+  newTriggerPrice?: string;
+  newTriggerType?: 'fill_price' | 'mark_price';
+}
+
+/** 计划委托撤单参数（cancel-plan-order） */
+export interface FuturesCancelPlanParams {
+  symbol: string;
+  productType: ProductType;
+  marginCoin: string;
+  planType: 'normal_plan' | 'profit_loss';
+  orderIdList: Array<{ orderId: string }>;
+}
+
+/** 当前计划委托（orders-plan-pending 返回） */
+export interface FuturesPlanOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  planType: string;
+  size: string;
+  price: string;
+  executePrice: string;
+  triggerPrice: string;
+  triggerType: string;
+  side: FuturesSide;
+  posSide: string;
+  tradeSide: TradeSide;
+  orderType: FuturesOrderType;
+  planStatus: string;
+  cTime: string;
+  uTime: string;
+}
+
+/** 成交手续费明细（totalFee 为负数表示支出） */
+export interface FuturesFillFeeDetail {
+  deduction: string;
+  feeCoin: string;
+  totalDeductionFee: string;
+  totalFee: string;
+}
+
+/** 历史成交（fill-history 返回） */
+export interface FuturesFill {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  side: FuturesSide;
+  tradeSide: string;
+  price: string;
+  baseVolume: string;
+  quoteVolume: string;
+  profit: string;
+  feeDetail: FuturesFillFeeDetail[];
+  posMode: string;
+  tradeScope: string;
+  cTime: string;
+}
+
+/** 历史成交查询参数（时间跨度受交易所限制，分页用 idLessThan 向前翻） */
+export interface FuturesFillQuery {
+  productType: ProductType;
+  symbol?: string;
+  startTime: number;
+  endTime: number;
+  idLessThan?: string;
+  limit?: number;
+}
+
 /** 盘口深度 */
 export interface FuturesOrderBook {
   asks: Array<[string, string]>;  // [price, size]
@@ -127,6 +246,62 @@ export interface FuturesTickerInfo {
   indexPrice: string;
 }
 
+/** 当前资金费率（current-fund-rate 接口） */
+export interface FuturesCurrentFundingRate {
+  symbol: string;
+  fundingRate: string;
+  fundingRateInterval?: string;  // 结算周期（小时），部分合约为 1/4/8
+  nextUpdate?: string;           // 下次结算时间（ms）
+  minFundingRate?: string;
+  maxFundingRate?: string;
+}
+
+/** 历史资金费率（history-fund-rate 接口） */
+export interface FuturesFundingRateHistory {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: string;           // 结算时间（ms）
+}
+
+/** 资金费率当前快照（采集器缓存，按交易对） */
+export interface FundingRateSnapshot {
+  symbol: string;
+  productType: ProductType;
+  fundingRate: string;
+  intervalHours: number | null;
+  nextFundingTime: number | null;
+  annualizedPercent: string;
+  fetchedAt: number;
+}
+
+/** 已结算的资金费率记录（funding_rate_history 表） */
+export interface FundingRateRecord {
+  symbol: string;
+  productType: ProductType;
+  fundingRate: string;
+  fundingTime: number;
+}
+
+/** 资金费率采集配置 */
+export interface FundingCollectorConfig {
+  enabled: boolean;
+  /** 固定关注的交易对，运行中的合约策略实例交易对自动加入 */
+  symbols: string[];
+  productType: ProductType;
+  /** node-cron 表达式，默认每 5 分钟 */
+  cronExpression: string;
+  /** 每次采集拉取的历史记录条数（最多 100） */
+  historyPageSize: number;
+}
+
+export const DEFAULT_FUNDING_COLLECTOR_CONFIG: FundingCollectorConfig = {
+  enabled: true,
+  symbols: [],
+  productType: 'USDT-FUTURES',
+  cronExpression: '*/5 * * * *',
+  historyPageSize: 20,
+};
+
 /** Bitget 合约规格（API 原始返回） */
 export interface BitgetContractSpec {
   symbol: string;
@@ -181,6 +356,18 @@ export interface FuturesAccount {
   bonus: string;
 }
 
+/** 合约账单（account/bill API 返回） */
+export interface FuturesAccountBill {
+  billId: string;
+  symbol: string;
+  amount: string;
+  fee: string;
+  feeByCoupon: string;
+  businessType: string;
+  coin: string;
+  cTime: string;
+}
+
 /** 合约持仓信息（all-position API 返回） */
 export interface FuturesPosition {
   marginCoin: string;
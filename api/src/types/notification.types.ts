@@ -0,0 +1,141 @@
+/**
+ * 通知子系统类型定义
+ */
+
+import { StrategyEventType } from './strategy.types';
+
+/** 通知渠道类型 */
+export type NotificationChannelType = 'telegram' | 'email' | 'webhook' | 'dingtalk' | 'wecom';
+
+interface NotificationChannelBase {
+  /** 渠道 ID（规则通过 ID 引用渠道） */
+  id: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface TelegramChannelConfig extends NotificationChannelBase {
+  type: 'telegram';
+  botToken: string;
+  chatId: string;
+  /** 可选 HTTP(S) 代理，api.telegram.org 无法直连时使用 */
+  proxyUrl?: string;
+}
+
+export interface EmailChannelConfig extends NotificationChannelBase {
+  type: 'email';
+  host: string;
+  port: number;
+  /** true = 465 端口隐式 TLS；false 时服务器支持则升级 STARTTLS */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface WebhookChannelConfig extends NotificationChannelBase {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/** 钉钉自定义机器人 */
+export interface DingTalkChannelConfig extends NotificationChannelBase {
+  type: 'dingtalk';
+  webhookUrl: string;
+  /** 加签密钥（机器人安全设置为"加签"时必填） */
+  secret?: string;
+}
+
+/** 企业微信群机器人 */
+export interface WeComChannelConfig extends NotificationChannelBase {
+  type: 'wecom';
+  webhookUrl: string;
+}
+
+export type NotificationChannelConfig =
+  | TelegramChannelConfig
+  | EmailChannelConfig
+  | WebhookChannelConfig
+  | DingTalkChannelConfig
+  | WeComChannelConfig;
+
+/** 路由规则：匹配的事件类型发送到指定渠道 */
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  eventTypes: StrategyEventType[];
+  channelIds: string[];
+  /** 同一实例同一规则的最小通知间隔，间隔内的重复事件被限流 */
+  minIntervalMs: number;
+  /** 覆盖事件默认模板 */
+  template?: string;
+}
+
+/** 通知服务配置（SystemConfigService: notification_config，加密存储） */
+export interface NotificationConfig {
+  enabled: boolean;
+  channels: NotificationChannelConfig[];
+  rules: NotificationRule[];
+  /** 每个渠道每分钟最多发送条数 */
+  maxPerMinutePerChannel: number;
+  /** 按事件类型覆盖默认模板 */
+  templates: Partial<Record<StrategyEventType, string>>;
+}
+
+/** 渲染后的通知消息 */
+export interface NotificationMessage {
+  title: string;
+  text: string;
+  eventType: StrategyEventType | 'TEST';
+  instanceId: string | null;
+  symbol: string | null;
+  timestamp: number;
+  data: Record<string, unknown>;
+}
+
+/** 单个渠道的发送结果 */
+export interface NotificationDeliveryResult {
+  channelId: string;
+  channelType: NotificationChannelType;
+  success: boolean;
+  error: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
+  enabled: false,
+  channels: [],
+  rules: [
+    {
+      id: 'risk-and-lifecycle',
+      name: '风控与生命周期告警',
+      enabled: true,
+      eventTypes: ['RISK_LIMIT_HIT', 'EMERGENCY_STOP', 'STRATEGY_ERROR', 'PORTFOLIO_RISK_BREACH'],
+      channelIds: [],
+      minIntervalMs: 60000,
+    },
+  ],
+  maxPerMinutePerChannel: 20,
+  templates: {},
+};
+
+/**
+ * 默认消息模板
+ * 占位符：{{instanceId}} {{strategyType}} {{symbol}} {{time}} {{eventType}} {{suppressed}}，
+ * 以及事件 data 中的字段（如 {{reason}}）
+ */
+export const DEFAULT_NOTIFICATION_TEMPLATES: Partial<Record<StrategyEventType, string>> = {
+  RISK_LIMIT_HIT: '[风控冷却] {{symbol}} ({{instanceId}})\n原因: {{reason}}\n冷却 {{cooldownSec}} 秒，预计 {{resumeAt}} 恢复交易',
+  EMERGENCY_STOP: '[紧急停止] {{symbol}} ({{instanceId}}) 已紧急停止并撤销全部挂单\n时间: {{time}}',
+  STRATEGY_ERROR: '[策略错误] {{symbol}} ({{instanceId}}) 连续 {{consecutiveErrors}} 次错误，进入 ERROR 状态\n{{loop}}: {{error}}',
+  STRATEGY_STOPPED: '[策略停止] {{symbol}} ({{instanceId}})\n成交 {{tradeCount}} 笔，已实现盈亏 {{realizedPnl}} USDT',
+  STRATEGY_STARTED: '[策略启动] {{symbol}} ({{instanceId}}) {{strategyType}}',
+  STRATEGY_SUSPENDED: '[策略挂起] {{symbol}} ({{instanceId}}) 服务关闭，{{openOrders}} 个挂单保留在交易所',
+  REGIME_SWITCHED: '[模式切换] {{symbol}} ({{instanceId}}) {{from}} → {{to}}\n原因: {{reason}}',
+  PORTFOLIO_RISK_BREACH: '[组合风控] {{message}}',
+};
+
+/** 未配置模板的事件使用的通用模板 */
+export const FALLBACK_NOTIFICATION_TEMPLATE = '[{{eventType}}] {{symbol}} ({{instanceId}})\n{{data}}';
@@ -0,0 +1,129 @@
+/**
+ * 组合风控类型定义
+ * 跨策略实例、跨现货/合约账户的全局敞口与亏损限制
+ */
+
+import { ProductType } from './futures.types';
+import { TradingType } from './trading.types';
+
+/** 组合级限制项 */
+export type PortfolioRiskLimit =
+  | 'gross_notional'
+  | 'net_delta'
+  | 'leverage'
+  | 'daily_loss'
+  | 'drawdown';
+
+/** 组合风控配置（金额以 USDT 计，'0' / 0 表示不限制） */
+export interface PortfolioRiskConfig {
+  enabled: boolean;
+  /** 总名义敞口上限（现货持仓 + 合约多空名义价值之和） */
+  maxGrossNotionalUsdt: string;
+  /** 单币种净敞口默认上限（现货 + 合约多头 − 合约空头，取绝对值） */
+  maxNetDeltaUsdt: string;
+  /** 按币种覆盖净敞口上限，如 { BTC: '5000' } */
+  netDeltaLimits: Record<string, string>;
+  /** 账户杠杆上限（总名义敞口 / 总权益） */
+  maxLeverage: number;
+  /** 单日最大亏损（UTC 日，按账户权益变化与各实例日内 PnL 取较大亏损） */
+  maxDailyLossUsdt: string;
+  /** 账户权益相对峰值的最大回撤 */
+  maxDrawdownPercent: number;
+  /** 账户快照刷新间隔 */
+  refreshIntervalMs: number;
+  /** 纳入统计的合约产品线（U 本位，模拟盘为 SUSDT-FUTURES） */
+  futuresProductTypes: ProductType[];
+}
+
+export const DEFAULT_PORTFOLIO_RISK_CONFIG: PortfolioRiskConfig = {
+  enabled: false,
+  maxGrossNotionalUsdt: '0',
+  maxNetDeltaUsdt: '0',
+  netDeltaLimits: {},
+  maxLeverage: 0,
+  maxDailyLossUsdt: '0',
+  maxDrawdownPercent: 0,
+  refreshIntervalMs: 15000,
+  futuresProductTypes: ['USDT-FUTURES'],
+};
+
+/** 单币种敞口 */
+export interface CoinExposure {
+  coin: string;
+  spotUsdt: string;
+  futuresLongUsdt: string;
+  futuresShortUsdt: string;
+  /** 净敞口（现货 + 合约多头 − 合约空头） */
+  netUsdt: string;
+  grossUsdt: string;
+}
+
+/** 当前已突破的限制 */
+export interface PortfolioRiskBreach {
+  limit: PortfolioRiskLimit;
+  /** 净敞口限制对应的币种 */
+  coin?: string;
+  value: string;
+  threshold: string;
+  message: string;
+  since: number;
+}
+
+/** 最近一次被否决的下单 */
+export interface PortfolioRiskVeto {
+  timestamp: number;
+  symbol: string;
+  side: 'buy' | 'sell';
+  notionalUsdt: string;
+  limit: PortfolioRiskLimit;
+  reason: string;
+}
+
+/** 组合风控快照（单个交易账户） */
+export interface PortfolioRiskSnapshot {
+  accountId: string;
+  enabled: boolean;
+  updatedAt: number | null;
+  equityUsdt: string;
+  spotEquityUsdt: string;
+  futuresEquityUsdt: string;
+  grossNotionalUsdt: string;
+  leverage: string;
+  /** 本 UTC 日账户权益变化 */
+  dailyPnlUsdt: string;
+  /** 运行中实例日内 PnL 之和 */
+  instanceDailyPnlUsdt: string;
+  runningInstances: number;
+  dayStartEquityUsdt: string;
+  peakEquityUsdt: string;
+  drawdownPercent: string;
+  /** 上次刷新后已放行、尚未反映到持仓的名义价值 */
+  reservedNotionalUsdt: string;
+  exposures: CoinExposure[];
+  breaches: PortfolioRiskBreach[];
+  vetoCount: number;
+  lastVeto: PortfolioRiskVeto | null;
+  lastError: string | null;
+}
+
+/** 下单前检查的订单上下文 */
+export interface PortfolioOrderIntent {
+  symbol: string;
+  side: 'buy' | 'sell';
+  size: string;
+  price: number;
+  tradingType: TradingType;
+  /** 合约开平方向（双向持仓模式为 open/close，单向持仓为空） */
+  tradeSide?: string;
+  /** 策略标记的出场/平仓单 */
+  reduceOnly?: boolean;
+  /** 下单的交易账户（未指定为默认账户） */
+  accountId?: string;
+}
+
+/** 下单前检查结果 */
+export interface PortfolioOrderCheck {
+  allowed: boolean;
+  limit: PortfolioRiskLimit | null;
+  reason: string | null;
+}
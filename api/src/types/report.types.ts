@@ -0,0 +1,97 @@
+/**
+ * 记账 / 报税导出类型定义
+ * 成交以交易所成交记录为准（价格、数量、手续费），strategy_orders 用于识别策略订单及其策略类型
+ */
+
+import { ProductType } from './futures.types';
+import { TradingType } from './trading.types';
+
+/**
+ * 导出格式
+ * - fills: 通用成交 CSV
+ * - trades: 往返交易 CSV（strategy_trades）
+ * - koinly: Koinly 通用导入格式
+ * - fifo: 现货按币种先进先出成本报告
+ */
+export type ReportFormat = 'fills' | 'trades' | 'koinly' | 'fifo';
+
+/** 导出范围：仅策略订单的成交，或账户内全部成交 */
+export type ReportScope = 'strategy' | 'all';
+
+export interface ReportQuery {
+  /** 交易账户（未指定为默认账户），成交与策略订单均限定在该账户内 */
+  accountId?: string;
+  /** 现货 / 合约账户 */
+  account: TradingType;
+  /** 合约产品线，默认 USDT-FUTURES */
+  productType?: ProductType;
+  symbol?: string;
+  startTime: number;
+  endTime: number;
+  scope: ReportScope;
+}
+
+/** 统一后的单笔成交 */
+export interface ReportFill {
+  account: TradingType;
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  baseCoin: string;
+  quoteCoin: string;
+  side: 'buy' | 'sell';
+  /** 合约开平方向，现货为 null */
+  tradeSide: string | null;
+  price: string;
+  size: string;
+  quoteAmount: string;
+  /** 手续费（正数） */
+  fee: string;
+  feeCoin: string;
+  /** 合约平仓已实现盈亏，现货为 null */
+  realizedPnl: string | null;
+  timestamp: number;
+  /** 策略订单的策略类型，非策略订单为 null */
+  strategyType: string | null;
+}
+
+/** FIFO 一次卖出的成本匹配 */
+export interface FifoDisposal {
+  coin: string;
+  symbol: string;
+  tradeId: string;
+  disposedAt: number;
+  size: string;
+  proceeds: string;               // 卖出所得（计价币，已扣计价币手续费）
+  costBasis: string;              // 匹配到的买入成本（含手续费）
+  gain: string;
+  /** 匹配到的最早一笔买入时间 */
+  acquiredAt: number | null;
+  holdingDays: number | null;
+  /** 没有足够买入记录匹配的数量（成本未知，不计入 costBasis / gain） */
+  unmatchedSize: string;
+}
+
+/** 以标的币、计价币以外的币种（如 BGB）支付的手续费，无法折算进成本，单独列出 */
+export interface FifoFee {
+  coin: string;
+  symbol: string;
+  tradeId: string;
+  chargedAt: number;
+  amount: string;
+}
+
+/** FIFO 期末持仓（按交易对汇总未卖出的买入批次，成本以该交易对计价币计） */
+export interface FifoHolding {
+  coin: string;
+  symbol: string;
+  size: string;
+  costBasis: string;
+  avgCost: string;
+}
+
+export interface FifoReport {
+  disposals: FifoDisposal[];
+  holdings: FifoHolding[];
+  fees: FifoFee[];
+}
@@ -3,7 +3,8 @@
  */
 
 import { ProductType, MarginMode } from './futures.types';
-import { StrategyType, TradingType } from './trading.types';
+import { CandleInterval, StrategyType, TradingType } from './trading.types';
+import type { MarketRegime, MarketRegimeResult } from '../strategy/indicators/market-regime-detector';
 
 /** 策略方向 */
 export type StrategyDirection = 'long' | 'short' | 'both';
@@ -12,7 +13,7 @@ export type StrategyDirection = 'long' | 'short' | 'both';
 export type StrategyStatus = 'STOPPED' | 'STARTING' | 'RUNNING' | 'STOPPING' | 'ERROR';
 
 /** 追踪订单状态 */
-export type TrackedOrderStatus = 'pending' | 'filled' | 'cancelled' | 'failed';
+export type TrackedOrderStatus = 'pending' | 'partially_filled' | 'filled' | 'cancelled' | 'failed';
 
 /** 追踪订单方向 */
 export type TrackedOrderSide = 'buy' | 'sell';
@@ -24,6 +25,9 @@ export interface BaseStrategyConfig {
   tradingType: TradingType;
   instanceId: string;
 
+  // 交易账户（未指定时为默认账户）
+  accountId?: string;
+
   // 交易对配置
   symbol: string;
 
@@ -60,6 +64,31 @@ export interface BaseStrategyConfig {
   trailingStopEnabled?: boolean;
   trailingStopActivationPercent?: number;
   trailingStopPercent?: number;
+
+  // 交易所侧止损（可选，仅合约）：为仓位挂 pos_loss 计划单，API 进程退出后仍然生效
+  exchangeStopLossEnabled?: boolean;
+  exchangeStopLossPercent?: number;  // 相对持仓均价的止损百分比，默认沿用 stopLossPercent
+
+  // 仓位对账（仅合约）：定期对比引擎推断仓位与交易所持仓
+  positionCheckIntervalMs?: number;          // 默认 60000，0 表示关闭
+  positionDriftTolerancePercent?: number;    // 偏差容差（相对较大一方的百分比），默认 1
+  positionAutoCorrect?: PositionAutoCorrectMode;  // 默认 off（只告警）
+
+  // 单笔持仓追踪止损（剥头皮 / 网格）：按每笔入场的最有利价格回撤触发，撤出场限价单改市价平仓
+  positionTrailingEnabled?: boolean;
+  positionTrailingMode?: TrailingDistanceMode;    // 默认 percent
+  positionTrailingPercent?: number;               // 回撤百分比，默认 1
+  positionTrailingAtrMultiplier?: number;         // ATR(14, 1m) 倍数，默认 2
+
+  // 资金费率保护（剥头皮 / 网格，仅合约）：费率绝对值达到阈值时停止支付方向的开仓
+  fundingGuardEnabled?: boolean;
+  fundingGuardMode?: FundingGuardMode;            // 默认 pause
+  fundingGuardThresholdPercent?: number;          // 单次结算费率阈值（%），默认 0.05
+  fundingGuardWindowMinutes?: number;             // pause 模式：结算前多少分钟生效，默认 30
+
+  // 纸面交易（可选）：订单在本地模拟撮合，不提交到交易所
+  paperTrading?: boolean;
+  paperInitialBalance?: string;
 }
 
 /** 剥头皮策略专属配置 */
@@ -76,6 +105,12 @@ export interface ScalpingStrategyConfig extends BaseStrategyConfig {
   volatilityMultiplier?: number;
   maxDynamicSpread?: string;
 
+  // 盘口深度定价（可选）
+  depthPricingEnabled?: boolean;
+  orderBookDepth?: number;              // 参与失衡度计算的档数，默认 5
+  imbalanceThreshold?: number;          // 失衡度阈值 (0, 1)，默认 0.3
+  improveQueueThresholdUsdt?: string;   // 最优档排队金额超过该值时抢先一档，默认 5000
+
   // WebSocket 行情（可选）
   useWebSocket?: boolean;
 }
@@ -97,8 +132,64 @@ export interface GridStrategyConfig extends BaseStrategyConfig {
   useWebSocket?: boolean;
 }
 
+/**
+ * DCA 开仓信号
+ * none: 无信号，周期结束后立即开新周期；rsi: RSI 超卖（做空为超买）时开仓；trend: EMA12/26 与 MACD 同向时顺势开仓
+ */
+export type DcaEntrySignal = 'none' | 'rsi' | 'trend';
+
+/** DCA（马丁格尔加仓）策略专属配置，orderAmountUsdt 为基础单金额 */
+export interface DcaStrategyConfig extends BaseStrategyConfig {
+  strategyType: 'dca';
+
+  // 安全单阶梯：第 k 单偏离 = deviation x (1 + stepScale + ... + stepScale^(k-1))，金额 = safetyOrderUsdt x volumeScale^(k-1)
+  safetyOrderUsdt: string;
+  maxSafetyOrders: number;
+  safetyOrderDeviationPercent: number;
+  safetyOrderStepScale: number;
+  safetyOrderVolumeScale: number;
+
+  // 止盈：相对持仓均价
+  takeProfitPercent: number;
+
+  // 开仓信号（可选，默认 none）
+  entrySignal?: DcaEntrySignal;
+  entryRsiThreshold?: number;     // 做多 RSI 低于该值开仓（做空取 100 - 该值），默认 35
+
+  // WebSocket 行情（可选）
+  useWebSocket?: boolean;
+}
+
+/**
+ * 期现基差/资金费率套利配置（现货做多 + 永续做空）
+ * tradingType 固定为 futures（永续腿），现货腿使用同名现货交易对；orderAmountUsdt 为每次建仓/减仓的单腿金额，
+ * maxPositionUsdt 为单腿名义价值上限
+ */
+export interface BasisStrategyConfig extends BaseStrategyConfig {
+  strategyType: 'basis';
+
+  // 开仓：年化资金费率或基差任一超过阈值
+  entryFundingAprPercent: number;
+  entryBasisPercent: number;
+
+  // 平仓：年化资金费率与基差都回落到阈值以下（价差收敛）
+  exitFundingAprPercent: number;
+  exitBasisPercent: number;
+
+  // 执行：两腿都以 IOC 限价单吃单，限价相对对手价的最大滑点
+  maxSlippagePercent: number;
+  // 单腿成交后另一腿补单的最大尝试次数，仍未对冲则回滚已成交的一腿
+  legRetryLimit?: number;
+
+  // 对冲比例（永续空单 / 现货数量）偏离 1 超过该百分比时调整永续腿
+  hedgeRebalanceThresholdPercent: number;
+
+  // WebSocket 行情（可选，仅永续腿）
+  useWebSocket?: boolean;
+}
+
 /** 任意策略配置联合类型 */
-export type AnyStrategyConfig = ScalpingStrategyConfig | GridStrategyConfig;
+export type AnyStrategyConfig = ScalpingStrategyConfig | GridStrategyConfig | DcaStrategyConfig | BasisStrategyConfig;
 
 /** 订单角色（入场/出场） */
 export type OrderRole = 'entry' | 'exit';
@@ -116,6 +207,9 @@ export interface TrackedOrder {
   orderRole?: OrderRole;
   createdAt: number;              // timestamp ms
   filledAt: number | null;
+  filledSize?: string;            // 累计成交数量（部分成交时更新，撤单后保留已成交部分）
+  avgFillPrice?: string;          // 成交均价
+  fee?: string;                   // 累计手续费（来自成交数据，未知时按规格费率估算）
 }
 
 /** 策略运行状态 */
@@ -145,6 +239,42 @@ export interface StrategyState {
   lastTrackingPrices?: Record<string, string | null>;    // { long: bid1, short: ask1 }
   pendingExitCounts?: Record<string, number>;            // { long: N, short: M }
   positionUsdtByDirection?: Record<string, string>;      // { long: '100', short: '50' }
+
+  // DCA 当前周期（无持仓时为 null）
+  dcaCycle?: DcaCycleSnapshot | null;
+
+  // 期现套利当前对冲仓位与价差
+  basisPosition?: BasisPositionSnapshot | null;
+
+  // 单笔持仓追踪止损当前止损位
+  trailingStops?: TrailingStopSnapshot[];
+}
+
+/** DCA 周期快照 */
+export interface DcaCycleSnapshot {
+  direction: 'long' | 'short';
+  basePrice: string;              // 安全单价格锚点（基础单成交价）
+  avgPrice: string;
+  positionSize: string;
+  filledSafetyOrders: number;
+  maxSafetyOrders: number;
+  takeProfitPrice: string | null;
+  nextSafetyPrice: string | null;  // 安全单已用完时为 null
+  startedAt: number;
+}
+
+/** 期现套利对冲仓位快照 */
+export interface BasisPositionSnapshot {
+  spotSize: string;
+  perpSize: string;
+  spotAvgPrice: string;
+  perpAvgPrice: string;
+  hedgeRatio: string | null;      // 永续空单 / 现货数量，无现货持仓时为 null
+  notionalUsdt: string;           // 现货腿名义价值
+  fundingAprPercent: string | null;
+  basisPercent: string | null;    // (永续 - 现货) / 现货
+  nextFundingTime: number | null;
+  openedAt: number | null;
 }
 
 /** 策略事件类型 */
@@ -165,7 +295,24 @@ export type StrategyEventType =
   | 'GRID_BUY_FILLED'
   | 'GRID_SELL_FILLED'
   | 'GRID_LEVEL_UPDATED'
-  | 'GRID_REBALANCED';
+  | 'GRID_REBALANCED'
+  | 'FUNDING_SETTLED'
+  | 'ORDERS_RECONCILED'
+  | 'STRATEGY_SUSPENDED'
+  | 'EXCHANGE_STOP_LOSS_UPDATED'
+  | 'POSITION_DRIFT'
+  | 'DCA_CYCLE_STARTED'
+  | 'DCA_SAFETY_FILLED'
+  | 'DCA_CYCLE_CLOSED'
+  | 'BASIS_HEDGE_OPENED'
+  | 'BASIS_HEDGE_CLOSED'
+  | 'BASIS_HEDGE_REBALANCED'
+  | 'BASIS_LEG_IMBALANCE'
+  | 'TRAILING_STOP_MOVED'
+  | 'TRAILING_STOP_TRIGGERED'
+  | 'REGIME_SWITCHED'
+  | 'PORTFOLIO_RISK_BREACH'
+  | 'FUNDING_GUARD_CHANGED';
 
 /** 策略事件 */
 export interface StrategyEvent {
@@ -174,10 +321,226 @@ export interface StrategyEvent {
   data: Record<string, unknown>;
 }
 
+/** 已持久化的策略事件（strategy_events 表） */
+export interface PersistedStrategyEvent extends StrategyEvent {
+  id: string;                     // 自增 ID，用作分页游标
+  instanceId: string | null;
+  strategyType: string | null;
+  symbol: string | null;
+}
+
+/** 事件历史查询条件 */
+export interface StrategyEventQuery {
+  instanceId?: string;
+  types?: StrategyEventType[];
+  startTime?: number;             // ms，含
+  endTime?: number;               // ms，含
+  cursor?: string;                // 上一页最后一条的 id，返回比它更早的事件
+  limit?: number;
+  accountIds?: string[];          // 只返回所涉账户全在其中的事件（不传为不限制）
+}
+
+/** 事件历史分页结果（按 id 倒序，nextCursor 为 null 表示已无更多） */
+export interface StrategyEventPage {
+  events: PersistedStrategyEvent[];
+  nextCursor: string | null;
+}
+
+/** 启动对账报告：DB 中未结订单与交易所挂单 / 订单历史的核对结果 */
+export interface OrderReconcileReport {
+  checkedAt: number;
+  persistedOrders: number;        // DB 中未结订单数
+  live: number;                   // 仍在挂单（含部分成交）
+  filledWhileDown: number;        // 停机期间完全成交
+  cancelledWhileDown: number;     // 停机期间被撤（含部分成交后被撤）
+  unknownExchangeOrders: string[];  // 交易所有本策略挂单但 DB 无记录
+  unmappedOrders: string[];       // 无法还原到当前策略状态的订单（如网格区间已变更）
+  queryErrors: { orderId: string; error: string }[];
+  ok: boolean;                    // false 时策略不启动，保持交易所现状
+  reason: string | null;
+}
+
+/** 重启恢复结果 */
+export type StrategyResumeOutcome = 'resumed' | 'stopped' | 'skipped';
+
+/** 重启恢复报告（每个 RUNNING 实例一份） */
+export interface StrategyResumeReport {
+  instanceId: string;
+  accountId?: string;
+  strategyType: StrategyType;
+  symbol: string;
+  outcome: StrategyResumeOutcome;
+  reason: string | null;
+  reconcile: OrderReconcileReport | null;
+  resumedAt: number;
+}
+
+/**
+ * 仓位漂移自动纠正方式
+ * off: 只发 POSITION_DRIFT 事件；close_excess: 交易所多出的仓位市价平掉；
+ * sync: 在 close_excess 基础上，交易所仓位不足时撤掉多出的出场挂单
+ */
+export type PositionAutoCorrectMode = 'off' | 'close_excess' | 'sync';
+
+/** 追踪止损距离：percent 为最有利价格的百分比，atr 为 ATR × 倍数（无 K 线时回退到百分比） */
+export type TrailingDistanceMode = 'percent' | 'atr';
+
+/**
+ * 资金费率保护模式
+ * pause: 仅在结算前窗口内暂停支付方向开仓；bias: 费率超过阈值期间始终只做收取方向
+ */
+export type FundingGuardMode = 'pause' | 'bias';
+
+/** 单笔持仓追踪止损快照（key 为当前出场单 ID） */
+export interface TrailingStopSnapshot {
+  key: string;
+  direction: 'long' | 'short';
+  entryPrice: string;
+  peakPrice: string;              // 入场后最有利价格
+  stopPrice: string;
+  size: string;
+  updatedAt: number;
+}
+
+/** 单方向仓位对账快照 */
+export interface PositionSnapshot {
+  direction: 'long' | 'short';
+  inferredSize: string;           // 引擎推断（出场挂单剩余 + 入场单已成交部分）
+  exchangeSize: string;
+  drift: string;                  // exchangeSize - inferredSize
+  openPriceAvg: string | null;
+  inSync: boolean;
+  driftChecks: number;            // 连续超出容差的检查次数
+  checkedAt: number;
+}
+
+/** 策略实例仓位视图（/api/strategy/positions） */
+export interface StrategyPositionView {
+  instanceId: string;
+  strategyType: StrategyType;
+  symbol: string;
+  status: StrategyStatus;
+  positions: PositionSnapshot[];
+}
+
+/** 持久化的策略实例运行状态（strategy_instances 表） */
+export interface PersistedStrategyInstance {
+  instanceId: string;
+  strategyType: StrategyType;
+  tradingType: TradingType;
+  symbol: string;
+  config: AnyStrategyConfig;
+  status: StrategyStatus;
+}
+
+/** 市场状态监管模式：震荡 → 网格，高波动 → 剥头皮，逆向强趋势 → 暂停 */
+export type SupervisedMode = 'grid' | 'scalping' | 'paused';
+
+/** 市场状态监管配置 */
+export interface RegimeSupervisorConfig {
+  supervisorId: string;
+  symbol: string;
+  tradingType: TradingType;
+  productType?: ProductType;
+  /** 交易方向：做多遇强下跌、做空遇强上涨时暂停 */
+  direction: 'long' | 'short';
+  /** 市场状态检测使用的 K 线周期 */
+  interval: CandleInterval;
+  checkIntervalMs: number;
+  /** 震荡/高波动的置信度达到该值才计入切换确认 */
+  minConfidence: number;
+  /** 目标模式需连续确认的检测次数 */
+  confirmChecks: number;
+  /** 进入某模式后的最短停留时间（ms），期间不切换（逆向强趋势暂停除外） */
+  minDwellMs: number;
+  /** 逆向趋势置信度达到该值时暂停 */
+  pauseConfidence: number;
+  /** 暂停后逆向趋势置信度回落到该值以下才恢复（低于 pauseConfidence，形成滞回区间） */
+  resumeConfidence: number;
+  /** 停止监管时撤单并市价平掉当前实例持仓；false 时只停止实例。模式切换时旧实例总是平仓，不受此项影响 */
+  closeOnStop: boolean;
+  gridConfig: Partial<GridStrategyConfig>;
+  scalpingConfig: Partial<ScalpingStrategyConfig>;
+}
+
+/** 一次模式切换记录 */
+export interface RegimeSwitchRecord {
+  from: SupervisedMode | null;
+  to: SupervisedMode;
+  regime: MarketRegime;
+  confidence: number;
+  reason: string;
+  stoppedInstanceId: string | null;
+  startedInstanceId: string | null;
+  switchedAt: number;
+}
+
+/** 市场状态监管运行状态 */
+export interface RegimeSupervisorState {
+  supervisorId: string;
+  config: RegimeSupervisorConfig;
+  running: boolean;
+  mode: SupervisedMode | null;
+  activeInstanceId: string | null;
+  modeSince: number | null;
+  /** 待确认的目标模式及已连续确认次数 */
+  candidateMode: SupervisedMode | null;
+  candidateChecks: number;
+  lastRegime: MarketRegimeResult | null;
+  lastCheckAt: number | null;
+  lastError: string | null;
+  /** 最近的切换记录（新的在前） */
+  switches: RegimeSwitchRecord[];
+}
+
+/** 持久化的市场状态监管（regime_supervisors 表） */
+export interface PersistedRegimeSupervisor {
+  config: RegimeSupervisorConfig;
+  mode: SupervisedMode | null;
+  activeInstanceId: string | null;
+  modeSince: number | null;
+}
+
+/** 实时推送消息类型（/api/stream） */
+export type StrategyStreamMessageType = 'status' | 'event' | 'orders' | 'pnl';
+
+/** 实时推送消息 */
+export interface StrategyStreamMessage {
+  type: StrategyStreamMessageType;
+  instanceId: string;
+  accountId?: string;             // 实例所属交易账户（未指定为默认账户），用于按用户授权过滤
+  timestamp: number;
+  data: unknown;                  // status: StrategyState, event: StrategyEvent, orders: 订单汇总, pnl: PnlSummary
+}
+
+/** PnL 账本条目类型 */
+export type PnlLedgerEntryType = 'trade' | 'funding';
+
+/** PnL 账本条目：一笔平仓交易或一次资金费结算 */
+export interface PnlLedgerEntry {
+  type: PnlLedgerEntryType;
+  timestamp: number;
+  direction?: 'long' | 'short';
+  entryOrderId?: string;
+  exitOrderId?: string;
+  entryPrice?: string;            // 实际成交均价
+  exitPrice?: string;
+  size?: string;
+  grossPnl: string;
+  fee: string;                    // 开平仓手续费合计
+  funding: string;                // 资金费（正数为收取）
+  netPnl: string;
+  billId?: string;
+}
+
 /** PnL 汇总 */
 export interface PnlSummary {
-  realizedPnl: string;
+  realizedPnl: string;            // = netPnl
   unrealizedPnl: string;
+  grossPnl: string;
+  fees: string;
+  funding: string;
+  netPnl: string;
   dailyPnl: string;
   totalTrades: number;
   winTrades: number;
@@ -239,3 +602,62 @@ export const DEFAULT_GRID_CONFIG: GridStrategyConfig = {
   pricePrecision: 1,
   sizePrecision: 6,
 };
+
+/** 默认 DCA 配置 */
+export const DEFAULT_DCA_CONFIG: DcaStrategyConfig = {
+  strategyType: 'dca',
+  tradingType: 'futures',
+  instanceId: 'default',
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  direction: 'long',
+  orderAmountUsdt: '20',
+  maxPositionUsdt: '1500',
+  leverage: '1',
+  marginMode: 'crossed',
+  marginCoin: 'USDT',
+  safetyOrderUsdt: '20',
+  maxSafetyOrders: 5,
+  safetyOrderDeviationPercent: 1,
+  safetyOrderStepScale: 1.2,
+  safetyOrderVolumeScale: 1.5,
+  takeProfitPercent: 1,
+  entrySignal: 'none',
+  pollIntervalMs: 2000,
+  orderCheckIntervalMs: 3000,
+  maxDrawdownPercent: 10,
+  stopLossPercent: 5,
+  maxDailyLossUsdt: '100',
+  cooldownMs: 60000,
+  pricePrecision: 1,
+  sizePrecision: 6,
+};
+
+/** 期现套利默认配置 */
+export const DEFAULT_BASIS_CONFIG: BasisStrategyConfig = {
+  strategyType: 'basis',
+  tradingType: 'futures',
+  instanceId: 'default',
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  orderAmountUsdt: '100',
+  maxPositionUsdt: '1000',
+  leverage: '2',
+  marginMode: 'crossed',
+  marginCoin: 'USDT',
+  entryFundingAprPercent: 15,
+  entryBasisPercent: 0.3,
+  exitFundingAprPercent: 3,
+  exitBasisPercent: 0.05,
+  maxSlippagePercent: 0.1,
+  legRetryLimit: 3,
+  hedgeRebalanceThresholdPercent: 2,
+  pollIntervalMs: 5000,
+  orderCheckIntervalMs: 5000,
+  maxDrawdownPercent: 10,
+  stopLossPercent: 5,
+  maxDailyLossUsdt: '50',
+  cooldownMs: 300000,
+  pricePrecision: 1,
+  sizePrecision: 4,
+};
@@ -0,0 +1,70 @@
+/**
+ * 交易日志类型定义
+ * 一条记录 = 一笔完成的往返交易（入场成交 → 出场成交），价格与盈亏与 PnL 账本一致
+ */
+
+import type { EntryDirection } from '../strategy/order-state-tracker';
+
+/**
+ * 合并来源：被 MergeEngine 合并掉的一张出场单及其入场单
+ * 嵌套合并时展开为最底层的入场单
+ */
+export interface MergeLineageEntry {
+  exitOrderId: string;
+  entryOrderId: string | null;
+  /** 入场成交均价，入场单已不在追踪器中时为 null */
+  entryPrice: string | null;
+  /** 并入合并单的数量（原出场单剩余未成交部分） */
+  size: string;
+  /** 该部分分摊的入场手续费，未知时为 null */
+  entryFee: string | null;
+  openedAt: number | null;
+}
+
+/** 往返交易 */
+export interface RoundTripTrade {
+  instanceId: string;
+  strategyType: string;
+  symbol: string;
+  direction: EntryDirection;
+  /** 合并出场单没有单一入场单，为 null，来源见 mergedFrom */
+  entryOrderId: string | null;
+  exitOrderId: string;
+  entryPrice: string;
+  exitPrice: string;
+  size: string;
+  fees: string;
+  grossPnl: string;
+  netPnl: string;
+  openedAt: number | null;
+  closedAt: number;
+  holdMs: number | null;
+  mergedFrom: MergeLineageEntry[];
+}
+
+/** 已落库的往返交易 */
+export interface PersistedRoundTripTrade extends RoundTripTrade {
+  id: string;
+}
+
+/** 交易日志查询条件 */
+export interface TradeJournalQuery {
+  instanceId?: string;
+  strategyType?: string;
+  symbol?: string;
+  direction?: EntryDirection;
+  /** 只看由合并出场单平仓的交易 */
+  mergedOnly?: boolean;
+  startTime?: number;             // 按平仓时间，ms，含
+  endTime?: number;
+  cursor?: string;                // 上一页最后一条的 id
+  limit?: number;
+  /** 只返回绑定这些交易账户的实例的交易（不传为不限制） */
+  accountIds?: string[];
+}
+
+/** 交易日志分页结果（按 id 倒序，nextCursor 为 null 表示已无更多） */
+export interface TradeJournalPage {
+  trades: PersistedRoundTripTrade[];
+  nextCursor: string | null;
+}
@@ -6,8 +6,17 @@
 /** 交易类型 */
 export type TradingType = 'futures' | 'spot';
 
-/** 策略类型 */
-export type StrategyType = 'scalping' | 'grid';
+/** 内置策略类型 */
+export type BuiltInStrategyType = 'scalping' | 'grid' | 'dca' | 'basis';
+
+/** K 线周期（合约/现货通用写法，请求交易所时按市场换成对应的 granularity） */
+export type CandleInterval =
+  | '1m' | '3m' | '5m' | '15m' | '30m'
+  | '1h' | '4h' | '6h' | '12h'
+  | '1d' | '3d' | '1w';
+
+/** 策略类型（内置类型或插件注册的自定义类型，见 strategy-registry） */
+export type StrategyType = BuiltInStrategyType | (string & {});
 
 /** 统一下单参数（屏蔽合约/现货差异） */
 export interface UnifiedPlaceOrderParams {
@@ -23,6 +32,8 @@ export interface UnifiedPlaceOrderParams {
   marginMode?: string;
   marginCoin?: string;
   tradeSide?: string;
+  /** 出场/平仓单标记：组合风控始终放行（单向持仓没有 tradeSide，无法据此判断减仓） */
+  reduceOnly?: boolean;
 }
 
 /** 统一下单结果 */
@@ -72,8 +83,122 @@ export interface UnifiedOrderDetail {
   size: string;
   filledQty: string;
   price: string;
+  priceAvg: string;  // 成交均价（未成交为 '0'）
+  fee: string;       // 累计手续费（正数为支出，未知为 '0'）
+  side: 'buy' | 'sell';
+  state: string;  // 'live' | 'partially_filled' | 'filled' | 'cancelled'
+}
+
+/** 统一资金费结算记录（合约） */
+export interface UnifiedFundingPayment {
+  billId: string;
+  symbol: string;
+  amount: string;  // 正数为收取，负数为支付
+  timestamp: number;
+}
+
+/** 统一订单推送（WebSocket orders 频道） */
+export interface UnifiedOrderUpdate {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
   side: 'buy' | 'sell';
   state: string;  // 'live' | 'partially_filled' | 'filled' | 'cancelled'
+  size: string;
+  filledQty: string;   // 累计成交数量
+  priceAvg: string;
+  fillPrice: string;   // 本次成交价（非成交推送为 '0'）
+  fillSize: string;    // 本次成交数量
+  fillFee: string;
+  uTime: string;
+}
+
+/** 计划委托分类：止盈止损（挂在仓位上）/ 触发单（触价后下单） */
+export type PlanOrderCategory = 'tpsl' | 'trigger';
+
+/** 止盈止损类型：pos_* 作用于整个仓位，*_plan 为指定数量的部分止盈止损 */
+export type TpslPlanType = 'pos_profit' | 'pos_loss' | 'profit_plan' | 'loss_plan';
+
+/** 触发价格类型：最新成交价 / 标记价格 */
+export type PlanTriggerType = 'fill_price' | 'mark_price';
+
+/** 统一止盈止损下单参数（合约） */
+export interface UnifiedTpslOrderParams {
+  symbol: string;
+  planType: TpslPlanType;
+  triggerPrice: string;
+  triggerType?: PlanTriggerType;
+  executePrice?: string;  // 不传为市价执行
+  holdSide: 'long' | 'short' | 'buy' | 'sell';  // 双向持仓 long/short；单向持仓 buy/sell
+  size?: string;          // *_plan 必填，pos_* 忽略
+  clientOid?: string;
+}
+
+/** 统一止盈止损修改参数 */
+export interface UnifiedModifyTpslParams {
+  symbol: string;
+  orderId: string;
+  triggerPrice: string;
+  triggerType?: PlanTriggerType;
+  executePrice?: string;
+  size?: string;
+}
+
+/** 统一触发单下单参数 */
+export interface UnifiedTriggerOrderParams {
+  symbol: string;
+  side: 'buy' | 'sell';
+  orderType: 'limit' | 'market';
+  price?: string;
+  size: string;
+  triggerPrice: string;
+  triggerType?: PlanTriggerType;
+  tradeSide?: string;
+  /** 出场/平仓单标记，同 UnifiedPlaceOrderParams.reduceOnly */
+  reduceOnly?: boolean;
+  clientOid?: string;
+}
+
+/** 统一触发单修改参数（未指定的字段保持不变） */
+export interface UnifiedModifyTriggerParams {
+  symbol: string;
+  orderId: string;
+  triggerPrice?: string;
+  price?: string;
+  size?: string;
+}
+
+/** 统一计划委托撤单参数 */
+export interface UnifiedCancelPlanParams {
+  symbol: string;
+  orderId: string;
+  category: PlanOrderCategory;
+}
+
+/** 统一计划委托信息 */
+export interface UnifiedPlanOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  category: PlanOrderCategory;
+  planType: string;
+  side: 'buy' | 'sell';
+  holdSide: string;
+  triggerPrice: string;
+  executePrice: string;  // '0' 表示市价执行
+  size: string;          // 仓位止盈止损为 '0'（整仓）
+  status: string;        // 'live' | 'executed' | 'cancelled' | 'failed'
+  cTime: string;
+}
+
+/** 统一持仓信息（合约；单向持仓按数量方向折算为 long/short） */
+export interface UnifiedPosition {
+  symbol: string;
+  holdSide: 'long' | 'short';
+  total: string;
+  available: string;
+  openPriceAvg: string;
+  unrealizedPL: string;
 }
 
 /** 统一 Ticker 信息 */
@@ -92,6 +217,14 @@ export interface UnifiedTickerInfo {
   ts: string;
 }
 
+/** 统一盘口深度（价格从优到劣排序） */
+export interface UnifiedOrderBook {
+  symbol: string;
+  bids: Array<[string, string]>;  // [price, size]
+  asks: Array<[string, string]>;  // [price, size]
+  ts: string;
+}
+
 /** 统一交易对规格信息 */
 export interface InstrumentSpec {
   tradingType: TradingType;
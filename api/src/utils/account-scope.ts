@@ -0,0 +1,16 @@
+/**
+ * 按交易账户限定持久化数据查询
+ * 实例所属账户取自 strategy_instances.config.accountId；未记录账户或无实例记录的数据视为默认账户
+ */
+
+import { DEFAULT_ACCOUNT_ID } from '../config/bitget';
+
+/**
+ * 生成 SQL 条件：instanceColumn 所指实例的账户属于 placeholder（text[] 参数）
+ */
+export function instanceAccountCondition(instanceColumn: string, placeholder: string): string {
+  return `COALESCE(
+    (SELECT NULLIF(si.config->>'accountId', '') FROM strategy_instances si WHERE si.instance_id = ${instanceColumn}),
+    '${DEFAULT_ACCOUNT_ID}'
+  ) = ANY(${placeholder})`;
+}
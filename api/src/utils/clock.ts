@@ -0,0 +1,18 @@
+/**
+ * 时钟抽象
+ * 策略引擎通过 Clock 获取时间与调度定时器，实盘使用系统时钟，回测注入虚拟时钟
+ */
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
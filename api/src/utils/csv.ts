@@ -0,0 +1,22 @@
+/**
+ * CSV 序列化工具
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * 转义单个字段：含逗号、引号、换行时用双引号包裹
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * 生成 CSV 文本（首行为表头）
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+  return lines.join('\n') + '\n';
+}
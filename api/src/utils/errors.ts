@@ -57,6 +57,8 @@ export const ErrorCode = {
   FUTURES_ORDER_FAILED: 'FUTURES_ORDER_FAILED',
   FUTURES_CANCEL_FAILED: 'FUTURES_CANCEL_FAILED',
   FUTURES_BATCH_CANCEL_FAILED: 'FUTURES_BATCH_CANCEL_FAILED',
+  FUTURES_PLAN_ORDER_FAILED: 'FUTURES_PLAN_ORDER_FAILED',
+  PLAN_ORDER_NOT_SUPPORTED: 'PLAN_ORDER_NOT_SUPPORTED',
 
   // 现货错误
   SPOT_ORDER_FAILED: 'SPOT_ORDER_FAILED',
@@ -72,6 +74,16 @@ export const ErrorCode = {
   STRATEGY_RISK_LIMIT: 'STRATEGY_RISK_LIMIT',
   STRATEGY_MERGE_FAILED: 'STRATEGY_MERGE_FAILED',
   STRATEGY_TYPE_UNSUPPORTED: 'STRATEGY_TYPE_UNSUPPORTED',
+  STRATEGY_RECONCILE_FAILED: 'STRATEGY_RECONCILE_FAILED',
+
+  // 市场状态监管错误
+  REGIME_SUPERVISOR_NOT_FOUND: 'REGIME_SUPERVISOR_NOT_FOUND',
+  REGIME_SUPERVISOR_ALREADY_RUNNING: 'REGIME_SUPERVISOR_ALREADY_RUNNING',
+  REGIME_SUPERVISOR_CONFIG_INVALID: 'REGIME_SUPERVISOR_CONFIG_INVALID',
+
+  // 组合风控错误
+  PORTFOLIO_RISK_VETO: 'PORTFOLIO_RISK_VETO',
+  PORTFOLIO_RISK_CONFIG_INVALID: 'PORTFOLIO_RISK_CONFIG_INVALID',
 
   // 网格策略错误
   GRID_CONFIG_INVALID: 'GRID_CONFIG_INVALID',
@@ -83,6 +95,15 @@ export const ErrorCode = {
   // 交易对规格错误
   INSTRUMENT_SPEC_NOT_FOUND: 'INSTRUMENT_SPEC_NOT_FOUND',
 
+  // 回测错误
+  BACKTEST_INVALID_INPUT: 'BACKTEST_INVALID_INPUT',
+  BACKTEST_DATA_UNAVAILABLE: 'BACKTEST_DATA_UNAVAILABLE',
+
+  // 交易账户错误
+  BITGET_ACCOUNT_NOT_FOUND: 'BITGET_ACCOUNT_NOT_FOUND',
+  BITGET_ACCOUNT_INVALID: 'BITGET_ACCOUNT_INVALID',
+  BITGET_ACCOUNT_IN_USE: 'BITGET_ACCOUNT_IN_USE',
+
   // 认证错误
   AUTH_INVALID_CREDENTIALS: 'AUTH_INVALID_CREDENTIALS',
   AUTH_TOKEN_MISSING: 'AUTH_TOKEN_MISSING',
@@ -96,6 +117,10 @@ export const ErrorCode = {
   POLYMARKET_FETCH_FAILED: 'POLYMARKET_FETCH_FAILED',
   POLYMARKET_CONFIG_INVALID: 'POLYMARKET_CONFIG_INVALID',
 
+  // 通知错误
+  NOTIFICATION_CONFIG_INVALID: 'NOTIFICATION_CONFIG_INVALID',
+  NOTIFICATION_SEND_FAILED: 'NOTIFICATION_SEND_FAILED',
+
   // 数据库错误
   DATABASE_ERROR: 'DATABASE_ERROR',
   TRANSACTION_FAILED: 'TRANSACTION_FAILED',
@@ -30,17 +30,23 @@ export function getLogLevel(): LogLevel {
   return currentLevel;
 }
 
-function shouldLog(level: LogLevel): boolean {
-  return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[currentLevel];
-}
-
 // AsyncLocalStorage for request-scoped correlationId
 interface LogContext {
   correlationId?: string;
+  /** 作用域内最低日志级别（回测等批量场景用于压制引擎日志） */
+  minLevel?: LogLevel;
 }
 
 export const logContext = new AsyncLocalStorage<LogContext>();
 
+function shouldLog(level: LogLevel): boolean {
+  const scopedLevel = logContext.getStore()?.minLevel;
+  const effectiveLevel = scopedLevel && LOG_LEVEL_PRIORITY[scopedLevel] > LOG_LEVEL_PRIORITY[currentLevel]
+    ? scopedLevel
+    : currentLevel;
+  return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[effectiveLevel];
+}
+
 export function getCorrelationId(): string | undefined {
   return logContext.getStore()?.correlationId;
 }
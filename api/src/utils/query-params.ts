@@ -0,0 +1,30 @@
+/**
+ * 路由查询参数解析
+ */
+
+import { AppError, ErrorCode } from './errors';
+
+/**
+ * 解析时间参数：毫秒时间戳或 ISO 字符串
+ */
+export function parseTimeParam(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const str = String(value);
+  const ms = /^\d+$/.test(str) ? parseInt(str, 10) : Date.parse(str);
+  if (Number.isNaN(ms)) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, `无效的时间参数 ${name}`, { [name]: str }, 400);
+  }
+  return ms;
+}
+
+/**
+ * 解析分页游标：上一页最后一条记录的自增 id（正整数，按字符串传给 BIGINT 比较）
+ */
+export function parseCursorParam(value: unknown): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const str = String(value);
+  if (!/^[1-9]\d{0,18}$/.test(str)) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'cursor 必须是正整数', { cursor: str }, 400);
+  }
+  return str;
+}
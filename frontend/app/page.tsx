@@ -1,20 +1,27 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Layout, Row, Col, Typography, Tag, Space, Button, Dropdown, Collapse } from 'antd';
 import {
   SettingOutlined,
   LogoutOutlined,
   UserOutlined,
+  DownloadOutlined,
 } from '@ant-design/icons';
 import StrategyControlPanel from '@/components/StrategyControlPanel';
 import MetricsCards from '@/components/MetricsCards';
 import OrderTable from '@/components/OrderTable';
 import EventLog from '@/components/EventLog';
+import TrailingStopPanel from '@/components/TrailingStopPanel';
+import RegimeSupervisorPanel from '@/components/RegimeSupervisorPanel';
+import PortfolioRiskPanel from '@/components/PortfolioRiskPanel';
+import AnalyticsPanel from '@/components/AnalyticsPanel';
 import ConfigWizard from '@/components/ConfigWizard';
+import ReportExportModal from '@/components/ReportExportModal';
 import PolymarketSignalPanel from '@/components/PolymarketSignalPanel';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useStrategyStatus } from '@/hooks/useStrategyStatus';
+import { useStrategyStream } from '@/hooks/useStrategyStream';
 import { useAuth } from '@/providers/AuthProvider';
 import { STRATEGY_TYPE_LABELS, TRADING_TYPE_LABELS } from '@/lib/constants';
 import { useRouter } from 'next/navigation';
@@ -23,11 +30,19 @@ const { Header, Content } = Layout;
 const { Title } = Typography;
 
 function DashboardContent() {
+  useStrategyStream();
   const { status } = useStrategyStatus();
   const { user, logout } = useAuth();
   const router = useRouter();
+  const [reportOpen, setReportOpen] = useState(false);
 
   const menuItems = [
+    {
+      key: 'reports',
+      icon: <DownloadOutlined />,
+      label: '导出报表',
+      onClick: () => setReportOpen(true),
+    },
     {
       key: 'settings',
       icon: <SettingOutlined />,
@@ -50,7 +65,7 @@ function DashboardContent() {
           <Title level={4} style={{ color: '#fff', margin: 0 }}>
             Bitget 策略交易面板
           </Title>
-          <Tag color="blue">{STRATEGY_TYPE_LABELS[status?.strategyType || 'scalping']}</Tag>
+          <Tag color="blue">{STRATEGY_TYPE_LABELS[status?.strategyType || 'scalping'] || status?.strategyType}</Tag>
           <Tag color="cyan">{TRADING_TYPE_LABELS[status?.tradingType || 'futures']}</Tag>
         </Space>
         <Dropdown menu={{ items: menuItems }} placement="bottomRight">
@@ -58,6 +73,7 @@ function DashboardContent() {
             {user?.display_name || user?.username || ''}
           </Button>
         </Dropdown>
+        <ReportExportModal open={reportOpen} onClose={() => setReportOpen(false)} />
       </Header>
       <Content style={{ padding: 24, maxWidth: 1440, margin: '0 auto', width: '100%' }}>
         <Row gutter={[16, 16]}>
@@ -67,12 +83,24 @@ function DashboardContent() {
           <Col span={24}>
             <MetricsCards />
           </Col>
+          <Col span={24}>
+            <PortfolioRiskPanel />
+          </Col>
+          <Col span={24}>
+            <AnalyticsPanel />
+          </Col>
           <Col span={16}>
             <OrderTable />
           </Col>
           <Col span={8}>
             <EventLog />
           </Col>
+          <Col span={24}>
+            <TrailingStopPanel />
+          </Col>
+          <Col span={24}>
+            <RegimeSupervisorPanel />
+          </Col>
           <Col span={24}>
             <PolymarketSignalPanel />
           </Col>
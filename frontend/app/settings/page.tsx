@@ -2,10 +2,11 @@
 
 import React from 'react';
 import { Layout, Typography, Tabs, Button, Space } from 'antd';
-import { ArrowLeftOutlined, ApiOutlined, SettingOutlined, TeamOutlined, FileTextOutlined } from '@ant-design/icons';
+import { ArrowLeftOutlined, ApiOutlined, SettingOutlined, TeamOutlined, FileTextOutlined, WalletOutlined } from '@ant-design/icons';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import SystemConfigPanel from '@/components/SystemConfigPanel';
 import UserManagement from '@/components/UserManagement';
+import BitgetAccountManagement from '@/components/BitgetAccountManagement';
 import LogViewer from '@/components/LogViewer';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/providers/AuthProvider';
@@ -24,6 +25,11 @@ function SettingsContent() {
       label: <span><ApiOutlined /> API 凭证</span>,
       children: <SystemConfigPanel section="api" />,
     },
+    {
+      key: 'accounts',
+      label: <span><WalletOutlined /> 交易账户</span>,
+      children: <BitgetAccountManagement />,
+    },
     {
       key: 'system',
       label: <span><SettingOutlined /> 系统配置</span>,
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, Col, Empty, InputNumber, Row, Segmented, Space, Statistic, Table, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useAnalytics } from '@/hooks/useAnalytics';
+import type { AnalyticsPeriod, DrawdownPeriod } from '@/lib/types';
+import { formatPnl, formatUptime, formatUsdt } from '@/lib/formatters';
+import { ANALYTICS_PERIOD_LABELS } from '@/lib/constants';
+
+const { Text } = Typography;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const POSITIVE_COLOR = '#3f8600';
+const NEGATIVE_COLOR = '#cf1322';
+
+/** 折线 + 回撤面积（回撤画在零轴下方） */
+function EquityChart({ values, drawdowns }: { values: number[]; drawdowns: number[] }) {
+  const min = Math.min(0, ...values, ...drawdowns.map(d => -d));
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const x = (i: number) => (values.length > 1 ? (i / (values.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2);
+  const y = (v: number) => CHART_HEIGHT - ((v - min) / range) * CHART_HEIGHT;
+
+  const line = values.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+  const area = [
+    `${x(0)},${y(0)}`,
+    ...drawdowns.map((d, i) => `${x(i)},${y(-d)}`),
+    `${x(drawdowns.length - 1)},${y(0)}`,
+  ].join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} width="100%" height={CHART_HEIGHT} preserveAspectRatio="none">
+      <polygon points={area} fill={NEGATIVE_COLOR} fillOpacity={0.15} />
+      <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#d9d9d9" strokeDasharray="4 4" />
+      <polyline points={line} fill="none" stroke="#1677ff" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+/** 正负柱状图 */
+function BarChart({ values, labels }: { values: number[]; labels: string[] }) {
+  const maxAbs = Math.max(...values.map(Math.abs)) || 1;
+  const slot = CHART_WIDTH / Math.max(values.length, 1);
+  const mid = CHART_HEIGHT / 2;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} width="100%" height={CHART_HEIGHT} preserveAspectRatio="none">
+      <line x1={0} x2={CHART_WIDTH} y1={mid} y2={mid} stroke="#d9d9d9" />
+      {values.map((v, i) => {
+        const h = (Math.abs(v) / maxAbs) * (mid - 4);
+        return (
+          <rect
+            key={labels[i]}
+            x={i * slot + slot * 0.15}
+            y={v >= 0 ? mid - h : mid}
+            width={slot * 0.7}
+            height={h}
+            fill={v >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR}
+          >
+            <title>{`${labels[i]}: ${v.toFixed(4)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function AnalyticsPanel() {
+  const [initialCapital, setInitialCapital] = useState<number | null>(null);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('daily');
+  const { report } = useAnalytics(initialCapital);
+
+  const capitalInput = (
+    <InputNumber
+      size="small"
+      min={0}
+      placeholder="初始资金"
+      addonAfter="USDT"
+      value={initialCapital}
+      onChange={v => setInitialCapital(v || null)}
+      style={{ width: 180 }}
+    />
+  );
+
+  if (!report || report.equityCurve.length === 0) {
+    return (
+      <Card title="绩效分析" size="small" extra={capitalInput}>
+        <Empty description="暂无已平仓记录" />
+      </Card>
+    );
+  }
+
+  const { metrics } = report;
+  const netPnl = formatPnl(metrics.netPnl);
+  const returns = report.returns[period];
+
+  const drawdownColumns: ColumnsType<DrawdownPeriod> = [
+    { title: '前高', dataIndex: 'peakDate' },
+    { title: '谷底', dataIndex: 'troughDate' },
+    { title: '恢复', dataIndex: 'recoveryDate', render: (v: string | null) => v || <Text type="warning">未恢复</Text> },
+    {
+      title: '回撤',
+      dataIndex: 'depth',
+      render: (v: string, record) => `${formatUsdt(v)}${record.depthPercent ? ` (${record.depthPercent}%)` : ''}`,
+    },
+    { title: '持续', dataIndex: 'durationDays', render: (v: number) => `${v} 天` },
+  ];
+
+  return (
+    <Card
+      title="绩效分析"
+      size="small"
+      extra={
+        <Space>
+          <Text type="secondary" style={{ fontSize: 12 }}>{metrics.startDate} ~ {metrics.endDate} (UTC)</Text>
+          {capitalInput}
+        </Space>
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Row gutter={16}>
+          <Col span={3}>
+            <Statistic title="净盈亏" value={netPnl.text} valueStyle={{ color: netPnl.color }} />
+          </Col>
+          <Col span={3}>
+            <Statistic title="收益率" value={metrics.totalReturnPercent ?? '-'} suffix={metrics.totalReturnPercent ? '%' : undefined} />
+          </Col>
+          <Col span={3}>
+            <Statistic title="夏普" value={metrics.sharpeRatio ?? '-'} />
+          </Col>
+          <Col span={3}>
+            <Statistic title="索提诺" value={metrics.sortinoRatio ?? '-'} />
+          </Col>
+          <Col span={3}>
+            <Statistic
+              title="最大回撤"
+              value={formatUsdt(metrics.maxDrawdown)}
+              suffix={metrics.maxDrawdownPercent ? `(${metrics.maxDrawdownPercent}%)` : undefined}
+            />
+          </Col>
+          <Col span={3}>
+            <Statistic title="盈亏比" value={metrics.profitFactor ?? '-'} />
+          </Col>
+          <Col span={3}>
+            <Statistic title="单笔期望" value={metrics.expectancy} />
+          </Col>
+          <Col span={3}>
+            <Statistic title="平均持仓" value={metrics.avgHoldingMs !== null ? formatUptime(metrics.avgHoldingMs) : '-'} />
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Text strong>累计盈亏与回撤</Text>
+            <EquityChart
+              values={report.equityCurve.map(p => parseFloat(p.cumulativePnl))}
+              drawdowns={report.equityCurve.map(p => parseFloat(p.drawdown))}
+            />
+          </Col>
+          <Col span={12}>
+            <Space>
+              <Text strong>周期收益</Text>
+              <Segmented
+                size="small"
+                value={period}
+                onChange={v => setPeriod(v as AnalyticsPeriod)}
+                options={(['daily', 'weekly', 'monthly'] as AnalyticsPeriod[]).map(p => ({
+                  value: p,
+                  label: ANALYTICS_PERIOD_LABELS[p],
+                }))}
+              />
+            </Space>
+            <BarChart values={returns.map(r => parseFloat(r.pnl))} labels={returns.map(r => r.period)} />
+          </Col>
+        </Row>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Text strong>分时段盈亏（UTC 小时）</Text>
+            <BarChart
+              values={report.hourly.map(h => parseFloat(h.netPnl))}
+              labels={report.hourly.map(h => `${h.hour}:00 · ${h.trades} 笔 · 胜率 ${h.winRate}%`)}
+            />
+          </Col>
+          <Col span={12}>
+            <Text strong>回撤历史</Text>
+            <Table
+              rowKey="peakDate"
+              columns={drawdownColumns}
+              dataSource={[...report.drawdowns].reverse()}
+              size="small"
+              pagination={{ pageSize: 5, size: 'small' }}
+            />
+          </Col>
+        </Row>
+      </Space>
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, Table, Button, Modal, Form, Input, Select, Switch, Space, Tag, Popconfirm, Typography, App } from 'antd';
+import { PlusOutlined, DeleteOutlined, EditOutlined, ApiOutlined } from '@ant-design/icons';
+import { api } from '@/lib/api';
+import { useAuth } from '@/providers/AuthProvider';
+import { useBitgetAccounts } from '@/hooks/useBitgetAccounts';
+import type { BitgetAccount, BitgetAccountInput } from '@/lib/types';
+
+const { Text } = Typography;
+
+interface UserOption {
+  id: number;
+  username: string;
+  display_name: string | null;
+}
+
+export default function BitgetAccountManagement() {
+  const { message } = App.useApp();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const { accounts, isLoading, refresh } = useBitgetAccounts();
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [editing, setEditing] = useState<BitgetAccount | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [form] = Form.useForm<BitgetAccountInput>();
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    api.getUsers()
+      .then(setUsers)
+      .catch(() => setUsers([]));
+  }, [isAdmin]);
+
+  const userName = (id: number) => {
+    const u = users.find(item => item.id === id);
+    return u ? (u.display_name || u.username) : `#${id}`;
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    form.resetFields();
+    setModalOpen(true);
+  };
+
+  const openEdit = (account: BitgetAccount) => {
+    setEditing(account);
+    form.setFieldsValue({
+      name: account.name,
+      simulated: account.simulated,
+      description: account.description,
+      grantedUserIds: account.grantedUserIds,
+    });
+    setModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    // 修改时留空的凭证不提交，保持原值
+    const input: BitgetAccountInput = {
+      ...values,
+      apiKey: values.apiKey || undefined,
+      secretKey: values.secretKey || undefined,
+      passphrase: values.passphrase || undefined,
+    };
+    setSaving(true);
+    try {
+      if (editing) {
+        await api.updateBitgetAccount(editing.id, input);
+        message.success('交易账户已更新，运行中的实例重启后生效');
+      } else {
+        await api.createBitgetAccount(input);
+        message.success('交易账户已创建');
+      }
+      setModalOpen(false);
+      refresh();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await api.deleteBitgetAccount(id);
+      message.success('交易账户已删除');
+      refresh();
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : '删除失败');
+    }
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    try {
+      const result = await api.testBitgetAccount(id);
+      message.success(`连接成功（${result.accountType}），现货可用 ${result.spotAvailableUsdt} USDT`);
+    } catch (err) {
+      message.error(err instanceof Error ? err.message : '连接失败');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const columns = [
+    {
+      title: '账户',
+      key: 'account',
+      render: (_: unknown, record: BitgetAccount) => (
+        <Space direction="vertical" size={0}>
+          <Space size={4}>
+            <Text strong>{record.name}</Text>
+            {record.isDefault && <Tag color="blue">默认</Tag>}
+          </Space>
+          <Text type="secondary" style={{ fontSize: 12 }}>{record.id}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: '环境',
+      dataIndex: 'simulated',
+      key: 'simulated',
+      render: (simulated: boolean) => (
+        <Tag color={simulated ? 'orange' : 'green'}>{simulated ? '模拟盘' : '实盘'}</Tag>
+      ),
+    },
+    {
+      title: 'API Key',
+      key: 'apiKeyHint',
+      render: (_: unknown, record: BitgetAccount) => (
+        record.hasCredentials
+          ? <Text code>{record.apiKeyHint ? `****${record.apiKeyHint}` : '已配置'}</Text>
+          : <Tag color="red">未配置</Tag>
+      ),
+    },
+    ...(isAdmin ? [{
+      title: '授权用户',
+      key: 'grantedUserIds',
+      render: (_: unknown, record: BitgetAccount) => {
+        if (record.isDefault) return <Text type="secondary">全部用户</Text>;
+        if (record.grantedUserIds.length === 0) return <Text type="secondary">仅管理员</Text>;
+        return record.grantedUserIds.map(id => <Tag key={id}>{userName(id)}</Tag>);
+      },
+    }] : []),
+    { title: '备注', dataIndex: 'description', key: 'description', render: (v: string | null) => v || '-' },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_: unknown, record: BitgetAccount) => (
+        <Space size="small">
+          <Button
+            size="small"
+            icon={<ApiOutlined />}
+            loading={testingId === record.id}
+            disabled={!record.hasCredentials}
+            onClick={() => handleTest(record.id)}
+          >
+            测试
+          </Button>
+          {isAdmin && !record.isDefault && (
+            <>
+              <Button size="small" icon={<EditOutlined />} onClick={() => openEdit(record)} />
+              <Popconfirm
+                title="确认删除该账户及其凭证？"
+                onConfirm={() => handleDelete(record.id)}
+                okText="确认"
+                cancelText="取消"
+              >
+                <Button size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>
+            </>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title="交易账户"
+      extra={isAdmin && (
+        <Button type="primary" icon={<PlusOutlined />} onClick={openCreate}>
+          添加账户
+        </Button>
+      )}
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+        默认账户使用「API 凭证」中的活跃 Profile；命名账户可绑定到策略实例，普通用户只能看到被授权的账户。
+      </Text>
+      <Table
+        dataSource={accounts || []}
+        columns={columns}
+        rowKey="id"
+        loading={isLoading}
+        size="small"
+        pagination={false}
+      />
+
+      <Modal
+        title={editing ? `编辑账户 ${editing.id}` : '添加交易账户'}
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={handleSave}
+        okText="保存"
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" preserve={false} initialValues={{ simulated: false, grantedUserIds: [] }}>
+          {!editing && (
+            <Form.Item
+              name="id"
+              label="账户 ID"
+              tooltip="创建后不可修改，用于策略配置中的 accountId"
+              rules={[
+                { required: true, message: '请输入账户 ID' },
+                { pattern: /^[a-z0-9][a-z0-9_]{0,31}$/, message: '小写字母、数字或下划线，最长 32 位' },
+              ]}
+            >
+              <Input placeholder="如 sub_alice" />
+            </Form.Item>
+          )}
+          <Form.Item name="name" label="名称">
+            <Input placeholder="留空则使用账户 ID" />
+          </Form.Item>
+          <Form.Item
+            name="apiKey"
+            label="API Key"
+            rules={editing ? [] : [{ required: true, message: '请输入 API Key' }]}
+          >
+            <Input.Password placeholder={editing ? '留空则不修改' : undefined} />
+          </Form.Item>
+          <Form.Item
+            name="secretKey"
+            label="Secret Key"
+            rules={editing ? [] : [{ required: true, message: '请输入 Secret Key' }]}
+          >
+            <Input.Password placeholder={editing ? '留空则不修改' : undefined} />
+          </Form.Item>
+          <Form.Item
+            name="passphrase"
+            label="Passphrase"
+            rules={editing ? [] : [{ required: true, message: '请输入 Passphrase' }]}
+          >
+            <Input.Password placeholder={editing ? '留空则不修改' : undefined} />
+          </Form.Item>
+          <Form.Item name="simulated" label="模拟盘" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item name="grantedUserIds" label="授权用户" tooltip="管理员始终可使用全部账户">
+            <Select
+              mode="multiple"
+              allowClear
+              options={users.map(u => ({ value: u.id, label: u.display_name || u.username }))}
+            />
+          </Form.Item>
+          <Form.Item name="description" label="备注">
+            <Input.TextArea rows={2} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+}
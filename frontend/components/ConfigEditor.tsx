@@ -1,10 +1,12 @@
 'use client';
 
-import React, { useEffect, useRef, useCallback } from 'react';
-import { Collapse, Form, InputNumber, Input, Select, Button, Row, Col, Divider, App, Tag, Descriptions } from 'antd';
+import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import { Collapse, Form, InputNumber, Input, Select, Switch, Button, Row, Col, Divider, App, Tag, Descriptions, Typography } from 'antd';
 import { SettingOutlined, SaveOutlined } from '@ant-design/icons';
 import { useStrategyStatus } from '@/hooks/useStrategyStatus';
 import { useContractSpec } from '@/hooks/useContractSpec';
+import { useStrategyTypes } from '@/hooks/useStrategyTypes';
+import StrategySchemaFields from './StrategySchemaFields';
 import { api } from '@/lib/api';
 import type { AnyStrategyConfig, ScalpingStrategyConfig } from '@/lib/types';
 import { STRATEGY_TYPE_LABELS, TRADING_TYPE_LABELS } from '@/lib/constants';
@@ -17,7 +19,36 @@ export default function ConfigEditor() {
   const config = status?.config;
   const isScalping = config?.strategyType === 'scalping';
   const isGrid = config?.strategyType === 'grid';
+  const isDca = config?.strategyType === 'dca';
+  const isBasis = config?.strategyType === 'basis';
   const { spec } = useContractSpec(config?.symbol);
+  const { strategyTypes } = useStrategyTypes();
+  const pluginStrategy = strategyTypes.find((t) => t.type === config?.strategyType && !t.builtIn);
+
+  // DCA 安全单阶梯预览（随表单输入实时计算）
+  const orderAmountUsdt = Form.useWatch('orderAmountUsdt', form);
+  const safetyOrderUsdt = Form.useWatch('safetyOrderUsdt', form);
+  const maxSafetyOrders = Form.useWatch('maxSafetyOrders', form);
+  const deviation = Form.useWatch('safetyOrderDeviationPercent', form);
+  const stepScale = Form.useWatch('safetyOrderStepScale', form);
+  const volumeScale = Form.useWatch('safetyOrderVolumeScale', form);
+  const entrySignal = Form.useWatch('entrySignal', form);
+  const dcaLadder = useMemo(() => {
+    if (!isDca) return null;
+    const count = Number(maxSafetyOrders) || 0;
+    const amount = parseFloat(safetyOrderUsdt || '0');
+    const dev = Number(deviation) || 0;
+    const step = Number(stepScale) || 1;
+    const volume = Number(volumeScale) || 1;
+    const steps: { deviation: number; amount: number }[] = [];
+    let cumulative = 0;
+    for (let k = 1; k <= count; k++) {
+      cumulative += dev * Math.pow(step, k - 1);
+      steps.push({ deviation: cumulative, amount: amount * Math.pow(volume, k - 1) });
+    }
+    const total = steps.reduce((sum, s) => sum + s.amount, parseFloat(orderAmountUsdt || '0'));
+    return { steps, total };
+  }, [isDca, orderAmountUsdt, safetyOrderUsdt, maxSafetyOrders, deviation, stepScale, volumeScale]);
 
   // 标记用户是否正在编辑（防止 SWR 轮询覆盖用户输入）
   const userEditingRef = useRef(false);
@@ -58,6 +89,32 @@ export default function ConfigEditor() {
       if (isGrid) {
         editableKeys.push('upperPrice', 'lowerPrice', 'gridCount', 'gridType');
       }
+      if (isScalping || isGrid) {
+        editableKeys.push(
+          'positionTrailingEnabled', 'positionTrailingMode', 'positionTrailingPercent', 'positionTrailingAtrMultiplier',
+        );
+        if (config?.tradingType === 'futures') {
+          editableKeys.push(
+            'fundingGuardEnabled', 'fundingGuardMode', 'fundingGuardThresholdPercent', 'fundingGuardWindowMinutes',
+          );
+        }
+      }
+      if (isDca) {
+        editableKeys.push(
+          'safetyOrderUsdt', 'maxSafetyOrders', 'safetyOrderDeviationPercent',
+          'safetyOrderStepScale', 'safetyOrderVolumeScale', 'takeProfitPercent',
+          'entrySignal', 'entryRsiThreshold',
+        );
+      }
+      if (isBasis) {
+        editableKeys.push(
+          'entryFundingAprPercent', 'entryBasisPercent', 'exitFundingAprPercent', 'exitBasisPercent',
+          'maxSlippagePercent', 'legRetryLimit', 'hedgeRebalanceThresholdPercent',
+        );
+      }
+      if (pluginStrategy) {
+        editableKeys.push(...pluginStrategy.configSchema.map((field) => field.key));
+      }
 
       for (const key of editableKeys) {
         const configRecord = config as unknown as Record<string, unknown>;
@@ -83,7 +140,7 @@ export default function ConfigEditor() {
   };
 
   const strategyLabel = config
-    ? `${STRATEGY_TYPE_LABELS[config.strategyType] || config.strategyType} / ${TRADING_TYPE_LABELS[config.tradingType] || config.tradingType}`
+    ? `${STRATEGY_TYPE_LABELS[config.strategyType] || pluginStrategy?.label || config.strategyType} / ${TRADING_TYPE_LABELS[config.tradingType] || config.tradingType}`
     : '策略配置';
 
   const items = [
@@ -129,13 +186,13 @@ export default function ConfigEditor() {
             )}
           </Row>
           <Row gutter={16}>
-            {config?.tradingType === 'futures' && (
+            {config?.tradingType === 'futures' && !isBasis && (
               <Col span={6}>
                 <Form.Item label="方向" name="direction">
                   <Select options={[
                     { label: '做多', value: 'long' },
                     { label: '做空', value: 'short' },
-                    { label: '双向', value: 'both' },
+                    ...(isDca ? [] : [{ label: '双向', value: 'both' }]),
                   ]} />
                 </Form.Item>
               </Col>
@@ -208,6 +265,120 @@ export default function ConfigEditor() {
             </>
           )}
 
+          {isDca && (
+            <>
+              <Divider orientation="left" plain>DCA 参数</Divider>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item label="安全单金额 (USDT)" name="safetyOrderUsdt" tooltip="首个安全单金额，之后按金额倍数放大">
+                    <Input suffix="USDT" />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="最大安全单数" name="maxSafetyOrders">
+                    <InputNumber min={0} max={50} precision={0} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="止盈 (%)" name="takeProfitPercent" tooltip="相对持仓均价">
+                    <InputNumber min={0.01} max={99} step={0.1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="开仓信号" name="entrySignal">
+                    <Select options={[
+                      { label: '立即开仓', value: 'none' },
+                      { label: 'RSI 超卖/超买', value: 'rsi' },
+                      { label: '趋势（EMA + MACD）', value: 'trend' },
+                    ]} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item label="首单偏离 (%)" name="safetyOrderDeviationPercent">
+                    <InputNumber min={0.01} max={99} step={0.1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="偏离倍数" name="safetyOrderStepScale" tooltip="每个安全单的间距相对上一个的倍数">
+                    <InputNumber min={1} max={5} step={0.1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="金额倍数" name="safetyOrderVolumeScale" tooltip="每个安全单的金额相对上一个的倍数">
+                    <InputNumber min={1} max={5} step={0.1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                {entrySignal === 'rsi' && (
+                  <Col span={6}>
+                    <Form.Item label="RSI 阈值" name="entryRsiThreshold" tooltip="做多 RSI 低于该值开仓，做空取 100 - 该值">
+                      <InputNumber min={1} max={49} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                )}
+              </Row>
+              {dcaLadder && dcaLadder.steps.length > 0 && (
+                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                  阶梯：{dcaLadder.steps.map((s, i) => `#${i + 1} ${s.deviation.toFixed(2)}% / ${s.amount.toFixed(2)}U`).join('，')}
+                  {'　'}周期最多占用 {dcaLadder.total.toFixed(2)} USDT
+                </Typography.Text>
+              )}
+            </>
+          )}
+
+          {isBasis && (
+            <>
+              <Divider orientation="left" plain>套利参数</Divider>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item label="开仓年化资金费率 (%)" name="entryFundingAprPercent" tooltip="年化资金费率或基差任一达到阈值即分批建仓">
+                    <InputNumber min={0} max={1000} step={1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="开仓基差 (%)" name="entryBasisPercent" tooltip="(永续买一 - 现货卖一) / 现货卖一">
+                    <InputNumber min={0} max={50} step={0.05} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="平仓年化资金费率 (%)" name="exitFundingAprPercent" tooltip="资金费率与基差都回落到阈值以下才分批平仓">
+                    <InputNumber min={-1000} max={1000} step={1} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="平仓基差 (%)" name="exitBasisPercent">
+                    <InputNumber min={-50} max={50} step={0.05} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item label="最大滑点 (%)" name="maxSlippagePercent" tooltip="IOC 限价单相对对手价的最大偏离">
+                    <InputNumber min={0.01} max={5} step={0.05} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="补单次数" name="legRetryLimit" tooltip="单腿成交后另一腿 IOC 补单次数，用完后市价补齐">
+                    <InputNumber min={0} max={10} precision={0} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="对冲调整阈值 (%)" name="hedgeRebalanceThresholdPercent" tooltip="永续空单 / 现货数量偏离 1 超过该比例时调整永续腿">
+                    <InputNumber min={0.1} max={50} step={0.5} style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </>
+          )}
+
+          {pluginStrategy && pluginStrategy.configSchema.length > 0 && (
+            <>
+              <Divider orientation="left" plain>{pluginStrategy.label} 参数</Divider>
+              <StrategySchemaFields fields={pluginStrategy.configSchema} />
+            </>
+          )}
+
           <Divider orientation="left" plain>轮询间隔</Divider>
           <Row gutter={16}>
             <Col span={6}>
@@ -246,6 +417,84 @@ export default function ConfigEditor() {
             </Col>
           </Row>
 
+          {(isScalping || isGrid) && (
+            <>
+              <Divider orientation="left" plain>单笔追踪止损</Divider>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item
+                    label="启用"
+                    name="positionTrailingEnabled"
+                    valuePropName="checked"
+                    tooltip="每笔成交按入场后最有利价格追踪，回撤触发时撤出场限价单并市价平仓"
+                  >
+                    <Switch />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="回撤距离" name="positionTrailingMode">
+                    <Select
+                      placeholder="百分比"
+                      options={[
+                        { label: '百分比', value: 'percent' },
+                        { label: 'ATR 倍数', value: 'atr' },
+                      ]}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="回撤 (%)" name="positionTrailingPercent" tooltip="ATR 模式下无 K 线数据时也使用该值">
+                    <InputNumber min={0.01} max={99} step={0.1} placeholder="1" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="ATR 倍数" name="positionTrailingAtrMultiplier" tooltip="ATR 取 1 分钟 K 线 14 周期">
+                    <InputNumber min={0.1} step={0.5} placeholder="2" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </>
+          )}
+
+          {(isScalping || isGrid) && config?.tradingType === 'futures' && (
+            <>
+              <Divider orientation="left" plain>资金费率保护</Divider>
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item
+                    label="启用"
+                    name="fundingGuardEnabled"
+                    valuePropName="checked"
+                    tooltip="费率绝对值达到阈值时，支付资金费的方向停止开仓（网格只做多，费率为正时暂停挂买单）"
+                  >
+                    <Switch />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="模式" name="fundingGuardMode">
+                    <Select
+                      placeholder="结算前暂停"
+                      options={[
+                        { label: '结算前暂停', value: 'pause' },
+                        { label: '持续偏向收费方向', value: 'bias' },
+                      ]}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="费率阈值 (%)" name="fundingGuardThresholdPercent" tooltip="单次结算费率，如 0.05 表示 0.05%">
+                    <InputNumber min={0} step={0.01} placeholder="0.05" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="结算前窗口 (分钟)" name="fundingGuardWindowMinutes" tooltip="仅结算前暂停模式使用">
+                    <InputNumber min={1} placeholder="30" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </>
+          )}
+
           <Divider orientation="left" plain>只读参数</Divider>
           <Row gutter={16}>
             <Col span={6}>
@@ -3,12 +3,30 @@
 import React from 'react';
 import { Card, List, Tag, Typography, Empty } from 'antd';
 import { useEvents } from '@/hooks/useEvents';
-import { EVENT_CONFIG } from '@/lib/constants';
+import { DIRECTION_LABELS, EVENT_CONFIG, SUPERVISED_MODE_LABELS } from '@/lib/constants';
 import { formatTime } from '@/lib/formatters';
 import type { StrategyEvent, StrategyEventType } from '@/lib/types';
 
 const { Text } = Typography;
 
+const STOP_LOSS_ACTION_LABELS: Record<string, string> = {
+  adopted: '接管',
+  placed: '挂出',
+  modified: '更新',
+  cancelled: '撤销',
+};
+
+const DCA_CLOSE_REASON_LABELS: Record<string, string> = {
+  take_profit: '止盈',
+  stop_loss: '止损',
+  external: '外部平仓',
+};
+
+const DRIFT_CORRECTION_LABELS: Record<string, string> = {
+  closed_excess: '，已平掉多余仓位',
+  cancelled_exits: '，已撤多余出场单',
+};
+
 function EventItem({ event }: { event: StrategyEvent }) {
   const config = EVENT_CONFIG[event.type as StrategyEventType] || { label: event.type, color: 'default' };
 
@@ -44,8 +62,44 @@ function formatEventData(event: StrategyEvent): string {
       return `旧价 ${d.oldPrice}`;
     case 'ORDERS_MERGED':
       return `${d.cancelledCount || '?'}单合并 → ${d.mergedPrice || ''}`;
+    case 'RISK_LIMIT_HIT':
+      return `${d.reason}，冷却 ${Math.round(Number(d.cooldownMs) / 1000)} 秒`;
     case 'STRATEGY_ERROR':
       return `${d.loop}: ${d.error}`;
+    case 'ORDERS_RECONCILED':
+      return `挂单 ${d.live} / 停机成交 ${d.filledWhileDown} / 停机撤销 ${d.cancelledWhileDown}`;
+    case 'EXCHANGE_STOP_LOSS_UPDATED':
+      return `${d.direction} ${STOP_LOSS_ACTION_LABELS[String(d.action)] || d.action} 触发价 ${d.triggerPrice}`;
+    case 'POSITION_DRIFT':
+      return `${d.direction} 推断 ${d.inferredSize} / 交易所 ${d.exchangeSize}${DRIFT_CORRECTION_LABELS[String(d.correction)] || ''}`;
+    case 'DCA_CYCLE_STARTED':
+      return d.recovered ? `按持仓恢复 均价 ${d.avgPrice}` : `${d.direction} 价格 ${d.price} 数量 ${d.size}`;
+    case 'DCA_SAFETY_FILLED':
+      return `第 ${d.safetyIndex} 单 价格 ${d.price}，均价 ${d.avgPrice}（${d.filledSafetyOrders}/${d.maxSafetyOrders}）`;
+    case 'DCA_CYCLE_CLOSED':
+      return `${DCA_CLOSE_REASON_LABELS[String(d.reason)] || d.reason} PnL ${d.netPnl}，安全单 ${d.filledSafetyOrders}`;
+    case 'BASIS_HEDGE_OPENED':
+      return d.recovered
+        ? `按持仓恢复 现货 ${d.spotSize} / 永续 ${d.perpSize}`
+        : `现货 ${d.spotSize} / 永续 ${d.perpSize}，年化 ${d.fundingAprPercent}% 基差 ${d.basisPercent}%`;
+    case 'BASIS_HEDGE_CLOSED':
+      return `永续 ${d.perpSize} / 现货 ${d.spotSize} PnL ${d.netPnl}${d.fullyClosed ? '，已清仓' : ''}`;
+    case 'BASIS_HEDGE_REBALANCED':
+      return `对冲比例 ${d.previousRatio ?? '-'} → ${d.hedgeRatio ?? '-'}，调整 ${d.adjustedSize}`;
+    case 'BASIS_LEG_IMBALANCE':
+      return d.stage === 'open'
+        ? `永续对冲不足 ${d.perpSize}/${d.spotSize}，回滚现货 ${d.rollbackSize}`
+        : `现货未卖出 ${d.unsoldSpotSize}`;
+    case 'TRAILING_STOP_MOVED':
+      return `${d.levelIndex !== undefined ? `网格 #${d.levelIndex}` : d.direction} 止损 ${d.previousStopPrice} → ${d.stopPrice}（最优 ${d.peakPrice}）`;
+    case 'TRAILING_STOP_TRIGGERED':
+      return `${d.levelIndex !== undefined ? `网格 #${d.levelIndex}` : d.direction} 触发价 ${d.triggerPrice} / 止损 ${d.stopPrice}，市价平 ${d.size}`;
+    case 'REGIME_SWITCHED':
+      return `${SUPERVISED_MODE_LABELS[String(d.from)]?.label || '-'} → ${SUPERVISED_MODE_LABELS[String(d.to)]?.label || d.to}：${d.reason}`;
+    case 'FUNDING_GUARD_CHANGED':
+      return d.active ? String(d.reason) : `资金费率保护解除（${DIRECTION_LABELS[String(d.direction)] || d.direction}）`;
+    case 'PORTFOLIO_RISK_BREACH':
+      return String(d.message);
     case 'CONFIG_UPDATED':
       return JSON.stringify(d.changes).slice(0, 60);
     default:
@@ -56,21 +110,22 @@ function formatEventData(event: StrategyEvent): string {
 export default function EventLog() {
   const { events, isLoading } = useEvents();
 
-  const reversedEvents = events ? [...events].reverse() : [];
+  // 接口按时间倒序返回，最新在前
+  const recentEvents = events || [];
 
   return (
     <Card
-      title={`事件日志 (${reversedEvents.length})`}
+      title={`事件日志 (${recentEvents.length})`}
       styles={{ body: { padding: '8px 16px' } }}
     >
       <div className="event-log-container" style={{ maxHeight: 500, overflowY: 'auto' }}>
-        {reversedEvents.length === 0 ? (
+        {recentEvents.length === 0 ? (
           <Empty description="暂无事件" image={Empty.PRESENTED_IMAGE_SIMPLE} />
         ) : (
           <List
             size="small"
             loading={isLoading}
-            dataSource={reversedEvents}
+            dataSource={recentEvents}
             renderItem={(event: StrategyEvent, index: number) => (
               <EventItem key={`${event.timestamp}-${index}`} event={event} />
             )}
@@ -32,6 +32,11 @@ export default function MetricsCards() {
     ? `多: ${positionByDir.long || '0'} / 空: ${positionByDir.short || '0'}`
     : undefined;
 
+  // 已实现盈亏 tooltip：毛利 / 手续费 / 资金费拆分
+  const pnlTooltip = pnl
+    ? `毛利: ${pnl.grossPnl} / 手续费: -${pnl.fees} / 资金费: ${pnl.funding}`
+    : undefined;
+
   // 挂单数 tooltip
   const pendingTooltip = isBidirectional && pendingExitByDir
     ? `多: ${pendingExitByDir.long || 0} / 空: ${pendingExitByDir.short || 0}`
@@ -64,14 +69,16 @@ export default function MetricsCards() {
         </Col>
         <Col xs={12} sm={6} md={3}>
           <Card size="small">
-            <Statistic
-              title="已实现盈亏"
-              value={pnl?.realizedPnl || '0'}
-              precision={4}
-              valueStyle={{ color: realizedPnl >= 0 ? '#3f8600' : '#cf1322' }}
-              prefix={realizedPnl >= 0 ? <ArrowUpOutlined /> : <ArrowDownOutlined />}
-              suffix="USDT"
-            />
+            <Tooltip title={pnlTooltip}>
+              <Statistic
+                title="已实现盈亏"
+                value={pnl?.realizedPnl || '0'}
+                precision={4}
+                valueStyle={{ color: realizedPnl >= 0 ? '#3f8600' : '#cf1322' }}
+                prefix={realizedPnl >= 0 ? <ArrowUpOutlined /> : <ArrowDownOutlined />}
+                suffix="USDT"
+              />
+            </Tooltip>
           </Card>
         </Col>
         <Col xs={12} sm={6} md={3}>
@@ -12,6 +12,7 @@ const { Text } = Typography;
 
 const statusTagColors: Record<TrackedOrderStatus, string> = {
   pending: 'processing',
+  partially_filled: 'warning',
   filled: 'success',
   cancelled: 'default',
   failed: 'error',
@@ -64,7 +65,11 @@ export default function OrderTable() {
       dataIndex: 'size',
       width: 100,
       align: 'right',
-      render: (size: string) => <span className="mono-number">{size}</span>,
+      render: (size: string, record: TrackedOrder) => (
+        <span className="mono-number">
+          {record.filledSize && record.filledSize !== size ? `${record.filledSize}/${size}` : size}
+        </span>
+      ),
     },
     {
       title: '状态',
@@ -91,7 +96,7 @@ export default function OrderTable() {
           <span>订单追踪</span>
           {orders && (
             <Text type="secondary" style={{ fontSize: 12 }}>
-              共 {orders.total} | 挂单 {orders.pending} | 成交 {orders.filled} | 撤销 {orders.cancelled}
+              共 {orders.total} | 挂单 {orders.pending} | 部分成交 {orders.partiallyFilled} | 成交 {orders.filled} | 撤销 {orders.cancelled}
             </Text>
           )}
         </Space>
@@ -105,6 +110,7 @@ export default function OrderTable() {
           options={[
             { label: '全部', value: 'all' },
             { label: '挂单中', value: 'pending' },
+            { label: '部分成交', value: 'partially_filled' },
             { label: '已成交', value: 'filled' },
             { label: '已撤销', value: 'cancelled' },
             { label: '失败', value: 'failed' },
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, Card, Col, Row, Select, Space, Statistic, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { usePortfolioRisk } from '@/hooks/usePortfolioRisk';
+import { useBitgetAccounts } from '@/hooks/useBitgetAccounts';
+import type { CoinExposure } from '@/lib/types';
+import { formatPnl, formatTimestamp, formatUsdt } from '@/lib/formatters';
+import { PORTFOLIO_RISK_LIMIT_LABELS, SIDE_LABELS } from '@/lib/constants';
+
+const { Text } = Typography;
+
+export default function PortfolioRiskPanel() {
+  const [accountId, setAccountId] = useState<string | undefined>(undefined);
+  const { accounts } = useBitgetAccounts();
+  const { snapshot } = usePortfolioRisk(accountId);
+
+  // 未启用组合风控时不占用面板空间
+  if (!snapshot || !snapshot.enabled) return null;
+
+  const dailyPnl = formatPnl(snapshot.dailyPnlUsdt);
+
+  const columns: ColumnsType<CoinExposure> = [
+    { title: '币种', dataIndex: 'coin' },
+    { title: '现货', dataIndex: 'spotUsdt', render: (v: string) => formatUsdt(v) },
+    { title: '合约多头', dataIndex: 'futuresLongUsdt', render: (v: string) => formatUsdt(v) },
+    { title: '合约空头', dataIndex: 'futuresShortUsdt', render: (v: string) => formatUsdt(v) },
+    {
+      title: '净敞口',
+      dataIndex: 'netUsdt',
+      render: (v: string, record) => {
+        const breached = snapshot.breaches.some(b => b.limit === 'net_delta' && b.coin === record.coin);
+        return <Text type={breached ? 'danger' : undefined}>{formatUsdt(v)}</Text>;
+      },
+    },
+  ];
+
+  return (
+    <Card
+      title="组合风控"
+      size="small"
+      extra={(
+        <Space size="small">
+          {snapshot.updatedAt && (
+            <Text type="secondary" style={{ fontSize: 12 }}>更新于 {formatTimestamp(snapshot.updatedAt)}</Text>
+          )}
+          {/* 限制按账户分别生效，多个账户时切换查看 */}
+          {accounts && accounts.length > 1 && (
+            <Select
+              size="small"
+              style={{ minWidth: 140 }}
+              value={snapshot.accountId}
+              onChange={setAccountId}
+              options={accounts.map(a => ({ value: a.id, label: a.name }))}
+            />
+          )}
+        </Space>
+      )}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {snapshot.breaches.map(breach => (
+          <Alert
+            key={`${breach.limit}:${breach.coin || ''}`}
+            type="error"
+            showIcon
+            message={`${PORTFOLIO_RISK_LIMIT_LABELS[breach.limit] || breach.limit}：${breach.message}`}
+          />
+        ))}
+        {snapshot.lastError && (
+          <Alert type="warning" showIcon message={`账户数据刷新失败：${snapshot.lastError}`} />
+        )}
+        <Row gutter={16}>
+          <Col span={4}>
+            <Statistic title="总权益 (USDT)" value={formatUsdt(snapshot.equityUsdt)} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="总名义敞口 (USDT)" value={formatUsdt(snapshot.grossNotionalUsdt)} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="杠杆" value={snapshot.leverage} suffix="x" />
+          </Col>
+          <Col span={4}>
+            <Statistic title="当日盈亏" value={dailyPnl.text} valueStyle={{ color: dailyPnl.color }} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="回撤" value={snapshot.drawdownPercent} suffix="%" />
+          </Col>
+          <Col span={4}>
+            <Statistic title="否决下单" value={snapshot.vetoCount} />
+          </Col>
+        </Row>
+        {snapshot.lastVeto && (
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            最近否决：{formatTimestamp(snapshot.lastVeto.timestamp)} {snapshot.lastVeto.symbol}{' '}
+            {SIDE_LABELS[snapshot.lastVeto.side]} {snapshot.lastVeto.notionalUsdt} USDT{' '}
+            <Tag color="red">{PORTFOLIO_RISK_LIMIT_LABELS[snapshot.lastVeto.limit] || snapshot.lastVeto.limit}</Tag>
+            {snapshot.lastVeto.reason}
+          </Text>
+        )}
+        <Table
+          rowKey="coin"
+          columns={columns}
+          dataSource={snapshot.exposures}
+          size="small"
+          pagination={false}
+        />
+      </Space>
+    </Card>
+  );
+}
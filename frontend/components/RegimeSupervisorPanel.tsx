@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { Card, Table, Tag, Tooltip, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useRegimeSupervisors } from '@/hooks/useRegimeSupervisors';
+import type { RegimeSupervisorState } from '@/lib/types';
+import { formatTimestamp } from '@/lib/formatters';
+import { DIRECTION_LABELS, MARKET_REGIME_LABELS, SUPERVISED_MODE_LABELS } from '@/lib/constants';
+
+const { Text } = Typography;
+
+function ModeTag({ mode }: { mode: string | null }) {
+  if (!mode) return <Tag>检测中</Tag>;
+  const config = SUPERVISED_MODE_LABELS[mode];
+  return <Tag color={config?.color}>{config?.label || mode}</Tag>;
+}
+
+export default function RegimeSupervisorPanel() {
+  const { supervisors } = useRegimeSupervisors();
+
+  // 未启用市场状态监管时不占用面板空间
+  if (!supervisors || supervisors.length === 0) return null;
+
+  const columns: ColumnsType<RegimeSupervisorState> = [
+    {
+      title: '监管',
+      dataIndex: 'supervisorId',
+      render: (id: string, record) => (
+        <span>
+          <Text style={{ fontFamily: 'monospace', fontSize: 12 }}>{id}</Text>
+          {!record.running && <Tag style={{ marginLeft: 8 }}>已停止</Tag>}
+        </span>
+      ),
+    },
+    {
+      title: '交易对',
+      key: 'symbol',
+      render: (_, record) => `${record.config.symbol} ${DIRECTION_LABELS[record.config.direction] || ''}`,
+    },
+    {
+      title: '当前模式',
+      key: 'mode',
+      render: (_, record) => (
+        <span>
+          <ModeTag mode={record.mode} />
+          {record.activeInstanceId && (
+            <Text type="secondary" style={{ fontSize: 12 }}>{record.activeInstanceId}</Text>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: '市场状态',
+      key: 'regime',
+      render: (_, record) => record.lastRegime
+        ? `${MARKET_REGIME_LABELS[record.lastRegime.regime] || record.lastRegime.regime} (${record.lastRegime.confidence.toFixed(2)})`
+        : '-',
+    },
+    {
+      title: '待切换',
+      key: 'candidate',
+      render: (_, record) => record.candidateMode
+        ? (
+          <span>
+            <ModeTag mode={record.candidateMode} />
+            {record.candidateChecks}/{record.config.confirmChecks}
+          </span>
+        )
+        : '-',
+    },
+    {
+      title: '最近切换',
+      key: 'lastSwitch',
+      render: (_, record) => {
+        const last = record.switches[0];
+        if (!last) return '-';
+        return (
+          <Tooltip title={last.reason}>
+            <span>{formatTimestamp(last.switchedAt)}</span>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: '错误',
+      dataIndex: 'lastError',
+      render: (error: string | null) => error ? <Text type="danger">{error}</Text> : '-',
+    },
+  ];
+
+  return (
+    <Card title={`市场状态监管 (${supervisors.length})`} size="small">
+      <Table
+        rowKey="supervisorId"
+        columns={columns}
+        dataSource={supervisors}
+        size="small"
+        pagination={false}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Modal, Form, Input, Select, DatePicker, Radio, Typography, message } from 'antd';
+import dayjs, { Dayjs } from 'dayjs';
+import { api } from '@/lib/api';
+import { useBitgetAccounts } from '@/hooks/useBitgetAccounts';
+import { REPORT_FORMAT_LABELS, REPORT_SCOPE_LABELS, TRADING_TYPE_LABELS } from '@/lib/constants';
+import type { ReportFormat, ReportScope, TradingType } from '@/lib/types';
+
+const { RangePicker } = DatePicker;
+const { Text } = Typography;
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface FormValues {
+  accountId?: string;
+  account: TradingType;
+  productType: string;
+  symbol?: string;
+  range: [Dayjs, Dayjs];
+  format: ReportFormat;
+  scope: ReportScope;
+}
+
+/** 与后端单次导出上限一致 */
+const MAX_RANGE_DAYS = 366;
+
+export default function ReportExportModal({ open, onClose }: Props) {
+  const [form] = Form.useForm<FormValues>();
+  const [downloading, setDownloading] = useState(false);
+  const account = Form.useWatch('account', form);
+  const { accounts } = useBitgetAccounts();
+
+  const handleDownload = async () => {
+    try {
+      const values = await form.validateFields();
+      const [start, end] = values.range;
+      setDownloading(true);
+      const { blob, filename } = await api.downloadReport({
+        format: values.format,
+        accountId: values.accountId,
+        account: values.account,
+        productType: values.account === 'futures' ? values.productType : undefined,
+        symbol: values.symbol?.trim().toUpperCase() || undefined,
+        startTime: start.startOf('day').valueOf(),
+        endTime: end.endOf('day').valueOf(),
+        scope: values.scope,
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename || `report-${values.format}-${dayjs().format('YYYY-MM-DD')}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+      message.success('报表已导出');
+      onClose();
+    } catch (err) {
+      if (err && typeof err === 'object' && 'errorFields' in err) return;
+      message.error(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="导出记账报表"
+      open={open}
+      onCancel={onClose}
+      onOk={handleDownload}
+      okText="下载"
+      confirmLoading={downloading}
+      destroyOnClose
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        preserve={false}
+        initialValues={{
+          account: 'spot',
+          productType: 'USDT-FUTURES',
+          range: [dayjs().startOf('year'), dayjs()],
+          format: 'fills',
+          scope: 'strategy',
+        }}
+      >
+        {accounts && accounts.length > 1 && (
+          <Form.Item name="accountId" label="交易账户">
+            <Select
+              placeholder="默认账户"
+              allowClear
+              options={accounts.map(a => ({ value: a.id, label: a.name }))}
+            />
+          </Form.Item>
+        )}
+        <Form.Item name="account" label="账户">
+          <Radio.Group
+            onChange={e => {
+              if (e.target.value === 'futures' && form.getFieldValue('format') === 'fifo') {
+                form.setFieldValue('format', 'fills');
+              }
+            }}
+          >
+            {(['spot', 'futures'] as TradingType[]).map(t => (
+              <Radio.Button key={t} value={t}>{TRADING_TYPE_LABELS[t]}</Radio.Button>
+            ))}
+          </Radio.Group>
+        </Form.Item>
+        {account === 'futures' && (
+          <Form.Item name="productType" label="产品线">
+            <Select
+              options={[
+                { value: 'USDT-FUTURES', label: 'USDT 永续' },
+                { value: 'SUSDT-FUTURES', label: '模拟盘 USDT 永续' },
+              ]}
+            />
+          </Form.Item>
+        )}
+        <Form.Item
+          name="range"
+          label="时间范围"
+          rules={[
+            { required: true, message: '请选择时间范围' },
+            {
+              validator: (_, value?: [Dayjs, Dayjs]) =>
+                value && value[1].diff(value[0], 'day') >= MAX_RANGE_DAYS
+                  ? Promise.reject(new Error(`时间范围不能超过 ${MAX_RANGE_DAYS} 天`))
+                  : Promise.resolve(),
+            },
+          ]}
+        >
+          <RangePicker style={{ width: '100%' }} />
+        </Form.Item>
+        <Form.Item name="symbol" label="交易对（可选）">
+          <Input placeholder="如 BTCUSDT，留空为全部" />
+        </Form.Item>
+        <Form.Item name="format" label="格式">
+          <Select
+            options={(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(f => ({
+              value: f,
+              label: REPORT_FORMAT_LABELS[f],
+              disabled: f === 'fifo' && account === 'futures',
+            }))}
+          />
+        </Form.Item>
+        <Form.Item name="scope" label="范围">
+          <Radio.Group>
+            {(Object.keys(REPORT_SCOPE_LABELS) as ReportScope[]).map(s => (
+              <Radio key={s} value={s}>{REPORT_SCOPE_LABELS[s]}</Radio>
+            ))}
+          </Radio.Group>
+        </Form.Item>
+      </Form>
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        成交数据来自交易所成交记录；现货成交接口需按交易对查询，未指定交易对时只覆盖策略交易过的交易对。
+        FIFO 报告会额外回溯一年的成交建立期初成本，以 BGB 等其他币种支付的手续费单独列出。
+      </Text>
+    </Modal>
+  );
+}
@@ -31,6 +31,7 @@ import {
 import TradingPairSelector from './TradingPairSelector';
 import StrategyTypeSelector from './StrategyTypeSelector';
 import { useAutoCalc, type RiskLevel, type SimpleConfigInput } from '@/hooks/useAutoCalc';
+import { useBitgetAccounts } from '@/hooks/useBitgetAccounts';
 import type { StrategyType, TradingType, StrategyDirection, AnyStrategyConfig } from '@/lib/types';
 
 const { Text, Title } = Typography;
@@ -103,6 +104,8 @@ export default function SimpleConfigForm({
     initialConfig?.tradingType || 'futures'
   );
   const [symbol, setSymbol] = useState<string>(initialConfig?.symbol || '');
+  const [accountId, setAccountId] = useState<string | undefined>(initialConfig?.accountId);
+  const { accounts } = useBitgetAccounts();
   const [orderAmountUsdt, setOrderAmountUsdt] = useState<string>(
     initialConfig?.orderAmountUsdt || ''
   );
@@ -128,6 +131,7 @@ export default function SimpleConfigForm({
       if (initialConfig.strategyType) setStrategyType(initialConfig.strategyType);
       if (initialConfig.tradingType) setTradingType(initialConfig.tradingType);
       if (initialConfig.symbol) setSymbol(initialConfig.symbol);
+      if (initialConfig.accountId) setAccountId(initialConfig.accountId);
       if (initialConfig.orderAmountUsdt) {
         setOrderAmountUsdt(initialConfig.orderAmountUsdt);
         setSelectedPreset(null);
@@ -144,6 +148,13 @@ export default function SimpleConfigForm({
     setMaxDailyLossPercent(undefined);
   }, [riskLevel, direction]);
 
+  // DCA 只做单方向
+  useEffect(() => {
+    if (strategyType === 'dca' && direction === 'both') {
+      setDirection('long');
+    }
+  }, [strategyType, direction]);
+
   // When auto preset is selected and amount is empty, use placeholder to bootstrap balance fetch
   const effectiveAmount = orderAmountUsdt || (selectedPreset === 'auto' && symbol ? '10' : '');
 
@@ -158,8 +169,9 @@ export default function SimpleConfigForm({
       riskLevel,
       maxPositionPercent,
       maxDailyLossPercent,
+      accountId,
     };
-  }, [strategyType, tradingType, symbol, effectiveAmount, direction, riskLevel, maxPositionPercent, maxDailyLossPercent]);
+  }, [strategyType, tradingType, symbol, effectiveAmount, direction, riskLevel, maxPositionPercent, maxDailyLossPercent, accountId]);
 
   const { result, loading: calcLoading, error: calcError } = useAutoCalc(autoCalcInput);
 
@@ -208,7 +220,7 @@ export default function SimpleConfigForm({
 
   const handleStart = () => {
     if (!result?.fullConfig || !onStartStrategy) return;
-    onStartStrategy(result.fullConfig as unknown as Record<string, unknown>);
+    onStartStrategy({ ...result.fullConfig, accountId } as unknown as Record<string, unknown>);
   };
 
   // Determine current step based on filled fields
@@ -250,6 +262,22 @@ export default function SimpleConfigForm({
         <Title level={5} style={{ marginBottom: 12 }}>
           选择交易市场和交易对
         </Title>
+        {/* 仅在有多个可用账户时显示，否则使用默认账户 */}
+        {accounts && accounts.length > 1 && (
+          <Form.Item label="交易账户" style={{ marginBottom: 12 }}>
+            <Select
+              value={accountId ?? accounts.find(a => a.isDefault)?.id}
+              onChange={(val: string) => setAccountId(accounts.find(a => a.id === val)?.isDefault ? undefined : val)}
+              disabled={isEditMode}
+              options={accounts.map(a => ({
+                value: a.id,
+                label: `${a.name}${a.simulated ? '（模拟盘）' : ''}`,
+                disabled: !a.hasCredentials,
+              }))}
+              style={{ width: '100%' }}
+            />
+          </Form.Item>
+        )}
         <Row gutter={16}>
           <Col span={8}>
             <Form.Item label="交易类型" style={{ marginBottom: 12 }}>
@@ -350,7 +378,7 @@ export default function SimpleConfigForm({
                   options={[
                     { label: '做多', value: 'long' },
                     { label: '做空', value: 'short' },
-                    { label: '双向', value: 'both' },
+                    ...(strategyType === 'dca' ? [] : [{ label: '双向', value: 'both' }]),
                   ]}
                   style={{ width: '100%' }}
                 />
@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { Form, InputNumber, Input, Select, Switch, Row, Col } from 'antd';
+import type { StrategyConfigField } from '@/lib/types';
+
+interface StrategySchemaFieldsProps {
+  fields: StrategyConfigField[];
+}
+
+/**
+ * 按后端策略定义的字段描述渲染表单项（插件策略没有专属表单时使用）
+ */
+export default function StrategySchemaFields({ fields }: StrategySchemaFieldsProps) {
+  return (
+    <Row gutter={16}>
+      {fields.map((field) => (
+        <Col span={6} key={field.key}>
+          <Form.Item
+            label={field.unit ? `${field.label} (${field.unit})` : field.label}
+            name={field.key}
+            tooltip={field.description}
+            valuePropName={field.type === 'boolean' ? 'checked' : 'value'}
+          >
+            {renderInput(field)}
+          </Form.Item>
+        </Col>
+      ))}
+    </Row>
+  );
+}
+
+function renderInput(field: StrategyConfigField): React.ReactNode {
+  switch (field.type) {
+    case 'boolean':
+      return <Switch />;
+    case 'select':
+      return <Select options={field.options || []} />;
+    case 'decimal':
+      return <Input suffix={field.unit} />;
+    default:
+      return (
+        <InputNumber
+          min={field.min}
+          max={field.max}
+          precision={field.type === 'integer' ? 0 : undefined}
+          style={{ width: '100%' }}
+        />
+      );
+  }
+}
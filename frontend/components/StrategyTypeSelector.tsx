@@ -1,9 +1,16 @@
 'use client';
 
 import React, { useCallback } from 'react';
-import { Card, Row, Col, Typography, Space } from 'antd';
-import { ThunderboltOutlined, AppstoreOutlined } from '@ant-design/icons';
+import { Card, Row, Col, Typography, Space, Skeleton } from 'antd';
+import {
+  ThunderboltOutlined,
+  AppstoreOutlined,
+  FallOutlined,
+  SwapOutlined,
+  ExperimentOutlined,
+} from '@ant-design/icons';
 import type { StrategyType } from '@/lib/types';
+import { useStrategyTypes } from '@/hooks/useStrategyTypes';
 
 const { Title, Text, Paragraph } = Typography;
 
@@ -12,30 +19,16 @@ interface StrategyTypeSelectorProps {
   onChange?: (type: StrategyType) => void;
 }
 
-interface StrategyOption {
-  type: StrategyType;
-  icon: React.ReactNode;
-  name: string;
-  description: string;
-  scenarios: string;
-}
+const ICON_STYLE = { fontSize: 28 };
 
-const STRATEGY_OPTIONS: StrategyOption[] = [
-  {
-    type: 'scalping',
-    icon: <ThunderboltOutlined style={{ fontSize: 28 }} />,
-    name: '剥头皮',
-    description: '高频低价差交易，在买一价挂单，成交后加价差卖出',
-    scenarios: '适合波动小、流动性好的交易对',
-  },
-  {
-    type: 'grid',
-    icon: <AppstoreOutlined style={{ fontSize: 28 }} />,
-    name: '网格策略',
-    description: '在价格区间内设置网格，自动低买高卖',
-    scenarios: '适合震荡行情，无需判断方向',
-  },
-];
+/** 后端策略定义中的图标名 → antd 图标，未收录的图标名使用默认图标 */
+const STRATEGY_ICONS: Record<string, React.ReactNode> = {
+  ThunderboltOutlined: <ThunderboltOutlined style={ICON_STYLE} />,
+  AppstoreOutlined: <AppstoreOutlined style={ICON_STYLE} />,
+  FallOutlined: <FallOutlined style={ICON_STYLE} />,
+  SwapOutlined: <SwapOutlined style={ICON_STYLE} />,
+};
+const DEFAULT_ICON = <ExperimentOutlined style={ICON_STYLE} />;
 
 export default function StrategyTypeSelector({
   value,
@@ -48,12 +41,21 @@ export default function StrategyTypeSelector({
     [onChange]
   );
 
+  const { strategyTypes, isLoading } = useStrategyTypes();
+
+  if (isLoading) {
+    return <Skeleton active paragraph={{ rows: 2 }} />;
+  }
+
+  // 一行最多 4 张卡片，更多时换行
+  const span = Math.max(6, Math.floor(24 / Math.max(strategyTypes.length, 1)));
+
   return (
-    <Row gutter={16}>
-      {STRATEGY_OPTIONS.map((option) => {
+    <Row gutter={[16, 16]}>
+      {strategyTypes.map((option) => {
         const isSelected = value === option.type;
         return (
-          <Col span={12} key={option.type}>
+          <Col span={span} key={option.type}>
             <Card
               hoverable
               onClick={() => handleSelect(option.type)}
@@ -74,7 +76,7 @@ export default function StrategyTypeSelector({
                       display: 'inline-flex',
                     }}
                   >
-                    {option.icon}
+                    {(option.icon && STRATEGY_ICONS[option.icon]) || DEFAULT_ICON}
                   </span>
                   <Title
                     level={5}
@@ -83,7 +85,7 @@ export default function StrategyTypeSelector({
                       color: isSelected ? '#1677ff' : undefined,
                     }}
                   >
-                    {option.name}
+                    {option.label}
                   </Title>
                 </Space>
                 <Paragraph
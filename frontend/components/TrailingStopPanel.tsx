@@ -0,0 +1,99 @@
+'use client';
+
+import React from 'react';
+import { Card, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useStrategyStatus } from '@/hooks/useStrategyStatus';
+import type { TrailingStopSnapshot } from '@/lib/types';
+import { formatTimestamp, truncateOrderId } from '@/lib/formatters';
+import { DIRECTION_LABELS } from '@/lib/constants';
+
+const { Text } = Typography;
+
+/** 止损价相对入场价已锁定的收益比例（负数表示仍在亏损区） */
+function lockedPercent(stop: TrailingStopSnapshot): number {
+  const entry = parseFloat(stop.entryPrice);
+  const stopPrice = parseFloat(stop.stopPrice);
+  if (!(entry > 0)) return 0;
+  const diff = stop.direction === 'long' ? stopPrice - entry : entry - stopPrice;
+  return (diff / entry) * 100;
+}
+
+export default function TrailingStopPanel() {
+  const { status } = useStrategyStatus();
+  const stops = status?.trailingStops || [];
+
+  // 未启用追踪止损时不占用面板空间
+  if (!status?.config?.positionTrailingEnabled && stops.length === 0) return null;
+
+  const columns: ColumnsType<TrailingStopSnapshot> = [
+    {
+      title: '出场单',
+      dataIndex: 'key',
+      width: 140,
+      render: (id: string) => (
+        <Text copyable={{ text: id }} style={{ fontFamily: 'monospace', fontSize: 12 }}>
+          {truncateOrderId(id)}
+        </Text>
+      ),
+    },
+    {
+      title: '方向',
+      dataIndex: 'direction',
+      width: 80,
+      render: (dir: string) => (
+        <Tag color={dir === 'long' ? 'green' : 'red'}>{DIRECTION_LABELS[dir] || dir}</Tag>
+      ),
+    },
+    {
+      title: '入场价',
+      dataIndex: 'entryPrice',
+      align: 'right',
+      render: (v: string) => <span className="mono-number">{v}</span>,
+    },
+    {
+      title: '最优价',
+      dataIndex: 'peakPrice',
+      align: 'right',
+      render: (v: string) => <span className="mono-number">{v}</span>,
+    },
+    {
+      title: '止损价',
+      dataIndex: 'stopPrice',
+      align: 'right',
+      render: (v: string, record) => {
+        const locked = lockedPercent(record);
+        return (
+          <span className="mono-number" style={{ color: locked >= 0 ? '#3f8600' : '#cf1322' }}>
+            {v} ({locked >= 0 ? '+' : ''}{locked.toFixed(2)}%)
+          </span>
+        );
+      },
+    },
+    {
+      title: '数量',
+      dataIndex: 'size',
+      align: 'right',
+      render: (v: string) => <span className="mono-number">{v}</span>,
+    },
+    {
+      title: '更新时间',
+      dataIndex: 'updatedAt',
+      width: 130,
+      render: (ts: number) => formatTimestamp(ts),
+    },
+  ];
+
+  return (
+    <Card title={`单笔追踪止损 (${stops.length})`} size="small">
+      <Table
+        rowKey="key"
+        columns={columns}
+        dataSource={stops}
+        size="small"
+        pagination={stops.length > 10 ? { pageSize: 10, size: 'small' } : false}
+        locale={{ emptyText: '暂无追踪中的持仓' }}
+      />
+    </Card>
+  );
+}
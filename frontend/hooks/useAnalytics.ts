@@ -0,0 +1,16 @@
+import useSWR from 'swr';
+import { swrFetcher } from '@/lib/api';
+import { ANALYTICS_REPORT_KEY, ANALYTICS_POLL_MS } from '@/lib/constants';
+import type { AnalyticsReport } from '@/lib/types';
+
+export function useAnalytics(initialCapital?: number | null) {
+  const key = initialCapital
+    ? `${ANALYTICS_REPORT_KEY}?initialCapital=${initialCapital}`
+    : ANALYTICS_REPORT_KEY;
+  const { data, error, isLoading } = useSWR<AnalyticsReport>(
+    key,
+    swrFetcher,
+    { refreshInterval: ANALYTICS_POLL_MS }
+  );
+  return { report: data, error, isLoading };
+}
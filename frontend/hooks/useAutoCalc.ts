@@ -18,6 +18,8 @@ export interface ParameterBounds {
   gridCount?: { min: number; max: number };
   upperPrice?: { min: number; max: number };
   lowerPrice?: { min: number; max: number };
+  maxSafetyOrders?: { min: number; max: number };
+  takeProfitPercent?: { min: number; recommended: number; max: number };
   maxPositionPercent?: { min: number; recommended: number; max: number };
   maxDailyLossPercent?: { min: number; recommended: number; max: number };
 }
@@ -38,6 +40,7 @@ export interface SimpleConfigInput {
   riskLevel: RiskLevel;
   maxPositionPercent?: number;
   maxDailyLossPercent?: number;
+  accountId?: string;
 }
 
 const TOKEN_KEY = 'bitget_auth_token';
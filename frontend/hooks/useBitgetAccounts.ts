@@ -0,0 +1,12 @@
+import useSWR from 'swr';
+import { swrFetcher } from '@/lib/api';
+import { BITGET_ACCOUNTS_KEY } from '@/lib/constants';
+import type { BitgetAccount } from '@/lib/types';
+
+export function useBitgetAccounts() {
+  const { data, error, isLoading, mutate } = useSWR<BitgetAccount[]>(
+    BITGET_ACCOUNTS_KEY,
+    swrFetcher
+  );
+  return { accounts: data, error, isLoading, refresh: mutate };
+}
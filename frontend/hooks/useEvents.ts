@@ -1,13 +1,15 @@
 import useSWR from 'swr';
 import { swrFetcher } from '@/lib/api';
-import { EVENTS_POLL_INTERVAL_MS, MAX_EVENTS_DISPLAY } from '@/lib/constants';
-import type { StrategyEvent } from '@/lib/types';
+import { EVENTS_POLL_INTERVAL_MS, STRATEGY_EVENTS_KEY } from '@/lib/constants';
+import type { StrategyEventPage } from '@/lib/types';
+import { useStreamConnected } from '@/hooks/useStrategyStream';
 
 export function useEvents() {
-  const { data, error, isLoading } = useSWR<StrategyEvent[]>(
-    `/api/strategy/events?limit=${MAX_EVENTS_DISPLAY}`,
+  const streamConnected = useStreamConnected();
+  const { data, error, isLoading } = useSWR<StrategyEventPage>(
+    STRATEGY_EVENTS_KEY,
     swrFetcher,
-    { refreshInterval: EVENTS_POLL_INTERVAL_MS }
+    { refreshInterval: streamConnected ? 0 : EVENTS_POLL_INTERVAL_MS }
   );
-  return { events: data, error, isLoading };
+  return { events: data?.events, error, isLoading };
 }
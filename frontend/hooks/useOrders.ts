@@ -1,13 +1,15 @@
 import useSWR from 'swr';
 import { swrFetcher } from '@/lib/api';
-import { ORDERS_POLL_INTERVAL_MS } from '@/lib/constants';
+import { ORDERS_POLL_INTERVAL_MS, STRATEGY_ORDERS_KEY } from '@/lib/constants';
 import type { OrdersResponse } from '@/lib/types';
+import { useStreamConnected } from '@/hooks/useStrategyStream';
 
 export function useOrders() {
+  const streamConnected = useStreamConnected();
   const { data, error, isLoading } = useSWR<OrdersResponse>(
-    '/api/strategy/orders',
+    STRATEGY_ORDERS_KEY,
     swrFetcher,
-    { refreshInterval: ORDERS_POLL_INTERVAL_MS }
+    { refreshInterval: streamConnected ? 0 : ORDERS_POLL_INTERVAL_MS }
   );
   return { orders: data, error, isLoading };
 }
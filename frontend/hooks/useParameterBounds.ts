@@ -10,6 +10,8 @@ export interface ParameterBounds {
   gridCount?: { min: number; max: number };
   upperPrice?: { min: number; max: number };
   lowerPrice?: { min: number; max: number };
+  maxSafetyOrders?: { min: number; max: number };
+  takeProfitPercent?: { min: number; recommended: number; max: number };
 }
 
 export function useParameterBounds(
@@ -1,13 +1,15 @@
 import useSWR from 'swr';
 import { swrFetcher } from '@/lib/api';
-import { POLL_INTERVAL_MS } from '@/lib/constants';
+import { POLL_INTERVAL_MS, STRATEGY_PNL_KEY } from '@/lib/constants';
 import type { PnlSummary } from '@/lib/types';
+import { useStreamConnected } from '@/hooks/useStrategyStream';
 
 export function usePnl() {
+  const streamConnected = useStreamConnected();
   const { data, error, isLoading } = useSWR<PnlSummary>(
-    '/api/strategy/pnl',
+    STRATEGY_PNL_KEY,
     swrFetcher,
-    { refreshInterval: POLL_INTERVAL_MS }
+    { refreshInterval: streamConnected ? 0 : POLL_INTERVAL_MS }
   );
   return { pnl: data, error, isLoading };
 }
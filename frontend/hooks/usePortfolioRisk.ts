@@ -0,0 +1,16 @@
+import useSWR from 'swr';
+import { swrFetcher } from '@/lib/api';
+import { PORTFOLIO_RISK_KEY, PORTFOLIO_RISK_POLL_MS } from '@/lib/constants';
+import type { PortfolioRiskSnapshot } from '@/lib/types';
+
+export function usePortfolioRisk(accountId?: string) {
+  const key = accountId
+    ? `${PORTFOLIO_RISK_KEY}?accountId=${encodeURIComponent(accountId)}`
+    : PORTFOLIO_RISK_KEY;
+  const { data, error, isLoading } = useSWR<PortfolioRiskSnapshot>(
+    key,
+    swrFetcher,
+    { refreshInterval: PORTFOLIO_RISK_POLL_MS }
+  );
+  return { snapshot: data, error, isLoading };
+}
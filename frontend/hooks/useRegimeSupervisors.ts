@@ -0,0 +1,13 @@
+import useSWR from 'swr';
+import { swrFetcher } from '@/lib/api';
+import { REGIME_SUPERVISORS_KEY, REGIME_SUPERVISORS_POLL_MS } from '@/lib/constants';
+import type { RegimeSupervisorState } from '@/lib/types';
+
+export function useRegimeSupervisors() {
+  const { data, error, isLoading } = useSWR<RegimeSupervisorState[]>(
+    REGIME_SUPERVISORS_KEY,
+    swrFetcher,
+    { refreshInterval: REGIME_SUPERVISORS_POLL_MS }
+  );
+  return { supervisors: data, error, isLoading };
+}
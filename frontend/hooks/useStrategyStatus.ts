@@ -1,13 +1,15 @@
 import useSWR from 'swr';
 import { swrFetcher } from '@/lib/api';
-import { POLL_INTERVAL_MS } from '@/lib/constants';
+import { POLL_INTERVAL_MS, STRATEGY_STATUS_KEY } from '@/lib/constants';
 import type { StrategyState } from '@/lib/types';
+import { useStreamConnected } from '@/hooks/useStrategyStream';
 
 export function useStrategyStatus() {
+  const streamConnected = useStreamConnected();
   const { data, error, isLoading, mutate } = useSWR<StrategyState>(
-    '/api/strategy/status',
+    STRATEGY_STATUS_KEY,
     swrFetcher,
-    { refreshInterval: POLL_INTERVAL_MS }
+    { refreshInterval: streamConnected ? 0 : POLL_INTERVAL_MS }
   );
   return { status: data, error, isLoading, refresh: mutate };
 }
@@ -0,0 +1,59 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useSWRConfig } from 'swr';
+import { strategyStream } from '@/lib/stream';
+import {
+  STRATEGY_STATUS_KEY,
+  STRATEGY_ORDERS_KEY,
+  STRATEGY_PNL_KEY,
+  STRATEGY_EVENTS_KEY,
+} from '@/lib/constants';
+import type { StrategyState, StrategyStreamMessageType } from '@/lib/types';
+
+const STREAM_KEYS: Record<StrategyStreamMessageType, string> = {
+  status: STRATEGY_STATUS_KEY,
+  orders: STRATEGY_ORDERS_KEY,
+  pnl: STRATEGY_PNL_KEY,
+  event: STRATEGY_EVENTS_KEY,
+};
+
+/**
+ * 推送连接是否可用（断开时各 hook 回退为轮询）
+ */
+export function useStreamConnected(): boolean {
+  return useSyncExternalStore(
+    listener => strategyStream.onConnectionChange(listener),
+    () => strategyStream.isConnected(),
+    () => false
+  );
+}
+
+/**
+ * 订阅 /api/stream 并写入 SWR 缓存
+ * 状态/订单/PnL 接口返回当前活跃实例：推送实例与缓存一致时直接写入（状态保留缓存的账户余额），否则重新请求
+ * 事件推送触发事件历史重新请求
+ */
+export function useStrategyStream(): void {
+  const { cache, mutate } = useSWRConfig();
+
+  useEffect(() => {
+    return strategyStream.subscribe(message => {
+      const key = STREAM_KEYS[message.type];
+      if (!key) return;
+
+      const activeState = cache.get(STRATEGY_STATUS_KEY)?.data as StrategyState | undefined;
+      if (message.type === 'status' && message.instanceId === activeState?.instanceId) {
+        // 引擎状态不含账户余额（只由 GET /status 查询填入），沿用缓存中的余额
+        const pushed = message.data as StrategyState;
+        mutate(key, {
+          ...pushed,
+          spotAvailableUsdt: activeState.spotAvailableUsdt,
+          futuresAvailableUsdt: activeState.futuresAvailableUsdt,
+        }, { revalidate: false });
+      } else if (message.type !== 'event' && message.instanceId === activeState?.instanceId) {
+        mutate(key, message.data, { revalidate: false });
+      } else {
+        mutate(key);
+      }
+    });
+  }, [cache, mutate]);
+}
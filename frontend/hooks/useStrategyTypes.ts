@@ -0,0 +1,16 @@
+'use client';
+
+import useSWR from 'swr';
+import { swrFetcher } from '@/lib/api';
+import type { StrategyDescriptor } from '@/lib/types';
+
+/** 已注册的策略类型只在 API 启动时变化，无需轮询 */
+export function useStrategyTypes() {
+  const { data, error, isLoading } = useSWR<StrategyDescriptor[]>(
+    '/api/strategy/types',
+    swrFetcher,
+    { revalidateOnFocus: false }
+  );
+
+  return { strategyTypes: data || [], error, isLoading };
+}
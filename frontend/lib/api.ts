@@ -2,7 +2,7 @@ import type {
   StrategyState,
   PnlSummary,
   OrdersResponse,
-  StrategyEvent,
+  StrategyEventPage,
   AnyStrategyConfig,
   ContractSpecInfo,
   InstrumentSpec,
@@ -10,12 +10,15 @@ import type {
   PolymarketSignalConfig,
   PolymarketWatchItem,
   PolymarketSearchResult,
+  ReportDownloadParams,
+  BitgetAccount,
+  BitgetAccountInput,
 } from './types';
 
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || '';
+export const API_BASE = process.env.NEXT_PUBLIC_API_BASE_URL || '';
 const TOKEN_KEY = 'bitget_auth_token';
 
-function getToken(): string | null {
+export function getToken(): string | null {
   if (typeof window === 'undefined') return null;
   return localStorage.getItem(TOKEN_KEY);
 }
@@ -37,11 +40,7 @@ async function request<T>(url: string, options?: RequestInit): Promise<T> {
 
   // Handle 401 — token expired or invalid
   if (res.status === 401) {
-    localStorage.removeItem(TOKEN_KEY);
-    if (typeof window !== 'undefined' && !window.location.pathname.includes('/login')) {
-      window.location.href = '/login';
-    }
-    throw new Error('认证已过期，请重新登录');
+    handleUnauthorized();
   }
 
   const json = await res.json();
@@ -51,6 +50,35 @@ async function request<T>(url: string, options?: RequestInit): Promise<T> {
   return json.data;
 }
 
+function handleUnauthorized(): never {
+  localStorage.removeItem(TOKEN_KEY);
+  if (typeof window !== 'undefined' && !window.location.pathname.includes('/login')) {
+    window.location.href = '/login';
+  }
+  throw new Error('认证已过期，请重新登录');
+}
+
+/**
+ * 下载文件类接口（非 JSON 响应），文件名取自 Content-Disposition
+ */
+async function requestFile(url: string): Promise<{ blob: Blob; filename: string | null }> {
+  const token = getToken();
+  const res = await fetch(`${API_BASE}${url}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (res.status === 401) {
+    handleUnauthorized();
+  }
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    throw new Error(json?.error?.message || json?.message || '下载失败');
+  }
+
+  const match = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '');
+  return { blob: await res.blob(), filename: match ? match[1] : null };
+}
+
 export const api = {
   // Auth
   login: (username: string, password: string) =>
@@ -63,7 +91,8 @@ export const api = {
   getStatus: () => request<StrategyState>('/api/strategy/status'),
   getPnl: () => request<PnlSummary>('/api/strategy/pnl'),
   getOrders: () => request<OrdersResponse>('/api/strategy/orders'),
-  getEvents: (limit = 50) => request<StrategyEvent[]>(`/api/strategy/events?limit=${limit}`),
+  getEvents: (limit = 50, cursor?: string) =>
+    request<StrategyEventPage>(`/api/strategy/events?limit=${limit}${cursor ? `&cursor=${cursor}` : ''}`),
 
   startStrategy: (config?: Partial<AnyStrategyConfig>) =>
     request<StrategyState>('/api/strategy/start', {
@@ -85,6 +114,25 @@ export const api = {
       body: JSON.stringify(changes),
     }),
 
+  // Strategy instances
+  listInstances: () => request<StrategyState[]>('/api/strategy/instances'),
+  startInstance: (instanceId: string, config?: Partial<AnyStrategyConfig>) =>
+    request<StrategyState>(`/api/strategy/${encodeURIComponent(instanceId)}/start`, {
+      method: 'POST',
+      body: JSON.stringify(config || {}),
+    }),
+  stopInstance: (instanceId: string) =>
+    request<StrategyState>(`/api/strategy/${encodeURIComponent(instanceId)}/stop`, { method: 'POST' }),
+  emergencyStopInstance: (instanceId: string) =>
+    request<StrategyState>(`/api/strategy/${encodeURIComponent(instanceId)}/emergency-stop`, { method: 'POST' }),
+  updateInstanceConfig: (instanceId: string, changes: Partial<AnyStrategyConfig>) =>
+    request<AnyStrategyConfig>(`/api/strategy/${encodeURIComponent(instanceId)}/config`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    }),
+  removeInstance: (instanceId: string) =>
+    request<unknown>(`/api/strategy/${encodeURIComponent(instanceId)}`, { method: 'DELETE' }),
+
   getContractSpec: (symbol: string) =>
     request<ContractSpecInfo>(`/api/contracts/specs/${encodeURIComponent(symbol)}`),
 
@@ -150,6 +198,36 @@ export const api = {
       body: JSON.stringify({ oldPassword, newPassword }),
     }),
 
+  // Bitget accounts
+  getBitgetAccounts: () =>
+    request<BitgetAccount[]>('/api/bitget-accounts'),
+  createBitgetAccount: (input: BitgetAccountInput) =>
+    request<BitgetAccount>('/api/bitget-accounts', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    }),
+  updateBitgetAccount: (accountId: string, input: BitgetAccountInput) =>
+    request<BitgetAccount>(`/api/bitget-accounts/${encodeURIComponent(accountId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    }),
+  deleteBitgetAccount: (accountId: string) =>
+    request<unknown>(`/api/bitget-accounts/${encodeURIComponent(accountId)}`, { method: 'DELETE' }),
+  testBitgetAccount: (accountId: string) =>
+    request<{ accountType: string; spotAvailableUsdt: string }>(
+      `/api/bitget-accounts/${encodeURIComponent(accountId)}/test`,
+      { method: 'POST' }
+    ),
+
+  // Reports
+  downloadReport: (params: ReportDownloadParams) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    }
+    return requestFile(`/api/reports/download?${query.toString()}`);
+  },
+
   // Polymarket
   getPolymarketSignal: () =>
     request<MacroSignalSnapshot>('/api/polymarket/signal'),
@@ -1,10 +1,16 @@
-import type { StrategyStatus, StrategyEventType, StrategyType, TradingType, SignalDirection, PolymarketCategory } from './types';
+import type { StrategyStatus, StrategyEventType, StrategyType, TradingType, SignalDirection, PolymarketCategory, ReportFormat, ReportScope } from './types';
 
 export const POLL_INTERVAL_MS = 2000;
 export const ORDERS_POLL_INTERVAL_MS = 3000;
 export const EVENTS_POLL_INTERVAL_MS = 3000;
 export const MAX_EVENTS_DISPLAY = 50;
 
+// SWR 缓存 key（/api/stream 推送按 key 写入缓存）
+export const STRATEGY_STATUS_KEY = '/api/strategy/status';
+export const STRATEGY_ORDERS_KEY = '/api/strategy/orders';
+export const STRATEGY_PNL_KEY = '/api/strategy/pnl';
+export const STRATEGY_EVENTS_KEY = `/api/strategy/events?limit=${MAX_EVENTS_DISPLAY}`;
+
 export const STATUS_LABELS: Record<StrategyStatus, string> = {
   STOPPED: '已停止',
   STARTING: '启动中',
@@ -38,6 +44,58 @@ export const EVENT_CONFIG: Record<StrategyEventType, { label: string; color: str
   GRID_BUY_FILLED: { label: '网格买入', color: 'cyan' },
   GRID_SELL_FILLED: { label: '网格卖出', color: 'green' },
   GRID_LEVEL_UPDATED: { label: '网格更新', color: 'blue' },
+  FUNDING_SETTLED: { label: '资金费结算', color: 'gold' },
+  ORDERS_RECONCILED: { label: '启动对账', color: 'geekblue' },
+  STRATEGY_SUSPENDED: { label: '策略挂起', color: 'default' },
+  EXCHANGE_STOP_LOSS_UPDATED: { label: '交易所止损', color: 'volcano' },
+  POSITION_DRIFT: { label: '仓位漂移', color: 'magenta' },
+  DCA_CYCLE_STARTED: { label: 'DCA 开仓', color: 'blue' },
+  DCA_SAFETY_FILLED: { label: '安全单成交', color: 'cyan' },
+  DCA_CYCLE_CLOSED: { label: 'DCA 平仓', color: 'green' },
+  BASIS_HEDGE_OPENED: { label: '期现建仓', color: 'blue' },
+  BASIS_HEDGE_CLOSED: { label: '期现平仓', color: 'green' },
+  BASIS_HEDGE_REBALANCED: { label: '对冲调整', color: 'purple' },
+  BASIS_LEG_IMBALANCE: { label: '单腿风险', color: 'red' },
+  TRAILING_STOP_MOVED: { label: '止损移动', color: 'lime' },
+  TRAILING_STOP_TRIGGERED: { label: '追踪止损', color: 'volcano' },
+  REGIME_SWITCHED: { label: '模式切换', color: 'purple' },
+  PORTFOLIO_RISK_BREACH: { label: '组合风控', color: 'red' },
+  FUNDING_GUARD_CHANGED: { label: '资金费保护', color: 'gold' },
+};
+
+export const REGIME_SUPERVISORS_KEY = '/api/strategy/supervisors';
+
+export const PORTFOLIO_RISK_KEY = '/api/risk/portfolio';
+
+export const BITGET_ACCOUNTS_KEY = '/api/bitget-accounts';
+
+export const PORTFOLIO_RISK_LIMIT_LABELS: Record<string, string> = {
+  gross_notional: '总名义敞口',
+  net_delta: '净敞口',
+  leverage: '杠杆',
+  daily_loss: '单日亏损',
+  drawdown: '回撤',
+};
+
+export const ANALYTICS_REPORT_KEY = '/api/analytics/report';
+
+export const ANALYTICS_PERIOD_LABELS: Record<string, string> = {
+  daily: '日',
+  weekly: '周',
+  monthly: '月',
+};
+
+export const SUPERVISED_MODE_LABELS: Record<string, { label: string; color: string }> = {
+  grid: { label: '网格', color: 'blue' },
+  scalping: { label: '剥头皮', color: 'orange' },
+  paused: { label: '暂停', color: 'default' },
+};
+
+export const MARKET_REGIME_LABELS: Record<string, string> = {
+  trending_up: '上涨趋势',
+  trending_down: '下跌趋势',
+  ranging: '震荡',
+  volatile: '高波动',
 };
 
 export const DIRECTION_LABELS: Record<string, string> = {
@@ -53,6 +111,7 @@ export const SIDE_LABELS: Record<string, string> = {
 
 export const ORDER_STATUS_LABELS: Record<string, string> = {
   pending: '挂单中',
+  partially_filled: '部分成交',
   filled: '已成交',
   cancelled: '已撤销',
   failed: '失败',
@@ -61,6 +120,8 @@ export const ORDER_STATUS_LABELS: Record<string, string> = {
 export const STRATEGY_TYPE_LABELS: Record<StrategyType, string> = {
   scalping: '剥头皮',
   grid: '网格策略',
+  dca: 'DCA 加仓',
+  basis: '期现套利',
 };
 
 export const TRADING_TYPE_LABELS: Record<TradingType, string> = {
@@ -71,6 +132,21 @@ export const TRADING_TYPE_LABELS: Record<TradingType, string> = {
 // Polymarket
 
 export const POLYMARKET_SIGNAL_POLL_MS = 30000;
+export const REGIME_SUPERVISORS_POLL_MS = 10000;
+export const PORTFOLIO_RISK_POLL_MS = 15000;
+export const ANALYTICS_POLL_MS = 60000;
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  fills: '成交明细 CSV',
+  trades: '往返交易 CSV',
+  koinly: 'Koinly 导入 CSV',
+  fifo: 'FIFO 成本报告（现货）',
+};
+
+export const REPORT_SCOPE_LABELS: Record<ReportScope, string> = {
+  strategy: '仅策略订单',
+  all: '账户全部成交',
+};
 
 export const RISK_SCORE_LABELS: Record<string, string> = {
   low: '低风险',
@@ -0,0 +1,135 @@
+import { API_BASE, getToken } from './api';
+import type { StrategyStreamMessage } from './types';
+
+type MessageListener = (message: StrategyStreamMessage) => void;
+type ConnectionListener = () => void;
+
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * /api/stream SSE 客户端
+ * EventSource 无法携带 Authorization 头，改用 fetch 读取响应流并按 SSE 格式解析
+ * 有订阅者时保持连接，断开后自动重连
+ */
+class StrategyStreamClient {
+  private messageListeners = new Set<MessageListener>();
+  private connectionListeners = new Set<ConnectionListener>();
+  private controller: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected = false;
+
+  subscribe(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    if (this.messageListeners.size === 1) {
+      this.connect();
+    }
+    return () => {
+      this.messageListeners.delete(listener);
+      if (this.messageListeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private async connect(): Promise<void> {
+    const token = getToken();
+    if (!token) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const res = await fetch(`${API_BASE}/api/stream`, {
+        headers: { Authorization: `Bearer ${token}` },
+        signal: controller.signal,
+      });
+      // 认证失效交给轮询请求处理（跳转登录），不再重连
+      if (res.status === 401) {
+        this.controller = null;
+        return;
+      }
+      if (!res.ok || !res.body) {
+        throw new Error(`推送连接失败: ${res.status}`);
+      }
+
+      this.setConnected(true);
+      await this.readStream(res.body);
+    } catch {
+      // 主动断开或网络错误，统一走重连逻辑
+    }
+
+    this.setConnected(false);
+    if (this.controller === controller && this.messageListeners.size > 0) {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, RECONNECT_DELAY_MS);
+    }
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.setConnected(false);
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        this.dispatchBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  /** 解析单条 SSE 消息，忽略注释（心跳）与 retry 指令 */
+  private dispatchBlock(block: string): void {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+
+    let message: StrategyStreamMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    this.messageListeners.forEach(listener => listener(message));
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.connectionListeners.forEach(listener => listener());
+  }
+}
+
+export const strategyStream = new StrategyStreamClient();
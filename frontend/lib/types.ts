@@ -9,8 +9,39 @@ export interface ApiResponse<T> {
 /** 交易类型 */
 export type TradingType = 'futures' | 'spot';
 
-/** 策略类型 */
-export type StrategyType = 'scalping' | 'grid';
+/** 内置策略类型 */
+export type BuiltInStrategyType = 'scalping' | 'grid' | 'dca' | 'basis';
+
+/** 策略类型（内置类型或后端插件注册的自定义类型） */
+export type StrategyType = BuiltInStrategyType | (string & {});
+
+/** 策略配置字段描述（GET /api/strategy/types） */
+export interface StrategyConfigField {
+  key: string;
+  label: string;
+  type: 'number' | 'integer' | 'decimal' | 'select' | 'boolean';
+  required?: boolean;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+  options?: Array<{ label: string; value: string }>;
+  unit?: string;
+  description?: string;
+}
+
+/** 已注册的策略类型描述 */
+export interface StrategyDescriptor {
+  type: StrategyType;
+  label: string;
+  description: string;
+  scenarios: string;
+  /** antd 图标名 */
+  icon?: string;
+  defaults: Record<string, unknown>;
+  configSchema: StrategyConfigField[];
+  builtIn: boolean;
+}
 
 /** 策略状态机 */
 export type StrategyStatus = 'STOPPED' | 'STARTING' | 'RUNNING' | 'STOPPING' | 'ERROR';
@@ -19,7 +50,7 @@ export type StrategyStatus = 'STOPPED' | 'STARTING' | 'RUNNING' | 'STOPPING' | '
 export type StrategyDirection = 'long' | 'short' | 'both';
 
 /** 追踪订单状态 */
-export type TrackedOrderStatus = 'pending' | 'filled' | 'cancelled' | 'failed';
+export type TrackedOrderStatus = 'pending' | 'partially_filled' | 'filled' | 'cancelled' | 'failed';
 
 /** 产品类型 */
 export type ProductType = 'USDT-FUTURES' | 'SUSDT-FUTURES';
@@ -32,6 +63,7 @@ export interface BaseStrategyConfig {
   strategyType: StrategyType;
   tradingType: TradingType;
   instanceId: string;
+  accountId?: string;            // 交易账户，未指定为默认账户
   symbol: string;
   orderAmountUsdt: string;
   maxPositionUsdt: string;
@@ -50,8 +82,22 @@ export interface BaseStrategyConfig {
   sizePrecision: number;
   pollIntervalMs: number;
   orderCheckIntervalMs: number;
+  positionTrailingEnabled?: boolean;
+  positionTrailingMode?: TrailingDistanceMode;
+  positionTrailingPercent?: number;
+  positionTrailingAtrMultiplier?: number;
+  fundingGuardEnabled?: boolean;
+  fundingGuardMode?: FundingGuardMode;
+  fundingGuardThresholdPercent?: number;
+  fundingGuardWindowMinutes?: number;
 }
 
+/** 单笔追踪止损距离：百分比或 ATR 倍数 */
+export type TrailingDistanceMode = 'percent' | 'atr';
+
+/** 资金费率保护：结算前暂停 / 持续偏向收费方向 */
+export type FundingGuardMode = 'pause' | 'bias';
+
 /** 剥头皮策略配置 */
 export interface ScalpingStrategyConfig extends BaseStrategyConfig {
   strategyType: 'scalping';
@@ -69,8 +115,36 @@ export interface GridStrategyConfig extends BaseStrategyConfig {
   gridType: 'arithmetic' | 'geometric';
 }
 
+/** DCA 开仓信号 */
+export type DcaEntrySignal = 'none' | 'rsi' | 'trend';
+
+/** DCA（马丁格尔加仓）策略配置，orderAmountUsdt 为基础单金额 */
+export interface DcaStrategyConfig extends BaseStrategyConfig {
+  strategyType: 'dca';
+  safetyOrderUsdt: string;
+  maxSafetyOrders: number;
+  safetyOrderDeviationPercent: number;
+  safetyOrderStepScale: number;
+  safetyOrderVolumeScale: number;
+  takeProfitPercent: number;
+  entrySignal?: DcaEntrySignal;
+  entryRsiThreshold?: number;
+}
+
+/** 期现套利策略配置（现货多 + 永续空），orderAmountUsdt 为单批建仓金额 */
+export interface BasisStrategyConfig extends BaseStrategyConfig {
+  strategyType: 'basis';
+  entryFundingAprPercent: number;
+  entryBasisPercent: number;
+  exitFundingAprPercent: number;
+  exitBasisPercent: number;
+  maxSlippagePercent: number;
+  legRetryLimit?: number;
+  hedgeRebalanceThresholdPercent: number;
+}
+
 /** 任意策略配置 */
-export type AnyStrategyConfig = ScalpingStrategyConfig | GridStrategyConfig;
+export type AnyStrategyConfig = ScalpingStrategyConfig | GridStrategyConfig | DcaStrategyConfig | BasisStrategyConfig;
 
 /** 订单角色 */
 export type OrderRole = 'entry' | 'exit';
@@ -88,6 +162,8 @@ export interface TrackedOrder {
   orderRole?: OrderRole;
   createdAt: number;
   filledAt: number | null;
+  filledSize?: string;
+  avgFillPrice?: string;
 }
 
 /** 策略运行状态 */
@@ -117,6 +193,252 @@ export interface StrategyState {
   lastTrackingPrices?: Record<string, string | null>;
   pendingExitCounts?: Record<string, number>;
   positionUsdtByDirection?: Record<string, string>;
+
+  // DCA 当前周期
+  dcaCycle?: DcaCycleSnapshot | null;
+
+  // 期现套利对冲仓位与价差
+  basisPosition?: BasisPositionSnapshot | null;
+
+  // 单笔持仓追踪止损当前止损位（剥头皮 / 网格）
+  trailingStops?: TrailingStopSnapshot[];
+}
+
+/** 单笔持仓追踪止损快照（key 为当前出场单 ID） */
+export interface TrailingStopSnapshot {
+  key: string;
+  direction: 'long' | 'short';
+  entryPrice: string;
+  peakPrice: string;
+  stopPrice: string;
+  size: string;
+  updatedAt: number;
+}
+
+/** 市场状态监管模式 */
+export type SupervisedMode = 'grid' | 'scalping' | 'paused';
+
+/** 市场状态监管的模式切换记录 */
+export interface RegimeSwitchRecord {
+  from: SupervisedMode | null;
+  to: SupervisedMode;
+  regime: string;
+  confidence: number;
+  reason: string;
+  stoppedInstanceId: string | null;
+  startedInstanceId: string | null;
+  switchedAt: number;
+}
+
+/** 市场状态监管运行状态（/api/strategy/supervisors） */
+export interface RegimeSupervisorState {
+  supervisorId: string;
+  config: {
+    symbol: string;
+    tradingType: 'futures' | 'spot';
+    direction: 'long' | 'short';
+    interval: string;
+    confirmChecks: number;
+    minDwellMs: number;
+    closeOnStop: boolean;
+  };
+  running: boolean;
+  mode: SupervisedMode | null;
+  activeInstanceId: string | null;
+  modeSince: number | null;
+  candidateMode: SupervisedMode | null;
+  candidateChecks: number;
+  lastRegime: { regime: string; confidence: number } | null;
+  lastCheckAt: number | null;
+  lastError: string | null;
+  switches: RegimeSwitchRecord[];
+}
+
+/** 组合风控已触发的限制 */
+export interface PortfolioRiskBreach {
+  limit: string;
+  coin?: string;
+  value: string;
+  threshold: string;
+  message: string;
+  since: number;
+}
+
+/** 单币种敞口 */
+export interface CoinExposure {
+  coin: string;
+  spotUsdt: string;
+  futuresLongUsdt: string;
+  futuresShortUsdt: string;
+  netUsdt: string;
+  grossUsdt: string;
+}
+
+/** 组合风控快照（/api/risk/portfolio） */
+export interface PortfolioRiskSnapshot {
+  accountId: string;
+  enabled: boolean;
+  updatedAt: number | null;
+  equityUsdt: string;
+  grossNotionalUsdt: string;
+  leverage: string;
+  dailyPnlUsdt: string;
+  instanceDailyPnlUsdt: string;
+  runningInstances: number;
+  drawdownPercent: string;
+  reservedNotionalUsdt: string;
+  exposures: CoinExposure[];
+  breaches: PortfolioRiskBreach[];
+  vetoCount: number;
+  lastVeto: {
+    timestamp: number;
+    symbol: string;
+    side: 'buy' | 'sell';
+    notionalUsdt: string;
+    limit: string;
+    reason: string;
+  } | null;
+  lastError: string | null;
+}
+
+/** 绩效分析收益周期 */
+export type AnalyticsPeriod = 'daily' | 'weekly' | 'monthly';
+
+/** 权益曲线上的一天（UTC 日期） */
+export interface EquityCurvePoint {
+  date: string;
+  pnl: string;
+  cumulativePnl: string;
+  equity: string | null;
+  drawdown: string;
+  drawdownPercent: string | null;
+  trades: number;
+}
+
+export interface PeriodReturn {
+  period: string;
+  pnl: string;
+  returnPercent: string | null;
+  trades: number;
+}
+
+export interface DrawdownPeriod {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+  depth: string;
+  depthPercent: string | null;
+  durationDays: number;
+}
+
+export interface HourlyPerformance {
+  hour: number;
+  trades: number;
+  netPnl: string;
+  winRate: string;
+}
+
+export interface PerformanceMetrics {
+  startDate: string | null;
+  endDate: string | null;
+  tradingDays: number;
+  netPnl: string;
+  totalReturnPercent: string | null;
+  totalTrades: number;
+  winTrades: number;
+  lossTrades: number;
+  winRate: string;
+  profitFactor: string | null;
+  expectancy: string;
+  avgWin: string;
+  avgLoss: string;
+  sharpeRatio: string | null;
+  sortinoRatio: string | null;
+  maxDrawdown: string;
+  maxDrawdownPercent: string | null;
+  maxDrawdownDurationDays: number;
+  avgHoldingMs: number | null;
+  fees: string;
+  funding: string;
+}
+
+/** 绩效分析报告（/api/analytics/report） */
+export interface AnalyticsReport {
+  metrics: PerformanceMetrics;
+  equityCurve: EquityCurvePoint[];
+  drawdowns: DrawdownPeriod[];
+  returns: Record<AnalyticsPeriod, PeriodReturn[]>;
+  hourly: HourlyPerformance[];
+  generatedAt: number;
+}
+
+/** 记账导出格式（/api/reports/download） */
+export type ReportFormat = 'fills' | 'trades' | 'koinly' | 'fifo';
+
+export type ReportScope = 'strategy' | 'all';
+
+export interface ReportDownloadParams {
+  format: ReportFormat;
+  accountId?: string;
+  account: TradingType;
+  productType?: string;
+  symbol?: string;
+  startTime: number;
+  endTime: number;
+  scope: ReportScope;
+}
+
+/** Bitget 交易账户（/api/bitget-accounts，不含凭证） */
+export interface BitgetAccount {
+  id: string;
+  name: string;
+  simulated: boolean;
+  description: string | null;
+  grantedUserIds: number[];
+  isDefault: boolean;
+  hasCredentials: boolean;
+  apiKeyHint: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** 新建 / 修改交易账户；凭证三项需同时提供，修改时留空则不变 */
+export interface BitgetAccountInput {
+  id?: string;
+  name?: string;
+  apiKey?: string;
+  secretKey?: string;
+  passphrase?: string;
+  simulated?: boolean;
+  description?: string | null;
+  grantedUserIds?: number[];
+}
+
+/** DCA 周期快照 */
+export interface DcaCycleSnapshot {
+  direction: 'long' | 'short';
+  basePrice: string;
+  avgPrice: string;
+  positionSize: string;
+  filledSafetyOrders: number;
+  maxSafetyOrders: number;
+  takeProfitPrice: string | null;
+  nextSafetyPrice: string | null;
+  startedAt: number;
+}
+
+/** 期现套利对冲仓位快照 */
+export interface BasisPositionSnapshot {
+  spotSize: string;
+  perpSize: string;
+  spotAvgPrice: string;
+  perpAvgPrice: string;
+  hedgeRatio: string | null;
+  notionalUsdt: string;
+  fundingAprPercent: string | null;
+  basisPercent: string | null;
+  nextFundingTime: number | null;
+  openedAt: number | null;
 }
 
 /** 策略事件类型 */
@@ -136,7 +458,24 @@ export type StrategyEventType =
   | 'EMERGENCY_STOP'
   | 'GRID_BUY_FILLED'
   | 'GRID_SELL_FILLED'
-  | 'GRID_LEVEL_UPDATED';
+  | 'GRID_LEVEL_UPDATED'
+  | 'FUNDING_SETTLED'
+  | 'ORDERS_RECONCILED'
+  | 'STRATEGY_SUSPENDED'
+  | 'EXCHANGE_STOP_LOSS_UPDATED'
+  | 'POSITION_DRIFT'
+  | 'DCA_CYCLE_STARTED'
+  | 'DCA_SAFETY_FILLED'
+  | 'DCA_CYCLE_CLOSED'
+  | 'BASIS_HEDGE_OPENED'
+  | 'BASIS_HEDGE_CLOSED'
+  | 'BASIS_HEDGE_REBALANCED'
+  | 'BASIS_LEG_IMBALANCE'
+  | 'TRAILING_STOP_MOVED'
+  | 'TRAILING_STOP_TRIGGERED'
+  | 'REGIME_SWITCHED'
+  | 'PORTFOLIO_RISK_BREACH'
+  | 'FUNDING_GUARD_CHANGED';
 
 /** 策略事件 */
 export interface StrategyEvent {
@@ -145,10 +484,36 @@ export interface StrategyEvent {
   data: Record<string, unknown>;
 }
 
+export interface PersistedStrategyEvent extends StrategyEvent {
+  id: string;
+  instanceId: string | null;
+  strategyType: string | null;
+  symbol: string | null;
+}
+
+export interface StrategyEventPage {
+  events: PersistedStrategyEvent[];
+  nextCursor: string | null;
+}
+
+export type StrategyStreamMessageType = 'status' | 'event' | 'orders' | 'pnl';
+
+export interface StrategyStreamMessage {
+  type: StrategyStreamMessageType;
+  instanceId: string;
+  accountId?: string;
+  timestamp: number;
+  data: unknown;
+}
+
 /** PnL 汇总 */
 export interface PnlSummary {
   realizedPnl: string;
   unrealizedPnl: string;
+  grossPnl: string;
+  fees: string;
+  funding: string;
+  netPnl: string;
   dailyPnl: string;
   totalTrades: number;
   winTrades: number;
@@ -189,6 +554,7 @@ export interface InstrumentSpec {
 export interface OrdersResponse {
   total: number;
   pending: number;
+  partiallyFilled: number;
   filled: number;
   cancelled: number;
   orders: TrackedOrder[];